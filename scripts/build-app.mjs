@@ -189,7 +189,8 @@ function getSubjectName(appId, appConfig) {
 }
 
 /**
- * Build exercise data for the app
+ * Build exercise data for the app.
+ * Small pictures from src/apps/<id>/assets/ are inlined as data URLs.
  */
 function buildExerciseData(appId) {
     log.info('Building exercise data...');
@@ -225,7 +226,7 @@ window.__TRAINER_EXERCISES__ = {
 
     // Run the build-exercise-data script with app parameter
     try {
-        execSync(`node "${join(rootDir, 'scripts', 'build-exercise-data.mjs')}" --app ${appId}`, {
+        execSync(`node "${join(rootDir, 'scripts', 'build-exercise-data.mjs')}" --app ${appId} --inline-assets`, {
             stdio: 'inherit',
             cwd: rootDir,
         });
@@ -237,7 +238,8 @@ window.__TRAINER_EXERCISES__ = {
 }
 
 /**
- * Copy app-specific assets
+ * Copy app-specific assets (pictures, audio) from src/apps/<id>/assets/
+ * next to index.html, so relative "assets/..." paths work offline
  */
 function copyAppAssets(appId, isPwa = false) {
     const appAssetsDir = join(rootDir, 'src', 'apps', appId, 'assets');
@@ -11,12 +11,13 @@
  *   --input    Input JSON file path (default: src/data/exercises.json)
  *   --output   Output JS file path (default: public/data/exercises.js)
  *   --validate Validate exercises against types (default: true)
+ *   --inline-assets  Inline small app pictures as data URLs (with --app)
  *   --help     Show help message
  */
 
-import { writeFileSync, mkdirSync, existsSync, readFileSync } from 'fs';
+import { writeFileSync, mkdirSync, existsSync, readFileSync, statSync } from 'fs';
 import { fileURLToPath } from 'url';
-import { dirname, join, resolve } from 'path';
+import { dirname, join, resolve, extname } from 'path';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -54,6 +55,7 @@ function parseArgs() {
         input: join(rootDir, 'src', 'data', 'exercises.json'),
         output: join(rootDir, 'public', 'data', 'exercises.js'),
         validate: true,
+        inlineAssets: false,
         help: false,
     };
 
@@ -79,6 +81,9 @@ function parseArgs() {
             case '--no-validate':
                 args.validate = false;
                 break;
+            case '--inline-assets':
+                args.inlineAssets = true;
+                break;
             case '--help':
             case '-h':
                 args.help = true;
@@ -113,6 +118,8 @@ ${colors.bright}Options:${colors.reset}
                      (default: public/data/exercises.js)
   --validate <bool>  Validate exercises against types (default: true)
   --no-validate      Skip validation
+  --app <id>         Build src/apps/<id>/exercises.json
+  --inline-assets    Inline app pictures up to 16 KB as data URLs (with --app)
   --help, -h         Show this help message
 
 ${colors.bright}Examples:${colors.reset}
@@ -136,6 +143,19 @@ const EXERCISE_TYPES = [
     'connector-insert',
     'word-order',
     'picture-vocabulary',
+    'cloze-text',
+    'number-line',
+    'clock',
+    'listening',
+    'hotspot',
+    'sequence',
+    'memory',
+    'crossword',
+    'arithmetic',
+    'drawing',
+    'note-reading',
+    'rhythm',
+    'syllables',
 ];
 
 /**
@@ -184,8 +204,11 @@ function validateExercise(exercise, index) {
         });
     }
 
-    // Validate content based on type
-    if (exercise.type && exercise.content) {
+    // Validate content based on type (template content has placeholders and
+    // is checked on an expansion by scripts/validate-config.mjs)
+    if (exercise.template !== undefined) {
+        errors.push(...validateTemplate(exercise.template, index));
+    } else if (exercise.type && exercise.content) {
         const contentErrors = validateContent(exercise.type, exercise.content, index);
         errors.push(...contentErrors);
     }
@@ -201,6 +224,33 @@ function validateExercise(exercise, index) {
     return { errors, warnings };
 }
 
+/**
+ * Validate the variables of an exercise template
+ * @param {Object} template - Exercise template
+ * @param {number} index - Exercise index
+ * @returns {Array} Array of validation errors
+ */
+function validateTemplate(template, index) {
+    const errors = [];
+    const basePath = `exercises[${index}].template`;
+
+    if (!template || typeof template.variables !== 'object' || template.variables === null
+        || Object.keys(template.variables).length === 0) {
+        errors.push({ path: `${basePath}.variables`, message: 'Template needs at least one variable' });
+        return errors;
+    }
+    for (const [name, variable] of Object.entries(template.variables)) {
+        if (typeof variable?.min !== 'number' || typeof variable.max !== 'number' || variable.min > variable.max) {
+            errors.push({ path: `${basePath}.variables.${name}`, message: 'min must be a number not greater than max' });
+        }
+    }
+    if (template.distractors && !(template.formulas && 'answer' in template.formulas)) {
+        errors.push({ path: `${basePath}.formulas`, message: 'Distractors need an "answer" formula' });
+    }
+
+    return errors;
+}
+
 /**
  * Validate exercise content based on type
  * @param {string} type - Exercise type
@@ -325,21 +375,260 @@ function validateContent(type, content, index) {
             break;
 
         case 'picture-vocabulary':
-            if (!content.picture) {
-                errors.push({ path: `${basePath}.picture`, message: 'Missing picture' });
+            if (!content.picture && !content.image) {
+                errors.push({ path: `${basePath}.picture`, message: 'Missing picture or image' });
             }
-            if (!content.pictureAlt) {
+            if (content.picture && !content.image && !content.pictureAlt) {
                 errors.push({ path: `${basePath}.pictureAlt`, message: 'Missing pictureAlt for accessibility' });
             }
             if (!content.correctAnswer) {
                 errors.push({ path: `${basePath}.correctAnswer`, message: 'Missing correctAnswer' });
             }
             break;
+
+        case 'cloze-text':
+            if (!content.text) {
+                errors.push({ path: `${basePath}.text`, message: 'Missing text' });
+            }
+            if (!Array.isArray(content.blanks) || content.blanks.length === 0) {
+                errors.push({ path: `${basePath}.blanks`, message: 'Must have at least 1 blank' });
+            }
+            if (Array.isArray(content.blanks)) {
+                content.blanks.forEach((blank, i) => {
+                    if (!blank.correctAnswer) {
+                        errors.push({ path: `${basePath}.blanks[${i}].correctAnswer`, message: 'Missing correctAnswer' });
+                    }
+                    if (content.text && !content.text.includes(`{{${blank.id}}}`)) {
+                        errors.push({ path: `${basePath}.text`, message: `Text must contain {{${blank.id}}} placeholder` });
+                    }
+                });
+            }
+            break;
+
+        case 'number-line':
+            if (content.mode !== 'place' && content.mode !== 'read') {
+                errors.push({ path: `${basePath}.mode`, message: 'Mode must be "place" or "read"' });
+            }
+            if (typeof content.min !== 'number' || typeof content.max !== 'number' || content.min >= content.max) {
+                errors.push({ path: `${basePath}.max`, message: 'min must be less than max' });
+            }
+            if (!(content.tickInterval > 0)) {
+                errors.push({ path: `${basePath}.tickInterval`, message: 'tickInterval must be greater than 0' });
+            }
+            if (typeof content.target !== 'number' || content.target < content.min || content.target > content.max) {
+                errors.push({ path: `${basePath}.target`, message: 'target must lie between min and max' });
+            }
+            break;
+
+        case 'clock':
+            if (content.mode !== 'read' && content.mode !== 'set') {
+                errors.push({ path: `${basePath}.mode`, message: 'Mode must be "read" or "set"' });
+            }
+            if (!/^\d{1,2}:\d{2}$/.test(content.time ?? '')) {
+                errors.push({ path: `${basePath}.time`, message: 'time must be given as H:MM' });
+            }
+            break;
+
+        case 'listening':
+            if (!content.audio?.src && !content.audio?.text) {
+                errors.push({ path: `${basePath}.audio`, message: 'Audio needs src or text' });
+            }
+            if (!Array.isArray(content.options) || content.options.length < 2) {
+                errors.push({ path: `${basePath}.options`, message: 'Must have at least 2 options' });
+            }
+            if (typeof content.correctIndex !== 'number' || content.correctIndex < 0 || content.correctIndex >= content.options?.length) {
+                errors.push({ path: `${basePath}.correctIndex`, message: 'Invalid correctIndex' });
+            }
+            break;
+
+        case 'hotspot':
+            if (!content.image) {
+                errors.push({ path: `${basePath}.image`, message: 'Missing image' });
+            }
+            if (!Array.isArray(content.regions) || content.regions.length < 2) {
+                errors.push({ path: `${basePath}.regions`, message: 'Must have at least 2 regions' });
+            }
+            if (!Array.isArray(content.correctRegionIds) || content.correctRegionIds.length === 0) {
+                errors.push({ path: `${basePath}.correctRegionIds`, message: 'Must have at least 1 correct region' });
+            }
+            break;
+
+        case 'sequence':
+            if (!Array.isArray(content.correctOrder) || content.correctOrder.length < 2) {
+                errors.push({ path: `${basePath}.correctOrder`, message: 'Must have at least 2 cards' });
+            }
+            break;
+
+        case 'memory':
+            if (!Array.isArray(content.pairs) || content.pairs.length < 2) {
+                errors.push({ path: `${basePath}.pairs`, message: 'Must have at least 2 pairs' });
+            }
+            if (Array.isArray(content.pairs)) {
+                content.pairs.forEach((pair, i) => {
+                    if (!pair.left || !pair.right) {
+                        errors.push({ path: `${basePath}.pairs[${i}]`, message: 'Pair must have left and right' });
+                    }
+                });
+            }
+            break;
+
+        case 'crossword':
+            if (!Array.isArray(content.words) || content.words.length < 2) {
+                errors.push({ path: `${basePath}.words`, message: 'Must have at least 2 words' });
+            }
+            if (Array.isArray(content.words)) {
+                content.words.forEach((entry, i) => {
+                    if (!entry.word || !entry.clue) {
+                        errors.push({ path: `${basePath}.words[${i}]`, message: 'Word must have word and clue' });
+                    }
+                });
+            }
+            break;
+
+        case 'arithmetic':
+            if (content.mode === 'column') {
+                if (!Array.isArray(content.operands) || content.operands.length < 2) {
+                    errors.push({ path: `${basePath}.operands`, message: 'Must have at least 2 operands' });
+                }
+                if (content.operation !== '+' && content.operation !== '-') {
+                    errors.push({ path: `${basePath}.operation`, message: 'Invalid operation' });
+                }
+            } else if (!content.question || content.answer === undefined || content.answer === '') {
+                errors.push({ path: basePath, message: 'Must have question and answer' });
+            }
+            break;
+
+        case 'drawing':
+            if (!content.prompt) {
+                errors.push({ path: `${basePath}.prompt`, message: 'Missing prompt' });
+            }
+            if (content.trace !== undefined && (typeof content.trace !== 'string' || !/^\s*[Mm]/.test(content.trace))) {
+                errors.push({ path: `${basePath}.trace`, message: 'Trace must be SVG path data' });
+            }
+            break;
+
+        case 'note-reading':
+        case 'rhythm':
+            if (typeof content.notation !== 'string' || content.notation.trim() === '') {
+                errors.push({ path: `${basePath}.notation`, message: 'Missing notation' });
+            }
+            break;
+
+        case 'syllables':
+            if (!Array.isArray(content.segmentations) || content.segmentations.length === 0) {
+                errors.push({ path: `${basePath}.segmentations`, message: 'Must have at least 1 segmentation' });
+            }
+            break;
+    }
+
+    // Pictures need a file in the app's assets folder and alt text
+    getContentImages(content, basePath).forEach(({ image, path }) => {
+        if (typeof image?.src !== 'string' || !isAppAssetPath(image.src)) {
+            errors.push({ path: `${path}.src`, message: 'Picture must be a file in the app\'s assets folder (assets/...)' });
+        }
+        if (typeof image?.alt !== 'string' || image.alt.trim() === '') {
+            errors.push({ path: `${path}.alt`, message: 'Missing alt text for accessibility' });
+        }
+    });
+
+    return errors;
+}
+
+/**
+ * Largest picture that is inlined into the exercise data as a data URL.
+ * Larger files are loaded from the copied assets folder.
+ */
+const INLINE_IMAGE_MAX_BYTES = 16 * 1024;
+
+/**
+ * MIME types of pictures that can be inlined
+ */
+const IMAGE_MIME_TYPES = {
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+};
+
+/**
+ * Check if a path refers to a file in the app's assets folder (or is already inlined)
+ * @param {string} src - Picture path
+ * @returns {boolean} Whether the build can bundle the file
+ */
+function isAppAssetPath(src) {
+    if (src.startsWith('data:')) return true;
+    const path = src.replace(/^\/+/, '');
+    return path.startsWith('assets/') && !path.split('/').includes('..');
+}
+
+/**
+ * Collect the pictures of an exercise's content
+ * @param {Object} content - Exercise content
+ * @param {string} basePath - Path of the content for messages
+ * @returns {Array} Pictures with their paths
+ */
+function getContentImages(content, basePath) {
+    const images = [];
+    if (content.image !== undefined) {
+        images.push({ image: content.image, path: `${basePath}.image` });
+    }
+    if (content.images && typeof content.images === 'object') {
+        Object.entries(content.images).forEach(([key, image]) => {
+            images.push({ image, path: `${basePath}.images.${key}` });
+        });
     }
+    return images;
+}
 
+/**
+ * Check that every picture exists in the app's folder
+ * @param {Array} exercises - Array of exercises
+ * @param {string} appDir - App directory (src/apps/<id>)
+ * @returns {Array} Array of validation errors
+ */
+function validateAssetFiles(exercises, appDir) {
+    const errors = [];
+    exercises.forEach((exercise, index) => {
+        if (!exercise.content) return;
+        getContentImages(exercise.content, `exercises[${index}].content`).forEach(({ image, path }) => {
+            const src = image?.src;
+            if (typeof src !== 'string' || src.startsWith('data:') || !isAppAssetPath(src)) return;
+            if (!existsSync(join(appDir, src.replace(/^\/+/, '')))) {
+                errors.push({ path: `${path}.src`, message: `Asset not found: ${src}` });
+            }
+        });
+    });
     return errors;
 }
 
+/**
+ * Inline small pictures as data URLs so they are part of the exercise data.
+ * Modifies the exercises in place; the source JSON is not changed.
+ * @param {Array} exercises - Array of exercises
+ * @param {string} appDir - App directory (src/apps/<id>)
+ * @returns {number} Number of inlined pictures
+ */
+function inlineAssetImages(exercises, appDir) {
+    let count = 0;
+    exercises.forEach((exercise) => {
+        if (!exercise.content) return;
+        getContentImages(exercise.content, '').forEach(({ image }) => {
+            const src = image?.src;
+            if (typeof src !== 'string' || !isAppAssetPath(src) || src.startsWith('data:')) return;
+
+            const filePath = join(appDir, src.replace(/^\/+/, ''));
+            const mimeType = IMAGE_MIME_TYPES[extname(filePath).toLowerCase()];
+            if (!mimeType || !existsSync(filePath) || statSync(filePath).size > INLINE_IMAGE_MAX_BYTES) return;
+
+            image.src = `data:${mimeType};base64,${readFileSync(filePath).toString('base64')}`;
+            count++;
+        });
+    });
+    return count;
+}
+
 /**
  * Validate all exercises
  * @param {Array} exercises - Array of exercises
@@ -468,6 +757,9 @@ function buildExerciseData(args) {
     if (args.validate) {
         log.info('Validating exercises...');
         const { errors, warnings } = validateExercises(exercises);
+        if (args.app) {
+            errors.push(...validateAssetFiles(exercises, join(rootDir, 'src', 'apps', args.app)));
+        }
 
         if (warnings.length > 0) {
             log.warn(`${warnings.length} validation warning(s):`);
@@ -493,6 +785,14 @@ function buildExerciseData(args) {
         log.success('All exercises validated successfully');
     }
 
+    // Inline small pictures so they work without the assets folder
+    if (args.inlineAssets && args.app) {
+        const inlined = inlineAssetImages(exercises, join(rootDir, 'src', 'apps', args.app));
+        if (inlined > 0) {
+            log.success(`Inlined ${inlined} picture(s) as data URLs`);
+        }
+    }
+
     // Generate statistics
     const stats = generateStats(exercises);
 
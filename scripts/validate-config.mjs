@@ -271,6 +271,18 @@ function validateThemes(themes, result) {
             result.addWarning('themes.json', `${basePath}.color`, `Invalid color value: ${theme.color}`);
         }
 
+        if (theme.palette !== undefined) {
+            if (!Array.isArray(theme.palette) || theme.palette.length === 0) {
+                result.addWarning('themes.json', `${basePath}.palette`, 'palette must be a non-empty list of colors');
+            } else {
+                theme.palette.forEach((color, i) => {
+                    if (!isValidColor(color)) {
+                        result.addWarning('themes.json', `${basePath}.palette[${i}]`, `Invalid color value: ${color}`);
+                    }
+                });
+            }
+        }
+
         if (typeof theme.minLevel !== 'number' || theme.minLevel < 1) {
             result.addWarning('themes.json', `${basePath}.minLevel`, 'Invalid minLevel');
         }
@@ -298,6 +310,93 @@ function isValidColor(color) {
     return false;
 }
 
+/**
+ * Identifiers available in badge checkExpression strings
+ * (keep in sync with src/core/utils/badgeExpression.ts)
+ */
+const BADGE_EXPRESSION_IDENTIFIERS = [
+    'totalStars',
+    'currentStreak',
+    'longestStreak',
+    'maxLevel',
+    'themesCompleted',
+    'badgesEarned',
+    'exercisesCompleted',
+    'perfectExercises',
+];
+
+/**
+ * Variables available in scoring rule conditions
+ * (keep in sync with src/core/utils/starCalculation.ts)
+ */
+const SCORING_VARIABLES = ['attempts', 'time', 'expectedTime', 'timeRatio', 'difficulty', 'maxAttempts', 'stars'];
+
+/**
+ * Badge types that map to an expression or are checked by badge ID
+ */
+const BADGE_TYPES = [
+    'star_milestone',
+    'streak_milestone',
+    'streak_days',
+    'level_milestone',
+    'exercises_completed',
+    'perfect_exercises',
+    'theme_completion',
+    'area_mastery',
+];
+
+/**
+ * Tokens of badge and template expressions (keep in sync with src/core/utils/badgeExpression.ts)
+ */
+const EXPRESSION_TOKEN_PATTERN = /\s+|\d+(?:\.\d+)?|[A-Za-z_]\w*|&&|\|\||>=|<=|==|!=|[<>!+\-*/%()]/;
+
+/**
+ * Largest canvas side of drawing exercises (keep in sync with src/core/utils/drawing.ts)
+ */
+const MAX_DRAWING_SIZE = 1000;
+
+/**
+ * SVG path data of tracing outlines (keep in sync with src/core/utils/drawing.ts)
+ */
+const SVG_PATH_PATTERN = /^\s*[Mm][\s\dMmLlHhVvCcSsQqTtAaZz.,eE+-]*$/;
+
+/**
+ * Note, rest or beat of music notations (keep in sync with src/core/utils/music.ts)
+ */
+const NOTATION_NOTE_PATTERN = /^(?:[A-G](?:#|b)?[0-8]|r|x)(?:\/(?:1|2|4|8|16)\.?)?$/;
+
+/**
+ * Most notes, rests and beats in one notation (keep in sync with src/core/utils/music.ts)
+ */
+const MAX_NOTATION_NOTES = 32;
+
+/**
+ * Check the characters and identifiers of a badge checkExpression.
+ * Full syntax checking happens when the app loads the configuration.
+ */
+function validateBadgeExpression(expression, path, result) {
+    if (typeof expression !== 'string' || expression.trim() === '') {
+        result.addError('badges.json', path, 'checkExpression must be a non-empty string');
+        return;
+    }
+
+    const tokenPattern = new RegExp(EXPRESSION_TOKEN_PATTERN.source, 'y');
+    let index = 0;
+    while (index < expression.length) {
+        tokenPattern.lastIndex = index;
+        const match = tokenPattern.exec(expression);
+        if (!match) {
+            result.addError('badges.json', path, `Unexpected character '${expression[index]}' at position ${index}`);
+            return;
+        }
+        const token = match[0];
+        if (/^[A-Za-z_]/.test(token) && !['and', 'or', 'not'].includes(token) && !BADGE_EXPRESSION_IDENTIFIERS.includes(token)) {
+            result.addError('badges.json', path, `Unknown identifier '${token}'. Available: ${BADGE_EXPRESSION_IDENTIFIERS.join(', ')}`);
+        }
+        index += token.length;
+    }
+}
+
 /**
  * Validate badges.json
  */
@@ -343,6 +442,12 @@ function validateBadges(badges, result) {
         if (!badge.icon) {
             result.addWarning('badges.json', `${basePath}.icon`, 'Missing icon field');
         }
+
+        if (item.checkExpression !== undefined) {
+            validateBadgeExpression(item.checkExpression, `${basePath}.checkExpression`, result);
+        } else if (item.type && !BADGE_TYPES.includes(item.type)) {
+            result.addWarning('badges.json', `${basePath}.type`, `Unknown badge type "${item.type}" - badge can only be earned by its ID`);
+        }
     });
 }
 
@@ -380,7 +485,9 @@ function validateSubject(subject, result, areaIds) {
         const validTypes = [
             'fill-blank', 'multiple-choice', 'matching', 'sentence-builder',
             'sorting', 'writing', 'conjugation-table', 'connector-insert',
-            'word-order', 'picture-vocabulary'
+            'word-order', 'picture-vocabulary', 'cloze-text', 'number-line',
+            'clock', 'listening', 'hotspot', 'sequence', 'memory', 'crossword',
+            'arithmetic', 'drawing', 'note-reading', 'rhythm', 'syllables'
         ];
 
         subject.enabledExerciseTypes.forEach((type, index) => {
@@ -390,12 +497,1088 @@ function validateSubject(subject, result, areaIds) {
             }
         });
     }
+
+    // Validate per-type settings (maxAttempts 0 = unlimited)
+    if (subject.exerciseTypeConfig && typeof subject.exerciseTypeConfig === 'object') {
+        for (const [type, typeConfig] of Object.entries(subject.exerciseTypeConfig)) {
+            if (typeConfig.maxAttempts !== undefined &&
+                !(Number.isInteger(typeConfig.maxAttempts) && typeConfig.maxAttempts >= 0)) {
+                result.addError('subject.json', `exerciseTypeConfig.${type}.maxAttempts`,
+                    'maxAttempts must be a whole number (0 = unlimited)');
+            }
+            if (typeConfig.hintsEnabled !== undefined && typeof typeConfig.hintsEnabled !== 'boolean') {
+                result.addError('subject.json', `exerciseTypeConfig.${type}.hintsEnabled`,
+                    'hintsEnabled must be a boolean');
+            }
+            if (typeConfig.scoring !== undefined) {
+                validateScoringRules(typeConfig.scoring, `exerciseTypeConfig.${type}.scoring`, result);
+            }
+        }
+    }
+
+    // Validate level progression (level count and unlock rule)
+    if (subject.levelProgression !== undefined) {
+        validateLevelProgression(subject.levelProgression, 'subject.json', result);
+    }
+
+    // Validate accessibility defaults (settings on first start)
+    if (subject.accessibility !== undefined) {
+        const accessibility = subject.accessibility;
+        if (!accessibility || typeof accessibility !== 'object' || Array.isArray(accessibility)) {
+            result.addError('subject.json', 'accessibility', 'accessibility must be an object');
+        } else {
+            const validFontSizes = ['normal', 'large', 'extra-large'];
+            if (accessibility.defaultFontSize !== undefined && !validFontSizes.includes(accessibility.defaultFontSize)) {
+                result.addError('subject.json', 'accessibility.defaultFontSize',
+                    `defaultFontSize must be one of: ${validFontSizes.join(', ')}`);
+            }
+            for (const key of ['defaultHighContrast', 'defaultAnimationsEnabled', 'defaultSoundEnabled', 'defaultReadAloudEnabled']) {
+                if (accessibility[key] !== undefined && typeof accessibility[key] !== 'boolean') {
+                    result.addError('subject.json', `accessibility.${key}`, `${key} must be a boolean`);
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Validate the scoring rules of an exercise type: every condition must be
+ * an expression over the scoring variables, e.g. "attempts == 1 && time <= 5"
+ */
+function validateScoringRules(rules, basePath, result) {
+    if (!Array.isArray(rules)) {
+        result.addError('subject.json', basePath, 'scoring must be an array of rules');
+        return;
+    }
+    rules.forEach((rule, index) => {
+        const path = `${basePath}[${index}].condition`;
+        const condition = typeof rule?.condition === 'string' ? rule.condition.trim() : '';
+        if (condition === '') {
+            result.addError('subject.json', path, 'scoring rule needs a condition');
+            return;
+        }
+        if (condition === 'true' || condition === 'always') return;
+
+        let names;
+        try {
+            names = collectExpressionIdentifiers(parseExpression(condition));
+        } catch (error) {
+            result.addError('subject.json', path, error.message);
+            return;
+        }
+        for (const name of names) {
+            if (!SCORING_VARIABLES.includes(name)) {
+                result.addError('subject.json', path, `Unknown variable '${name}'. Available: ${SCORING_VARIABLES.join(', ')}`);
+            }
+        }
+    });
+}
+
+/**
+ * Validate a level progression (subject.json, or the override in app.json)
+ */
+function validateLevelProgression(progression, file, result) {
+    if (!progression || typeof progression !== 'object' || Array.isArray(progression)) {
+        result.addError(file, 'levelProgression', 'levelProgression must be an object');
+        return;
+    }
+
+    const validRules = ['all-themes', 'per-theme', 'percentage'];
+    if (progression.levelCount !== undefined &&
+        !(Number.isInteger(progression.levelCount) && progression.levelCount >= 1)) {
+        result.addError(file, 'levelProgression.levelCount',
+            'levelCount must be a whole number of at least 1');
+    }
+    if (progression.unlockRule !== undefined && !validRules.includes(progression.unlockRule)) {
+        result.addError(file, 'levelProgression.unlockRule',
+            `unlockRule must be one of: ${validRules.join(', ')}`);
+    }
+    if (progression.unlockPercentage !== undefined &&
+        !(typeof progression.unlockPercentage === 'number' &&
+            progression.unlockPercentage > 0 && progression.unlockPercentage <= 100)) {
+        result.addError(file, 'levelProgression.unlockPercentage',
+            'unlockPercentage must be a number between 1 and 100');
+    }
+}
+
+/**
+ * Validate the content of a cloze-text exercise
+ */
+function validateClozeText(content, basePath, result) {
+    if (!Array.isArray(content.blanks) || content.blanks.length === 0) {
+        result.addError('exercises.json', `${basePath}.blanks`, 'Cloze text must have at least 1 blank');
+        return;
+    }
+
+    const placeholderIds = new Set(
+        [...String(content.text ?? '').matchAll(/\{\{(\d+)\}\}/g)].map((match) => Number(match[1]))
+    );
+    const blankIds = new Set();
+
+    content.blanks.forEach((blank, index) => {
+        const blankPath = `${basePath}.blanks[${index}]`;
+        if (blankIds.has(blank.id)) {
+            result.addError('exercises.json', `${blankPath}.id`, `Duplicate blank number: ${blank.id}`);
+        }
+        blankIds.add(blank.id);
+
+        if (!placeholderIds.has(blank.id)) {
+            result.addError('exercises.json', `${basePath}.text`, `Text has no {{${blank.id}}} placeholder`);
+        }
+        if (!blank.correctAnswer) {
+            result.addError('exercises.json', `${blankPath}.correctAnswer`, 'Missing correctAnswer');
+        }
+        if (blank.options !== undefined &&
+            (!Array.isArray(blank.options) || !blank.options.includes(blank.correctAnswer))) {
+            result.addError('exercises.json', `${blankPath}.options`,
+                'Dropdown options must contain the correct answer');
+        }
+    });
+
+    placeholderIds.forEach((id) => {
+        if (!blankIds.has(id)) {
+            result.addError('exercises.json', `${basePath}.text`, `Placeholder {{${id}}} has no blank definition`);
+        }
+    });
+
+    if (content.passRatio !== undefined &&
+        !(typeof content.passRatio === 'number' && content.passRatio > 0 && content.passRatio <= 1)) {
+        result.addError('exercises.json', `${basePath}.passRatio`, 'passRatio must be between 0 and 1');
+    }
+}
+
+/**
+ * Parse a "H:MM" time into minutes after midnight, or null if invalid
+ */
+function parseClockTime(text) {
+    const match = String(text ?? '').trim().match(/^(\d{1,2})\s*[:.]\s*(\d{2})(\s*uhr)?$/i);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) return null;
+    return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Validate the content of a clock exercise
+ */
+function validateClock(content, basePath, result) {
+    if (content.mode !== 'read' && content.mode !== 'set') {
+        result.addError('exercises.json', `${basePath}.mode`, 'mode must be "read" or "set"');
+    }
+    const target = parseClockTime(content.time);
+    if (target === null) {
+        result.addError('exercises.json', `${basePath}.time`, 'time must be given as H:MM (0:00-23:59)');
+    }
+    if (content.answerFormat !== undefined && content.answerFormat !== '12h' && content.answerFormat !== '24h') {
+        result.addError('exercises.json', `${basePath}.answerFormat`, 'answerFormat must be "12h" or "24h"');
+    }
+    const minuteStep = content.minuteStep ?? 5;
+    if (!(typeof minuteStep === 'number' && minuteStep > 0 && 60 % minuteStep === 0)) {
+        result.addError('exercises.json', `${basePath}.minuteStep`, 'minuteStep must divide 60');
+    } else if (content.mode === 'set' && target !== null && target % minuteStep !== 0) {
+        result.addError('exercises.json', `${basePath}.time`, 'time cannot be set with the minute step');
+    }
+    if (content.options !== undefined && target !== null) {
+        const period = content.answerFormat === '24h' ? 24 * 60 : 12 * 60;
+        const times = Array.isArray(content.options) ? content.options.map(parseClockTime) : [null];
+        if (times.includes(null)) {
+            result.addError('exercises.json', `${basePath}.options`, 'options must be times given as H:MM');
+        } else if (!times.some((time) => (time - target) % period === 0)) {
+            result.addError('exercises.json', `${basePath}.options`, 'options must contain the correct time');
+        }
+    }
+}
+
+/**
+ * Validate exercise audio: needs a bundled file or a text to speak
+ */
+function validateAudio(audio, path, result) {
+    const hasSrc = typeof audio?.src === 'string' && audio.src.trim() !== '';
+    const hasText = typeof audio?.text === 'string' && audio.text.trim() !== '';
+    if (!hasSrc && !hasText) {
+        result.addError('exercises.json', path, 'audio needs a file (src) or a text to speak');
+    }
+}
+
+/**
+ * Validate the content of a sequence exercise: unique cards, alternate
+ * orders made of the same cards and the pass ratio
+ */
+function validateSequence(content, basePath, result) {
+    if (!Array.isArray(content.correctOrder) || content.correctOrder.length < 2) {
+        result.addError('exercises.json', `${basePath}.correctOrder`, 'sequence must have at least 2 cards');
+        return;
+    }
+    if (new Set(content.correctOrder).size !== content.correctOrder.length) {
+        result.addError('exercises.json', `${basePath}.correctOrder`, 'each card must be unique');
+    }
+    const sortedCards = [...content.correctOrder].sort().join('\n');
+    (content.alternateOrders ?? []).forEach((order, index) => {
+        if (!Array.isArray(order) || [...order].sort().join('\n') !== sortedCards) {
+            result.addError('exercises.json', `${basePath}.alternateOrders[${index}]`, 'alternate orders must contain the same cards');
+        }
+    });
+    if (content.passRatio !== undefined && !(content.passRatio > 0 && content.passRatio <= 1)) {
+        result.addError('exercises.json', `${basePath}.passRatio`, 'passRatio must be between 0 and 1');
+    }
+}
+
+/**
+ * Validate the content of a memory exercise: 2 to 12 complete pairs,
+ * each card text used in one pair only
+ */
+function validateMemory(content, basePath, result) {
+    if (!Array.isArray(content.pairs) || content.pairs.length < 2) {
+        result.addError('exercises.json', `${basePath}.pairs`, 'memory must have at least 2 pairs');
+        return;
+    }
+    if (content.pairs.length > 12) {
+        result.addError('exercises.json', `${basePath}.pairs`, 'memory can have at most 12 pairs');
+    }
+
+    const pairOfText = new Map();
+    content.pairs.forEach((pair, index) => {
+        if (!pair.left || !pair.right) {
+            result.addError('exercises.json', `${basePath}.pairs[${index}]`, 'pair must have left and right');
+            return;
+        }
+        for (const text of [pair.left, pair.right]) {
+            if (pairOfText.has(text) && pairOfText.get(text) !== index) {
+                result.addError('exercises.json', `${basePath}.pairs[${index}]`, `"${text}" is used in more than one pair`);
+            }
+            pairOfText.set(text, index);
+        }
+    });
+}
+
+/**
+ * Seed used when a crossword does not set one
+ * (keep in sync with src/core/utils/crossword.ts)
+ */
+const DEFAULT_CROSSWORD_SEED = 1;
+
+/**
+ * Layouts tried per crossword and the seed offset between two of them
+ * (keep in sync with src/core/utils/crossword.ts)
+ */
+const CROSSWORD_LAYOUT_ATTEMPTS = 20;
+const CROSSWORD_ATTEMPT_SEED_OFFSET = 7919;
+
+/**
+ * Seeded random number generator (keep in sync with src/core/utils/shuffle.ts)
+ */
+function createSeededRandom(seed) {
+    return function seededRandom() {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+        return seed / 0x7fffffff;
+    };
+}
+
+/**
+ * Shuffle an array with a seed (keep in sync with src/core/utils/shuffle.ts)
+ */
+function seededShuffle(array, seed) {
+    const result = [...array];
+    const random = createSeededRandom(seed);
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+}
+
+/**
+ * Lay out the words of a crossword once, the way the app does
+ * (keep in sync with layoutWords in src/core/utils/crossword.ts)
+ *
+ * @returns Indices of the words that could not cross the others
+ */
+function layoutCrosswordWords(words, seed, longestFirst) {
+    const steps = { across: { dr: 0, dc: 1 }, down: { dr: 1, dc: 0 } };
+    const key = (row, col) => `${row}-${col}`;
+    const cells = new Map();
+
+    const countCrossings = (letters, row, col, direction) => {
+        const { dr, dc } = steps[direction];
+        if (cells.has(key(row - dr, col - dc))) return -1;
+        if (cells.has(key(row + dr * letters.length, col + dc * letters.length))) return -1;
+
+        let crossings = 0;
+        for (let i = 0; i < letters.length; i++) {
+            const r = row + dr * i;
+            const c = col + dc * i;
+            const cell = cells.get(key(r, c));
+            if (cell) {
+                if (cell.letter !== letters[i] || cell[direction]) return -1;
+                crossings++;
+            } else if (cells.has(key(r + dc, c + dr)) || cells.has(key(r - dc, c - dr))) {
+                return -1;
+            }
+        }
+        return crossings;
+    };
+
+    const place = (letters, row, col, direction) => {
+        const { dr, dc } = steps[direction];
+        letters.forEach((letter, i) => {
+            const cellRow = row + dr * i;
+            const cellCol = col + dc * i;
+            const cell = cells.get(key(cellRow, cellCol)) ?? { row: cellRow, col: cellCol, letter, across: false, down: false };
+            cell[direction] = true;
+            cells.set(key(cellRow, cellCol), cell);
+        });
+    };
+
+    const random = createSeededRandom(seed);
+    const shuffled = seededShuffle(words.map((_, i) => i), seed);
+    const order = longestFirst ? shuffled.sort((a, b) => words[b].length - words[a].length) : shuffled;
+    let pending = order.filter((index) => words[index].length > 0);
+
+    const first = pending.shift();
+    if (first !== undefined) place(words[first], 0, 0, 'across');
+
+    let progress = true;
+    while (progress && pending.length > 0) {
+        progress = false;
+        const stillPending = [];
+
+        for (const entryIndex of pending) {
+            const letters = words[entryIndex];
+            const candidates = [];
+            const seen = new Set();
+
+            let minRow = Infinity;
+            let minCol = Infinity;
+            let maxRow = -Infinity;
+            let maxCol = -Infinity;
+            for (const { row, col } of cells.values()) {
+                minRow = Math.min(minRow, row);
+                minCol = Math.min(minCol, col);
+                maxRow = Math.max(maxRow, row);
+                maxCol = Math.max(maxCol, col);
+            }
+
+            for (const cell of cells.values()) {
+                for (const direction of ['across', 'down']) {
+                    if (cell[direction]) continue;
+                    const { dr, dc } = steps[direction];
+                    letters.forEach((letter, i) => {
+                        if (letter !== cell.letter) return;
+                        const row = cell.row - dr * i;
+                        const col = cell.col - dc * i;
+                        const id = `${row},${col},${direction}`;
+                        if (seen.has(id)) return;
+                        seen.add(id);
+
+                        const crossings = countCrossings(letters, row, col, direction);
+                        if (crossings < 1) return;
+                        const height = Math.max(maxRow, row + dr * (letters.length - 1)) - Math.min(minRow, row) + 1;
+                        const width = Math.max(maxCol, col + dc * (letters.length - 1)) - Math.min(minCol, col) + 1;
+                        candidates.push({ row, col, direction, crossings, area: width * height });
+                    });
+                }
+            }
+
+            if (candidates.length === 0) {
+                stillPending.push(entryIndex);
+                continue;
+            }
+
+            candidates.sort((a, b) => b.crossings - a.crossings || a.area - b.area);
+            const best = candidates.filter((c) => c.crossings === candidates[0].crossings && c.area === candidates[0].area);
+            const choice = best[Math.floor(random() * best.length)] ?? candidates[0];
+            place(letters, choice.row, choice.col, choice.direction);
+            progress = true;
+        }
+
+        pending = stillPending;
+    }
+
+    return pending;
+}
+
+/**
+ * Find the words of a crossword that do not fit into the grid the app
+ * lays out (keep in sync with generateCrossword in src/core/utils/crossword.ts)
+ *
+ * @returns Indices of the words left out of the best layout
+ */
+function findUnplacedCrosswordWords(words, seed) {
+    let best = null;
+    for (let attempt = 0; attempt < CROSSWORD_LAYOUT_ATTEMPTS; attempt++) {
+        const unplaced = layoutCrosswordWords(words, seed + attempt * CROSSWORD_ATTEMPT_SEED_OFFSET, attempt % 2 === 0);
+        if (!best || unplaced.length < best.length) best = unplaced;
+        if (best.length === 0) break;
+    }
+    return best ?? [];
+}
+
+/**
+ * Validate the content of a crossword exercise: at least 2 single words
+ * of letters with clues, which all cross each other in one grid.
+ */
+function validateCrossword(content, basePath, result) {
+    if (!Array.isArray(content.words) || content.words.length < 2) {
+        result.addError('exercises.json', `${basePath}.words`, 'crossword must have at least 2 words');
+        return;
+    }
+
+    const answers = new Set();
+    let allWords = true;
+    content.words.forEach((entry, index) => {
+        const path = `${basePath}.words[${index}]`;
+        if (typeof entry.word !== 'string' || !/^\p{L}{2,}$/u.test(entry.word.trim())) {
+            result.addError('exercises.json', `${path}.word`, 'word must be a single word of letters');
+            allWords = false;
+            return;
+        }
+        const answer = entry.word.trim().toLocaleUpperCase('de-DE');
+        if (answers.has(answer)) {
+            result.addError('exercises.json', `${path}.word`, `"${entry.word}" is used more than once`);
+        }
+        answers.add(answer);
+        if (typeof entry.clue !== 'string' || entry.clue.trim() === '') {
+            result.addError('exercises.json', `${path}.clue`, 'word needs a clue');
+        }
+    });
+    if (content.seed !== undefined && !Number.isInteger(content.seed)) {
+        result.addError('exercises.json', `${basePath}.seed`, 'seed must be a whole number');
+        return;
+    }
+    if (!allWords) return;
+
+    const letters = content.words.map((entry) =>
+        Array.from(entry.word.trim()).map((letter) => (letter === 'ß' ? letter : letter.toLocaleUpperCase('de-DE')))
+    );
+    for (const index of findUnplacedCrosswordWords(letters, content.seed ?? DEFAULT_CROSSWORD_SEED)) {
+        result.addError('exercises.json', `${basePath}.words[${index}].word`, `"${content.words[index].word}" does not cross the other words; add words with shared letters or try another seed`);
+    }
+}
+
+/**
+ * Validate the content of an arithmetic exercise: a question and a number
+ * as answer, or the whole numbers of a column calculation
+ */
+function validateArithmetic(content, basePath, result) {
+    if (content.mode === 'input') {
+        if (typeof content.question !== 'string' || content.question.trim() === '') {
+            result.addError('exercises.json', `${basePath}.question`, 'question is required');
+        }
+        const number = /^-?\d+([.,]\d+)?$|^-?(\d+ )?\d+ ?\/ ?[1-9]\d*$/;
+        if (typeof content.answer !== 'string' || !number.test(content.answer.trim())) {
+            result.addError('exercises.json', `${basePath}.answer`, 'answer must be a whole number, decimal or fraction');
+        }
+        return;
+    }
+    if (content.mode !== 'column') {
+        result.addError('exercises.json', `${basePath}.mode`, 'mode must be "input" or "column"');
+        return;
+    }
+    if (content.operation !== '+' && content.operation !== '-') {
+        result.addError('exercises.json', `${basePath}.operation`, 'operation must be "+" or "-"');
+        return;
+    }
+
+    const maxOperands = content.operation === '+' ? 4 : 2;
+    const operands = content.operands;
+    if (!Array.isArray(operands)
+        || operands.length < 2
+        || operands.length > maxOperands
+        || !operands.every((n) => Number.isInteger(n) && n >= 0 && n < 1e9)) {
+        result.addError('exercises.json', `${basePath}.operands`, `operands must be 2-${maxOperands} whole numbers from 0 to 999999999`);
+        return;
+    }
+    if (content.operation === '-' && operands[0] < operands[1]) {
+        result.addError('exercises.json', `${basePath}.operands`, 'the first number must not be smaller than the second');
+    }
+}
+
+/**
+ * Validate drawing exercise content: prompt, canvas size, pen colours and
+ * the tracing outline
+ */
+function validateDrawing(content, basePath, result) {
+    if (typeof content.prompt !== 'string' || content.prompt.trim() === '') {
+        result.addError('exercises.json', `${basePath}.prompt`, 'prompt is required');
+    }
+    for (const side of ['width', 'height']) {
+        const size = content[side];
+        if (size !== undefined && (!Number.isInteger(size) || size <= 0 || size > MAX_DRAWING_SIZE)) {
+            result.addError('exercises.json', `${basePath}.${side}`, `${side} must be a whole number from 1 to ${MAX_DRAWING_SIZE}`);
+        }
+    }
+    if (content.colors !== undefined) {
+        if (!Array.isArray(content.colors)) {
+            result.addError('exercises.json', `${basePath}.colors`, 'colors must be an array');
+        } else {
+            content.colors.forEach((color, index) => {
+                if (typeof color !== 'string' || color.trim() === '') {
+                    result.addError('exercises.json', `${basePath}.colors[${index}]`, 'color must be a non-empty string');
+                } else if (!isValidColor(color)) {
+                    result.addWarning('exercises.json', `${basePath}.colors[${index}]`, `Invalid color: ${color}`);
+                }
+            });
+        }
+    }
+    if (content.trace !== undefined && (typeof content.trace !== 'string' || !SVG_PATH_PATTERN.test(content.trace))) {
+        result.addError('exercises.json', `${basePath}.trace`, 'trace must be SVG path data (e.g. "M 10 10 L 90 90")');
+    }
+}
+
+/**
+ * Check the notation of a music exercise
+ * @returns {string[] | null} The note tokens, or null if the notation is not valid
+ */
+function validateNotation(content, basePath, result) {
+    if (typeof content.notation !== 'string' || content.notation.trim() === '') {
+        result.addError('exercises.json', `${basePath}.notation`, 'notation is required');
+        return null;
+    }
+    const notes = content.notation.trim().split(/\s+/).filter((token) => token !== '|');
+    const unknown = notes.find((token) => !NOTATION_NOTE_PATTERN.test(token));
+    if (unknown !== undefined) {
+        result.addError('exercises.json', `${basePath}.notation`, `Unknown note '${unknown}' (expected e.g. C4/4, F#4/8, r/4, x/4 or |)`);
+        return null;
+    }
+    if (notes.length === 0 || notes.length > MAX_NOTATION_NOTES) {
+        result.addError('exercises.json', `${basePath}.notation`, `notation must have 1-${MAX_NOTATION_NOTES} notes`);
+        return null;
+    }
+    if (content.tempo !== undefined && !(typeof content.tempo === 'number' && content.tempo >= 40 && content.tempo <= 200)) {
+        result.addError('exercises.json', `${basePath}.tempo`, 'tempo must be from 40 to 200 beats per minute');
+    }
+    return notes;
+}
+
+/**
+ * Validate note reading exercise content: notation with pitched notes and the clef
+ */
+function validateNoteReading(content, basePath, result) {
+    if (content.clef !== undefined && content.clef !== 'treble' && content.clef !== 'bass') {
+        result.addError('exercises.json', `${basePath}.clef`, 'clef must be "treble" or "bass"');
+    }
+    const notes = validateNotation(content, basePath, result);
+    if (!notes) return;
+    if (!notes.some((token) => /^[A-G]/.test(token))) {
+        result.addError('exercises.json', `${basePath}.notation`, 'notation needs at least one note to name');
+    }
+    if (notes.some((token) => token.startsWith('x'))) {
+        result.addError('exercises.json', `${basePath}.notation`, 'note reading cannot use unpitched beats (x)');
+    }
+}
+
+/**
+ * Validate rhythm exercise content: notation with beats to tap and the scoring options
+ */
+function validateRhythm(content, basePath, result) {
+    const notes = validateNotation(content, basePath, result);
+    if (notes && notes.filter((token) => !token.startsWith('r')).length < 2) {
+        result.addError('exercises.json', `${basePath}.notation`, 'rhythm needs at least 2 beats to tap');
+    }
+    if (content.tolerance !== undefined && !(typeof content.tolerance === 'number' && content.tolerance >= 50 && content.tolerance <= 500)) {
+        result.addError('exercises.json', `${basePath}.tolerance`, 'tolerance must be from 50 to 500 ms');
+    }
+    if (content.minAccuracy !== undefined && !(typeof content.minAccuracy === 'number' && content.minAccuracy > 0 && content.minAccuracy <= 1)) {
+        result.addError('exercises.json', `${basePath}.minAccuracy`, 'minAccuracy must be greater than 0 and at most 1');
+    }
+}
+
+/**
+ * Validate syllables exercise content: mode, unit and segmentations of one text
+ */
+function validateSyllables(content, basePath, result) {
+    if (content.mode !== undefined && !['split', 'count'].includes(content.mode)) {
+        result.addError('exercises.json', `${basePath}.mode`, 'mode must be "split" or "count"');
+    }
+    if (content.unit !== undefined && !['syllable', 'word'].includes(content.unit)) {
+        result.addError('exercises.json', `${basePath}.unit`, 'unit must be "syllable" or "word"');
+    }
+    if (!Array.isArray(content.segmentations) || content.segmentations.length === 0) {
+        result.addError('exercises.json', `${basePath}.segmentations`, 'at least one segmentation is required');
+        return;
+    }
+    const text = typeof content.segmentations[0] === 'string' ? content.segmentations[0].split('|').join('') : '';
+    content.segmentations.forEach((segmentation, index) => {
+        const path = `${basePath}.segmentations[${index}]`;
+        if (typeof segmentation !== 'string' || !segmentation.split('|').every((segment) => /^\S+$/.test(segment))) {
+            result.addError('exercises.json', path, 'segmentation must be letters with "|" between the parts (e.g. "Ba|na|ne")');
+        } else if (segmentation.split('|').join('') !== text) {
+            result.addError('exercises.json', path, 'all segmentations must split the same text');
+        }
+    });
+}
+
+/**
+ * Keywords of expressions and the operators they stand for
+ * (keep in sync with src/core/utils/badgeExpression.ts)
+ */
+const EXPRESSION_KEYWORDS = new Map([['and', '&&'], ['or', '||'], ['not', '!']]);
+
+/**
+ * Binary operators of expressions, from lowest to highest precedence
+ * (keep in sync with src/core/utils/badgeExpression.ts)
+ */
+const EXPRESSION_PRECEDENCE = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['>=', '>', '<=', '<'],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+/**
+ * Parse a template expression or scoring condition into a tree
+ * (keep in sync with parseBadgeExpression in src/core/utils/badgeExpression.ts)
+ *
+ * @throws Error if the expression is not valid
+ */
+function parseExpression(expression) {
+    const tokens = [];
+    const tokenPattern = new RegExp(EXPRESSION_TOKEN_PATTERN.source, 'y');
+    let index = 0;
+    while (index < expression.length) {
+        tokenPattern.lastIndex = index;
+        const match = tokenPattern.exec(expression);
+        if (!match) {
+            throw new Error(`Unexpected character '${expression[index]}' at position ${index}`);
+        }
+        const text = match[0];
+        if (/^\d/.test(text)) {
+            tokens.push({ kind: 'number', value: Number(text), position: index });
+        } else if (EXPRESSION_KEYWORDS.has(text)) {
+            tokens.push({ kind: 'operator', value: EXPRESSION_KEYWORDS.get(text), position: index });
+        } else if (/^[A-Za-z_]/.test(text)) {
+            tokens.push({ kind: 'identifier', name: text, position: index });
+        } else if (!/^\s/.test(text)) {
+            tokens.push({ kind: 'operator', value: text, position: index });
+        }
+        index += text.length;
+    }
+    tokens.push({ kind: 'end', position: expression.length });
+
+    let current = 0;
+    const peek = () => tokens[current];
+    const describe = (token) => (token.kind === 'end' ? 'end of expression' : `'${token.value ?? token.name}'`);
+    const isOperator = (token, value) => token.kind === 'operator' && token.value === value;
+
+    const parseLevel = (level) => {
+        const operators = EXPRESSION_PRECEDENCE[level];
+        if (!operators) return parseUnary();
+
+        let left = parseLevel(level + 1);
+        for (;;) {
+            const operator = operators.find((op) => isOperator(peek(), op));
+            if (!operator) return left;
+            current++;
+            left = { kind: 'binary', operator, left, right: parseLevel(level + 1) };
+        }
+    };
+
+    const parseUnary = () => {
+        const token = peek();
+        if (isOperator(token, '!') || isOperator(token, '-')) {
+            current++;
+            return { kind: 'unary', operator: token.value, operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = () => {
+        const token = peek();
+        if (token.kind !== 'end') current++;
+
+        if (token.kind === 'number') return { kind: 'number', value: token.value };
+        if (token.kind === 'identifier') return { kind: 'identifier', name: token.name };
+        if (isOperator(token, '(')) {
+            const inner = parseLevel(0);
+            const closing = peek();
+            if (!isOperator(closing, ')')) {
+                throw new Error(`Expected ')' at position ${closing.position}, found ${describe(closing)}`);
+            }
+            current++;
+            return inner;
+        }
+        throw new Error(`Unexpected ${describe(token)} at position ${token.position}`);
+    };
+
+    const tree = parseLevel(0);
+    const rest = peek();
+    if (rest.kind !== 'end') {
+        throw new Error(`Unexpected ${describe(rest)} at position ${rest.position}`);
+    }
+    return tree;
+}
+
+/**
+ * Collect the identifiers used in an expression tree
+ */
+function collectExpressionIdentifiers(node, names = new Set()) {
+    if (node.kind === 'identifier') names.add(node.name);
+    if (node.kind === 'unary') collectExpressionIdentifiers(node.operand, names);
+    if (node.kind === 'binary') {
+        collectExpressionIdentifiers(node.left, names);
+        collectExpressionIdentifiers(node.right, names);
+    }
+    return names;
+}
+
+/**
+ * Evaluate an expression tree; comparisons and logic yield 1 or 0
+ * (keep in sync with evaluateExpressionNode in src/core/utils/badgeExpression.ts)
+ */
+function evaluateExpression(node, values) {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'identifier':
+            return values[node.name];
+        case 'unary': {
+            const operand = evaluateExpression(node.operand, values);
+            return node.operator === '!' ? Number(operand === 0) : -operand;
+        }
+    }
+
+    if (node.operator === '&&') {
+        return Number(evaluateExpression(node.left, values) !== 0 && evaluateExpression(node.right, values) !== 0);
+    }
+    if (node.operator === '||') {
+        return Number(evaluateExpression(node.left, values) !== 0 || evaluateExpression(node.right, values) !== 0);
+    }
+    const left = evaluateExpression(node.left, values);
+    const right = evaluateExpression(node.right, values);
+    switch (node.operator) {
+        case '>=': return Number(left >= right);
+        case '>': return Number(left > right);
+        case '<=': return Number(left <= right);
+        case '<': return Number(left < right);
+        case '==': return Number(left === right);
+        case '!=': return Number(left !== right);
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? 0 : left / right;
+        default: return right === 0 ? 0 : left % right;
+    }
+}
+
+/**
+ * Parse a template expression and check that it only uses known variables.
+ *
+ * @returns The expression tree, or null if the expression is not valid
+ */
+function validateTemplateExpression(expression, known, path, result) {
+    if (typeof expression !== 'string' || expression.trim() === '') {
+        result.addError('exercises.json', path, 'expression must be a non-empty string');
+        return null;
+    }
+
+    let tree;
+    try {
+        tree = parseExpression(expression);
+    } catch (error) {
+        result.addError('exercises.json', path, error.message);
+        return null;
+    }
+
+    const unknown = [...collectExpressionIdentifiers(tree)].filter((name) => !known.has(name));
+    for (const name of unknown) {
+        result.addError('exercises.json', path, `Unknown variable '${name}'`);
+    }
+    return unknown.length === 0 ? tree : null;
+}
+
+/**
+ * Draws tried before a template counts as impossible to expand, and the
+ * decimal places kept of drawn and computed numbers
+ * (keep in sync with src/core/utils/exerciseTemplate.ts)
+ */
+const MAX_TEMPLATE_DRAWS = 200;
+const TEMPLATE_DECIMAL_PLACES = 10;
+
+/**
+ * Content fields whose placeholders become numbers
+ * (keep in sync with src/core/utils/exerciseTemplate.ts)
+ */
+const TEMPLATE_NUMERIC_FIELDS = {
+    'number-line': ['min', 'max', 'tickInterval', 'labeledTicks', 'step', 'target', 'tolerance'],
+    arithmetic: ['operands'],
+};
+
+const TEMPLATE_PLACEHOLDER_PATTERN = /(?<!\{)\{([A-Za-z_]\w*)\}(?!\})/g;
+
+function roundTemplateValue(value) {
+    const factor = 10 ** TEMPLATE_DECIMAL_PLACES;
+    return Math.round(value * factor) / factor;
+}
+
+function formatTemplateNumber(value) {
+    return new Intl.NumberFormat('de', { useGrouping: false, maximumFractionDigits: TEMPLATE_DECIMAL_PLACES }).format(value);
+}
+
+/**
+ * Replace the placeholders in all texts of a value; a text that is a
+ * single placeholder becomes the number when `numeric` is set
+ */
+function fillTemplateValue(value, values, numeric) {
+    if (typeof value === 'string') {
+        const name = numeric ? /^\{([A-Za-z_]\w*)\}$/.exec(value.trim())?.[1] : undefined;
+        if (name !== undefined && Object.hasOwn(values, name)) return values[name];
+        return value.replace(TEMPLATE_PLACEHOLDER_PATTERN, (placeholder, key) =>
+            (Object.hasOwn(values, key) ? formatTemplateNumber(values[key]) : placeholder));
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => fillTemplateValue(item, values, numeric));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fillTemplateValue(item, values, numeric)]));
+    }
+    return value;
+}
+
+/**
+ * Expand the content of a template the way the app does in a session with
+ * seed 0 (keep in sync with expandExerciseTemplate in src/core/utils/exerciseTemplate.ts)
+ *
+ * @returns The expanded content, or null if no draw meets the constraints
+ */
+function expandTemplateContent(exercise, formulas, constraints, distractorRules) {
+    const template = exercise.template;
+    let seed = template.seed;
+    if (seed === undefined) {
+        let hash = 0;
+        for (const char of String(exercise.id)) {
+            hash = (hash * 31 + char.charCodeAt(0)) & 0x7fffffff;
+        }
+        seed = hash;
+    }
+    const random = createSeededRandom(seed);
+
+    for (let attempt = 0; attempt < MAX_TEMPLATE_DRAWS; attempt++) {
+        const values = {};
+        let excluded = false;
+        for (const [name, variable] of Object.entries(template.variables)) {
+            const step = variable.step > 0 ? variable.step : 1;
+            const count = Math.floor(roundTemplateValue((variable.max - variable.min) / step)) + 1;
+            const value = roundTemplateValue(variable.min + Math.floor(random() * Math.max(count, 1)) * step);
+            if (variable.exclude?.includes(value)) excluded = true;
+            values[name] = value;
+        }
+        if (excluded) continue;
+
+        for (const [name, formula] of formulas) {
+            values[name] = roundTemplateValue(evaluateExpression(formula, values));
+        }
+        if (!constraints.every((constraint) => evaluateExpression(constraint, values) !== 0)) continue;
+
+        const answer = values.answer;
+        const distractors = [];
+        for (const rule of answer === undefined ? [] : distractorRules) {
+            const value = roundTemplateValue(evaluateExpression(rule, values));
+            if (!Number.isFinite(value) || value === answer || distractors.includes(value)) continue;
+            if (value < 0 && answer >= 0) continue;
+            distractors.push(value);
+        }
+        if (template.distractors && distractors.length === 0) continue;
+
+        const numericFields = TEMPLATE_NUMERIC_FIELDS[exercise.content?.type] ?? [];
+        const content = Object.fromEntries(Object.entries(exercise.content ?? {}).map(([key, value]) => [
+            key,
+            key === 'type' ? value : fillTemplateValue(value, values, numericFields.includes(key)),
+        ]));
+        if (content.type === 'multiple-choice' && template.distractors) {
+            const options = seededShuffle([answer, ...distractors], Math.floor(random() * 0x7fffffff));
+            content.options = options.map(formatTemplateNumber);
+            content.correctIndex = options.indexOf(answer);
+        }
+        return content;
+    }
+
+    return null;
+}
+
+/**
+ * Validate an exercise template: variable ranges, constraints, formulas,
+ * distractors, and that every {name} placeholder is a variable or formula.
+ * A valid template is expanded once, so its content can be checked.
+ *
+ * @returns The expanded content, or null if the template is not valid
+ */
+function validateTemplate(exercise, basePath, result) {
+    const template = exercise.template;
+    const path = `${basePath}.template`;
+    if (!template || typeof template !== 'object' || !template.variables || typeof template.variables !== 'object'
+        || Object.keys(template.variables).length === 0) {
+        result.addError('exercises.json', `${path}.variables`, 'template needs at least one variable');
+        return null;
+    }
+    const errorCount = result.errors.length;
+
+    const known = new Set();
+    for (const [name, variable] of Object.entries(template.variables)) {
+        if (!/^[A-Za-z_]\w*$/.test(name)) {
+            result.addError('exercises.json', `${path}.variables.${name}`, 'variable name must be a word');
+        }
+        if (typeof variable?.min !== 'number' || typeof variable.max !== 'number' || variable.min > variable.max) {
+            result.addError('exercises.json', `${path}.variables.${name}`, 'min must be a number not greater than max');
+        }
+        if (variable?.step !== undefined && !(typeof variable.step === 'number' && variable.step > 0)) {
+            result.addError('exercises.json', `${path}.variables.${name}.step`, 'step must be greater than 0');
+        }
+        known.add(name);
+    }
+
+    // Formulas may use the variables and the formulas before them
+    const formulas = [];
+    for (const [name, expression] of Object.entries(template.formulas || {})) {
+        formulas.push([name, validateTemplateExpression(expression, known, `${path}.formulas.${name}`, result)]);
+        known.add(name);
+    }
+    const constraints = (template.constraints || []).map((expression, i) =>
+        validateTemplateExpression(expression, known, `${path}.constraints[${i}]`, result));
+    const distractors = (template.distractors || []).map((expression, i) =>
+        validateTemplateExpression(expression, known, `${path}.distractors[${i}]`, result));
+    if (template.distractors && !known.has('answer')) {
+        result.addError('exercises.json', `${path}.formulas`, 'distractors need an "answer" formula');
+    }
+
+    const texts = JSON.stringify([exercise.instruction, exercise.content, exercise.hints,
+        exercise.feedbackCorrect, exercise.feedbackIncorrect, exercise.audio]);
+    for (const match of texts.matchAll(/(?<!\{)\{([A-Za-z_]\w*)\}(?!\})/g)) {
+        if (!known.has(match[1])) {
+            result.addError('exercises.json', path, `Placeholder {${match[1]}} is not a variable or formula`);
+        }
+    }
+    if (result.errors.length > errorCount || !exercise.content) return null;
+
+    const content = expandTemplateContent(exercise, formulas, constraints, distractors);
+    if (!content) {
+        result.addError('exercises.json', path, 'No draw of the template variables meets the constraints');
+    }
+    return content;
+}
+
+/**
+ * Validate the content of a hotspot exercise: picture size, region
+ * outlines and labels, and the correct region ids
+ */
+function validateHotspot(content, basePath, result) {
+    if (!(content.width > 0) || !(content.height > 0)) {
+        result.addError('exercises.json', `${basePath}.width`, 'width and height must be greater than 0');
+    }
+    if (!Array.isArray(content.regions) || content.regions.length < 2) {
+        result.addError('exercises.json', `${basePath}.regions`, 'hotspot must have at least 2 regions');
+        return;
+    }
+
+    const ids = new Set();
+    content.regions.forEach((region, index) => {
+        const path = `${basePath}.regions[${index}]`;
+        if (!region.id || ids.has(region.id)) {
+            result.addError('exercises.json', `${path}.id`, `region id must be unique: ${region.id}`);
+        }
+        ids.add(region.id);
+        if (typeof region.label !== 'string' || region.label.trim() === '') {
+            result.addError('exercises.json', `${path}.label`, 'region needs a label for screen readers');
+        }
+        const isCircle = region.shape === 'circle'
+            && [region.cx, region.cy, region.r].every((n) => typeof n === 'number') && region.r > 0;
+        const isPolygon = region.shape === 'polygon' && Array.isArray(region.points) && region.points.length >= 3
+            && region.points.every((point) => Array.isArray(point) && point.length === 2 && point.every((n) => typeof n === 'number'));
+        if (!isCircle && !isPolygon) {
+            result.addError('exercises.json', path, 'region must be a circle (cx, cy, r > 0) or a polygon with at least 3 points');
+        }
+    });
+
+    if (!Array.isArray(content.correctRegionIds) || content.correctRegionIds.length === 0) {
+        result.addError('exercises.json', `${basePath}.correctRegionIds`, 'at least one correct region is required');
+    } else {
+        content.correctRegionIds.forEach((id, index) => {
+            if (!ids.has(id)) {
+                result.addError('exercises.json', `${basePath}.correctRegionIds[${index}]`, `no region "${id}"`);
+            }
+        });
+    }
+}
+
+/**
+ * Content types whose `image` is a picture with alt text; other types use
+ * `image` for an emoji or a short text shown with the exercise
+ */
+const PICTURE_IMAGE_TYPES = ['picture-vocabulary', 'hotspot'];
+
+/**
+ * Validate the pictures of an exercise: each needs alt text and a file in
+ * the app's assets folder (checked relative to the data directory), and
+ * pictures keyed by option or item text need a matching option or item
+ */
+function validateImages(content, basePath, result, dataDir) {
+    const images = [];
+    if (content.image !== undefined && PICTURE_IMAGE_TYPES.includes(content.type)) {
+        images.push({ image: content.image, path: `${basePath}.image` });
+    }
+
+    if (content.images !== undefined) {
+        const texts = [
+            ...(Array.isArray(content.options) ? content.options : []),
+            ...(Array.isArray(content.pairs) ? content.pairs.flatMap((pair) => [pair.left, pair.right]) : []),
+            ...(Array.isArray(content.categories) ? content.categories.flatMap((category) => category.items || []) : []),
+            ...(Array.isArray(content.correctOrder) ? content.correctOrder : []),
+        ];
+        Object.entries(content.images).forEach(([key, image]) => {
+            const path = `${basePath}.images.${key}`;
+            if (!texts.includes(key)) {
+                result.addError('exercises.json', path, `No option or item "${key}" for this picture`);
+            }
+            images.push({ image, path });
+        });
+    }
+
+    images.forEach(({ image, path }) => {
+        if (typeof image?.alt !== 'string' || image.alt.trim() === '') {
+            result.addError('exercises.json', `${path}.alt`, 'Picture needs alt text for screen readers');
+        }
+        const src = typeof image?.src === 'string' ? image.src.replace(/^\/+/, '') : '';
+        if (!src.startsWith('assets/') || src.split('/').includes('..')) {
+            result.addError('exercises.json', `${path}.src`, 'Picture must be a file in the app\'s assets folder (assets/...)');
+        } else if (!existsSync(join(dataDir, src))) {
+            result.addError('exercises.json', `${path}.src`, `Asset not found: ${src}`);
+        }
+    });
+}
+
+/**
+ * Validate the content of a number-line exercise
+ */
+function validateNumberLine(content, basePath, result) {
+    if (content.mode !== 'place' && content.mode !== 'read') {
+        result.addError('exercises.json', `${basePath}.mode`, 'mode must be "place" or "read"');
+    }
+    if (typeof content.min !== 'number' || typeof content.max !== 'number' || content.min >= content.max) {
+        result.addError('exercises.json', `${basePath}.max`, 'min must be less than max');
+        return;
+    }
+    if (!(typeof content.tickInterval === 'number' && content.tickInterval > 0)) {
+        result.addError('exercises.json', `${basePath}.tickInterval`, 'tickInterval must be greater than 0');
+    }
+    if (typeof content.target !== 'number' || content.target < content.min || content.target > content.max) {
+        result.addError('exercises.json', `${basePath}.target`, 'target must lie between min and max');
+    }
+    if (content.tolerance !== undefined && !(typeof content.tolerance === 'number' && content.tolerance >= 0)) {
+        result.addError('exercises.json', `${basePath}.tolerance`, 'tolerance must not be negative');
+    }
+    if (Array.isArray(content.labeledTicks)) {
+        content.labeledTicks.forEach((tick, index) => {
+            if (tick < content.min || tick > content.max) {
+                result.addError('exercises.json', `${basePath}.labeledTicks[${index}]`,
+                    `Labelled tick ${tick} lies outside the line`);
+            }
+        });
+    }
 }
 
 /**
  * Validate exercises.json
  */
-function validateExercises(exercises, result, areaIds, themeIds) {
+function validateExercises(exercises, result, areaIds, themeIds, dataDir) {
     if (!exercises) {
         result.addWarning('exercises.json', '', 'File not found - no exercises defined');
         return;
@@ -445,6 +1628,13 @@ function validateExercises(exercises, result, areaIds, themeIds) {
                 `Invalid difficulty: ${exercise.difficulty} (should be 1, 2, or 3)`);
         }
 
+        // Validate expected time (used by the 'time' star strategy)
+        if (exercise.expectedTimeSeconds !== undefined &&
+            !(typeof exercise.expectedTimeSeconds === 'number' && exercise.expectedTimeSeconds > 0)) {
+            result.addError('exercises.json', `${basePath}.expectedTimeSeconds`,
+                'Expected time must be a positive number of seconds');
+        }
+
         // Validate level
         if (typeof exercise.level !== 'number' || exercise.level < 1) {
             result.addWarning('exercises.json', `${basePath}.level`, 'Invalid level');
@@ -454,13 +1644,93 @@ function validateExercises(exercises, result, areaIds, themeIds) {
         const validTypes = [
             'fill-blank', 'multiple-choice', 'matching', 'sentence-builder',
             'sorting', 'writing', 'conjugation-table', 'connector-insert',
-            'word-order', 'picture-vocabulary'
+            'word-order', 'picture-vocabulary', 'cloze-text', 'number-line',
+            'clock', 'listening', 'hotspot', 'sequence', 'memory', 'crossword',
+            'arithmetic', 'drawing', 'note-reading', 'rhythm', 'syllables'
         ];
 
         if (!validTypes.includes(exercise.type)) {
             result.addError('exercises.json', `${basePath}.type`,
                 `Invalid exercise type: ${exercise.type}`);
         }
+
+        // The content of a template has placeholders, so the checks below
+        // run on an expansion of it
+        let content = exercise.content;
+        if (exercise.template !== undefined) {
+            content = validateTemplate(exercise, basePath, result);
+        }
+
+        // Validate cloze text blanks against the {{n}} placeholders
+        if (exercise.type === 'cloze-text' && content) {
+            validateClozeText(content, `${basePath}.content`, result);
+        }
+
+        // Validate number line range, target and labels
+        if (exercise.type === 'number-line' && content) {
+            validateNumberLine(content, `${basePath}.content`, result);
+        }
+
+        // Validate audio attached to the exercise and listening content
+        if (exercise.audio !== undefined) {
+            validateAudio(exercise.audio, `${basePath}.audio`, result);
+        }
+        if (exercise.type === 'listening' && content) {
+            validateAudio(content.audio, `${basePath}.content.audio`, result);
+        }
+
+        // Validate clock time, minute step and answer options
+        if (exercise.type === 'clock' && content) {
+            validateClock(content, `${basePath}.content`, result);
+        }
+
+        // Validate hotspot regions and correct region ids
+        if (exercise.type === 'hotspot' && content) {
+            validateHotspot(content, `${basePath}.content`, result);
+        }
+
+        // Validate sequence cards and alternate orders
+        if (exercise.type === 'sequence' && content) {
+            validateSequence(content, `${basePath}.content`, result);
+        }
+
+        // Validate memory pairs
+        if (exercise.type === 'memory' && content) {
+            validateMemory(content, `${basePath}.content`, result);
+        }
+
+        // Validate crossword words and clues
+        if (exercise.type === 'crossword' && content) {
+            validateCrossword(content, `${basePath}.content`, result);
+        }
+
+        // Validate arithmetic answers and column calculations
+        if (exercise.type === 'arithmetic' && content) {
+            validateArithmetic(content, `${basePath}.content`, result);
+        }
+
+        // Validate drawing prompt, canvas size, colours and tracing outline
+        if (exercise.type === 'drawing' && content) {
+            validateDrawing(content, `${basePath}.content`, result);
+        }
+
+        // Validate music notation, clef and rhythm scoring
+        if (exercise.type === 'note-reading' && content) {
+            validateNoteReading(content, `${basePath}.content`, result);
+        }
+        if (exercise.type === 'rhythm' && content) {
+            validateRhythm(content, `${basePath}.content`, result);
+        }
+
+        // Validate syllable and word segmentations
+        if (exercise.type === 'syllables' && content) {
+            validateSyllables(content, `${basePath}.content`, result);
+        }
+
+        // Validate pictures (alt text, bundled files)
+        if (exercise.content) {
+            validateImages(exercise.content, `${basePath}.content`, result, dataDir);
+        }
     });
 }
 
@@ -540,11 +1810,22 @@ function validateConfig(args) {
     const subject = loadJSON(join(args.configDir, 'subject.json'));
     validateSubject(subject, result, areaIds);
 
+    // app.json is optional; only its level progression override is checked
+    const appJsonPath = join(args.configDir, 'app.json');
+    if (existsSync(appJsonPath)) {
+        log.info('Checking app.json...');
+        result.filesChecked++;
+        const app = loadJSON(appJsonPath);
+        if (app?.levelProgression !== undefined) {
+            validateLevelProgression(app.levelProgression, 'app.json', result);
+        }
+    }
+
     // Load and validate exercises.json
     log.info('Checking exercises.json...');
     result.filesChecked++;
     const exercises = loadJSON(join(args.dataDir, 'exercises.json'));
-    validateExercises(exercises, result, areaIds, themeIds);
+    validateExercises(exercises, result, areaIds, themeIds, args.dataDir);
 
     // Print results
     printResults(result, args.strict);
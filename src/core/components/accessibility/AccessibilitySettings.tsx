@@ -6,6 +6,7 @@
  * - Font size selector
  * - Animation toggle
  * - Screen reader mode toggle
+ * - Read-aloud mode toggles
  * 
  * Follows WCAG 2.1 AA guidelines for accessible controls.
  */
@@ -134,6 +135,8 @@ export function AccessibilitySettings() {
     const {
         toggleHighContrast,
         toggleAnimations,
+        toggleReadAloud,
+        toggleAutoReadAloud,
         setFontSize,
     } = useAppStore();
 
@@ -194,6 +197,32 @@ export function AccessibilitySettings() {
                     checked={settings.soundEnabled}
                     onChange={() => useAppStore.getState().toggleSound()}
                 />
+
+                {/* Read-Aloud Toggle */}
+                <ToggleSwitch
+                    id="read-aloud-toggle"
+                    label={t('accessibility.readAloud', 'Read Aloud')}
+                    description={t(
+                        'accessibility.readAloudDesc',
+                        'Shows a 🔊 button next to instructions, answers, hints and feedback'
+                    )}
+                    checked={settings.readAloudEnabled}
+                    onChange={toggleReadAloud}
+                />
+
+                {/* Auto Read-Aloud Toggle (only with read-aloud mode) */}
+                {settings.readAloudEnabled && (
+                    <ToggleSwitch
+                        id="auto-read-aloud-toggle"
+                        label={t('accessibility.autoReadAloud', 'Read Instructions Automatically')}
+                        description={t(
+                            'accessibility.autoReadAloudDesc',
+                            'Reads the instruction aloud when an exercise starts'
+                        )}
+                        checked={settings.autoReadAloud}
+                        onChange={toggleAutoReadAloud}
+                    />
+                )}
             </div>
 
             {/* Screen Reader Notice */}
@@ -0,0 +1,420 @@
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { NumericKeypad } from './NumericKeypad';
+import { inputFieldStyles, solutionStateStyles } from '@core/utils/exerciseStyles';
+import {
+    checkColumnCalculation,
+    createColumnCalculation,
+    getDecimalSeparator,
+    numbersAreEqual,
+    parseArithmeticNumber,
+    validateArithmeticAnswer,
+    type ColumnCheckResult,
+} from '@core/utils/arithmetic';
+import type { ArithmeticContent } from '@/types/exercise';
+
+interface Props {
+    content: ArithmeticContent;
+    hints?: string[];
+    onSubmit: (correct: boolean, accuracy?: number) => void;
+    showSolution: boolean;
+}
+
+/** Characters that can be part of a typed number */
+const ANSWER_CHARACTERS = /^[\d\s,./\-−]*$/;
+
+/** Operation signs as printed in the calculation */
+const OPERATION_SIGNS: Record<NonNullable<ArithmeticContent['operation']>, string> = {
+    '+': '+',
+    '-': '−',
+};
+
+const CHECK_BUTTON_CLASSES = 'w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2';
+
+/**
+ * Arithmetic exercise: type the result of a task with the number keypad,
+ * or calculate it in writing column by column.
+ */
+export function ArithmeticExercise(props: Props) {
+    return props.content.mode === 'column'
+        ? <ColumnCalculationTask {...props} />
+        : <ResultInputTask {...props} />;
+}
+
+// ============================================================================
+// Typed Result
+// ============================================================================
+
+/**
+ * Type the result in one field. Whole numbers, decimals (with a decimal
+ * comma in German) and fractions are accepted; equivalent numbers count
+ * unless the exercise asks for the exact form.
+ */
+function ResultInputTask({ content, hints, onSubmit, showSolution }: Props) {
+    const { t, i18n } = useTranslation();
+    const [answer, setAnswer] = useState('');
+    const [lastResult, setLastResult] = useState<boolean | null>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const locale = i18n.language;
+    const decimal = getDecimalSeparator(locale);
+
+    // Focus the answer field on mount
+    useEffect(() => {
+        if (!showSolution) inputRef.current?.focus();
+    }, [showSolution]);
+
+    const updateAnswer = (next: string) => {
+        if (showSolution || !ANSWER_CHARACTERS.test(next)) return;
+        setAnswer(next);
+        setLastResult(null);
+    };
+
+    const canCheck = answer.trim().length > 0;
+    const isCorrect = validateArithmeticAnswer(content, answer, locale);
+
+    const handleCheck = () => {
+        if (!canCheck || showSolution) return;
+        setLastResult(isCorrect);
+        onSubmit(isCorrect);
+    };
+
+    // Explain a wrong answer that is no number or the right number in another form
+    const parsed = parseArithmeticNumber(answer, locale);
+    const expected = parseArithmeticNumber(content.answer ?? '', locale);
+    const wrongMessage = parsed === null
+        ? t('exercises.arithmetic.notANumber')
+        : expected && numbersAreEqual(parsed, expected)
+            ? t('exercises.arithmetic.wrongForm')
+            : null;
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <label htmlFor="arithmetic-answer" className="text-2xl font-bold text-gray-800 whitespace-pre-line">
+                    {content.question}
+                </label>
+                <input
+                    ref={inputRef}
+                    id="arithmetic-answer"
+                    type="text"
+                    // The keypad below replaces the system keyboard on touch screens
+                    inputMode="none"
+                    value={showSolution && !isCorrect ? content.answer ?? '' : answer}
+                    onChange={(e) => updateAnswer(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleCheck();
+                    }}
+                    readOnly={showSolution}
+                    autoComplete="off"
+                    spellCheck={false}
+                    className={`w-36 px-3 py-2 text-2xl font-bold border-b-4 rounded-lg text-center transition-colors focus:outline-none focus:ring-2 focus:ring-primary/30 ${inputFieldStyles({
+                        state: showSolution || lastResult !== null ? (showSolution || isCorrect ? 'correct' : 'incorrect') : 'neutral',
+                    })}`}
+                    placeholder="?"
+                    data-testid="arithmetic-answer"
+                />
+            </div>
+
+            {!showSolution && (
+                <NumericKeypad
+                    onKey={(key) => updateAnswer(answer + key)}
+                    onDelete={() => updateAnswer(answer.slice(0, -1))}
+                    extraKeys={[decimal, '/']}
+                />
+            )}
+
+            {/* Why a wrong answer was not accepted */}
+            <ExerciseFeedback
+                show={lastResult === false && !showSolution && wrongMessage !== null}
+                type="info"
+                message={wrongMessage ?? ''}
+                announce={false}
+            />
+
+            {/* Solution */}
+            <ExerciseFeedback
+                show={showSolution && !isCorrect}
+                type="success"
+                message={t('exercises.arithmetic.solution')}
+                explanation={content.answer ?? ''}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button onClick={handleCheck} disabled={!canCheck} className={CHECK_BUTTON_CLASSES}>
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
+
+// ============================================================================
+// Written Column Calculation
+// ============================================================================
+
+/**
+ * A cell of the column calculation the child writes into.
+ */
+interface ColumnCell {
+    row: 'digit' | 'carry';
+    col: number;
+}
+
+const cellKey = (cell: ColumnCell) => `${cell.row}-${cell.col}`;
+
+/**
+ * Written column addition or subtraction. The child works from right
+ * to left: the result digit of a column, then the carry of the next
+ * column. Typing moves on to the next cell; checking marks every column
+ * on its own.
+ */
+function ColumnCalculationTask({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const calculation = useMemo(
+        () => createColumnCalculation(content.operands ?? [], content.operation ?? '+'),
+        [content.operands, content.operation]
+    );
+    const { width } = calculation;
+    const showCarries = content.showCarries ?? true;
+
+    const [digits, setDigits] = useState<string[]>(() => Array<string>(width).fill(''));
+    const [carries, setCarries] = useState<string[]>(() => Array<string>(width).fill(''));
+    const [activeCell, setActiveCell] = useState<ColumnCell | null>(null);
+    const [checked, setChecked] = useState<ColumnCheckResult | null>(null);
+    const cellRefs = useRef<Record<string, HTMLInputElement | null>>({});
+
+    // Working order: a column's result digit, then the carry of the column to its left
+    const cellOrder = useMemo(() => {
+        const order: ColumnCell[] = [];
+        for (let col = width - 1; col >= 0; col--) {
+            if (showCarries && col < width - 1) order.push({ row: 'carry', col });
+            order.push({ row: 'digit', col });
+        }
+        return order;
+    }, [width, showCarries]);
+
+    const focusCell = (cell: ColumnCell | undefined) => {
+        if (cell) cellRefs.current[cellKey(cell)]?.focus();
+    };
+
+    // Focus the ones column on mount
+    useEffect(() => {
+        if (!showSolution) focusCell(cellOrder[0]);
+    }, [showSolution]);
+
+    const getValue = (cell: ColumnCell) => (cell.row === 'digit' ? digits : carries)[cell.col] ?? '';
+
+    const setValue = (cell: ColumnCell, value: string) => {
+        const update = (values: string[]) => values.map((v, col) => (col === cell.col ? value : v));
+        if (cell.row === 'digit') setDigits(update);
+        else setCarries(update);
+        setChecked(null);
+    };
+
+    const stepInOrder = (cell: ColumnCell, step: 1 | -1): ColumnCell | undefined => {
+        const index = cellOrder.findIndex((c) => cellKey(c) === cellKey(cell));
+        return cellOrder[index + step];
+    };
+
+    const writeDigit = (cell: ColumnCell, value: string) => {
+        if (showSolution) return;
+        const digit = value.slice(-1);
+        if (digit !== '' && !/^\d$/.test(digit)) return;
+        setValue(cell, digit);
+        if (digit !== '') focusCell(stepInOrder(cell, 1));
+    };
+
+    const deleteDigit = (cell: ColumnCell) => {
+        if (showSolution) return;
+        if (getValue(cell) !== '') {
+            setValue(cell, '');
+            return;
+        }
+        // Empty cell: go back and delete the previous digit
+        const previous = stepInOrder(cell, -1);
+        if (previous) {
+            setValue(previous, '');
+            focusCell(previous);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent, cell: ColumnCell) => {
+        if (showSolution) return;
+        let target: ColumnCell | null = null;
+
+        switch (e.key) {
+            case 'ArrowLeft':
+                target = { ...cell, col: cell.col - 1 };
+                break;
+            case 'ArrowRight':
+                target = { ...cell, col: cell.col + 1 };
+                break;
+            case 'ArrowUp':
+                target = { row: 'carry', col: cell.col };
+                break;
+            case 'ArrowDown':
+                target = { row: 'digit', col: cell.col };
+                break;
+            case 'Backspace':
+                e.preventDefault();
+                deleteDigit(cell);
+                return;
+            case 'Enter':
+                handleCheck();
+                return;
+            default:
+                return;
+        }
+
+        e.preventDefault();
+        focusCell(target);
+    };
+
+    const canCheck = digits.some((digit) => digit !== '');
+
+    const handleCheck = () => {
+        if (!canCheck || showSolution) return;
+        const result = checkColumnCalculation(calculation, digits, carries, showCarries);
+        setChecked(result);
+        onSubmit(result.correct, content.partialCredit ? result.accuracy : undefined);
+    };
+
+    const solution = showSolution ? checkColumnCalculation(calculation, digits, carries, showCarries) : null;
+    const keypadCell = activeCell ?? cellOrder[0];
+
+    const getCellStyles = (cell: ColumnCell): string => {
+        if (showSolution) return solutionStateStyles({ state: 'correct' });
+        const ok = checked ? (cell.row === 'digit' ? checked.digits : checked.carries)[cell.col] : undefined;
+        if (ok !== undefined) return solutionStateStyles({ state: ok ? 'correct' : 'incorrect' });
+        return solutionStateStyles({ state: 'neutral' });
+    };
+
+    const renderInput = (cell: ColumnCell) => {
+        const step = calculation.columns[cell.col];
+        const expected = (cell.row === 'digit' ? step?.digit : step?.carry) ?? '';
+        const position = width - cell.col;
+        const isCarry = cell.row === 'carry';
+
+        return (
+            <input
+                key={cellKey(cell)}
+                ref={(el) => { cellRefs.current[cellKey(cell)] = el; }}
+                type="text"
+                inputMode="none"
+                value={showSolution ? expected : getValue(cell)}
+                onChange={(e) => writeDigit(cell, e.target.value)}
+                onKeyDown={(e) => handleKeyDown(e, cell)}
+                onFocus={(e) => {
+                    e.target.select();
+                    setActiveCell(cell);
+                }}
+                readOnly={showSolution}
+                aria-label={t(isCarry ? 'exercises.arithmetic.carryCell' : 'exercises.arithmetic.digitCell', { position })}
+                aria-invalid={(checked && !(isCarry ? checked.carries : checked.digits)[cell.col]) || undefined}
+                autoComplete="off"
+                className={`w-full text-center font-bold caret-transparent focus:outline-none focus:ring-2 focus:ring-primary ${isCarry ? 'h-7 text-sm text-gray-600' : 'h-12 text-2xl'} ${getCellStyles(cell)}`}
+                data-testid={`column-${cellKey(cell)}`}
+            />
+        );
+    };
+
+    const sign = OPERATION_SIGNS[calculation.operation];
+    const task = calculation.operands.join(` ${sign} `);
+    const gridStyle = { gridTemplateColumns: `repeat(${width + 1}, 2.75rem)` };
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-white rounded-xl shadow-sm p-4 overflow-x-auto" data-read-aloud-skip>
+                <p className="sr-only">{t('exercises.arithmetic.task', { task })}</p>
+                <div
+                    role="group"
+                    aria-label={t('exercises.arithmetic.calculation')}
+                    aria-describedby={showSolution ? undefined : 'arithmetic-keyboard-hint'}
+                    className="grid gap-1 mx-auto w-fit font-mono"
+                    style={gridStyle}
+                >
+                    {/* The numbers written below each other */}
+                    {calculation.rows.map((row, r) => (
+                        <div key={`row-${r}`} className="contents" aria-hidden="true">
+                            <span className="h-12 flex items-center justify-center text-2xl font-bold text-gray-700">
+                                {r > 0 ? sign : ''}
+                            </span>
+                            {row.map((digit, col) => (
+                                <span key={col} className="h-12 flex items-center justify-center text-2xl font-bold text-gray-800">
+                                    {digit}
+                                </span>
+                            ))}
+                        </div>
+                    ))}
+
+                    {/* Carries */}
+                    {showCarries && (
+                        <div className="contents">
+                            <span />
+                            {calculation.columns.map((_, col) => (col < width - 1
+                                ? renderInput({ row: 'carry', col })
+                                : <span key={`carry-${col}`} />))}
+                        </div>
+                    )}
+
+                    <div className="border-t-4 border-gray-700" style={{ gridColumn: '1 / -1' }} aria-hidden="true" />
+
+                    {/* Result */}
+                    <div className="contents">
+                        <span />
+                        {calculation.columns.map((_, col) => renderInput({ row: 'digit', col }))}
+                    </div>
+                </div>
+            </div>
+
+            {!showSolution && (
+                <>
+                    <p id="arithmetic-keyboard-hint" className="text-xs text-gray-500 text-center">
+                        {t(showCarries ? 'exercises.arithmetic.keyboardHint' : 'exercises.arithmetic.keyboardHintNoCarries')}
+                    </p>
+                    <NumericKeypad
+                        onKey={(key) => keypadCell && writeDigit(keypadCell, key)}
+                        onDelete={() => keypadCell && deleteDigit(keypadCell)}
+                    />
+                </>
+            )}
+
+            {/* Right columns after checking */}
+            <ExerciseFeedback
+                show={checked !== null && !showSolution && !checked.correct}
+                type="info"
+                message={t('exercises.arithmetic.columnsRight', { count: checked?.correctColumns ?? 0, total: width })}
+                announce={false}
+            />
+
+            {/* Solution */}
+            <ExerciseFeedback
+                show={showSolution && !(solution?.correct ?? false)}
+                type="success"
+                message={t('exercises.arithmetic.solution')}
+                explanation={`${task} = ${calculation.result}`}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button onClick={handleCheck} disabled={!canCheck} className={CHECK_BUTTON_CLASSES}>
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
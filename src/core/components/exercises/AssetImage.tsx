@@ -0,0 +1,47 @@
+import { useState } from 'react';
+import { resolveAssetSrc } from '@core/utils/assets';
+import type { ExerciseImage } from '@/types/exercise';
+
+export interface AssetImageProps {
+    /** The picture to show */
+    image: ExerciseImage;
+    /** Small for options and items, large for the picture prompt */
+    size?: 'sm' | 'md' | 'lg';
+    /** Additional CSS classes */
+    className?: string;
+}
+
+const SIZE_CLASSES: Record<NonNullable<AssetImageProps['size']>, string> = {
+    sm: 'w-12 h-12',
+    md: 'w-20 h-20',
+    lg: 'w-40 h-40',
+};
+
+/**
+ * Reusable picture from the app's assets (or inlined as a data URL).
+ * Shows the alt text instead if the file cannot be loaded.
+ */
+export function AssetImage({ image, size = 'md', className = '' }: AssetImageProps) {
+    const [failed, setFailed] = useState(false);
+
+    if (failed) {
+        return (
+            <span
+                className={`inline-flex items-center justify-center p-1 rounded-lg bg-gray-100 text-xs text-gray-600 text-center ${SIZE_CLASSES[size]} ${className}`}
+            >
+                {image.alt}
+            </span>
+        );
+    }
+
+    return (
+        <img
+            src={resolveAssetSrc(image.src)}
+            alt={image.alt}
+            loading="lazy"
+            draggable={false}
+            onError={() => setFailed(true)}
+            className={`inline-block object-contain select-none ${SIZE_CLASSES[size]} ${className}`}
+        />
+    );
+}
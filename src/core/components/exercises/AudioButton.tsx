@@ -0,0 +1,80 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppStore } from '@core/stores/appStore';
+import { canPlayExerciseAudio, playExerciseAudio, stopExerciseAudio } from '@core/utils/audio';
+import type { ExerciseAudio } from '@/types/exercise';
+
+export interface AudioButtonProps {
+    /** The audio to play */
+    audio: ExerciseAudio;
+    /** Play once when the button is first shown */
+    autoPlay?: boolean;
+    /** Large round button for listening exercises */
+    size?: 'sm' | 'lg';
+    /** Accessible label (default: "Anhören") */
+    label?: string;
+}
+
+/**
+ * Reusable 🔊 button that plays exercise audio: a bundled file or
+ * spoken text. Disabled while sound is turned off in the settings.
+ */
+export function AudioButton({ audio, autoPlay = false, size = 'sm', label }: AudioButtonProps) {
+    const { t } = useTranslation();
+    const soundEnabled = useAppStore((state) => state.settings?.soundEnabled ?? true);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const isMounted = useRef(true);
+    // Identifies this button's playback, so it never stops audio of other buttons
+    const owner = useRef(Symbol('AudioButton')).current;
+    const autoPlayedAudio = useRef<ExerciseAudio | null>(null);
+
+    const play = useCallback(async () => {
+        setIsPlaying(true);
+        await playExerciseAudio(audio, soundEnabled, owner);
+        if (isMounted.current) setIsPlaying(false);
+    }, [audio, soundEnabled, owner]);
+
+    // Stop this button's playback when the exercise changes or the button goes away
+    useEffect(() => {
+        isMounted.current = true;
+        return () => {
+            isMounted.current = false;
+            stopExerciseAudio(owner);
+        };
+    }, [audio, owner]);
+
+    // Stop playback when sound is turned off
+    useEffect(() => {
+        if (!soundEnabled) stopExerciseAudio(owner);
+    }, [soundEnabled, owner]);
+
+    // Auto-play once per audio
+    useEffect(() => {
+        if (autoPlay && soundEnabled && autoPlayedAudio.current !== audio) {
+            autoPlayedAudio.current = audio;
+            void play();
+        }
+    }, [autoPlay, audio, play, soundEnabled]);
+
+    if (!canPlayExerciseAudio(audio)) return null;
+
+    const buttonLabel = !soundEnabled
+        ? t('exercises.audio.soundOff')
+        : label ?? t('exercises.audio.play');
+    const sizeClasses = size === 'lg'
+        ? 'w-24 h-24 text-5xl rounded-full'
+        : 'w-10 h-10 text-xl rounded-full';
+
+    return (
+        <button
+            type="button"
+            onClick={() => void play()}
+            disabled={!soundEnabled}
+            aria-label={buttonLabel}
+            title={buttonLabel}
+            className={`inline-flex flex-shrink-0 items-center justify-center bg-primary-50 text-primary-700 border-2 border-primary-200 hover:bg-primary-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 ${sizeClasses} ${isPlaying ? 'animate-pulse' : ''}`}
+        >
+            <span aria-hidden="true">{soundEnabled ? '🔊' : '🔇'}</span>
+        </button>
+    );
+}
@@ -1,7 +1,11 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
+import { useAppStore } from '@core/stores/appStore';
 import { feedbackStyles } from '@core/utils/exerciseStyles';
-import type { Exercise, StarRating } from '@/types/exercise';
+import { getReadAloudText } from '@core/utils/accessibility';
+import { getSpeechLang } from '@core/utils/audio';
+import { AudioButton } from './AudioButton';
+import type { Exercise, ExerciseAudio, StarRating } from '@/types/exercise';
 
 /**
  * Base props shared by all exercise components.
@@ -79,9 +83,12 @@ export function ExerciseWrapper({
                 role="region"
                 aria-label={t('exercises.instruction')}
             >
-                <p className="text-base font-semibold text-gray-800">
-                    {instruction}
-                </p>
+                <div className="flex items-center gap-3">
+                    <p className="text-base font-semibold text-gray-800">
+                        {instruction}
+                    </p>
+                    <ReadAloudButton text={instruction} />
+                </div>
             </div>
 
             {/* Exercise content */}
@@ -95,6 +102,7 @@ export function ExerciseWrapper({
                     className={`${feedbackStyles({ type: isCorrect ? 'success' : 'error' })} animate-fadeIn`}
                     role="alert"
                     aria-live="polite"
+                    data-read-aloud=""
                 >
                     <div className="flex items-start gap-3">
                         <span className="text-2xl" aria-hidden="true">
@@ -200,3 +208,138 @@ export function useExerciseFocus(showSolution: boolean) {
 
     return containerRef;
 }
+
+// ============================================================================
+// Read-Aloud Mode
+// ============================================================================
+
+/**
+ * Elements inside an exercise that get a 🔊 button in read-aloud mode:
+ * answer options, plus hints and feedback marked with `data-read-aloud`.
+ */
+const READ_ALOUD_SELECTOR = '[role="radio"], [role="option"], [role="checkbox"], [data-read-aloud]';
+
+/**
+ * Size of the 🔊 buttons placed on options (matches AudioButton "sm").
+ */
+const READ_ALOUD_BUTTON_SIZE = 40;
+
+/**
+ * A text found in the exercise and where to put its 🔊 button.
+ */
+interface ReadAloudTarget {
+    text: string;
+    top: number;
+    left: number;
+}
+
+/**
+ * Hook for the read-aloud settings.
+ * Returns whether read-aloud mode is on, whether to read on load,
+ * and the speech language for the current locale.
+ */
+export function useReadAloud() {
+    const enabled = useAppStore((state) => state.settings?.readAloudEnabled ?? false);
+    const autoRead = useAppStore((state) => state.settings?.autoReadAloud ?? false);
+    const locale = useAppStore((state) => state.settings?.locale ?? 'de');
+
+    return { enabled, autoRead, lang: getSpeechLang(locale) };
+}
+
+/**
+ * 🔊 button that reads a text aloud with the locale's voice.
+ * Renders nothing unless read-aloud mode is on.
+ */
+export function ReadAloudButton({ text, autoPlay = false }: { text: string; autoPlay?: boolean }) {
+    const { t } = useTranslation();
+    const { enabled, lang } = useReadAloud();
+    const audio = useMemo<ExerciseAudio>(() => ({ text, lang }), [text, lang]);
+
+    if (!enabled || !text) return null;
+
+    return <AudioButton audio={audio} autoPlay={autoPlay} label={t('exercises.readAloud', { text })} />;
+}
+
+/**
+ * Find the texts to read aloud in a container and position their buttons
+ * at the top right corner of each element, relative to `frame`.
+ * Nested matches are skipped so each text gets one button.
+ */
+function findReadAloudTargets(container: HTMLElement, frame: HTMLElement): ReadAloudTarget[] {
+    const frameRect = frame.getBoundingClientRect();
+    const maxLeft = Math.max(0, frameRect.width - READ_ALOUD_BUTTON_SIZE);
+
+    return Array.from(container.querySelectorAll(READ_ALOUD_SELECTOR))
+        .filter((element) => !element.closest('[data-read-aloud-skip]'))
+        .filter((element) => !element.parentElement?.closest(READ_ALOUD_SELECTOR))
+        .map((element) => {
+            const rect = element.getBoundingClientRect();
+            return {
+                text: getReadAloudText(element),
+                top: Math.max(0, rect.top - frameRect.top - READ_ALOUD_BUTTON_SIZE / 4),
+                left: Math.min(maxLeft, Math.max(0, rect.right - frameRect.left - READ_ALOUD_BUTTON_SIZE * 0.75)),
+            };
+        })
+        .filter((target) => target.text !== '');
+}
+
+/**
+ * Adds 🔊 buttons to every option, hint and feedback message of the
+ * exercise it wraps, so exercise components need no read-aloud code.
+ * The buttons are laid over the exercise instead of being inserted into
+ * it and follow the layout as the exercise changes.
+ * Options can opt out with `data-read-aloud-skip` on a container
+ * (e.g. when reading them would give away the answer).
+ */
+export function ReadAloudRegion({ children }: { children: React.ReactNode }) {
+    const { enabled } = useReadAloud();
+    const frameRef = useRef<HTMLDivElement>(null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    const [targets, setTargets] = useState<ReadAloudTarget[]>([]);
+
+    useEffect(() => {
+        const frame = frameRef.current;
+        const content = contentRef.current;
+        if (!enabled || !frame || !content) {
+            setTargets([]);
+            return;
+        }
+
+        const update = () => {
+            const next = findReadAloudTargets(content, frame);
+            setTargets((previous) =>
+                JSON.stringify(previous) === JSON.stringify(next) ? previous : next
+            );
+        };
+        update();
+
+        const mutationObserver = new MutationObserver(update);
+        mutationObserver.observe(content, { childList: true, subtree: true, characterData: true, attributes: true });
+        const resizeObserver = typeof ResizeObserver !== 'undefined' ? new ResizeObserver(update) : null;
+        resizeObserver?.observe(content);
+        window.addEventListener('resize', update);
+
+        return () => {
+            mutationObserver.disconnect();
+            resizeObserver?.disconnect();
+            window.removeEventListener('resize', update);
+        };
+    }, [enabled]);
+
+    if (!enabled) return <>{children}</>;
+
+    return (
+        <div ref={frameRef} className="relative">
+            <div ref={contentRef}>{children}</div>
+            {targets.map((target, index) => (
+                <div
+                    key={`${index}-${target.text}`}
+                    className="absolute z-10"
+                    style={{ top: target.top, left: target.left }}
+                >
+                    <ReadAloudButton text={target.text} />
+                </div>
+            ))}
+        </div>
+    );
+}
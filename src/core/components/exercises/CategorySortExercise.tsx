@@ -113,6 +113,7 @@ export function CategorySortExercise({ content, hints, onSubmit, showSolution }:
             {/* Item pool */}
             <ItemPool
                 items={pool}
+                images={content.images}
                 isDragOver={dragOverCategory === -1}
                 selectedItem={selectedItem}
                 draggingItem={draggingItem}
@@ -143,6 +144,7 @@ export function CategorySortExercise({ content, hints, onSubmit, showSolution }:
                         categoryIndex={catIdx}
                         label={cat.label}
                         items={buckets[catIdx] || []}
+                        images={content.images}
                         isDragOver={dragOverCategory === catIdx}
                         showSolution={showSolution}
                         results={results?.[catIdx]}
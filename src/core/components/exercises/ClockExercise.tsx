@@ -0,0 +1,402 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { LiveRegion } from '@core/components/accessibility';
+import { inputFieldStyles, optionStyles, type OptionVariant } from '@core/utils/exerciseStyles';
+import {
+    DEFAULT_CLOCK_MINUTE_STEP,
+    formatClockTime,
+    getClockHandAngles,
+    parseClockTime,
+    snapClockMinutes,
+    validateClockAnswer,
+} from '@core/utils/exercise';
+import type { ClockContent } from '@/types/exercise';
+
+interface Props {
+    content: ClockContent;
+    hints?: string[];
+    onSubmit: (correct: boolean) => void;
+    showSolution: boolean;
+}
+
+type Hand = 'hour' | 'minute';
+
+/** SVG coordinate system of the clock face */
+const SIZE = 200;
+const CENTER = SIZE / 2;
+const FACE_RADIUS = 92;
+const HOUR_HAND_LENGTH = 45;
+const MINUTE_HAND_LENGTH = 72;
+
+/**
+ * Analog clock exercise: read the time off the clock or set the hands.
+ * In set mode the hands are dragged with the pointer or turned with the
+ * arrow keys; the hour hand moves on with the minutes like on a real clock.
+ */
+export function ClockExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const [minutes, setMinutes] = useState(0);
+    const [typedAnswer, setTypedAnswer] = useState('');
+    const [selectedOption, setSelectedOption] = useState<string | null>(null);
+    const [lastResult, setLastResult] = useState<boolean | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    const [draggedHand, setDraggedHand] = useState<Hand | null>(null);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const minuteHandRef = useRef<SVGGElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const isSetMode = content.mode === 'set';
+    const minuteStep = content.minuteStep ?? DEFAULT_CLOCK_MINUTE_STEP;
+    const target = parseClockTime(content.time) ?? 0;
+
+    // Focus the minute hand or the answer field on mount
+    useEffect(() => {
+        if (showSolution) return;
+        if (isSetMode) {
+            minuteHandRef.current?.focus();
+        } else {
+            inputRef.current?.focus();
+        }
+    }, [isSetMode, showSolution]);
+
+    const setTime = (next: number) => {
+        if (showSolution || !isSetMode) return;
+        const snapped = snapClockMinutes(next, minuteStep);
+        setMinutes(snapped);
+        setLastResult(null);
+        setAnnouncement(t('exercises.clock.timeSet', { time: formatClockTime(snapped === 0 ? 12 * 60 : snapped) }));
+    };
+
+    // Angle of the pointer around the clock center, clockwise from 12
+    const angleFromPointer = (clientX: number, clientY: number): number | null => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return null;
+        const dx = clientX - (rect.left + rect.width / 2);
+        const dy = clientY - (rect.top + rect.height / 2);
+        return ((Math.atan2(dx, -dy) * 180) / Math.PI + 360) % 360;
+    };
+
+    const moveHandTo = (hand: Hand, angle: number) => {
+        const currentMinute = minutes % 60;
+        if (hand === 'minute') {
+            // Take the shorter way round so dragging past 12 changes the hour
+            let delta = angle / 6 - currentMinute;
+            if (delta > 30) delta -= 60;
+            if (delta <= -30) delta += 60;
+            setTime(minutes + delta);
+        } else {
+            const hour = Math.round(angle / 30 - currentMinute / 60);
+            setTime(hour * 60 + currentMinute);
+        }
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (showSolution || !isSetMode) return;
+        const handElement = (e.target as Element).closest('[data-hand]');
+        const hand: Hand = handElement?.getAttribute('data-hand') === 'hour' ? 'hour' : 'minute';
+        const angle = angleFromPointer(e.clientX, e.clientY);
+        if (angle === null) return;
+        svgRef.current?.setPointerCapture?.(e.pointerId);
+        setDraggedHand(hand);
+        moveHandTo(hand, angle);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!draggedHand) return;
+        const angle = angleFromPointer(e.clientX, e.clientY);
+        if (angle !== null) moveHandTo(draggedHand, angle);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!draggedHand) return;
+        svgRef.current?.releasePointerCapture?.(e.pointerId);
+        setDraggedHand(null);
+    };
+
+    const handleHandKeyDown = (hand: Hand) => (e: React.KeyboardEvent) => {
+        if (showSolution) return;
+        const amount = hand === 'minute' ? minuteStep : 60;
+
+        switch (e.key) {
+            case 'ArrowRight':
+            case 'ArrowUp':
+                e.preventDefault();
+                setTime(minutes + amount);
+                break;
+            case 'ArrowLeft':
+            case 'ArrowDown':
+                e.preventDefault();
+                setTime(minutes - amount);
+                break;
+            case 'PageUp':
+                e.preventDefault();
+                setTime(minutes + (hand === 'minute' ? 15 : 180));
+                break;
+            case 'PageDown':
+                e.preventDefault();
+                setTime(minutes - (hand === 'minute' ? 15 : 180));
+                break;
+            case 'Enter':
+                e.preventDefault();
+                handleCheck();
+                break;
+        }
+    };
+
+    const answer = isSetMode
+        ? minutes
+        : content.options
+            ? (selectedOption !== null ? parseClockTime(selectedOption) : null)
+            : parseClockTime(typedAnswer);
+    const canCheck = isSetMode || (content.options ? selectedOption !== null : typedAnswer.trim().length > 0);
+
+    const handleCheck = () => {
+        if (!canCheck || showSolution) return;
+        const correct = validateClockAnswer(content, answer);
+        setLastResult(correct);
+        onSubmit(correct);
+    };
+
+    const handleInputKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' && canCheck && !showSolution) {
+            handleCheck();
+        }
+    };
+
+    const isCorrect = validateClockAnswer(content, answer);
+    const shownTime = isSetMode ? minutes : target;
+    const angles = getClockHandAngles(shownTime);
+    const solutionAngles = getClockHandAngles(target);
+    const handColor = isSetMode && (showSolution || lastResult !== null)
+        ? (isCorrect ? '#22c55e' : '#ef4444')
+        : '#1f2937';
+    const hour12 = Math.floor(minutes / 60) || 12;
+
+    const getOptionVariant = (option: string): OptionVariant => {
+        const isSelected = selectedOption === option;
+        if (showSolution) {
+            if (validateClockAnswer(content, parseClockTime(option))) return 'correct';
+            if (isSelected) return 'incorrect';
+            return 'disabled';
+        }
+        return isSelected ? 'selected' : 'default';
+    };
+
+    const renderHand = (hand: Hand, angle: number, color: string, interactive: boolean) => {
+        const length = hand === 'hour' ? HOUR_HAND_LENGTH : MINUTE_HAND_LENGTH;
+        const width = hand === 'hour' ? 7 : 4;
+        return (
+            <g transform={`rotate(${angle} ${CENTER} ${CENTER})`} data-hand={interactive ? hand : undefined}>
+                {interactive && (
+                    // Wider invisible line as touch target
+                    <line x1={CENTER} y1={CENTER} x2={CENTER} y2={CENTER - length} stroke="transparent" strokeWidth={20} />
+                )}
+                <line
+                    x1={CENTER}
+                    y1={CENTER}
+                    x2={CENTER}
+                    y2={CENTER - length}
+                    stroke={color}
+                    strokeWidth={width}
+                    strokeLinecap="round"
+                />
+            </g>
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-lg font-bold text-gray-800" id="clock-question">
+                {content.question}
+            </p>
+
+            <div className="bg-white rounded-xl shadow-sm p-4 flex flex-col items-center">
+                <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${SIZE} ${SIZE}`}
+                    className={`w-full max-w-xs h-auto select-none ${isSetMode && !showSolution ? 'cursor-pointer touch-none' : ''}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    role={isSetMode ? 'group' : 'img'}
+                    aria-label={isSetMode
+                        ? t('exercises.clock.setLabel')
+                        : t('exercises.clock.readLabel')}
+                    aria-describedby="clock-question"
+                >
+                    {/* Face */}
+                    <circle cx={CENTER} cy={CENTER} r={FACE_RADIUS} fill="#ffffff" stroke="#374151" strokeWidth={4} />
+
+                    {/* Minute and hour ticks */}
+                    {Array.from({ length: 60 }, (_, i) => {
+                        const isHour = i % 5 === 0;
+                        return (
+                            <line
+                                key={`tick-${i}`}
+                                x1={CENTER}
+                                y1={CENTER - FACE_RADIUS + 4}
+                                x2={CENTER}
+                                y2={CENTER - FACE_RADIUS + (isHour ? 14 : 8)}
+                                stroke="#374151"
+                                strokeWidth={isHour ? 3 : 1}
+                                transform={`rotate(${i * 6} ${CENTER} ${CENTER})`}
+                            />
+                        );
+                    })}
+
+                    {/* Numbers */}
+                    {Array.from({ length: 12 }, (_, i) => {
+                        const number = i + 1;
+                        const angle = (number * 30 * Math.PI) / 180;
+                        return (
+                            <text
+                                key={`number-${number}`}
+                                x={CENTER + Math.sin(angle) * (FACE_RADIUS - 26)}
+                                y={CENTER - Math.cos(angle) * (FACE_RADIUS - 26)}
+                                textAnchor="middle"
+                                dominantBaseline="central"
+                                className="fill-gray-800 text-base font-bold"
+                            >
+                                {number}
+                            </text>
+                        );
+                    })}
+
+                    {/* Correct hands after a wrong setting */}
+                    {showSolution && isSetMode && !isCorrect && (
+                        <g data-testid="clock-solution" opacity={0.7}>
+                            {renderHand('hour', solutionAngles.hour, '#22c55e', false)}
+                            {renderHand('minute', solutionAngles.minute, '#22c55e', false)}
+                        </g>
+                    )}
+
+                    {/* Hands */}
+                    {isSetMode ? (
+                        <>
+                            <g
+                                role="slider"
+                                tabIndex={showSolution ? -1 : 0}
+                                aria-label={t('exercises.clock.hourHand')}
+                                aria-valuemin={1}
+                                aria-valuemax={12}
+                                aria-valuenow={hour12}
+                                aria-valuetext={formatClockTime(minutes === 0 ? 12 * 60 : minutes)}
+                                aria-disabled={showSolution}
+                                onKeyDown={handleHandKeyDown('hour')}
+                                className="focus:outline-none focus-visible:opacity-80"
+                            >
+                                {renderHand('hour', angles.hour, handColor, true)}
+                            </g>
+                            <g
+                                ref={minuteHandRef}
+                                role="slider"
+                                tabIndex={showSolution ? -1 : 0}
+                                aria-label={t('exercises.clock.minuteHand')}
+                                aria-valuemin={0}
+                                aria-valuemax={59}
+                                aria-valuenow={minutes % 60}
+                                aria-valuetext={formatClockTime(minutes === 0 ? 12 * 60 : minutes)}
+                                aria-disabled={showSolution}
+                                onKeyDown={handleHandKeyDown('minute')}
+                                className="focus:outline-none focus-visible:opacity-80"
+                            >
+                                {renderHand('minute', angles.minute, handColor, true)}
+                            </g>
+                        </>
+                    ) : (
+                        <>
+                            {renderHand('hour', angles.hour, handColor, false)}
+                            {renderHand('minute', angles.minute, handColor, false)}
+                        </>
+                    )}
+
+                    <circle cx={CENTER} cy={CENTER} r={5} fill="#1f2937" />
+                </svg>
+
+                {isSetMode && !showSolution && (
+                    <p className="text-xs text-gray-500 mt-2 text-center">
+                        {t('exercises.clock.keyboardHint')}
+                    </p>
+                )}
+            </div>
+
+            {/* Read mode: choose a digital time */}
+            {!isSetMode && content.options && (
+                <div className="grid grid-cols-2 gap-2" role="radiogroup" aria-labelledby="clock-question">
+                    {content.options.map((option) => (
+                        <button
+                            key={option}
+                            onClick={() => {
+                                if (showSolution) return;
+                                setSelectedOption(option);
+                                setLastResult(null);
+                            }}
+                            disabled={showSolution}
+                            role="radio"
+                            aria-checked={selectedOption === option}
+                            className={`justify-center rounded-xl font-bold text-lg focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${optionStyles({ variant: getOptionVariant(option) })}`}
+                        >
+                            {option}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Read mode: type the time */}
+            {!isSetMode && !content.options && (
+                <div className="flex items-center gap-2">
+                    <label htmlFor="clock-answer" className="text-sm font-semibold text-gray-600">
+                        {t('exercises.clock.answerLabel')}
+                    </label>
+                    <input
+                        ref={inputRef}
+                        id="clock-answer"
+                        type="text"
+                        inputMode="numeric"
+                        value={typedAnswer}
+                        onChange={(e) => {
+                            setTypedAnswer(e.target.value);
+                            setLastResult(null);
+                        }}
+                        onKeyDown={handleInputKeyDown}
+                        disabled={showSolution}
+                        className={`w-32 px-3 py-1.5 text-base font-bold border-b-4 rounded-lg text-center transition-colors focus:outline-none focus:ring-2 focus:ring-primary/30 ${inputFieldStyles({
+                            state: showSolution || lastResult !== null ? (isCorrect ? 'correct' : 'incorrect') : 'neutral',
+                        })}`}
+                        placeholder="hh:mm"
+                    />
+                </div>
+            )}
+
+            {/* Screen reader announcements of hand moves */}
+            <LiveRegion>{announcement}</LiveRegion>
+
+            {/* Solution */}
+            <ExerciseFeedback
+                show={showSolution && !isCorrect}
+                type="success"
+                message={t('exercises.clock.solution')}
+                explanation={content.time}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={!canCheck}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
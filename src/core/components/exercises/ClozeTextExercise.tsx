@@ -0,0 +1,184 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { inputFieldStyles } from '@core/utils/exerciseStyles';
+import { parseClozeText, validateClozeTextAnswer } from '@core/utils/exercise';
+import type { ClozeBlank, ClozeTextContent } from '@/types/exercise';
+
+interface Props {
+    content: ClozeTextContent;
+    hints?: string[];
+    onSubmit: (correct: boolean, accuracy?: number) => void;
+    showSolution: boolean;
+}
+
+/**
+ * Cloze text exercise: fill in many numbered blanks in a paragraph.
+ * Blanks are text fields or dropdowns and are scored one by one.
+ * Correct blanks stay locked on retry; the share of correct blanks
+ * is reported with the answer for partial scoring.
+ */
+export function ClozeTextExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const [answers, setAnswers] = useState<Record<number, string>>({});
+    const [results, setResults] = useState<Record<number, boolean>>({});
+    const [caseWrongBlanks, setCaseWrongBlanks] = useState<Record<number, boolean>>({});
+    const firstInputRef = useRef<HTMLInputElement>(null);
+    const firstSelectRef = useRef<HTMLSelectElement>(null);
+
+    const segments = useMemo(() => parseClozeText(content.text), [content.text]);
+    const blanksById = useMemo(
+        () => new Map(content.blanks.map((blank) => [blank.id, blank])),
+        [content.blanks]
+    );
+    const firstBlankId = content.blanks[0]?.id;
+
+    // Focus first blank on mount
+    useEffect(() => {
+        if (!showSolution) {
+            (firstInputRef.current ?? firstSelectRef.current)?.focus();
+        }
+    }, [showSolution]);
+
+    const handleAnswerChange = (blankId: number, value: string) => {
+        if (showSolution || results[blankId]) return;
+        setAnswers((prev) => ({ ...prev, [blankId]: value }));
+        // Clear feedback for this blank on edit
+        if (results[blankId] === false || caseWrongBlanks[blankId]) {
+            setResults((prev) => {
+                const next = { ...prev };
+                delete next[blankId];
+                return next;
+            });
+            setCaseWrongBlanks((prev) => ({ ...prev, [blankId]: false }));
+        }
+    };
+
+    const anyFilled = content.blanks.some((blank) => (answers[blank.id] ?? '').trim().length > 0);
+
+    const handleCheck = () => {
+        if (!anyFilled) return;
+
+        const result = validateClozeTextAnswer(content, answers);
+        setResults(result.results);
+        setCaseWrongBlanks(result.caseErrors);
+        onSubmit(result.correct, result.accuracy);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' && anyFilled && !showSolution) {
+            handleCheck();
+        }
+    };
+
+    const correctCount = Object.values(results).filter(Boolean).length;
+
+    const renderBlank = (blank: ClozeBlank) => {
+        const result = results[blank.id];
+        const isLocked = showSolution || result === true;
+        const state = result === true ? 'correct' : result === false ? 'incorrect' : 'neutral';
+        const caseWrongOverride = caseWrongBlanks[blank.id] && !showSolution
+            ? 'border-amber-400 bg-amber-50 text-amber-800'
+            : '';
+        const label = t('exercises.clozeText.blankLabel', { number: blank.id });
+        const fieldClassName = `inline-block px-2 py-1 text-base font-bold border-b-4 rounded-lg text-center transition-colors focus:outline-none focus:ring-2 focus:ring-primary/30 ${inputFieldStyles({ state })} ${caseWrongOverride}`;
+
+        return (
+            <span key={`blank-${blank.id}`} className="inline-block align-middle mx-1 my-1">
+                {blank.options ? (
+                    <select
+                        ref={blank.id === firstBlankId ? firstSelectRef : undefined}
+                        value={answers[blank.id] ?? ''}
+                        onChange={(e) => handleAnswerChange(blank.id, e.target.value)}
+                        disabled={isLocked}
+                        aria-label={label}
+                        aria-invalid={result === false}
+                        className={`w-auto min-w-[7rem] ${fieldClassName}`}
+                    >
+                        <option value="">…</option>
+                        {blank.options.map((option) => (
+                            <option key={option} value={option}>
+                                {option}
+                            </option>
+                        ))}
+                    </select>
+                ) : (
+                    <input
+                        ref={blank.id === firstBlankId ? firstInputRef : undefined}
+                        type="text"
+                        value={answers[blank.id] ?? ''}
+                        onChange={(e) => handleAnswerChange(blank.id, e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        disabled={isLocked}
+                        aria-label={label}
+                        aria-invalid={result === false}
+                        className={`w-32 ${fieldClassName}`}
+                        placeholder={`(${blank.id})`}
+                    />
+                )}
+                {/* Show correct answer on solution */}
+                {showSolution && result !== true && (
+                    <span className="ml-1 text-sm text-green-600 font-semibold">
+                        → {blank.correctAnswer}
+                    </span>
+                )}
+            </span>
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-sm font-semibold text-gray-600" id="cloze-instruction">
+                {t('exercises.clozeText.instruction')}
+            </p>
+
+            {/* Paragraph with blanks */}
+            <div
+                className="bg-white rounded-xl shadow-sm p-4"
+                role="group"
+                aria-labelledby="cloze-instruction"
+            >
+                <p className="text-lg text-gray-800 leading-loose whitespace-pre-line">
+                    {segments.map((segment, idx) => {
+                        if (segment.kind === 'text') {
+                            return <span key={`text-${idx}`}>{segment.text}</span>;
+                        }
+                        const blank = blanksById.get(segment.blankId);
+                        return blank ? renderBlank(blank) : null;
+                    })}
+                </p>
+            </div>
+
+            {/* Number of correct blanks after a check */}
+            {Object.keys(results).length > 0 && (
+                <p className="text-sm font-semibold text-gray-600" role="status" aria-live="polite">
+                    {t('exercises.clozeText.score', { correct: correctCount, total: content.blanks.length })}
+                </p>
+            )}
+
+            {/* Case-wrong feedback */}
+            <ExerciseFeedback
+                show={Object.values(caseWrongBlanks).some(Boolean) && !showSolution}
+                type="warning"
+                message={t('exercises.fillBlank.wrongCase')}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={!anyFilled}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
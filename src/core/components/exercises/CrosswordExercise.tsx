@@ -0,0 +1,342 @@
+import { useState, useRef, useMemo, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { LiveRegion } from '@core/components/accessibility';
+import { solutionStateStyles } from '@core/utils/exerciseStyles';
+import {
+    checkCrossword,
+    generateCrossword,
+    getCrosswordCellKey,
+    getCrosswordWordCells,
+    normalizeCrosswordWord,
+    type CrosswordCheckResult,
+    type CrosswordDirection,
+    type CrosswordPlacement,
+} from '@core/utils/crossword';
+import type { CrosswordContent } from '@/types/exercise';
+
+interface Props {
+    content: CrosswordContent;
+    hints?: string[];
+    onSubmit: (correct: boolean) => void;
+    showSolution: boolean;
+}
+
+/** Arrow keys: direction they write in and step through the grid */
+const ARROW_STEPS: Record<string, { direction: CrosswordDirection; dr: number; dc: number }> = {
+    ArrowRight: { direction: 'across', dr: 0, dc: 1 },
+    ArrowLeft: { direction: 'across', dr: 0, dc: -1 },
+    ArrowDown: { direction: 'down', dr: 1, dc: 0 },
+    ArrowUp: { direction: 'down', dr: -1, dc: 0 },
+};
+
+/**
+ * Crossword exercise: the grid is laid out from the words and clues of
+ * the exercise. The child types a letter per cell; the cursor moves on
+ * along the current word. Arrow keys move between cells, clicking a cell
+ * twice (or a clue) switches between across and down. Checking marks
+ * wrong and empty cells.
+ */
+export function CrosswordExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const layout = useMemo(() => generateCrossword(content.words, content.seed), [content.words, content.seed]);
+    const [letters, setLetters] = useState<Record<string, string>>({});
+    const [active, setActive] = useState<{ row: number; col: number } | null>(null);
+    const [direction, setDirection] = useState<CrosswordDirection>('across');
+    const [checked, setChecked] = useState<CrosswordCheckResult | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+    // Direction for the cell focused next (focus events run before a re-render)
+    const directionRef = useRef<CrosswordDirection>('across');
+
+    // Words running through each cell
+    const wordsByCell = useMemo(() => {
+        const map = new Map<string, Partial<Record<CrosswordDirection, CrosswordPlacement>>>();
+        for (const placement of layout.placements) {
+            for (const { row, col } of getCrosswordWordCells(placement)) {
+                const key = getCrosswordCellKey(row, col);
+                map.set(key, { ...map.get(key), [placement.direction]: placement });
+            }
+        }
+        return map;
+    }, [layout]);
+
+    const numbersByCell = useMemo(
+        () => new Map(layout.placements.map((p) => [getCrosswordCellKey(p.row, p.col), p.number])),
+        [layout]
+    );
+
+    const activeKey = active ? getCrosswordCellKey(active.row, active.col) : null;
+    const activeWords = activeKey ? wordsByCell.get(activeKey) : undefined;
+    const activeWord = activeWords?.[direction] ?? activeWords?.[direction === 'across' ? 'down' : 'across'];
+    const activeWordCells = useMemo(
+        () => new Set((activeWord ? getCrosswordWordCells(activeWord) : []).map(({ row, col }) => getCrosswordCellKey(row, col))),
+        [activeWord]
+    );
+
+    // Focus the first cell of the first word on mount
+    useEffect(() => {
+        const first = layout.placements[0];
+        if (!showSolution && first) {
+            inputRefs.current[getCrosswordCellKey(first.row, first.col)]?.focus();
+        }
+    }, [showSolution]);
+
+    const clueLabel = (placement: CrosswordPlacement) =>
+        t(`exercises.crossword.${placement.direction}Clue`, { number: placement.number });
+
+    const focusCell = (row: number, col: number) => {
+        inputRefs.current[getCrosswordCellKey(row, col)]?.focus();
+    };
+
+    // Announce the clue when the cursor enters another word
+    const activateCell = (row: number, col: number, preferred: CrosswordDirection) => {
+        const words = wordsByCell.get(getCrosswordCellKey(row, col));
+        const nextDirection = words?.[preferred] ? preferred : preferred === 'across' ? 'down' : 'across';
+        const word = words?.[nextDirection];
+        if (word && word !== activeWord) {
+            setAnnouncement(t('exercises.crossword.clue', {
+                label: clueLabel(word),
+                clue: word.clue,
+                count: word.answer.length,
+            }));
+        }
+        setActive({ row, col });
+        setDirection(nextDirection);
+        directionRef.current = nextDirection;
+    };
+
+    const isLetterCell = (row: number, col: number) => (layout.grid[row]?.[col] ?? null) !== null;
+
+    // Step to the next letter cell, jumping over blocked cells
+    const findCell = (row: number, col: number, dr: number, dc: number): { row: number; col: number } | null => {
+        let r = row + dr;
+        let c = col + dc;
+        while (r >= 0 && r < layout.height && c >= 0 && c < layout.width) {
+            if (isLetterCell(r, c)) return { row: r, col: c };
+            r += dr;
+            c += dc;
+        }
+        return null;
+    };
+
+    // Next or previous cell of the current word
+    const stepInWord = (row: number, col: number, step: 1 | -1): { row: number; col: number } | null => {
+        const dr = direction === 'down' ? step : 0;
+        const dc = direction === 'across' ? step : 0;
+        return activeWordCells.has(getCrosswordCellKey(row + dr, col + dc)) ? { row: row + dr, col: col + dc } : null;
+    };
+
+    const setLetter = (key: string, letter: string) => {
+        setLetters((prev) => ({ ...prev, [key]: letter }));
+        // A changed cell is no longer marked as wrong
+        setChecked((prev) => prev && { ...prev, wrongCells: prev.wrongCells.filter((k) => k !== key) });
+    };
+
+    const handleChange = (row: number, col: number, value: string) => {
+        if (showSolution) return;
+        const letter = normalizeCrosswordWord(value).pop() ?? '';
+        if (letter !== '' && !/^\p{L}$/u.test(letter)) return;
+        setLetter(getCrosswordCellKey(row, col), letter);
+        if (letter !== '') {
+            const next = stepInWord(row, col, 1);
+            if (next) focusCell(next.row, next.col);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent, row: number, col: number) => {
+        if (showSolution) return;
+        const arrow = ARROW_STEPS[e.key];
+
+        if (arrow) {
+            e.preventDefault();
+            // The first arrow press in the other direction only turns the cursor
+            if (arrow.direction !== direction && wordsByCell.get(getCrosswordCellKey(row, col))?.[arrow.direction]) {
+                activateCell(row, col, arrow.direction);
+                return;
+            }
+            const target = findCell(row, col, arrow.dr, arrow.dc);
+            if (target) {
+                directionRef.current = arrow.direction;
+                focusCell(target.row, target.col);
+            }
+            return;
+        }
+
+        if (e.key === 'Backspace' && !letters[getCrosswordCellKey(row, col)]) {
+            // Empty cell: go back and delete the previous letter
+            e.preventDefault();
+            const previous = stepInWord(row, col, -1);
+            if (previous) {
+                setLetter(getCrosswordCellKey(previous.row, previous.col), '');
+                focusCell(previous.row, previous.col);
+            }
+        }
+    };
+
+    const handleCellMouseDown = (row: number, col: number) => {
+        if (showSolution) return;
+        // A second click on the active cell switches between across and down
+        if (active?.row === row && active.col === col) {
+            activateCell(row, col, direction === 'across' ? 'down' : 'across');
+        }
+    };
+
+    const handleClueClick = (placement: CrosswordPlacement) => {
+        if (showSolution) return;
+        directionRef.current = placement.direction;
+        focusCell(placement.row, placement.col);
+    };
+
+    const handleCheck = () => {
+        if (showSolution) return;
+        const result = checkCrossword(layout, letters);
+        setChecked(result);
+        onSubmit(result.correct);
+    };
+
+    const solution = showSolution ? checkCrossword(layout, letters) : null;
+    const wrongCells = new Set((solution ?? checked)?.wrongCells ?? []);
+    const solvedWords = new Set((solution ?? checked)?.solvedWords ?? []);
+    const hasLetters = Object.values(letters).some((letter) => letter !== '');
+
+    const getCellStyles = (key: string): string => {
+        if (wrongCells.has(key)) return solutionStateStyles({ state: 'incorrect' });
+        if (showSolution || (checked?.correct ?? false)) return solutionStateStyles({ state: 'correct' });
+        if (activeWordCells.has(key)) return solutionStateStyles({ state: 'selected' });
+        return solutionStateStyles({ state: 'neutral' });
+    };
+
+    const getCellLabel = (key: string): string => {
+        const words = wordsByCell.get(key);
+        const word = words?.[direction] ?? words?.across ?? words?.down;
+        if (!word) return '';
+        const position = getCrosswordWordCells(word).findIndex(({ row, col }) => getCrosswordCellKey(row, col) === key) + 1;
+        return t('exercises.crossword.cell', { label: clueLabel(word), position, total: word.answer.length });
+    };
+
+    const renderClues = (clueDirection: CrosswordDirection) => {
+        const placements = layout.placements.filter((p) => p.direction === clueDirection);
+        if (placements.length === 0) return null;
+
+        return (
+            <div>
+                <h3 className="font-bold text-gray-800 mb-1">{t(`exercises.crossword.${clueDirection}`)}</h3>
+                <ul className="space-y-1">
+                    {placements.map((placement) => {
+                        const isActive = placement === activeWord;
+                        const isSolved = solvedWords.has(placement.entryIndex);
+                        return (
+                            <li key={`${placement.direction}-${placement.number}`} data-read-aloud="">
+                                <button
+                                    type="button"
+                                    onClick={() => handleClueClick(placement)}
+                                    aria-label={`${clueLabel(placement)}: ${placement.clue}`}
+                                    className={`w-full text-left px-2 py-1 rounded-lg text-sm transition-colors focus:outline-none focus:ring-2 focus:ring-primary ${isActive ? 'bg-blue-50 text-blue-900 font-semibold' : 'text-gray-700 hover:bg-gray-50'}`}
+                                >
+                                    <span className="font-bold mr-1">{placement.number}.</span>
+                                    {placement.clue}
+                                    <span className="text-gray-500"> ({placement.answer.length})</span>
+                                    {isSolved && <span className="text-green-600 ml-1" aria-hidden="true">✓</span>}
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Grid (not read aloud: the cells are empty or give away the answer) */}
+            <div className="bg-white rounded-xl shadow-sm p-3 overflow-x-auto" data-read-aloud-skip>
+                <div
+                    role="group"
+                    aria-label={t('exercises.crossword.grid')}
+                    aria-describedby={showSolution ? undefined : 'crossword-keyboard-hint'}
+                    className="grid gap-0.5 mx-auto w-fit"
+                    style={{ gridTemplateColumns: `repeat(${layout.width}, minmax(1.75rem, 2.5rem))` }}
+                >
+                    {layout.grid.map((row, r) => row.map((solutionLetter, c) => {
+                        const key = getCrosswordCellKey(r, c);
+                        if (solutionLetter === null) {
+                            return <div key={key} className="aspect-square" aria-hidden="true" />;
+                        }
+                        const number = numbersByCell.get(key);
+
+                        return (
+                            <div key={key} className="relative aspect-square">
+                                {number !== undefined && (
+                                    <span className="absolute top-0 left-0.5 text-[0.6rem] leading-none font-bold text-gray-600 pointer-events-none" aria-hidden="true">
+                                        {number}
+                                    </span>
+                                )}
+                                <input
+                                    ref={(el) => { inputRefs.current[key] = el; }}
+                                    type="text"
+                                    value={showSolution ? solutionLetter : letters[key] ?? ''}
+                                    onChange={(e) => handleChange(r, c, e.target.value)}
+                                    onKeyDown={(e) => handleKeyDown(e, r, c)}
+                                    onFocus={(e) => {
+                                        e.target.select();
+                                        activateCell(r, c, directionRef.current);
+                                    }}
+                                    onMouseDown={() => handleCellMouseDown(r, c)}
+                                    readOnly={showSolution}
+                                    aria-label={getCellLabel(key)}
+                                    aria-invalid={wrongCells.has(key) || undefined}
+                                    autoComplete="off"
+                                    autoCapitalize="characters"
+                                    spellCheck={false}
+                                    className={`w-full h-full text-center text-lg font-bold uppercase caret-transparent focus:outline-none focus:ring-2 focus:ring-primary ${getCellStyles(key)}`}
+                                    data-testid={`crossword-cell-${key}`}
+                                />
+                            </div>
+                        );
+                    }))}
+                </div>
+            </div>
+
+            {!showSolution && (
+                <p id="crossword-keyboard-hint" className="text-xs text-gray-500 text-center">
+                    {t('exercises.crossword.keyboardHint')}
+                </p>
+            )}
+
+            {/* Screen reader announcements of the current clue */}
+            <LiveRegion>{announcement}</LiveRegion>
+
+            {/* Clues */}
+            <div className="grid gap-4 sm:grid-cols-2">
+                {renderClues('across')}
+                {renderClues('down')}
+            </div>
+
+            {/* Wrong cells after checking */}
+            <ExerciseFeedback
+                show={checked !== null && !showSolution && checked.wrongCells.length > 0}
+                type="info"
+                message={t('exercises.crossword.wrongCells', { count: checked?.wrongCells.length ?? 0 })}
+                announce={false}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={!hasLetters}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,256 @@
+import { useState, useRef, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import {
+    drawStroke,
+    ERASER_WIDTH,
+    getDrawingColors,
+    getDrawingSize,
+    PEN_WIDTH,
+    redrawStrokes,
+    toCanvasPoint,
+    type DrawingStroke,
+    type DrawingTool,
+} from '@core/utils/drawing';
+import type { DrawingContent } from '@/types/exercise';
+
+interface Props {
+    content: DrawingContent;
+    hints?: string[];
+    onSubmit: (correct: boolean, accuracy?: number, drawing?: string) => void;
+    showSolution: boolean;
+    palette?: string[];
+}
+
+/** Colour of the tracing outline */
+const TRACE_COLOR = '#9ca3af';
+
+/**
+ * Drawing exercise: draw freely or trace an outline on a canvas with a
+ * pen, an eraser and undo. Pen colours come from the exercise, else from
+ * the theme's palette. There is no right or wrong: the finished drawing
+ * is saved as a PNG with the result for the teacher to look at.
+ */
+export function DrawingExercise({ content, hints, onSubmit, showSolution, palette }: Props) {
+    const { t } = useTranslation();
+    const { width, height } = getDrawingSize(content);
+    const colors = useMemo(() => getDrawingColors(content, palette), [content, palette]);
+
+    const [strokes, setStrokes] = useState<DrawingStroke[]>([]);
+    const [tool, setTool] = useState<DrawingTool>('pen');
+    const [color, setColor] = useState(colors[0] ?? '#000000');
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const currentStrokeRef = useRef<DrawingStroke | null>(null);
+
+    const hasPenStroke = strokes.some((stroke) => stroke.tool === 'pen');
+
+    const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) =>
+        toCanvasPoint(e.clientX, e.clientY, e.currentTarget.getBoundingClientRect(), width, height);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        if (showSolution) return;
+        e.preventDefault();
+        e.currentTarget.setPointerCapture?.(e.pointerId);
+
+        const stroke: DrawingStroke = {
+            tool,
+            color,
+            width: tool === 'eraser' ? ERASER_WIDTH : PEN_WIDTH,
+            points: [getPoint(e)],
+        };
+        currentStrokeRef.current = stroke;
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx) drawStroke(ctx, stroke);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const stroke = currentStrokeRef.current;
+        if (!stroke) return;
+        const previous = stroke.points[stroke.points.length - 1];
+        const point = getPoint(e);
+        stroke.points.push(point);
+
+        // Only the new segment is drawn while the pointer moves
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx && previous) drawStroke(ctx, { ...stroke, points: [previous, point] });
+    };
+
+    const handlePointerUp = () => {
+        const stroke = currentStrokeRef.current;
+        if (!stroke) return;
+        currentStrokeRef.current = null;
+        setStrokes((previous) => [...previous, stroke]);
+    };
+
+    const handleUndo = () => {
+        if (showSolution || strokes.length === 0) return;
+        const remaining = strokes.slice(0, -1);
+        setStrokes(remaining);
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx) redrawStrokes(ctx, remaining, width, height);
+    };
+
+    /**
+     * Export the drawing as a PNG: white background, the tracing outline
+     * (light, so the teacher can see what was traced) and the strokes.
+     */
+    const exportDrawing = useCallback((): string | undefined => {
+        const canvas = canvasRef.current;
+        if (!canvas) return undefined;
+        const output = document.createElement('canvas');
+        output.width = width;
+        output.height = height;
+        const ctx = output.getContext('2d');
+        if (!ctx) return undefined;
+
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, width, height);
+        if (content.trace && typeof Path2D !== 'undefined') {
+            ctx.strokeStyle = TRACE_COLOR;
+            ctx.lineWidth = 2;
+            ctx.stroke(new Path2D(content.trace));
+        }
+        ctx.drawImage(canvas, 0, 0);
+        return output.toDataURL('image/png');
+    }, [content.trace, width, height]);
+
+    const handleDone = () => {
+        if (!hasPenStroke || showSolution) return;
+        onSubmit(true, undefined, exportDrawing());
+    };
+
+    const toolButtonClass = (active: boolean) =>
+        `px-4 py-2 rounded-xl border-2 font-semibold transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${active
+            ? 'bg-primary text-white border-primary'
+            : 'bg-white text-gray-800 border-gray-300 hover:bg-gray-50'}`;
+
+    return (
+        <div className="space-y-4">
+            <p className="text-lg font-bold text-gray-800" id="drawing-prompt">
+                {content.prompt}
+            </p>
+
+            <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+                {/* Canvas with the tracing outline below it */}
+                <div
+                    className="relative w-full mx-auto border-2 border-gray-300 rounded-lg overflow-hidden bg-white"
+                    style={{ maxWidth: width, aspectRatio: `${width} / ${height}` }}
+                >
+                    {content.trace && (
+                        <svg
+                            viewBox={`0 0 ${width} ${height}`}
+                            className="absolute inset-0 w-full h-full pointer-events-none"
+                            aria-hidden="true"
+                        >
+                            <path
+                                d={content.trace}
+                                fill="none"
+                                stroke={TRACE_COLOR}
+                                strokeWidth={3}
+                                strokeDasharray="8 6"
+                                vectorEffect="non-scaling-stroke"
+                            />
+                        </svg>
+                    )}
+                    <canvas
+                        ref={canvasRef}
+                        width={width}
+                        height={height}
+                        role="img"
+                        aria-label={t('exercises.drawing.canvas')}
+                        aria-describedby="drawing-prompt"
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                        onPointerCancel={handlePointerUp}
+                        className={`relative w-full h-full touch-none ${showSolution ? '' : 'cursor-crosshair'}`}
+                        data-testid="drawing-canvas"
+                    />
+                </div>
+
+                {content.trace && !showSolution && (
+                    <p className="text-xs text-gray-500 text-center">
+                        {t('exercises.drawing.traceHint')}
+                    </p>
+                )}
+
+                {/* Tools and colours */}
+                {!showSolution && (
+                    <div className="flex flex-wrap items-center justify-center gap-2" role="toolbar" aria-label={t('exercises.drawing.tools')}>
+                        <button
+                            type="button"
+                            onClick={() => setTool('pen')}
+                            aria-pressed={tool === 'pen'}
+                            className={toolButtonClass(tool === 'pen')}
+                        >
+                            <span aria-hidden="true">✏️ </span>{t('exercises.drawing.pen')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setTool('eraser')}
+                            aria-pressed={tool === 'eraser'}
+                            className={toolButtonClass(tool === 'eraser')}
+                        >
+                            <span aria-hidden="true">🧽 </span>{t('exercises.drawing.eraser')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleUndo}
+                            disabled={strokes.length === 0}
+                            className={`${toolButtonClass(false)} disabled:opacity-50 disabled:cursor-not-allowed`}
+                        >
+                            <span aria-hidden="true">↩️ </span>{t('exercises.drawing.undo')}
+                        </button>
+
+                        <div className="flex flex-wrap gap-2 ml-2">
+                            {colors.map((option, idx) => {
+                                const isSelected = tool === 'pen' && option === color;
+                                return (
+                                    <button
+                                        key={`${option}-${idx}`}
+                                        type="button"
+                                        onClick={() => {
+                                            setColor(option);
+                                            setTool('pen');
+                                        }}
+                                        aria-pressed={isSelected}
+                                        aria-label={t('exercises.drawing.color', { number: idx + 1 })}
+                                        className={`w-10 h-10 rounded-full border-4 transition-transform focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${isSelected
+                                            ? 'border-gray-800 scale-110'
+                                            : 'border-white shadow'}`}
+                                        style={{ backgroundColor: option }}
+                                    />
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {showSolution && hasPenStroke && (
+                <ExerciseFeedback
+                    show={true}
+                    type="success"
+                    message={t('exercises.drawing.saved')}
+                />
+            )}
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Done button */}
+            {!showSolution && (
+                <button
+                    onClick={handleDone}
+                    disabled={!hasPenStroke}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.drawing.done')}
+                </button>
+            )}
+        </div>
+    );
+}
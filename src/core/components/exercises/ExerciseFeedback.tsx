@@ -128,6 +128,7 @@ export function ExerciseFeedback({
         <div
             role="alert"
             aria-live="polite"
+            data-read-aloud=""
             className={`${baseClasses} ${className || ''}`}
         >
             <div className="flex-shrink-0">
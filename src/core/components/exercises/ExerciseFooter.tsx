@@ -7,6 +7,7 @@
 import { useTranslation } from 'react-i18next';
 import { Button } from '@core/components/ui';
 import { feedbackStyles } from '@core/utils/exerciseStyles';
+import { ReadAloudButton } from './BaseExercise';
 
 // ============================================================================
 // Types
@@ -88,7 +89,10 @@ export function ExerciseFooter({
                     role="alert"
                     aria-live="polite"
                 >
-                    <p className="font-medium">{feedbackMessage}</p>
+                    <div className="flex items-center gap-3">
+                        <p className="font-medium">{feedbackMessage}</p>
+                        <ReadAloudButton text={feedbackMessage} />
+                    </div>
                 </div>
             )}
 
@@ -5,7 +5,9 @@
  */
 
 import { useTranslation } from 'react-i18next';
-import type { Theme } from '@/types';
+import { AudioButton } from './AudioButton';
+import { ReadAloudButton, useReadAloud } from './BaseExercise';
+import type { ExerciseAudio } from '@/types';
 
 // ============================================================================
 // Types
@@ -16,12 +18,12 @@ export interface ExerciseHeaderProps {
     currentExercise: number;
     /** Total number of exercises in the session */
     totalExercises: number;
-    /** Theme information for display */
-    theme?: Theme | null;
-    /** Theme ID fallback */
-    themeId?: string;
+    /** Title shown next to the progress, e.g. the theme name */
+    title: string;
     /** Exercise instruction text (may be a translation key prefixed with 't:') */
     instruction: string;
+    /** Audio played with the 🔊 button next to the instruction */
+    audio?: ExerciseAudio;
 }
 
 // ============================================================================
@@ -30,14 +32,16 @@ export interface ExerciseHeaderProps {
 
 /**
  * Header component for exercise pages.
- * Displays progress bar, theme name, and instruction.
+ * Displays progress bar, title (e.g. the theme name), and instruction,
+ * with a 🔊 button when the exercise has audio and one that reads the
+ * instruction in read-aloud mode (automatically on load if enabled).
  * 
  * @example
  * ```tsx
  * <ExerciseHeader
  *   currentExercise={1}
  *   totalExercises={10}
- *   theme={theme}
+ *   title={theme.name}
  *   instruction="Fill in the blank"
  * />
  * ```
@@ -45,11 +49,12 @@ export interface ExerciseHeaderProps {
 export function ExerciseHeader({
     currentExercise,
     totalExercises,
-    theme,
-    themeId,
+    title,
     instruction,
+    audio,
 }: ExerciseHeaderProps) {
     const { t } = useTranslation();
+    const { autoRead } = useReadAloud();
 
     const progressPercent = totalExercises > 0
         ? (currentExercise / totalExercises) * 100
@@ -70,7 +75,7 @@ export function ExerciseHeader({
                         total: totalExercises,
                     })}
                 </span>
-                <span>{theme?.name ?? themeId ?? ''}</span>
+                <span>{title}</span>
             </div>
 
             {/* Progress bar */}
@@ -89,9 +94,13 @@ export function ExerciseHeader({
             </div>
 
             {/* Instruction */}
-            <h1 className="text-xl font-bold text-gray-900 mt-4">
-                {displayInstruction}
-            </h1>
+            <div className="flex items-center gap-3 mt-4">
+                <h1 className="text-xl font-bold text-gray-900">
+                    {displayInstruction}
+                </h1>
+                <ReadAloudButton text={displayInstruction} autoPlay={autoRead} />
+                {audio && <AudioButton audio={audio} />}
+            </div>
         </div>
     );
 }
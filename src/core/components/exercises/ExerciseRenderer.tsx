@@ -14,6 +14,20 @@ import { CategorySortExercise } from './CategorySortExercise';
 import { ConnectorInsertExercise } from './ConnectorInsertExercise';
 import { WritingExercise } from './WritingExercise';
 import { PictureVocabularyExercise } from './PictureVocabularyExercise';
+import { ClozeTextExercise } from './ClozeTextExercise';
+import { NumberLineExercise } from './NumberLineExercise';
+import { ClockExercise } from './ClockExercise';
+import { ListeningExercise } from './ListeningExercise';
+import { HotspotExercise } from './HotspotExercise';
+import { SequenceExercise } from './SequenceExercise';
+import { MemoryExercise } from './MemoryExercise';
+import { CrosswordExercise } from './CrosswordExercise';
+import { ArithmeticExercise } from './ArithmeticExercise';
+import { DrawingExercise } from './DrawingExercise';
+import { NoteReadingExercise } from './NoteReadingExercise';
+import { RhythmExercise } from './RhythmExercise';
+import { SyllablesExercise } from './SyllablesExercise';
+import { ReadAloudRegion } from './BaseExercise';
 
 /**
  * Common props interface for all exercise components.
@@ -21,8 +35,13 @@ import { PictureVocabularyExercise } from './PictureVocabularyExercise';
 export interface ExerciseProps {
     content: ExerciseContent;
     hints?: string[];
-    onSubmit: (correct: boolean) => void;
+    /** Report the answer; exercises scored per part also pass the share of correct parts (0-1), drawings pass the PNG data URL */
+    onSubmit: (correct: boolean, accuracy?: number, drawing?: string) => void;
     showSolution: boolean;
+    /** Seed for reproducible card layouts (e.g. the daily challenge); random if omitted */
+    seed?: number;
+    /** Colour palette of the exercise's theme (pen colours of drawing exercises) */
+    palette?: string[];
 }
 
 /**
@@ -35,6 +54,8 @@ export interface ExerciseRendererProps extends ExerciseProps {
     isLoading?: boolean;
     /** Exercise ID for key prop to force remount when exercise changes */
     exerciseId?: string;
+    /** Whether hints are shown (per exercise type, default: true) */
+    hintsEnabled?: boolean;
 }
 
 /**
@@ -53,6 +74,19 @@ const EXERCISE_COMPONENTS: Record<ExerciseType, ComponentType<any>> = {
     'connector-insert': ConnectorInsertExercise,
     'writing': WritingExercise,
     'picture-vocabulary': PictureVocabularyExercise,
+    'cloze-text': ClozeTextExercise,
+    'number-line': NumberLineExercise,
+    'clock': ClockExercise,
+    'listening': ListeningExercise,
+    'hotspot': HotspotExercise,
+    'sequence': SequenceExercise,
+    'memory': MemoryExercise,
+    'crossword': CrosswordExercise,
+    'arithmetic': ArithmeticExercise,
+    'drawing': DrawingExercise,
+    'note-reading': NoteReadingExercise,
+    'rhythm': RhythmExercise,
+    'syllables': SyllablesExercise,
 };
 
 /**
@@ -113,9 +147,12 @@ export const ExerciseRenderer = memo(function ExerciseRenderer({
     hints,
     onSubmit,
     showSolution,
+    seed,
+    palette,
     fallback,
     isLoading,
     exerciseId,
+    hintsEnabled = true,
 }: ExerciseRendererProps) {
     // Show loading state
     if (isLoading) {
@@ -133,14 +170,19 @@ export const ExerciseRenderer = memo(function ExerciseRenderer({
     // Render the exercise component
     // Use exerciseId as key to force remount when exercise changes
     // This ensures local state (like answer input) is cleared between exercises
+    // The region adds 🔊 buttons to options, hints and feedback in read-aloud mode
     return (
-        <Component
-            key={exerciseId}
-            content={content}
-            hints={hints}
-            onSubmit={onSubmit}
-            showSolution={showSolution}
-        />
+        <ReadAloudRegion>
+            <Component
+                key={exerciseId}
+                content={content}
+                hints={hintsEnabled ? hints : undefined}
+                onSubmit={onSubmit}
+                showSolution={showSolution}
+                {...(seed !== undefined ? { seed } : {})}
+                {...(palette ? { palette } : {})}
+            />
+        </ReadAloudRegion>
     );
 });
 
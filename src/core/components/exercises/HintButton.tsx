@@ -29,9 +29,10 @@ export function HintButton({ hints }: HintButtonProps) {
                     className="bg-yellow-50 border border-yellow-200 rounded-xl p-3 animate-fadeIn"
                     role="status"
                     aria-live="polite"
+                    data-read-aloud=""
                 >
                     <p className="text-sm text-yellow-800 font-medium">
-                        💡 {hints[hintIndex]}
+                        <span aria-hidden="true">💡</span> {hints[hintIndex]}
                     </p>
                 </div>
             )}
@@ -0,0 +1,289 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { LiveRegion } from '@core/components/accessibility';
+import { resolveAssetSrc } from '@core/utils/assets';
+import {
+    getHotspotRegionCenter,
+    getHotspotRegionResults,
+    validateHotspotAnswer,
+    type HotspotRegionResult,
+} from '@core/utils/exercise';
+import type { HotspotContent, HotspotRegion } from '@/types/exercise';
+
+interface Props {
+    content: HotspotContent;
+    hints?: string[];
+    onSubmit: (correct: boolean) => void;
+    showSolution: boolean;
+}
+
+/** Fill and outline colors of the regions */
+const REGION_COLORS: Record<HotspotRegionResult | 'selected', string> = {
+    selected: '#3b82f6',
+    correct: '#22c55e',
+    incorrect: '#ef4444',
+    missed: '#22c55e',
+    neutral: 'transparent',
+};
+
+/** Markers drawn on checked regions */
+const RESULT_MARKERS: Partial<Record<HotspotRegionResult, string>> = {
+    correct: '✓',
+    incorrect: '✗',
+    missed: '!',
+};
+
+/**
+ * Hotspot exercise: tap the area(s) of a picture the question asks for.
+ * Regions are circles or polygons laid over the picture. They can be
+ * reached with Tab and the arrow keys and selected with Space or Enter.
+ * After checking, each tapped or missed region gets its own feedback.
+ */
+export function HotspotExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [checkedIds, setCheckedIds] = useState<string[] | null>(null);
+    const [focusedId, setFocusedId] = useState<string | null>(null);
+    const [imageFailed, setImageFailed] = useState(false);
+    const [announcement, setAnnouncement] = useState('');
+    const firstRegionRef = useRef<SVGGElement>(null);
+
+    const isMultiSelect = content.correctRegionIds.length > 1;
+
+    // Focus the first region on mount
+    useEffect(() => {
+        if (!showSolution) {
+            firstRegionRef.current?.focus();
+        }
+    }, [showSolution]);
+
+    const toggleRegion = (region: HotspotRegion) => {
+        if (showSolution) return;
+        const isSelected = selectedIds.includes(region.id);
+        if (isMultiSelect) {
+            setSelectedIds(isSelected
+                ? selectedIds.filter((id) => id !== region.id)
+                : [...selectedIds, region.id]);
+        } else {
+            setSelectedIds(isSelected ? [] : [region.id]);
+        }
+        setCheckedIds(null);
+        setAnnouncement(t(isSelected ? 'exercises.hotspot.deselected' : 'exercises.hotspot.selected', {
+            label: region.label,
+        }));
+    };
+
+    const handleCheck = () => {
+        if (selectedIds.length === 0 || showSolution) return;
+        setCheckedIds(selectedIds);
+        onSubmit(validateHotspotAnswer(content, selectedIds));
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+        if (showSolution) return;
+        const region = content.regions[index];
+
+        switch (e.key) {
+            case 'ArrowDown':
+            case 'ArrowRight':
+                e.preventDefault();
+                if (index < content.regions.length - 1) {
+                    document.getElementById(`hotspot-region-${index + 1}`)?.focus();
+                }
+                break;
+            case 'ArrowUp':
+            case 'ArrowLeft':
+                e.preventDefault();
+                if (index > 0) {
+                    document.getElementById(`hotspot-region-${index - 1}`)?.focus();
+                }
+                break;
+            case ' ':
+            case 'Enter':
+                e.preventDefault();
+                if (region) toggleRegion(region);
+                break;
+        }
+    };
+
+    // Results are shown after checking and in solution mode
+    const answeredIds = showSolution ? selectedIds : checkedIds;
+    const results = answeredIds ? getHotspotRegionResults(content, answeredIds) : null;
+
+    const getRegionResult = (region: HotspotRegion): HotspotRegionResult | 'selected' | null => {
+        const result = results?.[region.id];
+        // Missed regions are only revealed in solution mode
+        if (result && result !== 'neutral' && (result !== 'missed' || showSolution)) return result;
+        return selectedIds.includes(region.id) ? 'selected' : null;
+    };
+
+    const feedbackRegions = content.regions.filter((region) => {
+        const result = getRegionResult(region);
+        return result !== null && result !== 'selected';
+    });
+
+    const renderShape = (region: HotspotRegion, result: HotspotRegionResult | 'selected' | null) => {
+        const color = result ? REGION_COLORS[result] : 'transparent';
+        const isFocused = focusedId === region.id;
+        const shapeProps = {
+            fill: color,
+            fillOpacity: result ? 0.35 : 0,
+            stroke: isFocused ? '#1d4ed8' : result ? color : 'transparent',
+            strokeWidth: 3,
+            strokeDasharray: result === 'missed' ? '6 4' : undefined,
+            vectorEffect: 'non-scaling-stroke' as const,
+        };
+
+        return region.shape === 'circle' ? (
+            <circle cx={region.cx} cy={region.cy} r={region.r} {...shapeProps} />
+        ) : (
+            <polygon points={(region.points ?? []).map((point) => point.join(',')).join(' ')} {...shapeProps} />
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            <p className="text-lg font-bold text-gray-800" id="hotspot-question">
+                {content.question}
+            </p>
+
+            <div className="bg-white rounded-xl shadow-sm p-4">
+                {/* Regions (not read aloud: their names would give away the answer) */}
+                <div
+                    role={isMultiSelect ? 'group' : 'radiogroup'}
+                    aria-label={content.image.alt}
+                    aria-describedby="hotspot-question"
+                    data-read-aloud-skip
+                >
+                    <svg
+                        viewBox={`0 0 ${content.width} ${content.height}`}
+                        className="w-full h-auto max-h-[60vh] select-none"
+                    >
+                        {imageFailed ? (
+                            <g aria-hidden="true">
+                                <rect width={content.width} height={content.height} fill="#f3f4f6" />
+                                <text
+                                    x={content.width / 2}
+                                    y={content.height / 2}
+                                    textAnchor="middle"
+                                    className="fill-gray-600 text-base"
+                                >
+                                    {content.image.alt}
+                                </text>
+                            </g>
+                        ) : (
+                            <image
+                                href={resolveAssetSrc(content.image.src)}
+                                width={content.width}
+                                height={content.height}
+                                preserveAspectRatio="xMidYMid meet"
+                                onError={() => setImageFailed(true)}
+                                aria-hidden="true"
+                            />
+                        )}
+
+                        {content.regions.map((region, idx) => {
+                            const result = getRegionResult(region);
+                            const marker = result && result !== 'selected' ? RESULT_MARKERS[result] : undefined;
+                            const center = getHotspotRegionCenter(region);
+
+                            return (
+                                <g
+                                    key={region.id}
+                                    ref={idx === 0 ? firstRegionRef : undefined}
+                                    id={`hotspot-region-${idx}`}
+                                    role={isMultiSelect ? 'checkbox' : 'radio'}
+                                    tabIndex={showSolution ? -1 : 0}
+                                    aria-label={region.label}
+                                    aria-checked={selectedIds.includes(region.id)}
+                                    aria-disabled={showSolution}
+                                    onClick={() => toggleRegion(region)}
+                                    onKeyDown={(e) => handleKeyDown(e, idx)}
+                                    onFocus={() => setFocusedId(region.id)}
+                                    onBlur={() => setFocusedId(null)}
+                                    className={showSolution ? 'focus:outline-none' : 'focus:outline-none cursor-pointer'}
+                                    data-testid={`hotspot-region-${region.id}`}
+                                >
+                                    {renderShape(region, result)}
+                                    {marker && result && (
+                                        <text
+                                            x={center.x}
+                                            y={center.y}
+                                            textAnchor="middle"
+                                            dominantBaseline="central"
+                                            fontSize={Math.max(content.width, content.height) / 16}
+                                            fontWeight="bold"
+                                            fill={REGION_COLORS[result]}
+                                            stroke="#ffffff"
+                                            strokeWidth={1}
+                                            aria-hidden="true"
+                                        >
+                                            {marker}
+                                        </text>
+                                    )}
+                                </g>
+                            );
+                        })}
+                    </svg>
+                </div>
+
+                {!showSolution && (
+                    <p className="text-xs text-gray-500 mt-2 text-center">
+                        {isMultiSelect
+                            ? t('exercises.hotspot.selectAll', { count: content.correctRegionIds.length })
+                            : t('exercises.hotspot.keyboardHint')}
+                    </p>
+                )}
+            </div>
+
+            {/* Screen reader announcements of selections */}
+            <LiveRegion>{announcement}</LiveRegion>
+
+            {/* Per-region feedback */}
+            {feedbackRegions.length > 0 && (
+                <ul className="space-y-2" aria-label={t('exercises.hotspot.results')}>
+                    {feedbackRegions.map((region) => {
+                        const result = results?.[region.id];
+                        const isCorrect = result === 'correct';
+                        return (
+                            <li
+                                key={region.id}
+                                data-read-aloud=""
+                                className={`flex items-start gap-2 p-3 rounded-xl border-2 text-sm ${isCorrect || result === 'missed'
+                                    ? 'bg-green-50 border-green-300 text-green-800'
+                                    : 'bg-red-50 border-red-300 text-red-800'}`}
+                            >
+                                <span aria-hidden="true" className="font-bold">
+                                    {result ? RESULT_MARKERS[result] : ''}
+                                </span>
+                                <span>
+                                    <span className="font-semibold">
+                                        {t(`exercises.hotspot.${result ?? 'correct'}`, { label: region.label })}
+                                    </span>
+                                    {region.feedback && <span className="block">{region.feedback}</span>}
+                                </span>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={selectedIds.length === 0}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { AudioButton } from './AudioButton';
+import { optionStyles, type OptionVariant } from '@core/utils/exerciseStyles';
+import type { ListeningContent } from '@/types/exercise';
+
+interface Props {
+    content: ListeningContent;
+    hints?: string[];
+    onSubmit: (correct: boolean) => void;
+    showSolution: boolean;
+}
+
+/**
+ * Listening exercise: plays a word or sentence (bundled audio or speech)
+ * and asks the child to choose what was heard.
+ * Options may be emoji so children who cannot read yet can answer.
+ */
+export function ListeningExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const [selected, setSelected] = useState<number | null>(null);
+
+    const handleSelect = (index: number) => {
+        if (showSolution) return;
+        setSelected(index);
+    };
+
+    const handleCheck = () => {
+        if (selected === null) return;
+        onSubmit(selected === content.correctIndex);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+        if (showSolution) return;
+
+        switch (e.key) {
+            case 'ArrowDown':
+            case 'ArrowRight':
+                e.preventDefault();
+                if (index < content.options.length - 1) {
+                    document.getElementById(`listening-option-${index + 1}`)?.focus();
+                }
+                break;
+            case 'ArrowUp':
+            case 'ArrowLeft':
+                e.preventDefault();
+                if (index > 0) {
+                    document.getElementById(`listening-option-${index - 1}`)?.focus();
+                }
+                break;
+        }
+    };
+
+    const getVariant = (index: number): OptionVariant => {
+        const isCorrectOption = index === content.correctIndex;
+        if (showSolution) {
+            if (isCorrectOption) return 'correct';
+            if (selected === index) return 'incorrect';
+            return 'disabled';
+        }
+        return selected === index ? 'selected' : 'default';
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Player */}
+            <div className="bg-white rounded-xl shadow-sm p-6 flex flex-col items-center gap-3 text-center">
+                <AudioButton
+                    audio={content.audio}
+                    autoPlay={content.autoPlay ?? true}
+                    size="lg"
+                    label={t('exercises.listening.play')}
+                />
+                <p className="text-lg font-bold text-gray-700">
+                    {content.question ?? t('exercises.listening.whatDidYouHear')}
+                </p>
+            </div>
+
+            {/* Options (not read aloud: that would give away the answer) */}
+            <div
+                className="grid grid-cols-2 gap-2"
+                role="radiogroup"
+                aria-label={t('exercises.listening.options')}
+                data-read-aloud-skip
+            >
+                {content.options.map((option, idx) => (
+                    <button
+                        key={idx}
+                        id={`listening-option-${idx}`}
+                        onClick={() => handleSelect(idx)}
+                        onKeyDown={(e) => handleKeyDown(e, idx)}
+                        disabled={showSolution}
+                        role="radio"
+                        aria-checked={selected === idx}
+                        className={`justify-center px-4 py-4 rounded-xl font-semibold text-xl transition-all focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${optionStyles({ variant: getVariant(idx) })}`}
+                    >
+                        <span>{option}</span>
+                        {showSolution && idx === content.correctIndex && (
+                            <span aria-label={t('exercises.correct')}>✓</span>
+                        )}
+                    </button>
+                ))}
+            </div>
+
+            {/* Show correct answer in solution mode */}
+            <ExerciseFeedback
+                show={showSolution && selected !== content.correctIndex}
+                type="success"
+                message={t('exercises.listening.correctAnswer')}
+                explanation={content.options[content.correctIndex] ?? ''}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={selected === null}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
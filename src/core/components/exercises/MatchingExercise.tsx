@@ -2,6 +2,7 @@ import { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { HintButton } from './HintButton';
 import { ExerciseFeedback } from './ExerciseFeedback';
+import { AssetImage } from './AssetImage';
 import { optionStyles } from '@core/utils/exerciseStyles';
 import type { MatchingContent } from '@/types/exercise';
 import { shuffle } from '@core/utils/shuffle';
@@ -183,6 +184,7 @@ export function MatchingExercise({ content, hints, onSubmit, showSolution }: Pro
                     {content.pairs.map((pair, idx) => {
                         const isSelected = selectedLeft === idx;
                         const matchedValue = matches[idx];
+                        const leftImage = content.images?.[pair.left];
                         const isCorrect = showSolution && matchedValue === pair.right;
                         const isWrong = showSolution && matchedValue !== undefined && matchedValue !== pair.right;
 
@@ -205,6 +207,7 @@ export function MatchingExercise({ content, hints, onSubmit, showSolution }: Pro
                                 aria-label={`${pair.left}${matchedValue ? `, matched with ${matchedValue}` : ''}`}
                                 className={`w-full text-left rounded-xl text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${optionStyles({ variant: getVariant(), size: 'sm' })}`}
                             >
+                                {leftImage && <AssetImage image={leftImage} size="sm" className="block mb-1" />}
                                 <span className="text-gray-800">{pair.left}</span>
                                 {matchedValue && !showSolution && (
                                     <span className="flex items-center gap-1 text-xs mt-0.5 text-primary/60">
@@ -231,6 +234,7 @@ export function MatchingExercise({ content, hints, onSubmit, showSolution }: Pro
                 <div className="space-y-2" ref={rightColumnRef} role="group" aria-label={t('exercises.matching.rightColumn')}>
                     {shuffledRight.map((rightValue, rIdx) => {
                         const used = rightUsed.has(rightValue);
+                        const rightImage = content.images?.[rightValue];
 
                         // Determine option variant for styling
                         const getVariant = (): 'default' | 'selected' | 'correct' | 'incorrect' | 'disabled' => {
@@ -257,6 +261,7 @@ export function MatchingExercise({ content, hints, onSubmit, showSolution }: Pro
                                 aria-label={rightValue}
                                 className={`w-full text-left rounded-xl text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${optionStyles({ variant: getVariant(), size: 'sm' })}`}
                             >
+                                {rightImage && <AssetImage image={rightImage} size="sm" className="block mb-1" />}
                                 {rightValue}
                             </button>
                         );
@@ -0,0 +1,252 @@
+import { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { usePrefersReducedMotion } from '@core/hooks/useAccessibility';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { AssetImage } from './AssetImage';
+import { LiveRegion } from '@core/components/accessibility';
+import { createMemoryDeck, getMemoryAccuracy, isMemoryMatch, type MemoryCard } from '@core/utils/exercise';
+import type { MemoryContent } from '@/types/exercise';
+
+interface Props {
+    content: MemoryContent;
+    hints?: string[];
+    onSubmit: (correct: boolean, accuracy?: number) => void;
+    showSolution: boolean;
+    /** Seed for the card layout (e.g. the daily challenge); random if omitted */
+    seed?: number;
+}
+
+/**
+ * How long two cards that do not match stay face up (ms).
+ */
+const MISMATCH_DELAY = 1200;
+
+/**
+ * Number of grid columns for a number of cards.
+ */
+function getColumns(cardCount: number): 3 | 4 | 6 {
+    if (cardCount <= 9) return 3;
+    if (cardCount <= 16) return 4;
+    return 6;
+}
+
+const COLUMN_CLASSES: Record<ReturnType<typeof getColumns>, string> = {
+    3: 'grid-cols-3',
+    4: 'grid-cols-4',
+    6: 'grid-cols-6',
+};
+
+/**
+ * Memory exercise: all cards lie face down, the child turns over two at
+ * a time. Cards of a pair stay face up, other cards turn back after a
+ * moment. The fewer flips, the more stars. Cards are buttons, so they
+ * can be reached with Tab or the arrow keys and turned with Space or Enter.
+ */
+export function MemoryExercise({ content, hints, onSubmit, showSolution, seed }: Props) {
+    const { t } = useTranslation();
+    const reducedMotion = usePrefersReducedMotion();
+    const [deck] = useState<MemoryCard[]>(() => createMemoryDeck(content, seed));
+    const [flippedIds, setFlippedIds] = useState<string[]>([]);
+    const [matchedIds, setMatchedIds] = useState<string[]>([]);
+    const [flips, setFlips] = useState(0);
+    const [announcement, setAnnouncement] = useState('');
+    const mismatchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const cardRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+    const columns = getColumns(deck.length);
+    const pairCount = content.pairs.length;
+    const isFinished = matchedIds.length === deck.length;
+
+    // Focus the first card on mount
+    useEffect(() => {
+        if (!showSolution) {
+            cardRefs.current[0]?.focus();
+        }
+    }, [showSolution]);
+
+    // Stop a pending turn-back when leaving the exercise
+    useEffect(() => () => {
+        if (mismatchTimer.current) clearTimeout(mismatchTimer.current);
+    }, []);
+
+    const turnBack = () => {
+        if (mismatchTimer.current) clearTimeout(mismatchTimer.current);
+        mismatchTimer.current = null;
+        setFlippedIds([]);
+    };
+
+    const flipCard = (card: MemoryCard) => {
+        if (showSolution || isFinished || matchedIds.includes(card.id) || flippedIds.includes(card.id)) return;
+
+        // A third card turns the two that did not match back right away
+        const open = flippedIds.length >= 2 ? [] : flippedIds;
+        if (flippedIds.length >= 2) turnBack();
+
+        const nextFlips = flips + 1;
+        setFlips(nextFlips);
+
+        const firstId = open[0];
+        const first = firstId !== undefined ? deck.find((c) => c.id === firstId) : undefined;
+        if (!first) {
+            setFlippedIds([card.id]);
+            setAnnouncement(card.text);
+            return;
+        }
+
+        if (isMemoryMatch(first, card)) {
+            const nextMatched = [...matchedIds, first.id, card.id];
+            setMatchedIds(nextMatched);
+            setFlippedIds([]);
+            setAnnouncement(t('exercises.memory.match', { first: first.text, second: card.text }));
+            if (nextMatched.length === deck.length) {
+                onSubmit(true, getMemoryAccuracy(pairCount, nextFlips));
+            }
+            return;
+        }
+
+        setFlippedIds([first.id, card.id]);
+        setAnnouncement(t('exercises.memory.noMatch', { first: first.text, second: card.text }));
+        mismatchTimer.current = setTimeout(turnBack, MISMATCH_DELAY);
+    };
+
+    // Arrow keys move through the grid row by row
+    const handleKeyDown = (e: React.KeyboardEvent, index: number) => {
+        let target: number | null = null;
+
+        switch (e.key) {
+            case 'ArrowRight':
+                target = index + 1;
+                break;
+            case 'ArrowLeft':
+                target = index - 1;
+                break;
+            case 'ArrowDown':
+                target = index + columns;
+                break;
+            case 'ArrowUp':
+                target = index - columns;
+                break;
+            case 'Home':
+                target = 0;
+                break;
+            case 'End':
+                target = deck.length - 1;
+                break;
+            default:
+                return;
+        }
+
+        e.preventDefault();
+        if (target >= 0 && target < deck.length) {
+            cardRefs.current[target]?.focus();
+        }
+    };
+
+    const getCardLabel = (card: MemoryCard, index: number, faceUp: boolean): string => {
+        const number = index + 1;
+        if (!faceUp) return t('exercises.memory.faceDown', { number });
+        if (matchedIds.includes(card.id)) return t('exercises.memory.found', { number, text: card.text });
+        return t('exercises.memory.faceUp', { number, text: card.text });
+    };
+
+    const renderFace = (card: MemoryCard) => {
+        const image = content.images?.[card.text];
+        return (
+            <>
+                {image && <AssetImage image={image} size="sm" className="pointer-events-none" />}
+                <span className="whitespace-pre-line break-words">{card.text}</span>
+            </>
+        );
+    };
+
+    return (
+        <div className="space-y-4">
+            {/* Flips and pairs found */}
+            <div className="flex justify-between text-sm font-semibold text-gray-600">
+                <span>{t('exercises.memory.flips', { count: flips })}</span>
+                <span>{t('exercises.memory.pairsFound', { found: matchedIds.length / 2, total: pairCount })}</span>
+            </div>
+
+            {/* Cards (not read aloud: that would give away the face-down cards) */}
+            <div
+                role="group"
+                aria-label={t('exercises.memory.cards')}
+                aria-describedby={showSolution ? undefined : 'memory-keyboard-hint'}
+                className={`grid ${COLUMN_CLASSES[columns]} gap-2`}
+                data-read-aloud-skip
+            >
+                {deck.map((card, idx) => {
+                    const isMatched = matchedIds.includes(card.id);
+                    const faceUp = showSolution || isMatched || flippedIds.includes(card.id);
+                    const isMismatch = flippedIds.length === 2 && flippedIds.includes(card.id);
+
+                    const faceClasses = isMatched
+                        ? 'bg-green-50 border-green-400 text-green-800'
+                        : isMismatch
+                            ? 'bg-red-50 border-red-300 text-red-800'
+                            : 'bg-white border-primary text-gray-800';
+                    const face = (
+                        <span className={`absolute inset-0 flex flex-col items-center justify-center gap-1 p-1 rounded-xl border-2 text-sm font-semibold text-center ${faceClasses}`}>
+                            {renderFace(card)}
+                        </span>
+                    );
+                    const back = (
+                        <span className="absolute inset-0 flex items-center justify-center rounded-xl border-2 border-primary bg-primary text-white text-2xl" aria-hidden="true">
+                            ?
+                        </span>
+                    );
+
+                    return (
+                        <button
+                            key={card.id}
+                            ref={(el) => { cardRefs.current[idx] = el; }}
+                            type="button"
+                            aria-label={getCardLabel(card, idx, faceUp)}
+                            aria-disabled={showSolution || isMatched}
+                            onClick={() => flipCard(card)}
+                            onKeyDown={(e) => handleKeyDown(e, idx)}
+                            className="relative aspect-square rounded-xl focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 [perspective:600px]"
+                            data-testid={`memory-card-${card.id}`}
+                        >
+                            {reducedMotion ? (
+                                // Instant flip: only the visible side is shown
+                                faceUp ? face : back
+                            ) : (
+                                <span
+                                    className={`absolute inset-0 transition-transform duration-300 [transform-style:preserve-3d] ${faceUp ? '[transform:rotateY(180deg)]' : ''}`}
+                                >
+                                    <span className="absolute inset-0 [backface-visibility:hidden]">{back}</span>
+                                    <span className="absolute inset-0 [backface-visibility:hidden] [transform:rotateY(180deg)]">
+                                        {face}
+                                    </span>
+                                </span>
+                            )}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {!showSolution && !isFinished && (
+                <p id="memory-keyboard-hint" className="text-xs text-gray-500 text-center">
+                    {t('exercises.memory.keyboardHint')}
+                </p>
+            )}
+
+            {/* Screen reader announcements of the turned cards */}
+            <LiveRegion>{announcement}</LiveRegion>
+
+            <ExerciseFeedback
+                show={isFinished}
+                type="success"
+                message={t('exercises.memory.finished', { count: flips })}
+                announce={false}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && !isFinished && (
+                <HintButton hints={hints} />
+            )}
+        </div>
+    );
+}
@@ -4,6 +4,7 @@ import { optionStyles, type OptionVariant } from '@core/utils/exerciseStyles';
 import { useKeyboardNavigation } from '@core/hooks/useKeyboardNavigation';
 import { ExerciseFeedback } from './ExerciseFeedback';
 import { HintButton } from './HintButton';
+import { AssetImage } from './AssetImage';
 import type { MultipleChoiceContent } from '@/types/exercise';
 
 interface Props {
@@ -105,6 +106,7 @@ export function MultipleChoiceExercise({ content, hints, onSubmit, showSolution
                     const isCorrectOption = idx === content.correctIndex;
                     const variant = getOptionVariant(idx);
                     const isFocused = focusedIndex === idx;
+                    const image = content.images?.[option];
 
                     return (
                         <button
@@ -124,6 +126,7 @@ export function MultipleChoiceExercise({ content, hints, onSubmit, showSolution
                                 >
                                     {String.fromCharCode(65 + idx)}
                                 </span>
+                                {image && <AssetImage image={image} size="sm" />}
                                 <span>{option}</span>
                                 {showSolution && isCorrectOption && (
                                     <span className="ml-auto" aria-label={t('exercises.correct')}>&#10003;</span>
@@ -0,0 +1,253 @@
+import { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAppStore } from '@core/stores/appStore';
+import { getStaffStep, type NotationNote, type NotationSymbol } from '@core/utils/music';
+import { playTones, type ScheduledTone } from '@core/utils/sounds';
+import type { MusicClef } from '@/types/exercise';
+
+export interface MusicStaffProps {
+    /** Symbols of the notation (see parseNotation) */
+    symbols: readonly NotationSymbol[];
+    /** Clef, or 'percussion' for a one-line rhythm staff */
+    clef: MusicClef | 'percussion';
+    /** Accessible description of the staff */
+    label: string;
+    /** Colour of each note, rest or beat by index (bar lines not counted) */
+    noteColors?: readonly (string | undefined)[];
+    /** Index of a note to mark (bar lines not counted) */
+    activeIndex?: number | null;
+}
+
+/** Distance between two staff lines */
+const LINE_GAP = 10;
+/** Y of the bottom staff line */
+const BOTTOM_Y = 90;
+/** Width of the clef area */
+const CLEF_WIDTH = 44;
+/** Horizontal space of a note and of a bar line */
+const NOTE_SPACE = 40;
+const BAR_SPACE = 16;
+/** Stem length */
+const STEM = 32;
+/** Default colour of the notation */
+const INK = '#1f2937';
+
+/**
+ * Y of a staff step (0 is the bottom line, 1 the space above it).
+ */
+function stepY(step: number): number {
+    return BOTTOM_Y - (step * LINE_GAP) / 2;
+}
+
+/**
+ * A rest in the middle of the staff.
+ */
+function Rest({ note, x, color }: { note: NotationNote; x: number; color: string }) {
+    const middle = stepY(4);
+    switch (note.value) {
+        case 1:
+            return <rect x={x - 6} y={stepY(6)} width={12} height={LINE_GAP / 2} fill={color} />;
+        case 2:
+            return <rect x={x - 6} y={middle - LINE_GAP / 2} width={12} height={LINE_GAP / 2} fill={color} />;
+        case 4:
+            return (
+                <path
+                    d={`M ${x - 3} ${middle - 15} l 6 8 l -5 6 l 6 8 q -8 -3 -6 5`}
+                    fill="none"
+                    stroke={color}
+                    strokeWidth={2.5}
+                    strokeLinejoin="round"
+                />
+            );
+        default: {
+            // Eighth and sixteenth rests: a diagonal stroke with one or two hooks
+            const hooks = note.value === 8 ? 1 : 2;
+            return (
+                <g fill={color} stroke={color}>
+                    <line x1={x + 4} y1={middle - 10} x2={x - 2} y2={middle + 10} strokeWidth={1.5} />
+                    {Array.from({ length: hooks }, (_, i) => (
+                        <circle key={i} cx={x - 3 + i * -2} cy={middle - 8 + i * 8} r={2.5} />
+                    ))}
+                </g>
+            );
+        }
+    }
+}
+
+/**
+ * A note or unpitched beat with ledger lines, accidental, stem, flags and dot.
+ */
+function Note({ note, x, step, color }: { note: NotationNote; x: number; step: number; color: string }) {
+    const y = stepY(step);
+    const filled = note.value >= 4;
+    const stemUp = step < 4;
+    const stemX = stemUp ? x + 5.5 : x - 5.5;
+    const stemEnd = stemUp ? y - STEM : y + STEM;
+    const flags = note.value === 8 ? 1 : note.value === 16 ? 2 : 0;
+
+    const ledgerSteps: number[] = [];
+    for (let s = -2; s >= step; s -= 2) ledgerSteps.push(s);
+    for (let s = 10; s <= step; s += 2) ledgerSteps.push(s);
+
+    return (
+        <g>
+            {ledgerSteps.map((s) => (
+                <line key={s} x1={x - 10} y1={stepY(s)} x2={x + 10} y2={stepY(s)} stroke={INK} strokeWidth={1} />
+            ))}
+            {note.pitch && note.pitch.accidental !== 0 && (
+                <text x={x - 16} y={y + 5} fontSize={16} textAnchor="middle" fill={color}>
+                    {note.pitch.accidental === 1 ? '♯' : '♭'}
+                </text>
+            )}
+            <ellipse
+                cx={x}
+                cy={y}
+                rx={6}
+                ry={4.5}
+                transform={`rotate(-20 ${x} ${y})`}
+                fill={filled ? color : 'white'}
+                stroke={color}
+                strokeWidth={1.5}
+            />
+            {note.value !== 1 && (
+                <line x1={stemX} y1={y} x2={stemX} y2={stemEnd} stroke={color} strokeWidth={1.5} />
+            )}
+            {Array.from({ length: flags }, (_, i) => {
+                const flagY = stemEnd + (stemUp ? i * 7 : -i * 7);
+                return (
+                    <path
+                        key={i}
+                        d={`M ${stemX} ${flagY} q 4 ${stemUp ? 6 : -6} 9 ${stemUp ? 14 : -14}`}
+                        fill="none"
+                        stroke={color}
+                        strokeWidth={2}
+                    />
+                );
+            })}
+            {note.dotted && (
+                <circle cx={x + 11} cy={step % 2 === 0 ? y - LINE_GAP / 4 : y} r={1.8} fill={color} />
+            )}
+        </g>
+    );
+}
+
+/**
+ * Staff that draws a parsed notation as SVG: five lines with a treble
+ * or bass clef, or one line for rhythms. Notes are spaced evenly.
+ */
+export function MusicStaff({ symbols, clef, label, noteColors, activeIndex = null }: MusicStaffProps) {
+    const width = CLEF_WIDTH + symbols.reduce(
+        (sum, symbol) => sum + (symbol.kind === 'bar' ? BAR_SPACE : NOTE_SPACE),
+        0
+    ) + 16;
+    const lineSteps = clef === 'percussion' ? [4] : [0, 2, 4, 6, 8];
+    const barTop = clef === 'percussion' ? stepY(6) : stepY(8);
+    const barBottom = clef === 'percussion' ? stepY(2) : stepY(0);
+
+    let x = CLEF_WIDTH;
+    let noteIndex = 0;
+    const drawn = symbols.map((symbol, i) => {
+        if (symbol.kind === 'bar') {
+            const barX = x + BAR_SPACE / 2;
+            x += BAR_SPACE;
+            return <line key={i} x1={barX} y1={barTop} x2={barX} y2={barBottom} stroke={INK} strokeWidth={1.5} />;
+        }
+
+        const index = noteIndex++;
+        const noteX = x + NOTE_SPACE / 2;
+        x += NOTE_SPACE;
+        const color = noteColors?.[index] ?? INK;
+        const step = symbol.pitch && clef !== 'percussion' ? getStaffStep(symbol.pitch, clef) : 4;
+
+        return (
+            <g key={i} data-testid={`staff-note-${index}`}>
+                {activeIndex === index && (
+                    <rect x={noteX - NOTE_SPACE / 2 + 2} y={stepY(14)} width={NOTE_SPACE - 4} height={stepY(-6) - stepY(14)} rx={6} fill="#3b82f6" fillOpacity={0.15} />
+                )}
+                {symbol.kind === 'rest'
+                    ? <Rest note={symbol} x={noteX} color={color} />
+                    : <Note note={symbol} x={noteX} step={step} color={color} />}
+            </g>
+        );
+    });
+
+    return (
+        <svg
+            viewBox={`0 0 ${width} ${stepY(-8)}`}
+            className="w-full h-auto max-h-48 select-none"
+            style={{ maxWidth: width * 2 }}
+            role="img"
+            aria-label={label}
+        >
+            {lineSteps.map((s) => (
+                <line key={s} x1={4} y1={stepY(s)} x2={width - 4} y2={stepY(s)} stroke={INK} strokeWidth={1} />
+            ))}
+            {clef === 'percussion' ? (
+                <g fill={INK}>
+                    <rect x={14} y={stepY(6)} width={4} height={LINE_GAP * 2} />
+                    <rect x={22} y={stepY(6)} width={4} height={LINE_GAP * 2} />
+                </g>
+            ) : (
+                <text
+                    x={20}
+                    y={clef === 'treble' ? stepY(-1) : stepY(6) + 12}
+                    fontSize={clef === 'treble' ? 56 : 34}
+                    textAnchor="middle"
+                    fill={INK}
+                >
+                    {clef === 'treble' ? '𝄞' : '𝄢'}
+                </text>
+            )}
+            {drawn}
+            <line x1={width - 4} y1={barTop} x2={width - 4} y2={barBottom} stroke={INK} strokeWidth={1.5} />
+        </svg>
+    );
+}
+
+export interface NotationPlayButtonProps {
+    /** Tones to play (see getNotationTones) */
+    tones: readonly ScheduledTone[];
+    /** Button text */
+    label: string;
+    /** Called when playback starts and ends */
+    onPlayingChange?: (playing: boolean) => void;
+}
+
+/**
+ * Button that plays the notes of a music exercise. Disabled while sound
+ * is turned off in the settings or the notes are playing.
+ */
+export function NotationPlayButton({ tones, label, onPlayingChange }: NotationPlayButtonProps) {
+    const { t } = useTranslation();
+    const soundEnabled = useAppStore((state) => state.settings?.soundEnabled ?? true);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const isMounted = useRef(true);
+
+    useEffect(() => {
+        isMounted.current = true;
+        return () => {
+            isMounted.current = false;
+        };
+    }, []);
+
+    const play = async () => {
+        setIsPlaying(true);
+        onPlayingChange?.(true);
+        await playTones(tones, soundEnabled);
+        if (!isMounted.current) return;
+        setIsPlaying(false);
+        onPlayingChange?.(false);
+    };
+
+    return (
+        <button
+            type="button"
+            onClick={() => void play()}
+            disabled={!soundEnabled || isPlaying}
+            className={`inline-flex items-center gap-2 px-4 py-2 bg-primary-50 text-primary-700 font-semibold rounded-xl border-2 border-primary-200 hover:bg-primary-100 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 ${isPlaying ? 'animate-pulse' : ''}`}
+        >
+            <span aria-hidden="true">{soundEnabled ? '🔊' : '🔇'}</span>
+            {soundEnabled ? label : t('exercises.audio.soundOff')}
+        </button>
+    );
+}
@@ -0,0 +1,197 @@
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { MusicStaff, NotationPlayButton } from './MusicStaff';
+import { solutionStateStyles } from '@core/utils/exerciseStyles';
+import {
+    checkNoteNames,
+    getNotationNotes,
+    getNotationTones,
+    getNoteName,
+    getNoteNameOptions,
+    parseNotation,
+    type NotationSymbol,
+} from '@core/utils/music';
+import type { NoteReadingContent } from '@/types/exercise';
+
+interface Props {
+    content: NoteReadingContent;
+    hints?: string[];
+    onSubmit: (correct: boolean, accuracy?: number) => void;
+    showSolution: boolean;
+}
+
+/** Note colours after checking */
+const RESULT_COLORS = { correct: '#16a34a', incorrect: '#dc2626' };
+
+/**
+ * Parse the notation of the exercise; invalid notation (caught by the
+ * validator) shows an empty staff instead of breaking the page.
+ */
+function useNotation(notation: string): NotationSymbol[] {
+    return useMemo(() => {
+        try {
+            return parseNotation(notation);
+        } catch {
+            return [];
+        }
+    }, [notation]);
+}
+
+/**
+ * Note reading exercise: name the notes shown on a staff. The child picks
+ * a note and taps its name; the next empty note is picked automatically.
+ * The notes can be played. German note names are used in German (H, Fis).
+ */
+export function NoteReadingExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t, i18n } = useTranslation();
+    const locale = i18n.language;
+    const symbols = useNotation(content.notation);
+    const notes = useMemo(() => getNotationNotes(symbols), [symbols]);
+    const tones = useMemo(() => getNotationTones(notes, content.tempo), [notes, content.tempo]);
+    const options = useMemo(() => getNoteNameOptions(notes, locale), [notes, locale]);
+
+    // Indices in `notes` of the notes to name (rests are skipped)
+    const slotNotes = useMemo(
+        () => notes.flatMap((note, index) => (note.pitch ? [index] : [])),
+        [notes]
+    );
+    const [answers, setAnswers] = useState<(string | null)[]>(() => slotNotes.map(() => null));
+    const [activeSlot, setActiveSlot] = useState(0);
+    const [results, setResults] = useState<boolean[] | null>(null);
+
+    const expected = slotNotes.map((index) => {
+        const pitch = notes[index]?.pitch;
+        return pitch ? getNoteName(pitch, locale) : '';
+    });
+    const shownResults = showSolution ? expected.map(() => true) : results;
+    const allAnswered = answers.length > 0 && answers.every((answer) => answer !== null);
+
+    const handleName = (name: string) => {
+        if (showSolution) return;
+        const next = answers.map((answer, i) => (i === activeSlot ? name : answer));
+        setAnswers(next);
+        setResults(null);
+
+        // Move on to the next empty note
+        const nextEmpty = next.findIndex((answer, i) => i > activeSlot && answer === null);
+        const firstEmpty = next.findIndex((answer) => answer === null);
+        setActiveSlot(nextEmpty !== -1 ? nextEmpty : firstEmpty !== -1 ? firstEmpty : activeSlot);
+    };
+
+    const handleClear = () => {
+        if (showSolution) return;
+        setAnswers(answers.map((answer, i) => (i === activeSlot ? null : answer)));
+        setResults(null);
+    };
+
+    const handleCheck = () => {
+        if (!allAnswered || showSolution) return;
+        const checked = checkNoteNames(notes, answers, locale);
+        const accuracy = checked.filter(Boolean).length / checked.length;
+        setResults(checked);
+        onSubmit(checked.every(Boolean), content.partialCredit ? accuracy : undefined);
+    };
+
+    const noteColors = notes.map((_, index) => {
+        const slot = slotNotes.indexOf(index);
+        const result = slot === -1 ? undefined : shownResults?.[slot];
+        return result === undefined ? undefined : RESULT_COLORS[result ? 'correct' : 'incorrect'];
+    });
+    const wrongCount = shownResults ? shownResults.filter((ok) => !ok).length : 0;
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+                <MusicStaff
+                    symbols={symbols}
+                    clef={content.clef ?? 'treble'}
+                    label={t('exercises.noteReading.staff', { count: slotNotes.length })}
+                    noteColors={noteColors}
+                    activeIndex={showSolution ? null : slotNotes[activeSlot] ?? null}
+                />
+                <div className="flex justify-center">
+                    <NotationPlayButton tones={tones} label={t('exercises.noteReading.play')} />
+                </div>
+            </div>
+
+            {/* One answer field per note */}
+            <div className="flex flex-wrap justify-center gap-2" role="group" aria-label={t('exercises.noteReading.answers')}>
+                {slotNotes.map((_, slot) => {
+                    const result = shownResults?.[slot];
+                    const shown = showSolution ? expected[slot] : answers[slot];
+                    return (
+                        <button
+                            key={slot}
+                            type="button"
+                            onClick={() => setActiveSlot(slot)}
+                            disabled={showSolution}
+                            aria-pressed={!showSolution && slot === activeSlot}
+                            aria-label={t('exercises.noteReading.note', {
+                                number: slot + 1,
+                                name: shown ?? t('exercises.noteReading.empty'),
+                            })}
+                            className={`w-14 h-14 text-xl font-bold text-gray-900 focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${solutionStateStyles({
+                                state: result !== undefined
+                                    ? result ? 'correct' : 'incorrect'
+                                    : slot === activeSlot ? 'selected' : 'neutral',
+                            })}`}
+                            data-testid={`note-answer-${slot}`}
+                        >
+                            {shown ?? '?'}
+                        </button>
+                    );
+                })}
+            </div>
+
+            {/* Note names */}
+            {!showSolution && (
+                <div className="flex flex-wrap justify-center gap-2" role="group" aria-label={t('exercises.noteReading.names')}>
+                    {options.map((name) => (
+                        <button
+                            key={name}
+                            type="button"
+                            onClick={() => handleName(name)}
+                            className="min-w-12 h-12 px-3 text-lg font-bold bg-white text-gray-800 rounded-xl border-2 border-gray-300 hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                        >
+                            {name}
+                        </button>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={handleClear}
+                        aria-label={t('exercises.noteReading.clear')}
+                        className="w-12 h-12 text-lg bg-gray-100 text-gray-800 rounded-xl border-2 border-gray-300 hover:bg-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                    >
+                        <span aria-hidden="true">⌫</span>
+                    </button>
+                </div>
+            )}
+
+            {results && !showSolution && wrongCount > 0 && (
+                <ExerciseFeedback
+                    show={true}
+                    type="error"
+                    message={t('exercises.noteReading.wrongNotes', { count: wrongCount })}
+                />
+            )}
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={!allAnswered}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
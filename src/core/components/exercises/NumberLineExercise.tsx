@@ -0,0 +1,345 @@
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { LiveRegion } from '@core/components/accessibility';
+import { inputFieldStyles } from '@core/utils/exerciseStyles';
+import {
+    getNumberLineTicks,
+    parseNumberInput,
+    snapToNumberLine,
+    validateNumberLineAnswer,
+} from '@core/utils/exercise';
+import type { NumberLineContent } from '@/types/exercise';
+
+interface Props {
+    content: NumberLineContent;
+    hints?: string[];
+    onSubmit: (correct: boolean) => void;
+    showSolution: boolean;
+}
+
+/** SVG coordinate system of the line */
+const VIEW_WIDTH = 600;
+const VIEW_HEIGHT = 110;
+const LINE_PADDING = 30;
+const LINE_Y = 60;
+
+/**
+ * Number line exercise: place a marker on the line or read off
+ * the number at a marked position.
+ * The marker can be moved with the pointer or with the arrow keys;
+ * every step is announced to screen readers.
+ */
+export function NumberLineExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t, i18n } = useTranslation();
+    const [value, setValue] = useState<number | null>(null);
+    const [typedAnswer, setTypedAnswer] = useState('');
+    const [lastResult, setLastResult] = useState<boolean | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+    const [isDragging, setIsDragging] = useState(false);
+    const svgRef = useRef<SVGSVGElement>(null);
+    const markerRef = useRef<SVGGElement>(null);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const isPlaceMode = content.mode === 'place';
+    const step = content.step ?? content.tickInterval;
+    const ticks = useMemo(() => getNumberLineTicks(content), [content]);
+    const labeledTicks = useMemo(
+        () => new Set(content.labeledTicks ?? [content.min, content.max]),
+        [content.labeledTicks, content.min, content.max]
+    );
+    const formatNumber = (n: number) => n.toLocaleString(i18n.language);
+
+    // Focus the marker or the answer field on mount
+    useEffect(() => {
+        if (showSolution) return;
+        if (isPlaceMode) {
+            markerRef.current?.focus();
+        } else {
+            inputRef.current?.focus();
+        }
+    }, [isPlaceMode, showSolution]);
+
+    const toX = (n: number) => {
+        const range = content.max - content.min || 1;
+        return LINE_PADDING + ((n - content.min) / range) * (VIEW_WIDTH - 2 * LINE_PADDING);
+    };
+
+    const moveMarker = (next: number) => {
+        if (showSolution || !isPlaceMode) return;
+        const snapped = snapToNumberLine(content, next);
+        setValue(snapped);
+        setLastResult(null);
+        setAnnouncement(t('exercises.numberLine.markerAt', { value: formatNumber(snapped) }));
+    };
+
+    // Convert a pointer position to a number on the line
+    const valueFromPointer = (clientX: number): number | null => {
+        const rect = svgRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return null;
+        const x = ((clientX - rect.left) / rect.width) * VIEW_WIDTH;
+        const ratio = (x - LINE_PADDING) / (VIEW_WIDTH - 2 * LINE_PADDING);
+        return content.min + ratio * (content.max - content.min);
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (showSolution || !isPlaceMode) return;
+        const next = valueFromPointer(e.clientX);
+        if (next === null) return;
+        svgRef.current?.setPointerCapture?.(e.pointerId);
+        setIsDragging(true);
+        moveMarker(next);
+        markerRef.current?.focus();
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!isDragging) return;
+        const next = valueFromPointer(e.clientX);
+        if (next !== null) moveMarker(next);
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!isDragging) return;
+        svgRef.current?.releasePointerCapture?.(e.pointerId);
+        setIsDragging(false);
+    };
+
+    const handleMarkerKeyDown = (e: React.KeyboardEvent) => {
+        if (showSolution) return;
+        const current = value ?? content.min;
+        const bigStep = step * 10;
+
+        switch (e.key) {
+            case 'ArrowRight':
+            case 'ArrowUp':
+                e.preventDefault();
+                moveMarker(value === null ? content.min : current + step);
+                break;
+            case 'ArrowLeft':
+            case 'ArrowDown':
+                e.preventDefault();
+                moveMarker(value === null ? content.min : current - step);
+                break;
+            case 'PageUp':
+                e.preventDefault();
+                moveMarker(current + bigStep);
+                break;
+            case 'PageDown':
+                e.preventDefault();
+                moveMarker(current - bigStep);
+                break;
+            case 'Home':
+                e.preventDefault();
+                moveMarker(content.min);
+                break;
+            case 'End':
+                e.preventDefault();
+                moveMarker(content.max);
+                break;
+            case 'Enter':
+                if (value !== null) {
+                    e.preventDefault();
+                    handleCheck();
+                }
+                break;
+        }
+    };
+
+    const answer = isPlaceMode ? value : parseNumberInput(typedAnswer);
+    const canCheck = isPlaceMode ? value !== null : typedAnswer.trim().length > 0;
+
+    const handleCheck = () => {
+        if (!canCheck || showSolution) return;
+        const correct = validateNumberLineAnswer(content, answer);
+        setLastResult(correct);
+        onSubmit(correct);
+    };
+
+    const handleInputKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' && canCheck && !showSolution) {
+            handleCheck();
+        }
+    };
+
+    const isCorrect = validateNumberLineAnswer(content, answer);
+    const markerColor = showSolution || lastResult !== null
+        ? (isCorrect ? '#22c55e' : '#ef4444')
+        : '#3b82f6';
+
+    // The marker shows the child's position in place mode and the target in read mode
+    const markerValue = isPlaceMode ? value : content.target;
+
+    return (
+        <div className="space-y-4">
+            <p className="text-lg font-bold text-gray-800" id="number-line-question">
+                {content.question}
+            </p>
+
+            <div className="bg-white rounded-xl shadow-sm p-4">
+                <svg
+                    ref={svgRef}
+                    viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+                    className={`w-full h-auto select-none ${isPlaceMode && !showSolution ? 'cursor-pointer touch-none' : ''}`}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                    aria-hidden={isPlaceMode ? undefined : true}
+                >
+                    {/* Line */}
+                    <line
+                        x1={LINE_PADDING}
+                        y1={LINE_Y}
+                        x2={VIEW_WIDTH - LINE_PADDING}
+                        y2={LINE_Y}
+                        stroke="#374151"
+                        strokeWidth={3}
+                        strokeLinecap="round"
+                    />
+
+                    {/* Ticks and labels */}
+                    {ticks.map((tick) => {
+                        const isLabeled = labeledTicks.has(tick);
+                        return (
+                            <g key={tick}>
+                                <line
+                                    x1={toX(tick)}
+                                    y1={LINE_Y - (isLabeled ? 12 : 8)}
+                                    x2={toX(tick)}
+                                    y2={LINE_Y + (isLabeled ? 12 : 8)}
+                                    stroke="#374151"
+                                    strokeWidth={isLabeled ? 2.5 : 1.5}
+                                />
+                                {isLabeled && (
+                                    <text
+                                        x={toX(tick)}
+                                        y={LINE_Y + 34}
+                                        textAnchor="middle"
+                                        className="fill-gray-700 text-base font-semibold"
+                                    >
+                                        {formatNumber(tick)}
+                                    </text>
+                                )}
+                            </g>
+                        );
+                    })}
+
+                    {/* Correct position after a wrong placement */}
+                    {showSolution && isPlaceMode && !isCorrect && (
+                        <g data-testid="number-line-solution">
+                            <circle cx={toX(content.target)} cy={LINE_Y} r={9} fill="#22c55e" />
+                            <text
+                                x={toX(content.target)}
+                                y={LINE_Y - 20}
+                                textAnchor="middle"
+                                className="fill-green-700 text-base font-bold"
+                            >
+                                {formatNumber(content.target)}
+                            </text>
+                        </g>
+                    )}
+
+                    {/* Marker */}
+                    {isPlaceMode ? (
+                        <g
+                            ref={markerRef}
+                            role="slider"
+                            tabIndex={showSolution ? -1 : 0}
+                            aria-label={t('exercises.numberLine.marker')}
+                            aria-valuemin={content.min}
+                            aria-valuemax={content.max}
+                            aria-valuenow={value ?? undefined}
+                            aria-valuetext={value === null
+                                ? t('exercises.numberLine.notPlaced')
+                                : formatNumber(value)}
+                            aria-disabled={showSolution}
+                            aria-describedby="number-line-question"
+                            onKeyDown={handleMarkerKeyDown}
+                            className="focus:outline-none"
+                        >
+                            {markerValue !== null ? (
+                                <path
+                                    d={`M ${toX(markerValue)} ${LINE_Y - 4} l -10 -20 h 20 z`}
+                                    fill={markerColor}
+                                    stroke="#1f2937"
+                                    strokeWidth={1.5}
+                                />
+                            ) : (
+                                // Invisible target so the empty slider can receive focus
+                                <rect x={0} y={0} width={1} height={1} fill="transparent" />
+                            )}
+                        </g>
+                    ) : (
+                        <path
+                            d={`M ${toX(content.target)} ${LINE_Y - 4} l -10 -20 h 20 z`}
+                            fill="#f59e0b"
+                            stroke="#1f2937"
+                            strokeWidth={1.5}
+                            data-testid="number-line-mark"
+                        />
+                    )}
+                </svg>
+
+                {isPlaceMode && !showSolution && (
+                    <p className="text-xs text-gray-500 mt-2 text-center">
+                        {t('exercises.numberLine.keyboardHint')}
+                    </p>
+                )}
+            </div>
+
+            {/* Read mode: type the marked number */}
+            {!isPlaceMode && (
+                <div className="flex items-center gap-2">
+                    <label htmlFor="number-line-answer" className="text-sm font-semibold text-gray-600">
+                        {t('exercises.numberLine.readLabel')}
+                    </label>
+                    <input
+                        ref={inputRef}
+                        id="number-line-answer"
+                        type="text"
+                        inputMode="decimal"
+                        value={typedAnswer}
+                        onChange={(e) => {
+                            setTypedAnswer(e.target.value);
+                            setLastResult(null);
+                        }}
+                        onKeyDown={handleInputKeyDown}
+                        disabled={showSolution}
+                        className={`w-32 px-3 py-1.5 text-base font-bold border-b-4 rounded-lg text-center transition-colors focus:outline-none focus:ring-2 focus:ring-primary/30 ${inputFieldStyles({
+                            state: showSolution || lastResult !== null ? (isCorrect ? 'correct' : 'incorrect') : 'neutral',
+                        })}`}
+                        placeholder="..."
+                    />
+                </div>
+            )}
+
+            {/* Screen reader announcements of marker moves */}
+            <LiveRegion>{announcement}</LiveRegion>
+
+            {/* Solution */}
+            <ExerciseFeedback
+                show={showSolution && !isCorrect}
+                type="success"
+                message={t('exercises.numberLine.solution')}
+                explanation={formatNumber(content.target)}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={!canCheck}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
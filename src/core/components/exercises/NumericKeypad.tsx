@@ -0,0 +1,68 @@
+import { useTranslation } from 'react-i18next';
+
+export interface NumericKeypadProps {
+    /** Called with the character of the pressed key */
+    onKey: (key: string) => void;
+    /** Called when the delete key is pressed */
+    onDelete: () => void;
+    /** Up to two keys left and right of the 0 (e.g. [',', '/']) */
+    extraKeys?: string[];
+    /** Disable all keys */
+    disabled?: boolean;
+}
+
+const DIGIT_ROWS = [['7', '8', '9'], ['4', '5', '6'], ['1', '2', '3']];
+
+/**
+ * Reusable on-screen number keypad for maths answers, so children on
+ * tablets do not have to find digits on the system keyboard.
+ * Keys do not take the focus away from the field being typed into.
+ */
+export function NumericKeypad({ onKey, onDelete, extraKeys = [], disabled = false }: NumericKeypadProps) {
+    const { t } = useTranslation();
+    const [left, right] = extraKeys;
+
+    const keyLabel = (key: string): string | undefined => {
+        if (key === ',' || key === '.') return t('exercises.keypad.decimal');
+        if (key === '/') return t('exercises.keypad.fraction');
+        return undefined;
+    };
+
+    const renderKey = (key: string | undefined, position: string) => {
+        if (key === undefined) return <span key={position} aria-hidden="true" />;
+        return (
+            <button
+                key={position}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => onKey(key)}
+                disabled={disabled}
+                aria-label={keyLabel(key)}
+                className="py-3 rounded-xl bg-white border-2 border-gray-200 text-xl font-bold text-gray-800 hover:border-primary active:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-primary"
+                data-testid={`keypad-${key}`}
+            >
+                {key}
+            </button>
+        );
+    };
+
+    return (
+        <div role="group" aria-label={t('exercises.keypad.label')} className="grid grid-cols-3 gap-2 max-w-xs mx-auto select-none">
+            {DIGIT_ROWS.flat().map((digit) => renderKey(digit, digit))}
+            {renderKey(left, 'left')}
+            {renderKey('0', '0')}
+            {renderKey(right, 'right')}
+            <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={onDelete}
+                disabled={disabled}
+                aria-label={t('exercises.keypad.delete')}
+                className="col-span-3 py-2 rounded-xl bg-gray-100 border-2 border-gray-200 text-lg font-bold text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-primary"
+                data-testid="keypad-delete"
+            >
+                <span aria-hidden="true">⌫</span>
+            </button>
+        </div>
+    );
+}
@@ -2,6 +2,7 @@ import { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { HintButton } from './HintButton';
 import { ExerciseFeedback } from './ExerciseFeedback';
+import { AssetImage } from './AssetImage';
 import { optionStyles, type OptionVariant } from '@core/utils/exerciseStyles';
 import type { PictureVocabularyContent } from '@/types/exercise';
 
@@ -67,18 +68,19 @@ export function PictureVocabularyExercise({ content, hints, onSubmit, showSoluti
 
     return (
         <div className="space-y-4">
-            {/* Picture display */}
-            <div
-                className="bg-white rounded-xl shadow-sm p-6 text-center"
-                role="img"
-                aria-label={content.pictureAlt}
-            >
-                <div
-                    className="text-8xl mb-3 select-none"
-                    aria-hidden="true"
-                >
-                    {content.picture}
-                </div>
+            {/* Picture display: bundled image or emoji */}
+            <div className="bg-white rounded-xl shadow-sm p-6 text-center">
+                {content.image ? (
+                    <AssetImage image={content.image} size="lg" className="mx-auto mb-3" />
+                ) : (
+                    <div
+                        className="text-8xl mb-3 select-none"
+                        role="img"
+                        aria-label={content.pictureAlt}
+                    >
+                        {content.picture}
+                    </div>
+                )}
                 <p className="text-lg font-bold text-gray-700">
                     {t('exercises.pictureVocabulary.whatIsThis')}
                 </p>
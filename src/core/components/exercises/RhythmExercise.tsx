@@ -0,0 +1,169 @@
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { MusicStaff, NotationPlayButton } from './MusicStaff';
+import {
+    DEFAULT_RHYTHM_MIN_ACCURACY,
+    DEFAULT_RHYTHM_TOLERANCE,
+    getNotationNotes,
+    getNotationTones,
+    getRhythmOnsets,
+    parseNotation,
+    scoreRhythmTaps,
+    type NotationSymbol,
+    type RhythmTapResult,
+} from '@core/utils/music';
+import type { RhythmContent } from '@/types/exercise';
+
+interface Props {
+    content: RhythmContent;
+    hints?: string[];
+    onSubmit: (correct: boolean, accuracy?: number) => void;
+    showSolution: boolean;
+}
+
+/** Beat colours after checking */
+const RESULT_COLORS = { hit: '#16a34a', missed: '#dc2626' };
+
+/**
+ * Rhythm exercise: listen to a rhythm shown on a one-line staff and tap
+ * it back on a big button (or with Space/Enter). Taps are scored against
+ * the beats with a timing tolerance; the child may start at any time.
+ */
+export function RhythmExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const symbols = useMemo<NotationSymbol[]>(() => {
+        try {
+            return parseNotation(content.notation);
+        } catch {
+            return [];
+        }
+    }, [content.notation]);
+    const notes = useMemo(() => getNotationNotes(symbols), [symbols]);
+    const tones = useMemo(() => getNotationTones(notes, content.tempo), [notes, content.tempo]);
+
+    const [taps, setTaps] = useState<number[]>([]);
+    const [result, setResult] = useState<RhythmTapResult | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+
+    const tap = () => {
+        if (showSolution || isPlaying) return;
+        setTaps((prev) => [...prev, performance.now()]);
+        setResult(null);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+        if (e.key !== ' ' && e.key !== 'Enter') return;
+        // Keyboard taps fire on key down; held keys do not repeat
+        e.preventDefault();
+        if (!e.repeat) tap();
+    };
+
+    const handleReset = () => {
+        setTaps([]);
+        setResult(null);
+    };
+
+    const handleCheck = () => {
+        if (taps.length === 0 || showSolution) return;
+        const scored = scoreRhythmTaps(
+            getRhythmOnsets(notes, content.tempo),
+            taps,
+            content.tolerance ?? DEFAULT_RHYTHM_TOLERANCE,
+            content.minAccuracy ?? DEFAULT_RHYTHM_MIN_ACCURACY
+        );
+        setResult(scored);
+        setTaps([]);
+        onSubmit(scored.correct, scored.accuracy);
+    };
+
+    // Colour the sounding beats by whether they were hit (rests stay black)
+    let beat = 0;
+    const noteColors = notes.map((note) => {
+        if (note.kind === 'rest') return undefined;
+        const hit = result?.hits[beat++];
+        return hit === undefined ? undefined : RESULT_COLORS[hit ? 'hit' : 'missed'];
+    });
+    const hitCount = result ? result.hits.filter(Boolean).length : 0;
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-white rounded-xl shadow-sm p-4 space-y-3">
+                <MusicStaff
+                    symbols={symbols}
+                    clef="percussion"
+                    label={t('exercises.rhythm.staff', { count: getRhythmOnsets(notes).length })}
+                    noteColors={noteColors}
+                />
+                <div className="flex justify-center">
+                    <NotationPlayButton
+                        tones={tones}
+                        label={t('exercises.rhythm.listen')}
+                        onPlayingChange={setIsPlaying}
+                    />
+                </div>
+            </div>
+
+            {!showSolution && (
+                <>
+                    <button
+                        type="button"
+                        onPointerDown={(e) => {
+                            e.preventDefault();
+                            tap();
+                        }}
+                        onKeyDown={handleKeyDown}
+                        disabled={isPlaying}
+                        className="w-full h-32 text-2xl font-bold bg-primary-500 text-white rounded-2xl border-4 border-primary-600 active:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed select-none touch-none focus:outline-none focus:ring-4 focus:ring-primary-300"
+                        data-testid="rhythm-tap"
+                    >
+                        <span aria-hidden="true">🥁 </span>
+                        {t('exercises.rhythm.tap')}
+                    </button>
+
+                    <div className="flex items-center justify-between gap-3">
+                        <span role="status" className="text-gray-600">
+                            {t('exercises.rhythm.tapCount', { count: taps.length })}
+                        </span>
+                        <button
+                            type="button"
+                            onClick={handleReset}
+                            disabled={taps.length === 0}
+                            className="px-4 py-2 bg-gray-100 text-gray-800 font-semibold rounded-xl border-2 border-gray-300 hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
+                        >
+                            {t('exercises.rhythm.reset')}
+                        </button>
+                    </div>
+                </>
+            )}
+
+            {result && !showSolution && (
+                <ExerciseFeedback
+                    show={true}
+                    type={result.correct ? 'success' : 'error'}
+                    message={t('exercises.rhythm.result', { hits: hitCount, total: result.hits.length })}
+                    {...(result.extraTaps > 0
+                        ? { explanation: t('exercises.rhythm.extraTaps', { count: result.extraTaps }) }
+                        : {})}
+                />
+            )}
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={taps.length === 0}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,292 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useKeyboardNavigation } from '@core/hooks/useKeyboardNavigation';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { AssetImage } from './AssetImage';
+import { LiveRegion } from '@core/components/accessibility';
+import { solutionStateStyles } from '@core/utils/exerciseStyles';
+import { shuffleWithChange } from '@core/utils/shuffle';
+import { validateSequenceAnswer } from '@core/utils/exercise';
+import type { SequenceContent } from '@/types/exercise';
+
+interface Props {
+    content: SequenceContent;
+    hints?: string[];
+    onSubmit: (correct: boolean, accuracy?: number) => void;
+    showSolution: boolean;
+}
+
+/**
+ * Move an item of a list to another position.
+ */
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+    const copy = [...items];
+    const [item] = copy.splice(from, 1);
+    if (item !== undefined) copy.splice(to, 0, item);
+    return copy;
+}
+
+/**
+ * Sequence exercise: put cards (steps, story panels, events) into the
+ * right order. Cards are dragged with the mouse, or tapped one after the
+ * other to move the first to the second's place. With the keyboard a
+ * card is picked up with Space or Enter, moved with the arrow keys and
+ * put down again with Space, Enter or Escape.
+ */
+export function SequenceExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const [order, setOrder] = useState<string[]>(() => shuffleWithChange(content.correctOrder));
+    const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+    const [grabbedIndex, setGrabbedIndex] = useState<number | null>(null);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [lastResult, setLastResult] = useState<ReturnType<typeof validateSequenceAnswer> | null>(null);
+    const [announcement, setAnnouncement] = useState('');
+
+    const allValidOrders = useMemo(
+        () => [content.correctOrder, ...(content.alternateOrders ?? [])],
+        [content.correctOrder, content.alternateOrders]
+    );
+
+    const { containerRef, itemRefs, setFocusedIndex } = useKeyboardNavigation({
+        items: order,
+        onSelect: (_item, index) => grab(index),
+        // Arrow keys move the grabbed card instead of the focus
+        enabled: !showSolution && grabbedIndex === null,
+        wrap: false,
+    });
+
+    // Focus the first card on mount
+    useEffect(() => {
+        if (showSolution) return;
+        setFocusedIndex(0);
+        itemRefs.current[0]?.focus();
+    }, [showSolution]);
+
+    const total = order.length;
+    const result = showSolution ? validateSequenceAnswer(content, order) : lastResult;
+
+    const positionLabel = (index: number) =>
+        t('exercises.sequence.position', { position: index + 1, total });
+
+    const moveCard = (from: number, to: number) => {
+        if (showSolution || from === to || to < 0 || to >= total) return;
+        const item = order[from] ?? '';
+        setOrder(moveItem(order, from, to));
+        setLastResult(null);
+        setAnnouncement(t('exercises.sequence.moved', { item, position: to + 1, total }));
+    };
+
+    const grab = (index: number) => {
+        if (showSolution) return;
+        setGrabbedIndex(index);
+        setAnnouncement(t('exercises.sequence.grabbed', { item: order[index] ?? '' }));
+    };
+
+    const drop = (index: number) => {
+        setGrabbedIndex(null);
+        setAnnouncement(t('exercises.sequence.dropped', { item: order[index] ?? '', position: index + 1, total }));
+    };
+
+    // Keyboard: move the grabbed card and keep the focus on it
+    const handleGrabbedKeyDown = (e: React.KeyboardEvent, index: number) => {
+        if (grabbedIndex !== index || showSolution) return;
+        let target: number | null = null;
+
+        switch (e.key) {
+            case 'ArrowUp':
+            case 'ArrowLeft':
+                target = index - 1;
+                break;
+            case 'ArrowDown':
+            case 'ArrowRight':
+                target = index + 1;
+                break;
+            case 'Home':
+                target = 0;
+                break;
+            case 'End':
+                target = total - 1;
+                break;
+            case ' ':
+            case 'Enter':
+            case 'Escape':
+                e.preventDefault();
+                drop(index);
+                return;
+            default:
+                return;
+        }
+
+        e.preventDefault();
+        if (target < 0 || target >= total || target === index) return;
+        moveCard(index, target);
+        setGrabbedIndex(target);
+        setFocusedIndex(target);
+    };
+
+    // Keep the focus on a card after it moved
+    useEffect(() => {
+        if (grabbedIndex !== null) {
+            itemRefs.current[grabbedIndex]?.focus();
+        }
+    }, [grabbedIndex, order]);
+
+    // Tap mode: tap a card, then tap the place to move it to
+    const handleTap = (index: number) => {
+        if (showSolution || grabbedIndex !== null) return;
+        if (selectedIndex === null) {
+            setSelectedIndex(index);
+            setAnnouncement(t('exercises.sequence.selected', { item: order[index] ?? '' }));
+        } else {
+            moveCard(selectedIndex, index);
+            setSelectedIndex(null);
+        }
+    };
+
+    // Mouse drag and drop
+    const handleDragStart = (e: React.DragEvent, index: number) => {
+        if (showSolution) return;
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', String(index));
+        setDragIndex(index);
+        setSelectedIndex(null);
+    };
+
+    const handleDrop = (e: React.DragEvent, index: number) => {
+        e.preventDefault();
+        if (dragIndex !== null) moveCard(dragIndex, index);
+        setDragIndex(null);
+    };
+
+    const handleCheck = () => {
+        if (showSolution) return;
+        const checked = validateSequenceAnswer(content, order);
+        setLastResult(checked);
+        setSelectedIndex(null);
+        setGrabbedIndex(null);
+        onSubmit(checked.correct, content.partialCredit ? checked.accuracy : undefined);
+    };
+
+    const getCardStyles = (index: number): string => {
+        const inOrder = result?.inOrder[index];
+        if (inOrder !== undefined) {
+            return solutionStateStyles({ state: inOrder ? 'correct' : 'incorrect' });
+        }
+        if (grabbedIndex === index || selectedIndex === index) {
+            return `${solutionStateStyles({ state: 'selected' })} scale-[1.02]`;
+        }
+        if (dragIndex === index) {
+            return 'bg-white border-2 border-dashed border-gray-300 text-gray-700 opacity-50';
+        }
+        return 'bg-white border-2 border-gray-200 text-gray-700 hover:border-primary cursor-grab active:cursor-grabbing';
+    };
+
+    const inOrderCount = result?.inOrder.filter(Boolean).length ?? 0;
+
+    return (
+        <div className="space-y-4">
+            {content.question && (
+                <p className="text-lg font-bold text-gray-800" id="sequence-question">
+                    {content.question}
+                </p>
+            )}
+
+            {/* Cards */}
+            <div
+                ref={containerRef}
+                className="space-y-2"
+                role="list"
+                aria-label={t('exercises.sequence.cards')}
+                aria-describedby={showSolution ? undefined : 'sequence-keyboard-hint'}
+            >
+                {order.map((item, idx) => {
+                    const image = content.images?.[item];
+                    const inOrder = result?.inOrder[idx];
+
+                    return (
+                        <div
+                            key={item}
+                            ref={(el) => { itemRefs.current[idx] = el; }}
+                            role="listitem"
+                            tabIndex={showSolution ? -1 : 0}
+                            draggable={!showSolution}
+                            aria-label={`${item}, ${positionLabel(idx)}`}
+                            aria-current={grabbedIndex === idx || selectedIndex === idx ? true : undefined}
+                            data-read-aloud=""
+                            onClick={() => handleTap(idx)}
+                            onKeyDown={(e) => handleGrabbedKeyDown(e, idx)}
+                            onFocus={() => setFocusedIndex(idx)}
+                            onDragStart={(e) => handleDragStart(e, idx)}
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={(e) => handleDrop(e, idx)}
+                            onDragEnd={() => setDragIndex(null)}
+                            className={`flex items-center gap-3 px-4 py-3 rounded-lg font-semibold text-sm select-none transition-all focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${getCardStyles(idx)}`}
+                        >
+                            <span
+                                className="flex-shrink-0 w-7 h-7 rounded-full border-2 border-current flex items-center justify-center text-xs font-bold"
+                                aria-hidden="true"
+                            >
+                                {idx + 1}
+                            </span>
+                            {image && <AssetImage image={image} size="md" className="flex-shrink-0 pointer-events-none" />}
+                            <span className="flex-1 whitespace-pre-line">{item}</span>
+                            {inOrder !== undefined ? (
+                                <span aria-label={t(inOrder ? 'exercises.correct' : 'exercises.incorrect')}>
+                                    {inOrder ? '✓' : '✗'}
+                                </span>
+                            ) : (
+                                <span className="text-gray-400" aria-hidden="true">⠿</span>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            {!showSolution && (
+                <p id="sequence-keyboard-hint" className="text-xs text-gray-500 text-center">
+                    {t('exercises.sequence.keyboardHint')}
+                </p>
+            )}
+
+            {/* Screen reader announcements of moves */}
+            <LiveRegion>{announcement}</LiveRegion>
+
+            {/* Cards in order after checking */}
+            <ExerciseFeedback
+                show={result !== null && !showSolution && inOrderCount < total}
+                type="info"
+                message={t('exercises.sequence.inOrderCount', { count: inOrderCount, total })}
+                announce={false}
+            />
+
+            {/* Show all correct orders when wrong */}
+            <ExerciseFeedback
+                show={showSolution && inOrderCount < total}
+                type="success"
+                message={allValidOrders.length > 1
+                    ? t('exercises.sequence.correctOrders')
+                    : t('exercises.sequence.correctOrder')}
+                explanation={allValidOrders
+                    .map((validOrder) => validOrder.map((item, idx) => `${idx + 1}. ${item.replace(/\n/g, ' ')}`).join('\n'))
+                    .join('\n\n')}
+                className="whitespace-pre-line"
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { HintButton } from './HintButton';
+import { ExerciseFeedback } from './ExerciseFeedback';
+import { inputFieldStyles, solutionStateStyles } from '@core/utils/exerciseStyles';
+import {
+    checkSegmentation,
+    checkSegmentCount,
+    findSegmentation,
+    findSegmentationByCount,
+    getSegmentationLetters,
+    parseSegmentation,
+    splitAtBoundaries,
+    toggleBoundary,
+} from '@core/utils/syllables';
+import type { SyllablesContent } from '@/types/exercise';
+
+interface Props {
+    content: SyllablesContent;
+    hints?: string[];
+    onSubmit: (correct: boolean) => void;
+    showSolution: boolean;
+}
+
+/**
+ * Syllables or words with an arc under each, as taught in German
+ * primary school (Silbenbögen).
+ */
+function SegmentArcs({ segments, label }: { segments: readonly string[]; label: string }) {
+    return (
+        <div className="flex flex-wrap justify-center gap-x-2 gap-y-3" role="group" aria-label={label}>
+            {segments.map((segment, index) => (
+                <span key={index} className="inline-flex flex-col items-center" data-testid="syllable-arc">
+                    <span className="text-3xl font-bold tracking-wide text-gray-900">{segment}</span>
+                    <svg viewBox="0 0 100 20" preserveAspectRatio="none" className="w-full h-4" aria-hidden="true">
+                        <path d="M 4 2 Q 50 30 96 2" fill="none" stroke="#16a34a" strokeWidth={4} strokeLinecap="round" vectorEffect="non-scaling-stroke" />
+                    </svg>
+                </span>
+            ))}
+        </div>
+    );
+}
+
+/**
+ * Syllables exercise: split a word into syllables or a run-together
+ * sentence into words by tapping between the letters ('split'), or clap
+ * and count the syllables or words ('count'). Any of the listed
+ * segmentations is accepted; the solution is shown with syllable arcs.
+ */
+export function SyllablesExercise({ content, hints, onSubmit, showSolution }: Props) {
+    const { t } = useTranslation();
+    const mode = content.mode ?? 'split';
+    const unit = content.unit ?? 'syllable';
+    const firstSegmentation = content.segmentations[0] ?? '';
+    const letters = useMemo(() => getSegmentationLetters(firstSegmentation), [firstSegmentation]);
+
+    const [boundaries, setBoundaries] = useState<number[]>([]);
+    const [count, setCount] = useState('');
+    const [lastResult, setLastResult] = useState<boolean | null>(null);
+
+    const countValue = /^\d+$/.test(count) ? Number(count) : null;
+
+    // The solution shows the segmentation the child found, or the first one
+    const solutionSegments = useMemo(() => {
+        const matched = mode === 'split'
+            ? findSegmentation(boundaries, content.segmentations)
+            : countValue !== null ? findSegmentationByCount(countValue, content.segmentations) : undefined;
+        return parseSegmentation(matched ?? firstSegmentation);
+    }, [mode, boundaries, countValue, content.segmentations, firstSegmentation]);
+
+    const canCheck = mode === 'split' ? true : countValue !== null;
+
+    const handleGap = (boundary: number) => {
+        if (showSolution) return;
+        setBoundaries(toggleBoundary(boundaries, boundary));
+        setLastResult(null);
+    };
+
+    const handleCount = (value: string) => {
+        if (showSolution || !/^\d{0,2}$/.test(value)) return;
+        setCount(value);
+        setLastResult(null);
+    };
+
+    const handleCheck = () => {
+        if (!canCheck || showSolution) return;
+        const correct = mode === 'split'
+            ? checkSegmentation(boundaries, content.segmentations)
+            : countValue !== null && checkSegmentCount(countValue, content.segmentations);
+        setLastResult(correct);
+        onSubmit(correct);
+    };
+
+    const state = showSolution || lastResult === true ? 'correct' : lastResult === false ? 'incorrect' : 'neutral';
+    const solutionLabel = t(`exercises.syllables.${unit}Solution`, { count: solutionSegments.length });
+
+    return (
+        <div className="space-y-4">
+            <p className="text-center text-gray-700">
+                {t(`exercises.syllables.${unit}${mode === 'split' ? 'Split' : 'Count'}`)}
+            </p>
+
+            {showSolution ? (
+                <div className={`p-4 space-y-2 ${solutionStateStyles({ state: 'correct' })}`}>
+                    <SegmentArcs segments={solutionSegments} label={solutionLabel} />
+                    {mode === 'count' && (
+                        <p className="text-center font-semibold text-green-800">{solutionLabel}</p>
+                    )}
+                </div>
+            ) : mode === 'split' ? (
+                <div className={`p-4 ${solutionStateStyles({ state })}`}>
+                    <div className="flex flex-wrap justify-center items-stretch gap-y-3" role="group" aria-label={splitAtBoundaries(letters, boundaries).join(' | ')}>
+                        {letters.map((letter, index) => (
+                            <span key={index} className="inline-flex items-stretch">
+                                {index > 0 && (
+                                    <button
+                                        type="button"
+                                        onClick={() => handleGap(index)}
+                                        aria-pressed={boundaries.includes(index)}
+                                        aria-label={t('exercises.syllables.gap', { before: letters[index - 1], after: letter })}
+                                        className={`flex justify-center rounded focus:outline-none focus:ring-2 focus:ring-primary ${unit === 'word' && boundaries.includes(index) ? 'w-8' : 'w-5'} hover:bg-primary/10`}
+                                        data-testid={`syllable-gap-${index}`}
+                                    >
+                                        <span
+                                            className={`w-1 rounded-full ${boundaries.includes(index) ? 'bg-primary' : 'bg-gray-200'}`}
+                                            aria-hidden="true"
+                                        />
+                                    </button>
+                                )}
+                                <span className="text-3xl font-bold tracking-wide text-gray-900 py-2" aria-hidden="true">
+                                    {letter}
+                                </span>
+                            </span>
+                        ))}
+                    </div>
+                </div>
+            ) : (
+                <div className="space-y-4">
+                    <p className="text-center text-3xl font-bold tracking-wide text-gray-900">{letters.join('')}</p>
+                    <div className="flex items-center justify-center gap-3">
+                        <button
+                            type="button"
+                            onClick={() => handleCount(String((countValue ?? 0) + 1))}
+                            className="px-6 py-3 text-lg font-bold bg-primary-500 text-white rounded-xl border-2 border-primary-600 hover:bg-primary-600 transition-colors focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+                        >
+                            <span aria-hidden="true">👏 </span>
+                            {t('exercises.syllables.clap')}
+                        </button>
+                        <label className="sr-only" htmlFor="syllables-count">
+                            {t('exercises.syllables.countLabel')}
+                        </label>
+                        <input
+                            id="syllables-count"
+                            type="text"
+                            inputMode="numeric"
+                            value={count}
+                            onChange={(e) => handleCount(e.target.value)}
+                            onKeyDown={(e) => {
+                                if (e.key === 'Enter') handleCheck();
+                            }}
+                            className={`w-20 text-center text-2xl font-bold ${inputFieldStyles({ state })}`}
+                            placeholder="0"
+                        />
+                    </div>
+                </div>
+            )}
+
+            <ExerciseFeedback
+                show={lastResult === false && !showSolution}
+                type="error"
+                message={t('exercises.syllables.wrong')}
+            />
+
+            {/* Hints */}
+            {hints && hints.length > 0 && !showSolution && (
+                <HintButton hints={hints} />
+            )}
+
+            {/* Check button */}
+            {!showSolution && (
+                <button
+                    onClick={handleCheck}
+                    disabled={!canCheck}
+                    className="w-full py-3 bg-accent-500 text-white font-bold rounded-xl border-2 border-accent-600 hover:bg-accent-600 disabled:bg-gray-200 disabled:text-gray-600 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-accent-500 focus:ring-offset-2"
+                >
+                    {t('exercises.check')}
+                </button>
+            )}
+        </div>
+    );
+}
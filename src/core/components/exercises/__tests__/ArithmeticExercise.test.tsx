@@ -0,0 +1,187 @@
+/**
+ * Tests for ArithmeticExercise component.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ArithmeticExercise } from '../ArithmeticExercise';
+import type { ArithmeticContent } from '@/types/exercise';
+
+// Mock window.matchMedia for useAccessibility hook
+Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+    })),
+});
+
+// Mock react-i18next
+vi.mock('react-i18next', () => ({
+    useTranslation: () => ({
+        t: (key: string) => {
+            const translations: Record<string, string> = {
+                'exercises.check': 'Check',
+            };
+            return translations[key] ?? key;
+        },
+        i18n: { language: 'de' },
+    }),
+}));
+
+describe('ArithmeticExercise', () => {
+    const mockOnSubmit = vi.fn();
+
+    beforeEach(() => {
+        mockOnSubmit.mockClear();
+    });
+
+    describe('typed result', () => {
+        const inputContent: ArithmeticContent = {
+            type: 'arithmetic',
+            mode: 'input',
+            question: '1/2 + 1/4 =',
+            answer: '3/4',
+        };
+
+        it('accepts an answer typed on the keyboard', () => {
+            render(<ArithmeticExercise content={inputContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const input = screen.getByTestId('arithmetic-answer');
+            fireEvent.change(input, { target: { value: '0,75' } });
+            fireEvent.keyDown(input, { key: 'Enter' });
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(true);
+        });
+
+        it('enters the answer with the keypad', () => {
+            render(<ArithmeticExercise content={inputContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            fireEvent.click(screen.getByTestId('keypad-3'));
+            fireEvent.click(screen.getByTestId('keypad-/'));
+            fireEvent.click(screen.getByTestId('keypad-5'));
+            fireEvent.click(screen.getByTestId('keypad-delete'));
+            fireEvent.click(screen.getByTestId('keypad-4'));
+
+            expect(screen.getByTestId('arithmetic-answer')).toHaveValue('3/4');
+
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+            expect(mockOnSubmit).toHaveBeenCalledWith(true);
+        });
+
+        it('ignores characters that are not part of a number', () => {
+            render(<ArithmeticExercise content={inputContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const input = screen.getByTestId('arithmetic-answer');
+            fireEvent.change(input, { target: { value: 'abc' } });
+
+            expect(input).toHaveValue('');
+            expect(screen.getByRole('button', { name: 'Check' })).toBeDisabled();
+        });
+
+        it('explains a right number in the wrong form', () => {
+            render(
+                <ArithmeticExercise
+                    content={{ ...inputContent, acceptEquivalent: false }}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            fireEvent.change(screen.getByTestId('arithmetic-answer'), { target: { value: '0,75' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(false);
+            expect(screen.getByText('exercises.arithmetic.wrongForm')).toBeInTheDocument();
+        });
+
+        it('shows the answer as solution and hides the keypad', () => {
+            render(<ArithmeticExercise content={inputContent} onSubmit={mockOnSubmit} showSolution={true} />);
+
+            const input = screen.getByTestId('arithmetic-answer');
+            expect(input).toHaveValue('3/4');
+            expect(input).toHaveAttribute('readonly');
+            expect(screen.queryByTestId('keypad-1')).not.toBeInTheDocument();
+            expect(screen.queryByRole('button', { name: 'Check' })).not.toBeInTheDocument();
+        });
+    });
+
+    describe('column calculation', () => {
+        // 47 + 38 = 85: ones digit 5, carry 1 into the tens, tens digit 8
+        const columnContent: ArithmeticContent = {
+            type: 'arithmetic',
+            mode: 'column',
+            operands: [47, 38],
+            operation: '+',
+        };
+
+        it('moves to the next cell in working order while typing', () => {
+            render(<ArithmeticExercise content={columnContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            fireEvent.change(screen.getByTestId('column-digit-1'), { target: { value: '5' } });
+            expect(screen.getByTestId('column-carry-0')).toHaveFocus();
+
+            fireEvent.change(screen.getByTestId('column-carry-0'), { target: { value: '1' } });
+            expect(screen.getByTestId('column-digit-0')).toHaveFocus();
+        });
+
+        it('writes keypad digits into the active cell', () => {
+            render(<ArithmeticExercise content={columnContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            fireEvent.click(screen.getByTestId('keypad-5'));
+            fireEvent.click(screen.getByTestId('keypad-1'));
+            fireEvent.click(screen.getByTestId('keypad-8'));
+
+            expect(screen.getByTestId('column-digit-1')).toHaveValue('5');
+            expect(screen.getByTestId('column-carry-0')).toHaveValue('1');
+            expect(screen.getByTestId('column-digit-0')).toHaveValue('8');
+
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+            expect(mockOnSubmit).toHaveBeenCalledWith(true, undefined);
+        });
+
+        it('deletes the previous digit with Backspace in an empty cell', () => {
+            render(<ArithmeticExercise content={columnContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            fireEvent.change(screen.getByTestId('column-digit-1'), { target: { value: '5' } });
+            fireEvent.keyDown(screen.getByTestId('column-carry-0'), { key: 'Backspace' });
+
+            expect(screen.getByTestId('column-digit-1')).toHaveValue('');
+            expect(screen.getByTestId('column-digit-1')).toHaveFocus();
+        });
+
+        it('marks wrong columns and scores partial credit', () => {
+            render(
+                <ArithmeticExercise
+                    content={{ ...columnContent, partialCredit: true }}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            // Forgot the carry: 75 instead of 85
+            fireEvent.change(screen.getByTestId('column-digit-1'), { target: { value: '5' } });
+            fireEvent.change(screen.getByTestId('column-digit-0'), { target: { value: '7' } });
+            fireEvent.keyDown(screen.getByTestId('column-digit-0'), { key: 'Enter' });
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(false, 0.5);
+            expect(screen.getByTestId('column-digit-0')).toHaveAttribute('aria-invalid', 'true');
+            expect(screen.getByTestId('column-digit-1')).not.toHaveAttribute('aria-invalid');
+        });
+
+        it('shows the solution digits and carries', () => {
+            render(<ArithmeticExercise content={columnContent} onSubmit={mockOnSubmit} showSolution={true} />);
+
+            expect(screen.getByTestId('column-digit-0')).toHaveValue('8');
+            expect(screen.getByTestId('column-digit-1')).toHaveValue('5');
+            expect(screen.getByTestId('column-carry-0')).toHaveValue('1');
+            expect(screen.queryByTestId('keypad-1')).not.toBeInTheDocument();
+        });
+    });
+});
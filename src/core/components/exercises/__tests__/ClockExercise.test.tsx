@@ -0,0 +1,210 @@
+/**
+ * Tests for ClockExercise component.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ClockExercise } from '../ClockExercise';
+import type { ClockContent } from '@/types/exercise';
+
+// Mock window.matchMedia for useAccessibility hook
+Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+    })),
+});
+
+// Mock react-i18next
+vi.mock('react-i18next', () => ({
+    useTranslation: () => ({
+        t: (key: string) => {
+            const translations: Record<string, string> = {
+                'exercises.check': 'Check',
+                'exercises.clock.hourHand': 'Hour hand',
+                'exercises.clock.minuteHand': 'Minute hand',
+                'exercises.clock.answerLabel': 'Time',
+                'exercises.clock.solution': 'Solution',
+            };
+            return translations[key] ?? key;
+        },
+    }),
+}));
+
+describe('ClockExercise', () => {
+    const setContent: ClockContent = {
+        type: 'clock',
+        mode: 'set',
+        question: 'Stelle die Uhr auf Viertel nach drei.',
+        time: '3:15',
+    };
+
+    const readContent: ClockContent = {
+        type: 'clock',
+        mode: 'read',
+        question: 'Wie spät ist es?',
+        time: '15:30',
+    };
+
+    const mockOnSubmit = vi.fn();
+
+    beforeEach(() => {
+        mockOnSubmit.mockClear();
+    });
+
+    describe('setting the hands', () => {
+        it('focuses the minute hand at 12 o\'clock', () => {
+            render(<ClockExercise content={setContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const minuteHand = screen.getByRole('slider', { name: 'Minute hand' });
+            expect(minuteHand).toHaveFocus();
+            expect(minuteHand).toHaveAttribute('aria-valuetext', '12:00');
+        });
+
+        it('turns the hands with the arrow keys and checks with Enter', () => {
+            render(<ClockExercise content={setContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const hourHand = screen.getByRole('slider', { name: 'Hour hand' });
+            const minuteHand = screen.getByRole('slider', { name: 'Minute hand' });
+            fireEvent.keyDown(hourHand, { key: 'ArrowRight' });
+            fireEvent.keyDown(hourHand, { key: 'ArrowRight' });
+            fireEvent.keyDown(hourHand, { key: 'ArrowUp' });
+            expect(hourHand).toHaveAttribute('aria-valuenow', '3');
+
+            fireEvent.keyDown(minuteHand, { key: 'PageUp' });
+            expect(minuteHand).toHaveAttribute('aria-valuenow', '15');
+            expect(minuteHand).toHaveAttribute('aria-valuetext', '3:15');
+
+            fireEvent.keyDown(minuteHand, { key: 'Enter' });
+            expect(mockOnSubmit).toHaveBeenCalledWith(true);
+        });
+
+        it('moves the hour hand on when the minute hand passes 12', () => {
+            render(<ClockExercise content={setContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const hourHand = screen.getByRole('slider', { name: 'Hour hand' });
+            const minuteHand = screen.getByRole('slider', { name: 'Minute hand' });
+            fireEvent.keyDown(minuteHand, { key: 'ArrowLeft' });
+
+            expect(minuteHand).toHaveAttribute('aria-valuenow', '55');
+            expect(hourHand).toHaveAttribute('aria-valuenow', '11');
+        });
+
+        it('snaps the minute hand to the configured step', () => {
+            render(
+                <ClockExercise
+                    content={{ ...setContent, minuteStep: 1 }}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            const minuteHand = screen.getByRole('slider', { name: 'Minute hand' });
+            fireEvent.keyDown(minuteHand, { key: 'ArrowRight' });
+
+            expect(minuteHand).toHaveAttribute('aria-valuenow', '1');
+        });
+    });
+
+    describe('retry', () => {
+        it('lets the hands be turned again after a wrong time', () => {
+            render(<ClockExercise content={setContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const hourHand = screen.getByRole('slider', { name: 'Hour hand' });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+            expect(mockOnSubmit).toHaveBeenLastCalledWith(false);
+
+            fireEvent.keyDown(hourHand, { key: 'PageUp' });
+            fireEvent.keyDown(screen.getByRole('slider', { name: 'Minute hand' }), { key: 'PageUp' });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+            expect(mockOnSubmit).toHaveBeenLastCalledWith(true);
+        });
+    });
+
+    describe('reading the clock', () => {
+        it('accepts the time on either half of the day by default', () => {
+            render(<ClockExercise content={readContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const input = screen.getByRole('textbox', { name: 'Time' });
+            expect(input).toHaveFocus();
+
+            fireEvent.change(input, { target: { value: '3.30 Uhr' } });
+            fireEvent.keyDown(input, { key: 'Enter' });
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(true);
+        });
+
+        it('needs the exact hour in 24-hour format', () => {
+            render(
+                <ClockExercise
+                    content={{ ...readContent, answerFormat: '24h' }}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            const input = screen.getByRole('textbox', { name: 'Time' });
+            fireEvent.change(input, { target: { value: '3:30' } });
+            fireEvent.keyDown(input, { key: 'Enter' });
+            expect(mockOnSubmit).toHaveBeenLastCalledWith(false);
+
+            fireEvent.change(input, { target: { value: '15:30' } });
+            fireEvent.keyDown(input, { key: 'Enter' });
+            expect(mockOnSubmit).toHaveBeenLastCalledWith(true);
+        });
+
+        it('checks a chosen option', () => {
+            render(
+                <ClockExercise
+                    content={{ ...readContent, options: ['3:30', '6:15'] }}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByRole('button', { name: 'Check' })).toBeDisabled();
+
+            fireEvent.click(screen.getByRole('radio', { name: '6:15' }));
+            expect(screen.getByRole('radio', { name: '6:15' })).toHaveAttribute('aria-checked', 'true');
+
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+            expect(mockOnSubmit).toHaveBeenCalledWith(false);
+        });
+    });
+
+    describe('solution display', () => {
+        it('shows the correct hands and ignores the keyboard', () => {
+            render(<ClockExercise content={setContent} onSubmit={mockOnSubmit} showSolution={true} />);
+
+            const minuteHand = screen.getByRole('slider', { name: 'Minute hand' });
+            expect(minuteHand).toHaveAttribute('aria-disabled', 'true');
+            expect(screen.getByTestId('clock-solution')).toBeInTheDocument();
+            expect(screen.getByText('Solution')).toBeInTheDocument();
+            expect(screen.getByText('3:15')).toBeInTheDocument();
+
+            fireEvent.keyDown(minuteHand, { key: 'PageUp' });
+            expect(minuteHand).toHaveAttribute('aria-valuenow', '0');
+            expect(screen.queryByRole('button', { name: 'Check' })).not.toBeInTheDocument();
+        });
+
+        it('disables the options in read mode', () => {
+            render(
+                <ClockExercise
+                    content={{ ...readContent, options: ['3:30', '6:15'] }}
+                    onSubmit={mockOnSubmit}
+                    showSolution={true}
+                />
+            );
+
+            expect(screen.getByRole('radio', { name: '3:30' })).toBeDisabled();
+            expect(screen.getByRole('radio', { name: '6:15' })).toBeDisabled();
+        });
+    });
+});
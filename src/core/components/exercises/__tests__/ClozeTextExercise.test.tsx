@@ -0,0 +1,153 @@
+/**
+ * Tests for ClozeTextExercise component.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ClozeTextExercise } from '../ClozeTextExercise';
+import type { ClozeTextContent } from '@/types/exercise';
+
+// Mock window.matchMedia for useAccessibility hook
+Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+    })),
+});
+
+// Mock react-i18next
+vi.mock('react-i18next', () => ({
+    useTranslation: () => ({
+        t: (key: string, options?: Record<string, unknown>) => {
+            const translations: Record<string, string> = {
+                'exercises.check': 'Check',
+                'exercises.clozeText.blankLabel': `Blank ${String(options?.number)}`,
+                'exercises.clozeText.score': `${String(options?.correct)} of ${String(options?.total)} correct`,
+            };
+            return translations[key] ?? key;
+        },
+    }),
+}));
+
+describe('ClozeTextExercise', () => {
+    const defaultContent: ClozeTextContent = {
+        type: 'cloze-text',
+        text: 'Der {{1}} bellt. Die Katze {{2}}.',
+        blanks: [
+            { id: 1, correctAnswer: 'Hund' },
+            { id: 2, correctAnswer: 'miaut', options: ['bellt', 'miaut', 'muht'] },
+        ],
+    };
+
+    const mockOnSubmit = vi.fn();
+
+    beforeEach(() => {
+        mockOnSubmit.mockClear();
+    });
+
+    describe('rendering', () => {
+        it('renders a text field or dropdown for each blank', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            expect(screen.getByRole('textbox', { name: 'Blank 1' })).toBeInTheDocument();
+            expect(screen.getByRole('combobox', { name: 'Blank 2' })).toBeInTheDocument();
+            expect(screen.getByText('bellt', { selector: 'option' })).toBeInTheDocument();
+        });
+
+        it('focuses the first blank', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            expect(screen.getByRole('textbox', { name: 'Blank 1' })).toHaveFocus();
+        });
+    });
+
+    describe('answer handling', () => {
+        it('calls onSubmit with true and full accuracy when every blank is right', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            fireEvent.change(screen.getByRole('textbox', { name: 'Blank 1' }), { target: { value: 'Hund' } });
+            fireEvent.change(screen.getByRole('combobox', { name: 'Blank 2' }), { target: { value: 'miaut' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(true, 1);
+            expect(screen.getByText('2 of 2 correct')).toBeInTheDocument();
+        });
+
+        it('requires all blanks by default and reports the share of right blanks', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            fireEvent.change(screen.getByRole('textbox', { name: 'Blank 1' }), { target: { value: 'Hund' } });
+            fireEvent.change(screen.getByRole('combobox', { name: 'Blank 2' }), { target: { value: 'muht' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(false, 0.5);
+            expect(screen.getByRole('combobox', { name: 'Blank 2' })).toHaveAttribute('aria-invalid', 'true');
+        });
+
+        it('checks with the Enter key in a text field', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const input = screen.getByRole('textbox', { name: 'Blank 1' });
+            fireEvent.change(input, { target: { value: 'Hund' } });
+            fireEvent.keyDown(input, { key: 'Enter' });
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(false, 0.5);
+        });
+
+        it('disables the check button until a blank is filled', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            expect(screen.getByRole('button', { name: 'Check' })).toBeDisabled();
+        });
+
+        it('warns about an answer in the wrong case', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            fireEvent.change(screen.getByRole('textbox', { name: 'Blank 1' }), { target: { value: 'hund' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(false, 0);
+            expect(screen.getByText('exercises.fillBlank.wrongCase')).toBeInTheDocument();
+        });
+    });
+
+    describe('retry', () => {
+        it('locks right blanks and keeps wrong blanks editable', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const input = screen.getByRole('textbox', { name: 'Blank 1' });
+            const select = screen.getByRole('combobox', { name: 'Blank 2' });
+            fireEvent.change(input, { target: { value: 'Hund' } });
+            fireEvent.change(select, { target: { value: 'bellt' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(input).toBeDisabled();
+            expect(select).not.toBeDisabled();
+
+            fireEvent.change(select, { target: { value: 'miaut' } });
+            expect(select).toHaveAttribute('aria-invalid', 'false');
+
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+            expect(mockOnSubmit).toHaveBeenLastCalledWith(true, 1);
+        });
+    });
+
+    describe('solution display', () => {
+        it('shows the correct answers and disables every blank', () => {
+            render(<ClozeTextExercise content={defaultContent} onSubmit={mockOnSubmit} showSolution={true} />);
+
+            expect(screen.getByText('→ Hund')).toBeInTheDocument();
+            expect(screen.getByText('→ miaut')).toBeInTheDocument();
+            expect(screen.getByRole('textbox', { name: 'Blank 1' })).toBeDisabled();
+            expect(screen.getByRole('combobox', { name: 'Blank 2' })).toBeDisabled();
+            expect(screen.queryByRole('button', { name: 'Check' })).not.toBeInTheDocument();
+        });
+    });
+});
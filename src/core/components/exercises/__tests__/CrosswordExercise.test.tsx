@@ -0,0 +1,194 @@
+/**
+ * Tests for CrosswordExercise component.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CrosswordExercise } from '../CrosswordExercise';
+import { generateCrossword, getCrosswordCellKey, getCrosswordWordCells } from '@core/utils/crossword';
+import type { CrosswordContent } from '@/types/exercise';
+
+// Mock window.matchMedia for useAccessibility hook
+Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+    })),
+});
+
+// Mock react-i18next
+vi.mock('react-i18next', () => ({
+    useTranslation: () => ({
+        t: (key: string) => {
+            const translations: Record<string, string> = {
+                'exercises.check': 'Check',
+            };
+            return translations[key] ?? key;
+        },
+    }),
+}));
+
+describe('CrosswordExercise', () => {
+    const content: CrosswordContent = {
+        type: 'crossword',
+        words: [
+            { word: 'Hund', clue: 'Bellt' },
+            { word: 'Nase', clue: 'Riecht' },
+            { word: 'Sonne', clue: 'Scheint' },
+        ],
+    };
+
+    // The component lays out the same grid for the same words and seed
+    const layout = generateCrossword(content.words, content.seed);
+
+    const getPlacement = (index: number) => {
+        const placement = layout.placements[index];
+        if (!placement) throw new Error(`No word placed at index ${index}`);
+        return placement;
+    };
+
+    const firstWord = getPlacement(0);
+    const firstLetter = firstWord.answer[0] ?? '';
+
+    const getCell = (row: number, col: number) =>
+        screen.getByTestId(`crossword-cell-${getCrosswordCellKey(row, col)}`);
+
+    const getWordCell = (placementIndex: number, letterIndex: number) => {
+        const cell = getCrosswordWordCells(getPlacement(placementIndex))[letterIndex];
+        if (!cell) throw new Error(`No letter ${letterIndex} in word ${placementIndex}`);
+        return getCell(cell.row, cell.col);
+    };
+
+    const typeSolution = () => {
+        layout.grid.forEach((row, r) => row.forEach((letter, c) => {
+            if (letter !== null) fireEvent.change(getCell(r, c), { target: { value: letter.toLowerCase() } });
+        }));
+    };
+
+    const mockOnSubmit = vi.fn();
+
+    beforeEach(() => {
+        mockOnSubmit.mockClear();
+    });
+
+    describe('keyboard input', () => {
+        it('places every word of the exercise', () => {
+            expect(layout.unplaced).toEqual([]);
+        });
+
+        it('focuses the first cell of the first word', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            expect(getCell(firstWord.row, firstWord.col)).toHaveFocus();
+        });
+
+        it('writes letters in upper case and moves along the word', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const first = getWordCell(0, 0);
+            const second = getWordCell(0, 1);
+            fireEvent.change(first, { target: { value: firstLetter.toLowerCase() } });
+
+            expect(first).toHaveValue(firstLetter);
+            expect(second).toHaveFocus();
+        });
+
+        it('ignores characters that are not letters', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const first = getWordCell(0, 0);
+            fireEvent.change(first, { target: { value: '7' } });
+
+            expect(first).toHaveValue('');
+            expect(screen.getByRole('button', { name: 'Check' })).toBeDisabled();
+        });
+
+        it('deletes the previous letter with Backspace in an empty cell', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const first = getWordCell(0, 0);
+            const second = getWordCell(0, 1);
+            fireEvent.change(first, { target: { value: 'x' } });
+            fireEvent.keyDown(second, { key: 'Backspace' });
+
+            expect(first).toHaveValue('');
+            expect(first).toHaveFocus();
+        });
+
+        it('moves to the next cell with the arrow keys', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const first = getWordCell(0, 0);
+            const second = getWordCell(0, 1);
+            const arrow = firstWord.direction === 'across' ? 'ArrowRight' : 'ArrowDown';
+            fireEvent.keyDown(first, { key: arrow });
+
+            expect(second).toHaveFocus();
+        });
+
+        it('focuses the first cell of a word when its clue is clicked', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const lastWord = getPlacement(layout.placements.length - 1);
+            fireEvent.click(screen.getByRole('button', { name: new RegExp(lastWord.clue) }));
+
+            expect(getCell(lastWord.row, lastWord.col)).toHaveFocus();
+        });
+    });
+
+    describe('answer handling', () => {
+        it('calls onSubmit with true when every cell is right', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            typeSolution();
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(true);
+        });
+
+        it('marks wrong cells until they are changed', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            typeSolution();
+            const first = getWordCell(0, 0);
+            const wrongLetter = firstLetter === 'X' ? 'y' : 'x';
+            fireEvent.change(first, { target: { value: wrongLetter } });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(false);
+            expect(first).toHaveAttribute('aria-invalid', 'true');
+
+            fireEvent.change(first, { target: { value: firstLetter.toLowerCase() } });
+            expect(first).not.toHaveAttribute('aria-invalid');
+        });
+    });
+
+    describe('solution display', () => {
+        it('shows every letter in read-only cells', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={true} />);
+
+            layout.grid.forEach((row, r) => row.forEach((letter, c) => {
+                if (letter === null) return;
+                expect(getCell(r, c)).toHaveValue(letter);
+                expect(getCell(r, c)).toHaveAttribute('readonly');
+            }));
+            expect(screen.queryByRole('button', { name: 'Check' })).not.toBeInTheDocument();
+        });
+
+        it('ignores typing while the solution is shown', () => {
+            render(<CrosswordExercise content={content} onSubmit={mockOnSubmit} showSolution={true} />);
+
+            const first = getWordCell(0, 0);
+            fireEvent.change(first, { target: { value: 'q' } });
+
+            expect(first).toHaveValue(firstLetter);
+        });
+    });
+});
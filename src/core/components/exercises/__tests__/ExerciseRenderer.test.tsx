@@ -48,6 +48,62 @@ vi.mock('../PictureVocabularyExercise', () => ({
     PictureVocabularyExercise: () => <div data-testid="picture-vocabulary-exercise">Picture Vocabulary Exercise</div>,
 }));
 
+vi.mock('../ClozeTextExercise', () => ({
+    ClozeTextExercise: () => <div data-testid="cloze-text-exercise">Cloze Text Exercise</div>,
+}));
+
+vi.mock('../NumberLineExercise', () => ({
+    NumberLineExercise: () => <div data-testid="number-line-exercise">Number Line Exercise</div>,
+}));
+
+vi.mock('../ClockExercise', () => ({
+    ClockExercise: () => <div data-testid="clock-exercise">Clock Exercise</div>,
+}));
+
+vi.mock('../ListeningExercise', () => ({
+    ListeningExercise: () => <div data-testid="listening-exercise">Listening Exercise</div>,
+}));
+
+vi.mock('../HotspotExercise', () => ({
+    HotspotExercise: () => <div data-testid="hotspot-exercise">Hotspot Exercise</div>,
+}));
+
+vi.mock('../SequenceExercise', () => ({
+    SequenceExercise: () => <div data-testid="sequence-exercise">Sequence Exercise</div>,
+}));
+
+vi.mock('../MemoryExercise', () => ({
+    MemoryExercise: ({ seed }: { seed?: number }) => (
+        <div data-testid="memory-exercise" data-seed={seed}>Memory Exercise</div>
+    ),
+}));
+
+vi.mock('../CrosswordExercise', () => ({
+    CrosswordExercise: () => <div data-testid="crossword-exercise">Crossword Exercise</div>,
+}));
+
+vi.mock('../ArithmeticExercise', () => ({
+    ArithmeticExercise: () => <div data-testid="arithmetic-exercise">Arithmetic Exercise</div>,
+}));
+
+vi.mock('../DrawingExercise', () => ({
+    DrawingExercise: ({ palette }: { palette?: string[] }) => (
+        <div data-testid="drawing-exercise">Drawing Exercise {palette?.join(' ')}</div>
+    ),
+}));
+
+vi.mock('../NoteReadingExercise', () => ({
+    NoteReadingExercise: () => <div data-testid="note-reading-exercise">Note Reading Exercise</div>,
+}));
+
+vi.mock('../RhythmExercise', () => ({
+    RhythmExercise: () => <div data-testid="rhythm-exercise">Rhythm Exercise</div>,
+}));
+
+vi.mock('../SyllablesExercise', () => ({
+    SyllablesExercise: () => <div data-testid="syllables-exercise">Syllables Exercise</div>,
+}));
+
 describe('ExerciseRenderer', () => {
     const mockOnSubmit = vi.fn();
 
@@ -252,6 +308,258 @@ describe('ExerciseRenderer', () => {
 
             expect(screen.getByTestId('picture-vocabulary-exercise')).toBeInTheDocument();
         });
+
+        it('renders cloze-text exercise', () => {
+            const content: ExerciseContent = {
+                type: 'cloze-text',
+                text: 'Der {{1}} bellt, die {{2}} miaut.',
+                blanks: [
+                    { id: 1, correctAnswer: 'Hund' },
+                    { id: 2, correctAnswer: 'Katze', options: ['Katze', 'Kuh'] },
+                ],
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('cloze-text-exercise')).toBeInTheDocument();
+        });
+
+        it('renders number-line exercise', () => {
+            const content: ExerciseContent = {
+                type: 'number-line',
+                mode: 'place',
+                question: 'Wo liegt die 7?',
+                min: 0,
+                max: 10,
+                tickInterval: 1,
+                target: 7,
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('number-line-exercise')).toBeInTheDocument();
+        });
+
+        it('renders clock exercise', () => {
+            const content: ExerciseContent = {
+                type: 'clock',
+                mode: 'read',
+                question: 'Wie spät ist es?',
+                time: '3:30',
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('clock-exercise')).toBeInTheDocument();
+        });
+
+        it('renders listening exercise', () => {
+            const content: ExerciseContent = {
+                type: 'listening',
+                audio: { text: 'der Hund' },
+                options: ['🐶', '🐱'],
+                correctIndex: 0,
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('listening-exercise')).toBeInTheDocument();
+        });
+
+        it('renders hotspot exercise', () => {
+            const content: ExerciseContent = {
+                type: 'hotspot',
+                question: 'Tippe auf den Kopf.',
+                image: { src: 'assets/images/koerper.svg', alt: 'Ein Kind' },
+                width: 200,
+                height: 300,
+                regions: [
+                    { id: 'kopf', label: 'Kopf', shape: 'circle', cx: 100, cy: 40, r: 30 },
+                    { id: 'bauch', label: 'Bauch', shape: 'circle', cx: 100, cy: 130, r: 30 },
+                ],
+                correctRegionIds: ['kopf'],
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('hotspot-exercise')).toBeInTheDocument();
+        });
+
+        it('renders sequence exercise', () => {
+            const content: ExerciseContent = {
+                type: 'sequence',
+                correctOrder: ['Samen einpflanzen', 'Gießen', 'Keimling wächst'],
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('sequence-exercise')).toBeInTheDocument();
+        });
+
+        it('renders memory exercise with the layout seed', () => {
+            const content: ExerciseContent = {
+                type: 'memory',
+                pairs: [
+                    { left: 'Hund', right: 'dog' },
+                    { left: 'Katze', right: 'cat' },
+                ],
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                    seed={20261019}
+                />
+            );
+
+            expect(screen.getByTestId('memory-exercise')).toHaveAttribute('data-seed', '20261019');
+        });
+
+        it('renders crossword exercise', () => {
+            const content: ExerciseContent = {
+                type: 'crossword',
+                words: [
+                    { word: 'Apfel', clue: 'Er wächst am Baum.' },
+                    { word: 'Birne', clue: 'Sie sieht aus wie eine Glühbirne.' },
+                ],
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('crossword-exercise')).toBeInTheDocument();
+        });
+
+        it('renders arithmetic exercise', () => {
+            const content: ExerciseContent = {
+                type: 'arithmetic',
+                mode: 'column',
+                operands: [478, 356],
+                operation: '+',
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('arithmetic-exercise')).toBeInTheDocument();
+        });
+
+        it('renders drawing exercise with the theme palette', () => {
+            const content: ExerciseContent = {
+                type: 'drawing',
+                prompt: 'Male einen Kreis.',
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                    palette={['#ff0000', '#00ff00']}
+                />
+            );
+
+            expect(screen.getByTestId('drawing-exercise')).toHaveTextContent('#ff0000 #00ff00');
+        });
+
+        it('renders note-reading exercise', () => {
+            const content: ExerciseContent = {
+                type: 'note-reading',
+                notation: 'C4/4 E4/4 G4/2',
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('note-reading-exercise')).toBeInTheDocument();
+        });
+
+        it('renders rhythm exercise', () => {
+            const content: ExerciseContent = {
+                type: 'rhythm',
+                notation: 'x/4 x/4 x/8 x/8 x/4',
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('rhythm-exercise')).toBeInTheDocument();
+        });
+
+        it('renders syllables exercise', () => {
+            const content: ExerciseContent = {
+                type: 'syllables',
+                segmentations: ['Ba|na|ne'],
+            };
+
+            render(
+                <ExerciseRenderer
+                    content={content}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            expect(screen.getByTestId('syllables-exercise')).toBeInTheDocument();
+        });
     });
 
     describe('loading state', () => {
@@ -364,6 +672,19 @@ describe('isExerciseTypeSupported', () => {
         expect(isExerciseTypeSupported('connector-insert')).toBe(true);
         expect(isExerciseTypeSupported('word-order')).toBe(true);
         expect(isExerciseTypeSupported('picture-vocabulary')).toBe(true);
+        expect(isExerciseTypeSupported('cloze-text')).toBe(true);
+        expect(isExerciseTypeSupported('number-line')).toBe(true);
+        expect(isExerciseTypeSupported('clock')).toBe(true);
+        expect(isExerciseTypeSupported('listening')).toBe(true);
+        expect(isExerciseTypeSupported('hotspot')).toBe(true);
+        expect(isExerciseTypeSupported('sequence')).toBe(true);
+        expect(isExerciseTypeSupported('memory')).toBe(true);
+        expect(isExerciseTypeSupported('crossword')).toBe(true);
+        expect(isExerciseTypeSupported('arithmetic')).toBe(true);
+        expect(isExerciseTypeSupported('drawing')).toBe(true);
+        expect(isExerciseTypeSupported('note-reading')).toBe(true);
+        expect(isExerciseTypeSupported('rhythm')).toBe(true);
+        expect(isExerciseTypeSupported('syllables')).toBe(true);
     });
 
     it('returns false for unsupported exercise types', () => {
@@ -387,6 +708,19 @@ describe('getSupportedExerciseTypes', () => {
         expect(types).toContain('connector-insert');
         expect(types).toContain('word-order');
         expect(types).toContain('picture-vocabulary');
-        expect(types).toHaveLength(10);
+        expect(types).toContain('cloze-text');
+        expect(types).toContain('number-line');
+        expect(types).toContain('clock');
+        expect(types).toContain('listening');
+        expect(types).toContain('hotspot');
+        expect(types).toContain('sequence');
+        expect(types).toContain('memory');
+        expect(types).toContain('crossword');
+        expect(types).toContain('arithmetic');
+        expect(types).toContain('drawing');
+        expect(types).toContain('note-reading');
+        expect(types).toContain('rhythm');
+        expect(types).toContain('syllables');
+        expect(types).toHaveLength(23);
     });
 });
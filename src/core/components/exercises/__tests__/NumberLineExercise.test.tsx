@@ -0,0 +1,206 @@
+/**
+ * Tests for NumberLineExercise component.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { NumberLineExercise } from '../NumberLineExercise';
+import type { NumberLineContent } from '@/types/exercise';
+
+// Mock window.matchMedia for useAccessibility hook
+Object.defineProperty(window, 'matchMedia', {
+    writable: true,
+    value: vi.fn().mockImplementation((query: string) => ({
+        matches: false,
+        media: query,
+        onchange: null,
+        addListener: vi.fn(),
+        removeListener: vi.fn(),
+        addEventListener: vi.fn(),
+        removeEventListener: vi.fn(),
+        dispatchEvent: vi.fn(),
+    })),
+});
+
+// Mock react-i18next
+vi.mock('react-i18next', () => ({
+    useTranslation: () => ({
+        t: (key: string) => {
+            const translations: Record<string, string> = {
+                'exercises.check': 'Check',
+                'exercises.numberLine.marker': 'Marker',
+                'exercises.numberLine.readLabel': 'Number',
+                'exercises.numberLine.solution': 'Solution',
+            };
+            return translations[key] ?? key;
+        },
+        i18n: { language: 'de' },
+    }),
+}));
+
+describe('NumberLineExercise', () => {
+    const placeContent: NumberLineContent = {
+        type: 'number-line',
+        mode: 'place',
+        question: 'Wo liegt die 7?',
+        min: 0,
+        max: 10,
+        tickInterval: 1,
+        target: 7,
+    };
+
+    const readContent: NumberLineContent = {
+        ...placeContent,
+        mode: 'read',
+        question: 'Welche Zahl ist markiert?',
+        tickInterval: 0.5,
+        target: 2.5,
+    };
+
+    const mockOnSubmit = vi.fn();
+
+    beforeEach(() => {
+        mockOnSubmit.mockClear();
+    });
+
+    describe('placing the marker', () => {
+        it('focuses the marker without a value', () => {
+            render(<NumberLineExercise content={placeContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const marker = screen.getByRole('slider', { name: 'Marker' });
+            expect(marker).toHaveFocus();
+            expect(marker).not.toHaveAttribute('aria-valuenow');
+            expect(screen.getByRole('button', { name: 'Check' })).toBeDisabled();
+        });
+
+        it('moves the marker with the arrow, Home and End keys', () => {
+            render(<NumberLineExercise content={placeContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const marker = screen.getByRole('slider', { name: 'Marker' });
+            fireEvent.keyDown(marker, { key: 'ArrowRight' });
+            expect(marker).toHaveAttribute('aria-valuenow', '0');
+
+            fireEvent.keyDown(marker, { key: 'ArrowRight' });
+            fireEvent.keyDown(marker, { key: 'ArrowUp' });
+            expect(marker).toHaveAttribute('aria-valuenow', '2');
+
+            fireEvent.keyDown(marker, { key: 'End' });
+            fireEvent.keyDown(marker, { key: 'ArrowLeft' });
+            expect(marker).toHaveAttribute('aria-valuenow', '9');
+
+            fireEvent.keyDown(marker, { key: 'Home' });
+            expect(marker).toHaveAttribute('aria-valuenow', '0');
+        });
+
+        it('keeps the marker on the line', () => {
+            render(<NumberLineExercise content={placeContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const marker = screen.getByRole('slider', { name: 'Marker' });
+            fireEvent.keyDown(marker, { key: 'End' });
+            fireEvent.keyDown(marker, { key: 'PageUp' });
+            expect(marker).toHaveAttribute('aria-valuenow', '10');
+
+            fireEvent.keyDown(marker, { key: 'PageDown' });
+            expect(marker).toHaveAttribute('aria-valuenow', '0');
+        });
+
+        it('checks the placed marker with the Enter key', () => {
+            render(<NumberLineExercise content={placeContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const marker = screen.getByRole('slider', { name: 'Marker' });
+            fireEvent.keyDown(marker, { key: 'End' });
+            fireEvent.keyDown(marker, { key: 'ArrowLeft' });
+            fireEvent.keyDown(marker, { key: 'ArrowLeft' });
+            fireEvent.keyDown(marker, { key: 'ArrowDown' });
+            fireEvent.keyDown(marker, { key: 'Enter' });
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(true);
+        });
+
+        it('accepts a position within the tolerance', () => {
+            render(
+                <NumberLineExercise
+                    content={{ ...placeContent, tolerance: 1 }}
+                    onSubmit={mockOnSubmit}
+                    showSolution={false}
+                />
+            );
+
+            const marker = screen.getByRole('slider', { name: 'Marker' });
+            fireEvent.keyDown(marker, { key: 'End' });
+            fireEvent.keyDown(marker, { key: 'ArrowLeft' });
+            fireEvent.keyDown(marker, { key: 'ArrowLeft' });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(true);
+        });
+    });
+
+    describe('retry', () => {
+        it('lets the marker be moved again after a wrong answer', () => {
+            render(<NumberLineExercise content={placeContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const marker = screen.getByRole('slider', { name: 'Marker' });
+            fireEvent.keyDown(marker, { key: 'End' });
+            fireEvent.keyDown(marker, { key: 'Enter' });
+            expect(mockOnSubmit).toHaveBeenLastCalledWith(false);
+
+            fireEvent.keyDown(marker, { key: 'ArrowLeft' });
+            fireEvent.keyDown(marker, { key: 'ArrowLeft' });
+            fireEvent.keyDown(marker, { key: 'ArrowLeft' });
+            fireEvent.keyDown(marker, { key: 'Enter' });
+            expect(mockOnSubmit).toHaveBeenLastCalledWith(true);
+        });
+    });
+
+    describe('reading off the marked number', () => {
+        it('focuses the answer field and hides the line from screen readers', () => {
+            render(<NumberLineExercise content={readContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            expect(screen.getByRole('textbox', { name: 'Number' })).toHaveFocus();
+            expect(screen.queryByRole('slider')).not.toBeInTheDocument();
+            expect(screen.getByTestId('number-line-mark')).toBeInTheDocument();
+        });
+
+        it('accepts a decimal comma and checks with the Enter key', () => {
+            render(<NumberLineExercise content={readContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            const input = screen.getByRole('textbox', { name: 'Number' });
+            fireEvent.change(input, { target: { value: '2,5' } });
+            fireEvent.keyDown(input, { key: 'Enter' });
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(true);
+        });
+
+        it('rejects a wrong number', () => {
+            render(<NumberLineExercise content={readContent} onSubmit={mockOnSubmit} showSolution={false} />);
+
+            fireEvent.change(screen.getByRole('textbox', { name: 'Number' }), { target: { value: '3' } });
+            fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+
+            expect(mockOnSubmit).toHaveBeenCalledWith(false);
+        });
+    });
+
+    describe('solution display', () => {
+        it('shows the correct position and ignores the keyboard', () => {
+            render(<NumberLineExercise content={placeContent} onSubmit={mockOnSubmit} showSolution={true} />);
+
+            const marker = screen.getByRole('slider', { name: 'Marker' });
+            expect(marker).toHaveAttribute('aria-disabled', 'true');
+            expect(screen.getByTestId('number-line-solution')).toBeInTheDocument();
+            expect(screen.getByText('Solution')).toBeInTheDocument();
+
+            fireEvent.keyDown(marker, { key: 'End' });
+            expect(marker).not.toHaveAttribute('aria-valuenow');
+            expect(screen.queryByRole('button', { name: 'Check' })).not.toBeInTheDocument();
+        });
+
+        it('disables the answer field in read mode', () => {
+            render(<NumberLineExercise content={readContent} onSubmit={mockOnSubmit} showSolution={true} />);
+
+            expect(screen.getByRole('textbox', { name: 'Number' })).toBeDisabled();
+            expect(screen.getByText('2,5')).toBeInTheDocument();
+        });
+    });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for read-aloud mode (ReadAloudRegion and ReadAloudButton).
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, act } from '@testing-library/react';
+import { ReadAloudRegion, ReadAloudButton } from '../BaseExercise';
+import { useAppStore } from '@core/stores/appStore';
+
+// Mock react-i18next
+vi.mock('react-i18next', () => ({
+    useTranslation: () => ({
+        t: (key: string, options?: { text?: string }) =>
+            options?.text ? `${key}: ${options.text}` : key,
+    }),
+}));
+
+/**
+ * Utterance mock; the speech mock finishes it right away.
+ */
+class MockUtterance {
+    lang = '';
+    rate = 1;
+    voice: unknown = null;
+    onend: (() => void) | null = null;
+    onerror: ((event: { error: string }) => void) | null = null;
+
+    constructor(public text: string) {}
+}
+
+const spoken: MockUtterance[] = [];
+const speechSynthesisMock = {
+    speak: (utterance: MockUtterance) => {
+        spoken.push(utterance);
+        utterance.onend?.();
+    },
+    cancel: vi.fn(),
+    getVoices: () => [],
+};
+
+function setReadAloud(readAloudEnabled: boolean, locale: 'de' | 'en' = 'de') {
+    act(() => {
+        useAppStore.setState((state) => ({
+            settings: { ...state.settings, readAloudEnabled, locale },
+        }));
+    });
+}
+
+function Options() {
+    return (
+        <div>
+            <div role="radiogroup">
+                <button role="radio" aria-checked={false}>
+                    <span aria-hidden="true">A</span> der Hund
+                </button>
+                <button role="radio" aria-checked={false}>
+                    <span aria-hidden="true">B</span> die Katze
+                </button>
+            </div>
+            <div data-read-aloud-skip>
+                <button role="radio" aria-checked={false}>🐶</button>
+            </div>
+            <div role="status" data-read-aloud="">Achte auf den Artikel.</div>
+        </div>
+    );
+}
+
+describe('read-aloud mode', () => {
+    beforeEach(() => {
+        spoken.length = 0;
+        vi.stubGlobal('SpeechSynthesisUtterance', MockUtterance);
+        vi.stubGlobal('speechSynthesis', speechSynthesisMock);
+    });
+
+    afterEach(() => {
+        setReadAloud(false);
+        vi.unstubAllGlobals();
+    });
+
+    it('adds no buttons while read-aloud mode is off', () => {
+        setReadAloud(false);
+        render(<ReadAloudRegion><Options /></ReadAloudRegion>);
+
+        expect(screen.queryByRole('button', { name: /exercises.readAloud/ })).toBeNull();
+    });
+
+    it('adds a button for each option and hint', () => {
+        setReadAloud(true);
+        render(<ReadAloudRegion><Options /></ReadAloudRegion>);
+
+        const labels = screen.getAllByRole('button', { name: /exercises.readAloud/ })
+            .map((button) => button.getAttribute('aria-label'));
+        expect(labels).toEqual([
+            'exercises.readAloud: der Hund',
+            'exercises.readAloud: die Katze',
+            'exercises.readAloud: Achte auf den Artikel.',
+        ]);
+    });
+
+    it('reads the text with the locale voice', async () => {
+        setReadAloud(true, 'en');
+        render(<ReadAloudButton text="Choose the right word" />);
+
+        await act(async () => {
+            fireEvent.click(screen.getByRole('button', { name: 'exercises.readAloud: Choose the right word' }));
+        });
+        expect(spoken[0]).toMatchObject({ text: 'Choose the right word', lang: 'en-GB' });
+    });
+});
@@ -4,7 +4,20 @@ export type { ExerciseProps, ExerciseRendererProps } from './ExerciseRenderer';
 
 export { HintButton } from './HintButton';
 
-export { ExerciseWrapper, useExerciseState, useExerciseFocus, calculateStars } from './BaseExercise';
+export { AudioButton } from './AudioButton';
+export type { AudioButtonProps } from './AudioButton';
+export { AssetImage } from './AssetImage';
+export type { AssetImageProps } from './AssetImage';
+
+export {
+    ExerciseWrapper,
+    useExerciseState,
+    useExerciseFocus,
+    calculateStars,
+    useReadAloud,
+    ReadAloudButton,
+    ReadAloudRegion,
+} from './BaseExercise';
 export type { BaseExerciseProps, ExerciseWrapperProps } from './BaseExercise';
 
 // Exercise page components
@@ -29,3 +42,20 @@ export { ConjugationTableExercise } from './ConjugationTableExercise';
 export { ConnectorInsertExercise } from './ConnectorInsertExercise';
 export { WordOrderExercise } from './WordOrderExercise';
 export { PictureVocabularyExercise } from './PictureVocabularyExercise';
+export { ClozeTextExercise } from './ClozeTextExercise';
+export { NumberLineExercise } from './NumberLineExercise';
+export { ClockExercise } from './ClockExercise';
+export { ListeningExercise } from './ListeningExercise';
+export { HotspotExercise } from './HotspotExercise';
+export { SequenceExercise } from './SequenceExercise';
+export { MemoryExercise } from './MemoryExercise';
+export { CrosswordExercise } from './CrosswordExercise';
+export { ArithmeticExercise } from './ArithmeticExercise';
+export { DrawingExercise } from './DrawingExercise';
+export { NoteReadingExercise } from './NoteReadingExercise';
+export { RhythmExercise } from './RhythmExercise';
+export { SyllablesExercise } from './SyllablesExercise';
+export { MusicStaff, NotationPlayButton } from './MusicStaff';
+export type { MusicStaffProps, NotationPlayButtonProps } from './MusicStaff';
+export { NumericKeypad } from './NumericKeypad';
+export type { NumericKeypadProps } from './NumericKeypad';
@@ -7,6 +7,7 @@
 import { useTranslation } from 'react-i18next';
 import { solutionStateStyles } from '@/core/utils/exerciseStyles';
 import { DraggableItem } from './DraggableItem';
+import type { ExerciseImage } from '@/types/exercise';
 import type { DragData } from './useCategorySort';
 
 // ============================================================================
@@ -20,6 +21,8 @@ export interface CategoryBucketProps {
     label: string;
     /** Items currently in this bucket */
     items: string[];
+    /** Pictures for items, keyed by item text */
+    images?: Record<string, ExerciseImage> | undefined;
     /** Whether this bucket is currently being dragged over */
     isDragOver?: boolean;
     /** Whether the exercise is in solution mode */
@@ -77,6 +80,7 @@ export function CategoryBucket({
     categoryIndex,
     label,
     items,
+    images,
     isDragOver = false,
     showSolution = false,
     results,
@@ -152,6 +156,7 @@ export function CategoryBucket({
                             <DraggableItem
                                 key={`bucket-${categoryIndex}-${idx}`}
                                 item={item}
+                                image={images?.[item]}
                                 source={categoryIndex}
                                 isSelected={selectedItem === item}
                                 isDragging={draggingItem === item}
@@ -6,6 +6,8 @@
 
 import { useTranslation } from 'react-i18next';
 import { solutionStateStyles } from '@/core/utils/exerciseStyles';
+import { AssetImage } from '../AssetImage';
+import type { ExerciseImage } from '@/types/exercise';
 import type { DragData } from './useCategorySort';
 
 // ============================================================================
@@ -15,6 +17,8 @@ import type { DragData } from './useCategorySort';
 export interface DraggableItemProps {
     /** Item text content */
     item: string;
+    /** Optional picture shown above the text */
+    image?: ExerciseImage | undefined;
     /** Whether this item is currently selected (tap mode) */
     isSelected?: boolean;
     /** Whether this item is currently being dragged */
@@ -59,6 +63,7 @@ export interface DraggableItemProps {
  */
 export function DraggableItem({
     item,
+    image,
     isSelected = false,
     isDragging = false,
     disabled = false,
@@ -125,6 +130,7 @@ export function DraggableItem({
             aria-disabled={disabled}
             className={getStyles()}
         >
+            {image && <AssetImage image={image} size="sm" className="block mx-auto mb-1 pointer-events-none" />}
             {item}
             {disabled && isCorrect !== null && (
                 <span className="ml-2" aria-hidden="true">
@@ -7,6 +7,7 @@
 import { useTranslation } from 'react-i18next';
 import { solutionStateStyles } from '@/core/utils/exerciseStyles';
 import { DraggableItem } from './DraggableItem';
+import type { ExerciseImage } from '@/types/exercise';
 import type { DragData } from './useCategorySort';
 
 // ============================================================================
@@ -16,6 +17,8 @@ import type { DragData } from './useCategorySort';
 export interface ItemPoolProps {
     /** Items currently in the pool */
     items: string[];
+    /** Pictures for items, keyed by item text */
+    images?: Record<string, ExerciseImage> | undefined;
     /** Whether the pool is being dragged over */
     isDragOver?: boolean;
     /** Currently selected item (for tap mode) */
@@ -65,6 +68,7 @@ export interface ItemPoolProps {
  */
 export function ItemPool({
     items,
+    images,
     isDragOver = false,
     selectedItem,
     draggingItem,
@@ -121,6 +125,7 @@ export function ItemPool({
                         <DraggableItem
                             key={`pool-${idx}`}
                             item={item}
+                            image={images?.[item]}
                             source="pool"
                             isSelected={selectedItem === item}
                             isDragging={draggingItem === item}
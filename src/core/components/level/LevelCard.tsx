@@ -52,8 +52,32 @@ export const LEVEL_CONFIG = {
         descriptionKey: 'level.advancedDesc',
         defaultDescription: 'Komplexe Übungen für Experten',
     },
+    5: {
+        emoji: 'star',
+        emojiChar: '⭐',
+        labelKey: 'level.expert',
+        defaultLabel: 'Experte',
+        color: '#E91E63', // Pink
+        descriptionKey: 'level.expertDesc',
+        defaultDescription: 'Knifflige Übungen für Profis',
+    },
+    6: {
+        emoji: 'crown',
+        emojiChar: '👑',
+        labelKey: 'level.master',
+        defaultLabel: 'Meister',
+        color: '#795548', // Brown
+        descriptionKey: 'level.masterDesc',
+        defaultDescription: 'Die schwierigsten Übungen',
+    },
 } as const;
 
+/**
+ * Highest level with its own configuration. Higher levels
+ * (possible with a configured level count) reuse its look.
+ */
+const HIGHEST_CONFIGURED_LEVEL = 6;
+
 /**
  * Level emojis for display.
  */
@@ -62,6 +86,8 @@ export const LEVEL_EMOJIS: Record<number, string> = {
     2: '🌿',
     3: '🌳',
     4: '🏆',
+    5: '⭐',
+    6: '👑',
 };
 
 // ============================================================================
@@ -69,7 +95,7 @@ export const LEVEL_EMOJIS: Record<number, string> = {
 // ============================================================================
 
 export interface LevelCardProps {
-    /** Level number (1-4) */
+    /** Level number (1 to the configured level count) */
     level: number;
     /** Total exercises available at this level */
     exerciseCount: number;
@@ -102,8 +128,9 @@ export function LevelCard({
     const { t } = useTranslation();
 
     // Get level configuration
-    const config = LEVEL_CONFIG[level as keyof typeof LEVEL_CONFIG] ?? LEVEL_CONFIG[1];
-    const emoji = LEVEL_EMOJIS[level] ?? '🌱';
+    const config = LEVEL_CONFIG[level as keyof typeof LEVEL_CONFIG]
+        ?? LEVEL_CONFIG[level > HIGHEST_CONFIGURED_LEVEL ? HIGHEST_CONFIGURED_LEVEL : 1];
+    const emoji = LEVEL_EMOJIS[level] ?? config.emojiChar;
 
     // Calculate completion percentage
     const completionPercent = exerciseCount > 0
@@ -23,6 +23,7 @@ import type {
     GamificationConfig,
     AccessibilityDefaults,
     Exercise,
+    LevelProgressionConfig,
 } from '@/types';
 import {
     loadGamificationConfig,
@@ -231,6 +232,7 @@ export function ConfigProvider({
             defaultHighContrast: false,
             defaultAnimationsEnabled: true,
             defaultSoundEnabled: true,
+            defaultReadAloudEnabled: false,
         };
     }, [state.config]);
 
@@ -392,6 +394,15 @@ export function useGamification(): GamificationConfig {
     return getGamification();
 }
 
+/**
+ * Hook to get the level progression of the subject.
+ * 
+ * @returns Level progression configuration, or undefined for the defaults
+ */
+export function useLevelProgression(): LevelProgressionConfig | undefined {
+    return useSubject()?.levelProgression;
+}
+
 /**
  * Hook to get accessibility defaults.
  * 
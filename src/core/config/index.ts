@@ -44,6 +44,7 @@ export {
     useTheme,
     useBadges,
     useGamification,
+    useLevelProgression,
     useAccessibilityDefaults,
     useExercises,
     useExercisesByTheme,
@@ -16,6 +16,7 @@ import type {
     TrainerConfig,
     GamificationConfig,
     AccessibilityDefaults,
+    LevelProgressionConfig,
     ValidationError,
     ValidationWarning,
     Exercise,
@@ -26,6 +27,7 @@ import {
     validateThemes,
     validateBadges,
 } from './validation';
+import { badgeTypeToExpression } from '@core/utils/badgeExpression';
 
 // ============================================================================
 // App Configuration Type
@@ -54,6 +56,8 @@ export interface AppConfig {
         exercise: string;
         exercisePlural: string;
     };
+    /** Level progression; overrides the settings of subject.json */
+    levelProgression?: LevelProgressionConfig;
 }
 
 // ============================================================================
@@ -98,13 +102,14 @@ const DEFAULT_GAMIFICATION: GamificationConfig = {
 
 /**
  * Default accessibility configuration.
- * Applied to new user profiles.
+ * Overridden per app by subject.json "accessibility".
  */
 const DEFAULT_ACCESSIBILITY: AccessibilityDefaults = {
     defaultFontSize: 'normal',
     defaultHighContrast: false,
     defaultAnimationsEnabled: true,
     defaultSoundEnabled: true,
+    defaultReadAloudEnabled: false,
 };
 
 // ============================================================================
@@ -189,6 +194,18 @@ export async function loadAppConfig(): Promise<AppConfig> {
     return getDefaultAppConfig(appId);
 }
 
+/**
+ * Apply the level progression of app.json over the one of subject.json.
+ * Settings missing in app.json are taken from subject.json.
+ */
+export function applyAppLevelProgression(subject: SubjectConfig, appConfig: Pick<AppConfig, 'levelProgression'>): SubjectConfig {
+    if (!appConfig.levelProgression) return subject;
+    return {
+        ...subject,
+        levelProgression: { ...subject.levelProgression, ...appConfig.levelProgression },
+    };
+}
+
 /**
  * Get default app config for known apps.
  */
@@ -373,18 +390,26 @@ async function loadExercisesJson(_appId: string, useFallback = true): Promise<Ex
 
 /**
  * Transform badge data from JSON format to BadgeDefinition[].
+ * An explicit `checkExpression` wins; otherwise the expression is built
+ * from `type` and `threshold`. Badges without either are checked by ID.
  * 
  * @param badgesData - The raw badges data from JSON
  * @returns Transformed badge definitions
  */
 function transformBadges(badgesData: {
-    badges: Array<{ badge: BadgeDefinition['badge']; type: string; threshold: number }>;
+    badges: Array<{ badge: BadgeDefinition['badge']; type?: string; threshold?: number; checkExpression?: string }>;
     gamification?: Partial<GamificationConfig>;
 }): BadgeDefinition[] {
-    return badgesData.badges.map((item) => ({
-        badge: item.badge,
-        checkExpression: `${item.type}:${item.threshold}`,
-    }));
+    return badgesData.badges.map((item) => {
+        const checkExpression = item.checkExpression
+            ?? (item.type !== undefined && item.threshold !== undefined
+                ? badgeTypeToExpression(item.type, item.threshold)
+                : undefined);
+        return {
+            badge: item.badge,
+            ...(checkExpression ? { checkExpression } : {}),
+        };
+    });
 }
 
 // ============================================================================
@@ -495,8 +520,11 @@ async function loadAndCacheAllConfig(): Promise<{
 }> {
     const appId = getAppId();
 
-    // Load subject config
-    const subjectJson = await loadConfigJson<SubjectConfig>('subject.json', appId);
+    // Load subject config; the level progression may be overridden in app.json
+    const subjectJson = applyAppLevelProgression(
+        await loadConfigJson<SubjectConfig>('subject.json', appId),
+        await loadAppConfig()
+    );
     const subjectResult = validateSubjectConfig(subjectJson);
     if (!subjectResult.valid) {
         const errorMessages = subjectResult.errors
@@ -597,7 +625,7 @@ export async function loadFullConfig(): Promise<TrainerConfig> {
         supportedLocales: ['de', 'en'],
         defaultLocale: 'de',
         gamification,
-        accessibility: DEFAULT_ACCESSIBILITY,
+        accessibility: { ...DEFAULT_ACCESSIBILITY, ...subject.accessibility },
     };
 }
 
@@ -640,7 +668,7 @@ export function loadFullConfigSync(): TrainerConfig {
         supportedLocales: ['de', 'en'],
         defaultLocale: 'de',
         gamification,
-        accessibility: DEFAULT_ACCESSIBILITY,
+        accessibility: { ...DEFAULT_ACCESSIBILITY, ...subject.accessibility },
     };
 }
 
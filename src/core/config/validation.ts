@@ -10,6 +10,13 @@ import type {
     ValidationWarning,
     ValidationResult,
 } from '@/types';
+import { getBadgeTypeIdentifier, validateBadgeExpression } from '@core/utils/badgeExpression';
+import { validateScoringCondition } from '@core/utils/starCalculation';
+
+/**
+ * Badge types that are checked by their badge ID (theme_complete_<id>, area_mastery_<id>).
+ */
+const ID_CHECKED_BADGE_TYPES = ['theme_completion', 'area_mastery'];
 
 // ============================================================================
 // Validation Helpers
@@ -68,6 +75,39 @@ const VALID_EXERCISE_TYPES = [
     'connector-insert',
     'word-order',
     'picture-vocabulary',
+    'cloze-text',
+    'number-line',
+    'clock',
+    'listening',
+    'hotspot',
+    'sequence',
+    'memory',
+    'crossword',
+    'arithmetic',
+    'drawing',
+    'note-reading',
+    'rhythm',
+    'syllables',
+] as const;
+
+/**
+ * Valid unlock rules for the level progression.
+ */
+const VALID_UNLOCK_RULES = ['all-themes', 'per-theme', 'percentage'] as const;
+
+/**
+ * Valid default font sizes for the accessibility defaults.
+ */
+const VALID_FONT_SIZES = ['normal', 'large', 'extra-large'] as const;
+
+/**
+ * Boolean accessibility defaults.
+ */
+const ACCESSIBILITY_FLAGS = [
+    'defaultHighContrast',
+    'defaultAnimationsEnabled',
+    'defaultSoundEnabled',
+    'defaultReadAloudEnabled',
 ] as const;
 
 /**
@@ -129,6 +169,77 @@ export function validateSubjectConfig(config: unknown): ValidationResult {
     // Exercise type config (optional)
     if (config.exerciseTypeConfig !== undefined && !isObject(config.exerciseTypeConfig)) {
         errors.push(error('INVALID_EXERCISE_CONFIG', 'Exercise type config must be an object', 'exerciseTypeConfig'));
+    } else if (isObject(config.exerciseTypeConfig)) {
+        for (const [type, typeConfig] of Object.entries(config.exerciseTypeConfig)) {
+            const path = `exerciseTypeConfig.${type}`;
+            if (!isObject(typeConfig)) {
+                errors.push(error('INVALID_EXERCISE_CONFIG', `Config for ${type} must be an object`, path));
+                continue;
+            }
+            // 0 allows unlimited attempts
+            if (typeConfig.maxAttempts !== undefined &&
+                !(Number.isInteger(typeConfig.maxAttempts) && (typeConfig.maxAttempts as number) >= 0)) {
+                errors.push(error('INVALID_MAX_ATTEMPTS', `maxAttempts for ${type} must be a whole number (0 = unlimited)`, `${path}.maxAttempts`));
+            }
+            if (typeConfig.hintsEnabled !== undefined && typeof typeConfig.hintsEnabled !== 'boolean') {
+                errors.push(error('INVALID_HINTS_ENABLED', `hintsEnabled for ${type} must be a boolean`, `${path}.hintsEnabled`));
+            }
+            if (typeConfig.scoring !== undefined && !Array.isArray(typeConfig.scoring)) {
+                errors.push(error('INVALID_SCORING_RULES', `scoring for ${type} must be an array of rules`, `${path}.scoring`));
+            } else if (Array.isArray(typeConfig.scoring)) {
+                typeConfig.scoring.forEach((rule: unknown, index: number) => {
+                    const rulePath = `${path}.scoring[${index}]`;
+                    if (!isObject(rule) || typeof rule.condition !== 'string') {
+                        errors.push(error('INVALID_SCORING_CONDITION', `Scoring rule ${index} for ${type} needs a condition`, `${rulePath}.condition`));
+                        return;
+                    }
+                    for (const message of validateScoringCondition(rule.condition)) {
+                        errors.push(error('INVALID_SCORING_CONDITION', `Scoring rule ${index} for ${type}: ${message}`, `${rulePath}.condition`));
+                    }
+                });
+            }
+        }
+    }
+
+    // Level progression (optional)
+    if (config.levelProgression !== undefined && !isObject(config.levelProgression)) {
+        errors.push(error('INVALID_LEVEL_PROGRESSION', 'Level progression must be an object', 'levelProgression'));
+    } else if (isObject(config.levelProgression)) {
+        const { levelCount, unlockRule, unlockPercentage } = config.levelProgression;
+        if (levelCount !== undefined && !(Number.isInteger(levelCount) && (levelCount as number) >= 1)) {
+            errors.push(error('INVALID_LEVEL_COUNT', 'levelCount must be a whole number of at least 1', 'levelProgression.levelCount'));
+        }
+        if (unlockRule !== undefined && !VALID_UNLOCK_RULES.includes(unlockRule as typeof VALID_UNLOCK_RULES[number])) {
+            errors.push(error(
+                'INVALID_UNLOCK_RULE',
+                `unlockRule must be one of: ${VALID_UNLOCK_RULES.join(', ')}`,
+                'levelProgression.unlockRule'
+            ));
+        }
+        if (unlockPercentage !== undefined &&
+            !(typeof unlockPercentage === 'number' && unlockPercentage > 0 && unlockPercentage <= 100)) {
+            errors.push(error('INVALID_UNLOCK_PERCENTAGE', 'unlockPercentage must be a number between 1 and 100', 'levelProgression.unlockPercentage'));
+        }
+    }
+
+    // Accessibility defaults (optional)
+    if (config.accessibility !== undefined && !isObject(config.accessibility)) {
+        errors.push(error('INVALID_ACCESSIBILITY', 'Accessibility defaults must be an object', 'accessibility'));
+    } else if (isObject(config.accessibility)) {
+        const accessibility = config.accessibility;
+        if (accessibility.defaultFontSize !== undefined &&
+            !VALID_FONT_SIZES.includes(accessibility.defaultFontSize as typeof VALID_FONT_SIZES[number])) {
+            errors.push(error(
+                'INVALID_FONT_SIZE',
+                `defaultFontSize must be one of: ${VALID_FONT_SIZES.join(', ')}`,
+                'accessibility.defaultFontSize'
+            ));
+        }
+        for (const flag of ACCESSIBILITY_FLAGS) {
+            if (accessibility[flag] !== undefined && typeof accessibility[flag] !== 'boolean') {
+                errors.push(error('INVALID_ACCESSIBILITY', `${flag} must be a boolean`, `accessibility.${flag}`));
+            }
+        }
     }
 
     return {
@@ -305,6 +416,12 @@ export function validateThemes(themes: unknown): ValidationResult {
             }
         }
 
+        if (theme.palette !== undefined && !(
+            Array.isArray(theme.palette) && theme.palette.length > 0 && theme.palette.every(isNonEmptyString)
+        )) {
+            warnings.push(warning('INVALID_PALETTE', `Theme ${theme.id ?? index} palette must be a list of colors`, `${path}.palette`));
+        }
+
         if (!isNonEmptyString(theme.description)) {
             warnings.push(warning('MISSING_DESCRIPTION', `Theme ${theme.id ?? index} is missing description`, `${path}.description`));
         }
@@ -393,9 +510,23 @@ export function validateBadges(badges: unknown): ValidationResult {
             warnings.push(warning('MISSING_BADGE_ICON', `Badge ${badge.id ?? index} is missing icon`, `${path}.badge.icon`));
         }
 
+        // An explicit condition expression replaces type and threshold
+        if (badgeItem.checkExpression !== undefined) {
+            if (typeof badgeItem.checkExpression !== 'string') {
+                errors.push(error('INVALID_CHECK_EXPRESSION', `Badge ${badge.id ?? index} checkExpression must be a string`, `${path}.checkExpression`));
+            } else {
+                for (const message of validateBadgeExpression(badgeItem.checkExpression)) {
+                    errors.push(error('INVALID_CHECK_EXPRESSION', `Badge ${badge.id ?? index}: ${message}`, `${path}.checkExpression`));
+                }
+            }
+            return;
+        }
+
         // Check type and threshold
         if (!isNonEmptyString(badgeItem.type)) {
             warnings.push(warning('MISSING_BADGE_TYPE', `Badge ${badge.id ?? index} is missing type`, `${path}.type`));
+        } else if (!getBadgeTypeIdentifier(badgeItem.type) && !ID_CHECKED_BADGE_TYPES.includes(badgeItem.type)) {
+            warnings.push(warning('UNKNOWN_BADGE_TYPE', `Badge ${badge.id ?? index} has unknown type "${badgeItem.type}" and can only be earned by its ID`, `${path}.type`));
         }
 
         if (typeof badgeItem.threshold !== 'number') {
@@ -410,6 +541,12 @@ export function validateBadges(badges: unknown): ValidationResult {
         if (!isObject(gamification)) {
             errors.push(error('INVALID_GAMIFICATION', 'Gamification config must be an object', 'gamification'));
         } else {
+            // Validate star strategy
+            if (gamification.starStrategy !== undefined &&
+                !['attempts', 'time', 'custom'].includes(gamification.starStrategy as string)) {
+                errors.push(error('INVALID_STAR_STRATEGY', 'Star strategy must be attempts, time or custom', 'gamification.starStrategy'));
+            }
+
             // Validate level thresholds
             if (gamification.levelThresholds !== undefined) {
                 if (!isArray(gamification.levelThresholds)) {
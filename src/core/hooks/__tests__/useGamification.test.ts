@@ -98,6 +98,9 @@ vi.mock('@core/storage', () => ({
     getExerciseResultsByArea: vi.fn(async (areaId: string) => {
         return mockExerciseResults.filter(result => result.areaId === areaId);
     }),
+    getExerciseResultsByProfile: vi.fn(async (profileId: string) => {
+        return mockExerciseResults.filter(result => result.childProfileId === profileId);
+    }),
 }));
 
 describe('useGamification', () => {
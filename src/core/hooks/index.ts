@@ -23,6 +23,7 @@ export {
 } from './useGamification';
 export type {
     ExerciseCompletionResult,
+    ExerciseScoringContext,
     GamificationState,
     GamificationActions,
     GamificationNotifications,
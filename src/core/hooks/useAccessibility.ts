@@ -55,6 +55,10 @@ interface UseAccessibilityReturn {
     animationsEnabled: boolean;
     /** Whether sound is enabled */
     soundEnabled: boolean;
+    /** Whether read-aloud mode is enabled */
+    readAloudEnabled: boolean;
+    /** Whether the instruction is read aloud on load */
+    autoReadAloud: boolean;
     /** System accessibility preferences */
     systemPreferences: SystemPreferences;
     /** Announce a message to screen readers */
@@ -65,6 +69,10 @@ interface UseAccessibilityReturn {
     toggleAnimations: () => void;
     /** Toggle sound */
     toggleSound: () => void;
+    /** Toggle read-aloud mode */
+    toggleReadAloud: () => void;
+    /** Toggle reading the instruction aloud on load */
+    toggleAutoReadAloud: () => void;
     /** Set font size */
     setFontSize: (size: FontSize) => void;
     /** Focus an element by selector or ref */
@@ -100,6 +108,8 @@ export function useAccessibility(): UseAccessibilityReturn {
         toggleHighContrast,
         toggleAnimations,
         toggleSound,
+        toggleReadAloud,
+        toggleAutoReadAloud,
         setFontSize,
     } = useAppStore();
 
@@ -150,11 +160,15 @@ export function useAccessibility(): UseAccessibilityReturn {
         highContrastMode: settings.highContrastMode,
         animationsEnabled: settings.animationsEnabled,
         soundEnabled: settings.soundEnabled,
+        readAloudEnabled: settings.readAloudEnabled,
+        autoReadAloud: settings.autoReadAloud,
         systemPreferences: systemPreferencesRef.current,
         announce,
         toggleHighContrast,
         toggleAnimations,
         toggleSound,
+        toggleReadAloud,
+        toggleAutoReadAloud,
         setFontSize,
         focusElement,
     };
@@ -7,7 +7,9 @@
  * session functionality including:
  * - URL parameter handling (themeId, areaId, level)
  * - Exercise filtering and selection
- * - Daily challenge deterministic selection
+ * - Daily challenge rounds (deterministic selection, completion record)
+ * - Review sessions (exercises due by the spaced repetition schedule)
+ * - Exercise templates (fresh numbers for every session)
  * - Access control (level accessibility)
  * - Answer submission handling
  * - Exercise progression and session completion
@@ -25,96 +27,49 @@
 
 import { useParams, useNavigate } from 'react-router-dom';
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
 import { ROUTES } from '@core/router';
-import { useExercisesByTheme, useExercisesByArea, useExercises, useTheme, useThemes } from '@core/config';
+import {
+    useExercisesByTheme,
+    useExercisesByArea,
+    useExercises,
+    useTheme,
+    useThemes,
+    useSubject,
+    useBadges,
+    useLevelProgression,
+    useGamification as useGamificationConfig,
+} from '@core/config';
 import { useExerciseStore, selectCurrentExercise, selectProgress, selectIsSessionActive } from '@core/stores';
 import { MAX_ATTEMPTS_PER_EXERCISE } from '@core/stores/exerciseStore';
 import { useProfileStore, selectThemeLevels } from '@core/stores/profileStore';
 import { useAppStore } from '@core/stores/appStore';
 import { useGamification } from '@core/hooks/useGamification';
 import { playCorrect, playIncorrect } from '@core/utils/sounds';
-import { hasExerciseBeenCompleted, getExerciseResultsByTheme } from '@core/storage';
+import {
+    hasExerciseBeenCompleted,
+    getExerciseResultsByTheme,
+    getDailyChallengeRecord,
+    getDailyChallengeRecordId,
+    saveDailyChallengeRecord,
+    getReviewStatesByProfile,
+    updateReviewStates,
+} from '@core/storage';
 import { isLevelAccessible } from '@core/utils/gamification';
+import { DEFAULT_BADGES } from '@core/utils/badges';
+import {
+    getDailyChallengeExercises,
+    getDailyChallengeRound,
+    getDailyChallengeRoundSeed,
+    getDailyChallengeDateKey,
+    calculateDailyChallengeStars,
+} from '@core/utils/dailyChallenge';
+import { getDueReviewExercises, REVIEW_THEME_ID } from '@core/utils/spacedRepetition';
+import { getExpectedTimeSeconds, type StarScoringConfig } from '@core/utils/starCalculation';
+import { areHintsEnabled, getMaxAttempts } from '@core/utils/exerciseTypeConfig';
+import { createTemplateSessionSeed, expandExerciseTemplates } from '@core/utils/exerciseTemplate';
 import type { Exercise } from '@/types';
 
-// ============================================================================
-// Daily Challenge Helper Functions
-// ============================================================================
-
-/**
- * Deterministic pseudo-random number generator based on seed.
- * Uses a simple linear congruential generator.
- */
-function createSeededRandom(seed: number): () => number {
-    let currentSeed = seed;
-    return () => {
-        currentSeed = (currentSeed * 1103515245 + 12345) & 0x7fffffff;
-        return currentSeed / 0x7fffffff;
-    };
-}
-
-/**
- * Fisher-Yates shuffle using a seeded random number generator.
- */
-function shuffleArray<T>(array: T[], random: () => number): T[] {
-    const result = [...array];
-    for (let i = result.length - 1; i > 0; i--) {
-        const j = Math.floor(random() * (i + 1));
-        // Swap elements
-        const temp = result[i]!;
-        result[i] = result[j]!;
-        result[j] = temp;
-    }
-    return result;
-}
-
-/**
- * Get exercises for the daily challenge using deterministic selection based on current date.
- * Returns exactly 5 exercises from different themes (or fewer if not enough available).
- * 
- * Algorithm:
- * 1. Use current date as seed for deterministic selection
- * 2. Group exercises by themeId
- * 3. Shuffle themes deterministically
- * 4. Select one random exercise from each of the first 5 themes
- */
-function getDailyChallengeExercises(exercises: Exercise[]): Exercise[] {
-    // Get current date as seed (year * 10000 + month * 100 + day)
-    const today = new Date();
-    const dateSeed = today.getFullYear() * 10000 + (today.getMonth() + 1) * 100 + today.getDate();
-    const random = createSeededRandom(dateSeed);
-
-    // Group exercises by themeId
-    const exercisesByTheme = new Map<string, Exercise[]>();
-    for (const exercise of exercises) {
-        const themeExercises = exercisesByTheme.get(exercise.themeId) || [];
-        themeExercises.push(exercise);
-        exercisesByTheme.set(exercise.themeId, themeExercises);
-    }
-
-    // Get all unique themes and shuffle them deterministically
-    const themes = shuffleArray(Array.from(exercisesByTheme.keys()), random);
-
-    // Select exercises from different themes
-    const selectedExercises: Exercise[] = [];
-
-    for (const theme of themes) {
-        if (selectedExercises.length >= 5) break;
-
-        const themeExercises = exercisesByTheme.get(theme);
-        if (!themeExercises || themeExercises.length === 0) continue;
-
-        // Shuffle exercises within this theme and pick the first one
-        const shuffledExercises = shuffleArray(themeExercises, random);
-        const firstExercise = shuffledExercises[0];
-        if (firstExercise !== undefined) {
-            selectedExercises.push(firstExercise);
-        }
-    }
-
-    return selectedExercises;
-}
-
 // ============================================================================
 // Types
 // ============================================================================
@@ -135,6 +90,12 @@ export interface UseExercisePageStateReturn {
     levelFailed: boolean;
     hasAnswered: boolean;
     answer: ReturnType<typeof useExerciseStore.getState>['answer'];
+    /** Attempt limit of the current exercise type (Infinity if unlimited) */
+    maxAttempts: number;
+    /** Whether hints are shown for the current exercise type */
+    hintsEnabled: boolean;
+    /** Seed for card layouts in the daily challenge (random layouts otherwise) */
+    shuffleSeed: number | undefined;
 
     // Gamification
     notifications: ReturnType<typeof useGamification>['notifications'];
@@ -142,7 +103,7 @@ export interface UseExercisePageStateReturn {
     clearLevelUp: () => void;
 
     // Handlers
-    handleSubmit: (correct: boolean) => void;
+    handleSubmit: (correct: boolean, accuracy?: number, drawing?: string) => void;
     handleNext: () => Promise<void>;
     handleShowSolution: () => void;
     handleRestartLevel: () => void;
@@ -157,24 +118,56 @@ export interface UseExercisePageStateReturn {
 export function useExercisePageState(): UseExercisePageStateReturn {
     const { themeId, areaId, level } = useParams<{ themeId: string; areaId?: string; level?: string }>();
     const navigate = useNavigate();
+    const { i18n } = useTranslation();
 
     // Get theme info for display
     const theme = useTheme(themeId ?? '');
     const allThemes = useThemes();
+    const levelProgression = useLevelProgression();
 
     // Get exercises based on theme/area filters
     const allExercises = useExercises();
     const exercisesByTheme = useExercisesByTheme(themeId ?? 'default');
     const exercisesByArea = useExercisesByArea(areaId ?? '');
 
-    // Determine if this is the daily challenge
-    const isDailyChallenge = themeId === 'daily';
+    // Determine if this is the daily challenge (daily or bonus round)
+    const dailyRound = getDailyChallengeRound(themeId);
+    const isDailyChallenge = dailyRound !== null;
+
+    // Determine if this is a review session
+    const isReview = themeId === REVIEW_THEME_ID;
+    const activeProfileId = useProfileStore((s) => s.activeProfile?.id);
+    const [reviewExercises, setReviewExercises] = useState<Exercise[]>([]);
+
+    // Load the exercises due for review
+    useEffect(() => {
+        if (!isReview || !activeProfileId) return;
+
+        let cancelled = false;
+        getReviewStatesByProfile(activeProfileId)
+            .then((states) => {
+                if (!cancelled) {
+                    setReviewExercises(getDueReviewExercises(states, allExercises));
+                }
+            })
+            .catch((error) => {
+                console.error('Failed to load review schedule:', error);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [isReview, activeProfileId, allExercises]);
 
     // Determine which exercises to use
     const baseExercises = useMemo(() => {
-        if (isDailyChallenge) {
+        if (dailyRound) {
             // Get exercises from different themes using deterministic selection based on date
-            return getDailyChallengeExercises(allExercises);
+            return getDailyChallengeExercises(allExercises, dailyRound);
+        }
+
+        if (isReview) {
+            return reviewExercises;
         }
 
         if (areaId) {
@@ -186,12 +179,23 @@ export function useExercisePageState(): UseExercisePageStateReturn {
         }
 
         return exercisesByTheme;
-    }, [isDailyChallenge, allExercises, areaId, exercisesByArea, themeId, exercisesByTheme]);
-
-    // Filter by level if specified
-    const exercises: Exercise[] = level
-        ? baseExercises.filter((e) => e.level === Number(level))
-        : baseExercises;
+    }, [dailyRound, isReview, reviewExercises, allExercises, areaId, exercisesByArea, themeId, exercisesByTheme]);
+
+    // Templates get fresh numbers every session (the same numbers all day in the daily challenge)
+    const sessionSeed = useMemo(
+        () => (dailyRound ? getDailyChallengeRoundSeed(dailyRound) : createTemplateSessionSeed()),
+        // A new theme or level starts a new session
+        [dailyRound, themeId, level]
+    );
+
+    // Filter by level if specified and expand templates into the exercises played;
+    // templates that cannot be expanded are left out
+    const exercises: Exercise[] = useMemo(() => {
+        const levelExercises = level
+            ? baseExercises.filter((e) => e.level === Number(level))
+            : baseExercises;
+        return expandExerciseTemplates(levelExercises, sessionSeed, i18n.language);
+    }, [baseExercises, level, sessionSeed, i18n.language]);
 
     // Exercise store actions and state
     const startSession = useExerciseStore((s) => s.startSession);
@@ -215,13 +219,28 @@ export function useExercisePageState(): UseExercisePageStateReturn {
     const activeProfile = useProfileStore((s) => s.activeProfile);
     const themeLevels = useProfileStore(selectThemeLevels);
     const updateThemeLevel = useProfileStore((s) => s.updateThemeLevel);
+    const addStars = useProfileStore((s) => s.addStars);
+    const incrementStreak = useProfileStore((s) => s.incrementStreak);
     const soundEnabled = useAppStore((s) => s.settings.soundEnabled);
+
+    // Star scoring from the gamification and subject configuration
+    const gamificationConfig = useGamificationConfig();
+    const subject = useSubject();
+    const configuredBadges = useBadges();
+    const badgeDefinitions = configuredBadges.length > 0 ? configuredBadges : DEFAULT_BADGES;
+    const scoring = useMemo<StarScoringConfig>(() => ({
+        starStrategy: gamificationConfig.starStrategy,
+        maxStarsPerExercise: gamificationConfig.maxStarsPerExercise,
+        difficultyWeighting: gamificationConfig.difficultyWeighting ?? false,
+        exerciseTypeConfig: subject?.exerciseTypeConfig ?? {},
+    }), [gamificationConfig, subject]);
+
     const {
         processExerciseCompletion,
         notifications,
         dismissBadge,
         clearLevelUp
-    } = useGamification();
+    } = useGamification({ scoring, badgeDefinitions });
 
     // Track answer state for current attempt
     const [hasAnswered, setHasAnswered] = useState(false);
@@ -235,11 +254,11 @@ export function useExercisePageState(): UseExercisePageStateReturn {
             const allThemeIds = allThemes.map(t => t.id);
             const numericLevel = Number(level);
 
-            if (!isLevelAccessible(themeId, numericLevel, themeLevels, allThemeIds)) {
+            if (!isLevelAccessible(themeId, numericLevel, themeLevels, allThemeIds, levelProgression)) {
                 navigate(ROUTES.LEVEL_SELECT(themeId));
             }
         }
-    }, [themeId, level, activeProfile, themeLevels, allThemes, navigate]);
+    }, [themeId, level, activeProfile, themeLevels, allThemes, levelProgression, navigate]);
 
     // Start session when exercises are loaded
     useEffect(() => {
@@ -249,24 +268,29 @@ export function useExercisePageState(): UseExercisePageStateReturn {
 
             if (levelChanged || themeChanged || !isSessionActive) {
                 endSession();
-                startSession(exercises, themeId ?? 'default', areaId, activeProfile?.id);
+                // Daily challenge rounds and reviews keep going when an exercise runs out of attempts
+                startSession(exercises, themeId ?? 'default', areaId, activeProfile?.id, {
+                    continueOnFailure: isDailyChallenge || isReview,
+                    scoring,
+                    exerciseTypeConfig: subject?.exerciseTypeConfig ?? {},
+                });
             }
         }
-    }, [exercises, isSessionActive, startSession, endSession, themeId, areaId, level, currentLevel, currentThemeId, activeProfile?.id]);
+    }, [exercises, isSessionActive, startSession, endSession, themeId, areaId, level, currentLevel, currentThemeId, activeProfile?.id, isDailyChallenge, isReview, scoring, subject]);
 
     // Handle answer submission
-    const handleSubmit = useCallback((correct: boolean) => {
+    const handleSubmit = useCallback((correct: boolean, accuracy?: number, drawing?: string) => {
         incrementAttempts();
 
         if (correct) {
             playCorrect(soundEnabled);
-            const result = submitAnswer(true);
+            const result = submitAnswer(true, accuracy, drawing);
             if (result.success) {
                 setHasAnswered(true);
             }
         } else {
             playIncorrect(soundEnabled);
-            const result = submitAnswer(false);
+            const result = submitAnswer(false, accuracy);
             if (result.success) {
                 setHasAnswered(true);
             }
@@ -289,12 +313,16 @@ export function useExercisePageState(): UseExercisePageStateReturn {
                 if (!wasPreviouslyCompleted && currentAnswer.correct) {
                     const attempts = currentAnswer.attempts;
                     // processExerciseCompletion handles all gamification updates internally:
-                    // - adds stars to profile
+                    // - adds stars to profile (using the configured star strategy)
                     // - increments streak
                     // - checks for level up and badges
                     // - updates notification state (earnedBadges, levelUpLevel)
                     // Return value intentionally ignored - notifications are accessed via hook state
-                    processExerciseCompletion(attempts);
+                    processExerciseCompletion(attempts, {
+                        exercise: currentExercise,
+                        timeSpentSeconds: currentAnswer.timeSpentSeconds,
+                        ...(currentAnswer.accuracy !== undefined ? { accuracy: currentAnswer.accuracy } : {}),
+                    });
                 }
             }
 
@@ -334,7 +362,11 @@ export function useExercisePageState(): UseExercisePageStateReturn {
                     const attempts = currentAnswer.attempts;
                     // processExerciseCompletion handles all gamification updates internally
                     // Return value intentionally ignored - notifications are accessed via hook state
-                    processExerciseCompletion(attempts);
+                    processExerciseCompletion(attempts, {
+                        exercise: currentExercise,
+                        timeSpentSeconds: currentAnswer.timeSpentSeconds,
+                        ...(currentAnswer.accuracy !== undefined ? { accuracy: currentAnswer.accuracy } : {}),
+                    });
                 }
 
                 // Check if all exercises in this level/theme are completed
@@ -346,6 +378,7 @@ export function useExercisePageState(): UseExercisePageStateReturn {
                             results.filter(r => r.correct).map(r => r.exerciseId)
                         );
 
+                        // Only the exercises played count (templates that cannot be expanded are left out)
                         const levelExercises = exercises.filter(e => e.level === numericLevel);
                         const allLevelExercisesCompleted = levelExercises.every(e =>
                             correctExerciseIds.has(e.id) || e.id === currentExercise.id
@@ -362,23 +395,80 @@ export function useExercisePageState(): UseExercisePageStateReturn {
                 }
             }
 
+            // Record the daily challenge round and award its bonus stars once per day
+            if (dailyRound && activeProfile) {
+                const date = getDailyChallengeDateKey();
+                try {
+                    const existing = await getDailyChallengeRecord(activeProfile.id, date, dailyRound);
+                    if (!existing) {
+                        const sessionResults = useExerciseStore.getState().results;
+                        const starsEarned = calculateDailyChallengeStars(sessionResults);
+
+                        await saveDailyChallengeRecord({
+                            id: getDailyChallengeRecordId(activeProfile.id, date, dailyRound),
+                            childProfileId: activeProfile.id,
+                            date,
+                            round: dailyRound,
+                            exerciseIds: exercises.map((e) => e.id),
+                            correctCount: sessionResults.filter((r) => r.correct).length,
+                            starsEarned,
+                            completedAt: new Date().toISOString(),
+                        });
+
+                        if (starsEarned > 0) {
+                            addStars(starsEarned);
+                        }
+                        incrementStreak();
+                    }
+                } catch (error) {
+                    console.error('Failed to save daily challenge:', error);
+                }
+            }
+
             await endSession();
 
+            // Bring the review schedule up to date with the saved results
+            if (activeProfile) {
+                try {
+                    const exercisesById = new Map([...allExercises, ...exercises].map((e) => [e.id, e]));
+                    await updateReviewStates(activeProfile.id, (exerciseId) => {
+                        const exercise = exercisesById.get(exerciseId);
+                        return exercise ? getExpectedTimeSeconds(exercise, subject?.exerciseTypeConfig) : undefined;
+                    });
+                } catch (error) {
+                    console.error('Failed to update review schedule:', error);
+                }
+            }
+
+            if (isDailyChallenge) {
+                navigate(ROUTES.DAILY_CHALLENGE);
+                return;
+            }
+
+            if (isReview) {
+                navigate(ROUTES.REVIEW);
+                return;
+            }
+
             // Navigate to theme selection page after completing a level
             navigate(ROUTES.THEMES);
         } finally {
             isProcessingRef.current = false;
         }
-    }, [activeProfile, currentExercise, processExerciseCompletion, navigate, themeId, level, exercises, updateThemeLevel, endSession]);
+    }, [activeProfile, currentExercise, processExerciseCompletion, navigate, themeId, level, exercises, updateThemeLevel, endSession, dailyRound, isDailyChallenge, isReview, addStars, incrementStreak, allExercises, subject]);
 
     // Handle back navigation
     const handleBack = useCallback(() => {
-        if (themeId) {
+        if (isDailyChallenge) {
+            navigate(ROUTES.DAILY_CHALLENGE);
+        } else if (isReview) {
+            navigate(ROUTES.REVIEW);
+        } else if (themeId) {
             navigate(ROUTES.LEVEL_SELECT(themeId));
         } else {
             navigate(ROUTES.HOME);
         }
-    }, [navigate, themeId]);
+    }, [navigate, themeId, isDailyChallenge, isReview]);
 
     // Handle keyboard navigation for next/finish
     useEffect(() => {
@@ -413,6 +503,9 @@ export function useExercisePageState(): UseExercisePageStateReturn {
         levelFailed,
         hasAnswered,
         answer,
+        maxAttempts: currentExercise ? getMaxAttempts(currentExercise.type, subject?.exerciseTypeConfig) : MAX_ATTEMPTS_PER_EXERCISE,
+        hintsEnabled: currentExercise ? areHintsEnabled(currentExercise.type, subject?.exerciseTypeConfig) : true,
+        shuffleSeed: dailyRound ? getDailyChallengeRoundSeed(dailyRound) : undefined,
 
         // Gamification
         notifications,
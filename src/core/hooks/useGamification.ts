@@ -11,7 +11,7 @@
  * - Notification state (earned badges, level up celebrations)
  */
 
-import { useCallback, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useProfileStore } from '@core/stores/profileStore';
 import { useAppStore } from '@core/stores/appStore';
 import {
@@ -21,16 +21,30 @@ import {
     updateStreak,
     type StreakResult,
 } from '@core/utils/gamification';
+import {
+    applyPartialCredit,
+    calculateExerciseStars,
+    getMaxExerciseStars,
+    type StarScoringConfig,
+} from '@core/utils/starCalculation';
 import {
     checkAllBadges,
     DEFAULT_BADGES,
     type BadgeDefinitionWithMeta,
 } from '@core/utils/badges';
-import { getExerciseResultsByArea } from '@core/storage';
+import {
+    addBadgeResult,
+    countBadgeResultIds,
+    getBadgeResultIds,
+    EMPTY_BADGE_RESULT_IDS,
+    type BadgeResultIds,
+} from '@core/utils/badgeExpression';
+import { getExerciseResultsByArea, getExerciseResultsByProfile } from '@core/storage';
 import { playLevelUp, playBadge } from '@core/utils/sounds';
 import type { Badge } from '@/types/profile';
 import type { LevelProgress, Score } from '@/types/gamification';
 import type { BadgeDefinition } from '@/types/config';
+import type { Exercise } from '@/types/exercise';
 import { useGamificationNotifications } from './useGamificationNotifications';
 
 // ============================================================================
@@ -53,6 +67,18 @@ export interface ExerciseCompletionResult {
     streakUpdate: StreakResult | null;
 }
 
+/**
+ * Exercise details needed for time-based and custom star strategies.
+ */
+export interface ExerciseScoringContext {
+    /** The completed exercise */
+    exercise: Pick<Exercise, 'id' | 'type' | 'difficulty' | 'expectedTimeSeconds'>;
+    /** Time spent on the exercise in seconds */
+    timeSpentSeconds: number;
+    /** Share of correct parts (0-1) for exercises scored per part */
+    accuracy?: number;
+}
+
 /**
  * Notification state for gamification events.
  */
@@ -92,7 +118,7 @@ export interface GamificationState {
  */
 export interface GamificationActions {
     /** Process exercise completion and return results */
-    processExerciseCompletion: (attempts: number) => ExerciseCompletionResult;
+    processExerciseCompletion: (attempts: number, context?: ExerciseScoringContext) => ExerciseCompletionResult;
     /** Manually check for new badges */
     checkForBadges: () => Badge[];
     /** Get stars for a specific area (async, reads from storage) */
@@ -118,6 +144,8 @@ export interface UseGamificationOptions {
     starsPerLevel?: number;
     /** Badge definitions to use */
     badgeDefinitions?: BadgeDefinition[];
+    /** Star strategy and per-type scoring (default: attempts-based stars) */
+    scoring?: StarScoringConfig;
 }
 
 // ============================================================================
@@ -135,6 +163,7 @@ export function useGamification(
     const {
         starsPerLevel = 10,
         badgeDefinitions = DEFAULT_BADGES,
+        scoring,
     } = options;
 
     // Profile store
@@ -146,6 +175,33 @@ export function useGamification(
     // Local state for tracking level changes
     const [previousLevel, setPreviousLevel] = useState<number | null>(null);
 
+    // Exercise IDs behind the result statistics for badge expressions: loaded
+    // from storage per profile, then added locally because session results
+    // are saved at session end
+    const resultIdsRef = useRef<BadgeResultIds>(EMPTY_BADGE_RESULT_IDS);
+    const activeProfileId = activeProfile?.id;
+    const perfectScore = getMaxExerciseStars(scoring?.maxStarsPerExercise);
+
+    useEffect(() => {
+        resultIdsRef.current = EMPTY_BADGE_RESULT_IDS;
+        if (!activeProfileId) return;
+
+        let cancelled = false;
+        getExerciseResultsByProfile(activeProfileId)
+            .then((results) => {
+                if (!cancelled) {
+                    resultIdsRef.current = getBadgeResultIds(results, perfectScore);
+                }
+            })
+            .catch((error) => {
+                console.warn('Failed to load results for badge checks:', error);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [activeProfileId, perfectScore]);
+
     // Notification state (extracted to separate hook)
     const {
         earnedBadges,
@@ -199,7 +255,8 @@ export function useGamification(
      * Process exercise completion and update gamification state.
      * 
      * This function handles all gamification updates when an exercise is completed:
-     * - Awards stars based on attempts (1st = 3★, 2nd = 2★, 3rd = 1★)
+     * - Awards stars based on attempts (1st = 3★, 2nd = 2★, 3rd = 1★), or by the
+     *   configured star strategy when a scoring context is given
      * - Updates streak count
      * - Checks for level ups
      * - Checks for new badges
@@ -216,6 +273,7 @@ export function useGamification(
      * - Verifying `currentAnswer.correct` is true
      * 
      * @param attempts - Number of attempts made (1-3). Lower = more stars.
+     * @param context - Exercise and time spent, used by the 'time' and 'custom' strategies and the badge statistics
      * @returns ExerciseCompletionResult with stars earned, level up info, and new badges
      * 
      * @example
@@ -223,12 +281,16 @@ export function useGamification(
      * // In useExercisePageState handleNext:
      * const wasPreviouslyCompleted = await hasExerciseBeenCompleted(profileId, exerciseId);
      * if (!wasPreviouslyCompleted && currentAnswer.correct) {
-     *     processExerciseCompletion(currentAnswer.attempts);
+     *     processExerciseCompletion(currentAnswer.attempts, {
+     *         exercise,
+     *         timeSpentSeconds: currentAnswer.timeSpentSeconds,
+     *     });
      * }
      * ```
      */
     const processExerciseCompletion = useCallback((
-        attempts: number
+        attempts: number,
+        context?: ExerciseScoringContext
     ): ExerciseCompletionResult => {
         // Get fresh profile state to avoid stale references (Issue #4)
         // Using getState() is the recommended Zustand pattern for getting latest state in callbacks
@@ -245,8 +307,13 @@ export function useGamification(
             };
         }
 
-        // Calculate stars
-        const starsEarned = calculateStars(attempts);
+        // Calculate stars with the configured strategy
+        const starsEarned = context && scoring
+            ? applyPartialCredit(
+                calculateExerciseStars(context.exercise, attempts, context.timeSpentSeconds, scoring),
+                context.accuracy
+            )
+            : calculateStars(attempts);
 
         // Get previous level
         const prevLevel = calculateLevel(currentProfile.totalStars, starsPerLevel);
@@ -283,7 +350,10 @@ export function useGamification(
             currentStreak: streakUpdate.currentStreak,
             longestStreak: streakUpdate.longestStreak,
         };
-        const newBadges = checkAllBadges(profileForBadgeCheck, badgeDefinitions);
+        if (context) {
+            resultIdsRef.current = addBadgeResult(resultIdsRef.current, context.exercise.id, starsEarned, perfectScore);
+        }
+        const newBadges = checkAllBadges(profileForBadgeCheck, badgeDefinitions, countBadgeResultIds(resultIdsRef.current));
 
         // Earn new badges
         for (const badge of newBadges) {
@@ -309,12 +379,12 @@ export function useGamification(
             newBadges,
             streakUpdate,
         };
-    }, [starsPerLevel, badgeDefinitions, soundEnabled]);
+    }, [starsPerLevel, badgeDefinitions, soundEnabled, scoring, perfectScore]);
 
     // Check for new badges manually
     const checkForBadges = useCallback((): Badge[] => {
         if (!activeProfile) return [];
-        return checkAllBadges(activeProfile, badgeDefinitions);
+        return checkAllBadges(activeProfile, badgeDefinitions, countBadgeResultIds(resultIdsRef.current));
     }, [activeProfile, badgeDefinitions]);
 
     // Get stars for a specific area (from exercise results in storage)
@@ -67,6 +67,14 @@ export const routes: RouteObject[] = [
                 path: '/daily-challenge',
                 lazy: () => import('@/pages/DailyChallengePage').then((m) => ({ Component: m.DailyChallengePage })),
             },
+            {
+                path: '/review',
+                lazy: () => import('@/pages/ReviewPage').then((m) => ({ Component: m.ReviewPage })),
+            },
+            {
+                path: '/placement',
+                lazy: () => import('@/pages/PlacementTestPage').then((m) => ({ Component: m.PlacementTestPage })),
+            },
             {
                 path: '/teacher/pin',
                 lazy: () => import('@/pages/TeacherPinPage').then((m) => ({ Component: m.TeacherPinPage })),
@@ -110,6 +118,8 @@ export const ROUTES = {
     RESULTS: '/results',
     BADGES: '/badges',
     DAILY_CHALLENGE: '/daily-challenge',
+    REVIEW: '/review',
+    PLACEMENT: '/placement',
     TEACHER_PIN: '/teacher/pin',
     TEACHER_DASHBOARD: '/teacher/dashboard',
 } as const;
@@ -10,11 +10,16 @@
  */
 
 import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { syncReviewStates } from '@core/utils/spacedRepetition';
 import type {
     UserProfile,
     ExerciseResult,
     ObservationRecord,
     Foerderplan,
+    DailyChallengeRecord,
+    DailyChallengeRound,
+    StudentProfile,
+    ReviewState,
     StoreName,
 } from '@/types';
 
@@ -89,6 +94,27 @@ interface TrainerDB extends DBSchema {
             _updatedAt: string;
         };
     };
+    dailyChallenges: {
+        key: string;
+        value: DailyChallengeRecord & { _version: number };
+        indexes: {
+            'by-profile': string;
+        };
+    };
+    students: {
+        key: string;
+        value: StudentProfile & { _version: number };
+        indexes: {
+            'by-profile': string;
+        };
+    };
+    reviewStates: {
+        key: string;
+        value: ReviewState & { _version: number };
+        indexes: {
+            'by-profile': string;
+        };
+    };
 }
 
 // ============================================================================
@@ -107,7 +133,7 @@ const DB_NAME = getDatabaseName();
  * Current database schema version.
  * Increment when adding/removing/modifying object stores.
  */
-const DB_VERSION = 1;
+const DB_VERSION = 4;
 
 // ============================================================================
 // Database Connection
@@ -159,6 +185,30 @@ function getDB(): Promise<IDBPDatabase<TrainerDB>> {
                         db.createObjectStore('settings', { keyPath: 'key' });
                     }
                 }
+
+                // Version 2: Per-profile daily challenge completion
+                if (oldVersion < 2) {
+                    if (!db.objectStoreNames.contains('dailyChallenges')) {
+                        const dailyStore = db.createObjectStore('dailyChallenges', { keyPath: 'id' });
+                        dailyStore.createIndex('by-profile', 'childProfileId');
+                    }
+                }
+
+                // Version 3: Student records linked to child profiles
+                if (oldVersion < 3) {
+                    if (!db.objectStoreNames.contains('students')) {
+                        const studentsStore = db.createObjectStore('students', { keyPath: 'id' });
+                        studentsStore.createIndex('by-profile', 'linkedProfileIds', { multiEntry: true });
+                    }
+                }
+
+                // Version 4: Per-profile spaced repetition schedules
+                if (oldVersion < 4) {
+                    if (!db.objectStoreNames.contains('reviewStates')) {
+                        const reviewStore = db.createObjectStore('reviewStates', { keyPath: 'id' });
+                        reviewStore.createIndex('by-profile', 'childProfileId');
+                    }
+                }
             },
         });
     }
@@ -446,6 +496,258 @@ export async function getFoerderplan(id: string): Promise<Foerderplan | undefine
     return plan;
 }
 
+/**
+ * Move the observation records and Foerderplaene saved under one ID to another.
+ * Records of a child profile without a student record are kept under the
+ * profile ID, so they are moved to the student once the profile is linked.
+ * 
+ * @param fromStudentId - The ID the records are saved under
+ * @param toStudentId - The ID to save the records under
+ */
+export async function moveStudentRecords(fromStudentId: string, toStudentId: string): Promise<void> {
+    if (fromStudentId === toStudentId) return;
+
+    const db = await getDB();
+    const tx = db.transaction(['observations', 'foerderplaene'], 'readwrite');
+    const observations = tx.objectStore('observations');
+    const plans = tx.objectStore('foerderplaene');
+    const [storedObservations, storedPlans] = await Promise.all([
+        observations.index('by-student').getAll(fromStudentId),
+        plans.index('by-student').getAll(fromStudentId),
+    ]);
+    await Promise.all([
+        ...storedObservations.map((record) => observations.put({ ...record, studentId: toStudentId })),
+        ...storedPlans.map((plan) => plans.put({ ...plan, studentId: toStudentId })),
+        tx.done,
+    ]);
+}
+
+// ============================================================================
+// Daily Challenge Operations
+// ============================================================================
+
+/**
+ * Build the record ID for a daily challenge round.
+ * 
+ * @param profileId - The profile ID
+ * @param date - The challenge date (YYYY-MM-DD)
+ * @param round - The challenge round
+ * @returns The record ID
+ */
+export function getDailyChallengeRecordId(
+    profileId: string,
+    date: string,
+    round: DailyChallengeRound
+): string {
+    return `${profileId}:${date}:${round}`;
+}
+
+/**
+ * Save a daily challenge completion record.
+ * 
+ * @param record - The record to save
+ */
+export async function saveDailyChallengeRecord(record: DailyChallengeRecord): Promise<void> {
+    const db = await getDB();
+    const storedRecord = {
+        ...record,
+        _version: 1,
+    };
+    await db.put('dailyChallenges', storedRecord);
+}
+
+/**
+ * Get the completion record of a daily challenge round.
+ * 
+ * @param profileId - The profile ID
+ * @param date - The challenge date (YYYY-MM-DD)
+ * @param round - The challenge round
+ * @returns The record, or undefined if the round was not completed
+ */
+export async function getDailyChallengeRecord(
+    profileId: string,
+    date: string,
+    round: DailyChallengeRound
+): Promise<DailyChallengeRecord | undefined> {
+    const db = await getDB();
+    const stored = await db.get('dailyChallenges', getDailyChallengeRecordId(profileId, date, round));
+    if (!stored) return undefined;
+
+    const { _version, ...record } = stored;
+    return record;
+}
+
+/**
+ * Get all daily challenge records for a profile.
+ * 
+ * @param profileId - The profile ID
+ * @returns Array of daily challenge records for the profile
+ */
+export async function getDailyChallengeRecordsByProfile(profileId: string): Promise<DailyChallengeRecord[]> {
+    const db = await getDB();
+    const stored = await db.getAllFromIndex('dailyChallenges', 'by-profile', profileId);
+    return stored.map(({ _version, ...record }) => record);
+}
+
+/**
+ * Delete all daily challenge records for a profile.
+ * 
+ * @param profileId - The profile ID to delete records for
+ */
+export async function deleteDailyChallengeRecordsForProfile(profileId: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction('dailyChallenges', 'readwrite');
+    const index = tx.store.index('by-profile');
+    let cursor = await index.openCursor(profileId);
+    while (cursor) {
+        await cursor.delete();
+        cursor = await cursor.continue();
+    }
+    await tx.done;
+}
+
+// ============================================================================
+// Student Profile Operations
+// ============================================================================
+
+/**
+ * Save a student profile to the database.
+ * 
+ * @param student - The student profile to save
+ */
+export async function saveStudentProfile(student: StudentProfile): Promise<void> {
+    const db = await getDB();
+    const storedStudent = {
+        ...student,
+        _version: 1,
+    };
+    await db.put('students', storedStudent);
+}
+
+/**
+ * Get a student profile by ID.
+ * 
+ * @param id - The student ID
+ * @returns The student profile, or undefined if not found
+ */
+export async function getStudentProfile(id: string): Promise<StudentProfile | undefined> {
+    const db = await getDB();
+    const stored = await db.get('students', id);
+    if (!stored) return undefined;
+
+    const { _version, ...student } = stored;
+    return student;
+}
+
+/**
+ * Get the student profile a child profile is linked to.
+ * 
+ * @param profileId - The child profile ID
+ * @returns The student profile, or undefined if the profile is not linked
+ */
+export async function getStudentProfileByProfile(profileId: string): Promise<StudentProfile | undefined> {
+    const db = await getDB();
+    const stored = await db.getFromIndex('students', 'by-profile', profileId);
+    if (!stored) return undefined;
+
+    const { _version, ...student } = stored;
+    return student;
+}
+
+/**
+ * Get all student profiles.
+ * 
+ * @returns Array of all student profiles
+ */
+export async function getAllStudentProfiles(): Promise<StudentProfile[]> {
+    const db = await getDB();
+    const stored = await db.getAll('students');
+    return stored.map(({ _version, ...student }) => student);
+}
+
+/**
+ * Delete a student profile by ID.
+ * Linked child profiles and their progress are kept.
+ * 
+ * @param id - The student ID to delete
+ */
+export async function deleteStudentProfile(id: string): Promise<void> {
+    const db = await getDB();
+    await db.delete('students', id);
+}
+
+// ============================================================================
+// Review State Operations
+// ============================================================================
+
+/**
+ * Save review states in a single transaction.
+ * 
+ * @param states - The review states to save
+ */
+export async function saveReviewStates(states: ReviewState[]): Promise<void> {
+    if (states.length === 0) return;
+
+    const db = await getDB();
+    const tx = db.transaction('reviewStates', 'readwrite');
+    await Promise.all([
+        ...states.map((state) => tx.store.put({ ...state, _version: 1 })),
+        tx.done,
+    ]);
+}
+
+/**
+ * Get all review states for a profile.
+ * 
+ * @param profileId - The profile ID
+ * @returns Array of review states for the profile
+ */
+export async function getReviewStatesByProfile(profileId: string): Promise<ReviewState[]> {
+    const db = await getDB();
+    const stored = await db.getAllFromIndex('reviewStates', 'by-profile', profileId);
+    return stored.map(({ _version, ...state }) => state);
+}
+
+/**
+ * Bring the stored review states of a profile up to date with its saved
+ * exercise results (see syncReviewStates) and save the changed ones.
+ * 
+ * @param profileId - The profile ID
+ * @param getExpectedTime - Expected time lookup for an exercise ID
+ * @returns All review states of the profile
+ */
+export async function updateReviewStates(
+    profileId: string,
+    getExpectedTime?: (exerciseId: string) => number | undefined
+): Promise<ReviewState[]> {
+    const [stored, results] = await Promise.all([
+        getReviewStatesByProfile(profileId),
+        getExerciseResultsByProfile(profileId),
+    ]);
+    const changed = syncReviewStates(profileId, stored, results, getExpectedTime);
+    await saveReviewStates(changed);
+
+    const changedIds = new Set(changed.map((state) => state.id));
+    return [...stored.filter((state) => !changedIds.has(state.id)), ...changed];
+}
+
+/**
+ * Delete all review states for a profile.
+ * 
+ * @param profileId - The profile ID to delete review states for
+ */
+export async function deleteReviewStatesForProfile(profileId: string): Promise<void> {
+    const db = await getDB();
+    const tx = db.transaction('reviewStates', 'readwrite');
+    const index = tx.store.index('by-profile');
+    let cursor = await index.openCursor(profileId);
+    while (cursor) {
+        await cursor.delete();
+        cursor = await cursor.continue();
+    }
+    await tx.done;
+}
+
 // ============================================================================
 // Settings Operations
 // ============================================================================
@@ -584,7 +886,7 @@ export async function importData(data: {
  */
 export async function clearAllData(): Promise<void> {
     const db = await getDB();
-    const storeNames: StoreName[] = ['profiles', 'results', 'observations', 'foerderplaene', 'settings'];
+    const storeNames: StoreName[] = ['profiles', 'results', 'observations', 'foerderplaene', 'settings', 'dailyChallenges', 'students', 'reviewStates'];
 
     await Promise.all(
         storeNames.map((storeName) => db.clear(storeName))
@@ -51,6 +51,27 @@ export {
     saveFoerderplan,
     getFoerderplaeneByStudent,
     getFoerderplan,
+    moveStudentRecords,
+
+    // Daily challenge operations
+    getDailyChallengeRecordId,
+    saveDailyChallengeRecord,
+    getDailyChallengeRecord,
+    getDailyChallengeRecordsByProfile,
+    deleteDailyChallengeRecordsForProfile,
+
+    // Student profile operations
+    saveStudentProfile,
+    getStudentProfile,
+    getStudentProfileByProfile,
+    getAllStudentProfiles,
+    deleteStudentProfile,
+
+    // Review state operations
+    saveReviewStates,
+    getReviewStatesByProfile,
+    updateReviewStates,
+    deleteReviewStatesForProfile,
 
     // Settings operations
     saveSetting,
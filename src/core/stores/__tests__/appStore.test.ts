@@ -38,8 +38,11 @@ describe('appStore', () => {
                 highContrastMode: false,
                 animationsEnabled: true,
                 soundEnabled: true,
+                readAloudEnabled: false,
+                autoReadAloud: false,
                 teacherPin: '',
                 teacherPinEnabled: false,
+                accessibilityDefaultsApplied: false,
             },
             teacherAuthenticated: false,
         });
@@ -59,6 +62,8 @@ describe('appStore', () => {
             expect(state.settings.highContrastMode).toBe(false);
             expect(state.settings.animationsEnabled).toBe(true);
             expect(state.settings.soundEnabled).toBe(true);
+            expect(state.settings.readAloudEnabled).toBe(false);
+            expect(state.settings.autoReadAloud).toBe(false);
             expect(state.settings.teacherPin).toBe('');
             expect(state.settings.teacherPinEnabled).toBe(false);
             expect(state.teacherAuthenticated).toBe(false);
@@ -144,6 +149,57 @@ describe('appStore', () => {
         });
     });
 
+    describe('toggleReadAloud', () => {
+        it('toggles read-aloud mode on', () => {
+            act(() => {
+                useAppStore.getState().toggleReadAloud();
+            });
+
+            expect(useAppStore.getState().settings.readAloudEnabled).toBe(true);
+        });
+
+        it('toggles reading on load independently', () => {
+            act(() => {
+                useAppStore.getState().toggleAutoReadAloud();
+            });
+
+            expect(useAppStore.getState().settings.autoReadAloud).toBe(true);
+            expect(useAppStore.getState().settings.readAloudEnabled).toBe(false);
+        });
+    });
+
+    describe('applyAccessibilityDefaults', () => {
+        const defaults = {
+            defaultFontSize: 'large' as const,
+            defaultHighContrast: true,
+            defaultAnimationsEnabled: true,
+            defaultSoundEnabled: true,
+            defaultReadAloudEnabled: true,
+        };
+
+        it('applies the app defaults on first start', () => {
+            act(() => {
+                useAppStore.getState().applyAccessibilityDefaults(defaults);
+            });
+
+            const { settings } = useAppStore.getState();
+            expect(settings.fontSize).toBe('large');
+            expect(settings.highContrastMode).toBe(true);
+            expect(settings.readAloudEnabled).toBe(true);
+            expect(settings.accessibilityDefaultsApplied).toBe(true);
+        });
+
+        it('keeps settings once the defaults were applied', () => {
+            act(() => {
+                useAppStore.getState().applyAccessibilityDefaults(defaults);
+                useAppStore.getState().toggleReadAloud();
+                useAppStore.getState().applyAccessibilityDefaults(defaults);
+            });
+
+            expect(useAppStore.getState().settings.readAloudEnabled).toBe(false);
+        });
+    });
+
     describe('teacher PIN', () => {
         it('sets teacher PIN', () => {
             act(() => {
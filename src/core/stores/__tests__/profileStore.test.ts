@@ -391,6 +391,30 @@ describe('profileStore', () => {
         });
     });
 
+    describe('applyPlacement', () => {
+        it('raises area and theme levels without downgrading', () => {
+            const profile = createMockProfile({
+                currentLevels: { grammar: 4, reading: 1 },
+                themeLevels: { animals: 3 },
+            });
+            act(() => {
+                useProfileStore.getState().setActiveProfile(profile);
+            });
+
+            act(() => {
+                useProfileStore.getState().applyPlacement(
+                    { grammar: 2, reading: 3 },
+                    { animals: 1, food: 2 }
+                );
+            });
+
+            const updated = useProfileStore.getState().activeProfile;
+            expect(updated?.currentLevels).toEqual({ grammar: 4, reading: 3 });
+            expect(updated?.themeLevels).toEqual({ animals: 3, food: 2 });
+            expect(updated?.placementCompletedAt).toBe('2024-01-15T12:00:00.000Z');
+        });
+    });
+
     describe('earnBadge', () => {
         it('adds badge to profile', () => {
             const profile = createMockProfile();
@@ -8,6 +8,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { SupportedLocale } from '@core/i18n';
+import type { AccessibilityDefaults } from '@/types';
 
 // ============================================================================
 // Types
@@ -34,10 +35,16 @@ export interface AppSettings {
     animationsEnabled: boolean;
     /** Whether sound effects are enabled */
     soundEnabled: boolean;
+    /** Whether 🔊 buttons read instructions, options, hints and feedback aloud */
+    readAloudEnabled: boolean;
+    /** Whether the instruction is read aloud when an exercise loads */
+    autoReadAloud: boolean;
     /** Teacher PIN for accessing teacher dashboard */
     teacherPin: string;
     /** Whether teacher PIN is enabled */
     teacherPinEnabled: boolean;
+    /** Whether the app's accessibility defaults have been applied */
+    accessibilityDefaultsApplied: boolean;
 }
 
 /**
@@ -62,6 +69,10 @@ export interface AppState {
     toggleAnimations: () => void;
     /** Toggle sound */
     toggleSound: () => void;
+    /** Toggle read-aloud mode */
+    toggleReadAloud: () => void;
+    /** Toggle reading the instruction aloud on load */
+    toggleAutoReadAloud: () => void;
     /** Set the teacher PIN */
     setTeacherPin: (pin: string) => void;
     /** Enable/disable teacher PIN */
@@ -70,6 +81,8 @@ export interface AppState {
     verifyPin: (pin: string) => boolean;
     /** Log out teacher */
     logoutTeacher: () => void;
+    /** Apply the app's accessibility defaults on first start */
+    applyAccessibilityDefaults: (defaults: AccessibilityDefaults) => void;
     /** Reset settings to defaults */
     resetSettings: () => void;
 }
@@ -88,8 +101,11 @@ const DEFAULT_SETTINGS: AppSettings = {
     highContrastMode: false,
     animationsEnabled: true,
     soundEnabled: true,
+    readAloudEnabled: false,
+    autoReadAloud: false,
     teacherPin: '',
     teacherPinEnabled: false,
+    accessibilityDefaultsApplied: false,
 };
 
 // ============================================================================
@@ -146,6 +162,22 @@ export const useAppStore = create<AppState>()(
                     },
                 })),
 
+            toggleReadAloud: () =>
+                set((state) => ({
+                    settings: {
+                        ...state.settings,
+                        readAloudEnabled: !state.settings.readAloudEnabled,
+                    },
+                })),
+
+            toggleAutoReadAloud: () =>
+                set((state) => ({
+                    settings: {
+                        ...state.settings,
+                        autoReadAloud: !state.settings.autoReadAloud,
+                    },
+                })),
+
             setTeacherPin: (pin) =>
                 set((state) => ({
                     settings: { ...state.settings, teacherPin: pin },
@@ -167,18 +199,31 @@ export const useAppStore = create<AppState>()(
             logoutTeacher: () =>
                 set({ teacherAuthenticated: false }),
 
+            applyAccessibilityDefaults: (defaults) =>
+                set((state) => (state.settings.accessibilityDefaultsApplied ? state : {
+                    settings: {
+                        ...state.settings,
+                        fontSize: defaults.defaultFontSize,
+                        highContrastMode: defaults.defaultHighContrast,
+                        animationsEnabled: defaults.defaultAnimationsEnabled,
+                        soundEnabled: defaults.defaultSoundEnabled,
+                        readAloudEnabled: defaults.defaultReadAloudEnabled,
+                        accessibilityDefaultsApplied: true,
+                    },
+                })),
+
             resetSettings: () =>
                 set({ settings: DEFAULT_SETTINGS }),
         }),
         {
             name: 'mini-trainer-settings',
-            version: 1,
+            version: 2,
             migrate: (persisted: unknown, version: number) => {
-                const state = persisted as Partial<AppState>;
+                let state = persisted as Partial<AppState>;
 
                 // v0 → v1: Add any missing fields
                 if (version === 0) {
-                    return {
+                    state = {
                         ...state,
                         settings: {
                             ...DEFAULT_SETTINGS,
@@ -187,6 +232,18 @@ export const useAppStore = create<AppState>()(
                     };
                 }
 
+                // v1 → v2: Keep the settings of existing installations
+                if (version < 2) {
+                    state = {
+                        ...state,
+                        settings: {
+                            ...DEFAULT_SETTINGS,
+                            ...state.settings,
+                            accessibilityDefaultsApplied: true,
+                        },
+                    };
+                }
+
                 return state;
             },
             merge: (persisted, current) => {
@@ -235,6 +292,16 @@ export const selectAnimationsEnabled = (state: AppState) => state.settings.anima
  */
 export const selectSoundEnabled = (state: AppState) => state.settings.soundEnabled;
 
+/**
+ * Selector for read-aloud mode.
+ */
+export const selectReadAloudEnabled = (state: AppState) => state.settings.readAloudEnabled;
+
+/**
+ * Selector for reading the instruction aloud on load.
+ */
+export const selectAutoReadAloud = (state: AppState) => state.settings.autoReadAloud;
+
 /**
  * Selector for teacher authentication status.
  */
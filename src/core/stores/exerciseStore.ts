@@ -9,12 +9,20 @@
  *   - useExercisePageState: Orchestrator that uses this store
  *   - IndexedDB: Persists results via saveExerciseResult
  * 
- * ⚠️ KNOWN ISSUE: recordTime() is defined but never called.
- * Time tracking needs to be implemented in useExercisePageState.
+ * Time spent is measured from when an exercise is shown until it is
+ * answered, unless it was recorded explicitly via recordTime().
+ * 
+ * The number of attempts per exercise is limited per exercise type
+ * (SubjectConfig.exerciseTypeConfig), defaulting to MAX_ATTEMPTS_PER_EXERCISE.
  */
 
 import { create } from 'zustand';
-import { calculateStars } from '@core/utils/gamification';
+import { applyPartialCredit, calculateExerciseStars, type StarScoringConfig } from '@core/utils/gamification';
+import {
+    DEFAULT_MAX_ATTEMPTS,
+    getMaxAttempts,
+    type ExerciseTypeConfigMap,
+} from '@core/utils/exerciseTypeConfig';
 import { saveExerciseResult } from '@core/storage';
 import type {
     Exercise,
@@ -30,9 +38,9 @@ import type {
 // ============================================================================
 
 /**
- * Maximum number of attempts allowed per exercise.
+ * Maximum number of attempts per exercise when the exercise type configures no limit.
  */
-export const MAX_ATTEMPTS_PER_EXERCISE = 3;
+export const MAX_ATTEMPTS_PER_EXERCISE = DEFAULT_MAX_ATTEMPTS;
 
 // ============================================================================
 // Types
@@ -50,6 +58,8 @@ export interface ExerciseAnswer {
     timeSpentSeconds: number;
     /** Star rating earned (0-3) */
     stars: Score;
+    /** Share of correct parts (0-1) for exercises scored per part, e.g. cloze texts */
+    accuracy?: number;
 }
 
 /**
@@ -77,8 +87,19 @@ export interface SubmitAnswerResult {
 }
 
 /**
- * Exercise session state interface.
+ * Options for starting an exercise session.
  */
+export interface SessionOptions {
+    /**
+     * Move on instead of failing the level when the attempts of an exercise
+     * run out. The exercise is recorded as an incorrect result.
+     */
+    continueOnFailure?: boolean;
+    /** Star strategy and per-type scoring (default: attempts-based stars) */
+    scoring?: StarScoringConfig;
+    /** Per-type attempt limits (default: MAX_ATTEMPTS_PER_EXERCISE for every type) */
+    exerciseTypeConfig?: ExerciseTypeConfigMap;
+}
 
 /**
  * Exercise session state interface.
@@ -106,6 +127,8 @@ export interface ExerciseSessionState {
     results: ExerciseResult[];
     /** Session start time */
     sessionStartTime: number | null;
+    /** Time the current exercise was shown */
+    exerciseStartTime: number | null;
     /** Current theme ID */
     themeId: ThemeId | null;
     /** Current area ID (optional) */
@@ -114,14 +137,26 @@ export interface ExerciseSessionState {
     completedExerciseIds: Set<string>;
     /** Current child profile ID for persisting results */
     childProfileId: string | null;
+    /** Whether exhausted exercises are skipped instead of failing the level */
+    continueOnFailure: boolean;
+    /** Star scoring configuration of the session */
+    scoring: StarScoringConfig | null;
+    /** Per-type configuration of the session (attempt limits) */
+    exerciseTypeConfig: ExerciseTypeConfigMap;
 
     // Actions
     /** Initialize a new session with exercises */
-    startSession: (exercises: Exercise[], themeId: ThemeId, areaId?: ObservationAreaId, childProfileId?: string) => void;
+    startSession: (
+        exercises: Exercise[],
+        themeId: ThemeId,
+        areaId?: ObservationAreaId,
+        childProfileId?: string,
+        options?: SessionOptions
+    ) => void;
     /** Move to the next exercise */
     nextExercise: () => void;
-    /** Submit an answer, returns result indicating success/failure */
-    submitAnswer: (correct: boolean) => SubmitAnswerResult;
+    /** Submit an answer with an optional share of correct parts and drawing, returns result indicating success/failure */
+    submitAnswer: (correct: boolean, accuracy?: number, drawing?: string) => SubmitAnswerResult;
     /** Increment attempts */
     incrementAttempts: () => void;
     /** Show the solution */
@@ -147,6 +182,13 @@ function generateResultId(): string {
     return `result-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+/**
+ * Get the seconds elapsed since a start time.
+ */
+function getElapsedSeconds(startTime: number | null): number {
+    return startTime === null ? 0 : Math.max(0, Math.round((Date.now() - startTime) / 1000));
+}
+
 // ============================================================================
 // Store
 // ============================================================================
@@ -173,12 +215,16 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
     },
     results: [],
     sessionStartTime: null,
+    exerciseStartTime: null,
     themeId: null,
     areaId: null,
     completedExerciseIds: new Set<string>(),
     childProfileId: null,
+    continueOnFailure: false,
+    scoring: null,
+    exerciseTypeConfig: {},
 
-    startSession: (exercises, themeId, areaId, childProfileId) => {
+    startSession: (exercises, themeId, areaId, childProfileId, options) => {
         if (exercises.length === 0) return;
 
         set({
@@ -198,10 +244,14 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
             },
             results: [],
             sessionStartTime: Date.now(),
+            exerciseStartTime: Date.now(),
             themeId,
             areaId: areaId ?? null,
             completedExerciseIds: new Set<string>(),
             childProfileId: childProfileId ?? null,
+            continueOnFailure: options?.continueOnFailure ?? false,
+            scoring: options?.scoring ?? null,
+            exerciseTypeConfig: options?.exerciseTypeConfig ?? {},
         });
     },
 
@@ -225,10 +275,11 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
             isCompleted: false,
             showSolution: false,
             levelFailed: false,
+            exerciseStartTime: Date.now(),
         });
     },
 
-    submitAnswer: (correct) => {
+    submitAnswer: (correct, accuracy, drawing) => {
         const state = get();
         if (!state.currentExercise) {
             return { success: false, reason: 'no_exercise' as const };
@@ -240,15 +291,29 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
             return { success: false, reason: 'duplicate' as const };
         }
 
+        const maxAttempts = getMaxAttempts(state.currentExercise.type, state.exerciseTypeConfig);
+
         // Use existing answer or create a default one if not yet set
-        const currentAnswer = state.answer ?? { correct: false, attempts: 1, timeSpentSeconds: 0, stars: 0 };
-        const stars = correct ? calculateStars(currentAnswer.attempts) : 0;
+        const existingAnswer = state.answer ?? { correct: false, attempts: 1, timeSpentSeconds: 0, stars: 0 };
+        const currentAnswer: ExerciseAnswer = existingAnswer.timeSpentSeconds > 0
+            ? existingAnswer
+            : { ...existingAnswer, timeSpentSeconds: getElapsedSeconds(state.exerciseStartTime) };
+        const stars = correct
+            ? applyPartialCredit(calculateExerciseStars(
+                state.currentExercise,
+                currentAnswer.attempts,
+                currentAnswer.timeSpentSeconds,
+                state.scoring ?? undefined,
+                maxAttempts
+            ), accuracy)
+            : 0;
 
         // Update answer with result
         const finalAnswer: ExerciseAnswer = {
             ...currentAnswer,
             correct,
             stars,
+            ...(accuracy !== undefined ? { accuracy } : {}),
         };
 
         // Only mark as completed and update stats when answer is correct
@@ -271,6 +336,7 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
                 attempts: currentAnswer.attempts,
                 timeSpentSeconds: currentAnswer.timeSpentSeconds,
                 completedAt: new Date().toISOString(),
+                ...(drawing ? { drawing } : {}),
             };
 
             // Update stats
@@ -292,17 +358,56 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
         } else {
             // For wrong answers, check if max attempts reached
             const attempts = currentAnswer.attempts;
-            if (attempts >= MAX_ATTEMPTS_PER_EXERCISE) {
-                // Max attempts reached - level failed
-                set({
-                    answer: finalAnswer,
-                    showSolution: true,
-                    levelFailed: true,
-                });
+            if (attempts >= maxAttempts) {
+                // Max attempts reached - record the miss so the exercise comes up for review
+                const result: ExerciseResult = {
+                    id: generateResultId(),
+                    childProfileId: state.childProfileId ?? '',
+                    exerciseId: state.currentExercise.id,
+                    areaId: state.currentExercise.areaId,
+                    themeId: state.currentExercise.themeId,
+                    level: state.currentExercise.level,
+                    correct: false,
+                    score: 0,
+                    attempts,
+                    timeSpentSeconds: currentAnswer.timeSpentSeconds,
+                    completedAt: new Date().toISOString(),
+                };
+
+                if (state.continueOnFailure) {
+                    // Let the session move on
+                    const newCompletedIds = new Set(state.completedExerciseIds);
+                    newCompletedIds.add(exerciseId);
+
+                    set({
+                        answer: finalAnswer,
+                        showSolution: true,
+                        stats: {
+                            ...state.stats,
+                            exercisesCompleted: state.stats.exercisesCompleted + 1,
+                            totalTimeSeconds: state.stats.totalTimeSeconds + currentAnswer.timeSpentSeconds,
+                        },
+                        results: [...state.results, result],
+                        completedExerciseIds: newCompletedIds,
+                    });
+                } else {
+                    // Level failed - restartLevel drops the session results,
+                    // so the miss is saved right away
+                    if (state.childProfileId) {
+                        saveExerciseResult(result).catch((error) => {
+                            console.error('Failed to save failed exercise result:', error);
+                        });
+                    }
+                    set({
+                        answer: finalAnswer,
+                        showSolution: true,
+                        levelFailed: true,
+                    });
+                }
             } else {
-                // Still have attempts left - allow retry
+                // Still have attempts left - allow retry; the time keeps running
                 set({
-                    answer: finalAnswer,
+                    answer: { ...finalAnswer, timeSpentSeconds: existingAnswer.timeSpentSeconds },
                 });
             }
         }
@@ -369,10 +474,14 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
             },
             results: [],
             sessionStartTime: null,
+            exerciseStartTime: null,
             themeId: null,
             areaId: null,
             completedExerciseIds: new Set<string>(),
             childProfileId: null,
+            continueOnFailure: false,
+            scoring: null,
+            exerciseTypeConfig: {},
         });
     },
 
@@ -381,6 +490,7 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
             answer: null,
             isCompleted: false,
             showSolution: false,
+            exerciseStartTime: Date.now(),
         });
     },
 
@@ -403,6 +513,7 @@ export const useExerciseStore = create<ExerciseSessionState>()((set, get) => ({
             },
             results: [],
             sessionStartTime: Date.now(),
+            exerciseStartTime: Date.now(),
             completedExerciseIds: new Set<string>(),
         });
     },
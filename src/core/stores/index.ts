@@ -13,6 +13,8 @@ export {
     selectHighContrast,
     selectAnimationsEnabled,
     selectSoundEnabled,
+    selectReadAloudEnabled,
+    selectAutoReadAloud,
     selectTeacherAuthenticated,
 } from './appStore';
 
@@ -78,4 +80,5 @@ export type {
     SessionStats,
     ExerciseSessionState,
     SubmitAnswerResult,
+    SessionOptions,
 } from './exerciseStore';
@@ -77,6 +77,11 @@ export interface ProfileState {
     updateThemeProgress: (themeId: ThemeId, progress: Partial<ThemeProgress>) => void;
     /** Update theme level (highest completed level for a theme) */
     updateThemeLevel: (themeId: ThemeId, level: number) => void;
+    /** Apply placement test levels (raises levels only) and mark the test as done */
+    applyPlacement: (
+        currentLevels: Record<ObservationAreaId, number>,
+        themeLevels: Record<ThemeId, number>
+    ) => void;
     /** Earn a badge */
     earnBadge: (badge: Badge) => void;
     /** Clear the active profile */
@@ -265,6 +270,28 @@ export const useProfileStore = create<ProfileState>()(
                     };
                 }),
 
+            applyPlacement: (currentLevels, themeLevels) =>
+                set((state) => {
+                    if (!state.activeProfile) return state;
+                    const nextCurrentLevels = { ...state.activeProfile.currentLevels };
+                    for (const [areaId, level] of Object.entries(currentLevels)) {
+                        // Only keep highest level (no downgrade)
+                        nextCurrentLevels[areaId] = Math.max(nextCurrentLevels[areaId] ?? 1, level);
+                    }
+                    const nextThemeLevels = { ...state.activeProfile.themeLevels };
+                    for (const [themeId, level] of Object.entries(themeLevels)) {
+                        nextThemeLevels[themeId] = Math.max(nextThemeLevels[themeId] ?? 0, level);
+                    }
+                    return {
+                        activeProfile: {
+                            ...state.activeProfile,
+                            currentLevels: nextCurrentLevels,
+                            themeLevels: nextThemeLevels,
+                            placementCompletedAt: new Date().toISOString(),
+                        },
+                    };
+                }),
+
             earnBadge: (badge) =>
                 set((state) => {
                     if (!state.activeProfile) return state;
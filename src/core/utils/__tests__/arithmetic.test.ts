@@ -0,0 +1,152 @@
+/**
+ * Tests for number parsing and written column calculation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    checkColumnCalculation,
+    createColumnCalculation,
+    numbersAreEqual,
+    parseArithmeticNumber,
+    validateArithmeticAnswer,
+} from '../arithmetic';
+
+describe('arithmetic', () => {
+    describe('parseArithmeticNumber', () => {
+        it('parses whole numbers, decimals and fractions', () => {
+            expect(parseArithmeticNumber('12')).toEqual({ numerator: 12, denominator: 1, form: 'integer' });
+            expect(parseArithmeticNumber('0,75')).toEqual({ numerator: 75, denominator: 100, form: 'decimal' });
+            expect(parseArithmeticNumber(' 3 / 4 ')).toEqual({ numerator: 3, denominator: 4, form: 'fraction' });
+            expect(parseArithmeticNumber('1 1/2')).toEqual({ numerator: 3, denominator: 2, form: 'fraction' });
+            expect(parseArithmeticNumber('−1,5')).toEqual({ numerator: -15, denominator: 10, form: 'decimal' });
+            expect(parseArithmeticNumber('-1 1/2')).toEqual({ numerator: -3, denominator: 2, form: 'fraction' });
+        });
+
+        it('reads separators the way the locale writes them', () => {
+            expect(parseArithmeticNumber('1.000', 'de')?.numerator).toBe(1000);
+            expect(parseArithmeticNumber('1.234,5', 'de')).toEqual({ numerator: 12345, denominator: 10, form: 'decimal' });
+            expect(parseArithmeticNumber('0.5', 'de')).toEqual({ numerator: 5, denominator: 10, form: 'decimal' });
+            expect(parseArithmeticNumber('1,000', 'en')?.numerator).toBe(1000);
+            expect(parseArithmeticNumber('0,5', 'en')).toEqual({ numerator: 5, denominator: 10, form: 'decimal' });
+            expect(parseArithmeticNumber('1 000')?.numerator).toBe(1000);
+        });
+
+        it('rejects anything that is not a number', () => {
+            expect(parseArithmeticNumber('')).toBeNull();
+            expect(parseArithmeticNumber('abc')).toBeNull();
+            expect(parseArithmeticNumber('1/0')).toBeNull();
+            expect(parseArithmeticNumber('1,2,3')).toBeNull();
+            expect(parseArithmeticNumber('3 + 4')).toBeNull();
+        });
+    });
+
+    describe('numbersAreEqual', () => {
+        it('compares fractions and decimals by value', () => {
+            const half = parseArithmeticNumber('1/2');
+            const values = ['2/4', '0,5', '0.50'].map((text) => parseArithmeticNumber(text));
+            for (const value of values) {
+                expect(half && value && numbersAreEqual(half, value)).toBe(true);
+            }
+            const third = parseArithmeticNumber('1/3');
+            const decimal = parseArithmeticNumber('0,33');
+            expect(third && decimal && numbersAreEqual(third, decimal)).toBe(false);
+        });
+    });
+
+    describe('validateArithmeticAnswer', () => {
+        it('accepts equivalent numbers by default', () => {
+            const content = { answer: '3/4' };
+            expect(validateArithmeticAnswer(content, '0,75')).toBe(true);
+            expect(validateArithmeticAnswer(content, '6/8')).toBe(true);
+            expect(validateArithmeticAnswer(content, '0,7')).toBe(false);
+            expect(validateArithmeticAnswer(content, '')).toBe(false);
+        });
+
+        it('asks for the written form when equivalents are not accepted', () => {
+            const content = { answer: '3/4', acceptEquivalent: false };
+            expect(validateArithmeticAnswer(content, '3/4')).toBe(true);
+            expect(validateArithmeticAnswer(content, '6/8')).toBe(false);
+            expect(validateArithmeticAnswer(content, '0,75')).toBe(false);
+
+            const decimal = { answer: '0,5', acceptEquivalent: false };
+            expect(validateArithmeticAnswer(decimal, '0,50')).toBe(true);
+            expect(validateArithmeticAnswer(decimal, '1/2')).toBe(false);
+        });
+    });
+
+    describe('createColumnCalculation', () => {
+        it('works out an addition with carries', () => {
+            const calculation = createColumnCalculation([478, 356], '+');
+            expect(calculation.result).toBe(834);
+            expect(calculation.width).toBe(3);
+            expect(calculation.columns).toEqual([
+                { digit: '8', carry: '1' },
+                { digit: '3', carry: '1' },
+                { digit: '4', carry: '' },
+            ]);
+        });
+
+        it('adds a column for the last carry', () => {
+            const calculation = createColumnCalculation([75, 48], '+');
+            expect(calculation.rows).toEqual([['', '7', '5'], ['', '4', '8']]);
+            expect(calculation.columns).toEqual([
+                { digit: '1', carry: '1' },
+                { digit: '2', carry: '1' },
+                { digit: '3', carry: '' },
+            ]);
+        });
+
+        it('carries larger sums of three numbers', () => {
+            const calculation = createColumnCalculation([99, 99, 99], '+');
+            expect(calculation.result).toBe(297);
+            expect(calculation.columns.map((step) => step.carry)).toEqual(['2', '2', '']);
+        });
+
+        it('works out a subtraction with carries and without leading zeros', () => {
+            const calculation = createColumnCalculation([503, 498], '-');
+            expect(calculation.result).toBe(5);
+            expect(calculation.rows).toEqual([['5', '0', '3'], ['4', '9', '8']]);
+            expect(calculation.columns).toEqual([
+                { digit: '', carry: '1' },
+                { digit: '', carry: '1' },
+                { digit: '5', carry: '' },
+            ]);
+        });
+    });
+
+    describe('checkColumnCalculation', () => {
+        const calculation = createColumnCalculation([478, 356], '+');
+
+        it('accepts the right digits and carries', () => {
+            const result = checkColumnCalculation(calculation, ['8', '3', '4'], ['1', '1', '']);
+            expect(result).toEqual({
+                correct: true,
+                digits: [true, true, true],
+                carries: [true, true, true],
+                correctColumns: 3,
+                accuracy: 1,
+            });
+        });
+
+        it('checks every column on its own', () => {
+            // Forgot the carry in the tens column
+            const result = checkColumnCalculation(calculation, ['8', '2', '4'], ['1', '', '']);
+            expect(result.correct).toBe(false);
+            expect(result.digits).toEqual([true, false, true]);
+            expect(result.carries).toEqual([true, false, true]);
+            expect(result.correctColumns).toBe(2);
+            expect(result.accuracy).toBeCloseTo(2 / 3);
+        });
+
+        it('ignores carries that are not shown', () => {
+            const result = checkColumnCalculation(calculation, ['8', '3', '4'], [], false);
+            expect(result.correct).toBe(true);
+        });
+
+        it('accepts empty carries as 0 and leading zeros', () => {
+            const subtraction = createColumnCalculation([503, 498], '-');
+            expect(checkColumnCalculation(subtraction, ['0', '', '5'], ['1', '1', '0']).correct).toBe(true);
+            expect(checkColumnCalculation(subtraction, ['', '', '5'], ['1', '', '']).correct).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,34 @@
+/**
+ * Tests for app asset paths.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isAppAssetSrc, resolveAssetSrc } from '../assets';
+
+describe('assets', () => {
+    describe('resolveAssetSrc', () => {
+        it('keeps bundled paths relative for the file:// build', () => {
+            expect(resolveAssetSrc('/assets/images/hund.svg')).toBe('assets/images/hund.svg');
+            expect(resolveAssetSrc('assets/images/hund.svg')).toBe('assets/images/hund.svg');
+        });
+
+        it('leaves data and remote URLs unchanged', () => {
+            expect(resolveAssetSrc('data:image/svg+xml;base64,AAAA')).toBe('data:image/svg+xml;base64,AAAA');
+            expect(resolveAssetSrc('https://example.com/hund.png')).toBe('https://example.com/hund.png');
+        });
+    });
+
+    describe('isAppAssetSrc', () => {
+        it('accepts files in the assets folder and inlined pictures', () => {
+            expect(isAppAssetSrc('assets/images/hund.svg')).toBe(true);
+            expect(isAppAssetSrc('/assets/audio/hund.mp3')).toBe(true);
+            expect(isAppAssetSrc('data:image/png;base64,AAAA')).toBe(true);
+        });
+
+        it('rejects other locations', () => {
+            expect(isAppAssetSrc('images/hund.svg')).toBe(false);
+            expect(isAppAssetSrc('assets/../secret.svg')).toBe(false);
+            expect(isAppAssetSrc('https://example.com/hund.png')).toBe(false);
+        });
+    });
+});
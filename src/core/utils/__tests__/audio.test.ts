@@ -0,0 +1,165 @@
+/**
+ * Tests for exercise audio playback.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+    canPlayExerciseAudio,
+    getSpeechLang,
+    playExerciseAudio,
+    resolveAudioSrc,
+    selectSpeechVoice,
+    stopExerciseAudio,
+} from '../audio';
+
+/**
+ * Audio element mock that ends or fails right after play(), or keeps
+ * playing until it is stopped while `hold` is set.
+ */
+class MockAudio {
+    static fail = false;
+    static hold = false;
+    static played: string[] = [];
+
+    onended: (() => void) | null = null;
+    onerror: (() => void) | null = null;
+
+    constructor(public src: string) {}
+
+    play(): Promise<void> {
+        MockAudio.played.push(this.src);
+        if (!MockAudio.hold) {
+            setTimeout(() => (MockAudio.fail ? this.onerror?.() : this.onended?.()), 0);
+        }
+        return Promise.resolve();
+    }
+
+    pause(): void {}
+}
+
+/**
+ * Utterance mock; the speech mock finishes it right away.
+ */
+class MockUtterance {
+    lang = '';
+    rate = 1;
+    voice: unknown = null;
+    onend: (() => void) | null = null;
+    onerror: ((event: { error: string }) => void) | null = null;
+
+    constructor(public text: string) {}
+}
+
+const spoken: MockUtterance[] = [];
+const speechSynthesisMock = {
+    speak: (utterance: MockUtterance) => {
+        spoken.push(utterance);
+        utterance.onend?.();
+    },
+    cancel: vi.fn(),
+    getVoices: () => [],
+};
+
+function voice(lang: string, localService: boolean, name = lang): SpeechSynthesisVoice {
+    return { lang, localService, name, default: false, voiceURI: name };
+}
+
+describe('audio', () => {
+    beforeEach(() => {
+        MockAudio.fail = false;
+        MockAudio.hold = false;
+        MockAudio.played = [];
+        spoken.length = 0;
+        vi.stubGlobal('Audio', MockAudio);
+        vi.stubGlobal('SpeechSynthesisUtterance', MockUtterance);
+        vi.stubGlobal('speechSynthesis', speechSynthesisMock);
+    });
+
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    describe('resolveAudioSrc', () => {
+        it('keeps bundled paths relative for the file:// build', () => {
+            expect(resolveAudioSrc('/assets/audio/hund.mp3')).toBe('assets/audio/hund.mp3');
+            expect(resolveAudioSrc('assets/audio/hund.mp3')).toBe('assets/audio/hund.mp3');
+            expect(resolveAudioSrc('data:audio/mp3;base64,AAAA')).toBe('data:audio/mp3;base64,AAAA');
+        });
+    });
+
+    describe('selectSpeechVoice', () => {
+        it('prefers an exact offline voice', () => {
+            const voices = [voice('de-AT', true), voice('de-DE', false, 'online'), voice('de-DE', true, 'offline')];
+            expect(selectSpeechVoice(voices, 'de-DE')?.name).toBe('offline');
+        });
+
+        it('falls back to the same base language', () => {
+            expect(selectSpeechVoice([voice('en-US', true), voice('de_AT', false)], 'de-DE')?.lang).toBe('de_AT');
+            expect(selectSpeechVoice([voice('en-US', true)], 'tr-TR')).toBeNull();
+        });
+    });
+
+    describe('getSpeechLang', () => {
+        it('maps UI locales to speech languages', () => {
+            expect(getSpeechLang('de')).toBe('de-DE');
+            expect(getSpeechLang('en')).toBe('en-GB');
+            expect(getSpeechLang('fr-FR')).toBe('fr-FR');
+        });
+    });
+
+    describe('playExerciseAudio', () => {
+        it('plays the bundled file', async () => {
+            expect(await playExerciseAudio({ src: 'assets/audio/hund.mp3', text: 'der Hund' })).toBe(true);
+            expect(MockAudio.played).toEqual(['assets/audio/hund.mp3']);
+            expect(spoken).toHaveLength(0);
+        });
+
+        it('falls back to speech when the file cannot be played', async () => {
+            MockAudio.fail = true;
+            expect(await playExerciseAudio({ src: 'assets/audio/missing.mp3', text: 'der Hund' })).toBe(true);
+            expect(spoken[0]).toMatchObject({ text: 'der Hund', lang: 'de-DE' });
+        });
+
+        it('speaks the text in the given language', async () => {
+            await playExerciseAudio({ text: 'the dog', lang: 'en-GB' });
+            expect(spoken[0]).toMatchObject({ text: 'the dog', lang: 'en-GB' });
+        });
+
+        it('plays nothing while sound is disabled', async () => {
+            expect(await playExerciseAudio({ src: 'assets/audio/hund.mp3', text: 'der Hund' }, false)).toBe(false);
+            expect(MockAudio.played).toHaveLength(0);
+            expect(spoken).toHaveLength(0);
+        });
+    });
+
+    describe('stopExerciseAudio', () => {
+        it('only stops the audio of the given owner', async () => {
+            const owner = Symbol('owner');
+            const playing = playExerciseAudio({ text: 'der Hund' }, true, owner);
+            speechSynthesisMock.cancel.mockClear();
+
+            stopExerciseAudio(Symbol('other'));
+            expect(speechSynthesisMock.cancel).not.toHaveBeenCalled();
+            stopExerciseAudio(owner);
+            expect(speechSynthesisMock.cancel).toHaveBeenCalledTimes(1);
+            await playing;
+        });
+
+        it('settles a file playback that is stopped', async () => {
+            MockAudio.hold = true;
+            const playing = playExerciseAudio({ src: 'assets/audio/hund.mp3' });
+            await Promise.resolve();
+
+            stopExerciseAudio();
+            await expect(playing).resolves.toBe(true);
+        });
+    });
+
+    describe('canPlayExerciseAudio', () => {
+        it('requires a file or speech synthesis for the text', () => {
+            expect(canPlayExerciseAudio({ text: 'der Hund' })).toBe(true);
+            vi.unstubAllGlobals();
+            expect(canPlayExerciseAudio({ text: 'der Hund' })).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,203 @@
+/**
+ * Tests for badge condition expressions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    addBadgeResult,
+    badgeTypeToExpression,
+    countBadgeResultIds,
+    evaluateBadgeExpression,
+    getBadgeResultIds,
+    getBadgeResultStatistics,
+    getBadgeStatistics,
+    getBadgeTypeIdentifier,
+    parseBadgeExpression,
+    validateBadgeExpression,
+    type BadgeStatistics,
+} from '../badgeExpression';
+import type { ExerciseResult } from '@/types/exercise';
+import type { UserProfile } from '@/types/profile';
+
+function createStats(overrides: Partial<BadgeStatistics> = {}): BadgeStatistics {
+    return {
+        totalStars: 0,
+        currentStreak: 0,
+        longestStreak: 0,
+        maxLevel: 0,
+        themesCompleted: 0,
+        badgesEarned: 0,
+        exercisesCompleted: 0,
+        perfectExercises: 0,
+        ...overrides,
+    };
+}
+
+function createResult(overrides: Partial<ExerciseResult> = {}): ExerciseResult {
+    return {
+        id: 'result-1',
+        childProfileId: 'profile-1',
+        exerciseId: 'ex-1',
+        areaId: 'reading',
+        themeId: 'animals',
+        level: 1,
+        correct: true,
+        score: 3,
+        attempts: 1,
+        timeSpentSeconds: 10,
+        completedAt: '2024-01-15T10:00:00Z',
+        ...overrides,
+    };
+}
+
+describe('evaluateBadgeExpression', () => {
+    it('compares identifiers with numbers', () => {
+        const stats = createStats({ perfectExercises: 10 });
+        expect(evaluateBadgeExpression('perfectExercises >= 10', stats)).toBe(true);
+        expect(evaluateBadgeExpression('perfectExercises > 10', stats)).toBe(false);
+        expect(evaluateBadgeExpression('perfectExercises == 10', stats)).toBe(true);
+        expect(evaluateBadgeExpression('perfectExercises != 10', stats)).toBe(false);
+    });
+
+    it('combines conditions with && and ||', () => {
+        const stats = createStats({ totalStars: 30, longestStreak: 2 });
+        expect(evaluateBadgeExpression('totalStars >= 25 && longestStreak >= 3', stats)).toBe(false);
+        expect(evaluateBadgeExpression('totalStars >= 25 || longestStreak >= 3', stats)).toBe(true);
+    });
+
+    it('supports keyword operators', () => {
+        const stats = createStats({ totalStars: 30, longestStreak: 2 });
+        expect(evaluateBadgeExpression('totalStars >= 25 and not (longestStreak >= 3)', stats)).toBe(true);
+        expect(evaluateBadgeExpression('totalStars < 10 or longestStreak == 2', stats)).toBe(true);
+    });
+
+    it('respects operator precedence and parentheses', () => {
+        const stats = createStats({ exercisesCompleted: 8, perfectExercises: 6 });
+        expect(evaluateBadgeExpression('perfectExercises * 2 >= exercisesCompleted + 4', stats)).toBe(true);
+        expect(evaluateBadgeExpression('perfectExercises / exercisesCompleted >= 0.75', stats)).toBe(true);
+        expect(evaluateBadgeExpression('(1 + 2) * 2 == 6', stats)).toBe(true);
+        expect(evaluateBadgeExpression('1 + 2 * 2 == 5', stats)).toBe(true);
+        expect(evaluateBadgeExpression('exercisesCompleted % 3 == 2', stats)).toBe(true);
+    });
+
+    it('treats division by zero as 0', () => {
+        expect(evaluateBadgeExpression('perfectExercises / exercisesCompleted >= 0', createStats())).toBe(true);
+    });
+
+    it('returns false for invalid expressions and unknown identifiers', () => {
+        const stats = createStats({ totalStars: 100 });
+        expect(evaluateBadgeExpression('totalStars >=', stats)).toBe(false);
+        expect(evaluateBadgeExpression('stars >= 1', stats)).toBe(false);
+        expect(evaluateBadgeExpression('constructor >= 0', stats)).toBe(false);
+        expect(evaluateBadgeExpression('alert(1)', stats)).toBe(false);
+    });
+});
+
+describe('parseBadgeExpression', () => {
+    it('builds a tree for a comparison', () => {
+        expect(parseBadgeExpression('totalStars >= 10')).toEqual({
+            kind: 'binary',
+            operator: '>=',
+            left: { kind: 'identifier', name: 'totalStars' },
+            right: { kind: 'number', value: 10 },
+        });
+    });
+
+    it('throws with the position of unexpected input', () => {
+        expect(() => parseBadgeExpression('totalStars >= 10)')).toThrow('position 16');
+        expect(() => parseBadgeExpression('totalStars ; 10')).toThrow("Unexpected character ';'");
+        expect(() => parseBadgeExpression('(totalStars >= 10')).toThrow("Expected ')'");
+    });
+});
+
+describe('validateBadgeExpression', () => {
+    it('accepts valid expressions', () => {
+        expect(validateBadgeExpression('exercisesCompleted >= 25 && maxLevel >= 2')).toEqual([]);
+    });
+
+    it('rejects unknown identifiers', () => {
+        const errors = validateBadgeExpression('exercises >= 25 || totalStars >= 3');
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toContain("Unknown identifier 'exercises'");
+    });
+
+    it('rejects syntax errors and empty expressions', () => {
+        expect(validateBadgeExpression('totalStars >= >= 3')).toHaveLength(1);
+        expect(validateBadgeExpression('  ')).toEqual(['Expression is empty']);
+    });
+});
+
+describe('badge statistics', () => {
+    it('counts distinct correct and perfect exercises', () => {
+        const results = [
+            createResult({ exerciseId: 'ex-1', score: 3 }),
+            createResult({ exerciseId: 'ex-1', score: 2 }),
+            createResult({ exerciseId: 'ex-2', score: 2 }),
+            createResult({ exerciseId: 'ex-3', correct: false, score: 0 }),
+        ];
+        expect(getBadgeResultStatistics(results)).toEqual({ exercisesCompleted: 2, perfectExercises: 1 });
+    });
+
+    it('adds a completed exercise once', () => {
+        const ids = getBadgeResultIds([createResult({ exerciseId: 'ex-1', score: 2 })]);
+        expect(countBadgeResultIds(addBadgeResult(ids, 'ex-2', 3))).toEqual({ exercisesCompleted: 2, perfectExercises: 1 });
+        expect(countBadgeResultIds(addBadgeResult(ids, 'ex-2', 2))).toEqual({ exercisesCompleted: 2, perfectExercises: 0 });
+        expect(addBadgeResult(ids, 'ex-1', 1)).toBe(ids);
+        expect(countBadgeResultIds(addBadgeResult(ids, 'ex-1', 3))).toEqual({ exercisesCompleted: 1, perfectExercises: 1 });
+    });
+
+    it('counts full stars of the configured maximum as perfect', () => {
+        const results = [
+            createResult({ exerciseId: 'ex-1', score: 2 }),
+            createResult({ exerciseId: 'ex-2', score: 1 }),
+        ];
+        expect(getBadgeResultStatistics(results, 2)).toEqual({ exercisesCompleted: 2, perfectExercises: 1 });
+
+        const ids = getBadgeResultIds(results, 2);
+        expect(countBadgeResultIds(addBadgeResult(ids, 'ex-3', 2, 2))).toEqual({ exercisesCompleted: 3, perfectExercises: 2 });
+        expect(countBadgeResultIds(addBadgeResult(ids, 'ex-3', 2))).toEqual({ exercisesCompleted: 3, perfectExercises: 1 });
+    });
+
+    it('derives profile statistics', () => {
+        const profile: UserProfile = {
+            id: 'profile-1',
+            nickname: 'Test',
+            avatarId: 'cat',
+            createdAt: '2024-01-01T00:00:00Z',
+            currentLevels: { reading: 2, writing: 4 },
+            totalStars: 42,
+            currentStreak: 3,
+            longestStreak: 7,
+            lastActiveDate: '2024-01-15',
+            themeProgress: {
+                animals: { unlocked: true, exercisesCompleted: 5, exercisesTotal: 5, starsEarned: 12, maxStars: 15 },
+                food: { unlocked: true, exercisesCompleted: 1, exercisesTotal: 5, starsEarned: 3, maxStars: 15 },
+            },
+            badges: [],
+        };
+
+        expect(getBadgeStatistics(profile, { exercisesCompleted: 6, perfectExercises: 2 })).toEqual({
+            totalStars: 42,
+            currentStreak: 3,
+            longestStreak: 7,
+            maxLevel: 4,
+            themesCompleted: 1,
+            badgesEarned: 0,
+            exercisesCompleted: 6,
+            perfectExercises: 2,
+        });
+    });
+});
+
+describe('badgeTypeToExpression', () => {
+    it('maps badge types from badges.json to expressions', () => {
+        expect(badgeTypeToExpression('perfect_exercises', 10)).toBe('perfectExercises >= 10');
+        expect(badgeTypeToExpression('streak_days', 7)).toBe('longestStreak >= 7');
+        expect(badgeTypeToExpression('star_milestone', 25)).toBe('totalStars >= 25');
+    });
+
+    it('returns undefined for types without a statistic', () => {
+        expect(badgeTypeToExpression('theme_completion', 1)).toBeUndefined();
+        expect(getBadgeTypeIdentifier('toString')).toBeUndefined();
+    });
+});
@@ -231,6 +231,24 @@ describe('checkAllBadges', () => {
         expect(result[0]?.earnedAt).toBeDefined();
         expect(typeof result[0]?.earnedAt).toBe('string');
     });
+
+    it('evaluates checkExpression with result statistics', () => {
+        const profile = createMockProfile();
+        const definitions = [
+            { badge: { id: 'perfect-score', name: 'Perfect', description: '', icon: '💯' }, checkExpression: 'perfectExercises >= 10' },
+            { badge: { id: 'first-steps', name: 'First steps', description: '', icon: '🌟' }, checkExpression: 'exercisesCompleted >= 5' },
+        ];
+        const result = checkAllBadges(profile, definitions, { exercisesCompleted: 12, perfectExercises: 4 });
+        expect(result.map(b => b.id)).toEqual(['first-steps']);
+    });
+
+    it('does not award badges with invalid expressions', () => {
+        const profile = createMockProfile({ totalStars: 100 });
+        const definitions = [
+            { badge: { id: 'broken', name: 'Broken', description: '', icon: '❓' }, checkExpression: 'totalStars >=' },
+        ];
+        expect(checkAllBadges(profile, definitions)).toEqual([]);
+    });
 });
 
 describe('getBadgeProgress', () => {
@@ -0,0 +1,127 @@
+/**
+ * Tests for the crossword layout.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    checkCrossword,
+    generateCrossword,
+    getCrosswordCellKey,
+    getCrosswordWordCells,
+    isCrosswordWord,
+    normalizeCrosswordWord,
+    type CrosswordLayout,
+} from '../crossword';
+import type { CrosswordEntry } from '@/types/exercise';
+
+const entries: CrosswordEntry[] = [
+    { word: 'Apfel', clue: 'Er ist rot oder grün und wächst am Baum.' },
+    { word: 'Birne', clue: 'Sie sieht aus wie eine Glühbirne.' },
+    { word: 'Banane', clue: 'Sie ist gelb und krumm.' },
+    { word: 'Kirsche', clue: 'Sie ist klein, rot und hat einen Kern.' },
+    { word: 'Traube', clue: 'Aus ihr macht man Saft.' },
+    { word: 'Melone', clue: 'Sie ist groß, rund und saftig.' },
+];
+
+/**
+ * Fill in the solution, optionally leaving out or changing some cells.
+ */
+function solve(layout: CrosswordLayout, changes: Record<string, string> = {}): Record<string, string> {
+    const letters: Record<string, string> = {};
+    layout.grid.forEach((row, r) => row.forEach((letter, c) => {
+        if (letter !== null) letters[getCrosswordCellKey(r, c)] = letter.toLowerCase();
+    }));
+    return { ...letters, ...changes };
+}
+
+describe('crossword', () => {
+    describe('normalizeCrosswordWord', () => {
+        it('splits words into upper-case letters', () => {
+            expect(normalizeCrosswordWord(' Bär ')).toEqual(['B', 'Ä', 'R']);
+            expect(normalizeCrosswordWord('Fuß')).toEqual(['F', 'U', 'ß']);
+        });
+    });
+
+    describe('isCrosswordWord', () => {
+        it('accepts single words of letters', () => {
+            expect(isCrosswordWord('Straße')).toBe(true);
+            expect(isCrosswordWord('ice cream')).toBe(false);
+            expect(isCrosswordWord('A1')).toBe(false);
+            expect(isCrosswordWord('a')).toBe(false);
+        });
+    });
+
+    describe('generateCrossword', () => {
+        it('places every word so that the letters match the grid', () => {
+            const layout = generateCrossword(entries);
+            expect(layout.unplaced).toEqual([]);
+            expect(layout.placements).toHaveLength(entries.length);
+
+            for (const placement of layout.placements) {
+                const letters = getCrosswordWordCells(placement).map(({ row, col }) => layout.grid[row]?.[col]);
+                expect(letters).toEqual(normalizeCrosswordWord(entries[placement.entryIndex]?.word ?? ''));
+                expect(placement.clue).toBe(entries[placement.entryIndex]?.clue);
+            }
+        });
+
+        it('connects all words through crossings', () => {
+            const layout = generateCrossword(entries);
+            const letterCells = layout.grid.flat().filter((letter) => letter !== null).length;
+            const wordCells = layout.placements.reduce((sum, p) => sum + p.answer.length, 0);
+            // Every word after the first shares at least one cell
+            expect(wordCells - letterCells).toBeGreaterThanOrEqual(entries.length - 1);
+        });
+
+        it('is deterministic for a seed', () => {
+            expect(generateCrossword(entries, 7)).toEqual(generateCrossword(entries, 7));
+            const layouts = [1, 2, 3, 4, 5].map((seed) => JSON.stringify(generateCrossword(entries, seed).grid));
+            expect(new Set(layouts).size).toBeGreaterThan(1);
+        });
+
+        it('numbers the first cells row by row', () => {
+            const { placements } = generateCrossword(entries);
+            const starts = placements.map((p) => [p.row, p.col, p.number] as const);
+            for (let i = 1; i < starts.length; i++) {
+                const [row, col, number] = starts[i] ?? [0, 0, 0];
+                const [prevRow, prevCol, prevNumber] = starts[i - 1] ?? [0, 0, 0];
+                expect(row > prevRow || (row === prevRow && col >= prevCol)).toBe(true);
+                expect(number).toBe(row === prevRow && col === prevCol ? prevNumber : prevNumber + 1);
+            }
+            expect(placements[0]?.number).toBe(1);
+        });
+
+        it('lists words that cannot cross the others', () => {
+            const layout = generateCrossword([
+                { word: 'Hund', clue: 'Er bellt.' },
+                { word: 'Nase', clue: 'Damit riechst du.' },
+                { word: 'Flo', clue: 'Ein Name.' },
+            ]);
+            expect(layout.unplaced).toEqual([2]);
+            expect(layout.placements).toHaveLength(2);
+        });
+    });
+
+    describe('checkCrossword', () => {
+        const layout = generateCrossword(entries);
+
+        it('accepts the solution in any case', () => {
+            expect(checkCrossword(layout, solve(layout))).toEqual({
+                correct: true,
+                wrongCells: [],
+                solvedWords: layout.placements.map((p) => p.entryIndex),
+            });
+        });
+
+        it('reports wrong and empty cells', () => {
+            const apfel = layout.placements.find((p) => p.entryIndex === 0);
+            const [first, second] = apfel ? getCrosswordWordCells(apfel) : [];
+            const firstKey = getCrosswordCellKey(first?.row ?? 0, first?.col ?? 0);
+            const secondKey = getCrosswordCellKey(second?.row ?? 0, second?.col ?? 0);
+
+            const result = checkCrossword(layout, solve(layout, { [firstKey]: 'x', [secondKey]: '' }));
+            expect(result.correct).toBe(false);
+            expect(result.wrongCells.sort()).toEqual([firstKey, secondKey].sort());
+            expect(result.solvedWords).not.toContain(0);
+        });
+    });
+});
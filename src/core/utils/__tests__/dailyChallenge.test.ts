@@ -0,0 +1,148 @@
+/**
+ * Tests for daily challenge utility functions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getDailyChallengeExercises,
+    getDailyChallengeDateKey,
+    getDailyChallengeSeed,
+    getDailyChallengeRoundSeed,
+    getDailyChallengeRound,
+    calculateDailyChallengeStars,
+    DAILY_CHALLENGE_SIZE,
+} from '../dailyChallenge';
+import type { Exercise, ExerciseResult } from '@/types';
+
+/**
+ * Create a minimal exercise for selection tests.
+ */
+function createExercise(id: string, themeId: string): Exercise {
+    return {
+        id,
+        type: 'multiple-choice',
+        areaId: 'area-1',
+        themeId,
+        level: 1,
+        difficulty: 1,
+        instruction: 'Choose',
+        content: { type: 'multiple-choice', question: 'Q', options: ['a', 'b'], correctIndex: 0 },
+        hints: [],
+        feedbackCorrect: 'Yes',
+        feedbackIncorrect: 'No',
+    };
+}
+
+/**
+ * Create a minimal result for star tests.
+ */
+function createResult(exerciseId: string, correct: boolean): ExerciseResult {
+    return {
+        id: `result-${exerciseId}-${correct}`,
+        childProfileId: 'profile-1',
+        exerciseId,
+        areaId: 'area-1',
+        themeId: 'theme-1',
+        level: 1,
+        correct,
+        score: correct ? 3 : 0,
+        attempts: 1,
+        timeSpentSeconds: 10,
+        completedAt: '2024-03-05T10:00:00Z',
+    };
+}
+
+// 8 themes with 3 exercises each
+const exercises: Exercise[] = Array.from({ length: 24 }, (_, i) =>
+    createExercise(`ex-${i}`, `theme-${i % 8}`)
+);
+
+const date = new Date(2024, 2, 5);
+
+describe('getDailyChallengeDateKey', () => {
+    it('formats the local date as YYYY-MM-DD', () => {
+        expect(getDailyChallengeDateKey(date)).toBe('2024-03-05');
+    });
+});
+
+describe('getDailyChallengeSeed', () => {
+    it('combines year, month and day', () => {
+        expect(getDailyChallengeSeed(date)).toBe(20240305);
+    });
+});
+
+describe('getDailyChallengeRoundSeed', () => {
+    it('uses a different seed for the bonus round', () => {
+        expect(getDailyChallengeRoundSeed('daily', date)).toBe(20240305);
+        expect(getDailyChallengeRoundSeed('bonus', date)).not.toBe(20240305);
+    });
+});
+
+describe('getDailyChallengeRound', () => {
+    it('maps the route theme IDs to rounds', () => {
+        expect(getDailyChallengeRound('daily')).toBe('daily');
+        expect(getDailyChallengeRound('daily-bonus')).toBe('bonus');
+        expect(getDailyChallengeRound('animals')).toBeNull();
+        expect(getDailyChallengeRound(undefined)).toBeNull();
+    });
+});
+
+describe('getDailyChallengeExercises', () => {
+    it('selects one exercise per theme', () => {
+        const selected = getDailyChallengeExercises(exercises, 'daily', date);
+        expect(selected).toHaveLength(DAILY_CHALLENGE_SIZE);
+        expect(new Set(selected.map((e) => e.themeId)).size).toBe(DAILY_CHALLENGE_SIZE);
+    });
+
+    it('is deterministic for the same date', () => {
+        const first = getDailyChallengeExercises(exercises, 'daily', date);
+        const second = getDailyChallengeExercises(exercises, 'daily', new Date(2024, 2, 5, 18, 30));
+        expect(second.map((e) => e.id)).toEqual(first.map((e) => e.id));
+    });
+
+    it('changes with the date', () => {
+        const selections = [5, 6, 7, 8].map((day) =>
+            getDailyChallengeExercises(exercises, 'daily', new Date(2024, 2, day)).map((e) => e.id).join(',')
+        );
+        expect(new Set(selections).size).toBeGreaterThan(1);
+    });
+
+    it('picks a bonus round without repeating daily exercises', () => {
+        const daily = getDailyChallengeExercises(exercises, 'daily', date);
+        const bonus = getDailyChallengeExercises(exercises, 'bonus', date);
+        const dailyIds = new Set(daily.map((e) => e.id));
+
+        expect(bonus).toHaveLength(DAILY_CHALLENGE_SIZE);
+        expect(bonus.some((e) => dailyIds.has(e.id))).toBe(false);
+    });
+
+    it('returns fewer exercises when there are fewer themes', () => {
+        const small = [createExercise('a', 't1'), createExercise('b', 't2')];
+        expect(getDailyChallengeExercises(small, 'daily', date)).toHaveLength(2);
+    });
+
+    it('returns an empty array without exercises', () => {
+        expect(getDailyChallengeExercises([], 'daily', date)).toEqual([]);
+        expect(getDailyChallengeExercises([], 'bonus', date)).toEqual([]);
+    });
+});
+
+describe('calculateDailyChallengeStars', () => {
+    it('awards one star per correctly solved exercise', () => {
+        const results = [
+            createResult('ex-1', true),
+            createResult('ex-2', false),
+            createResult('ex-3', true),
+        ];
+        expect(calculateDailyChallengeStars(results)).toBe(2);
+    });
+
+    it('counts each exercise only once', () => {
+        const results = [createResult('ex-1', true), createResult('ex-1', true)];
+        expect(calculateDailyChallengeStars(results)).toBe(1);
+    });
+
+    it('returns 0 without results', () => {
+        expect(calculateDailyChallengeStars([])).toBe(0);
+    });
+});
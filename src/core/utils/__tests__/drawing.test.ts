@@ -0,0 +1,135 @@
+/**
+ * Tests for the drawing canvas utilities.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+    DEFAULT_DRAWING_COLORS,
+    drawStroke,
+    getDrawingColors,
+    getDrawingResults,
+    getDrawingSize,
+    isSvgPathData,
+    redrawStrokes,
+    toCanvasPoint,
+    type DrawingContext,
+} from '../drawing';
+import type { ExerciseResult } from '@/types/exercise';
+
+function createMockContext() {
+    return {
+        clearRect: vi.fn(),
+        beginPath: vi.fn(),
+        moveTo: vi.fn(),
+        lineTo: vi.fn(),
+        arc: vi.fn(),
+        stroke: vi.fn(),
+        fill: vi.fn(),
+        strokeStyle: '',
+        fillStyle: '',
+        lineWidth: 1,
+        lineCap: 'butt',
+        lineJoin: 'miter',
+        globalCompositeOperation: 'source-over',
+    } satisfies DrawingContext;
+}
+
+function createResult(id: string, completedAt: string, drawing?: string): ExerciseResult {
+    return {
+        id,
+        childProfileId: 'child-1',
+        exerciseId: `exercise-${id}`,
+        areaId: 'area',
+        themeId: 'theme',
+        level: 1,
+        correct: true,
+        score: 3,
+        attempts: 1,
+        timeSpentSeconds: 30,
+        completedAt,
+        ...(drawing !== undefined ? { drawing } : {}),
+    };
+}
+
+describe('drawing', () => {
+    describe('getDrawingSize and getDrawingColors', () => {
+        it('falls back to the default size', () => {
+            expect(getDrawingSize({})).toEqual({ width: 400, height: 300 });
+            expect(getDrawingSize({ width: 200, height: 200 })).toEqual({ width: 200, height: 200 });
+        });
+
+        it('prefers the exercise colours, then the theme palette', () => {
+            expect(getDrawingColors({ colors: ['#000000'] }, ['#ffffff'])).toEqual(['#000000']);
+            expect(getDrawingColors({ colors: [] }, ['#ffffff'])).toEqual(['#ffffff']);
+            expect(getDrawingColors({})).toEqual([...DEFAULT_DRAWING_COLORS]);
+        });
+    });
+
+    describe('toCanvasPoint', () => {
+        const rect = { left: 100, top: 50, width: 200, height: 150 };
+
+        it('scales the pointer position to canvas pixels', () => {
+            expect(toCanvasPoint(200, 125, rect, 400, 300)).toEqual({ x: 200, y: 150 });
+        });
+
+        it('moves points outside the canvas to the edge', () => {
+            expect(toCanvasPoint(50, 500, rect, 400, 300)).toEqual({ x: 0, y: 300 });
+        });
+    });
+
+    describe('drawStroke', () => {
+        it('draws a line through all points', () => {
+            const ctx = createMockContext();
+            drawStroke(ctx, { tool: 'pen', color: '#ef4444', width: 4, points: [{ x: 0, y: 0 }, { x: 10, y: 5 }, { x: 20, y: 0 }] });
+            expect(ctx.moveTo).toHaveBeenCalledWith(0, 0);
+            expect(ctx.lineTo).toHaveBeenCalledTimes(2);
+            expect(ctx.stroke).toHaveBeenCalledOnce();
+            expect(ctx.strokeStyle).toBe('#ef4444');
+        });
+
+        it('draws a single point as a dot', () => {
+            const ctx = createMockContext();
+            drawStroke(ctx, { tool: 'pen', color: '#000000', width: 4, points: [{ x: 5, y: 5 }] });
+            expect(ctx.arc).toHaveBeenCalledWith(5, 5, 2, 0, Math.PI * 2);
+            expect(ctx.fill).toHaveBeenCalledOnce();
+        });
+
+        it('clears with the eraser and restores the drawing mode', () => {
+            const ctx = createMockContext();
+            const modes: string[] = [];
+            ctx.stroke.mockImplementation(() => modes.push(ctx.globalCompositeOperation));
+            drawStroke(ctx, { tool: 'eraser', color: '#000000', width: 24, points: [{ x: 0, y: 0 }, { x: 5, y: 5 }] });
+            expect(modes).toEqual(['destination-out']);
+            expect(ctx.globalCompositeOperation).toBe('source-over');
+        });
+
+        it('redraws all strokes on a cleared canvas', () => {
+            const ctx = createMockContext();
+            const dot = { tool: 'pen' as const, color: '#000000', width: 4, points: [{ x: 1, y: 1 }] };
+            redrawStrokes(ctx, [dot, dot], 400, 300);
+            expect(ctx.clearRect).toHaveBeenCalledWith(0, 0, 400, 300);
+            expect(ctx.fill).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('isSvgPathData', () => {
+        it('accepts path data and rejects markup', () => {
+            expect(isSvgPathData('M 10 10 L 90 90 Z')).toBe(true);
+            expect(isSvgPathData('m10,10 a5,5 0 1,0 10,0')).toBe(true);
+            expect(isSvgPathData('<path d="M 0 0" />')).toBe(false);
+            expect(isSvgPathData('L 10 10')).toBe(false);
+        });
+    });
+
+    describe('getDrawingResults', () => {
+        it('keeps results with a PNG drawing, newest first', () => {
+            const results = [
+                createResult('old', '2026-01-01T10:00:00.000Z', 'data:image/png;base64,AAA'),
+                createResult('none', '2026-01-03T10:00:00.000Z'),
+                createResult('svg', '2026-01-04T10:00:00.000Z', 'data:image/svg+xml,<svg/>'),
+                createResult('new', '2026-01-02T10:00:00.000Z', 'data:image/png;base64,BBB'),
+            ];
+            expect(getDrawingResults(results).map((result) => result.id)).toEqual(['new', 'old']);
+        });
+    });
+});
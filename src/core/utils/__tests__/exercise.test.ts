@@ -0,0 +1,281 @@
+/**
+ * Tests for exercise answer validation utilities.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createMemoryDeck,
+    formatClockTime,
+    getClockHandAngles,
+    getHotspotRegionCenter,
+    getHotspotRegionResults,
+    getLongestCorrectSubsequence,
+    getMemoryAccuracy,
+    getNumberLineTicks,
+    isMemoryMatch,
+    parseClockTime,
+    parseClozeText,
+    parseNumberInput,
+    snapClockMinutes,
+    snapToNumberLine,
+    validateClockAnswer,
+    validateClozeTextAnswer,
+    validateHotspotAnswer,
+    validateNumberLineAnswer,
+    validateSequenceAnswer,
+} from '../exercise';
+import type {
+    ClockContent,
+    ClozeTextContent,
+    HotspotContent,
+    MemoryContent,
+    NumberLineContent,
+    SequenceContent,
+} from '@/types/exercise';
+
+const cloze: ClozeTextContent = {
+    type: 'cloze-text',
+    text: 'Der {{1}} bellt. Die {{2}} miaut. Der {{3}} muht.',
+    blanks: [
+        { id: 1, correctAnswer: 'Hund', acceptableAnswers: ['Dackel'] },
+        { id: 2, correctAnswer: 'Katze', options: ['Katze', 'Kuh'] },
+        { id: 3, correctAnswer: 'Stier' },
+    ],
+};
+
+describe('parseClozeText', () => {
+    it('splits the text at numbered placeholders', () => {
+        expect(parseClozeText('Der {{1}} bellt, die {{12}}.')).toEqual([
+            { kind: 'text', text: 'Der ' },
+            { kind: 'blank', blankId: 1 },
+            { kind: 'text', text: ' bellt, die ' },
+            { kind: 'blank', blankId: 12 },
+            { kind: 'text', text: '.' },
+        ]);
+    });
+
+    it('returns the whole text without placeholders', () => {
+        expect(parseClozeText('Kein Platzhalter')).toEqual([{ kind: 'text', text: 'Kein Platzhalter' }]);
+    });
+});
+
+describe('validateClozeTextAnswer', () => {
+    it('scores every blank on its own', () => {
+        const result = validateClozeTextAnswer(cloze, { 1: ' Dackel ', 2: 'Katze', 3: 'Ochse' });
+        expect(result.results).toEqual({ 1: true, 2: true, 3: false });
+        expect(result.accuracy).toBeCloseTo(2 / 3);
+        expect(result.correct).toBe(false);
+    });
+
+    it('requires all blanks unless a lower pass ratio is set', () => {
+        expect(validateClozeTextAnswer(cloze, { 1: 'Hund', 2: 'Katze', 3: 'Stier' }).correct).toBe(true);
+
+        const lenient = { ...cloze, passRatio: 0.5 };
+        expect(validateClozeTextAnswer(lenient, { 1: 'Hund', 2: 'Katze' }).correct).toBe(true);
+        expect(validateClozeTextAnswer(lenient, { 1: 'Hund' }).correct).toBe(false);
+    });
+
+    it('flags case errors unless checking is case-insensitive', () => {
+        const sensitive = validateClozeTextAnswer(cloze, { 1: 'hund' });
+        expect(sensitive.results[1]).toBe(false);
+        expect(sensitive.caseErrors[1]).toBe(true);
+
+        const insensitive = validateClozeTextAnswer({ ...cloze, caseSensitive: false }, { 1: 'hund' });
+        expect(insensitive.results[1]).toBe(true);
+        expect(insensitive.caseErrors[1]).toBe(false);
+    });
+});
+
+describe('number line', () => {
+    const line: NumberLineContent = {
+        type: 'number-line',
+        mode: 'place',
+        question: 'Wo liegt die 0,7?',
+        min: 0,
+        max: 1,
+        tickInterval: 0.1,
+        target: 0.7,
+    };
+
+    it('creates ticks without floating point drift', () => {
+        const ticks = getNumberLineTicks(line);
+        expect(ticks).toHaveLength(11);
+        expect(ticks[3]).toBe(0.3);
+        expect(ticks[10]).toBe(1);
+    });
+
+    it('snaps to the step and clamps to the line', () => {
+        expect(snapToNumberLine(line, 0.66)).toBe(0.7);
+        expect(snapToNumberLine({ ...line, step: 0.05 }, 0.66)).toBe(0.65);
+        expect(snapToNumberLine(line, -3)).toBe(0);
+        expect(snapToNumberLine(line, 1.4)).toBe(1);
+    });
+
+    it('parses numbers with a decimal comma or point', () => {
+        expect(parseNumberInput('0,7')).toBe(0.7);
+        expect(parseNumberInput(' 12.5 ')).toBe(12.5);
+        expect(parseNumberInput('-3')).toBe(-3);
+        expect(parseNumberInput('sieben')).toBeNull();
+        expect(parseNumberInput('')).toBeNull();
+    });
+
+    it('accepts answers within the tolerance', () => {
+        expect(validateNumberLineAnswer(line, 0.7)).toBe(true);
+        expect(validateNumberLineAnswer(line, 0.8)).toBe(false);
+        expect(validateNumberLineAnswer({ ...line, tolerance: 0.1 }, 0.8)).toBe(true);
+        expect(validateNumberLineAnswer(line, null)).toBe(false);
+    });
+});
+
+describe('clock', () => {
+    const clock: ClockContent = {
+        type: 'clock',
+        mode: 'read',
+        question: 'Wie spät ist es?',
+        time: '15:30',
+    };
+
+    it('parses and formats digital times', () => {
+        expect(parseClockTime('15:30')).toBe(930);
+        expect(parseClockTime('7.05 Uhr')).toBe(425);
+        expect(parseClockTime('24:00')).toBeNull();
+        expect(parseClockTime('halb vier')).toBeNull();
+        expect(formatClockTime(425)).toBe('7:05');
+        expect(formatClockTime(-30)).toBe('23:30');
+    });
+
+    it('moves the hour hand on with the minutes', () => {
+        expect(getClockHandAngles(930)).toEqual({ hour: 105, minute: 180 });
+        expect(getClockHandAngles(0)).toEqual({ hour: 0, minute: 0 });
+    });
+
+    it('snaps to the minute step and wraps around the dial', () => {
+        expect(snapClockMinutes(93)).toBe(95);
+        expect(snapClockMinutes(93, 15)).toBe(90);
+        expect(snapClockMinutes(-5)).toBe(715);
+        expect(snapClockMinutes(725)).toBe(5);
+    });
+
+    it('accepts either half of the day unless 24-hour answers are required', () => {
+        expect(validateClockAnswer(clock, 210)).toBe(true);
+        expect(validateClockAnswer(clock, 930)).toBe(true);
+        expect(validateClockAnswer(clock, 240)).toBe(false);
+        expect(validateClockAnswer({ ...clock, answerFormat: '24h' }, 210)).toBe(false);
+        expect(validateClockAnswer({ ...clock, answerFormat: '24h' }, 930)).toBe(true);
+        expect(validateClockAnswer({ ...clock, mode: 'set', answerFormat: '24h' }, 210)).toBe(true);
+        expect(validateClockAnswer(clock, null)).toBe(false);
+    });
+});
+
+describe('hotspot', () => {
+    const hotspot: HotspotContent = {
+        type: 'hotspot',
+        question: 'Tippe auf alle Blätter.',
+        image: { src: 'assets/images/pflanze.svg', alt: 'Eine Blume' },
+        width: 200,
+        height: 300,
+        regions: [
+            { id: 'bluete', label: 'Blüte', shape: 'circle', cx: 100, cy: 50, r: 40 },
+            { id: 'blatt-links', label: 'Linkes Blatt', shape: 'polygon', points: [[40, 150], [90, 140], [90, 170]] },
+            { id: 'blatt-rechts', label: 'Rechtes Blatt', shape: 'polygon', points: [[110, 140], [160, 150], [110, 170]] },
+        ],
+        correctRegionIds: ['blatt-links', 'blatt-rechts'],
+    };
+
+    it('needs exactly the regions asked for', () => {
+        expect(validateHotspotAnswer(hotspot, ['blatt-rechts', 'blatt-links'])).toBe(true);
+        expect(validateHotspotAnswer(hotspot, ['blatt-links'])).toBe(false);
+        expect(validateHotspotAnswer(hotspot, ['blatt-links', 'blatt-rechts', 'bluete'])).toBe(false);
+        expect(validateHotspotAnswer(hotspot, [])).toBe(false);
+    });
+
+    it('gives a result for every region', () => {
+        expect(getHotspotRegionResults(hotspot, ['bluete', 'blatt-links'])).toEqual({
+            'bluete': 'incorrect',
+            'blatt-links': 'correct',
+            'blatt-rechts': 'missed',
+        });
+        expect(getHotspotRegionResults({ ...hotspot, correctRegionIds: ['blatt-links'] }, [])['bluete']).toBe('neutral');
+    });
+
+    it('finds the center of circles and polygons', () => {
+        expect(getHotspotRegionCenter({ id: 'a', label: 'A', shape: 'circle', cx: 10, cy: 20, r: 5 })).toEqual({ x: 10, y: 20 });
+        expect(getHotspotRegionCenter({ id: 'b', label: 'B', shape: 'polygon', points: [[0, 0], [30, 0], [30, 30], [0, 30]] }))
+            .toEqual({ x: 15, y: 15 });
+    });
+});
+
+describe('sequence', () => {
+    const sequence: SequenceContent = {
+        type: 'sequence',
+        correctOrder: ['A', 'B', 'C', 'D'],
+        alternateOrders: [['B', 'A', 'C', 'D']],
+    };
+
+    it('finds the longest run of cards in the right relative order', () => {
+        expect(getLongestCorrectSubsequence(['A', 'B', 'C', 'D'], ['A', 'B', 'C', 'D'])).toEqual([0, 1, 2, 3]);
+        expect(getLongestCorrectSubsequence(['D', 'A', 'B', 'C'], ['A', 'B', 'C', 'D'])).toEqual([1, 2, 3]);
+        expect(getLongestCorrectSubsequence(['D', 'C', 'B', 'A'], ['A', 'B', 'C', 'D'])).toHaveLength(1);
+        expect(getLongestCorrectSubsequence(['X', 'A'], ['A', 'B'])).toEqual([1]);
+        expect(getLongestCorrectSubsequence([], ['A', 'B'])).toEqual([]);
+    });
+
+    it('accepts the correct and alternate orders', () => {
+        expect(validateSequenceAnswer(sequence, ['A', 'B', 'C', 'D'])).toEqual({
+            correct: true,
+            accuracy: 1,
+            inOrder: [true, true, true, true],
+        });
+        expect(validateSequenceAnswer(sequence, ['B', 'A', 'C', 'D']).correct).toBe(true);
+    });
+
+    it('scores the share of cards in order', () => {
+        const result = validateSequenceAnswer(sequence, ['D', 'A', 'C', 'B']);
+        expect(result.correct).toBe(false);
+        expect(result.accuracy).toBe(0.5);
+        expect(result.inOrder.filter(Boolean)).toHaveLength(2);
+    });
+
+    it('solves with partial credit from the pass ratio', () => {
+        const partial = { ...sequence, partialCredit: true, passRatio: 0.75 };
+        expect(validateSequenceAnswer(partial, ['D', 'A', 'B', 'C']).correct).toBe(true);
+        expect(validateSequenceAnswer(partial, ['D', 'A', 'C', 'B']).correct).toBe(false);
+    });
+});
+
+describe('memory', () => {
+    const memory: MemoryContent = {
+        type: 'memory',
+        pairs: [
+            { left: 'Hund', right: 'dog' },
+            { left: 'Katze', right: 'cat' },
+            { left: '🍎', right: '🍎' },
+        ],
+    };
+
+    it('deals two cards per pair', () => {
+        const deck = createMemoryDeck(memory);
+        expect(deck).toHaveLength(6);
+        expect(deck.map((card) => card.id).sort()).toEqual(['0-left', '0-right', '1-left', '1-right', '2-left', '2-right']);
+    });
+
+    it('lays out the cards the same way for the same seed', () => {
+        const ids = (seed: number) => createMemoryDeck(memory, seed).map((card) => card.id);
+        expect(ids(20261019)).toEqual(ids(20261019));
+        expect(ids(20261019)).not.toEqual(ids(20261020));
+    });
+
+    it('matches the two cards of a pair, even with the same text', () => {
+        const [hund, dog, , , apple1, apple2] = createMemoryDeck(memory, 1).sort((a, b) => a.id.localeCompare(b.id));
+        expect(hund && dog && isMemoryMatch(hund, dog)).toBe(true);
+        expect(apple1 && apple2 && isMemoryMatch(apple1, apple2)).toBe(true);
+        expect(hund && apple1 && isMemoryMatch(hund, apple1)).toBe(false);
+        expect(hund && isMemoryMatch(hund, hund)).toBe(false);
+    });
+
+    it('scores by the number of flips', () => {
+        expect(getMemoryAccuracy(4, 8)).toBe(1);
+        expect(getMemoryAccuracy(4, 12)).toBe(1);
+        expect(getMemoryAccuracy(4, 24)).toBe(0.5);
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for parameterised exercise templates.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    drawTemplateValues,
+    expandExerciseTemplate,
+    expandExerciseTemplates,
+    fillTemplateText,
+    getTemplatePlaceholders,
+    getTemplateSeed,
+} from '../exerciseTemplate';
+import { createSeededRandom } from '../shuffle';
+import type { Exercise, ExerciseTemplate } from '@/types/exercise';
+
+function createTemplateExercise(overrides: Partial<Exercise> = {}): Exercise {
+    return {
+        id: 'math-add-template',
+        type: 'arithmetic',
+        areaId: 'arithmetic',
+        themeId: 'numbers',
+        level: 1,
+        difficulty: 1,
+        instruction: 'Rechne {a} + {b}.',
+        content: { type: 'arithmetic', mode: 'input', question: '{a} + {b} = ?', answer: '{answer}' },
+        hints: ['Rechne zuerst {a} + {b}.'],
+        feedbackCorrect: 'Richtig, {answer}!',
+        feedbackIncorrect: '{a} + {b} = {answer}',
+        template: {
+            variables: { a: { min: 1, max: 9 }, b: { min: 1, max: 9 } },
+            formulas: { answer: 'a + b' },
+        },
+        ...overrides,
+    };
+}
+
+describe('exerciseTemplate', () => {
+    describe('drawTemplateValues', () => {
+        it('draws values in range and computes formulas', () => {
+            const template: ExerciseTemplate = {
+                variables: { a: { min: 10, max: 20, step: 5 }, b: { min: 0, max: 3, exclude: [0] } },
+                formulas: { sum: 'a + b', answer: 'sum * 2' },
+            };
+            const random = createSeededRandom(7);
+            for (let i = 0; i < 20; i++) {
+                const draw = drawTemplateValues(template, random);
+                expect(draw).not.toBeNull();
+                const { a = NaN, b = NaN, sum, answer } = draw?.values ?? {};
+                expect([10, 15, 20]).toContain(a);
+                expect([1, 2, 3]).toContain(b);
+                expect(sum).toBe(a + b);
+                expect(answer).toBe((a + b) * 2);
+            }
+        });
+
+        it('redraws until the constraints are met', () => {
+            const template: ExerciseTemplate = {
+                variables: { a: { min: 1, max: 20 }, b: { min: 1, max: 20 } },
+                constraints: ['a > b', 'a % b == 0'],
+            };
+            const random = createSeededRandom(3);
+            for (let i = 0; i < 20; i++) {
+                const { a = 0, b = 1 } = drawTemplateValues(template, random)?.values ?? {};
+                expect(a).toBeGreaterThan(b);
+                expect(a % b).toBe(0);
+            }
+        });
+
+        it('returns null when no draw meets the constraints', () => {
+            const template: ExerciseTemplate = {
+                variables: { a: { min: 1, max: 5 } },
+                constraints: ['a > 5'],
+            };
+            expect(drawTemplateValues(template, createSeededRandom(1))).toBeNull();
+        });
+
+        it('keeps unique distractors that differ from the answer', () => {
+            const template: ExerciseTemplate = {
+                variables: { a: { min: 0, max: 0 } },
+                formulas: { answer: 'a + 1' },
+                distractors: ['answer + 1', 'answer - 1', 'answer - 2', 'answer + 1', 'a + 1'],
+            };
+            expect(drawTemplateValues(template, createSeededRandom(1))?.distractors).toEqual([2, 0]);
+        });
+    });
+
+    describe('fillTemplateText', () => {
+        it('replaces known placeholders and formats numbers for the locale', () => {
+            expect(fillTemplateText('{a} + {b} = {c}', { a: 2.5, b: 1000 }, 'de')).toBe('2,5 + 1000 = {c}');
+            expect(fillTemplateText('{a}', { a: 2.5 }, 'en')).toBe('2.5');
+        });
+
+        it('leaves double-brace placeholders alone', () => {
+            expect(fillTemplateText('Ich habe {{blank}} und {a}.', { a: 3, blank: 1 })).toBe('Ich habe {{blank}} und 3.');
+            expect(getTemplatePlaceholders('{{1}} {a} {b_2}')).toEqual(['a', 'b_2']);
+        });
+    });
+
+    describe('expandExerciseTemplate', () => {
+        it('fills every text and keeps the template ID', () => {
+            const exercise = expandExerciseTemplate(createTemplateExercise(), 42);
+            expect(exercise).not.toBeNull();
+            expect(exercise?.id).toBe('math-add-template');
+            expect(exercise?.template).toBeUndefined();
+
+            const match = /^Rechne (\d) \+ (\d)\.$/.exec(exercise?.instruction ?? '');
+            expect(match).not.toBeNull();
+            const sum = Number(match?.[1]) + Number(match?.[2]);
+            expect(exercise?.content).toEqual({
+                type: 'arithmetic',
+                mode: 'input',
+                question: `${match?.[1]} + ${match?.[2]} = ?`,
+                answer: String(sum),
+            });
+            expect(exercise?.feedbackCorrect).toBe(`Richtig, ${sum}!`);
+            expect(exercise?.hints[0]).toContain(`${match?.[1]} + ${match?.[2]}`);
+        });
+
+        it('draws the same numbers for the same seed', () => {
+            const template = createTemplateExercise();
+            expect(expandExerciseTemplate(template, 5)).toEqual(expandExerciseTemplate(template, 5));
+        });
+
+        it('uses a fixed template seed in every session', () => {
+            const template = createTemplateExercise({
+                template: { variables: { a: { min: 1, max: 1000 }, b: { min: 1, max: 1000 } }, formulas: { answer: 'a + b' }, seed: 9 },
+            });
+            expect(getTemplateSeed(template, 1)).toBe(9);
+            expect(expandExerciseTemplate(template, 1)).toEqual(expandExerciseTemplate(template, 2));
+        });
+
+        it('turns placeholders in number fields into numbers', () => {
+            const exercise = expandExerciseTemplate(createTemplateExercise({
+                content: { type: 'arithmetic', mode: 'column', operands: ['{a}', '{b}'] as unknown as number[], operation: '+' },
+                template: { variables: { a: { min: 100, max: 100 }, b: { min: 250, max: 250 } } },
+            }), 1);
+            expect(exercise?.content).toEqual({ type: 'arithmetic', mode: 'column', operands: [100, 250], operation: '+' });
+        });
+
+        it('builds multiple choice options from the answer and the distractors', () => {
+            const exercise = expandExerciseTemplate(createTemplateExercise({
+                type: 'multiple-choice',
+                content: { type: 'multiple-choice', question: 'Wie viele Äpfel sind {a} und {b}?', options: [], correctIndex: 0 },
+                template: {
+                    variables: { a: { min: 2, max: 5 }, b: { min: 2, max: 5 } },
+                    formulas: { answer: 'a + b' },
+                    distractors: ['answer + 1', 'answer - 1', 'a * b'],
+                },
+            }), 11);
+            const content = exercise?.content;
+            expect(content?.type).toBe('multiple-choice');
+            if (content?.type !== 'multiple-choice') return;
+
+            const [a = 0, b = 0] = (content.question.match(/\d+/g) ?? []).map(Number);
+            expect(content.options[content.correctIndex]).toBe(String(a + b));
+            expect(new Set(content.options).size).toBe(content.options.length);
+            expect(content.options.length).toBeGreaterThanOrEqual(3);
+        });
+
+        it('returns exercises without a template unchanged', () => {
+            const plain = createTemplateExercise();
+            delete plain.template;
+            expect(expandExerciseTemplate(plain, 1)).toBe(plain);
+        });
+    });
+
+    describe('expandExerciseTemplates', () => {
+        it('leaves out templates that cannot be expanded', () => {
+            const broken = createTemplateExercise({
+                id: 'broken',
+                template: { variables: { a: { min: 1, max: 2 } }, constraints: ['a > 2'] },
+            });
+            const invalid = createTemplateExercise({
+                id: 'invalid',
+                template: { variables: { a: { min: 1, max: 2 } }, formulas: { answer: 'a +' } },
+            });
+            const expanded = expandExerciseTemplates([createTemplateExercise(), broken, invalid], 1);
+            expect(expanded.map((exercise) => exercise.id)).toEqual(['math-add-template']);
+        });
+    });
+});
@@ -0,0 +1,33 @@
+/**
+ * Tests for per-exercise-type settings.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { areHintsEnabled, getMaxAttempts, DEFAULT_MAX_ATTEMPTS } from '../exerciseTypeConfig';
+
+describe('getMaxAttempts', () => {
+    it('uses the default when the type is not configured', () => {
+        expect(getMaxAttempts('matching')).toBe(DEFAULT_MAX_ATTEMPTS);
+        expect(getMaxAttempts('matching', { 'fill-blank': { maxAttempts: 1 } })).toBe(DEFAULT_MAX_ATTEMPTS);
+        expect(getMaxAttempts('matching', { matching: { hintsEnabled: false } })).toBe(DEFAULT_MAX_ATTEMPTS);
+    });
+
+    it('uses the configured limit', () => {
+        expect(getMaxAttempts('multiple-choice', { 'multiple-choice': { maxAttempts: 1 } })).toBe(1);
+    });
+
+    it('treats 0 as unlimited', () => {
+        expect(getMaxAttempts('writing', { writing: { maxAttempts: 0 } })).toBe(Infinity);
+    });
+});
+
+describe('areHintsEnabled', () => {
+    it('enables hints by default', () => {
+        expect(areHintsEnabled('fill-blank')).toBe(true);
+        expect(areHintsEnabled('fill-blank', { 'fill-blank': { maxAttempts: 2 } })).toBe(true);
+    });
+
+    it('respects the configured setting', () => {
+        expect(areHintsEnabled('multiple-choice', { 'multiple-choice': { hintsEnabled: false } })).toBe(false);
+    });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for support plan (Foerderplan) utility functions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getSchoolYearPeriod,
+    getPrefilledLevel,
+    createFoerderplanEntry,
+    createFoerderplan,
+    alignFoerderplan,
+    hasFoerderplanContent,
+    escapeHtml,
+    renderFoerderplanHtml,
+    type FoerderplanPrintLabels,
+} from '../foerderplan';
+import { createObservationRecord } from '../observation';
+import type { Foerderplan, ObservationArea, ObservationRecord } from '@/types';
+
+/**
+ * Create an observation area with the given number of stages.
+ */
+function createArea(id: string, stageCount: number): ObservationArea {
+    return {
+        id,
+        name: `Area ${id}`,
+        category: 'Test',
+        stages: Array.from({ length: stageCount }, (_, i) => ({
+            level: i + 1,
+            label: `Stage ${i + 1}`,
+            description: '',
+            examples: [],
+        })),
+    };
+}
+
+const wortschatzArea = createArea('wortschatz', 3);
+const areas = [createArea('verbstellung', 4), wortschatzArea];
+
+const labels: FoerderplanPrintLabels = {
+    title: 'Support plan',
+    student: 'Student',
+    period: 'Period',
+    teachers: 'Teachers',
+    currentLevel: 'Current',
+    targetLevel: 'Target',
+    goalsConsolidate: 'Consolidate',
+    goalsPrepare: 'Prepare',
+    activitiesIntegrative: 'Integrative',
+    activitiesParallel: 'Parallel',
+    documentation: 'Documentation',
+    updatedAt: 'Updated',
+};
+
+const observation: ObservationRecord = {
+    ...createObservationRecord('student-1', 't1', []),
+    observations: [
+        { areaId: 'verbstellung', achievedLevel: 3, notes: '' },
+        { areaId: 'wortschatz', achievedLevel: 0, notes: '' },
+    ],
+};
+
+describe('getSchoolYearPeriod', () => {
+    it('starts the school year in September', () => {
+        expect(getSchoolYearPeriod(new Date(2025, 8, 1))).toBe('2025/26');
+        expect(getSchoolYearPeriod(new Date(2026, 5, 30))).toBe('2025/26');
+    });
+
+    it('pads the end year', () => {
+        expect(getSchoolYearPeriod(new Date(2099, 10, 1))).toBe('2099/00');
+    });
+});
+
+describe('getPrefilledLevel', () => {
+    it('prefers the observed level', () => {
+        expect(getPrefilledLevel('verbstellung', { observation, currentLevels: { verbstellung: 1 } })).toBe(3);
+    });
+
+    it('falls back to the profile level for unobserved areas', () => {
+        expect(getPrefilledLevel('wortschatz', { observation, currentLevels: { wortschatz: 2 } })).toBe(2);
+    });
+
+    it('returns 0 without any source', () => {
+        expect(getPrefilledLevel('wortschatz', {})).toBe(0);
+    });
+});
+
+describe('createFoerderplan', () => {
+    it('creates pre-filled entries for every area', () => {
+        const plan = createFoerderplan('student-1', '2025/26', areas, { observation });
+
+        expect(plan.id).toMatch(/^fp-/);
+        expect(plan.studentId).toBe('student-1');
+        expect(plan.period).toBe('2025/26');
+        expect(plan.entries.map((e) => [e.areaId, e.currentLevel, e.targetLevel])).toEqual([
+            ['verbstellung', 3, 4],
+            ['wortschatz', 0, 0],
+        ]);
+    });
+
+    it('does not target beyond the last stage', () => {
+        const plan = createFoerderplan('student-1', '2025/26', areas, { currentLevels: { wortschatz: 3 } });
+        expect(plan.entries.find((e) => e.areaId === 'wortschatz')?.targetLevel).toBe(3);
+    });
+});
+
+describe('alignFoerderplan', () => {
+    it('adds missing areas and keeps stored and unknown entries', () => {
+        const plan: Foerderplan = {
+            ...createFoerderplan('student-1', '2025/26', []),
+            entries: [
+                { ...createFoerderplanEntry(wortschatzArea, 1), goalsPrepare: 'kept' },
+                createFoerderplanEntry(createArea('removed-area', 2), 1),
+            ],
+        };
+
+        const aligned = alignFoerderplan(plan, areas, { observation });
+        expect(aligned.entries.map((e) => e.areaId)).toEqual(['verbstellung', 'wortschatz', 'removed-area']);
+        expect(aligned.entries[0]?.currentLevel).toBe(3);
+        expect(aligned.entries[1]?.goalsPrepare).toBe('kept');
+    });
+});
+
+describe('hasFoerderplanContent', () => {
+    it('ignores whitespace-only input', () => {
+        const [entry] = createFoerderplan('s', 'p', areas).entries;
+        expect(entry && hasFoerderplanContent({ ...entry, documentation: '   ' })).toBe(false);
+        expect(entry && hasFoerderplanContent({ ...entry, documentation: 'Wortkarten' })).toBe(true);
+    });
+});
+
+describe('escapeHtml', () => {
+    it('escapes markup characters', () => {
+        expect(escapeHtml('<b>"Tom" & \'Ana\'</b>')).toBe(
+            '&lt;b&gt;&quot;Tom&quot; &amp; &#39;Ana&#39;&lt;/b&gt;'
+        );
+    });
+});
+
+describe('renderFoerderplanHtml', () => {
+    const plan = createFoerderplan('student-1', '2025/26', areas, { observation });
+    const filledPlan: Foerderplan = {
+        ...plan,
+        involvedTeachers: ['Frau Berger'],
+        entries: plan.entries.map((e) =>
+            e.areaId === 'verbstellung' ? { ...e, goalsConsolidate: 'Verb <b>zweite</b> Stelle\nim Satz' } : e
+        ),
+    };
+
+    it('escapes teacher input and keeps line breaks', () => {
+        const html = renderFoerderplanHtml(filledPlan, 'Mia', areas, labels);
+        expect(html).toContain('Verb &lt;b&gt;zweite&lt;/b&gt; Stelle<br>im Satz');
+        expect(html).not.toContain('<b>zweite</b>');
+        expect(html).toContain('Frau Berger');
+        expect(html).toContain('3 – Stage 3');
+    });
+
+    it('only includes entries with content', () => {
+        const html = renderFoerderplanHtml(filledPlan, 'Mia', areas, labels);
+        expect(html).toContain('Area verbstellung');
+        expect(html).not.toContain('Area wortschatz');
+    });
+
+    it('includes all entries of an empty plan', () => {
+        const html = renderFoerderplanHtml(plan, 'Mia', areas, labels, 'en');
+        expect(html).toContain('<html lang="en">');
+        expect(html).toContain('Area verbstellung');
+        expect(html).toContain('Area wortschatz');
+    });
+});
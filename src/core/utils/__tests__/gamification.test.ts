@@ -17,15 +17,27 @@ import {
     formatOrdinal,
     getMotivationalMessage,
     calculateMaxStars,
+    getMaxExerciseStars,
     DEFAULT_STARS_PER_LEVEL,
     calculateGlobalLevel,
     getAccessibleLevelForTheme,
     isLevelAccessible,
     isLevelCompleted,
     getNextLevelRequirement,
+    getLevelNumbers,
+    resolveLevelProgression,
     MAX_THEME_LEVEL,
+    calculateTimeStars,
+    evaluateScoringCondition,
+    validateScoringCondition,
+    applyScoringRules,
+    calculateStarsForStrategy,
+    getExpectedTimeSeconds,
+    calculateExerciseStars,
+    applyPartialCredit,
 } from '../gamification';
-import type { Streak } from '@/types/gamification';
+import type { ScoringParams, Streak } from '@/types/gamification';
+import type { ScoringRule } from '@/types/config';
 
 describe('calculateStars', () => {
     it('returns 3 stars for first attempt', () => {
@@ -60,6 +72,188 @@ describe('calculateStars', () => {
     });
 });
 
+describe('calculateTimeStars', () => {
+    it('awards 3 stars within the expected time', () => {
+        expect(calculateTimeStars(8, 10)).toBe(3);
+        expect(calculateTimeStars(10, 10)).toBe(3);
+    });
+
+    it('awards 2 stars up to 1.5x the expected time', () => {
+        expect(calculateTimeStars(15, 10)).toBe(2);
+    });
+
+    it('awards 1 star for slower answers', () => {
+        expect(calculateTimeStars(16, 10)).toBe(1);
+    });
+
+    it('returns 0 for an invalid expected time', () => {
+        expect(calculateTimeStars(5, 0)).toBe(0);
+    });
+});
+
+describe('evaluateScoringCondition', () => {
+    const variables = { attempts: 1, time: 4, difficulty: 2 };
+
+    it('evaluates comparisons joined with &&', () => {
+        expect(evaluateScoringCondition('attempts == 1 && time <= 5', variables)).toBe(true);
+        expect(evaluateScoringCondition('attempts == 1 and time < 4', variables)).toBe(false);
+        expect(evaluateScoringCondition('difficulty != 3', variables)).toBe(true);
+    });
+
+    it('matches always and true', () => {
+        expect(evaluateScoringCondition('always', variables)).toBe(true);
+        expect(evaluateScoringCondition('true', variables)).toBe(true);
+    });
+
+    it('supports the badge expression syntax', () => {
+        expect(evaluateScoringCondition('attempts == 1 || time > 10', variables)).toBe(true);
+        expect(evaluateScoringCondition('not (difficulty >= 2)', variables)).toBe(false);
+        expect(evaluateScoringCondition('time / attempts <= 4', variables)).toBe(true);
+    });
+
+    it('never matches unknown variables or malformed clauses', () => {
+        expect(evaluateScoringCondition('speed > 1', variables)).toBe(false);
+        expect(evaluateScoringCondition('attempts ==', variables)).toBe(false);
+        expect(evaluateScoringCondition('alert(1)', variables)).toBe(false);
+        expect(evaluateScoringCondition('', variables)).toBe(false);
+    });
+});
+
+describe('validateScoringCondition', () => {
+    it('accepts conditions over the scoring variables', () => {
+        expect(validateScoringCondition('attempts == 1 && timeRatio <= 0.5')).toEqual([]);
+        expect(validateScoringCondition('always')).toEqual([]);
+    });
+
+    it('reports unknown variables, syntax errors and empty conditions', () => {
+        expect(validateScoringCondition('speed > 1')[0]).toContain("Unknown variable 'speed'");
+        expect(validateScoringCondition('attempts ==')).toHaveLength(1);
+        expect(validateScoringCondition(' ')).toEqual(['Condition is empty']);
+    });
+});
+
+describe('applyScoringRules', () => {
+    const rule = (condition: string, scoreModifier: number | string): ScoringRule => ({
+        id: condition,
+        description: '',
+        condition,
+        scoreModifier,
+    });
+
+    it('applies absolute and relative modifiers in order', () => {
+        const rules = [rule('time > 10', '-1'), rule('attempts == 1 && time <= 3', 3)];
+        expect(applyScoringRules(2, rules, { attempts: 1, time: 2 })).toBe(3);
+        expect(applyScoringRules(3, rules, { attempts: 1, time: 12 })).toBe(2);
+        expect(applyScoringRules(2, rules, { attempts: 2, time: 5 })).toBe(2);
+    });
+
+    it('can refer to the stars so far', () => {
+        expect(applyScoringRules(1, [rule('stars < 2', '+1')], {})).toBe(2);
+    });
+
+    it('keeps the result between 0 and the maximum', () => {
+        expect(applyScoringRules(3, [rule('always', '+2')], {})).toBe(3);
+        expect(applyScoringRules(1, [rule('always', '-3')], {})).toBe(0);
+        expect(applyScoringRules(3, [rule('always', 3)], {}, 2)).toBe(2);
+    });
+});
+
+describe('calculateStarsForStrategy', () => {
+    const params: ScoringParams = {
+        correct: true,
+        attempts: 1,
+        timeSpentSeconds: 14,
+        maxAttempts: 3,
+        expectedTimeSeconds: 10,
+        difficulty: 1,
+    };
+
+    it('uses attempts by default', () => {
+        expect(calculateStarsForStrategy(params, 'attempts')).toBe(3);
+        expect(calculateStarsForStrategy({ ...params, attempts: 2 }, 'attempts')).toBe(2);
+    });
+
+    it('returns 0 for incorrect answers', () => {
+        expect(calculateStarsForStrategy({ ...params, correct: false }, 'time')).toBe(0);
+    });
+
+    it('rates the time and caps it by attempts', () => {
+        expect(calculateStarsForStrategy(params, 'time')).toBe(2);
+        expect(calculateStarsForStrategy({ ...params, timeSpentSeconds: 5, attempts: 3 }, 'time')).toBe(1);
+    });
+
+    it('gives harder exercises more time with difficulty weighting', () => {
+        const hard = { ...params, difficulty: 3 as const };
+        expect(calculateStarsForStrategy(hard, 'time')).toBe(2);
+        expect(calculateStarsForStrategy(hard, 'time', { difficultyWeighting: true })).toBe(3);
+    });
+
+    it('falls back to attempts without an expected time', () => {
+        const { expectedTimeSeconds: _unused, ...withoutTime } = params;
+        expect(calculateStarsForStrategy({ ...withoutTime, attempts: 2 }, 'time')).toBe(2);
+    });
+
+    it('applies custom rules', () => {
+        const rules: ScoringRule[] = [
+            { id: 'slow', description: '', condition: 'timeRatio > 1.2', scoreModifier: '-1' },
+        ];
+        expect(calculateStarsForStrategy(params, 'custom', { rules })).toBe(2);
+        expect(calculateStarsForStrategy({ ...params, timeSpentSeconds: 10 }, 'custom', { rules })).toBe(3);
+    });
+});
+
+describe('getExpectedTimeSeconds', () => {
+    it('prefers the exercise over the type configuration', () => {
+        const typeConfig = { 'fill-blank': { expectedTimeSeconds: 20 } };
+        expect(getExpectedTimeSeconds({ type: 'fill-blank', expectedTimeSeconds: 5 }, typeConfig)).toBe(5);
+        expect(getExpectedTimeSeconds({ type: 'fill-blank' }, typeConfig)).toBe(20);
+        expect(getExpectedTimeSeconds({ type: 'matching' }, typeConfig)).toBeUndefined();
+    });
+});
+
+describe('applyPartialCredit', () => {
+    it('scales stars by the share of correct parts', () => {
+        expect(applyPartialCredit(3)).toBe(3);
+        expect(applyPartialCredit(3, 2 / 3)).toBe(2);
+        expect(applyPartialCredit(3, 0.5)).toBe(2);
+    });
+
+    it('keeps at least one star for solved exercises', () => {
+        expect(applyPartialCredit(2, 0.1)).toBe(1);
+        expect(applyPartialCredit(0, 0.5)).toBe(0);
+    });
+});
+
+describe('calculateExerciseStars', () => {
+    const exercise = { type: 'fill-blank' as const, difficulty: 1 as const };
+
+    it('uses attempts without a configuration', () => {
+        expect(calculateExerciseStars(exercise, 1, 60)).toBe(3);
+    });
+
+    it('uses the configured strategy and type settings', () => {
+        const config = {
+            starStrategy: 'time' as const,
+            exerciseTypeConfig: { 'fill-blank': { expectedTimeSeconds: 10 } },
+        };
+        expect(calculateExerciseStars(exercise, 1, 8, config)).toBe(3);
+        expect(calculateExerciseStars(exercise, 1, 30, config)).toBe(1);
+    });
+
+    it('uses the attempt limit of the exercise type', () => {
+        const limited = {
+            starStrategy: 'attempts' as const,
+            exerciseTypeConfig: { 'fill-blank': { maxAttempts: 2 } },
+        };
+        const unlimited = {
+            starStrategy: 'attempts' as const,
+            exerciseTypeConfig: { 'fill-blank': { maxAttempts: 0 } },
+        };
+        expect(calculateExerciseStars(exercise, 3, 10, limited)).toBe(0);
+        expect(calculateExerciseStars(exercise, 5, 10, unlimited)).toBe(1);
+    });
+});
+
 describe('getStarDisplay', () => {
     it('returns three filled stars for 3 stars', () => {
         expect(getStarDisplay(3)).toBe('⭐⭐⭐');
@@ -508,6 +702,18 @@ describe('calculateMaxStars', () => {
     });
 });
 
+describe('getMaxExerciseStars', () => {
+    it('defaults to 3 stars', () => {
+        expect(getMaxExerciseStars()).toBe(3);
+    });
+
+    it('caps the configured maximum at 0 to 3 stars', () => {
+        expect(getMaxExerciseStars(2)).toBe(2);
+        expect(getMaxExerciseStars(5)).toBe(3);
+        expect(getMaxExerciseStars(-1)).toBe(0);
+    });
+});
+
 // ============================================================================
 // Theme Level Progression Tests
 // ============================================================================
@@ -665,4 +871,57 @@ describe('getNextLevelRequirement', () => {
         expect(result).toContain('Theme Two');
         expect(result).toContain('Level 2');
     });
-});
\ No newline at end of file
+});
+
+describe('level progression config', () => {
+    const allThemeIds = ['theme1', 'theme2', 'theme3', 'theme4'];
+    const themeNames = { theme1: 'One', theme2: 'Two', theme3: 'Three', theme4: 'Four' };
+
+    it('falls back to the defaults for missing or invalid values', () => {
+        expect(resolveLevelProgression()).toEqual({ levelCount: 4, unlockRule: 'all-themes', unlockPercentage: 75 });
+        expect(resolveLevelProgression({ levelCount: 0, unlockPercentage: 150 })).toMatchObject({
+            levelCount: 4,
+            unlockPercentage: 75,
+        });
+    });
+
+    it('returns the configured level numbers', () => {
+        expect(getLevelNumbers()).toEqual([1, 2, 3, 4]);
+        expect(getLevelNumbers({ levelCount: 6 })).toEqual([1, 2, 3, 4, 5, 6]);
+    });
+
+    it('caps the global level at the configured level count', () => {
+        const themeLevels = { theme1: 5, theme2: 5, theme3: 5, theme4: 5 };
+        expect(calculateGlobalLevel(themeLevels, allThemeIds, { levelCount: 6 })).toBe(6);
+        expect(calculateGlobalLevel(themeLevels, allThemeIds, { levelCount: 3 })).toBe(3);
+    });
+
+    it('unlocks levels per theme with the per-theme rule', () => {
+        const themeLevels = { theme1: 2 };
+        const progression = { unlockRule: 'per-theme' as const };
+        expect(getAccessibleLevelForTheme('theme1', themeLevels, allThemeIds, progression)).toBe(3);
+        expect(getAccessibleLevelForTheme('theme2', themeLevels, allThemeIds, progression)).toBe(1);
+        expect(isLevelAccessible('theme1', 4, { theme1: 4 }, allThemeIds, progression)).toBe(true);
+        expect(getNextLevelRequirement(themeLevels, allThemeIds, themeNames, progression)).toBeNull();
+    });
+
+    it('unlocks the next level for a share of themes with the percentage rule', () => {
+        const progression = { unlockRule: 'percentage' as const, unlockPercentage: 75 };
+        expect(calculateGlobalLevel({ theme1: 1, theme2: 1 }, allThemeIds, progression)).toBe(1);
+        expect(calculateGlobalLevel({ theme1: 1, theme2: 1, theme3: 1 }, allThemeIds, progression)).toBe(2);
+        expect(getAccessibleLevelForTheme('theme4', { theme1: 1, theme2: 1, theme3: 1, theme4: 1 }, allThemeIds, progression)).toBe(2);
+
+        const message = getNextLevelRequirement({ theme1: 1, theme2: 1 }, allThemeIds, themeNames, progression);
+        expect(message).toBe('Complete Level 1 in 1 more themes to unlock Level 2. Open: Three, Four');
+    });
+
+    it('passes the requirement message through the translate function', () => {
+        const translate = vi.fn((key: string, _defaultValue: string, params: Record<string, string | number>) =>
+            `${key}:${params['themes']}`
+        );
+        const result = getNextLevelRequirement({ theme1: 1 }, allThemeIds, themeNames, undefined, translate);
+        expect(result).toBe('level.requirementFirst:Two, Three, Four');
+        expect(translate).toHaveBeenCalledWith('level.requirementFirst', expect.any(String), { themes: 'Two, Three, Four' });
+    });
+});
+
@@ -0,0 +1,131 @@
+/**
+ * Tests for the music notation utilities.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    checkNoteNames,
+    getNotationNotes,
+    getNotationTones,
+    getNoteName,
+    getNoteNameOptions,
+    getPitchFrequency,
+    getRhythmOnsets,
+    getStaffStep,
+    parseNotation,
+    scoreRhythmTaps,
+} from '../music';
+
+describe('music', () => {
+    describe('parseNotation', () => {
+        it('reads notes, rests, beats and bar lines with their start and length', () => {
+            const symbols = parseNotation('C4/4 F#4/8. Bb3/16 | r/2 x');
+            expect(symbols).toHaveLength(6);
+            expect(symbols[3]).toEqual({ kind: 'bar' });
+
+            const notes = getNotationNotes(symbols);
+            expect(notes.map((note) => note.kind)).toEqual(['note', 'note', 'note', 'rest', 'beat']);
+            expect(notes.map((note) => note.start)).toEqual([0, 1, 1.75, 2, 4]);
+            expect(notes[1]).toMatchObject({ value: 8, dotted: true, beats: 0.75, pitch: { letter: 'F', accidental: 1, octave: 4 } });
+            expect(notes[2]?.pitch).toEqual({ letter: 'B', accidental: -1, octave: 3 });
+            expect(notes[4]).toMatchObject({ value: 4, beats: 1 });
+        });
+
+        it('rejects unknown notes and empty or too long notations', () => {
+            expect(() => parseNotation('C4/4 H4/4')).toThrow("Unknown note 'H4/4'");
+            expect(() => parseNotation('C4/3')).toThrow('Unknown note');
+            expect(() => parseNotation(' | ')).toThrow('no notes');
+            expect(() => parseNotation(Array(33).fill('x/8').join(' '))).toThrow('more than 32');
+        });
+    });
+
+    describe('pitches', () => {
+        it('places notes on the treble and bass staff', () => {
+            expect(getStaffStep({ letter: 'E', accidental: 0, octave: 4 })).toBe(0);
+            expect(getStaffStep({ letter: 'C', accidental: 0, octave: 4 })).toBe(-2);
+            expect(getStaffStep({ letter: 'F', accidental: 1, octave: 5 })).toBe(8);
+            expect(getStaffStep({ letter: 'G', accidental: 0, octave: 2 }, 'bass')).toBe(0);
+            expect(getStaffStep({ letter: 'C', accidental: 0, octave: 4 }, 'bass')).toBe(10);
+        });
+
+        it('calculates frequencies from A4 = 440 Hz', () => {
+            expect(getPitchFrequency({ letter: 'A', accidental: 0, octave: 4 })).toBe(440);
+            expect(getPitchFrequency({ letter: 'A', accidental: 0, octave: 3 })).toBe(220);
+            expect(getPitchFrequency({ letter: 'C', accidental: 0, octave: 4 })).toBeCloseTo(261.63, 2);
+            expect(getPitchFrequency({ letter: 'A', accidental: -1, octave: 4 }))
+                .toBeCloseTo(getPitchFrequency({ letter: 'G', accidental: 1, octave: 4 }), 6);
+        });
+    });
+
+    describe('note names', () => {
+        it('uses German note names', () => {
+            expect(getNoteName({ letter: 'B', accidental: 0 })).toBe('H');
+            expect(getNoteName({ letter: 'B', accidental: -1 })).toBe('B');
+            expect(getNoteName({ letter: 'F', accidental: 1 })).toBe('Fis');
+            expect(getNoteName({ letter: 'B', accidental: 1 })).toBe('His');
+            expect(getNoteName({ letter: 'E', accidental: -1 })).toBe('Es');
+            expect(getNoteName({ letter: 'A', accidental: -1 })).toBe('As');
+            expect(getNoteName({ letter: 'D', accidental: -1 })).toBe('Des');
+        });
+
+        it('uses letters with sharp and flat signs in English', () => {
+            expect(getNoteName({ letter: 'B', accidental: 0 }, 'en')).toBe('B');
+            expect(getNoteName({ letter: 'F', accidental: 1 }, 'en-GB')).toBe('F♯');
+            expect(getNoteName({ letter: 'E', accidental: -1 }, 'en')).toBe('E♭');
+        });
+
+        it('offers the seven letters and the accidentals of the exercise', () => {
+            const notes = getNotationNotes(parseNotation('G4/4 F#4/4 Bb4/4 F#4/4'));
+            expect(getNoteNameOptions(notes)).toEqual(['C', 'D', 'E', 'F', 'G', 'A', 'H', 'Fis', 'B']);
+            expect(getNoteNameOptions(notes, 'en')).toEqual(['C', 'D', 'E', 'F', 'G', 'A', 'B', 'F♯', 'B♭']);
+        });
+
+        it('checks the names of the pitched notes only', () => {
+            const notes = getNotationNotes(parseNotation('C4/4 r/4 B4/4 F#4/4'));
+            expect(checkNoteNames(notes, ['C', 'B', 'Fis'])).toEqual([true, false, true]);
+            expect(checkNoteNames(notes, ['C', 'B', null], 'en')).toEqual([true, true, false]);
+        });
+    });
+
+    describe('playback', () => {
+        it('turns notes into tones at the tempo, skipping rests', () => {
+            const notes = getNotationNotes(parseNotation('A4/4 r/4 x/2'));
+            const tones = getNotationTones(notes, 120);
+            expect(tones).toHaveLength(2);
+            expect(tones[0]).toEqual({ frequency: 440, start: 0, duration: 0.45 });
+            expect(tones[1]).toEqual({ frequency: 880, start: 1, duration: 0.1 });
+        });
+
+        it('gets the beat times of a rhythm in milliseconds', () => {
+            const notes = getNotationNotes(parseNotation('x/4 x/8 x/8 r/4 x/4'));
+            expect(getRhythmOnsets(notes, 60)).toEqual([0, 1000, 1500, 3000]);
+        });
+    });
+
+    describe('scoreRhythmTaps', () => {
+        const onsets = [0, 500, 750, 1000];
+
+        it('measures taps from the first tap', () => {
+            const result = scoreRhythmTaps(onsets, [5000, 5520, 5730, 6010]);
+            expect(result).toEqual({ hits: [true, true, true, true], extraTaps: 0, accuracy: 1, correct: true });
+        });
+
+        it('counts late and extra taps against the accuracy', () => {
+            const result = scoreRhythmTaps(onsets, [0, 500, 950, 1010, 1400], 100);
+            expect(result.hits).toEqual([true, true, false, true]);
+            expect(result.extraTaps).toBe(2);
+            expect(result.accuracy).toBeCloseTo(3 / 6);
+            expect(result.correct).toBe(false);
+        });
+
+        it('matches each tap to one beat only', () => {
+            const result = scoreRhythmTaps([0, 100], [0, 50], 80, 0.5);
+            expect(result.hits).toEqual([true, true]);
+            expect(scoreRhythmTaps([0, 100, 200], [0, 100], 150, 0.5).extraTaps).toBe(0);
+        });
+
+        it('fails without taps', () => {
+            expect(scoreRhythmTaps(onsets, [])).toMatchObject({ accuracy: 0, correct: false });
+        });
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Tests for observation record utility functions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    getObservationAreaMode,
+    createAreaObservation,
+    createObservationRecord,
+    alignObservationRecord,
+    deriveAchievedLevel,
+    finalizeObservationRecord,
+    getLatestObservationRecord,
+} from '../observation';
+import type { ObservationArea, ObservationRecord } from '@/types';
+
+/**
+ * Create an observation area with the given number of stages.
+ */
+function createArea(id: string, stageCount: number): ObservationArea {
+    return {
+        id,
+        name: id,
+        category: 'Test',
+        stages: Array.from({ length: stageCount }, (_, i) => ({
+            level: i + 1,
+            label: `Stage ${i + 1}`,
+            description: '',
+            examples: [],
+        })),
+    };
+}
+
+const strategyArea = createArea('strategien', 4);
+const orthographyArea = createArea('orthografie', 4);
+const vocabularyArea = createArea('wortschatz', 5);
+
+const areas = [
+    createArea('verbstellung', 6),
+    strategyArea,
+    orthographyArea,
+    createArea('textkompetenz', 4),
+    vocabularyArea,
+];
+
+describe('getObservationAreaMode', () => {
+    it('maps the special USB-DaZ areas', () => {
+        expect(getObservationAreaMode('strategien')).toBe('strategies');
+        expect(getObservationAreaMode('orthografie')).toBe('orthography');
+        expect(getObservationAreaMode('textkompetenz')).toBe('textTypes');
+        expect(getObservationAreaMode('wortschatz')).toBe('productiveReceptive');
+    });
+
+    it('defaults to a single level', () => {
+        expect(getObservationAreaMode('verbstellung')).toBe('level');
+    });
+});
+
+describe('createAreaObservation', () => {
+    it('creates one unchecked strategy per stage', () => {
+        const observation = createAreaObservation(strategyArea);
+        expect(observation.strategyChecks).toEqual({ '1': false, '2': false, '3': false, '4': false });
+        expect(observation.achievedLevel).toBe(0);
+    });
+
+    it('initializes productive and receptive levels', () => {
+        const observation = createAreaObservation(vocabularyArea);
+        expect(observation.productiveLevel).toBe(0);
+        expect(observation.receptiveLevel).toBe(0);
+    });
+});
+
+describe('createObservationRecord', () => {
+    it('creates an observation for every area', () => {
+        const record = createObservationRecord('student-1', 't2', areas);
+        expect(record.id).toMatch(/^obs-/);
+        expect(record.studentId).toBe('student-1');
+        expect(record.timePoint).toBe('t2');
+        expect(record.observations.map((o) => o.areaId)).toEqual(areas.map((a) => a.id));
+    });
+});
+
+describe('alignObservationRecord', () => {
+    it('adds missing areas and keeps unknown ones', () => {
+        const record: ObservationRecord = {
+            ...createObservationRecord('student-1', 't1', []),
+            observations: [
+                { areaId: 'wortschatz', achievedLevel: 2, notes: 'kept', productiveLevel: 2, receptiveLevel: 3 },
+                { areaId: 'removed-area', achievedLevel: 1, notes: '' },
+            ],
+        };
+
+        const aligned = alignObservationRecord(record, areas);
+        expect(aligned.observations.map((o) => o.areaId)).toEqual([
+            ...areas.map((a) => a.id),
+            'removed-area',
+        ]);
+        expect(aligned.observations.find((o) => o.areaId === 'wortschatz')?.notes).toBe('kept');
+    });
+});
+
+describe('deriveAchievedLevel', () => {
+    it('uses the highest checked strategy', () => {
+        expect(deriveAchievedLevel({
+            areaId: 'strategien',
+            achievedLevel: 0,
+            notes: '',
+            strategyChecks: { '1': true, '2': false, '3': true, '4': false },
+        })).toBe(3);
+    });
+
+    it('uses the highest orthography stage applied often or always', () => {
+        expect(deriveAchievedLevel({
+            areaId: 'orthografie',
+            achievedLevel: 0,
+            notes: '',
+            orthographyRatings: { '1': 'immer', '2': 'oft', '3': 'selten' },
+        })).toBe(2);
+    });
+
+    it('uses the highest text type stage', () => {
+        expect(deriveAchievedLevel({
+            areaId: 'textkompetenz',
+            achievedLevel: 0,
+            notes: '',
+            textTypeRatings: { erzaehlen: 3, beschreiben: 2 },
+        })).toBe(3);
+    });
+
+    it('uses the productive level', () => {
+        expect(deriveAchievedLevel({
+            areaId: 'wortschatz',
+            achievedLevel: 0,
+            notes: '',
+            productiveLevel: 2,
+            receptiveLevel: 4,
+        })).toBe(2);
+    });
+
+    it('keeps the entered level for plain areas', () => {
+        expect(deriveAchievedLevel({ areaId: 'verbstellung', achievedLevel: 4, notes: '' })).toBe(4);
+    });
+
+    it('returns 0 when nothing was observed', () => {
+        expect(deriveAchievedLevel(createAreaObservation(strategyArea))).toBe(0);
+        expect(deriveAchievedLevel(createAreaObservation(orthographyArea))).toBe(0);
+    });
+});
+
+describe('finalizeObservationRecord', () => {
+    it('stores the derived levels', () => {
+        const record = createObservationRecord('student-1', 't1', areas);
+        const edited: ObservationRecord = {
+            ...record,
+            observations: record.observations.map((o) =>
+                o.areaId === 'strategien' ? { ...o, strategyChecks: { '1': true, '2': true } } : o
+            ),
+        };
+
+        const finalized = finalizeObservationRecord(edited);
+        expect(finalized.observations.find((o) => o.areaId === 'strategien')?.achievedLevel).toBe(2);
+    });
+});
+
+describe('getLatestObservationRecord', () => {
+    it('prefers the latest observation date', () => {
+        const t1 = { ...createObservationRecord('s', 't1', []), date: '2024-09-15' };
+        const t2 = { ...createObservationRecord('s', 't2', []), date: '2025-02-01' };
+        expect(getLatestObservationRecord([t2, t1])?.timePoint).toBe('t2');
+        expect(getLatestObservationRecord([t1, t2])?.timePoint).toBe('t2');
+    });
+
+    it('prefers the later time point on the same date', () => {
+        const t2 = { ...createObservationRecord('s', 't2', []), date: '2025-02-01' };
+        const t3 = { ...createObservationRecord('s', 't3', []), date: '2025-02-01' };
+        expect(getLatestObservationRecord([t3, t2])?.timePoint).toBe('t3');
+    });
+
+    it('returns undefined for no records', () => {
+        expect(getLatestObservationRecord([])).toBeUndefined();
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for the adaptive placement test.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createPlacementTest,
+    getCurrentPlacementArea,
+    getMasteredLevel,
+    getPlacementResult,
+    isPlacementFinished,
+    recordPlacementAnswer,
+    selectPlacementExercise,
+    skipPlacementArea,
+    PLACEMENT_MAX_ITEMS_PER_AREA,
+    type PlacementTestState,
+} from '../placementTest';
+import type { Exercise } from '@/types';
+
+/**
+ * Create a minimal exercise for placement tests.
+ */
+function createExercise(id: string, areaId: string, themeId: string, level: number): Exercise {
+    return {
+        id,
+        type: 'multiple-choice',
+        areaId,
+        themeId,
+        level,
+        difficulty: 1,
+        instruction: 'Choose',
+        content: { type: 'multiple-choice', question: 'Q', options: ['a', 'b'], correctIndex: 0 },
+        hints: [],
+        feedbackCorrect: 'Yes',
+        feedbackIncorrect: 'No',
+    };
+}
+
+/**
+ * Three exercises per level 1-4 in two areas.
+ */
+const exercises: Exercise[] = ['reading', 'writing'].flatMap((areaId) =>
+    [1, 2, 3, 4].flatMap((level) =>
+        [1, 2, 3].map((n) => createExercise(`${areaId}-${level}-${n}`, areaId, `${areaId}-theme`, level))
+    )
+);
+
+/**
+ * Answer the current area's exercises with the given outcomes.
+ */
+function answer(test: PlacementTestState, outcomes: boolean[]): PlacementTestState {
+    let state = test;
+    for (const correct of outcomes) {
+        const area = getCurrentPlacementArea(state);
+        if (!area) break;
+        const exercise = selectPlacementExercise(area, exercises, () => 0);
+        if (!exercise) break;
+        state = recordPlacementAnswer(state, exercise, correct);
+    }
+    return state;
+}
+
+describe('createPlacementTest', () => {
+    it('starts each area with exercises at its lowest level', () => {
+        const test = createPlacementTest(['reading', 'writing', 'speaking'], exercises);
+        expect(test.areas.map((a) => a.areaId)).toEqual(['reading', 'writing']);
+        expect(test.areas[0]).toMatchObject({ levels: [1, 2, 3, 4], level: 1, answers: [] });
+        expect(isPlacementFinished(test)).toBe(false);
+    });
+});
+
+describe('staircase', () => {
+    it('steps up after correct and down after incorrect answers', () => {
+        let test = createPlacementTest(['reading'], exercises);
+        test = answer(test, [true, true]);
+        expect(getCurrentPlacementArea(test)?.level).toBe(3);
+
+        test = answer(test, [false]);
+        expect(getCurrentPlacementArea(test)?.level).toBe(2);
+    });
+
+    it('ends an area after two failures on one level', () => {
+        const test = answer(createPlacementTest(['reading', 'writing'], exercises), [true, true, false, true, false]);
+        const reading = test.areas[0];
+        expect(reading?.finished).toBe(true);
+        expect(test.areaIndex).toBe(1);
+        expect(reading && getMasteredLevel(reading)).toBe(2);
+    });
+
+    it('ends an area after passing the top level twice', () => {
+        const test = answer(createPlacementTest(['reading'], exercises), [true, true, true, true, true]);
+        const reading = test.areas[0];
+        expect(reading?.answers).toHaveLength(5);
+        expect(isPlacementFinished(test)).toBe(true);
+        expect(reading && getMasteredLevel(reading)).toBe(4);
+    });
+
+    it('never asks more than the maximum number of items', () => {
+        const test = answer(createPlacementTest(['reading'], exercises), [true, true, false, true, true, false]);
+        expect(test.areas[0]?.answers).toHaveLength(PLACEMENT_MAX_ITEMS_PER_AREA);
+        expect(isPlacementFinished(test)).toBe(true);
+    });
+
+    it('does not repeat exercises and falls back to the closest level', () => {
+        const small = [createExercise('a', 'reading', 't', 1), createExercise('b', 'reading', 't', 3)];
+        let test = createPlacementTest(['reading'], small);
+        const area = getCurrentPlacementArea(test);
+        const first = area && selectPlacementExercise(area, small, () => 0);
+        expect(first?.id).toBe('a');
+
+        if (first) test = recordPlacementAnswer(test, first, false);
+        const next = getCurrentPlacementArea(test);
+        expect(next && selectPlacementExercise(next, small)).toMatchObject({ id: 'b' });
+    });
+
+    it('skips the current area', () => {
+        const test = skipPlacementArea(createPlacementTest(['reading', 'writing'], exercises));
+        expect(getCurrentPlacementArea(test)?.areaId).toBe('writing');
+    });
+});
+
+describe('getPlacementResult', () => {
+    it('continues after the mastered level and sets theme levels', () => {
+        let test = createPlacementTest(['reading', 'writing'], exercises);
+        test = answer(test, [true, true, false, true, false]);
+        test = answer(test, [false, false]);
+
+        expect(getPlacementResult(test, exercises)).toEqual({
+            currentLevels: { reading: 3, writing: 1 },
+            themeLevels: { 'reading-theme': 2, 'writing-theme': 0 },
+        });
+    });
+
+    it('uses the lowest mastered level of a theme with several areas', () => {
+        const mixed = [
+            ...exercises,
+            createExercise('mixed-1', 'reading', 'mixed', 1),
+            createExercise('mixed-2', 'writing', 'mixed', 1),
+        ];
+        let test = createPlacementTest(['reading', 'writing'], mixed);
+        test = answer(test, [true, true, true, true, true]);
+        test = answer(test, [true, false, false]);
+
+        expect(getPlacementResult(test, mixed).themeLevels['mixed']).toBe(1);
+    });
+
+    it('ignores untested areas', () => {
+        const test = createPlacementTest(['reading'], exercises);
+        expect(getPlacementResult(test, exercises)).toEqual({ currentLevels: {}, themeLevels: {} });
+    });
+});
@@ -10,6 +10,8 @@ import {
     playBadge,
     playStar,
     playSound,
+    playTone,
+    playTones,
     isAudioSupported,
     soundManager,
 } from '../sounds';
@@ -164,6 +166,47 @@ describe('sounds', () => {
         });
     });
 
+    describe('playTone and playTones', () => {
+        it('schedule tones on the audio clock', async () => {
+            // Sounds of earlier tests may still start, so tones are recorded with their frequency
+            const starts = new Map<number, number>();
+            class RecordingAudioContext extends MockAudioContext {
+                override createOscillator() {
+                    let frequency = 0;
+                    return {
+                        ...super.createOscillator(),
+                        frequency: { setValueAtTime: vi.fn((value: number) => (frequency = value)) },
+                        start: vi.fn((time: number) => starts.set(frequency, time)),
+                    };
+                }
+            }
+            Object.defineProperty(globalThis, 'AudioContext', {
+                value: RecordingAudioContext,
+                configurable: true,
+            });
+            vi.useFakeTimers();
+
+            playTone(111, 0.1, 'sine', 0.3, 0.5);
+            const done = playTones([
+                { frequency: 222, start: 0, duration: 0.3 },
+                { frequency: 333, start: 0.4, duration: 0.3 },
+            ]);
+            await vi.runAllTimersAsync();
+            await done;
+            expect([111, 222, 333].map((frequency) => starts.get(frequency))).toEqual([0.5, 0, 0.4]);
+
+            vi.useRealTimers();
+            Object.defineProperty(globalThis, 'AudioContext', {
+                value: OriginalAudioContext,
+                configurable: true,
+            });
+        });
+
+        it('playTones returns early when soundEnabled is false', async () => {
+            await expect(playTones([{ frequency: 440, start: 0, duration: 1 }], false)).resolves.not.toThrow();
+        });
+    });
+
     describe('default parameter behavior', () => {
         it('soundEnabled defaults to true', async () => {
             // When soundEnabled is not passed, it defaults to true
@@ -0,0 +1,172 @@
+/**
+ * Tests for spaced repetition scheduling.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createReviewState,
+    getDueReviewExercises,
+    getNextReviewDate,
+    getReviewBoxCounts,
+    getReviewQuality,
+    scheduleReview,
+    syncReviewStates,
+    MIN_EASE_FACTOR,
+    REVIEW_BOX_COUNT,
+} from '../spacedRepetition';
+import type { Exercise, ExerciseResult } from '@/types/exercise';
+import type { ReviewState } from '@/types/gamification';
+
+function createResult(overrides: Partial<ExerciseResult> = {}): ExerciseResult {
+    return {
+        id: 'result-1',
+        childProfileId: 'profile-1',
+        exerciseId: 'ex-1',
+        areaId: 'reading',
+        themeId: 'animals',
+        level: 1,
+        correct: true,
+        score: 3,
+        attempts: 1,
+        timeSpentSeconds: 10,
+        completedAt: new Date(2024, 0, 15, 10).toISOString(),
+        ...overrides,
+    };
+}
+
+function createState(overrides: Partial<ReviewState> = {}): ReviewState {
+    return {
+        ...createReviewState('profile-1', 'ex-1', new Date(2024, 0, 15, 10)),
+        ...overrides,
+    };
+}
+
+function createExercise(id: string): Exercise {
+    return {
+        id,
+        type: 'multiple-choice',
+        areaId: 'reading',
+        themeId: 'animals',
+        level: 1,
+        difficulty: 1,
+        instruction: 'Choose',
+        content: { type: 'multiple-choice', question: 'Q', options: ['a', 'b'], correctIndex: 0 },
+        hints: [],
+        feedbackCorrect: 'Yes',
+        feedbackIncorrect: 'No',
+    };
+}
+
+describe('getReviewQuality', () => {
+    it('rates incorrect results as failed', () => {
+        expect(getReviewQuality(createResult({ correct: false }))).toBe(1);
+    });
+
+    it('rates correct results by attempts', () => {
+        expect(getReviewQuality(createResult({ attempts: 1 }))).toBe(5);
+        expect(getReviewQuality(createResult({ attempts: 2 }))).toBe(3);
+        expect(getReviewQuality(createResult({ attempts: 3 }))).toBe(2);
+    });
+
+    it('lowers the quality of slow first-attempt answers', () => {
+        expect(getReviewQuality(createResult({ timeSpentSeconds: 50 }), 20)).toBe(4);
+        expect(getReviewQuality(createResult({ timeSpentSeconds: 30 }), 20)).toBe(5);
+    });
+});
+
+describe('scheduleReview', () => {
+    const reviewedAt = new Date(2024, 0, 15, 10);
+
+    it('grows the interval on successful reviews', () => {
+        const first = scheduleReview(createState(), 5, reviewedAt);
+        expect(first).toMatchObject({ box: 2, repetitions: 1, intervalDays: 1, dueDate: '2024-01-16' });
+
+        const second = scheduleReview(first, 5, new Date(2024, 0, 16, 10));
+        expect(second).toMatchObject({ box: 3, repetitions: 2, intervalDays: 3, dueDate: '2024-01-19' });
+
+        const third = scheduleReview(second, 5, new Date(2024, 0, 19, 10));
+        expect(third.intervalDays).toBe(Math.round(3 * third.easeFactor));
+        expect(third.easeFactor).toBeGreaterThan(second.easeFactor);
+    });
+
+    it('resets failed reviews to box 1 and the next day', () => {
+        const state = createState({ box: 4, repetitions: 3, intervalDays: 8 });
+        const next = scheduleReview(state, 1, reviewedAt);
+        expect(next).toMatchObject({ box: 1, repetitions: 0, intervalDays: 1, dueDate: '2024-01-16' });
+        expect(next.easeFactor).toBeLessThan(state.easeFactor);
+    });
+
+    it('keeps the ease factor and box within bounds', () => {
+        const state = createState({ box: REVIEW_BOX_COUNT, easeFactor: MIN_EASE_FACTOR });
+        expect(scheduleReview(state, 0, reviewedAt).easeFactor).toBe(MIN_EASE_FACTOR);
+        expect(scheduleReview(state, 5, reviewedAt).box).toBe(REVIEW_BOX_COUNT);
+    });
+});
+
+describe('syncReviewStates', () => {
+    it('creates schedules for new results in chronological order', () => {
+        const results = [
+            createResult({ id: 'r2', completedAt: new Date(2024, 0, 16, 10).toISOString() }),
+            createResult({ id: 'r1', correct: false, completedAt: new Date(2024, 0, 15, 10).toISOString() }),
+        ];
+
+        const [state] = syncReviewStates('profile-1', [], results);
+        expect(state).toMatchObject({ id: 'profile-1:ex-1', box: 2, repetitions: 1, dueDate: '2024-01-17' });
+    });
+
+    it('skips results that were already applied or belong to other profiles', () => {
+        const state = createState({ lastReviewedAt: new Date(2024, 0, 20).toISOString() });
+        const results = [
+            createResult({ completedAt: new Date(2024, 0, 18).toISOString() }),
+            createResult({ childProfileId: 'profile-2', completedAt: new Date(2024, 0, 21).toISOString() }),
+        ];
+        expect(syncReviewStates('profile-1', [state], results)).toEqual([]);
+    });
+
+    it('does not advance the schedule for correct practice before the due date', () => {
+        const state = createState({ box: 3, dueDate: '2024-01-20' });
+        const completedAt = new Date(2024, 0, 17, 10).toISOString();
+
+        const [practiced] = syncReviewStates('profile-1', [state], [createResult({ completedAt })]);
+        expect(practiced).toMatchObject({ box: 3, dueDate: '2024-01-20', lastReviewedAt: completedAt });
+
+        const [failed] = syncReviewStates('profile-1', [state], [createResult({ correct: false, completedAt })]);
+        expect(failed).toMatchObject({ box: 1, dueDate: '2024-01-18' });
+    });
+
+    it('uses the expected time lookup', () => {
+        const results = [createResult({ timeSpentSeconds: 100 })];
+        const [state] = syncReviewStates('profile-1', [], results, () => 20);
+        expect(state?.easeFactor).toBe(2.5);
+    });
+});
+
+describe('review selection', () => {
+    const exercises = ['ex-1', 'ex-2', 'ex-3'].map(createExercise);
+
+    it('returns due exercises, most overdue and lowest box first', () => {
+        const states = [
+            createState({ exerciseId: 'ex-1', dueDate: '2024-01-15', box: 3 }),
+            createState({ exerciseId: 'ex-2', dueDate: '2024-01-15', box: 1 }),
+            createState({ exerciseId: 'ex-3', dueDate: '2024-01-10', box: 4 }),
+            createState({ exerciseId: 'ex-4', dueDate: '2024-01-10', box: 1 }),
+            createState({ exerciseId: 'ex-5', dueDate: '2024-01-20', box: 1 }),
+        ];
+
+        const due = getDueReviewExercises(states, exercises, '2024-01-15');
+        expect(due.map((e) => e.id)).toEqual(['ex-3', 'ex-2', 'ex-1']);
+        expect(getDueReviewExercises(states, exercises, '2024-01-15', 1)).toHaveLength(1);
+    });
+
+    it('counts states per box and finds the next review date', () => {
+        const states = [
+            createState({ box: 1, dueDate: '2024-01-15' }),
+            createState({ box: 1, dueDate: '2024-01-18' }),
+            createState({ box: 5, dueDate: '2024-01-17' }),
+        ];
+
+        expect(getReviewBoxCounts(states)).toEqual([2, 0, 0, 0, 1]);
+        expect(getNextReviewDate(states, '2024-01-15')).toBe('2024-01-17');
+        expect(getNextReviewDate(states, '2024-01-18')).toBeNull();
+    });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for student profile utility functions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    createStudentProfile,
+    parseFirstLanguages,
+    getStudentsByProfileId,
+    linkProfilesToStudent,
+    unlinkProfile,
+} from '../student';
+import type { StudentProfile } from '@/types';
+
+/**
+ * Create a student linked to the given child profiles.
+ */
+function createStudent(name: string, linkedProfileIds: string[]): StudentProfile {
+    return { ...createStudentProfile(name), linkedProfileIds };
+}
+
+describe('createStudentProfile', () => {
+    it('creates an unlinked student with defaults', () => {
+        const student = createStudentProfile('Amira');
+        expect(student.id).toMatch(/^student-/);
+        expect(student.name).toBe('Amira');
+        expect(student.status).toBe('ausserordentlich');
+        expect(student.firstLanguages).toEqual([]);
+        expect(student.linkedProfileIds).toEqual([]);
+    });
+});
+
+describe('parseFirstLanguages', () => {
+    it('trims languages and drops empty entries', () => {
+        expect(parseFirstLanguages(' Arabisch, Kurdisch ,, ')).toEqual(['Arabisch', 'Kurdisch']);
+        expect(parseFirstLanguages('')).toEqual([]);
+    });
+});
+
+describe('getStudentsByProfileId', () => {
+    it('maps every linked profile to its student', () => {
+        const amira = createStudent('Amira', ['p1', 'p2']);
+        const jonas = createStudent('Jonas', ['p3']);
+        const byProfile = getStudentsByProfileId([amira, jonas]);
+
+        expect(byProfile.get('p1')?.name).toBe('Amira');
+        expect(byProfile.get('p2')?.name).toBe('Amira');
+        expect(byProfile.get('p3')?.name).toBe('Jonas');
+        expect(byProfile.has('p4')).toBe(false);
+    });
+});
+
+describe('linkProfilesToStudent', () => {
+    it('moves profiles away from other students', () => {
+        const amira = createStudent('Amira', ['p1', 'p2']);
+        const jonas = createStudent('Jonas', ['p3']);
+        const lena = createStudent('Lena', ['p4']);
+
+        const changed = linkProfilesToStudent([amira, jonas, lena], jonas.id, ['p2', 'p3']);
+        const byId = new Map(changed.map((s) => [s.id, s]));
+
+        expect(byId.get(jonas.id)?.linkedProfileIds).toEqual(['p2', 'p3']);
+        expect(byId.get(amira.id)?.linkedProfileIds).toEqual(['p1']);
+        expect(byId.has(lena.id)).toBe(false);
+    });
+});
+
+describe('unlinkProfile', () => {
+    it('returns only the students that were linked to the profile', () => {
+        const amira = createStudent('Amira', ['p1', 'p2']);
+        const jonas = createStudent('Jonas', ['p3']);
+
+        const changed = unlinkProfile([amira, jonas], 'p1');
+        expect(changed).toHaveLength(1);
+        expect(changed[0]?.linkedProfileIds).toEqual(['p2']);
+    });
+});
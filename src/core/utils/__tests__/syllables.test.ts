@@ -0,0 +1,69 @@
+/**
+ * Tests for the syllable and word segmentation utilities.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    checkSegmentation,
+    checkSegmentCount,
+    findSegmentation,
+    findSegmentationByCount,
+    getSegmentationLetters,
+    getSegmentBoundaries,
+    parseSegmentation,
+    splitAtBoundaries,
+    toggleBoundary,
+} from '../syllables';
+
+describe('syllables', () => {
+    describe('segmentations', () => {
+        it('reads the parts, letters and boundaries', () => {
+            expect(parseSegmentation('Ba|na|ne')).toEqual(['Ba', 'na', 'ne']);
+            expect(getSegmentationLetters('Ba|na|ne')).toEqual(['B', 'a', 'n', 'a', 'n', 'e']);
+            expect(getSegmentBoundaries('Ba|na|ne')).toEqual([2, 4]);
+            expect(getSegmentBoundaries('Hund')).toEqual([]);
+        });
+
+        it('counts umlauts and emoji as one letter', () => {
+            expect(getSegmentBoundaries('Mäd|chen')).toEqual([3]);
+            expect(getSegmentationLetters('🐟|Fisch')).toHaveLength(6);
+        });
+
+        it('splits letters at the marked boundaries', () => {
+            const letters = getSegmentationLetters('DerHundbellt');
+            expect(splitAtBoundaries(letters, [7, 3])).toEqual(['Der', 'Hund', 'bellt']);
+            expect(splitAtBoundaries(letters, [0, 12, 3, 3])).toEqual(['Der', 'Hundbellt']);
+            expect(splitAtBoundaries(letters, [])).toEqual(['DerHundbellt']);
+        });
+
+        it('sets and removes boundaries', () => {
+            expect(toggleBoundary([4], 2)).toEqual([2, 4]);
+            expect(toggleBoundary([2, 4], 4)).toEqual([2]);
+        });
+    });
+
+    describe('checking', () => {
+        const segmentations = ['Nes|ter', 'Ne|ster'];
+
+        it('accepts any listed segmentation', () => {
+            expect(checkSegmentation([3], segmentations)).toBe(true);
+            expect(checkSegmentation([2], segmentations)).toBe(true);
+            expect(checkSegmentation([2, 3], segmentations)).toBe(false);
+            expect(checkSegmentation([], segmentations)).toBe(false);
+            expect(checkSegmentation([], ['Hund'])).toBe(true);
+        });
+
+        it('checks a counted number of parts', () => {
+            expect(checkSegmentCount(2, segmentations)).toBe(true);
+            expect(checkSegmentCount(3, segmentations)).toBe(false);
+            expect(checkSegmentCount(3, ['Der|Hund|bellt'])).toBe(true);
+        });
+
+        it('finds the segmentation that was accepted', () => {
+            expect(findSegmentation([2], segmentations)).toBe('Ne|ster');
+            expect(findSegmentation([2, 3], segmentations)).toBeUndefined();
+            expect(findSegmentationByCount(3, ['Ba|na|ne', 'Ba|nane'])).toBe('Ba|na|ne');
+            expect(findSegmentationByCount(2, ['Ba|na|ne', 'Ba|nane'])).toBe('Ba|nane');
+        });
+    });
+});
@@ -11,7 +11,7 @@ import {
     isValidDifficulty,
     isValidLocale,
 } from '../validation';
-import type { TrainerConfig, Exercise } from '@/types';
+import type { TrainerConfig, Exercise, ExerciseContent, ClozeTextContent, NumberLineContent, ClockContent, HotspotContent, SequenceContent, MemoryContent, CrosswordContent, ArithmeticContent, DrawingContent, NoteReadingContent, RhythmContent, SyllablesContent } from '@/types';
 
 // Helper to create a minimal valid trainer config
 function createValidConfig(): TrainerConfig {
@@ -72,6 +72,7 @@ function createValidConfig(): TrainerConfig {
             defaultHighContrast: false,
             defaultAnimationsEnabled: true,
             defaultSoundEnabled: true,
+            defaultReadAloudEnabled: false,
         },
     };
 }
@@ -98,6 +99,16 @@ function createValidExercise(): Exercise {
     };
 }
 
+// Helper to create a valid exercise of the content's type
+function createExerciseWithContent(content: ExerciseContent, overrides: Partial<Exercise> = {}): Exercise {
+    return {
+        ...createValidExercise(),
+        type: content.type,
+        content,
+        ...overrides,
+    };
+}
+
 describe('validateTrainerConfig', () => {
     it('returns valid for a complete configuration', () => {
         const config = createValidConfig();
@@ -500,6 +511,555 @@ describe('validateExercise', () => {
             expect(result.errors.some(e => e.code === 'INVALID_PAIRS')).toBe(true);
         });
     });
+
+    describe('cloze-text validation', () => {
+        const clozeContent: ClozeTextContent = {
+            type: 'cloze-text',
+            text: 'Der {{1}} bellt, die {{2}} miaut.',
+            blanks: [
+                { id: 1, correctAnswer: 'Hund' },
+                { id: 2, correctAnswer: 'Katze', options: ['Katze', 'Kuh'] },
+            ],
+        };
+
+        it('accepts blanks matching the placeholders', () => {
+            expect(validateExercise(createExerciseWithContent(clozeContent)).valid).toBe(true);
+        });
+
+        it('requires a definition for every placeholder and vice versa', () => {
+            const missingBlank = validateExercise(createExerciseWithContent({ ...clozeContent, text: 'Der {{1}} bellt, die {{2}} und {{3}} miaut.' }));
+            expect(missingBlank.errors.some(e => e.code === 'UNKNOWN_BLANK')).toBe(true);
+
+            const missingPlaceholder = validateExercise(createExerciseWithContent({ ...clozeContent, text: 'Der {{1}} bellt.' }));
+            expect(missingPlaceholder.errors.some(e => e.code === 'MISSING_BLANK_PLACEHOLDER')).toBe(true);
+        });
+
+        it('requires dropdown options to contain the correct answer', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...clozeContent,
+                text: 'Der {{1}} bellt.',
+                blanks: [{ id: 1, correctAnswer: 'Hund', options: ['Katze', 'Kuh'] }],
+            }));
+            expect(result.errors.some(e => e.code === 'INVALID_BLANK_OPTIONS')).toBe(true);
+        });
+
+        it('rejects an invalid pass ratio', () => {
+            const result = validateExercise(createExerciseWithContent({ ...clozeContent, passRatio: 1.5 }));
+            expect(result.errors.some(e => e.code === 'INVALID_PASS_RATIO')).toBe(true);
+        });
+    });
+
+    describe('number-line validation', () => {
+        const numberLineContent: NumberLineContent = {
+            type: 'number-line',
+            mode: 'place',
+            question: 'Wo liegt die 7?',
+            min: 0,
+            max: 10,
+            tickInterval: 1,
+            target: 7,
+        };
+
+        it('accepts a valid number line', () => {
+            expect(validateExercise(createExerciseWithContent({ ...numberLineContent, labeledTicks: [0, 5, 10] })).valid).toBe(true);
+        });
+
+        it('rejects an empty range and a non-positive tick interval', () => {
+            const range = validateExercise(createExerciseWithContent({ ...numberLineContent, min: 10, max: 0 }));
+            expect(range.errors.some(e => e.code === 'INVALID_NUMBER_LINE_RANGE')).toBe(true);
+
+            const ticks = validateExercise(createExerciseWithContent({ ...numberLineContent, tickInterval: 0 }));
+            expect(ticks.errors.some(e => e.code === 'INVALID_TICK_INTERVAL')).toBe(true);
+        });
+
+        it('requires the target and labels to lie on the line', () => {
+            const result = validateExercise(createExerciseWithContent({ ...numberLineContent, target: 12, labeledTicks: [-1] }));
+            expect(result.errors.some(e => e.code === 'TARGET_OUT_OF_RANGE')).toBe(true);
+            expect(result.errors.some(e => e.code === 'LABEL_OUT_OF_RANGE')).toBe(true);
+        });
+
+        it('rejects a negative tolerance', () => {
+            const result = validateExercise(createExerciseWithContent({ ...numberLineContent, tolerance: -1 }));
+            expect(result.errors.some(e => e.code === 'INVALID_TOLERANCE')).toBe(true);
+        });
+    });
+
+    describe('clock validation', () => {
+        const clockContent: ClockContent = {
+            type: 'clock',
+            mode: 'set',
+            question: 'Stelle die Uhr auf halb vier.',
+            time: '15:30',
+        };
+
+        it('accepts a valid clock', () => {
+            expect(validateExercise(createExerciseWithContent(clockContent)).valid).toBe(true);
+        });
+
+        it('rejects an invalid time', () => {
+            const result = validateExercise(createExerciseWithContent({ ...clockContent, time: '25:00' }));
+            expect(result.errors.some(e => e.code === 'INVALID_CLOCK_TIME')).toBe(true);
+        });
+
+        it('requires the time to be reachable with the minute step', () => {
+            const result = validateExercise(createExerciseWithContent({ ...clockContent, time: '15:32' }));
+            expect(result.errors.some(e => e.code === 'TIME_NOT_ON_STEP')).toBe(true);
+
+            const step = validateExercise(createExerciseWithContent({ ...clockContent, minuteStep: 7 }));
+            expect(step.errors.some(e => e.code === 'INVALID_MINUTE_STEP')).toBe(true);
+        });
+
+        it('requires the options to contain the correct time', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...clockContent,
+                mode: 'read',
+                answerFormat: '24h',
+                options: ['3:30', '16:30'],
+            }));
+            expect(result.errors.some(e => e.code === 'INVALID_CLOCK_OPTIONS')).toBe(true);
+        });
+    });
+
+    describe('audio validation', () => {
+        it('accepts audio with a file or a text', () => {
+            expect(validateExercise({ ...createValidExercise(), audio: { src: 'assets/audio/hund.mp3' } }).valid).toBe(true);
+            expect(validateExercise({ ...createValidExercise(), audio: { text: 'der Hund', lang: 'de-DE' } }).valid).toBe(true);
+        });
+
+        it('rejects audio without a file and text', () => {
+            const result = validateExercise({ ...createValidExercise(), audio: { lang: 'de-DE' } });
+            expect(result.errors.some(e => e.code === 'INVALID_AUDIO')).toBe(true);
+        });
+
+        it('validates listening exercises', () => {
+            const exercise: Exercise = {
+                ...createValidExercise(),
+                type: 'listening',
+                content: {
+                    type: 'listening',
+                    audio: { text: 'der Hund' },
+                    options: ['🐶', '🐱'],
+                    correctIndex: 2,
+                },
+            };
+            const result = validateExercise(exercise);
+            expect(result.errors.some(e => e.code === 'INVALID_CORRECT_INDEX')).toBe(true);
+        });
+    });
+
+    describe('image validation', () => {
+        const withImages = (images: Record<string, { src: string; alt: string }>): Exercise => ({
+            ...createValidExercise(),
+            content: {
+                type: 'multiple-choice',
+                question: 'Welches Tier ist das?',
+                options: ['Hund', 'Katze'],
+                correctIndex: 0,
+                images,
+            },
+        });
+
+        it('accepts option pictures from the assets folder with alt text', () => {
+            const result = validateExercise(withImages({ Hund: { src: 'assets/images/hund.svg', alt: 'Ein brauner Hund' } }));
+            expect(result.valid).toBe(true);
+        });
+
+        it('requires alt text', () => {
+            const result = validateExercise(withImages({ Hund: { src: 'assets/images/hund.svg', alt: ' ' } }));
+            expect(result.errors.some(e => e.code === 'MISSING_ALT_TEXT')).toBe(true);
+        });
+
+        it('rejects files outside the assets folder and unknown options', () => {
+            const result = validateExercise(withImages({
+                Hund: { src: 'https://example.com/hund.png', alt: 'Hund' },
+                Maus: { src: 'assets/images/maus.svg', alt: 'Maus' },
+            }));
+            expect(result.errors.some(e => e.code === 'INVALID_IMAGE')).toBe(true);
+            expect(result.errors.some(e => e.code === 'UNKNOWN_IMAGE_KEY' && e.path === 'content.images.Maus')).toBe(true);
+        });
+
+        it('needs an image or an emoji for picture vocabulary', () => {
+            const exercise: Exercise = {
+                ...createValidExercise(),
+                type: 'picture-vocabulary',
+                content: {
+                    type: 'picture-vocabulary',
+                    correctAnswer: 'Hund',
+                    acceptableAnswers: [],
+                    options: [],
+                },
+            };
+            expect(validateExercise(exercise).errors.some(e => e.code === 'MISSING_PICTURE')).toBe(true);
+
+            const withImage = { ...exercise, content: { ...exercise.content, image: { src: 'assets/images/hund.svg', alt: 'Hund' } } };
+            expect(validateExercise(withImage).valid).toBe(true);
+        });
+    });
+
+    describe('hotspot validation', () => {
+        const hotspotContent: HotspotContent = {
+            type: 'hotspot',
+            question: 'Tippe auf den Kopf.',
+            image: { src: 'assets/images/koerper.svg', alt: 'Ein Kind' },
+            width: 200,
+            height: 300,
+            regions: [
+                { id: 'kopf', label: 'Kopf', shape: 'circle', cx: 100, cy: 40, r: 30 },
+                { id: 'bauch', label: 'Bauch', shape: 'polygon', points: [[70, 100], [130, 100], [130, 160], [70, 160]] },
+            ],
+            correctRegionIds: ['kopf'],
+        };
+
+        it('accepts a valid hotspot picture', () => {
+            expect(validateExercise(createExerciseWithContent(hotspotContent)).valid).toBe(true);
+        });
+
+        it('requires a picture with alt text and a size', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...hotspotContent,
+                image: { src: 'assets/images/koerper.svg', alt: '' },
+                width: 0,
+            }));
+            expect(result.errors.some(e => e.code === 'MISSING_ALT_TEXT')).toBe(true);
+            expect(result.errors.some(e => e.code === 'INVALID_HOTSPOT_SIZE')).toBe(true);
+        });
+
+        it('rejects duplicate ids, missing labels and broken shapes', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...hotspotContent,
+                regions: [
+                    { id: 'kopf', label: 'Kopf', shape: 'circle', cx: 100, cy: 40, r: 0 },
+                    { id: 'kopf', label: ' ', shape: 'polygon', points: [[0, 0], [10, 10]] },
+                ],
+            }));
+            expect(result.errors.some(e => e.code === 'DUPLICATE_REGION_ID')).toBe(true);
+            expect(result.errors.some(e => e.code === 'MISSING_REGION_LABEL')).toBe(true);
+            expect(result.errors.filter(e => e.code === 'INVALID_REGION_SHAPE')).toHaveLength(2);
+        });
+
+        it('requires the correct regions to exist', () => {
+            const unknown = validateExercise(createExerciseWithContent({ ...hotspotContent, correctRegionIds: ['knie'] }));
+            expect(unknown.errors.some(e => e.code === 'INVALID_CORRECT_REGIONS')).toBe(true);
+
+            const empty = validateExercise(createExerciseWithContent({ ...hotspotContent, correctRegionIds: [] }));
+            expect(empty.errors.some(e => e.code === 'INVALID_CORRECT_REGIONS')).toBe(true);
+        });
+    });
+
+    describe('sequence validation', () => {
+        const sequenceContent: SequenceContent = {
+            type: 'sequence',
+            correctOrder: ['Samen einpflanzen', 'Gießen', 'Keimling wächst'],
+        };
+
+        it('accepts a valid sequence', () => {
+            expect(validateExercise(createExerciseWithContent({
+                ...sequenceContent,
+                alternateOrders: [['Gießen', 'Samen einpflanzen', 'Keimling wächst']],
+                partialCredit: true,
+                passRatio: 0.6,
+            })).valid).toBe(true);
+        });
+
+        it('requires at least 2 unique cards', () => {
+            const short = validateExercise(createExerciseWithContent({ ...sequenceContent, correctOrder: ['Gießen'] }));
+            expect(short.errors.some(e => e.code === 'INVALID_SEQUENCE')).toBe(true);
+
+            const duplicate = validateExercise(createExerciseWithContent({ ...sequenceContent, correctOrder: ['Gießen', 'Gießen'] }));
+            expect(duplicate.errors.some(e => e.code === 'DUPLICATE_SEQUENCE_ITEM')).toBe(true);
+        });
+
+        it('requires alternate orders to use the same cards', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...sequenceContent,
+                alternateOrders: [['Gießen', 'Samen einpflanzen', 'Ernten']],
+            }));
+            expect(result.errors.some(e => e.code === 'INVALID_ALTERNATE_ORDER')).toBe(true);
+        });
+
+        it('rejects an invalid pass ratio and pictures for unknown cards', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...sequenceContent,
+                passRatio: 0,
+                images: { Ernten: { src: 'assets/images/ernte.svg', alt: 'Ernte' } },
+            }));
+            expect(result.errors.some(e => e.code === 'INVALID_PASS_RATIO')).toBe(true);
+            expect(result.errors.some(e => e.code === 'UNKNOWN_IMAGE_KEY')).toBe(true);
+        });
+    });
+
+    describe('memory validation', () => {
+        const memoryContent: MemoryContent = {
+            type: 'memory',
+            pairs: [
+                { left: 'Hund', right: 'dog' },
+                { left: 'Katze', right: 'cat' },
+            ],
+        };
+
+        it('accepts a valid memory with twin cards', () => {
+            expect(validateExercise(createExerciseWithContent({
+                ...memoryContent,
+                pairs: [
+                    { left: '🍎', right: '🍎' },
+                    { left: '🍐', right: '🍐' },
+                ],
+            })).valid).toBe(true);
+        });
+
+        it('requires between 2 and 12 complete pairs', () => {
+            const short = validateExercise(createExerciseWithContent({ ...memoryContent, pairs: [{ left: 'Hund', right: 'dog' }] }));
+            expect(short.errors.some(e => e.code === 'INVALID_PAIRS')).toBe(true);
+
+            const empty = validateExercise(createExerciseWithContent({
+                ...memoryContent,
+                pairs: [{ left: 'Hund', right: '' }, { left: 'Katze', right: 'cat' }],
+            }));
+            expect(empty.errors.some(e => e.code === 'INVALID_PAIRS')).toBe(true);
+
+            const many = validateExercise(createExerciseWithContent({
+                ...memoryContent,
+                pairs: Array.from({ length: 13 }, (_, i) => ({ left: `${i}`, right: `#${i}` })),
+            }));
+            expect(many.errors.some(e => e.code === 'TOO_MANY_PAIRS')).toBe(true);
+        });
+
+        it('rejects a card used in two pairs', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...memoryContent,
+                pairs: [{ left: 'Hund', right: 'dog' }, { left: 'Dackel', right: 'dog' }],
+            }));
+            expect(result.errors.some(e => e.code === 'DUPLICATE_MEMORY_CARD')).toBe(true);
+        });
+    });
+
+    describe('crossword validation', () => {
+        const crosswordContent: CrosswordContent = {
+            type: 'crossword',
+            words: [
+                { word: 'Banane', clue: 'Sie ist gelb und krumm.' },
+                { word: 'Birne', clue: 'Sie sieht aus wie eine Glühbirne.' },
+                { word: 'Apfel', clue: 'Er wächst am Baum.' },
+            ],
+        };
+
+        it('accepts a valid crossword', () => {
+            expect(validateExercise(createExerciseWithContent({ ...crosswordContent, seed: 3 })).valid).toBe(true);
+        });
+
+        it('requires single words with clues', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...crosswordContent,
+                words: [
+                    { word: 'Eis am Stiel', clue: 'Kalt und süß.' },
+                    { word: 'Birne', clue: '' },
+                    { word: 'birne', clue: 'Obst' },
+                ],
+            }));
+            expect(result.errors.some(e => e.code === 'INVALID_CROSSWORD_WORD')).toBe(true);
+            expect(result.errors.some(e => e.code === 'MISSING_CLUE')).toBe(true);
+            expect(result.errors.some(e => e.code === 'DUPLICATE_CROSSWORD_WORD')).toBe(true);
+        });
+
+        it('reports words that do not fit into the grid', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...crosswordContent,
+                words: [
+                    { word: 'Hund', clue: 'Er bellt.' },
+                    { word: 'Nase', clue: 'Damit riechst du.' },
+                    { word: 'Zopf', clue: 'Geflochtene Haare.' },
+                ],
+            }));
+            expect(result.errors.find(e => e.code === 'UNPLACED_CROSSWORD_WORD')?.path).toBe('content.words[2].word');
+        });
+    });
+
+    describe('arithmetic validation', () => {
+        const arithmeticContent: ArithmeticContent = {
+            type: 'arithmetic',
+            mode: 'input',
+            question: '1/4 + 1/4 =',
+            answer: '1/2',
+        };
+
+        it('accepts valid input and column tasks', () => {
+            expect(validateExercise(createExerciseWithContent({ ...arithmeticContent, answer: '0,5' })).valid).toBe(true);
+            expect(validateExercise(createExerciseWithContent({
+                ...arithmeticContent,
+                mode: 'column',
+                operands: [478, 356],
+                operation: '+',
+            })).valid).toBe(true);
+        });
+
+        it('requires a question and a number as answer', () => {
+            const result = validateExercise(createExerciseWithContent({ ...arithmeticContent, question: '', answer: 'ein halb' }));
+            expect(result.errors.some(e => e.code === 'MISSING_QUESTION')).toBe(true);
+            expect(result.errors.some(e => e.code === 'INVALID_ANSWER')).toBe(true);
+        });
+
+        it('checks the numbers of a column calculation', () => {
+            const column = { mode: 'column' as const, operation: '-' as const };
+            expect(validateExercise(createExerciseWithContent({ ...arithmeticContent, ...column, operands: [12, 3, 4] })).errors[0]?.code)
+                .toBe('INVALID_OPERANDS');
+            expect(validateExercise(createExerciseWithContent({ ...arithmeticContent, ...column, operands: [1.5, 1] })).errors[0]?.code)
+                .toBe('INVALID_OPERANDS');
+            expect(validateExercise(createExerciseWithContent({ ...arithmeticContent, ...column, operands: [12, 30] })).errors[0]?.code)
+                .toBe('NEGATIVE_RESULT');
+        });
+    });
+
+    describe('drawing validation', () => {
+        const drawingContent: DrawingContent = { type: 'drawing', prompt: 'Male einen Kreis.' };
+
+        it('accepts a drawing with a size, colours and a tracing outline', () => {
+            expect(validateExercise(createExerciseWithContent({
+                ...drawingContent,
+                width: 300,
+                height: 300,
+                colors: ['#ef4444', 'blue'],
+                trace: 'M 150 50 A 100 100 0 1 1 149.9 50 Z',
+            })).valid).toBe(true);
+        });
+
+        it('requires a prompt and a size within the limits', () => {
+            const result = validateExercise(createExerciseWithContent({ ...drawingContent, prompt: ' ', width: 0, height: 2000 }));
+            expect(result.errors.map(e => e.code)).toEqual(['MISSING_PROMPT', 'INVALID_SIZE', 'INVALID_SIZE']);
+        });
+
+        it('rejects empty colours and a trace that is not path data', () => {
+            const result = validateExercise(createExerciseWithContent({ ...drawingContent, colors: [''], trace: '<circle r="5" />' }));
+            expect(result.errors.map(e => e.code)).toEqual(['INVALID_COLORS', 'INVALID_TRACE']);
+        });
+    });
+
+    describe('music validation', () => {
+        const noteReadingContent: NoteReadingContent = { type: 'note-reading', notation: 'C4/4 D4/4 E4/4 F4/4 | G4/1' };
+
+        const rhythmContent: RhythmContent = { type: 'rhythm', notation: 'x/4 x/4 x/8 x/8 x/4' };
+
+        it('accepts note reading and rhythm exercises', () => {
+            expect(validateExercise(createExerciseWithContent({ ...noteReadingContent, clef: 'bass', notation: 'G2/4 A2/4 Bb2/2', tempo: 80 })).valid)
+                .toBe(true);
+            expect(validateExercise(createExerciseWithContent({ ...rhythmContent, tolerance: 200, minAccuracy: 0.8 })).valid).toBe(true);
+        });
+
+        it('reports notation that cannot be read', () => {
+            const result = validateExercise(createExerciseWithContent({ ...noteReadingContent, notation: 'C4/4 H4/4' }));
+            expect(result.errors[0]?.code).toBe('INVALID_NOTATION');
+            expect(result.errors[0]?.message).toContain("'H4/4'");
+        });
+
+        it('rejects beats and notes far outside the staff in note reading', () => {
+            expect(validateExercise(createExerciseWithContent({ ...noteReadingContent, notation: 'r/4 x/4' })).errors.map(e => e.code))
+                .toEqual(['MISSING_NOTES', 'INVALID_NOTATION']);
+            expect(validateExercise(createExerciseWithContent({ ...noteReadingContent, notation: 'C5/4 C7/4' })).errors[0]?.code)
+                .toBe('NOTE_OUT_OF_RANGE');
+        });
+
+        it('checks the beats, tempo and scoring of a rhythm', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...rhythmContent,
+                notation: 'x/2 r/2',
+                tempo: 300,
+                tolerance: 10,
+                minAccuracy: 1.5,
+            }));
+            expect(result.errors.map(e => e.code))
+                .toEqual(['INVALID_TEMPO', 'MISSING_NOTES', 'INVALID_TOLERANCE', 'INVALID_MIN_ACCURACY']);
+        });
+    });
+
+    describe('syllables validation', () => {
+        const syllablesContent: SyllablesContent = { type: 'syllables', segmentations: ['Nes|ter', 'Ne|ster'] };
+
+        it('accepts segmentations of the same text', () => {
+            expect(validateExercise(createExerciseWithContent({ ...syllablesContent, mode: 'count' })).valid).toBe(true);
+            expect(validateExercise(createExerciseWithContent({ ...syllablesContent, unit: 'word', segmentations: ['Der|Hund|bellt'] })).valid)
+                .toBe(true);
+        });
+
+        it('requires a segmentation', () => {
+            expect(validateExercise(createExerciseWithContent({ ...syllablesContent, segmentations: [] })).errors[0]?.code)
+                .toBe('MISSING_SEGMENTATIONS');
+        });
+
+        it('rejects empty parts, spaces and segmentations of another text', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...syllablesContent,
+                segmentations: ['Ba|na|ne', 'Ba||nane', 'Ba na|ne', 'Ba|na|nen'],
+            }));
+            expect(result.errors.map(e => e.code))
+                .toEqual(['INVALID_SEGMENTATION', 'INVALID_SEGMENTATION', 'SEGMENTATION_MISMATCH']);
+        });
+
+        it('checks mode and unit', () => {
+            const result = validateExercise(createExerciseWithContent({
+                ...syllablesContent,
+                mode: 'tap' as 'split',
+                unit: 'letter' as 'word',
+            }));
+            expect(result.errors.map(e => e.code)).toEqual(['INVALID_MODE', 'INVALID_UNIT']);
+        });
+    });
+
+    describe('template validation', () => {
+        const templateExercise = createExerciseWithContent(
+            { type: 'arithmetic', mode: 'input', question: '{a} + {b} =', answer: '{answer}' },
+            { instruction: 'Rechne {a} + {b}.' }
+        );
+
+        it('accepts a valid template', () => {
+            const result = validateExercise({
+                ...templateExercise,
+                template: {
+                    variables: { a: { min: 1, max: 9 }, b: { min: 1, max: 9 } },
+                    constraints: ['a + b <= 10'],
+                    formulas: { answer: 'a + b' },
+                },
+            });
+            expect(result.valid).toBe(true);
+        });
+
+        it('checks the expansion of a template', () => {
+            const result = validateExercise({
+                ...templateExercise,
+                template: {
+                    variables: { a: { min: 1, max: 9 }, b: { min: 1, max: 9 } },
+                },
+            });
+            expect(result.errors.map(e => e.code)).toEqual(['UNKNOWN_TEMPLATE_PLACEHOLDER', 'INVALID_ANSWER']);
+        });
+
+        it('rejects invalid ranges and expressions', () => {
+            const result = validateExercise({
+                ...templateExercise,
+                template: {
+                    variables: { a: { min: 9, max: 1 }, b: { min: 1, max: 9 } },
+                    constraints: ['a >'],
+                    formulas: { answer: 'a + c' },
+                    distractors: ['answer + 1'],
+                },
+            });
+            expect(result.errors.map(e => e.code)).toEqual([
+                'INVALID_TEMPLATE_RANGE',
+                'UNKNOWN_TEMPLATE_IDENTIFIER',
+                'INVALID_TEMPLATE_EXPRESSION',
+            ]);
+        });
+
+        it('rejects templates that can never be expanded', () => {
+            const result = validateExercise({
+                ...templateExercise,
+                template: {
+                    variables: { a: { min: 1, max: 9 }, b: { min: 1, max: 9 } },
+                    constraints: ['a > 9'],
+                    formulas: { answer: 'a + b' },
+                },
+            });
+            expect(result.errors[0]?.code).toBe('UNSATISFIABLE_TEMPLATE');
+        });
+    });
 });
 
 describe('isValidExerciseType', () => {
@@ -514,6 +1074,19 @@ describe('isValidExerciseType', () => {
         expect(isValidExerciseType('connector-insert')).toBe(true);
         expect(isValidExerciseType('word-order')).toBe(true);
         expect(isValidExerciseType('picture-vocabulary')).toBe(true);
+        expect(isValidExerciseType('cloze-text')).toBe(true);
+        expect(isValidExerciseType('number-line')).toBe(true);
+        expect(isValidExerciseType('clock')).toBe(true);
+        expect(isValidExerciseType('listening')).toBe(true);
+        expect(isValidExerciseType('hotspot')).toBe(true);
+        expect(isValidExerciseType('sequence')).toBe(true);
+        expect(isValidExerciseType('memory')).toBe(true);
+        expect(isValidExerciseType('crossword')).toBe(true);
+        expect(isValidExerciseType('arithmetic')).toBe(true);
+        expect(isValidExerciseType('drawing')).toBe(true);
+        expect(isValidExerciseType('note-reading')).toBe(true);
+        expect(isValidExerciseType('rhythm')).toBe(true);
+        expect(isValidExerciseType('syllables')).toBe(true);
     });
 
     it('returns false for invalid exercise types', () => {
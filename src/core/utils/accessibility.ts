@@ -340,3 +340,26 @@ export function announceToScreenReader(
         }, 1000);
     }, 50);
 }
+
+/**
+ * Get the text of an element as it should be read aloud.
+ * Uses the element's `data-read-aloud` value if set; otherwise its text
+ * without decorative parts (`aria-hidden` elements and icons).
+ *
+ * @param element - Element to read
+ * @returns Text with collapsed whitespace (empty if there is nothing to read)
+ *
+ * @example
+ * ```ts
+ * // <button><span aria-hidden="true">A</span> der Hund</button>
+ * getReadAloudText(button); // 'der Hund'
+ * ```
+ */
+export function getReadAloudText(element: Element): string {
+    const explicit = element.getAttribute('data-read-aloud');
+    if (explicit) return explicit.trim();
+
+    const clone = element.cloneNode(true) as Element;
+    clone.querySelectorAll('[aria-hidden="true"], svg').forEach((node) => node.remove());
+    return (clone.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
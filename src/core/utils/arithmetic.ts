@@ -0,0 +1,301 @@
+/**
+ * Arithmetic utilities for the Mini Trainer Engine.
+ *
+ * Parses the numbers children type (whole numbers, decimals with a
+ * decimal comma or point, fractions and mixed numbers), compares them
+ * by value, and works out written column addition and subtraction
+ * digit by digit so that every column can be checked on its own.
+ */
+
+import type { ArithmeticContent, ColumnOperation } from '@/types/exercise';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * How a number was written.
+ */
+export type NumberForm = 'integer' | 'decimal' | 'fraction';
+
+/**
+ * A typed number as an (unreduced) fraction, so that decimals and
+ * fractions can be compared without rounding errors.
+ */
+export interface ParsedNumber {
+    /** Numerator including the sign (e.g. -3 for "-3/4", 75 for "0,75") */
+    numerator: number;
+    /** Positive denominator (e.g. 4 for "-3/4", 100 for "0,75") */
+    denominator: number;
+    /** How the number was written */
+    form: NumberForm;
+}
+
+/**
+ * One column of a written calculation.
+ */
+export interface ColumnStep {
+    /** Digit of the result ('' where the result has no digit, e.g. a leading zero) */
+    digit: string;
+    /** Carry written into this column from the column to its right ('' for none) */
+    carry: string;
+}
+
+/**
+ * A written column calculation, all rows aligned to the right.
+ * Columns are ordered left to right; the child works right to left.
+ */
+export interface ColumnCalculation {
+    /** The numbers written below each other */
+    operands: number[];
+    /** The operation */
+    operation: ColumnOperation;
+    /** The result */
+    result: number;
+    /** Number of columns */
+    width: number;
+    /** Digits of each operand by column ('' for empty cells) */
+    rows: string[][];
+    /** Expected result digit and carry of each column */
+    columns: ColumnStep[];
+}
+
+/**
+ * Result of checking a written column calculation.
+ */
+export interface ColumnCheckResult {
+    /** Whether every column is right */
+    correct: boolean;
+    /** Whether the result digit of each column is right */
+    digits: boolean[];
+    /** Whether the carry of each column is right */
+    carries: boolean[];
+    /** Number of columns with the right digit and carry */
+    correctColumns: number;
+    /** Share of right columns (0-1) */
+    accuracy: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Most digits a typed number may have (keeps numerators exact).
+ */
+const MAX_DIGITS = 15;
+
+/**
+ * Fraction or mixed number ("3/4", "-1 1/2").
+ */
+const FRACTION_PATTERN = /^(-)? ?(?:(\d+) )?(\d+) ?\/ ?(\d+)$/;
+
+// ============================================================================
+// Parsing and Comparing Numbers
+// ============================================================================
+
+/**
+ * Get the group and decimal separators of a locale ("." and "," for German).
+ */
+function getNumberSeparators(locale: string): { group: string; decimal: string } {
+    try {
+        const parts = new Intl.NumberFormat(locale).formatToParts(1234.5);
+        return {
+            group: parts.find((part) => part.type === 'group')?.value ?? '.',
+            decimal: parts.find((part) => part.type === 'decimal')?.value ?? ',',
+        };
+    } catch {
+        return { group: '.', decimal: ',' };
+    }
+}
+
+/**
+ * Get the decimal separator of a locale ("," for German, "." for English).
+ */
+export function getDecimalSeparator(locale: string): string {
+    return getNumberSeparators(locale).decimal;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a parsed number from its digits before and after the decimal separator.
+ */
+function toParsedNumber(negative: boolean, whole: string, fraction: string): ParsedNumber | null {
+    if (whole.length + fraction.length > MAX_DIGITS) return null;
+    const numerator = Number(whole + fraction);
+    return {
+        numerator: negative && numerator !== 0 ? -numerator : numerator,
+        denominator: 10 ** fraction.length,
+        form: fraction ? 'decimal' : 'integer',
+    };
+}
+
+/**
+ * Parse a typed number: whole numbers, decimals, fractions and mixed numbers.
+ * The decimal separator of the locale is expected ("0,5" in German), but the
+ * other one is accepted as well when it cannot be a group separator
+ * ("0.5" is a half, "1.000" is a thousand in German).
+ *
+ * @example
+ * ```ts
+ * parseArithmeticNumber('0,75');  // { numerator: 75, denominator: 100, form: 'decimal' }
+ * parseArithmeticNumber('1 1/2'); // { numerator: 3, denominator: 2, form: 'fraction' }
+ * parseArithmeticNumber('1.000'); // { numerator: 1000, denominator: 1, form: 'integer' }
+ * ```
+ */
+export function parseArithmeticNumber(text: string, locale: string = 'de'): ParsedNumber | null {
+    const normalized = text.trim().replace(/[−–]/g, '-').replace(/\s+/g, ' ');
+
+    const fraction = FRACTION_PATTERN.exec(normalized);
+    if (fraction) {
+        const [, sign, whole = '0', num = '', den = ''] = fraction;
+        const denominator = Number(den);
+        if (denominator === 0 || whole.length + num.length + den.length > MAX_DIGITS) return null;
+        const numerator = Number(whole) * denominator + Number(num);
+        return { numerator: sign && numerator !== 0 ? -numerator : numerator, denominator, form: 'fraction' };
+    }
+
+    const negative = normalized.startsWith('-');
+    const body = negative ? normalized.slice(1).trimStart() : normalized;
+    const { group, decimal } = getNumberSeparators(locale);
+    const groupChars = `${escapeRegExp(group)} \\u00a0\\u202f`;
+
+    // Digits in groups of three, or plain digits, with the locale's decimal separator
+    const localized = new RegExp(
+        `^(\\d{1,3}(?:[${groupChars}]\\d{3})+|\\d+)(?:${escapeRegExp(decimal)}(\\d+))?$`
+    ).exec(body);
+    if (localized) {
+        const [, whole = '', fractionDigits = ''] = localized;
+        return toParsedNumber(negative, whole.replace(new RegExp(`[${groupChars}]`, 'g'), ''), fractionDigits);
+    }
+
+    // The other separator as decimal separator ("0.5" in German, "0,5" in English)
+    const other = decimal === ',' ? '.' : ',';
+    const fallback = new RegExp(`^(\\d+)${escapeRegExp(other)}(\\d+)$`).exec(body);
+    if (fallback) {
+        const [, whole = '', fractionDigits = ''] = fallback;
+        return toParsedNumber(negative, whole, fractionDigits);
+    }
+
+    return null;
+}
+
+/**
+ * Check if two parsed numbers have the same value ("1/2", "2/4" and "0,5").
+ */
+export function numbersAreEqual(a: ParsedNumber, b: ParsedNumber): boolean {
+    return a.numerator * b.denominator === b.numerator * a.denominator;
+}
+
+/**
+ * Check a typed result of an arithmetic task.
+ * Equivalent numbers count unless the exercise asks for the exact form
+ * of the answer (e.g. a reduced fraction): then the answer must be
+ * written the same way (a fraction with the same numerator and
+ * denominator, or a decimal or whole number of the same value).
+ */
+export function validateArithmeticAnswer(
+    content: Pick<ArithmeticContent, 'answer' | 'acceptEquivalent'>,
+    typed: string,
+    locale: string = 'de'
+): boolean {
+    const expected = parseArithmeticNumber(content.answer ?? '', locale);
+    const answer = parseArithmeticNumber(typed, locale);
+    if (!expected || !answer || !numbersAreEqual(expected, answer)) return false;
+    if (content.acceptEquivalent ?? true) return true;
+    if (expected.form === 'fraction' || answer.form === 'fraction') {
+        return expected.form === answer.form
+            && expected.numerator === answer.numerator
+            && expected.denominator === answer.denominator;
+    }
+    return expected.form === answer.form;
+}
+
+// ============================================================================
+// Written Column Calculation
+// ============================================================================
+
+/**
+ * Split a number into its digits, right-aligned to a width.
+ */
+function toColumnDigits(value: number, width: number): string[] {
+    return String(value).padStart(width, ' ').split('').map((digit) => digit.trim());
+}
+
+/**
+ * Work out a written column addition or subtraction.
+ * Subtraction carries follow the carrying method taught in German-speaking
+ * schools: when a column does not work out, 1 is carried to the
+ * subtrahend of the next column.
+ *
+ * @example
+ * ```ts
+ * createColumnCalculation([47, 38], '+').columns;
+ * // [{ digit: '8', carry: '1' }, { digit: '5', carry: '' }]
+ * ```
+ */
+export function createColumnCalculation(operands: number[], operation: ColumnOperation): ColumnCalculation {
+    const [first = 0, ...rest] = operands;
+    const result = operation === '+'
+        ? operands.reduce((sum, value) => sum + value, 0)
+        : rest.reduce((difference, value) => difference - value, first);
+    const width = Math.max(...operands.map((value) => String(value).length), String(result).length);
+
+    const rows = operands.map((value) => toColumnDigits(value, width));
+    const resultDigits = toColumnDigits(result, width);
+    const columns: ColumnStep[] = resultDigits.map((digit) => ({ digit, carry: '' }));
+
+    // Carries from the ones column to the left
+    let carry = 0;
+    for (let col = width - 1; col >= 0; col--) {
+        const step = columns[col];
+        if (step && carry > 0) step.carry = String(carry);
+
+        const digits = rows.map((row) => Number(row[col] || 0));
+        if (operation === '+') {
+            carry = Math.floor((digits.reduce((sum, digit) => sum + digit, 0) + carry) / 10);
+        } else {
+            const [top = 0, ...below] = digits;
+            carry = below.reduce((sum, digit) => sum + digit, 0) + carry > top ? 1 : 0;
+        }
+    }
+
+    return { operands, operation, result, width, rows, columns };
+}
+
+/**
+ * Check the digits and carries typed into a column calculation, column
+ * by column. An empty carry cell counts as 0, and an empty cell is right
+ * where the result has no digit (leading zeros may be written or left out).
+ *
+ * @param digits - Typed result digits by column
+ * @param carries - Typed carries by column
+ * @param checkCarries - Whether carries are checked (false when they are not shown)
+ */
+export function checkColumnCalculation(
+    calculation: ColumnCalculation,
+    digits: string[],
+    carries: string[],
+    checkCarries: boolean = true
+): ColumnCheckResult {
+    const digitResults = calculation.columns.map((step, col) => {
+        const typed = digits[col]?.trim() ?? '';
+        return typed === step.digit || (step.digit === '' && (typed === '' || typed === '0'));
+    });
+    const carryResults = calculation.columns.map((step, col) => {
+        if (!checkCarries) return true;
+        return (carries[col]?.trim() || '0') === (step.carry || '0');
+    });
+    const correctColumns = digitResults.filter((ok, col) => ok && carryResults[col]).length;
+
+    return {
+        correct: correctColumns === calculation.width,
+        digits: digitResults,
+        carries: carryResults,
+        correctColumns,
+        accuracy: calculation.width > 0 ? correctColumns / calculation.width : 0,
+    };
+}
@@ -0,0 +1,51 @@
+/**
+ * App asset paths.
+ *
+ * Pictures and audio files of an app live in `src/apps/<id>/assets/` and
+ * are referenced relative to the app (e.g. "assets/images/hund.svg").
+ * The build copies them next to index.html, and inlines small pictures
+ * into the exercise data as data URLs.
+ */
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/**
+ * Folder that asset paths start with.
+ */
+export const APP_ASSETS_DIR = 'assets/';
+
+/**
+ * Check if a source is already a complete URL (data:, blob: or http(s):)
+ * rather than a file in the app's assets.
+ */
+export function isInlineOrRemoteSrc(src: string): boolean {
+    return /^(data:|blob:|https?:)/.test(src);
+}
+
+/**
+ * Resolve an asset path for use in the page.
+ * Leading slashes are removed so bundled files are loaded relative to
+ * index.html, which keeps them working in the file:// build.
+ *
+ * @param src - Asset path or URL
+ * @returns Path relative to index.html, or the URL unchanged
+ */
+export function resolveAssetSrc(src: string): string {
+    if (isInlineOrRemoteSrc(src)) return src;
+    return src.replace(/^\/+/, '');
+}
+
+/**
+ * Check if a source refers to a file in the app's assets folder
+ * (or is already inlined as a data URL).
+ *
+ * @param src - Asset path
+ * @returns Whether the build can bundle the file
+ */
+export function isAppAssetSrc(src: string): boolean {
+    if (src.startsWith('data:')) return true;
+    const path = resolveAssetSrc(src);
+    return path.startsWith(APP_ASSETS_DIR) && !path.split('/').includes('..');
+}
@@ -0,0 +1,255 @@
+/**
+ * Exercise audio playback.
+ *
+ * Plays bundled audio files with an HTMLAudioElement, which also works
+ * when the app is opened from a file:// URL (unlike fetching and decoding
+ * files for the Web Audio API), and falls back to the browser's speech
+ * synthesis for spoken text. Offline voices are preferred so speech
+ * works without a network connection.
+ */
+
+import type { ExerciseAudio } from '@/types/exercise';
+import { resolveAssetSrc } from './assets';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Language used for speech when the audio does not specify one.
+ */
+export const DEFAULT_SPEECH_LANG = 'de-DE';
+
+/**
+ * Speech rate, slightly slower than normal for young listeners.
+ */
+const SPEECH_RATE = 0.9;
+
+/**
+ * Speech language for each UI locale.
+ */
+const LOCALE_SPEECH_LANGS: Record<string, string> = {
+    de: 'de-DE',
+    en: 'en-GB',
+};
+
+// ============================================================================
+// Playback State
+// ============================================================================
+
+/**
+ * Audio element that is currently playing, if any.
+ */
+let currentAudio: HTMLAudioElement | null = null;
+
+/**
+ * Settles the playback of the current audio element when it is stopped
+ * (a paused element fires neither 'ended' nor 'error').
+ */
+let finishCurrentAudio: (() => void) | null = null;
+
+/**
+ * Owner of the audio that is currently playing (see playExerciseAudio).
+ */
+let currentOwner: symbol | null = null;
+
+/**
+ * Check if speech synthesis is available in this environment.
+ */
+export function isSpeechSynthesisSupported(): boolean {
+    return typeof window !== 'undefined' &&
+        'speechSynthesis' in window &&
+        typeof SpeechSynthesisUtterance !== 'undefined';
+}
+
+/**
+ * Stop any exercise audio or speech that is playing.
+ *
+ * @param owner - Only stop the audio if this owner started it
+ */
+export function stopExerciseAudio(owner?: symbol): void {
+    if (owner !== undefined && owner !== currentOwner) return;
+    currentOwner = null;
+    if (currentAudio) {
+        currentAudio.pause();
+        currentAudio = null;
+    }
+    if (finishCurrentAudio) {
+        finishCurrentAudio();
+        finishCurrentAudio = null;
+    }
+    if (isSpeechSynthesisSupported()) {
+        window.speechSynthesis.cancel();
+    }
+}
+
+// ============================================================================
+// Files
+// ============================================================================
+
+/**
+ * Resolve an audio path for playback (see resolveAssetSrc).
+ */
+export function resolveAudioSrc(src: string): string {
+    return resolveAssetSrc(src);
+}
+
+/**
+ * Play an audio file until it ends or is stopped.
+ * Rejects if the file cannot be loaded or playback is not allowed.
+ */
+function playAudioFile(src: string): Promise<void> {
+    if (typeof Audio === 'undefined') {
+        return Promise.reject(new Error('Audio playback is not supported'));
+    }
+
+    return new Promise((resolve, reject) => {
+        const audio = new Audio(resolveAudioSrc(src));
+        const finish = () => {
+            if (finishCurrentAudio === finish) finishCurrentAudio = null;
+            resolve();
+        };
+        const fail = (error: unknown) => {
+            if (finishCurrentAudio === finish) finishCurrentAudio = null;
+            reject(error);
+        };
+        currentAudio = audio;
+        finishCurrentAudio = finish;
+        audio.onended = finish;
+        audio.onerror = () => fail(new Error(`Could not play audio file: ${src}`));
+        audio.play().catch(fail);
+    });
+}
+
+// ============================================================================
+// Speech
+// ============================================================================
+
+/**
+ * Pick a voice for a language.
+ * Prefers an exact language match over the same base language
+ * (e.g. "de-AT" for "de-DE"), and offline voices over online ones.
+ *
+ * @param voices - Available voices
+ * @param lang - BCP 47 language tag
+ * @returns The best voice, or null if no voice speaks the language
+ */
+export function selectSpeechVoice(
+    voices: readonly SpeechSynthesisVoice[],
+    lang: string
+): SpeechSynthesisVoice | null {
+    const normalize = (tag: string) => tag.replace('_', '-').toLowerCase();
+    const wanted = normalize(lang);
+    const base = wanted.split('-')[0];
+
+    const exact = voices.filter((v) => normalize(v.lang) === wanted);
+    const sameBase = voices.filter((v) => normalize(v.lang).split('-')[0] === base);
+
+    for (const candidates of [exact, sameBase]) {
+        const voice = candidates.find((v) => v.localService) ?? candidates[0];
+        if (voice) return voice;
+    }
+    return null;
+}
+
+/**
+ * Get the speech language for a UI locale, e.g. "de-DE" for "de".
+ * Unknown locales are used as language tags as they are.
+ */
+export function getSpeechLang(locale: string): string {
+    return LOCALE_SPEECH_LANGS[locale] ?? locale;
+}
+
+/**
+ * Speak a text with speech synthesis until it is finished.
+ */
+function speakText(text: string, lang: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const utterance = new SpeechSynthesisUtterance(text);
+        utterance.lang = lang;
+        utterance.rate = SPEECH_RATE;
+
+        const voice = selectSpeechVoice(window.speechSynthesis.getVoices(), lang);
+        if (voice) utterance.voice = voice;
+
+        utterance.onend = () => resolve();
+        utterance.onerror = (event) => {
+            // Cancelling (e.g. by starting other audio) is not an error
+            if (event.error === 'canceled' || event.error === 'interrupted') {
+                resolve();
+            } else {
+                reject(new Error(`Speech synthesis failed: ${event.error}`));
+            }
+        };
+
+        window.speechSynthesis.speak(utterance);
+    });
+}
+
+// ============================================================================
+// Main Play Function
+// ============================================================================
+
+/**
+ * Play the file of exercise audio, falling back to speech.
+ */
+async function playAudio(audio: ExerciseAudio): Promise<boolean> {
+    if (audio.src) {
+        try {
+            await playAudioFile(audio.src);
+            return true;
+        } catch {
+            // Fall back to speech synthesis below
+        }
+    }
+
+    if (audio.text && isSpeechSynthesisSupported()) {
+        try {
+            await speakText(audio.text, audio.lang ?? DEFAULT_SPEECH_LANG);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    return false;
+}
+
+/**
+ * Check if exercise audio can be played at all in this environment.
+ *
+ * @param audio - The exercise audio
+ * @returns Whether a file or speech synthesis is available for it
+ */
+export function canPlayExerciseAudio(audio: ExerciseAudio): boolean {
+    return Boolean(audio.src && typeof Audio !== 'undefined') ||
+        Boolean(audio.text && isSpeechSynthesisSupported());
+}
+
+/**
+ * Play exercise audio: the bundled file if present, otherwise (or if the
+ * file cannot be played) the text with speech synthesis.
+ * Stops audio that is already playing. Resolves when playback has ended.
+ *
+ * @param audio - The exercise audio
+ * @param soundEnabled - Whether sound is enabled (optional, defaults to true)
+ * @param owner - Owner of the playback, so it can stop only its own audio
+ * @returns Whether anything was played
+ */
+export async function playExerciseAudio(
+    audio: ExerciseAudio,
+    soundEnabled: boolean = true,
+    owner?: symbol
+): Promise<boolean> {
+    if (!soundEnabled) return false;
+    stopExerciseAudio();
+    currentOwner = owner ?? null;
+
+    try {
+        return await playAudio(audio);
+    } finally {
+        if (owner !== undefined && currentOwner === owner) {
+            currentOwner = null;
+        }
+    }
+}
@@ -0,0 +1,533 @@
+/**
+ * Badge condition expressions for the Mini Trainer Engine.
+ *
+ * Badges in badges.json can define a `checkExpression` such as
+ * `perfectExercises >= 10 && longestStreak >= 3`. Expressions are parsed by a
+ * small recursive-descent parser and evaluated against profile and result
+ * statistics. No JavaScript is executed, and only the identifiers listed in
+ * BADGE_EXPRESSION_IDENTIFIERS are available. Exercise templates reuse the
+ * same parser for their constraints and formulas.
+ *
+ * Supported syntax:
+ * - Numbers: `10`, `2.5`
+ * - Identifiers: `totalStars`, `exercisesCompleted`, ...
+ * - Arithmetic: `+`, `-`, `*`, `/`, `%`
+ * - Comparison: `>=`, `>`, `<=`, `<`, `==`, `!=`
+ * - Logic: `&&` / `and`, `||` / `or`, `!` / `not`
+ * - Parentheses
+ */
+
+import type { ExerciseResult } from '@/types/exercise';
+import type { UserProfile } from '@/types/profile';
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/**
+ * Statistics derived from stored exercise results.
+ */
+export interface BadgeResultStatistics {
+    /** Number of distinct exercises solved correctly */
+    exercisesCompleted: number;
+    /** Number of distinct exercises solved with full stars */
+    perfectExercises: number;
+}
+
+/**
+ * All values available to badge expressions.
+ */
+export interface BadgeStatistics extends BadgeResultStatistics {
+    /** Total stars earned */
+    totalStars: number;
+    /** Current streak in days */
+    currentStreak: number;
+    /** Longest streak in days */
+    longestStreak: number;
+    /** Highest level reached in any observation area */
+    maxLevel: number;
+    /** Number of themes with all exercises completed */
+    themesCompleted: number;
+    /** Number of badges already earned */
+    badgesEarned: number;
+}
+
+/**
+ * Identifiers that may be used in badge expressions.
+ */
+export const BADGE_EXPRESSION_IDENTIFIERS: readonly (keyof BadgeStatistics)[] = [
+    'totalStars',
+    'currentStreak',
+    'longestStreak',
+    'maxLevel',
+    'themesCompleted',
+    'badgesEarned',
+    'exercisesCompleted',
+    'perfectExercises',
+];
+
+/**
+ * Badge types from badges.json and the statistic their threshold applies to.
+ */
+export const BADGE_TYPE_IDENTIFIERS: Readonly<Record<string, keyof BadgeStatistics>> = {
+    star_milestone: 'totalStars',
+    streak_milestone: 'longestStreak',
+    streak_days: 'longestStreak',
+    level_milestone: 'maxLevel',
+    exercises_completed: 'exercisesCompleted',
+    perfect_exercises: 'perfectExercises',
+};
+
+/**
+ * Empty result statistics, used when no results are known.
+ */
+export const EMPTY_BADGE_RESULT_STATISTICS: BadgeResultStatistics = {
+    exercisesCompleted: 0,
+    perfectExercises: 0,
+};
+
+/**
+ * IDs of the exercises counted in result statistics.
+ */
+export interface BadgeResultIds {
+    /** Exercises solved correctly */
+    completed: ReadonlySet<string>;
+    /** Exercises solved with full stars */
+    perfect: ReadonlySet<string>;
+}
+
+/**
+ * Empty result IDs, used when no results are known.
+ */
+export const EMPTY_BADGE_RESULT_IDS: BadgeResultIds = {
+    completed: new Set<string>(),
+    perfect: new Set<string>(),
+};
+
+/**
+ * Collect the IDs of correct and perfect exercises from stored results.
+ *
+ * @param results - Exercise results of one profile
+ * @param perfectScore - Stars of a perfect exercise (the configured maximum, default: 3)
+ * @returns Completed and perfect exercise IDs
+ */
+export function getBadgeResultIds(results: readonly ExerciseResult[], perfectScore: number = 3): BadgeResultIds {
+    const completed = new Set<string>();
+    const perfect = new Set<string>();
+
+    for (const result of results) {
+        if (!result.correct) continue;
+        completed.add(result.exerciseId);
+        if (result.score >= perfectScore) {
+            perfect.add(result.exerciseId);
+        }
+    }
+
+    return { completed, perfect };
+}
+
+/**
+ * Count result IDs into result statistics.
+ *
+ * @param ids - Completed and perfect exercise IDs
+ * @returns Completed and perfect exercise counts
+ */
+export function countBadgeResultIds(ids: BadgeResultIds): BadgeResultStatistics {
+    return {
+        exercisesCompleted: ids.completed.size,
+        perfectExercises: ids.perfect.size,
+    };
+}
+
+/**
+ * Derive result statistics from stored exercise results.
+ * Repeated exercises are counted once.
+ *
+ * @param results - Exercise results of one profile
+ * @param perfectScore - Stars of a perfect exercise (the configured maximum, default: 3)
+ * @returns Completed and perfect exercise counts
+ */
+export function getBadgeResultStatistics(
+    results: readonly ExerciseResult[],
+    perfectScore: number = 3
+): BadgeResultStatistics {
+    return countBadgeResultIds(getBadgeResultIds(results, perfectScore));
+}
+
+/**
+ * Add a newly completed exercise to result IDs. Exercises that were
+ * counted before are not counted again.
+ *
+ * @param ids - Current result IDs
+ * @param exerciseId - ID of the completed exercise
+ * @param score - Stars earned for the exercise
+ * @param perfectScore - Stars of a perfect exercise (the configured maximum, default: 3)
+ * @returns Updated result IDs
+ */
+export function addBadgeResult(
+    ids: BadgeResultIds,
+    exerciseId: string,
+    score: number,
+    perfectScore: number = 3
+): BadgeResultIds {
+    const isPerfect = score >= perfectScore;
+    if (ids.completed.has(exerciseId) && (!isPerfect || ids.perfect.has(exerciseId))) {
+        return ids;
+    }
+
+    return {
+        completed: new Set([...ids.completed, exerciseId]),
+        perfect: isPerfect ? new Set([...ids.perfect, exerciseId]) : ids.perfect,
+    };
+}
+
+/**
+ * Collect all badge statistics for a profile.
+ *
+ * @param profile - User profile
+ * @param resultStats - Statistics from exercise results
+ * @returns Values for every expression identifier
+ */
+export function getBadgeStatistics(
+    profile: UserProfile,
+    resultStats: BadgeResultStatistics = EMPTY_BADGE_RESULT_STATISTICS
+): BadgeStatistics {
+    const themesCompleted = Object.values(profile.themeProgress).filter(
+        (progress) => progress.exercisesTotal > 0 && progress.exercisesCompleted >= progress.exercisesTotal
+    ).length;
+
+    return {
+        totalStars: profile.totalStars,
+        currentStreak: profile.currentStreak,
+        longestStreak: profile.longestStreak,
+        maxLevel: Math.max(0, ...Object.values(profile.currentLevels)),
+        themesCompleted,
+        badgesEarned: profile.badges.length,
+        exercisesCompleted: resultStats.exercisesCompleted,
+        perfectExercises: resultStats.perfectExercises,
+    };
+}
+
+/**
+ * Get the statistic a badge type from badges.json refers to.
+ *
+ * @param type - Badge type, e.g. 'perfect_exercises'
+ * @returns The expression identifier, or undefined for other types
+ */
+export function getBadgeTypeIdentifier(type: string): keyof BadgeStatistics | undefined {
+    return Object.prototype.hasOwnProperty.call(BADGE_TYPE_IDENTIFIERS, type)
+        ? BADGE_TYPE_IDENTIFIERS[type]
+        : undefined;
+}
+
+/**
+ * Build an expression for a badge type and threshold from badges.json.
+ *
+ * @param type - Badge type, e.g. 'perfect_exercises'
+ * @param threshold - Value the statistic has to reach
+ * @returns The expression, or undefined for types without a statistic
+ */
+export function badgeTypeToExpression(type: string, threshold: number): string | undefined {
+    const identifier = getBadgeTypeIdentifier(type);
+    if (!identifier || !Number.isFinite(threshold)) return undefined;
+    return `${identifier} >= ${threshold}`;
+}
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+type BinaryOperator = '||' | '&&' | '>=' | '>' | '<=' | '<' | '==' | '!=' | '+' | '-' | '*' | '/' | '%';
+type UnaryOperator = '!' | '-';
+
+type Token =
+    | { kind: 'number'; value: number; position: number }
+    | { kind: 'identifier'; name: string; position: number }
+    | { kind: 'operator'; value: string; position: number }
+    | { kind: 'end'; position: number };
+
+/**
+ * Parsed badge expression.
+ */
+export type BadgeExpressionNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'identifier'; name: string }
+    | { kind: 'unary'; operator: UnaryOperator; operand: BadgeExpressionNode }
+    | { kind: 'binary'; operator: BinaryOperator; left: BadgeExpressionNode; right: BadgeExpressionNode };
+
+const OPERATORS = ['&&', '||', '>=', '<=', '==', '!=', '>', '<', '!', '+', '-', '*', '/', '%', '(', ')'];
+
+const KEYWORD_OPERATORS: Record<string, string> = {
+    and: '&&',
+    or: '||',
+    not: '!',
+};
+
+/**
+ * Split an expression into tokens.
+ */
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < expression.length) {
+        const char = expression.charAt(index);
+
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+
+        const numberMatch = /^\d+(\.\d+)?/.exec(expression.slice(index));
+        if (numberMatch) {
+            tokens.push({ kind: 'number', value: Number(numberMatch[0]), position: index });
+            index += numberMatch[0].length;
+            continue;
+        }
+
+        const identifierMatch = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(index));
+        if (identifierMatch) {
+            const word = identifierMatch[0];
+            const keyword = Object.prototype.hasOwnProperty.call(KEYWORD_OPERATORS, word)
+                ? KEYWORD_OPERATORS[word]
+                : undefined;
+            tokens.push(
+                keyword
+                    ? { kind: 'operator', value: keyword, position: index }
+                    : { kind: 'identifier', name: word, position: index }
+            );
+            index += word.length;
+            continue;
+        }
+
+        const operator = OPERATORS.find((op) => expression.startsWith(op, index));
+        if (operator) {
+            tokens.push({ kind: 'operator', value: operator, position: index });
+            index += operator.length;
+            continue;
+        }
+
+        throw new Error(`Unexpected character '${char}' at position ${index}`);
+    }
+
+    tokens.push({ kind: 'end', position: expression.length });
+    return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+/**
+ * Binary operator levels, from lowest to highest precedence.
+ */
+const PRECEDENCE: readonly (readonly BinaryOperator[])[] = [
+    ['||'],
+    ['&&'],
+    ['==', '!='],
+    ['>=', '>', '<=', '<'],
+    ['+', '-'],
+    ['*', '/', '%'],
+];
+
+/**
+ * Parse a badge expression.
+ *
+ * @param expression - The expression source
+ * @returns The parsed expression tree
+ * @throws Error if the expression is not valid
+ */
+export function parseBadgeExpression(expression: string): BadgeExpressionNode {
+    const tokens = tokenize(expression);
+    let current = 0;
+
+    const peek = (): Token => tokens[current] ?? { kind: 'end', position: expression.length };
+
+    const describe = (token: Token): string => {
+        switch (token.kind) {
+            case 'number': return `'${token.value}'`;
+            case 'identifier': return `'${token.name}'`;
+            case 'operator': return `'${token.value}'`;
+            case 'end': return 'end of expression';
+        }
+    };
+
+    const isOperator = (token: Token, value: string): boolean =>
+        token.kind === 'operator' && token.value === value;
+
+    const parseLevel = (level: number): BadgeExpressionNode => {
+        const operators = PRECEDENCE[level];
+        if (!operators) return parseUnary();
+
+        let left = parseLevel(level + 1);
+        for (;;) {
+            const token = peek();
+            const operator = operators.find((op) => isOperator(token, op));
+            if (!operator) return left;
+            current++;
+            left = { kind: 'binary', operator, left, right: parseLevel(level + 1) };
+        }
+    };
+
+    const parseUnary = (): BadgeExpressionNode => {
+        const token = peek();
+        if (isOperator(token, '!') || isOperator(token, '-')) {
+            current++;
+            const operator: UnaryOperator = isOperator(token, '!') ? '!' : '-';
+            return { kind: 'unary', operator, operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parsePrimary = (): BadgeExpressionNode => {
+        const token = peek();
+        current++;
+
+        if (token.kind === 'number') {
+            return { kind: 'number', value: token.value };
+        }
+        if (token.kind === 'identifier') {
+            return { kind: 'identifier', name: token.name };
+        }
+        if (isOperator(token, '(')) {
+            const inner = parseLevel(0);
+            const closing = peek();
+            if (!isOperator(closing, ')')) {
+                throw new Error(`Expected ')' at position ${closing.position}, found ${describe(closing)}`);
+            }
+            current++;
+            return inner;
+        }
+        throw new Error(`Unexpected ${describe(token)} at position ${token.position}`);
+    };
+
+    const tree = parseLevel(0);
+    const rest = peek();
+    if (rest.kind !== 'end') {
+        throw new Error(`Unexpected ${describe(rest)} at position ${rest.position}`);
+    }
+    return tree;
+}
+
+/**
+ * Collect all identifiers used in an expression tree.
+ *
+ * @param node - Parsed expression
+ * @param names - Set to add the identifiers to
+ * @returns The set of identifiers
+ */
+export function collectExpressionIdentifiers(node: BadgeExpressionNode, names: Set<string>): Set<string> {
+    switch (node.kind) {
+        case 'identifier':
+            names.add(node.name);
+            break;
+        case 'unary':
+            collectExpressionIdentifiers(node.operand, names);
+            break;
+        case 'binary':
+            collectExpressionIdentifiers(node.left, names);
+            collectExpressionIdentifiers(node.right, names);
+            break;
+    }
+    return names;
+}
+
+// ============================================================================
+// Validation and Evaluation
+// ============================================================================
+
+/**
+ * Validate a badge expression without evaluating it.
+ *
+ * @param expression - The expression source
+ * @returns Error messages (empty if the expression is valid)
+ */
+export function validateBadgeExpression(expression: string): string[] {
+    if (expression.trim() === '') {
+        return ['Expression is empty'];
+    }
+
+    let tree: BadgeExpressionNode;
+    try {
+        tree = parseBadgeExpression(expression);
+    } catch (err) {
+        return [(err as Error).message];
+    }
+
+    const known = new Set<string>(BADGE_EXPRESSION_IDENTIFIERS);
+    return [...collectExpressionIdentifiers(tree, new Set())]
+        .filter((name) => !known.has(name))
+        .map((name) => `Unknown identifier '${name}'. Available: ${BADGE_EXPRESSION_IDENTIFIERS.join(', ')}`);
+}
+
+/**
+ * Evaluate an expression tree. Comparisons and logic yield 1 or 0,
+ * and division or remainder by zero yields 0.
+ *
+ * @param node - Parsed expression
+ * @param values - Value of every identifier the expression may use
+ * @returns The value of the expression
+ * @throws Error if the expression uses an identifier without a value
+ */
+export function evaluateExpressionNode(node: BadgeExpressionNode, values: Readonly<Record<string, number>>): number {
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'identifier': {
+            const value = Object.prototype.hasOwnProperty.call(values, node.name) ? values[node.name] : undefined;
+            if (value === undefined) {
+                throw new Error(`Unknown identifier '${node.name}'`);
+            }
+            return value;
+        }
+        case 'unary': {
+            const operand = evaluateExpressionNode(node.operand, values);
+            return node.operator === '!' ? Number(operand === 0) : -operand;
+        }
+        case 'binary': {
+            // Short-circuit logic
+            if (node.operator === '&&') {
+                return Number(evaluateExpressionNode(node.left, values) !== 0 && evaluateExpressionNode(node.right, values) !== 0);
+            }
+            if (node.operator === '||') {
+                return Number(evaluateExpressionNode(node.left, values) !== 0 || evaluateExpressionNode(node.right, values) !== 0);
+            }
+
+            const left = evaluateExpressionNode(node.left, values);
+            const right = evaluateExpressionNode(node.right, values);
+            switch (node.operator) {
+                case '>=': return Number(left >= right);
+                case '>': return Number(left > right);
+                case '<=': return Number(left <= right);
+                case '<': return Number(left < right);
+                case '==': return Number(left === right);
+                case '!=': return Number(left !== right);
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return right === 0 ? 0 : left / right;
+                case '%': return right === 0 ? 0 : left % right;
+            }
+        }
+    }
+}
+
+/**
+ * Evaluate a badge expression against badge statistics.
+ * Invalid expressions never earn a badge.
+ *
+ * @param expression - The expression source
+ * @param stats - Profile and result statistics
+ * @returns Whether the condition is met
+ */
+export function evaluateBadgeExpression(expression: string, stats: BadgeStatistics): boolean {
+    try {
+        const values: Record<string, number> = {};
+        for (const name of BADGE_EXPRESSION_IDENTIFIERS) {
+            values[name] = stats[name];
+        }
+        return evaluateExpressionNode(parseBadgeExpression(expression), values) !== 0;
+    } catch {
+        return false;
+    }
+}
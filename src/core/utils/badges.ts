@@ -6,7 +6,8 @@
 
 import type { BadgeDefinition } from '@/types/config';
 import type { Badge, UserProfile } from '@/types/profile';
-import { checkBadgeById } from './gamification';
+import type { BadgeResultStatistics } from './badgeExpression';
+import { checkBadge } from './gamification';
 
 // ============================================================================
 // Badge Type Definitions
@@ -254,11 +255,13 @@ export function checkAreaMastery(areaId: string, profile: UserProfile): boolean
  * 
  * @param profile - User profile
  * @param badgeDefinitions - Badge definitions to check
+ * @param resultStats - Statistics from exercise results, used by badge expressions
  * @returns Array of newly earned badges
  */
 export function checkAllBadges(
     profile: UserProfile,
-    badgeDefinitions: BadgeDefinition[] = DEFAULT_BADGES
+    badgeDefinitions: BadgeDefinition[] = DEFAULT_BADGES,
+    resultStats?: BadgeResultStatistics
 ): Badge[] {
     const earnedBadges: Badge[] = [];
     const existingBadgeIds = new Set(profile.badges.map(b => b.id));
@@ -268,7 +271,7 @@ export function checkAllBadges(
         if (existingBadgeIds.has(badgeDef.badge.id)) continue;
 
         // Check if badge is earned
-        if (checkBadgeById(badgeDef.badge.id, profile)) {
+        if (checkBadge(badgeDef, profile, resultStats)) {
             const earnedBadge: Badge = {
                 id: badgeDef.badge.id,
                 name: badgeDef.badge.name,
@@ -0,0 +1,399 @@
+/**
+ * Crossword layout for the Mini Trainer Engine.
+ *
+ * Authors of crossword exercises only list words and clues. The grid is
+ * laid out here: the longest words first, each new word crossing the
+ * words already placed. The layout is deterministic for a seed, so a
+ * crossword looks the same every time it is shown.
+ */
+
+import { createSeededRandom, seededShuffle } from './shuffle';
+import type { CrosswordEntry } from '@/types/exercise';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Direction of a word in the grid.
+ */
+export type CrosswordDirection = 'across' | 'down';
+
+/**
+ * A word placed in the grid.
+ */
+export interface CrosswordPlacement {
+    /** Index of the word in the exercise content */
+    entryIndex: number;
+    /** Letters of the answer in upper case */
+    answer: string[];
+    /** The clue of the word */
+    clue: string;
+    /** Row of the first letter */
+    row: number;
+    /** Column of the first letter */
+    col: number;
+    /** Direction the word is written in */
+    direction: CrosswordDirection;
+    /** Clue number shown in the first cell */
+    number: number;
+}
+
+/**
+ * Laid out crossword.
+ */
+export interface CrosswordLayout {
+    /** Number of columns */
+    width: number;
+    /** Number of rows */
+    height: number;
+    /** Solution letters by row and column; null for blocked cells */
+    grid: (string | null)[][];
+    /** Placed words, ordered by clue number (across before down) */
+    placements: CrosswordPlacement[];
+    /** Indices of words that could not cross the others */
+    unplaced: number[];
+}
+
+/**
+ * Result of checking the letters typed into a crossword.
+ */
+export interface CrosswordCheckResult {
+    /** Whether every cell holds the right letter */
+    correct: boolean;
+    /** Keys of cells that are empty or hold a wrong letter */
+    wrongCells: string[];
+    /** Entry indices of the words that are complete and right */
+    solvedWords: number[];
+}
+
+/**
+ * Cell of the grid while laying out the words.
+ */
+interface LayoutCell {
+    row: number;
+    col: number;
+    letter: string;
+    across: boolean;
+    down: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Seed used when the exercise does not set one.
+ */
+export const DEFAULT_CROSSWORD_SEED = 1;
+
+/**
+ * Layouts tried per crossword; the one placing the most words wins.
+ */
+const LAYOUT_ATTEMPTS = 20;
+
+/**
+ * Seed offset between two layout attempts.
+ */
+const ATTEMPT_SEED_OFFSET = 7919;
+
+const STEP: Record<CrosswordDirection, { dr: number; dc: number }> = {
+    across: { dr: 0, dc: 1 },
+    down: { dr: 1, dc: 0 },
+};
+
+// ============================================================================
+// Words and Cells
+// ============================================================================
+
+/**
+ * Split a word into upper-case letters (ß stays ß).
+ *
+ * @example
+ * ```ts
+ * normalizeCrosswordWord('Bär'); // ['B', 'Ä', 'R']
+ * ```
+ */
+export function normalizeCrosswordWord(word: string): string[] {
+    return Array.from(word.trim()).map((letter) => (letter === 'ß' ? letter : letter.toLocaleUpperCase('de-DE')));
+}
+
+/**
+ * Check if a text can be used as a crossword answer (a single word of letters).
+ */
+export function isCrosswordWord(word: string): boolean {
+    return /^\p{L}{2,}$/u.test(word.trim());
+}
+
+/**
+ * Get the key of a grid cell, as used for typed letters.
+ */
+export function getCrosswordCellKey(row: number, col: number): string {
+    return `${row}-${col}`;
+}
+
+/**
+ * Get the cells of a placed word from the first to the last letter.
+ */
+export function getCrosswordWordCells(placement: CrosswordPlacement): { row: number; col: number }[] {
+    const { dr, dc } = STEP[placement.direction];
+    return placement.answer.map((_, i) => ({ row: placement.row + dr * i, col: placement.col + dc * i }));
+}
+
+// ============================================================================
+// Layout
+// ============================================================================
+
+/**
+ * Count the crossings of a word at a position, or return -1 if it does
+ * not fit: letters must match where words cross, and new letters must
+ * not touch other words side by side or at the ends.
+ */
+function countCrossings(
+    cells: Map<string, LayoutCell>,
+    letters: string[],
+    row: number,
+    col: number,
+    direction: CrosswordDirection
+): number {
+    const { dr, dc } = STEP[direction];
+    if (cells.has(getCrosswordCellKey(row - dr, col - dc))) return -1;
+    if (cells.has(getCrosswordCellKey(row + dr * letters.length, col + dc * letters.length))) return -1;
+
+    let crossings = 0;
+    for (let i = 0; i < letters.length; i++) {
+        const r = row + dr * i;
+        const c = col + dc * i;
+        const cell = cells.get(getCrosswordCellKey(r, c));
+
+        if (cell) {
+            if (cell.letter !== letters[i] || cell[direction]) return -1;
+            crossings++;
+        } else if (cells.has(getCrosswordCellKey(r + dc, c + dr)) || cells.has(getCrosswordCellKey(r - dc, c - dr))) {
+            return -1;
+        }
+    }
+    return crossings;
+}
+
+/**
+ * Write a word into the layout cells.
+ */
+function placeWord(
+    cells: Map<string, LayoutCell>,
+    letters: string[],
+    row: number,
+    col: number,
+    direction: CrosswordDirection
+): void {
+    const { dr, dc } = STEP[direction];
+    letters.forEach((letter, i) => {
+        const cellRow = row + dr * i;
+        const cellCol = col + dc * i;
+        const key = getCrosswordCellKey(cellRow, cellCol);
+        const cell = cells.get(key) ?? { row: cellRow, col: cellCol, letter, across: false, down: false };
+        cell[direction] = true;
+        cells.set(key, cell);
+    });
+}
+
+/**
+ * Get the bounding box of the cells.
+ */
+function getBounds(cells: Map<string, LayoutCell>): { minRow: number; minCol: number; maxRow: number; maxCol: number } {
+    let minRow = Infinity;
+    let minCol = Infinity;
+    let maxRow = -Infinity;
+    let maxCol = -Infinity;
+    for (const { row, col } of cells.values()) {
+        minRow = Math.min(minRow, row);
+        minCol = Math.min(minCol, col);
+        maxRow = Math.max(maxRow, row);
+        maxCol = Math.max(maxCol, col);
+    }
+    return { minRow, minCol, maxRow, maxCol };
+}
+
+/**
+ * Lay out the words of a crossword.
+ *
+ * Algorithm (repeated LAYOUT_ATTEMPTS times with seeds derived from the seed):
+ * 1. Order the words by length, ties in seeded random order (every second
+ *    attempt keeps the random order, which fits more short words)
+ * 2. Write the first word across
+ * 3. Place every other word where it crosses the most letters and keeps
+ *    the grid small; equally good places are picked with the seed
+ * 4. Retry words that did not fit until no more words can be placed
+ * 5. Number the first cells row by row, like a printed crossword
+ *
+ * The attempt that places the most words wins, then the smallest grid.
+ *
+ * @param entries - Words and clues of the exercise
+ * @param seed - Layout seed (default: DEFAULT_CROSSWORD_SEED)
+ * @returns The layout; words that cannot cross the others are listed as unplaced
+ */
+export function generateCrossword(entries: readonly CrosswordEntry[], seed: number = DEFAULT_CROSSWORD_SEED): CrosswordLayout {
+    let best: CrosswordLayout | null = null;
+
+    for (let attempt = 0; attempt < LAYOUT_ATTEMPTS; attempt++) {
+        const layout = layoutWords(entries, seed + attempt * ATTEMPT_SEED_OFFSET, attempt % 2 === 0);
+        if (
+            !best ||
+            layout.unplaced.length < best.unplaced.length ||
+            (layout.unplaced.length === best.unplaced.length && layout.width * layout.height < best.width * best.height)
+        ) {
+            best = layout;
+        }
+        if (best.unplaced.length === 0) break;
+    }
+
+    return best ?? layoutWords(entries, seed, true);
+}
+
+/**
+ * Lay out the words once with a seed (steps 1-5 of generateCrossword).
+ */
+function layoutWords(entries: readonly CrosswordEntry[], seed: number, longestFirst: boolean): CrosswordLayout {
+    const random = createSeededRandom(seed);
+    const words = entries.map((entry) => normalizeCrosswordWord(entry.word));
+    const shuffled = seededShuffle(entries.map((_, i) => i), seed);
+    const order = longestFirst
+        ? shuffled.sort((a, b) => (words[b]?.length ?? 0) - (words[a]?.length ?? 0))
+        : shuffled;
+
+    const cells = new Map<string, LayoutCell>();
+    const placed: Omit<CrosswordPlacement, 'number'>[] = [];
+    let pending = order.filter((index) => (words[index]?.length ?? 0) > 0);
+
+    const place = (entryIndex: number, row: number, col: number, direction: CrosswordDirection) => {
+        const answer = words[entryIndex] ?? [];
+        placeWord(cells, answer, row, col, direction);
+        placed.push({ entryIndex, answer, clue: entries[entryIndex]?.clue ?? '', row, col, direction });
+    };
+
+    const first = pending.shift();
+    if (first !== undefined) place(first, 0, 0, 'across');
+
+    let progress = true;
+    while (progress && pending.length > 0) {
+        progress = false;
+        const stillPending: number[] = [];
+
+        for (const entryIndex of pending) {
+            const letters = words[entryIndex] ?? [];
+            const candidates: { row: number; col: number; direction: CrosswordDirection; crossings: number; area: number }[] = [];
+            const seen = new Set<string>();
+
+            const bounds = getBounds(cells);
+
+            // Try every letter of the word on every matching cell, in the free direction
+            for (const cell of cells.values()) {
+                for (const direction of ['across', 'down'] as const) {
+                    if (cell[direction]) continue;
+                    const { dr, dc } = STEP[direction];
+                    letters.forEach((letter, i) => {
+                        if (letter !== cell.letter) return;
+                        const row = cell.row - dr * i;
+                        const col = cell.col - dc * i;
+                        const id = `${row},${col},${direction}`;
+                        if (seen.has(id)) return;
+                        seen.add(id);
+
+                        const crossings = countCrossings(cells, letters, row, col, direction);
+                        if (crossings < 1) return;
+                        const height = Math.max(bounds.maxRow, row + dr * (letters.length - 1)) - Math.min(bounds.minRow, row) + 1;
+                        const width = Math.max(bounds.maxCol, col + dc * (letters.length - 1)) - Math.min(bounds.minCol, col) + 1;
+                        candidates.push({ row, col, direction, crossings, area: width * height });
+                    });
+                }
+            }
+
+            if (candidates.length === 0) {
+                stillPending.push(entryIndex);
+                continue;
+            }
+
+            // Most crossings first, then the smallest grid; ties are picked with the seed
+            candidates.sort((a, b) => b.crossings - a.crossings || a.area - b.area);
+            const best = candidates.filter((c) => c.crossings === candidates[0]?.crossings && c.area === candidates[0]?.area);
+            const choice = best[Math.floor(random() * best.length)] ?? candidates[0];
+            if (choice) {
+                place(entryIndex, choice.row, choice.col, choice.direction);
+                progress = true;
+            }
+        }
+
+        pending = stillPending;
+    }
+
+    return finishLayout(cells, placed, pending);
+}
+
+/**
+ * Move the layout to start at row and column 0 and number the words.
+ */
+function finishLayout(
+    cells: Map<string, LayoutCell>,
+    placed: Omit<CrosswordPlacement, 'number'>[],
+    unplaced: number[]
+): CrosswordLayout {
+    if (cells.size === 0) {
+        return { width: 0, height: 0, grid: [], placements: [], unplaced };
+    }
+
+    const { minRow, minCol, maxRow, maxCol } = getBounds(cells);
+    const width = maxCol - minCol + 1;
+    const height = maxRow - minRow + 1;
+    const grid: (string | null)[][] = Array.from({ length: height }, () => Array<string | null>(width).fill(null));
+
+    for (const cell of cells.values()) {
+        const gridRow = grid[cell.row - minRow];
+        if (gridRow) gridRow[cell.col - minCol] = cell.letter;
+    }
+
+    const shifted = placed
+        .map((p) => ({ ...p, row: p.row - minRow, col: p.col - minCol }))
+        .sort((a, b) => a.row - b.row || a.col - b.col || (a.direction === 'across' ? -1 : 1));
+
+    // Words starting in the same cell share a number
+    const numbers = new Map<string, number>();
+    const placements = shifted.map((p) => {
+        const key = getCrosswordCellKey(p.row, p.col);
+        const number = numbers.get(key) ?? numbers.size + 1;
+        numbers.set(key, number);
+        return { ...p, number };
+    });
+
+    return { width, height, grid, placements, unplaced };
+}
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+/**
+ * Check the letters typed into a crossword.
+ *
+ * @param layout - The crossword layout
+ * @param letters - Typed letters by cell key (see getCrosswordCellKey)
+ * @returns Wrong or empty cells and the solved words
+ */
+export function checkCrossword(layout: CrosswordLayout, letters: Readonly<Record<string, string>>): CrosswordCheckResult {
+    const wrongCells: string[] = [];
+
+    layout.grid.forEach((row, r) => {
+        row.forEach((solution, c) => {
+            if (solution === null) return;
+            const key = getCrosswordCellKey(r, c);
+            const typed = normalizeCrosswordWord(letters[key] ?? '')[0];
+            if (typed !== solution) wrongCells.push(key);
+        });
+    });
+
+    const wrong = new Set(wrongCells);
+    const solvedWords = layout.placements
+        .filter((p) => getCrosswordWordCells(p).every(({ row, col }) => !wrong.has(getCrosswordCellKey(row, col))))
+        .map((p) => p.entryIndex);
+
+    return { correct: wrongCells.length === 0, wrongCells, solvedWords };
+}
@@ -0,0 +1,184 @@
+/**
+ * Daily challenge utilities for the Mini Trainer Engine.
+ *
+ * Provides the deterministic, date-seeded exercise selection for the
+ * daily challenge and its bonus round, plus the star reward calculation.
+ */
+
+import { createSeededRandom } from './shuffle';
+import type { DailyChallengeRound, Exercise, ExerciseResult } from '@/types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Number of exercises per daily challenge round.
+ */
+export const DAILY_CHALLENGE_SIZE = 5;
+
+/**
+ * Pseudo theme ID used in the exercise route for the daily round.
+ */
+export const DAILY_CHALLENGE_THEME_ID = 'daily';
+
+/**
+ * Pseudo theme ID used in the exercise route for the bonus round.
+ */
+export const DAILY_BONUS_THEME_ID = 'daily-bonus';
+
+/**
+ * Seed offset that separates the bonus round from the daily round.
+ */
+const BONUS_SEED_OFFSET = 7919;
+
+// ============================================================================
+// Date Helpers
+// ============================================================================
+
+/**
+ * Get the local calendar date as a storage key.
+ *
+ * @param date - The date (default: now)
+ * @returns Date string in YYYY-MM-DD format
+ */
+export function getDailyChallengeDateKey(date: Date = new Date()): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * Get the numeric seed for a date (year * 10000 + month * 100 + day).
+ *
+ * @param date - The date (default: now)
+ * @returns The date seed
+ */
+export function getDailyChallengeSeed(date: Date = new Date()): number {
+    return date.getFullYear() * 10000 + (date.getMonth() + 1) * 100 + date.getDate();
+}
+
+/**
+ * Get the seed of a daily challenge round. It drives the exercise
+ * selection and the layout of exercises that deal cards.
+ *
+ * @param round - The challenge round
+ * @param date - The date (default: now)
+ * @returns The round seed
+ */
+export function getDailyChallengeRoundSeed(round: DailyChallengeRound, date: Date = new Date()): number {
+    const seed = getDailyChallengeSeed(date);
+    return round === 'bonus' ? seed + BONUS_SEED_OFFSET : seed;
+}
+
+/**
+ * Get the daily challenge round for a route theme ID.
+ *
+ * @param themeId - The theme ID from the route
+ * @returns The round, or null if the theme ID is not a daily challenge
+ */
+export function getDailyChallengeRound(themeId: string | undefined): DailyChallengeRound | null {
+    if (themeId === DAILY_CHALLENGE_THEME_ID) return 'daily';
+    if (themeId === DAILY_BONUS_THEME_ID) return 'bonus';
+    return null;
+}
+
+// ============================================================================
+// Exercise Selection
+// ============================================================================
+
+/**
+ * Fisher-Yates shuffle driven by an existing random number generator.
+ */
+function shuffleWith<T>(array: readonly T[], random: () => number): T[] {
+    const result = [...array];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        const temp = result[i];
+        result[i] = result[j] as T;
+        result[j] = temp as T;
+    }
+    return result;
+}
+
+/**
+ * Pick up to DAILY_CHALLENGE_SIZE exercises, one per theme.
+ *
+ * Algorithm:
+ * 1. Group exercises by themeId
+ * 2. Shuffle themes deterministically
+ * 3. Select one random exercise from each of the first themes
+ */
+function pickOnePerTheme(exercises: readonly Exercise[], seed: number): Exercise[] {
+    const random = createSeededRandom(seed);
+
+    const exercisesByTheme = new Map<string, Exercise[]>();
+    for (const exercise of exercises) {
+        const themeExercises = exercisesByTheme.get(exercise.themeId) || [];
+        themeExercises.push(exercise);
+        exercisesByTheme.set(exercise.themeId, themeExercises);
+    }
+
+    const themes = shuffleWith(Array.from(exercisesByTheme.keys()), random);
+    const selected: Exercise[] = [];
+
+    for (const theme of themes) {
+        if (selected.length >= DAILY_CHALLENGE_SIZE) break;
+
+        const themeExercises = exercisesByTheme.get(theme);
+        if (!themeExercises || themeExercises.length === 0) continue;
+
+        const first = shuffleWith(themeExercises, random)[0];
+        if (first !== undefined) {
+            selected.push(first);
+        }
+    }
+
+    return selected;
+}
+
+/**
+ * Get the exercises for a daily challenge round.
+ *
+ * The selection is deterministic for a given date, so every visit on
+ * the same day yields the same set. The bonus round uses a second seed
+ * and never repeats an exercise from the daily round, unless the pool
+ * is too small to avoid it.
+ *
+ * @param exercises - All available exercises
+ * @param round - The challenge round (default: 'daily')
+ * @param date - The challenge date (default: now)
+ * @returns Up to DAILY_CHALLENGE_SIZE exercises from different themes
+ */
+export function getDailyChallengeExercises(
+    exercises: readonly Exercise[],
+    round: DailyChallengeRound = 'daily',
+    date: Date = new Date()
+): Exercise[] {
+    const dailySet = pickOnePerTheme(exercises, getDailyChallengeRoundSeed('daily', date));
+
+    if (round === 'daily') {
+        return dailySet;
+    }
+
+    const dailyIds = new Set(dailySet.map((e) => e.id));
+    const remaining = exercises.filter((e) => !dailyIds.has(e.id));
+    return pickOnePerTheme(remaining.length > 0 ? remaining : exercises, getDailyChallengeRoundSeed('bonus', date));
+}
+
+// ============================================================================
+// Rewards
+// ============================================================================
+
+/**
+ * Calculate the bonus stars for a finished daily challenge round.
+ * One star is awarded per exercise solved correctly.
+ *
+ * @param results - Results recorded during the round
+ * @returns Number of bonus stars
+ */
+export function calculateDailyChallengeStars(results: readonly ExerciseResult[]): number {
+    const solved = new Set(results.filter((r) => r.correct).map((r) => r.exerciseId));
+    return solved.size;
+}
@@ -0,0 +1,214 @@
+/**
+ * Drawing utilities for the Mini Trainer Engine.
+ *
+ * Strokes drawn on the canvas of a drawing exercise are kept as lists of
+ * points, so that the last stroke can be undone by drawing the rest
+ * again. The eraser is a stroke that clears what is below it.
+ * Finished drawings are saved with the exercise result as PNG data URLs
+ * for the teacher to review.
+ */
+
+import type { DrawingContent, ExerciseResult } from '@/types/exercise';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A point on the canvas in canvas pixels.
+ */
+export interface DrawingPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * Tool a stroke is drawn with.
+ */
+export type DrawingTool = 'pen' | 'eraser';
+
+/**
+ * One stroke from pressing the pointer down to lifting it.
+ */
+export interface DrawingStroke {
+    /** Pen or eraser */
+    tool: DrawingTool;
+    /** Pen colour (ignored by the eraser) */
+    color: string;
+    /** Line width in canvas pixels */
+    width: number;
+    /** Points of the stroke */
+    points: DrawingPoint[];
+}
+
+/**
+ * The parts of a 2D canvas context needed to draw strokes.
+ */
+export type DrawingContext = Pick<
+    CanvasRenderingContext2D,
+    'clearRect' | 'beginPath' | 'moveTo' | 'lineTo' | 'arc' | 'stroke' | 'fill'
+    | 'strokeStyle' | 'fillStyle' | 'lineWidth' | 'lineCap' | 'lineJoin' | 'globalCompositeOperation'
+>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Canvas width when the exercise does not set one.
+ */
+export const DEFAULT_DRAWING_WIDTH = 400;
+
+/**
+ * Canvas height when the exercise does not set one.
+ */
+export const DEFAULT_DRAWING_HEIGHT = 300;
+
+/**
+ * Largest canvas side, keeps saved drawings small.
+ */
+export const MAX_DRAWING_SIZE = 1000;
+
+/**
+ * Pen colours when neither the exercise nor the theme sets any.
+ */
+export const DEFAULT_DRAWING_COLORS: readonly string[] = [
+    '#1f2937',
+    '#ef4444',
+    '#f59e0b',
+    '#22c55e',
+    '#3b82f6',
+    '#8b5cf6',
+];
+
+/**
+ * Line width of the pen in canvas pixels.
+ */
+export const PEN_WIDTH = 4;
+
+/**
+ * Line width of the eraser in canvas pixels.
+ */
+export const ERASER_WIDTH = 24;
+
+/**
+ * SVG path data: commands, numbers, commas and spaces.
+ */
+const SVG_PATH_PATTERN = /^\s*[Mm][\s\dMmLlHhVvCcSsQqTtAaZz.,eE+-]*$/;
+
+// ============================================================================
+// Canvas Helpers
+// ============================================================================
+
+/**
+ * Get the canvas size of a drawing exercise.
+ */
+export function getDrawingSize(content: Pick<DrawingContent, 'width' | 'height'>): { width: number; height: number } {
+    return {
+        width: content.width ?? DEFAULT_DRAWING_WIDTH,
+        height: content.height ?? DEFAULT_DRAWING_HEIGHT,
+    };
+}
+
+/**
+ * Get the pen colours of a drawing exercise: its own colours, else the
+ * palette of its theme, else the default colours.
+ *
+ * @param content - The exercise content
+ * @param palette - Palette of the exercise's theme
+ */
+export function getDrawingColors(content: Pick<DrawingContent, 'colors'>, palette?: readonly string[]): string[] {
+    if (content.colors && content.colors.length > 0) return [...content.colors];
+    if (palette && palette.length > 0) return [...palette];
+    return [...DEFAULT_DRAWING_COLORS];
+}
+
+/**
+ * Convert a pointer position on the screen to canvas pixels. The canvas
+ * may be shown smaller than its size (e.g. on a phone); points outside
+ * are moved to the edge.
+ *
+ * @param clientX - Pointer x position in the window
+ * @param clientY - Pointer y position in the window
+ * @param rect - Position and size of the canvas on the screen
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ */
+export function toCanvasPoint(
+    clientX: number,
+    clientY: number,
+    rect: Pick<DOMRect, 'left' | 'top' | 'width' | 'height'>,
+    width: number,
+    height: number
+): DrawingPoint {
+    const clamp = (value: number, max: number) => Math.min(Math.max(value, 0), max);
+    return {
+        x: rect.width > 0 ? clamp(((clientX - rect.left) / rect.width) * width, width) : 0,
+        y: rect.height > 0 ? clamp(((clientY - rect.top) / rect.height) * height, height) : 0,
+    };
+}
+
+/**
+ * Draw one stroke. A single point is drawn as a dot.
+ */
+export function drawStroke(ctx: DrawingContext, stroke: DrawingStroke): void {
+    const [first, ...rest] = stroke.points;
+    if (!first) return;
+
+    ctx.globalCompositeOperation = stroke.tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = stroke.color;
+    ctx.fillStyle = stroke.color;
+    ctx.lineWidth = stroke.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    ctx.beginPath();
+    if (rest.length === 0) {
+        ctx.arc(first.x, first.y, stroke.width / 2, 0, Math.PI * 2);
+        ctx.fill();
+    } else {
+        ctx.moveTo(first.x, first.y);
+        for (const point of rest) {
+            ctx.lineTo(point.x, point.y);
+        }
+        ctx.stroke();
+    }
+    ctx.globalCompositeOperation = 'source-over';
+}
+
+/**
+ * Clear the canvas and draw all strokes again (e.g. after an undo).
+ */
+export function redrawStrokes(ctx: DrawingContext, strokes: readonly DrawingStroke[], width: number, height: number): void {
+    ctx.clearRect(0, 0, width, height);
+    for (const stroke of strokes) {
+        drawStroke(ctx, stroke);
+    }
+}
+
+/**
+ * Check if a text is SVG path data (for tracing outlines).
+ */
+export function isSvgPathData(text: string): boolean {
+    return SVG_PATH_PATTERN.test(text);
+}
+
+// ============================================================================
+// Saved Drawings
+// ============================================================================
+
+/**
+ * Check if a text is a PNG data URL.
+ */
+export function isDrawingDataUrl(text: unknown): text is string {
+    return typeof text === 'string' && text.startsWith('data:image/png;base64,');
+}
+
+/**
+ * Get the results that have a saved drawing, newest first.
+ */
+export function getDrawingResults(results: readonly ExerciseResult[]): ExerciseResult[] {
+    return results
+        .filter((result) => isDrawingDataUrl(result.drawing))
+        .sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+}
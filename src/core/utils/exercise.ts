@@ -17,7 +17,55 @@ import type {
     ConnectorInsertContent,
     WordOrderContent,
     PictureVocabularyContent,
+    ClozeTextContent,
+    NumberLineContent,
+    ClockContent,
+    HotspotContent,
+    HotspotRegion,
+    SequenceContent,
+    MemoryContent,
 } from '@/types/exercise';
+import { seededShuffle } from './shuffle';
+
+/**
+ * Default share of blanks that must be correct to solve a cloze text:
+ * all of them. Partly correct answers still earn stars by their accuracy.
+ */
+export const DEFAULT_CLOZE_PASS_RATIO = 1;
+
+/**
+ * Default share of cards that must be in order to solve a sequence with partial credit.
+ */
+export const DEFAULT_SEQUENCE_PASS_RATIO = 0.5;
+
+/**
+ * Card flips per pair a memory game may take and still earn all stars.
+ */
+export const MEMORY_PAR_FLIPS_PER_PAIR = 3;
+
+/**
+ * Most pairs a memory game may have (24 cards fit a 6 × 4 grid).
+ */
+export const MAX_MEMORY_PAIRS = 12;
+
+/**
+ * Card of a memory game. Both cards of a pair share the pair index.
+ */
+export interface MemoryCard {
+    /** Unique card id ("<pair>-left" or "<pair>-right") */
+    id: string;
+    /** Index of the pair in the content */
+    pairIndex: number;
+    /** Text shown on the card */
+    text: string;
+}
+
+/**
+ * Part of a cloze text: plain text or a numbered blank.
+ */
+export type ClozeSegment =
+    | { kind: 'text'; text: string }
+    | { kind: 'blank'; blankId: number };
 
 // ============================================================================
 // Answer Validation
@@ -194,6 +242,338 @@ export function validatePictureVocabularyAnswer(
     );
 }
 
+/**
+ * Split a cloze text into text parts and numbered blanks.
+ * Placeholders have the form {{1}}, {{2}}, ...
+ */
+export function parseClozeText(text: string): ClozeSegment[] {
+    const segments: ClozeSegment[] = [];
+    const placeholder = /\{\{(\d+)\}\}/g;
+    let lastIndex = 0;
+
+    for (const match of text.matchAll(placeholder)) {
+        if (match.index > lastIndex) {
+            segments.push({ kind: 'text', text: text.slice(lastIndex, match.index) });
+        }
+        segments.push({ kind: 'blank', blankId: Number(match[1]) });
+        lastIndex = match.index + match[0].length;
+    }
+
+    if (lastIndex < text.length) {
+        segments.push({ kind: 'text', text: text.slice(lastIndex) });
+    }
+
+    return segments;
+}
+
+/**
+ * Validate a cloze text answer. Every blank is scored on its own;
+ * the exercise is solved when the share of correct blanks reaches
+ * the pass ratio.
+ */
+export function validateClozeTextAnswer(
+    content: ClozeTextContent,
+    answers: Record<number, string>
+): {
+    correct: boolean;
+    accuracy: number;
+    results: Record<number, boolean>;
+    caseErrors: Record<number, boolean>;
+} {
+    const caseSensitive = content.caseSensitive ?? true;
+    const passRatio = content.passRatio ?? DEFAULT_CLOZE_PASS_RATIO;
+    const results: Record<number, boolean> = {};
+    const caseErrors: Record<number, boolean> = {};
+    let correctCount = 0;
+
+    for (const blank of content.blanks) {
+        const userAnswer = (answers[blank.id] ?? '').trim();
+        const acceptable = [blank.correctAnswer, ...(blank.acceptableAnswers ?? [])];
+        const caseInsensitiveCorrect = userAnswer !== '' &&
+            acceptable.some((a) => a.toLowerCase() === userAnswer.toLowerCase());
+        const isCorrect = caseSensitive ? acceptable.includes(userAnswer) : caseInsensitiveCorrect;
+
+        results[blank.id] = isCorrect;
+        caseErrors[blank.id] = !isCorrect && caseInsensitiveCorrect;
+        if (isCorrect) correctCount++;
+    }
+
+    const accuracy = content.blanks.length > 0 ? correctCount / content.blanks.length : 0;
+
+    return {
+        correct: content.blanks.length > 0 && accuracy >= passRatio,
+        accuracy,
+        results,
+        caseErrors,
+    };
+}
+
+/**
+ * Get the tick positions of a number line from min to max.
+ */
+export function getNumberLineTicks(content: Pick<NumberLineContent, 'min' | 'max' | 'tickInterval'>): number[] {
+    if (content.tickInterval <= 0 || content.max < content.min) return [content.min];
+
+    const count = Math.floor((content.max - content.min) / content.tickInterval + 1e-9);
+    return Array.from({ length: count + 1 }, (_, i) => roundNumberLineValue(content.min + i * content.tickInterval));
+}
+
+/**
+ * Snap a value to the marker step of a number line, clamped to min and max.
+ */
+export function snapToNumberLine(
+    content: Pick<NumberLineContent, 'min' | 'max' | 'tickInterval' | 'step'>,
+    value: number
+): number {
+    const step = content.step ?? content.tickInterval;
+    const snapped = step > 0 ? content.min + Math.round((value - content.min) / step) * step : value;
+    return roundNumberLineValue(Math.min(Math.max(snapped, content.min), content.max));
+}
+
+/**
+ * Parse a typed number; accepts a German decimal comma.
+ */
+export function parseNumberInput(text: string): number | null {
+    const normalized = text.trim().replace(',', '.');
+    if (!/^-?\d+(\.\d+)?$/.test(normalized)) return null;
+    return Number(normalized);
+}
+
+/**
+ * Validate a number line answer (placed or read-off value) within the tolerance.
+ */
+export function validateNumberLineAnswer(content: NumberLineContent, value: number | null): boolean {
+    if (value === null) return false;
+    return Math.abs(value - content.target) <= (content.tolerance ?? 0) + 1e-9;
+}
+
+/**
+ * Remove floating point noise from number line values (e.g. 0.30000000000000004).
+ */
+function roundNumberLineValue(value: number): number {
+    return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Default minute snapping of clock hands.
+ */
+export const DEFAULT_CLOCK_MINUTE_STEP = 5;
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_HALF_DAY = 12 * 60;
+
+/**
+ * Parse a digital time ("15:30", "7.05", "7:05 Uhr") into minutes after midnight.
+ * Returns null for anything that is not a valid time of day.
+ */
+export function parseClockTime(text: string): number | null {
+    const match = text.trim().match(/^(\d{1,2})\s*[:.]\s*(\d{2})(\s*uhr)?$/i);
+    if (!match) return null;
+
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (hours > 23 || minutes > 59) return null;
+    return hours * 60 + minutes;
+}
+
+/**
+ * Format minutes after midnight as a digital time ("7:05", "15:30").
+ */
+export function formatClockTime(minutes: number): string {
+    const normalized = ((minutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+    const hours = Math.floor(normalized / 60);
+    return `${hours}:${String(normalized % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Get the angles of the hour and minute hand in degrees clockwise from 12.
+ * The hour hand moves on with the minutes like on a real clock.
+ */
+export function getClockHandAngles(minutes: number): { hour: number; minute: number } {
+    const normalized = ((minutes % MINUTES_PER_HALF_DAY) + MINUTES_PER_HALF_DAY) % MINUTES_PER_HALF_DAY;
+    return {
+        hour: normalized / 2,
+        minute: (normalized % 60) * 6,
+    };
+}
+
+/**
+ * Snap a time to the minute step of a clock, wrapped to one turn of the hour hand.
+ */
+export function snapClockMinutes(minutes: number, step: number = DEFAULT_CLOCK_MINUTE_STEP): number {
+    const snapped = step > 0 ? Math.round(minutes / step) * step : Math.round(minutes);
+    return ((snapped % MINUTES_PER_HALF_DAY) + MINUTES_PER_HALF_DAY) % MINUTES_PER_HALF_DAY;
+}
+
+/**
+ * Validate a clock answer given in minutes after midnight.
+ * Set hands and '12h' answers are compared on the 12-hour dial;
+ * '24h' answers must match the exact time of day.
+ */
+export function validateClockAnswer(content: ClockContent, answer: number | null): boolean {
+    const target = parseClockTime(content.time);
+    if (answer === null || target === null) return false;
+
+    const strict = content.mode === 'read' && content.answerFormat === '24h';
+    const period = strict ? MINUTES_PER_DAY : MINUTES_PER_HALF_DAY;
+    return (answer - target) % period === 0;
+}
+
+/**
+ * Result of one hotspot region after checking:
+ * - 'correct': selected and asked for
+ * - 'incorrect': selected but not asked for
+ * - 'missed': asked for but not selected
+ * - 'neutral': neither selected nor asked for
+ */
+export type HotspotRegionResult = 'correct' | 'incorrect' | 'missed' | 'neutral';
+
+/**
+ * Get the result of every region of a hotspot picture, keyed by region id.
+ */
+export function getHotspotRegionResults(
+    content: HotspotContent,
+    selectedIds: string[]
+): Record<string, HotspotRegionResult> {
+    const selected = new Set(selectedIds);
+    const correct = new Set(content.correctRegionIds);
+    const results: Record<string, HotspotRegionResult> = {};
+
+    content.regions.forEach((region) => {
+        if (selected.has(region.id)) {
+            results[region.id] = correct.has(region.id) ? 'correct' : 'incorrect';
+        } else {
+            results[region.id] = correct.has(region.id) ? 'missed' : 'neutral';
+        }
+    });
+
+    return results;
+}
+
+/**
+ * Validate a hotspot answer: exactly the regions asked for must be selected.
+ */
+export function validateHotspotAnswer(content: HotspotContent, selectedIds: string[]): boolean {
+    const selected = new Set(selectedIds);
+    return selected.size === content.correctRegionIds.length
+        && content.correctRegionIds.every((id) => selected.has(id));
+}
+
+/**
+ * Get the center of a hotspot region (the average of a polygon's corners),
+ * used to place result markers.
+ */
+export function getHotspotRegionCenter(region: HotspotRegion): { x: number; y: number } {
+    if (region.shape === 'circle') {
+        return { x: region.cx ?? 0, y: region.cy ?? 0 };
+    }
+
+    const points = region.points ?? [];
+    if (points.length === 0) return { x: 0, y: 0 };
+    const sum = points.reduce((acc, [x, y]) => ({ x: acc.x + x, y: acc.y + y }), { x: 0, y: 0 });
+    return { x: sum.x / points.length, y: sum.y / points.length };
+}
+
+/**
+ * Find the longest run of cards that are in the right order relative to
+ * each other (they need not be next to each other).
+ * Returns the indices of these cards in the answer.
+ *
+ * @example
+ * ```ts
+ * getLongestCorrectSubsequence(['B', 'A', 'C', 'D'], ['A', 'B', 'C', 'D']); // [1, 2, 3]
+ * ```
+ */
+export function getLongestCorrectSubsequence(answer: string[], order: string[]): number[] {
+    const positions = answer.map((item) => order.indexOf(item));
+    // Length of the longest increasing run ending at each card, and its predecessor
+    const lengths: number[] = [];
+    const previous: number[] = [];
+    let bestEnd = -1;
+
+    positions.forEach((position, i) => {
+        lengths[i] = position < 0 ? 0 : 1;
+        previous[i] = -1;
+        if (position < 0) return;
+        for (let j = 0; j < i; j++) {
+            const before = positions[j] ?? -1;
+            const length = (lengths[j] ?? 0) + 1;
+            if (before >= 0 && before < position && length > (lengths[i] ?? 0)) {
+                lengths[i] = length;
+                previous[i] = j;
+            }
+        }
+        if (bestEnd < 0 || (lengths[i] ?? 0) > (lengths[bestEnd] ?? 0)) bestEnd = i;
+    });
+
+    const indices: number[] = [];
+    for (let i = bestEnd; i >= 0 && (lengths[i] ?? 0) > 0; i = previous[i] ?? -1) {
+        indices.unshift(i);
+    }
+    return indices;
+}
+
+/**
+ * Validate a sequence answer against the correct and alternate orders.
+ * The share of cards in the right relative order counts as accuracy;
+ * with partial credit the exercise is solved when it reaches the pass ratio.
+ * `inOrder` marks the cards of the best matching order.
+ */
+export function validateSequenceAnswer(
+    content: SequenceContent,
+    answer: string[]
+): { correct: boolean; accuracy: number; inOrder: boolean[] } {
+    const orders = [content.correctOrder, ...(content.alternateOrders ?? [])];
+    let best: number[] = [];
+
+    for (const order of orders) {
+        const run = getLongestCorrectSubsequence(answer, order);
+        if (run.length > best.length) best = run;
+    }
+
+    const total = content.correctOrder.length;
+    const accuracy = total > 0 ? best.length / total : 0;
+    const isExact = total > 0 && answer.length === total && best.length === total;
+    const passRatio = content.passRatio ?? DEFAULT_SEQUENCE_PASS_RATIO;
+
+    return {
+        correct: isExact || (content.partialCredit === true && total > 0 && accuracy >= passRatio),
+        accuracy,
+        inOrder: answer.map((_, i) => best.includes(i)),
+    };
+}
+
+/**
+ * Deal the cards of a memory game: two cards per pair, shuffled.
+ * With a seed (e.g. the date of the daily challenge) the cards are
+ * always laid out the same way.
+ */
+export function createMemoryDeck(content: MemoryContent, seed?: number): MemoryCard[] {
+    const cards = content.pairs.flatMap((pair, pairIndex) => [
+        { id: `${pairIndex}-left`, pairIndex, text: pair.left },
+        { id: `${pairIndex}-right`, pairIndex, text: pair.right },
+    ]);
+    return seed === undefined ? shuffleArray(cards) : seededShuffle(cards, seed);
+}
+
+/**
+ * Check whether two different cards of a memory game belong to the same pair.
+ */
+export function isMemoryMatch(a: MemoryCard, b: MemoryCard): boolean {
+    return a.id !== b.id && a.pairIndex === b.pairIndex;
+}
+
+/**
+ * Score a finished memory game by the number of card flips.
+ * Up to MEMORY_PAR_FLIPS_PER_PAIR flips per pair count as 1; every
+ * extra flip lowers the accuracy (twice the par gives 0.5).
+ */
+export function getMemoryAccuracy(pairCount: number, flips: number): number {
+    const par = pairCount * MEMORY_PAR_FLIPS_PER_PAIR;
+    if (pairCount <= 0 || flips <= par) return 1;
+    return par / flips;
+}
+
 // ============================================================================
 // Score Calculation
 // ============================================================================
@@ -0,0 +1,308 @@
+/**
+ * Exercise template utilities for the Mini Trainer Engine.
+ *
+ * A template is an exercise with a `template` block: variables drawn from
+ * ranges, constraints the draw has to meet, formulas for derived values
+ * such as the answer, and rules for wrong multiple choice options.
+ * At the start of a session each template is expanded into a concrete
+ * exercise by replacing the `{name}` placeholders with the drawn numbers.
+ * The expanded exercise keeps the template's ID, so results, reviews and
+ * level progress stay attributable to the template.
+ *
+ * @example
+ * ```json
+ * {
+ *   "id": "math-add-template",
+ *   "type": "arithmetic",
+ *   "instruction": "Rechne {a} + {b}.",
+ *   "content": { "type": "arithmetic", "mode": "input", "question": "{a} + {b} = ?", "answer": "{answer}" },
+ *   "template": {
+ *     "variables": { "a": { "min": 10, "max": 50 }, "b": { "min": 10, "max": 49 } },
+ *     "constraints": ["a % 10 + b % 10 >= 10"],
+ *     "formulas": { "answer": "a + b" }
+ *   }
+ * }
+ * ```
+ */
+
+import type { Exercise, ExerciseTemplate, ExerciseType, TemplateVariable } from '@/types/exercise';
+import { evaluateExpressionNode, parseBadgeExpression } from './badgeExpression';
+import { createSeededRandom, seededShuffle } from './shuffle';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Numbers drawn for one expansion of a template.
+ */
+export interface TemplateDraw {
+    /** Variables and formula results by name */
+    values: Record<string, number>;
+    /** Wrong multiple choice options (unique, without the answer) */
+    distractors: number[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Draws tried before a template counts as impossible to expand.
+ */
+export const MAX_TEMPLATE_DRAWS = 200;
+
+/**
+ * Name of the formula that holds the answer.
+ */
+export const TEMPLATE_ANSWER_NAME = 'answer';
+
+/**
+ * Placeholder for a value (`{a}`). Double braces such as `{{blank}}` are
+ * left alone, they belong to fill-blank and cloze exercises.
+ */
+const PLACEHOLDER_PATTERN = /(?<!\{)\{([A-Za-z_][A-Za-z0-9_]*)\}(?!\})/g;
+
+/**
+ * Content fields that hold numbers. A placeholder that is the whole
+ * value of such a field becomes a number instead of text.
+ */
+const NUMERIC_CONTENT_FIELDS: Partial<Record<ExerciseType, readonly string[]>> = {
+    'number-line': ['min', 'max', 'tickInterval', 'labeledTicks', 'step', 'target', 'tolerance'],
+    arithmetic: ['operands'],
+};
+
+/**
+ * Decimal places kept of drawn and computed numbers (hides floating point noise).
+ */
+const DECIMAL_PLACES = 10;
+
+// ============================================================================
+// Drawing Values
+// ============================================================================
+
+function roundValue(value: number): number {
+    const factor = 10 ** DECIMAL_PLACES;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * Draw one value of a variable.
+ */
+function drawVariable(variable: TemplateVariable, random: () => number): number {
+    const step = variable.step && variable.step > 0 ? variable.step : 1;
+    const count = Math.floor(roundValue((variable.max - variable.min) / step)) + 1;
+    return roundValue(variable.min + Math.floor(random() * Math.max(count, 1)) * step);
+}
+
+/**
+ * Compute the wrong options of a draw. Values that are not finite, equal
+ * to the answer or to another option are dropped, and so are negative
+ * values when the answer is not negative.
+ */
+function computeDistractors(template: ExerciseTemplate, values: Record<string, number>): number[] {
+    const answer = values[TEMPLATE_ANSWER_NAME];
+    if (answer === undefined) return [];
+
+    const distractors: number[] = [];
+    for (const expression of template.distractors ?? []) {
+        const value = roundValue(evaluateExpressionNode(parseBadgeExpression(expression), values));
+        if (!Number.isFinite(value) || value === answer || distractors.includes(value)) continue;
+        if (value < 0 && answer >= 0) continue;
+        distractors.push(value);
+    }
+    return distractors;
+}
+
+/**
+ * Draw values for a template until all constraints are met. Formulas are
+ * computed in order, so a formula may use the formulas before it.
+ * A draw with distractor rules needs at least one usable wrong option.
+ *
+ * @param template - The template
+ * @param random - Random number generator (e.g. from createSeededRandom)
+ * @returns The draw, or null if no draw met the constraints
+ * @throws Error if an expression is not valid
+ */
+export function drawTemplateValues(template: ExerciseTemplate, random: () => number): TemplateDraw | null {
+    const constraints = (template.constraints ?? []).map((expression) => parseBadgeExpression(expression));
+    const formulas = Object.entries(template.formulas ?? {}).map(
+        ([name, expression]) => [name, parseBadgeExpression(expression)] as const
+    );
+
+    for (let attempt = 0; attempt < MAX_TEMPLATE_DRAWS; attempt++) {
+        const values: Record<string, number> = {};
+        let excluded = false;
+        for (const [name, variable] of Object.entries(template.variables)) {
+            const value = drawVariable(variable, random);
+            if (variable.exclude?.includes(value)) excluded = true;
+            values[name] = value;
+        }
+        if (excluded) continue;
+
+        for (const [name, formula] of formulas) {
+            values[name] = roundValue(evaluateExpressionNode(formula, values));
+        }
+        if (!constraints.every((constraint) => evaluateExpressionNode(constraint, values) !== 0)) continue;
+
+        const distractors = computeDistractors(template, values);
+        if (template.distractors && distractors.length === 0) continue;
+
+        return { values, distractors };
+    }
+
+    return null;
+}
+
+// ============================================================================
+// Filling Placeholders
+// ============================================================================
+
+/**
+ * Format a template number for text in a locale ("2,5" in German).
+ */
+export function formatTemplateNumber(value: number, locale: string = 'de'): string {
+    try {
+        return new Intl.NumberFormat(locale, { useGrouping: false, maximumFractionDigits: DECIMAL_PLACES }).format(value);
+    } catch {
+        return String(value);
+    }
+}
+
+/**
+ * Get the names of all placeholders in a text.
+ */
+export function getTemplatePlaceholders(text: string): string[] {
+    return [...text.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1] ?? '');
+}
+
+/**
+ * Replace the placeholders in a text. Unknown names are left as they are.
+ */
+export function fillTemplateText(text: string, values: Readonly<Record<string, number>>, locale: string = 'de'): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+        const value = Object.prototype.hasOwnProperty.call(values, name) ? values[name] : undefined;
+        return value === undefined ? placeholder : formatTemplateNumber(value, locale);
+    });
+}
+
+/**
+ * Replace the placeholders in all texts of a value. A text that is a
+ * single placeholder becomes the number when `numeric` is set.
+ */
+function fillValue(value: unknown, values: Readonly<Record<string, number>>, locale: string, numeric: boolean): unknown {
+    if (typeof value === 'string') {
+        if (numeric) {
+            const name = /^\{([A-Za-z_][A-Za-z0-9_]*)\}$/.exec(value.trim())?.[1];
+            const number = name !== undefined && Object.prototype.hasOwnProperty.call(values, name) ? values[name] : undefined;
+            if (number !== undefined) return number;
+        }
+        return fillTemplateText(value, values, locale);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => fillValue(item, values, locale, numeric));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, fillValue(item, values, locale, numeric)])
+        );
+    }
+    return value;
+}
+
+// ============================================================================
+// Expanding Templates
+// ============================================================================
+
+/**
+ * Get the seed a template is drawn with in a session. Every template gets
+ * its own numbers, and a fixed `template.seed` always wins.
+ *
+ * @param exercise - The template exercise
+ * @param sessionSeed - Seed of the session
+ * @returns The seed for createSeededRandom
+ */
+export function getTemplateSeed(exercise: Pick<Exercise, 'id' | 'template'>, sessionSeed: number): number {
+    if (exercise.template?.seed !== undefined) return exercise.template.seed;
+
+    let hash = 0;
+    for (const char of exercise.id) {
+        hash = (hash * 31 + char.charCodeAt(0)) & 0x7fffffff;
+    }
+    return (hash + sessionSeed) & 0x7fffffff;
+}
+
+/**
+ * Create a seed for a session that should get fresh numbers.
+ */
+export function createTemplateSessionSeed(): number {
+    return Math.floor(Math.random() * 0x7fffffff);
+}
+
+/**
+ * Expand a template into a concrete exercise. Exercises without a
+ * template are returned unchanged.
+ *
+ * Multiple choice templates with distractor rules get their options
+ * from the answer and the wrong options, in seeded random order.
+ *
+ * @param exercise - The exercise
+ * @param sessionSeed - Seed of the session (see getTemplateSeed)
+ * @param locale - Locale numbers are written in
+ * @returns The exercise without its template, or null if the template cannot be expanded
+ */
+export function expandExerciseTemplate(exercise: Exercise, sessionSeed: number, locale: string = 'de'): Exercise | null {
+    const { template, ...rest } = exercise;
+    if (!template) return exercise;
+
+    const random = createSeededRandom(getTemplateSeed(exercise, sessionSeed));
+    let draw: TemplateDraw | null;
+    try {
+        draw = drawTemplateValues(template, random);
+    } catch {
+        return null;
+    }
+    if (!draw) return null;
+    const { values, distractors } = draw;
+
+    const numericFields = NUMERIC_CONTENT_FIELDS[exercise.content.type] ?? [];
+    const content = Object.fromEntries(
+        Object.entries(exercise.content).map(([key, value]) => [
+            key,
+            key === 'type' ? value : fillValue(value, values, locale, numericFields.includes(key)),
+        ])
+    ) as Exercise['content'];
+
+    if (content.type === 'multiple-choice' && template.distractors) {
+        const answer = values[TEMPLATE_ANSWER_NAME] ?? 0;
+        const options = seededShuffle([answer, ...distractors], Math.floor(random() * 0x7fffffff));
+        content.options = options.map((option) => formatTemplateNumber(option, locale));
+        content.correctIndex = options.indexOf(answer);
+    }
+
+    return {
+        ...rest,
+        instruction: fillTemplateText(exercise.instruction, values, locale),
+        content,
+        hints: exercise.hints.map((hint) => fillTemplateText(hint, values, locale)),
+        feedbackCorrect: fillTemplateText(exercise.feedbackCorrect, values, locale),
+        feedbackIncorrect: fillTemplateText(exercise.feedbackIncorrect, values, locale),
+        ...(exercise.audio ? { audio: fillValue(exercise.audio, values, locale, false) as Exercise['audio'] } : {}),
+    } as Exercise;
+}
+
+/**
+ * Expand all templates of a session. Templates that cannot be expanded
+ * are left out.
+ *
+ * @param exercises - Exercises of the session
+ * @param sessionSeed - Seed of the session
+ * @param locale - Locale numbers are written in
+ * @returns Concrete exercises
+ */
+export function expandExerciseTemplates(exercises: readonly Exercise[], sessionSeed: number, locale: string = 'de'): Exercise[] {
+    return exercises.flatMap((exercise) => {
+        const expanded = expandExerciseTemplate(exercise, sessionSeed, locale);
+        return expanded ? [expanded] : [];
+    });
+}
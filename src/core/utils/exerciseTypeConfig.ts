@@ -0,0 +1,59 @@
+/**
+ * Per-exercise-type settings for the Mini Trainer Engine.
+ *
+ * Resolves attempt limits and hint availability from
+ * `SubjectConfig.exerciseTypeConfig`, with the engine defaults for
+ * types that are not configured.
+ */
+
+import type { ExerciseTypeConfig } from '@/types/config';
+import type { ExerciseType } from '@/types/exercise';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Attempts per exercise when the type configures no limit.
+ */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * `maxAttempts` value in subject.json that allows unlimited attempts.
+ */
+export const UNLIMITED_ATTEMPTS = 0;
+
+/**
+ * Per-type configuration as found in the subject config.
+ */
+export type ExerciseTypeConfigMap = Partial<Record<ExerciseType, ExerciseTypeConfig>>;
+
+// ============================================================================
+// Lookup Functions
+// ============================================================================
+
+/**
+ * Get the maximum number of attempts for an exercise type.
+ *
+ * @param type - The exercise type
+ * @param exerciseTypeConfig - Per-type configuration from the subject config
+ * @returns The attempt limit, or Infinity if attempts are unlimited
+ */
+export function getMaxAttempts(type: ExerciseType, exerciseTypeConfig?: ExerciseTypeConfigMap): number {
+    const maxAttempts = exerciseTypeConfig?.[type]?.maxAttempts;
+    if (maxAttempts === undefined) return DEFAULT_MAX_ATTEMPTS;
+    if (maxAttempts === UNLIMITED_ATTEMPTS) return Infinity;
+    return maxAttempts;
+}
+
+/**
+ * Check whether hints are shown for an exercise type.
+ * Hints are enabled unless the type turns them off.
+ *
+ * @param type - The exercise type
+ * @param exerciseTypeConfig - Per-type configuration from the subject config
+ * @returns Whether hints are enabled
+ */
+export function areHintsEnabled(type: ExerciseType, exerciseTypeConfig?: ExerciseTypeConfigMap): boolean {
+    return exerciseTypeConfig?.[type]?.hintsEnabled ?? true;
+}
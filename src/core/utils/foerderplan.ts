@@ -0,0 +1,278 @@
+/**
+ * Foerderplan (support plan) utilities for the Mini Trainer Engine.
+ *
+ * Creates support plans pre-filled from observations or profile levels
+ * and renders them as a standalone, print-ready HTML document.
+ */
+
+import { generateFoerderplanId } from './id';
+import type {
+    Foerderplan,
+    FoerderplanEntry,
+    ObservationArea,
+    ObservationAreaId,
+    ObservationRecord,
+} from '@/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Sources used to pre-fill the current level of each area.
+ */
+export interface FoerderplanLevelSources {
+    /** Latest observation record of the student */
+    observation?: ObservationRecord | undefined;
+    /** Current levels of the child's profile */
+    currentLevels?: Partial<Record<ObservationAreaId, number>> | undefined;
+}
+
+/**
+ * Translated labels for the printable document.
+ */
+export interface FoerderplanPrintLabels {
+    title: string;
+    student: string;
+    period: string;
+    teachers: string;
+    currentLevel: string;
+    targetLevel: string;
+    goalsConsolidate: string;
+    goalsPrepare: string;
+    activitiesIntegrative: string;
+    activitiesParallel: string;
+    documentation: string;
+    updatedAt: string;
+}
+
+// ============================================================================
+// Plan Creation
+// ============================================================================
+
+/**
+ * Get the school year period for a date, e.g. "2025/26".
+ * The school year starts in September.
+ *
+ * @param date - The date (default: now)
+ * @returns The period label
+ */
+export function getSchoolYearPeriod(date: Date = new Date()): string {
+    const startYear = date.getMonth() >= 8 ? date.getFullYear() : date.getFullYear() - 1;
+    return `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Get the pre-filled current level of an area.
+ * An observed level takes precedence over the profile level; 0 means unknown.
+ *
+ * @param areaId - The observation area ID
+ * @param sources - Observation and profile levels
+ * @returns The current level
+ */
+export function getPrefilledLevel(areaId: ObservationAreaId, sources: FoerderplanLevelSources): number {
+    const observed = sources.observation?.observations.find((o) => o.areaId === areaId)?.achievedLevel ?? 0;
+    if (observed > 0) return observed;
+    return sources.currentLevels?.[areaId] ?? 0;
+}
+
+/**
+ * Create an empty plan entry for an area.
+ *
+ * @param area - The observation area
+ * @param currentLevel - The pre-filled current level
+ * @returns A new plan entry
+ */
+export function createFoerderplanEntry(area: ObservationArea, currentLevel: number): FoerderplanEntry {
+    const maxLevel = area.stages.length;
+    return {
+        areaId: area.id,
+        currentLevel,
+        targetLevel: currentLevel > 0 ? Math.min(currentLevel + 1, maxLevel) : 0,
+        goalsConsolidate: '',
+        goalsPrepare: '',
+        activitiesIntegrative: '',
+        activitiesParallel: '',
+        documentation: '',
+    };
+}
+
+/**
+ * Create a new support plan for a student and period.
+ *
+ * @param studentId - The student ID
+ * @param period - The period the plan covers
+ * @param areas - The configured observation areas
+ * @param sources - Observation and profile levels for pre-filling
+ * @returns A new support plan
+ */
+export function createFoerderplan(
+    studentId: string,
+    period: string,
+    areas: readonly ObservationArea[],
+    sources: FoerderplanLevelSources = {}
+): Foerderplan {
+    const now = new Date().toISOString();
+    return {
+        id: generateFoerderplanId(),
+        studentId,
+        period,
+        involvedTeachers: [],
+        entries: areas.map((area) => createFoerderplanEntry(area, getPrefilledLevel(area.id, sources))),
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Align a stored plan with the configured areas.
+ * Adds pre-filled entries for new areas and keeps stored ones in config order.
+ *
+ * @param plan - The stored plan
+ * @param areas - The configured observation areas
+ * @param sources - Observation and profile levels for new entries
+ * @returns The aligned plan
+ */
+export function alignFoerderplan(
+    plan: Foerderplan,
+    areas: readonly ObservationArea[],
+    sources: FoerderplanLevelSources = {}
+): Foerderplan {
+    const byArea = new Map(plan.entries.map((e) => [e.areaId, e]));
+    const configuredIds = new Set(areas.map((a) => a.id));
+
+    return {
+        ...plan,
+        entries: [
+            ...areas.map((area) =>
+                byArea.get(area.id) ?? createFoerderplanEntry(area, getPrefilledLevel(area.id, sources))
+            ),
+            ...plan.entries.filter((e) => !configuredIds.has(e.areaId)),
+        ],
+    };
+}
+
+/**
+ * Check whether a plan entry contains any teacher input.
+ *
+ * @param entry - The plan entry
+ * @returns True if any goal, activity or documentation is filled in
+ */
+export function hasFoerderplanContent(entry: FoerderplanEntry): boolean {
+    return [
+        entry.goalsConsolidate,
+        entry.goalsPrepare,
+        entry.activitiesIntegrative,
+        entry.activitiesParallel,
+        entry.documentation,
+    ].some((text) => text.trim().length > 0);
+}
+
+// ============================================================================
+// Printable Export
+// ============================================================================
+
+/**
+ * Escape text for safe insertion into HTML.
+ *
+ * @param text - The raw text
+ * @returns The escaped text
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escape text and keep line breaks.
+ */
+function formatText(text: string): string {
+    return escapeHtml(text.trim()).replace(/\n/g, '<br>');
+}
+
+/**
+ * Render a support plan as a standalone HTML document for printing.
+ * Only entries with teacher input are included; if there are none, all entries are shown.
+ *
+ * @param plan - The support plan
+ * @param studentName - Display name of the student
+ * @param areas - The configured observation areas (for names and stage labels)
+ * @param labels - Translated labels
+ * @param locale - Document language and date format (default: 'de')
+ * @returns The HTML document as a string
+ */
+export function renderFoerderplanHtml(
+    plan: Foerderplan,
+    studentName: string,
+    areas: readonly ObservationArea[],
+    labels: FoerderplanPrintLabels,
+    locale: string = 'de'
+): string {
+    const areaById = new Map(areas.map((a) => [a.id, a]));
+    const filled = plan.entries.filter(hasFoerderplanContent);
+    const entries = filled.length > 0 ? filled : plan.entries;
+
+    const formatLevel = (area: ObservationArea | undefined, level: number): string => {
+        if (level <= 0) return '–';
+        const stage = area?.stages.find((s) => s.level === level);
+        return stage ? `${level} – ${escapeHtml(stage.label)}` : String(level);
+    };
+
+    const sections = entries.map((entry) => {
+        const area = areaById.get(entry.areaId);
+        const rows: Array<[string, string]> = [
+            [labels.goalsConsolidate, entry.goalsConsolidate],
+            [labels.goalsPrepare, entry.goalsPrepare],
+            [labels.activitiesIntegrative, entry.activitiesIntegrative],
+            [labels.activitiesParallel, entry.activitiesParallel],
+            [labels.documentation, entry.documentation],
+        ];
+
+        return `
+    <section class="entry">
+        <h2>${escapeHtml(area?.name ?? entry.areaId)}</h2>
+        <p class="levels">${escapeHtml(labels.currentLevel)}: ${formatLevel(area, entry.currentLevel)}
+            &nbsp;→&nbsp; ${escapeHtml(labels.targetLevel)}: ${formatLevel(area, entry.targetLevel)}</p>
+        <table>
+${rows.map(([label, text]) => `            <tr><th>${escapeHtml(label)}</th><td>${formatText(text)}</td></tr>`).join('\n')}
+        </table>
+    </section>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+    <meta charset="utf-8">
+    <title>${escapeHtml(labels.title)} – ${escapeHtml(studentName)} – ${escapeHtml(plan.period)}</title>
+    <style>
+        body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+        h1 { font-size: 1.5rem; margin-bottom: 0.5rem; }
+        h2 { font-size: 1.1rem; margin: 0 0 0.25rem; }
+        .meta { margin-bottom: 1.5rem; }
+        .meta p { margin: 0.15rem 0; }
+        .entry { break-inside: avoid; margin-bottom: 1.25rem; }
+        .levels { margin: 0 0 0.5rem; color: #444; }
+        table { width: 100%; border-collapse: collapse; }
+        th, td { border: 1px solid #999; padding: 0.35rem 0.5rem; text-align: left; vertical-align: top; }
+        th { width: 30%; background: #f3f3f3; font-weight: 600; }
+        td { min-height: 2rem; }
+        @media print { body { margin: 0; } }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(labels.title)}</h1>
+    <div class="meta">
+        <p><strong>${escapeHtml(labels.student)}:</strong> ${escapeHtml(studentName)}</p>
+        <p><strong>${escapeHtml(labels.period)}:</strong> ${escapeHtml(plan.period)}</p>
+        <p><strong>${escapeHtml(labels.teachers)}:</strong> ${escapeHtml(plan.involvedTeachers.join(', ')) || '–'}</p>
+        <p><strong>${escapeHtml(labels.updatedAt)}:</strong> ${escapeHtml(new Date(plan.updatedAt).toLocaleDateString(locale))}</p>
+    </div>
+${sections}
+</body>
+</html>
+`;
+}
@@ -7,7 +7,7 @@
  * 
  * ## Module Structure
  * 
- * - **starCalculation.ts** - Star rating calculations (1-3 stars based on attempts)
+ * - **starCalculation.ts** - Star rating calculations (attempts, time or custom rules)
  * - **levelCalculation.ts** - Level progression and theme level access
  * - **streakCalculation.ts** - Daily streak management
  * 
@@ -33,9 +33,23 @@
 
 export {
     calculateStars,
+    calculateTimeStars,
+    evaluateScoringCondition,
+    validateScoringCondition,
+    SCORING_VARIABLE_NAMES,
+    applyScoringRules,
+    calculateStarsForStrategy,
+    getExpectedTimeSeconds,
+    calculateExerciseStars,
+    applyPartialCredit,
     getStarDisplay,
     getStarArray,
     calculateMaxStars,
+    getMaxExerciseStars,
+    DIFFICULTY_TIME_FACTORS,
+    type StarScoringConfig,
+    type StarStrategyOptions,
+    type ScoringVariables,
 } from './starCalculation';
 
 // ============================================================================
@@ -46,6 +60,9 @@ export {
     DEFAULT_STARS_PER_LEVEL,
     VOCABULARY_LEVEL_THRESHOLDS,
     MAX_THEME_LEVEL,
+    DEFAULT_LEVEL_COUNT,
+    DEFAULT_UNLOCK_RULE,
+    DEFAULT_UNLOCK_PERCENTAGE,
     levelFromStars,
     calculateLevel,
     getStarsForNextLevel,
@@ -56,6 +73,10 @@ export {
     isLevelAccessible,
     isLevelCompleted,
     getNextLevelRequirement,
+    resolveLevelProgression,
+    getLevelNumbers,
+    type LevelProgression,
+    type LevelRequirementTranslate,
 } from './levelCalculation';
 
 // ============================================================================
@@ -75,20 +96,35 @@ export {
 
 import type { BadgeDefinition } from '@/types/config';
 import type { UserProfile } from '@/types/profile';
+import {
+    evaluateBadgeExpression,
+    getBadgeStatistics,
+    type BadgeResultStatistics,
+} from './badgeExpression';
 
 /**
  * Check if a badge is earned based on profile.
  * 
- * @param badge - Badge definition with check function
+ * @param badge - Badge definition with check function or expression
  * @param profile - User profile to check against
+ * @param resultStats - Statistics from exercise results, used by expressions
  * @returns Whether the badge is earned
  */
-export function checkBadge(badge: BadgeDefinition, profile: UserProfile): boolean {
+export function checkBadge(
+    badge: BadgeDefinition,
+    profile: UserProfile,
+    resultStats?: BadgeResultStatistics
+): boolean {
     // If there's a runtime check function, use it
     if (badge.check) {
         return badge.check(profile);
     }
 
+    // Condition expression from badges.json
+    if (badge.checkExpression) {
+        return evaluateBadgeExpression(badge.checkExpression, getBadgeStatistics(profile, resultStats));
+    }
+
     // Otherwise, check by badge ID pattern
     return checkBadgeById(badge.badge.id, profile);
 }
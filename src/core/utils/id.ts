@@ -90,6 +90,15 @@ export function generateFoerderplanId(): string {
     return `fp-${generateId()}`;
 }
 
+/**
+ * Generate a student profile ID.
+ * 
+ * @returns A student profile identifier
+ */
+export function generateStudentId(): string {
+    return `student-${generateId()}`;
+}
+
 /**
  * Check if a string is a valid UUID format.
  * 
@@ -12,6 +12,7 @@ export {
     generateResultId,
     generateObservationId,
     generateFoerderplanId,
+    generateStudentId,
     isValidUuid,
     isValidId,
 } from './id';
@@ -37,6 +38,8 @@ export {
     validateExercise,
     isValidExerciseType,
     isValidDifficulty,
+    isValidAudio,
+    isValidImage,
     isValidLocale,
 } from './validation';
 
@@ -53,6 +56,33 @@ export {
     validateConnectorInsertAnswer,
     validateWordOrderAnswer,
     validatePictureVocabularyAnswer,
+    parseClozeText,
+    validateClozeTextAnswer,
+    DEFAULT_CLOZE_PASS_RATIO,
+    type ClozeSegment,
+    getNumberLineTicks,
+    snapToNumberLine,
+    parseNumberInput,
+    validateNumberLineAnswer,
+    DEFAULT_CLOCK_MINUTE_STEP,
+    parseClockTime,
+    formatClockTime,
+    getClockHandAngles,
+    snapClockMinutes,
+    validateClockAnswer,
+    getHotspotRegionResults,
+    validateHotspotAnswer,
+    getHotspotRegionCenter,
+    type HotspotRegionResult,
+    DEFAULT_SEQUENCE_PASS_RATIO,
+    getLongestCorrectSubsequence,
+    validateSequenceAnswer,
+    MEMORY_PAR_FLIPS_PER_PAIR,
+    MAX_MEMORY_PAIRS,
+    createMemoryDeck,
+    isMemoryMatch,
+    getMemoryAccuracy,
+    type MemoryCard,
     // Score calculation
     calculateStars,
     calculateTotalStars,
@@ -89,8 +119,22 @@ export {
     formatOrdinal,
     getMotivationalMessage,
     calculateMaxStars,
+    getMaxExerciseStars,
+    calculateTimeStars,
+    evaluateScoringCondition,
+    validateScoringCondition,
+    SCORING_VARIABLE_NAMES,
+    applyScoringRules,
+    calculateStarsForStrategy,
+    getExpectedTimeSeconds,
+    calculateExerciseStars,
+    applyPartialCredit,
+    DIFFICULTY_TIME_FACTORS,
     DEFAULT_STARS_PER_LEVEL,
     type StreakResult,
+    type StarScoringConfig,
+    type StarStrategyOptions,
+    type ScoringVariables,
 } from './gamification';
 
 // Badge system
@@ -113,6 +157,127 @@ export {
     type BadgeDefinitionWithMeta,
 } from './badges';
 
+// Per-type exercise settings
+export {
+    getMaxAttempts,
+    areHintsEnabled,
+    DEFAULT_MAX_ATTEMPTS,
+    UNLIMITED_ATTEMPTS,
+    type ExerciseTypeConfigMap,
+} from './exerciseTypeConfig';
+
+// Badge expressions
+export {
+    evaluateBadgeExpression,
+    parseBadgeExpression,
+    validateBadgeExpression,
+    evaluateExpressionNode,
+    collectExpressionIdentifiers,
+    getBadgeStatistics,
+    getBadgeResultStatistics,
+    getBadgeResultIds,
+    countBadgeResultIds,
+    addBadgeResult,
+    getBadgeTypeIdentifier,
+    badgeTypeToExpression,
+    BADGE_EXPRESSION_IDENTIFIERS,
+    BADGE_TYPE_IDENTIFIERS,
+    EMPTY_BADGE_RESULT_STATISTICS,
+    EMPTY_BADGE_RESULT_IDS,
+    type BadgeStatistics,
+    type BadgeResultStatistics,
+    type BadgeResultIds,
+    type BadgeExpressionNode,
+} from './badgeExpression';
+
+// Daily challenge
+export {
+    getDailyChallengeExercises,
+    getDailyChallengeDateKey,
+    getDailyChallengeSeed,
+    getDailyChallengeRoundSeed,
+    getDailyChallengeRound,
+    calculateDailyChallengeStars,
+    DAILY_CHALLENGE_SIZE,
+    DAILY_CHALLENGE_THEME_ID,
+    DAILY_BONUS_THEME_ID,
+} from './dailyChallenge';
+
+// Spaced repetition
+export {
+    getReviewQuality,
+    createReviewState,
+    scheduleReview,
+    syncReviewStates,
+    isReviewDue,
+    getDueReviewExercises,
+    getReviewBoxCounts,
+    getNextReviewDate,
+    REVIEW_THEME_ID,
+    REVIEW_BOX_COUNT,
+    REVIEW_SESSION_SIZE,
+    INITIAL_EASE_FACTOR,
+    MIN_EASE_FACTOR,
+    type ReviewQuality,
+} from './spacedRepetition';
+
+// Placement test
+export {
+    createPlacementTest,
+    getCurrentPlacementArea,
+    isPlacementFinished,
+    selectPlacementExercise,
+    recordPlacementAnswer,
+    skipPlacementArea,
+    getMasteredLevel,
+    getPlacementResult,
+    PLACEMENT_MAX_ITEMS_PER_AREA,
+    type PlacementAnswer,
+    type PlacementAreaState,
+    type PlacementTestState,
+    type PlacementResult,
+} from './placementTest';
+
+// Observation records
+export {
+    getObservationAreaMode,
+    createAreaObservation,
+    createObservationRecord,
+    alignObservationRecord,
+    deriveAchievedLevel,
+    finalizeObservationRecord,
+    getLatestObservationRecord,
+    OBSERVATION_TIME_POINTS,
+    FREQUENCY_RATINGS,
+    OBSERVATION_TEXT_TYPES,
+    type ObservationAreaMode,
+} from './observation';
+
+// Support plans (Foerderplan)
+export {
+    getSchoolYearPeriod,
+    getPrefilledLevel,
+    createFoerderplanEntry,
+    createFoerderplan,
+    alignFoerderplan,
+    hasFoerderplanContent,
+    escapeHtml,
+    renderFoerderplanHtml,
+    type FoerderplanLevelSources,
+    type FoerderplanPrintLabels,
+} from './foerderplan';
+
+// Student profiles
+export {
+    createStudentProfile,
+    parseFirstLanguages,
+    getStudentsByProfileId,
+    linkProfilesToStudent,
+    unlinkProfile,
+    SUPPORT_MEASURES,
+    STUDENT_STATUSES,
+} from './student';
+
 // Accessibility utilities
 export {
     getFocusableElements,
@@ -125,6 +290,7 @@ export {
     getNextFocusable,
     getPreviousFocusable,
     announceToScreenReader,
+    getReadAloudText,
 } from './accessibility';
 
 // Sound effects
@@ -136,10 +302,140 @@ export {
     playLevelUp,
     playBadge,
     playStar,
+    playTone,
+    playTones,
     type SoundEffect,
     type SoundManager,
+    type ScheduledTone,
 } from './sounds';
 
+// App assets (pictures, audio files)
+export {
+    APP_ASSETS_DIR,
+    isInlineOrRemoteSrc,
+    resolveAssetSrc,
+    isAppAssetSrc,
+} from './assets';
+
+// Exercise audio and speech
+export {
+    DEFAULT_SPEECH_LANG,
+    isSpeechSynthesisSupported,
+    stopExerciseAudio,
+    resolveAudioSrc,
+    selectSpeechVoice,
+    getSpeechLang,
+    canPlayExerciseAudio,
+    playExerciseAudio,
+} from './audio';
+
+// Crossword layout
+export {
+    DEFAULT_CROSSWORD_SEED,
+    normalizeCrosswordWord,
+    isCrosswordWord,
+    getCrosswordCellKey,
+    getCrosswordWordCells,
+    generateCrossword,
+    checkCrossword,
+    type CrosswordDirection,
+    type CrosswordPlacement,
+    type CrosswordLayout,
+    type CrosswordCheckResult,
+} from './crossword';
+
+// Arithmetic
+export {
+    getDecimalSeparator,
+    parseArithmeticNumber,
+    numbersAreEqual,
+    validateArithmeticAnswer,
+    createColumnCalculation,
+    checkColumnCalculation,
+    type NumberForm,
+    type ParsedNumber,
+    type ColumnStep,
+    type ColumnCalculation,
+    type ColumnCheckResult,
+} from './arithmetic';
+
+// Exercise templates
+export {
+    drawTemplateValues,
+    expandExerciseTemplate,
+    expandExerciseTemplates,
+    fillTemplateText,
+    formatTemplateNumber,
+    getTemplatePlaceholders,
+    getTemplateSeed,
+    createTemplateSessionSeed,
+    MAX_TEMPLATE_DRAWS,
+    TEMPLATE_ANSWER_NAME,
+    type TemplateDraw,
+} from './exerciseTemplate';
+
+// Drawing canvas and saved drawings
+export {
+    getDrawingSize,
+    getDrawingColors,
+    toCanvasPoint,
+    drawStroke,
+    redrawStrokes,
+    isSvgPathData,
+    isDrawingDataUrl,
+    getDrawingResults,
+    DEFAULT_DRAWING_WIDTH,
+    DEFAULT_DRAWING_HEIGHT,
+    DEFAULT_DRAWING_COLORS,
+    MAX_DRAWING_SIZE,
+    PEN_WIDTH,
+    ERASER_WIDTH,
+    type DrawingPoint,
+    type DrawingTool,
+    type DrawingStroke,
+    type DrawingContext,
+} from './drawing';
+
+// Music notation, note names and rhythm scoring
+export {
+    parseNotation,
+    getNotationNotes,
+    getStaffStep,
+    getPitchFrequency,
+    getNoteName,
+    getNoteNameOptions,
+    checkNoteNames,
+    getNotationTones,
+    getRhythmOnsets,
+    scoreRhythmTaps,
+    DEFAULT_TEMPO,
+    DEFAULT_RHYTHM_TOLERANCE,
+    DEFAULT_RHYTHM_MIN_ACCURACY,
+    MAX_NOTATION_NOTES,
+    MIN_STAFF_STEP,
+    MAX_STAFF_STEP,
+    type NoteLetter,
+    type NoteValue,
+    type Pitch,
+    type NotationNote,
+    type NotationSymbol,
+    type RhythmTapResult,
+} from './music';
+
+// Syllable and word segmentation
+export {
+    parseSegmentation,
+    getSegmentationLetters,
+    getSegmentBoundaries,
+    splitAtBoundaries,
+    toggleBoundary,
+    findSegmentation,
+    findSegmentationByCount,
+    checkSegmentation,
+    checkSegmentCount,
+    SEGMENT_MARK,
+} from './syllables';
+
 // CVA (Class Variance Authority) for variant styling
 export {
     cva,
@@ -5,6 +5,7 @@
  */
 
 import type { LevelProgress } from '@/types/gamification';
+import type { LevelProgressionConfig, LevelUnlockRule } from '@/types/config';
 
 // ============================================================================
 // Constants
@@ -27,9 +28,29 @@ export const VOCABULARY_LEVEL_THRESHOLDS = {
 } as const;
 
 /**
- * Maximum level per theme.
+ * Default number of levels per theme.
  */
-export const MAX_THEME_LEVEL = 4;
+export const DEFAULT_LEVEL_COUNT = 4;
+
+/**
+ * Maximum level per theme when the subject configures no level count.
+ */
+export const MAX_THEME_LEVEL = DEFAULT_LEVEL_COUNT;
+
+/**
+ * Default unlock rule for the next level.
+ */
+export const DEFAULT_UNLOCK_RULE: LevelUnlockRule = 'all-themes';
+
+/**
+ * Default share of themes (in percent) for the 'percentage' unlock rule.
+ */
+export const DEFAULT_UNLOCK_PERCENTAGE = 75;
+
+/**
+ * Level progression with all defaults applied.
+ */
+export type LevelProgression = Required<LevelProgressionConfig>;
 
 // ============================================================================
 // Level Calculations
@@ -119,6 +140,47 @@ export function getLevelProgress(
 // Theme Level Progression
 // ============================================================================
 
+/**
+ * Apply the defaults to a level progression configuration.
+ * Invalid values fall back to the defaults.
+ * 
+ * @param config - Level progression from the subject config
+ * @returns Level progression with all settings
+ */
+export function resolveLevelProgression(config?: LevelProgressionConfig): LevelProgression {
+    const levelCount = config?.levelCount;
+    const unlockPercentage = config?.unlockPercentage;
+
+    return {
+        levelCount: levelCount !== undefined && Number.isInteger(levelCount) && levelCount >= 1
+            ? levelCount
+            : DEFAULT_LEVEL_COUNT,
+        unlockRule: config?.unlockRule ?? DEFAULT_UNLOCK_RULE,
+        unlockPercentage: unlockPercentage !== undefined && unlockPercentage > 0 && unlockPercentage <= 100
+            ? unlockPercentage
+            : DEFAULT_UNLOCK_PERCENTAGE,
+    };
+}
+
+/**
+ * Get the level numbers of a level progression.
+ * 
+ * @param config - Level progression from the subject config
+ * @returns Levels from 1 to the level count
+ */
+export function getLevelNumbers(config?: LevelProgressionConfig): number[] {
+    const { levelCount } = resolveLevelProgression(config);
+    return Array.from({ length: levelCount }, (_, i) => i + 1);
+}
+
+/**
+ * Get the number of themes that must complete a level under the
+ * 'percentage' rule (at least one).
+ */
+function getRequiredThemeCount(themeCount: number, unlockPercentage: number): number {
+    return Math.max(1, Math.ceil((themeCount * unlockPercentage) / 100));
+}
+
 /**
  * Calculate the highest level that is accessible across ALL themes.
  * 
@@ -137,23 +199,34 @@ export function getLevelProgress(
  * // Global level = min(2, 1, 3) + 1 = 2
  * // User can access level 2 in all themes, but level 3 only in themes A and C
  * 
+ * With the 'percentage' rule, level N is unlocked once the configured share
+ * of themes has completed level N-1. With the 'per-theme' rule the global
+ * level only describes the progress and does not lock any theme level.
+ * 
  * @param themeLevels - Record of theme ID to highest completed level (0 if not started)
  * @param allThemeIds - All available theme IDs
- * @returns Global accessible level (1-4), where 1 means "can access level 1 in all themes"
+ * @param progression - Level progression from the subject config
+ * @returns Global accessible level (1 to the level count), where 1 means "can access level 1 in all themes"
  */
 export function calculateGlobalLevel(
     themeLevels: Record<string, number>,
-    allThemeIds: string[]
+    allThemeIds: string[],
+    progression?: LevelProgressionConfig
 ): number {
     if (allThemeIds.length === 0) return 1;
 
-    // Get the minimum completed level across all themes
-    const minCompletedLevel = Math.min(
-        ...allThemeIds.map(themeId => themeLevels[themeId] ?? 0)
-    );
+    const { levelCount, unlockRule, unlockPercentage } = resolveLevelProgression(progression);
+    const completedLevels = allThemeIds.map(themeId => themeLevels[themeId] ?? 0);
 
-    // Global level is min completed + 1 (capped at MAX_THEME_LEVEL)
-    return Math.min(minCompletedLevel + 1, MAX_THEME_LEVEL);
+    if (unlockRule === 'percentage') {
+        // The required-th highest completed level has been reached by enough themes
+        const required = getRequiredThemeCount(allThemeIds.length, unlockPercentage);
+        const sorted = [...completedLevels].sort((a, b) => b - a);
+        return Math.min((sorted[required - 1] ?? 0) + 1, levelCount);
+    }
+
+    // Global level is min completed + 1 (capped at the level count)
+    return Math.min(Math.min(...completedLevels) + 1, levelCount);
 }
 
 /**
@@ -161,41 +234,51 @@ export function calculateGlobalLevel(
  * A user can access level N in a theme if:
  * - N is 1 (always accessible)
  * - N <= their completed level for that theme + 1
- * - N <= global level
+ * - N <= global level (not for the 'per-theme' rule)
+ * - N <= the level count
  * 
  * @param themeId - The theme to check
  * @param themeLevels - Record of theme ID to highest completed level
  * @param allThemeIds - All available theme IDs
- * @returns Highest accessible level for this theme (1-4)
+ * @param progression - Level progression from the subject config
+ * @returns Highest accessible level for this theme (1 to the level count)
  */
 export function getAccessibleLevelForTheme(
     themeId: string,
     themeLevels: Record<string, number>,
-    allThemeIds: string[]
+    allThemeIds: string[],
+    progression?: LevelProgressionConfig
 ): number {
-    const globalLevel = calculateGlobalLevel(themeLevels, allThemeIds);
+    const { levelCount, unlockRule } = resolveLevelProgression(progression);
     const themeCompletedLevel = themeLevels[themeId] ?? 0;
+    const themeNextLevel = Math.min(themeCompletedLevel + 1, levelCount);
+
+    if (unlockRule === 'per-theme') {
+        return themeNextLevel;
+    }
 
     // Can access up to completed + 1, but not more than global level
-    return Math.min(themeCompletedLevel + 1, globalLevel);
+    return Math.min(themeNextLevel, calculateGlobalLevel(themeLevels, allThemeIds, progression));
 }
 
 /**
  * Check if a specific level in a theme is accessible.
  * 
  * @param themeId - The theme to check
- * @param level - The level to check (1-4)
+ * @param level - The level to check
  * @param themeLevels - Record of theme ID to highest completed level
  * @param allThemeIds - All available theme IDs
+ * @param progression - Level progression from the subject config
  * @returns Whether the level is accessible
  */
 export function isLevelAccessible(
     themeId: string,
     level: number,
     themeLevels: Record<string, number>,
-    allThemeIds: string[]
+    allThemeIds: string[],
+    progression?: LevelProgressionConfig
 ): boolean {
-    const accessibleLevel = getAccessibleLevelForTheme(themeId, themeLevels, allThemeIds);
+    const accessibleLevel = getAccessibleLevelForTheme(themeId, themeLevels, allThemeIds, progression);
     return level <= accessibleLevel;
 }
 
@@ -203,7 +286,7 @@ export function isLevelAccessible(
  * Check if a level is completed for a theme.
  * 
  * @param themeId - The theme to check
- * @param level - The level to check (1-4)
+ * @param level - The level to check
  * @param themeLevels - Record of theme ID to highest completed level
  * @returns Whether the level is completed
  */
@@ -216,22 +299,53 @@ export function isLevelCompleted(
     return level <= completedLevel;
 }
 
+/**
+ * Translate function for level requirement messages.
+ * Compatible with i18next's `t(key, defaultValue, options)`.
+ */
+export type LevelRequirementTranslate = (
+    key: string,
+    defaultValue: string,
+    params: Record<string, string | number>
+) => string;
+
+/**
+ * Fallback translation: fills the parameters into the default text.
+ */
+const interpolateDefault: LevelRequirementTranslate = (_key, defaultValue, params) =>
+    defaultValue.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+        Object.prototype.hasOwnProperty.call(params, name) ? String(params[name]) : match
+    );
+
 /**
  * Get a description of what needs to be done to unlock the next global level.
  * 
+ * Messages use the i18n keys `level.requirementFirst`, `level.requirement`
+ * and `level.requirementPercentage`. Without a translate function the
+ * English default texts are returned.
+ * 
  * @param themeLevels - Record of theme ID to highest completed level
  * @param allThemeIds - All available theme IDs
  * @param themeNames - Record of theme ID to theme name for display
- * @returns Description of requirements or null if at max level
+ * @param progression - Level progression from the subject config
+ * @param translate - Translate function (e.g. i18next's `t`)
+ * @returns Description of requirements, or null if at max level or levels unlock per theme
  */
 export function getNextLevelRequirement(
     themeLevels: Record<string, number>,
     allThemeIds: string[],
-    themeNames: Record<string, string>
+    themeNames: Record<string, string>,
+    progression?: LevelProgressionConfig,
+    translate: LevelRequirementTranslate = interpolateDefault
 ): string | null {
-    const globalLevel = calculateGlobalLevel(themeLevels, allThemeIds);
+    const { levelCount, unlockRule, unlockPercentage } = resolveLevelProgression(progression);
+    if (unlockRule === 'per-theme') {
+        return null; // No global requirement
+    }
+
+    const globalLevel = calculateGlobalLevel(themeLevels, allThemeIds, progression);
 
-    if (globalLevel >= MAX_THEME_LEVEL) {
+    if (globalLevel >= levelCount) {
         return null; // Already at max level
     }
 
@@ -249,9 +363,27 @@ export function getNextLevelRequirement(
         .map(id => themeNames[id] ?? id)
         .join(', ');
 
+    if (unlockRule === 'percentage') {
+        const required = getRequiredThemeCount(allThemeIds.length, unlockPercentage);
+        const completedCount = allThemeIds.length - incompleteThemes.length;
+        return translate(
+            'level.requirementPercentage',
+            'Complete Level {{level}} in {{count}} more themes to unlock Level {{nextLevel}}. Open: {{themes}}',
+            { level: targetLevel, count: required - completedCount, nextLevel: globalLevel + 1, themes: themeNamesList }
+        );
+    }
+
     if (targetLevel === 1) {
-        return `Complete Level 1 in all themes to unlock Level 2. Missing: ${themeNamesList}`;
+        return translate(
+            'level.requirementFirst',
+            'Complete Level 1 in all themes to unlock Level 2. Missing: {{themes}}',
+            { themes: themeNamesList }
+        );
     }
 
-    return `Complete Level ${targetLevel} in: ${themeNamesList} to unlock Level ${globalLevel + 1}`;
+    return translate(
+        'level.requirement',
+        'Complete Level {{level}} in: {{themes}} to unlock Level {{nextLevel}}',
+        { level: targetLevel, themes: themeNamesList, nextLevel: globalLevel + 1 }
+    );
 }
@@ -0,0 +1,348 @@
+/**
+ * Music notation utilities for the Mini Trainer Engine.
+ *
+ * Parses the compact notation of note reading and rhythm exercises,
+ * places notes on a staff, names them in the child's language, turns
+ * them into tones for playback and scores a rhythm tapped back by the
+ * child against the beats of the notation.
+ *
+ * @example
+ * ```ts
+ * parseNotation('C4/4 D4/8 E4/8 | r/4 x/4');
+ * // C4 quarter, D4 and E4 eighths, a bar line, a quarter rest, an unpitched beat
+ * ```
+ */
+
+import type { MusicClef } from '@/types/exercise';
+import type { ScheduledTone } from './sounds';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Note letter.
+ */
+export type NoteLetter = 'C' | 'D' | 'E' | 'F' | 'G' | 'A' | 'B';
+
+/**
+ * Note value as a fraction of a whole note (4 is a quarter note).
+ */
+export type NoteValue = 1 | 2 | 4 | 8 | 16;
+
+/**
+ * A pitch such as C4 (middle C) or F#4.
+ */
+export interface Pitch {
+    letter: NoteLetter;
+    /** -1 for flat, 1 for sharp, 0 for none */
+    accidental: -1 | 0 | 1;
+    /** Octave number (4 is the octave starting at middle C) */
+    octave: number;
+}
+
+/**
+ * A note, rest or unpitched beat of a notation.
+ */
+export interface NotationNote {
+    kind: 'note' | 'rest' | 'beat';
+    /** Pitch (notes only) */
+    pitch?: Pitch;
+    /** Note value */
+    value: NoteValue;
+    /** Whether the note is dotted (one and a half times as long) */
+    dotted: boolean;
+    /** Start from the beginning in quarter notes */
+    start: number;
+    /** Length in quarter notes */
+    beats: number;
+}
+
+/**
+ * A symbol of a notation: a note, rest or beat, or a bar line.
+ */
+export type NotationSymbol = NotationNote | { kind: 'bar' };
+
+/**
+ * Result of checking a tapped rhythm.
+ */
+export interface RhythmTapResult {
+    /** Whether each sounding beat was hit */
+    hits: boolean[];
+    /** Taps that did not match a beat */
+    extraTaps: number;
+    /** Hit beats divided by beats plus extra taps (0-1) */
+    accuracy: number;
+    /** Whether the accuracy reaches the required share */
+    correct: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Tempo when the exercise does not set one (quarter notes per minute).
+ */
+export const DEFAULT_TEMPO = 90;
+
+/**
+ * Allowed timing difference of a tap when the exercise does not set one (ms).
+ */
+export const DEFAULT_RHYTHM_TOLERANCE = 150;
+
+/**
+ * Share of beats to hit when the exercise does not set one.
+ */
+export const DEFAULT_RHYTHM_MIN_ACCURACY = 0.75;
+
+/**
+ * Most notes, rests and beats in one notation.
+ */
+export const MAX_NOTATION_NOTES = 32;
+
+/**
+ * Lowest and highest staff step that can be drawn (three ledger lines
+ * below and above the staff; step 0 is the bottom line).
+ */
+export const MIN_STAFF_STEP = -6;
+export const MAX_STAFF_STEP = 14;
+
+/**
+ * Frequency of unpitched beats (Hz).
+ */
+const BEAT_FREQUENCY = 880;
+
+/**
+ * Letters in staff order.
+ */
+const LETTERS: readonly NoteLetter[] = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+/**
+ * Semitones of each letter above C.
+ */
+const SEMITONES: Record<NoteLetter, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+/**
+ * Diatonic position of the bottom staff line of each clef (E4 and G2).
+ */
+const BOTTOM_LINE: Record<MusicClef, number> = { treble: 2 + 4 * 7, bass: 4 + 2 * 7 };
+
+/**
+ * Note, rest or beat with an optional note value (`C4/4`, `F#4/8.`, `r/2`, `x`).
+ */
+const NOTE_PATTERN = /^(?:([A-G])(#|b)?([0-8])|(r)|(x))(?:\/(1|2|4|8|16)(\.)?)?$/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parse a notation.
+ *
+ * @param notation - Notes, rests and beats separated by spaces, `|` for bar lines
+ * @returns The symbols in order, with the start and length of each note
+ * @throws Error if the notation is not valid
+ */
+export function parseNotation(notation: string): NotationSymbol[] {
+    const tokens = notation.trim().split(/\s+/).filter(Boolean);
+    const symbols: NotationSymbol[] = [];
+    let start = 0;
+    let noteCount = 0;
+
+    for (const token of tokens) {
+        if (token === '|') {
+            symbols.push({ kind: 'bar' });
+            continue;
+        }
+
+        const match = NOTE_PATTERN.exec(token);
+        if (!match) {
+            throw new Error(`Unknown note '${token}' (expected e.g. C4/4, F#4/8, r/4, x/4 or |)`);
+        }
+        const [, letter, accidental, octave, rest, beat, value = '4', dot] = match;
+        const noteValue = Number(value) as NoteValue;
+        const beats = (4 / noteValue) * (dot ? 1.5 : 1);
+
+        const note: NotationNote = {
+            kind: rest ? 'rest' : beat ? 'beat' : 'note',
+            value: noteValue,
+            dotted: Boolean(dot),
+            start,
+            beats,
+        };
+        if (letter) {
+            note.pitch = {
+                letter: letter as NoteLetter,
+                accidental: accidental === '#' ? 1 : accidental === 'b' ? -1 : 0,
+                octave: Number(octave),
+            };
+        }
+        symbols.push(note);
+        start += beats;
+        noteCount++;
+    }
+
+    if (noteCount === 0) {
+        throw new Error('Notation has no notes');
+    }
+    if (noteCount > MAX_NOTATION_NOTES) {
+        throw new Error(`Notation has more than ${MAX_NOTATION_NOTES} notes`);
+    }
+    return symbols;
+}
+
+/**
+ * Get the notes, rests and beats of a notation without the bar lines.
+ */
+export function getNotationNotes(symbols: readonly NotationSymbol[]): NotationNote[] {
+    return symbols.filter((symbol): symbol is NotationNote => symbol.kind !== 'bar');
+}
+
+// ============================================================================
+// Pitches
+// ============================================================================
+
+/**
+ * Get the staff step of a pitch: 0 is the bottom line, 1 the space above
+ * it, 2 the second line and so on. Accidentals do not move a note.
+ */
+export function getStaffStep(pitch: Pitch, clef: MusicClef = 'treble'): number {
+    return LETTERS.indexOf(pitch.letter) + pitch.octave * 7 - BOTTOM_LINE[clef];
+}
+
+/**
+ * Get the frequency of a pitch in Hz (A4 = 440 Hz).
+ */
+export function getPitchFrequency(pitch: Pitch): number {
+    const midi = (pitch.octave + 1) * 12 + SEMITONES[pitch.letter] + pitch.accidental;
+    return 440 * 2 ** ((midi - 69) / 12);
+}
+
+/**
+ * Get the name of a pitch as taught in a language. German names B as
+ * "H", and sharps and flats with "-is" and "-es" (Fis, Es, B).
+ */
+export function getNoteName(pitch: Pick<Pitch, 'letter' | 'accidental'>, locale: string = 'de'): string {
+    const { letter, accidental } = pitch;
+    if (!locale.toLowerCase().startsWith('de')) {
+        return letter + (accidental === 1 ? '♯' : accidental === -1 ? '♭' : '');
+    }
+
+    const base = letter === 'B' ? 'H' : letter;
+    if (accidental === 1) return `${base}is`;
+    if (accidental === -1) {
+        if (letter === 'B') return 'B';
+        return letter === 'E' || letter === 'A' ? `${letter}s` : `${base}es`;
+    }
+    return base;
+}
+
+/**
+ * Get the note names to choose from: the seven letters in order, then
+ * the names of sharp and flat notes that appear in the exercise.
+ */
+export function getNoteNameOptions(notes: readonly NotationNote[], locale: string = 'de'): string[] {
+    const options = LETTERS.map((letter) => getNoteName({ letter, accidental: 0 }, locale));
+    for (const note of notes) {
+        if (!note.pitch || note.pitch.accidental === 0) continue;
+        const name = getNoteName(note.pitch, locale);
+        if (!options.includes(name)) options.push(name);
+    }
+    return options;
+}
+
+/**
+ * Check the note names given for the pitched notes of a notation.
+ *
+ * @returns Whether each note was named correctly
+ */
+export function checkNoteNames(notes: readonly NotationNote[], answers: readonly (string | null)[], locale: string = 'de'): boolean[] {
+    return notes
+        .filter((note) => note.pitch)
+        .map((note, index) => note.pitch !== undefined && answers[index] === getNoteName(note.pitch, locale));
+}
+
+// ============================================================================
+// Playback and Rhythm
+// ============================================================================
+
+/**
+ * Get the length of a quarter note in seconds.
+ */
+function getBeatSeconds(tempo: number): number {
+    return 60 / (tempo > 0 ? tempo : DEFAULT_TEMPO);
+}
+
+/**
+ * Turn a notation into tones for playback. Rests are silent; unpitched
+ * beats are short clicks.
+ *
+ * @param notes - Notes of the notation
+ * @param tempo - Quarter notes per minute
+ */
+export function getNotationTones(notes: readonly NotationNote[], tempo: number = DEFAULT_TEMPO): ScheduledTone[] {
+    const beatSeconds = getBeatSeconds(tempo);
+    return notes.flatMap((note) => {
+        if (note.kind === 'rest') return [];
+        const length = note.beats * beatSeconds;
+        return [{
+            frequency: note.pitch ? getPitchFrequency(note.pitch) : BEAT_FREQUENCY,
+            start: note.start * beatSeconds,
+            // Leave a short gap so repeated notes can be heard apart
+            duration: note.kind === 'beat' ? Math.min(0.1, length) : length * 0.9,
+        }];
+    });
+}
+
+/**
+ * Get the times of the sounding beats of a rhythm in milliseconds.
+ */
+export function getRhythmOnsets(notes: readonly NotationNote[], tempo: number = DEFAULT_TEMPO): number[] {
+    const beatMs = getBeatSeconds(tempo) * 1000;
+    return notes.filter((note) => note.kind !== 'rest').map((note) => note.start * beatMs);
+}
+
+/**
+ * Score taps against the beats of a rhythm. Both are measured from
+ * their first entry, so the child may start whenever they like. Each
+ * beat is matched to the closest tap within the tolerance that is not
+ * matched yet; taps without a beat count against the accuracy.
+ *
+ * @param onsets - Times of the beats in ms (see getRhythmOnsets)
+ * @param taps - Times of the taps in ms
+ * @param tolerance - Allowed difference of a tap in ms
+ * @param minAccuracy - Share of beats to hit to pass
+ */
+export function scoreRhythmTaps(
+    onsets: readonly number[],
+    taps: readonly number[],
+    tolerance: number = DEFAULT_RHYTHM_TOLERANCE,
+    minAccuracy: number = DEFAULT_RHYTHM_MIN_ACCURACY
+): RhythmTapResult {
+    const firstOnset = onsets[0] ?? 0;
+    const firstTap = taps[0] ?? 0;
+    const relativeTaps = taps.map((tap) => tap - firstTap);
+    const used = new Set<number>();
+
+    const hits = onsets.map((onset) => {
+        const target = onset - firstOnset;
+        let best = -1;
+        relativeTaps.forEach((tap, index) => {
+            if (used.has(index) || Math.abs(tap - target) > tolerance) return;
+            if (best === -1 || Math.abs(tap - target) < Math.abs((relativeTaps[best] ?? 0) - target)) {
+                best = index;
+            }
+        });
+        if (best === -1) return false;
+        used.add(best);
+        return true;
+    });
+
+    const hitCount = hits.filter(Boolean).length;
+    const extraTaps = taps.length - used.size;
+    const total = onsets.length + extraTaps;
+    const accuracy = total > 0 ? hitCount / total : 0;
+
+    return { hits, extraTaps, accuracy, correct: taps.length > 0 && accuracy >= minAccuracy };
+}
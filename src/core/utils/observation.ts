@@ -0,0 +1,246 @@
+/**
+ * Observation record utilities for the Mini Trainer Engine.
+ *
+ * Helpers for the USB-DaZ style observation records that teachers
+ * fill in at three time points per school year. The editor layout of
+ * each area is derived from its configured stages.
+ */
+
+import { generateObservationId } from './id';
+import type {
+    AreaObservation,
+    FrequencyRating,
+    ObservationArea,
+    ObservationAreaId,
+    ObservationRecord,
+    TimePoint,
+} from '@/types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Observation time points in chronological order.
+ */
+export const OBSERVATION_TIME_POINTS: readonly TimePoint[] = ['t1', 't2', 't3'];
+
+/**
+ * Frequency ratings in ascending order.
+ */
+export const FREQUENCY_RATINGS: readonly FrequencyRating[] = ['nie', 'selten', 'oft', 'immer'];
+
+/**
+ * Text types rated in the text competence area.
+ */
+export const OBSERVATION_TEXT_TYPES = ['erzaehlen', 'beschreiben', 'berichten', 'argumentieren'] as const;
+
+/**
+ * How an observation area is recorded in the editor.
+ * - level: a single achieved stage
+ * - strategies: one checkbox per stage (strategyChecks)
+ * - orthography: a frequency rating per stage (orthographyRatings)
+ * - textTypes: an achieved stage per text type (textTypeRatings)
+ * - productiveReceptive: separate productive and receptive stages
+ */
+export type ObservationAreaMode =
+    | 'level'
+    | 'strategies'
+    | 'orthography'
+    | 'textTypes'
+    | 'productiveReceptive';
+
+/**
+ * Areas of the USB-DaZ framework that are not recorded as a single stage.
+ */
+const AREA_MODES: Record<string, ObservationAreaMode> = {
+    'strategien': 'strategies',
+    'orthografie': 'orthography',
+    'textkompetenz': 'textTypes',
+    'wortschatz': 'productiveReceptive',
+};
+
+// ============================================================================
+// Record Creation
+// ============================================================================
+
+/**
+ * Get the editor mode for an observation area.
+ *
+ * @param areaId - The observation area ID
+ * @returns The editor mode
+ */
+export function getObservationAreaMode(areaId: ObservationAreaId): ObservationAreaMode {
+    return AREA_MODES[areaId] ?? 'level';
+}
+
+/**
+ * Create an empty observation for an area.
+ * A level of 0 means "not observed".
+ *
+ * @param area - The observation area
+ * @returns A new area observation
+ */
+export function createAreaObservation(area: ObservationArea): AreaObservation {
+    const observation: AreaObservation = {
+        areaId: area.id,
+        achievedLevel: 0,
+        notes: '',
+    };
+
+    switch (getObservationAreaMode(area.id)) {
+        case 'strategies':
+            observation.strategyChecks = Object.fromEntries(
+                area.stages.map((stage) => [String(stage.level), false])
+            );
+            break;
+        case 'orthography':
+            observation.orthographyRatings = {};
+            break;
+        case 'textTypes':
+            observation.textTypeRatings = {};
+            break;
+        case 'productiveReceptive':
+            observation.productiveLevel = 0;
+            observation.receptiveLevel = 0;
+            break;
+        default:
+            break;
+    }
+
+    return observation;
+}
+
+/**
+ * Create an empty observation record for a student and time point.
+ *
+ * @param studentId - The student ID
+ * @param timePoint - The observation time point
+ * @param areas - The configured observation areas
+ * @returns A new observation record
+ */
+export function createObservationRecord(
+    studentId: string,
+    timePoint: TimePoint,
+    areas: readonly ObservationArea[]
+): ObservationRecord {
+    const now = new Date().toISOString();
+    return {
+        id: generateObservationId(),
+        studentId,
+        timePoint,
+        date: now.split('T')[0] ?? now,
+        observations: areas.map(createAreaObservation),
+        notes: '',
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Align a stored record with the configured areas.
+ * Adds empty observations for new areas and keeps stored ones in config order.
+ * Observations for areas that are no longer configured are preserved at the end.
+ *
+ * @param record - The stored observation record
+ * @param areas - The configured observation areas
+ * @returns The aligned record
+ */
+export function alignObservationRecord(
+    record: ObservationRecord,
+    areas: readonly ObservationArea[]
+): ObservationRecord {
+    const byArea = new Map(record.observations.map((o) => [o.areaId, o]));
+    const configuredIds = new Set(areas.map((a) => a.id));
+
+    return {
+        ...record,
+        observations: [
+            ...areas.map((area) => byArea.get(area.id) ?? createAreaObservation(area)),
+            ...record.observations.filter((o) => !configuredIds.has(o.areaId)),
+        ],
+    };
+}
+
+// ============================================================================
+// Level Derivation
+// ============================================================================
+
+/**
+ * Derive the achieved level of an area observation from its detail fields.
+ *
+ * - strategies: highest checked stage
+ * - orthography: highest stage applied often or always
+ * - textTypes: highest stage reached in any text type
+ * - productiveReceptive: the productive level
+ * - level: the achieved level as entered
+ *
+ * @param observation - The area observation
+ * @returns The achieved level (0 if nothing was observed)
+ */
+export function deriveAchievedLevel(observation: AreaObservation): number {
+    switch (getObservationAreaMode(observation.areaId)) {
+        case 'strategies':
+            return highestLevel(
+                Object.entries(observation.strategyChecks ?? {})
+                    .filter(([, checked]) => checked)
+                    .map(([level]) => Number(level))
+            );
+        case 'orthography':
+            return highestLevel(
+                Object.entries(observation.orthographyRatings ?? {})
+                    .filter(([, rating]) => rating === 'oft' || rating === 'immer')
+                    .map(([level]) => Number(level))
+            );
+        case 'textTypes':
+            return highestLevel(Object.values(observation.textTypeRatings ?? {}));
+        case 'productiveReceptive':
+            return observation.productiveLevel ?? 0;
+        default:
+            return observation.achievedLevel;
+    }
+}
+
+/**
+ * Get the highest finite level from a list, or 0 for an empty list.
+ */
+function highestLevel(levels: number[]): number {
+    return levels.filter(Number.isFinite).reduce((max, level) => Math.max(max, level), 0);
+}
+
+/**
+ * Prepare a record for saving: derive achieved levels and bump updatedAt.
+ *
+ * @param record - The edited observation record
+ * @returns The record ready to be stored
+ */
+export function finalizeObservationRecord(record: ObservationRecord): ObservationRecord {
+    return {
+        ...record,
+        observations: record.observations.map((o) => ({
+            ...o,
+            achievedLevel: deriveAchievedLevel(o),
+        })),
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+// ============================================================================
+// Record Lookup
+// ============================================================================
+
+/**
+ * Get the most recent observation record.
+ * The later observation date wins; on the same date the later time point wins.
+ *
+ * @param records - Observation records of one student
+ * @returns The latest record, or undefined if there are none
+ */
+export function getLatestObservationRecord(
+    records: readonly ObservationRecord[]
+): ObservationRecord | undefined {
+    return [...records].sort((a, b) =>
+        b.date.localeCompare(a.date) ||
+        OBSERVATION_TIME_POINTS.indexOf(b.timePoint) - OBSERVATION_TIME_POINTS.indexOf(a.timePoint)
+    )[0];
+}
@@ -0,0 +1,286 @@
+/**
+ * Adaptive placement test for the Mini Trainer Engine.
+ *
+ * Samples exercises of each observation area with a 1-up/1-down
+ * staircase: a correct answer moves to the next higher level, an
+ * incorrect answer to the next lower one. The highest level answered
+ * correctly at least as often as incorrectly is the mastered level,
+ * which is then used to set the profile's area and theme levels.
+ */
+
+import type { Exercise, ObservationAreaId, ThemeId } from '@/types/exercise';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Maximum number of exercises asked per observation area.
+ */
+export const PLACEMENT_MAX_ITEMS_PER_AREA = 5;
+
+/**
+ * Number of incorrect answers on one level that ends an area
+ * (the child's ceiling has been found).
+ */
+const CEILING_FAILURES = 2;
+
+/**
+ * Number of correct answers on the highest level that ends an area
+ * (there is nothing higher to test).
+ */
+const TOP_LEVEL_PASSES = 2;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One answered placement exercise.
+ */
+export interface PlacementAnswer {
+    exerciseId: string;
+    level: number;
+    correct: boolean;
+}
+
+/**
+ * Staircase state of one observation area.
+ */
+export interface PlacementAreaState {
+    areaId: ObservationAreaId;
+    /** Levels that have exercises in this area, ascending */
+    levels: number[];
+    /** Level of the next exercise */
+    level: number;
+    answers: PlacementAnswer[];
+    finished: boolean;
+}
+
+/**
+ * State of a whole placement test. Areas are tested one after another.
+ */
+export interface PlacementTestState {
+    areas: PlacementAreaState[];
+    /** Index of the area being tested (equals areas.length when done) */
+    areaIndex: number;
+}
+
+/**
+ * Levels derived from a finished placement test.
+ */
+export interface PlacementResult {
+    /** Level to continue with per observation area */
+    currentLevels: Record<ObservationAreaId, number>;
+    /** Highest level counted as completed per theme */
+    themeLevels: Record<ThemeId, number>;
+}
+
+// ============================================================================
+// Test Flow
+// ============================================================================
+
+/**
+ * Create a placement test for the given observation areas.
+ * Areas without exercises are skipped. Each area starts at its lowest level.
+ *
+ * @param areaIds - Observation areas to test, in order
+ * @param exercises - All available exercises
+ * @returns The initial test state
+ */
+export function createPlacementTest(
+    areaIds: readonly ObservationAreaId[],
+    exercises: readonly Exercise[]
+): PlacementTestState {
+    const areas: PlacementAreaState[] = [];
+
+    for (const areaId of areaIds) {
+        const levels = Array.from(new Set(
+            exercises.filter((e) => e.areaId === areaId).map((e) => e.level)
+        )).sort((a, b) => a - b);
+
+        const lowest = levels[0];
+        if (lowest === undefined) continue;
+
+        areas.push({ areaId, levels, level: lowest, answers: [], finished: false });
+    }
+
+    return { areas, areaIndex: 0 };
+}
+
+/**
+ * Get the area currently being tested.
+ *
+ * @param test - The test state
+ * @returns The current area, or null if the test is finished
+ */
+export function getCurrentPlacementArea(test: PlacementTestState): PlacementAreaState | null {
+    return test.areas[test.areaIndex] ?? null;
+}
+
+/**
+ * Check whether all areas have been tested.
+ *
+ * @param test - The test state
+ * @returns Whether the test is finished
+ */
+export function isPlacementFinished(test: PlacementTestState): boolean {
+    return test.areaIndex >= test.areas.length;
+}
+
+/**
+ * Pick the next exercise for an area.
+ * Prefers unused exercises on the current level and falls back to the
+ * unused exercise with the closest level.
+ *
+ * @param area - The area state
+ * @param exercises - All available exercises
+ * @param random - Random number source (default: Math.random)
+ * @returns The exercise, or null if the area has no unused exercises left
+ */
+export function selectPlacementExercise(
+    area: PlacementAreaState,
+    exercises: readonly Exercise[],
+    random: () => number = Math.random
+): Exercise | null {
+    const used = new Set(area.answers.map((a) => a.exerciseId));
+    const candidates = exercises.filter((e) => e.areaId === area.areaId && !used.has(e.id));
+    if (candidates.length === 0) return null;
+
+    const closestDistance = Math.min(...candidates.map((e) => Math.abs(e.level - area.level)));
+    const closest = candidates.filter((e) => Math.abs(e.level - area.level) === closestDistance);
+    return closest[Math.floor(random() * closest.length)] ?? null;
+}
+
+/**
+ * Check whether an area's staircase has ended.
+ */
+function isAreaDone(area: PlacementAreaState): boolean {
+    if (area.answers.length >= PLACEMENT_MAX_ITEMS_PER_AREA) return true;
+
+    const failuresAtLevel = new Map<number, number>();
+    for (const answer of area.answers) {
+        if (answer.correct) continue;
+        const failures = (failuresAtLevel.get(answer.level) ?? 0) + 1;
+        if (failures >= CEILING_FAILURES) return true;
+        failuresAtLevel.set(answer.level, failures);
+    }
+
+    const topLevel = area.levels[area.levels.length - 1];
+    const topPasses = area.answers.filter((a) => a.correct && a.level === topLevel).length;
+    return topPasses >= TOP_LEVEL_PASSES;
+}
+
+/**
+ * Record an answer for the current area and move the staircase.
+ * Moves on to the next area when the current one is done.
+ *
+ * @param test - The test state
+ * @param exercise - The answered exercise
+ * @param correct - Whether the answer was correct
+ * @returns The updated test state
+ */
+export function recordPlacementAnswer(
+    test: PlacementTestState,
+    exercise: Pick<Exercise, 'id' | 'level'>,
+    correct: boolean
+): PlacementTestState {
+    const area = getCurrentPlacementArea(test);
+    if (!area) return test;
+
+    const answers = [...area.answers, { exerciseId: exercise.id, level: exercise.level, correct }];
+    const index = Math.max(area.levels.indexOf(exercise.level), 0);
+    const nextIndex = Math.min(Math.max(index + (correct ? 1 : -1), 0), area.levels.length - 1);
+    const level = area.levels[nextIndex] ?? area.level;
+
+    const updated: PlacementAreaState = { ...area, answers, level };
+    updated.finished = isAreaDone(updated);
+
+    return {
+        areas: test.areas.map((a, i) => (i === test.areaIndex ? updated : a)),
+        areaIndex: updated.finished ? test.areaIndex + 1 : test.areaIndex,
+    };
+}
+
+/**
+ * End the current area early, e.g. when it has no exercises left.
+ *
+ * @param test - The test state
+ * @returns The updated test state
+ */
+export function skipPlacementArea(test: PlacementTestState): PlacementTestState {
+    const area = getCurrentPlacementArea(test);
+    if (!area) return test;
+
+    return {
+        areas: test.areas.map((a, i) => (i === test.areaIndex ? { ...a, finished: true } : a)),
+        areaIndex: test.areaIndex + 1,
+    };
+}
+
+// ============================================================================
+// Results
+// ============================================================================
+
+/**
+ * Get the mastered level of an area: the highest level answered correctly
+ * at least once and at least as often as incorrectly.
+ *
+ * @param area - The area state
+ * @returns The mastered level, or 0 if no level was mastered
+ */
+export function getMasteredLevel(area: PlacementAreaState): number {
+    let mastered = 0;
+    for (const level of area.levels) {
+        const atLevel = area.answers.filter((a) => a.level === level);
+        const correct = atLevel.filter((a) => a.correct).length;
+        if (correct > 0 && correct >= atLevel.length - correct) {
+            mastered = level;
+        }
+    }
+    return mastered;
+}
+
+/**
+ * Derive profile levels from a placement test.
+ *
+ * Each area continues on the level after its mastered level (capped at
+ * its highest level). A theme counts as completed up to the lowest
+ * mastered level among the tested areas its exercises belong to.
+ *
+ * @param test - The test state
+ * @param exercises - All available exercises
+ * @returns Area and theme levels
+ */
+export function getPlacementResult(test: PlacementTestState, exercises: readonly Exercise[]): PlacementResult {
+    const currentLevels: Record<ObservationAreaId, number> = {};
+    const mastered = new Map<ObservationAreaId, number>();
+
+    for (const area of test.areas) {
+        if (area.answers.length === 0) continue;
+
+        const level = getMasteredLevel(area);
+        const highest = area.levels[area.levels.length - 1] ?? 1;
+        mastered.set(area.areaId, level);
+        currentLevels[area.areaId] = Math.max(1, Math.min(level + 1, highest));
+    }
+
+    const themeAreas = new Map<ThemeId, Set<ObservationAreaId>>();
+    for (const exercise of exercises) {
+        const areas = themeAreas.get(exercise.themeId) ?? new Set<ObservationAreaId>();
+        areas.add(exercise.areaId);
+        themeAreas.set(exercise.themeId, areas);
+    }
+
+    const themeLevels: Record<ThemeId, number> = {};
+    for (const [themeId, areas] of themeAreas) {
+        const levels = Array.from(areas)
+            .map((areaId) => mastered.get(areaId))
+            .filter((level): level is number => level !== undefined);
+        if (levels.length > 0) {
+            themeLevels[themeId] = Math.min(...levels);
+        }
+    }
+
+    return { currentLevels, themeLevels };
+}
@@ -19,6 +19,18 @@ export type SoundType =
     | 'badge'
     | 'star';
 
+/**
+ * A tone scheduled from the start of playback (e.g. a note of a melody).
+ */
+export interface ScheduledTone {
+    /** Frequency in Hz */
+    frequency: number;
+    /** Start from the beginning in seconds */
+    start: number;
+    /** Length in seconds */
+    duration: number;
+}
+
 // ============================================================================
 // Audio Context
 // ============================================================================
@@ -60,31 +72,53 @@ async function resumeAudioContext(): Promise<void> {
 
 /**
  * Play a frequency with optional duration and type.
+ * A delay schedules the tone on the audio clock, which keeps the timing
+ * of melodies and rhythms exact.
  * Returns early if audio context is not available.
  */
-function playTone(
+export function playTone(
     frequency: number,
     duration: number = 0.1,
     type: OscillatorType = 'sine',
-    volume: number = 0.3
+    volume: number = 0.3,
+    delay: number = 0
 ): void {
     const ctx = getAudioContext();
     if (!ctx) return;
 
     const oscillator = ctx.createOscillator();
     const gainNode = ctx.createGain();
+    const startTime = ctx.currentTime + delay;
 
     oscillator.type = type;
-    oscillator.frequency.setValueAtTime(frequency, ctx.currentTime);
+    oscillator.frequency.setValueAtTime(frequency, startTime);
 
-    gainNode.gain.setValueAtTime(volume, ctx.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + duration);
+    gainNode.gain.setValueAtTime(volume, startTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, startTime + duration);
 
     oscillator.connect(gainNode);
     gainNode.connect(ctx.destination);
 
-    oscillator.start(ctx.currentTime);
-    oscillator.stop(ctx.currentTime + duration);
+    oscillator.start(startTime);
+    oscillator.stop(startTime + duration);
+}
+
+/**
+ * Play a sequence of tones (e.g. the notes of a music exercise).
+ * Resolves when the last tone has ended.
+ * @param tones - Tones with start times from the beginning
+ * @param soundEnabled - Whether sound is enabled (optional, defaults to true)
+ */
+export async function playTones(tones: readonly ScheduledTone[], soundEnabled: boolean = true): Promise<void> {
+    if (!soundEnabled || !getAudioContext()) return;
+    await resumeAudioContext();
+
+    tones.forEach(({ frequency, start, duration }) => {
+        playTone(frequency, duration, 'triangle', 0.3, start);
+    });
+
+    const end = Math.max(0, ...tones.map(({ start, duration }) => start + duration));
+    await new Promise<void>((resolve) => setTimeout(resolve, end * 1000));
 }
 
 /**
@@ -273,5 +307,7 @@ export default {
     playBadge,
     playStar,
     playSound,
+    playTone,
+    playTones,
     isAudioSupported,
 };
@@ -0,0 +1,309 @@
+/**
+ * Spaced repetition for the Mini Trainer Engine.
+ *
+ * Schedules exercises for review from the recorded exercise results.
+ * Each profile/exercise pair keeps a Leitner box and SM-2 style ease
+ * and interval values: wrong or hard answers come back the next day,
+ * well-known exercises are reviewed less and less often.
+ */
+
+import type { Exercise, ExerciseResult } from '@/types/exercise';
+import type { ReviewState } from '@/types/gamification';
+import { getDailyChallengeDateKey } from './dailyChallenge';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Pseudo theme ID used in the exercise route for a review session.
+ */
+export const REVIEW_THEME_ID = 'review';
+
+/**
+ * Number of Leitner boxes.
+ */
+export const REVIEW_BOX_COUNT = 5;
+
+/**
+ * Maximum number of exercises in one review session.
+ */
+export const REVIEW_SESSION_SIZE = 10;
+
+/**
+ * SM-2 ease factor for a new schedule.
+ */
+export const INITIAL_EASE_FACTOR = 2.5;
+
+/**
+ * Lowest SM-2 ease factor.
+ */
+export const MIN_EASE_FACTOR = 1.3;
+
+/**
+ * Lowest quality that counts as a successful review.
+ */
+const PASSING_QUALITY = 3;
+
+/**
+ * Intervals in days for the first and second successful review.
+ */
+const FIRST_INTERVAL_DAYS = 1;
+const SECOND_INTERVAL_DAYS = 3;
+
+/**
+ * A correct answer slower than this multiple of the expected time
+ * loses one quality point.
+ */
+const SLOW_TIME_FACTOR = 2;
+
+/**
+ * Review quality on the SM-2 scale (0 = no recall, 5 = perfect recall).
+ */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+// ============================================================================
+// Date Helpers
+// ============================================================================
+
+/**
+ * Get the local date key a number of days after a date.
+ *
+ * @param date - The start date
+ * @param days - Number of days to add
+ * @returns Date string in YYYY-MM-DD format
+ */
+function addDaysToDateKey(date: Date, days: number): string {
+    const next = new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+    return getDailyChallengeDateKey(next);
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Rate an exercise result on the SM-2 quality scale.
+ *
+ * Incorrect results rate 1. Correct results rate 5 on the first attempt,
+ * 3 on the second and 2 after that, so an exercise that needed several
+ * tries comes back the next day. A first-attempt answer slower than twice
+ * the expected time rates 4.
+ *
+ * @param result - The exercise result
+ * @param expectedTimeSeconds - Expected time for the exercise, if known
+ * @returns The review quality
+ */
+export function getReviewQuality(
+    result: Pick<ExerciseResult, 'correct' | 'attempts' | 'timeSpentSeconds'>,
+    expectedTimeSeconds?: number
+): ReviewQuality {
+    if (!result.correct) return 1;
+    if (result.attempts >= 3) return 2;
+    if (result.attempts === 2) return 3;
+
+    const slow = expectedTimeSeconds !== undefined
+        && expectedTimeSeconds > 0
+        && result.timeSpentSeconds > expectedTimeSeconds * SLOW_TIME_FACTOR;
+    return slow ? 4 : 5;
+}
+
+/**
+ * Create the schedule for an exercise that has not been reviewed yet.
+ *
+ * @param profileId - The profile ID
+ * @param exerciseId - The exercise ID
+ * @param date - Creation date; the exercise is due on this day (default: now)
+ * @returns A new review state in box 1
+ */
+export function createReviewState(profileId: string, exerciseId: string, date: Date = new Date()): ReviewState {
+    return {
+        id: `${profileId}:${exerciseId}`,
+        childProfileId: profileId,
+        exerciseId,
+        box: 1,
+        easeFactor: INITIAL_EASE_FACTOR,
+        repetitions: 0,
+        intervalDays: 0,
+        dueDate: getDailyChallengeDateKey(date),
+        lastReviewedAt: date.toISOString(),
+    };
+}
+
+/**
+ * Apply one review to a schedule.
+ *
+ * Failed reviews (quality below 3) move the exercise back to box 1 and
+ * make it due the next day. Successful reviews move it one box up and
+ * grow the interval: 1 day, 3 days, then the previous interval times
+ * the ease factor. The ease factor follows the SM-2 update rule.
+ *
+ * @param state - The current schedule
+ * @param quality - The review quality
+ * @param reviewedAt - Time of the review (default: now)
+ * @returns The updated schedule
+ */
+export function scheduleReview(
+    state: ReviewState,
+    quality: ReviewQuality,
+    reviewedAt: Date = new Date()
+): ReviewState {
+    const penalty = 5 - quality;
+    const easeFactor = Math.max(
+        MIN_EASE_FACTOR,
+        state.easeFactor + 0.1 - penalty * (0.08 + penalty * 0.02)
+    );
+
+    let box: number;
+    let repetitions: number;
+    let intervalDays: number;
+
+    if (quality < PASSING_QUALITY) {
+        box = 1;
+        repetitions = 0;
+        intervalDays = FIRST_INTERVAL_DAYS;
+    } else {
+        box = Math.min(state.box + 1, REVIEW_BOX_COUNT);
+        repetitions = state.repetitions + 1;
+        if (repetitions === 1) {
+            intervalDays = FIRST_INTERVAL_DAYS;
+        } else if (repetitions === 2) {
+            intervalDays = SECOND_INTERVAL_DAYS;
+        } else {
+            intervalDays = Math.round(state.intervalDays * easeFactor);
+        }
+    }
+
+    return {
+        ...state,
+        box,
+        easeFactor: Math.round(easeFactor * 100) / 100,
+        repetitions,
+        intervalDays,
+        dueDate: addDaysToDateKey(reviewedAt, intervalDays),
+        lastReviewedAt: reviewedAt.toISOString(),
+    };
+}
+
+/**
+ * Bring a profile's review states up to date with its exercise results.
+ *
+ * Results newer than a schedule's `lastReviewedAt` are applied in
+ * chronological order. Correct results before the due date count as
+ * practice and do not advance the schedule; incorrect results always
+ * reset it.
+ *
+ * @param profileId - The profile ID
+ * @param states - Stored review states of the profile
+ * @param results - Exercise results of the profile
+ * @param getExpectedTime - Expected time lookup for an exercise ID
+ * @returns The review states that were created or changed
+ */
+export function syncReviewStates(
+    profileId: string,
+    states: readonly ReviewState[],
+    results: readonly ExerciseResult[],
+    getExpectedTime?: (exerciseId: string) => number | undefined
+): ReviewState[] {
+    const current = new Map(states.map((s) => [s.exerciseId, s]));
+    const changed = new Map<string, ReviewState>();
+
+    const ordered = results
+        .filter((r) => r.childProfileId === profileId)
+        .sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+
+    for (const result of ordered) {
+        const reviewedAt = new Date(result.completedAt);
+        const existing = current.get(result.exerciseId);
+        if (existing && result.completedAt <= existing.lastReviewedAt) continue;
+
+        let next: ReviewState;
+        if (existing && result.correct && getDailyChallengeDateKey(reviewedAt) < existing.dueDate) {
+            next = { ...existing, lastReviewedAt: result.completedAt };
+        } else {
+            const state = existing ?? createReviewState(profileId, result.exerciseId, reviewedAt);
+            const quality = getReviewQuality(result, getExpectedTime?.(result.exerciseId));
+            next = { ...scheduleReview(state, quality, reviewedAt), lastReviewedAt: result.completedAt };
+        }
+
+        current.set(result.exerciseId, next);
+        changed.set(result.exerciseId, next);
+    }
+
+    return Array.from(changed.values());
+}
+
+// ============================================================================
+// Review Selection
+// ============================================================================
+
+/**
+ * Check whether a schedule is due on a date.
+ *
+ * @param state - The review state
+ * @param today - Local date key (default: today)
+ * @returns Whether the exercise is due
+ */
+export function isReviewDue(state: ReviewState, today: string = getDailyChallengeDateKey()): boolean {
+    return state.dueDate <= today;
+}
+
+/**
+ * Get the exercises due for review, most overdue and least known first.
+ *
+ * @param states - Review states of the profile
+ * @param exercises - All available exercises
+ * @param today - Local date key (default: today)
+ * @param limit - Maximum number of exercises (default: REVIEW_SESSION_SIZE)
+ * @returns The exercises to review
+ */
+export function getDueReviewExercises(
+    states: readonly ReviewState[],
+    exercises: readonly Exercise[],
+    today: string = getDailyChallengeDateKey(),
+    limit: number = REVIEW_SESSION_SIZE
+): Exercise[] {
+    const exercisesById = new Map(exercises.map((e) => [e.id, e]));
+
+    return states
+        .filter((s) => isReviewDue(s, today) && exercisesById.has(s.exerciseId))
+        .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.box - b.box || a.easeFactor - b.easeFactor)
+        .slice(0, limit)
+        .map((s) => exercisesById.get(s.exerciseId))
+        .filter((e): e is Exercise => e !== undefined);
+}
+
+/**
+ * Count the review states per Leitner box.
+ *
+ * @param states - Review states of the profile
+ * @returns Counts for boxes 1 to REVIEW_BOX_COUNT (index 0 = box 1)
+ */
+export function getReviewBoxCounts(states: readonly ReviewState[]): number[] {
+    const counts = new Array<number>(REVIEW_BOX_COUNT).fill(0);
+    for (const state of states) {
+        const index = Math.min(Math.max(state.box, 1), REVIEW_BOX_COUNT) - 1;
+        counts[index] = (counts[index] ?? 0) + 1;
+    }
+    return counts;
+}
+
+/**
+ * Get the earliest due date after today.
+ *
+ * @param states - Review states of the profile
+ * @param today - Local date key (default: today)
+ * @returns The next due date, or null if nothing is scheduled
+ */
+export function getNextReviewDate(
+    states: readonly ReviewState[],
+    today: string = getDailyChallengeDateKey()
+): string | null {
+    let next: string | null = null;
+    for (const state of states) {
+        if (state.dueDate > today && (next === null || state.dueDate < next)) {
+            next = state.dueDate;
+        }
+    }
+    return next;
+}
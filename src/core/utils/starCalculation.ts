@@ -2,9 +2,90 @@
  * Star calculation utilities for the Mini Trainer Engine.
  * 
  * Provides functions for calculating and displaying star ratings.
+ * Stars are awarded according to the configured star strategy:
+ * - attempts: fewer attempts earn more stars
+ * - time: fast answers earn more stars, capped by the attempts rating
+ * - custom: the scoring rules of the exercise type adjust the attempts rating
  */
 
-import type { Score } from '@/types/gamification';
+import type { Score, ScoringParams } from '@/types/gamification';
+import type { ExerciseTypeConfig, ScoringRule, StarStrategy } from '@/types/config';
+import type { Exercise, ExerciseDifficulty, ExerciseType } from '@/types/exercise';
+import { getMaxAttempts } from './exerciseTypeConfig';
+import { collectExpressionIdentifiers, evaluateExpressionNode, parseBadgeExpression } from './badgeExpression';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scoring configuration taken from the gamification and subject config.
+ */
+export interface StarScoringConfig {
+    /** Star calculation strategy */
+    starStrategy: StarStrategy;
+    /** Maximum stars per exercise (capped at 3) */
+    maxStarsPerExercise?: number;
+    /** Give harder exercises more time under the 'time' strategy */
+    difficultyWeighting?: boolean;
+    /** Per-type expected times, attempt limits and scoring rules */
+    exerciseTypeConfig?: Partial<Record<ExerciseType, ExerciseTypeConfig>>;
+}
+
+/**
+ * Options for strategy-based star calculation.
+ */
+export interface StarStrategyOptions {
+    /** Scoring rules for the 'custom' strategy */
+    rules?: readonly ScoringRule[];
+    /** Give harder exercises more time under the 'time' strategy */
+    difficultyWeighting?: boolean;
+    /** Maximum stars per exercise (capped at 3) */
+    maxStars?: number;
+}
+
+/**
+ * Variables available in scoring rule conditions.
+ */
+export type ScoringVariables = Record<string, number>;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Time allowance factor per difficulty when difficulty weighting is enabled.
+ */
+export const DIFFICULTY_TIME_FACTORS: Record<ExerciseDifficulty, number> = {
+    1: 1,
+    2: 1.25,
+    3: 1.5,
+};
+
+/**
+ * Time ratio (time spent / expected time) limits for 3 and 2 stars.
+ * Slower correct answers earn 1 star.
+ */
+const TIME_RATIO_THREE_STARS = 1;
+const TIME_RATIO_TWO_STARS = 1.5;
+
+/**
+ * Variables available in scoring rule conditions.
+ */
+export const SCORING_VARIABLE_NAMES: readonly string[] = [
+    'attempts',
+    'time',
+    'expectedTime',
+    'timeRatio',
+    'difficulty',
+    'maxAttempts',
+    'stars',
+];
+
+/**
+ * Conditions that match every answer.
+ */
+const ALWAYS_CONDITIONS = ['true', 'always'];
 
 // ============================================================================
 // Star Calculations
@@ -28,6 +109,229 @@ export function calculateStars(attempts: number, maxAttempts: number = 3): Score
     return 1;
 }
 
+/**
+ * Get the most stars an exercise can earn with a configured maximum.
+ *
+ * @param maxStarsPerExercise - Configured maximum stars per exercise (default: 3)
+ * @returns Score (0-3)
+ */
+export function getMaxExerciseStars(maxStarsPerExercise: number = 3): Score {
+    return Math.min(Math.max(Math.floor(maxStarsPerExercise), 0), 3) as Score;
+}
+
+/**
+ * Clamp a star value to a valid score.
+ */
+function toScore(stars: number, maxStars: number = 3): Score {
+    return Math.min(Math.max(Math.round(stars), 0), getMaxExerciseStars(maxStars)) as Score;
+}
+
+/**
+ * Calculate star rating from time spent.
+ * Within the expected time = 3 stars, up to 1.5x = 2 stars, slower = 1 star.
+ * 
+ * @param timeSpentSeconds - Time spent on the exercise
+ * @param expectedTimeSeconds - Expected time for the exercise (must be positive)
+ * @returns Score (1-3), or 0 if the expected time is invalid
+ */
+export function calculateTimeStars(timeSpentSeconds: number, expectedTimeSeconds: number): Score {
+    if (!(expectedTimeSeconds > 0)) return 0;
+    const ratio = Math.max(timeSpentSeconds, 0) / expectedTimeSeconds;
+    if (ratio <= TIME_RATIO_THREE_STARS) return 3;
+    if (ratio <= TIME_RATIO_TWO_STARS) return 2;
+    return 1;
+}
+
+/**
+ * Validate a scoring rule condition without evaluating it.
+ * Conditions use the badge expression syntax over SCORING_VARIABLE_NAMES.
+ *
+ * @param condition - The condition, e.g. "attempts == 1 && time <= 5"
+ * @returns Error messages (empty if the condition is valid)
+ */
+export function validateScoringCondition(condition: string): string[] {
+    const trimmed = condition.trim();
+    if (trimmed === '') return ['Condition is empty'];
+    if (ALWAYS_CONDITIONS.includes(trimmed)) return [];
+
+    let names: Set<string>;
+    try {
+        names = collectExpressionIdentifiers(parseBadgeExpression(trimmed), new Set());
+    } catch (err) {
+        return [(err as Error).message];
+    }
+
+    return [...names]
+        .filter((name) => !SCORING_VARIABLE_NAMES.includes(name))
+        .map((name) => `Unknown variable '${name}'. Available: ${SCORING_VARIABLE_NAMES.join(', ')}`);
+}
+
+/**
+ * Evaluate a scoring rule condition.
+ * Conditions use the badge expression syntax (see badgeExpression.ts), e.g.
+ * "attempts == 1 && time <= 5". "true" and "always" match every answer.
+ * Invalid conditions and unknown variables never match.
+ * 
+ * @param condition - The condition
+ * @param variables - The variable values
+ * @returns Whether the condition matches
+ */
+export function evaluateScoringCondition(condition: string, variables: ScoringVariables): boolean {
+    const trimmed = condition.trim();
+    if (ALWAYS_CONDITIONS.includes(trimmed)) return true;
+    if (trimmed === '') return false;
+
+    try {
+        return evaluateExpressionNode(parseBadgeExpression(trimmed), variables) !== 0;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Apply scoring rules to a star rating.
+ * Matching rules are applied in order: a number (or numeric string) sets the
+ * stars, a signed string such as "+1" or "-1" changes them.
+ * 
+ * @param baseStars - The attempts-based star rating
+ * @param rules - The scoring rules
+ * @param variables - The condition variables
+ * @param maxStars - Maximum stars per exercise (default: 3)
+ * @returns The adjusted score
+ */
+export function applyScoringRules(
+    baseStars: Score,
+    rules: readonly ScoringRule[],
+    variables: ScoringVariables,
+    maxStars: number = 3
+): Score {
+    let stars: number = baseStars;
+
+    for (const rule of rules) {
+        if (!evaluateScoringCondition(rule.condition, { ...variables, stars })) continue;
+
+        const modifier = rule.scoreModifier;
+        if (typeof modifier === 'number') {
+            stars = modifier;
+        } else if (/^[+-]\d+$/.test(modifier.trim())) {
+            stars += Number(modifier.trim());
+        } else if (/^\d+$/.test(modifier.trim())) {
+            stars = Number(modifier.trim());
+        }
+    }
+
+    return toScore(stars, maxStars);
+}
+
+/**
+ * Calculate the star rating according to a star strategy.
+ * Incorrect answers and exceeded attempts always earn 0 stars. The 'time'
+ * strategy falls back to attempts when no expected time is known.
+ * 
+ * @param params - Attempts, time and difficulty of the answer
+ * @param strategy - The star strategy
+ * @param options - Rules, difficulty weighting and maximum stars
+ * @returns Score (0-3)
+ */
+export function calculateStarsForStrategy(
+    params: ScoringParams,
+    strategy: StarStrategy,
+    options: StarStrategyOptions = {}
+): Score {
+    const { rules = [], difficultyWeighting = false, maxStars = 3 } = options;
+    if (!params.correct) return 0;
+
+    const attemptStars = toScore(calculateStars(params.attempts, params.maxAttempts), maxStars);
+    if (attemptStars === 0) return 0;
+
+    const timeFactor = difficultyWeighting ? DIFFICULTY_TIME_FACTORS[params.difficulty] : 1;
+    const expectedTime = params.expectedTimeSeconds !== undefined && params.expectedTimeSeconds > 0
+        ? params.expectedTimeSeconds * timeFactor
+        : undefined;
+
+    switch (strategy) {
+        case 'time':
+            if (expectedTime === undefined) return attemptStars;
+            return toScore(Math.min(calculateTimeStars(params.timeSpentSeconds, expectedTime), attemptStars), maxStars);
+        case 'custom':
+            return applyScoringRules(attemptStars, rules, {
+                attempts: params.attempts,
+                time: params.timeSpentSeconds,
+                expectedTime: expectedTime ?? 0,
+                timeRatio: expectedTime ? params.timeSpentSeconds / expectedTime : 0,
+                difficulty: params.difficulty,
+                maxAttempts: params.maxAttempts,
+            }, maxStars);
+        default:
+            return attemptStars;
+    }
+}
+
+/**
+ * Get the expected time of an exercise.
+ * The exercise's own expected time wins over the per-type expected time.
+ * 
+ * @param exercise - The exercise
+ * @param exerciseTypeConfig - Per-type configuration from the subject config
+ * @returns The expected time in seconds, or undefined if none is configured
+ */
+export function getExpectedTimeSeconds(
+    exercise: Pick<Exercise, 'type' | 'expectedTimeSeconds'>,
+    exerciseTypeConfig?: Partial<Record<ExerciseType, ExerciseTypeConfig>>
+): number | undefined {
+    return exercise.expectedTimeSeconds ?? exerciseTypeConfig?.[exercise.type]?.expectedTimeSeconds;
+}
+
+/**
+ * Calculate the star rating of an exercise with the configured scoring.
+ * 
+ * @param exercise - The exercise
+ * @param attempts - Number of attempts made
+ * @param timeSpentSeconds - Time spent on the exercise
+ * @param config - Scoring configuration (default: attempts strategy)
+ * @param maxAttempts - Maximum allowed attempts (default: the type's configured limit)
+ * @returns Score (0-3)
+ */
+export function calculateExerciseStars(
+    exercise: Pick<Exercise, 'type' | 'difficulty' | 'expectedTimeSeconds'>,
+    attempts: number,
+    timeSpentSeconds: number,
+    config: StarScoringConfig = { starStrategy: 'attempts' },
+    maxAttempts: number = getMaxAttempts(exercise.type, config.exerciseTypeConfig)
+): Score {
+    const expectedTimeSeconds = getExpectedTimeSeconds(exercise, config.exerciseTypeConfig);
+
+    return calculateStarsForStrategy(
+        {
+            correct: true,
+            attempts,
+            timeSpentSeconds,
+            maxAttempts,
+            difficulty: exercise.difficulty,
+            ...(expectedTimeSeconds !== undefined ? { expectedTimeSeconds } : {}),
+        },
+        config.starStrategy,
+        {
+            rules: config.exerciseTypeConfig?.[exercise.type]?.scoring ?? [],
+            difficultyWeighting: config.difficultyWeighting ?? false,
+            maxStars: config.maxStarsPerExercise ?? 3,
+        }
+    );
+}
+
+/**
+ * Scale a star rating by the share of correct parts of an exercise
+ * (e.g. the blanks of a cloze text). A solved exercise keeps at least one star.
+ * 
+ * @param stars - Stars of the solved exercise
+ * @param accuracy - Share of correct parts (0-1, default: 1)
+ * @returns Score (0-3)
+ */
+export function applyPartialCredit(stars: Score, accuracy: number = 1): Score {
+    if (stars === 0 || accuracy >= 1) return stars;
+    return toScore(Math.max(1, Math.round(stars * Math.max(accuracy, 0))));
+}
+
 /**
  * Get star display string with emoji.
  * 
@@ -0,0 +1,148 @@
+/**
+ * Student profile utilities for the Mini Trainer Engine.
+ *
+ * Student profiles hold the teacher's records (real name, class,
+ * languages, support measure) and are linked to the anonymous,
+ * nickname-based child profiles on the device.
+ */
+
+import { generateStudentId } from './id';
+import type { StudentProfile, StudentStatus, SupportMeasure } from '@/types';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Support measures in the order shown in the editor.
+ */
+export const SUPPORT_MEASURES: readonly SupportMeasure[] = [
+    'deutschfoerderklasse',
+    'deutschfoerderkurs',
+    'daz-foerderung',
+    'sprachsensibler-unterricht',
+    'keine',
+];
+
+/**
+ * Enrollment statuses in the order shown in the editor.
+ */
+export const STUDENT_STATUSES: readonly StudentStatus[] = ['ausserordentlich', 'ordentlich'];
+
+// ============================================================================
+// Profile Creation
+// ============================================================================
+
+/**
+ * Create a new student profile with default values.
+ *
+ * @param name - The student's full name
+ * @returns A new student profile
+ */
+export function createStudentProfile(name: string = ''): StudentProfile {
+    const now = new Date().toISOString();
+    return {
+        id: generateStudentId(),
+        name,
+        firstLanguages: [],
+        contactDurationMonths: 0,
+        status: 'ausserordentlich',
+        supportMeasure: 'deutschfoerderklasse',
+        notes: '',
+        linkedProfileIds: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+}
+
+/**
+ * Parse a comma-separated list of languages.
+ *
+ * @param text - The entered text, e.g. "Arabisch, Kurdisch"
+ * @returns The trimmed, non-empty language names
+ */
+export function parseFirstLanguages(text: string): string[] {
+    return text
+        .split(',')
+        .map((language) => language.trim())
+        .filter((language) => language.length > 0);
+}
+
+// ============================================================================
+// Profile Linking
+// ============================================================================
+
+/**
+ * Map each linked child profile ID to its student profile.
+ *
+ * @param students - All student profiles
+ * @returns Map from child profile ID to student profile
+ */
+export function getStudentsByProfileId(
+    students: readonly StudentProfile[]
+): Map<string, StudentProfile> {
+    const byProfile = new Map<string, StudentProfile>();
+    for (const student of students) {
+        for (const profileId of student.linkedProfileIds) {
+            if (!byProfile.has(profileId)) {
+                byProfile.set(profileId, student);
+            }
+        }
+    }
+    return byProfile;
+}
+
+/**
+ * Link child profiles to a student.
+ * A child profile belongs to one student only, so it is removed from
+ * every other student it was linked to.
+ *
+ * @param students - All student profiles
+ * @param studentId - The student to link the profiles to
+ * @param profileIds - The child profile IDs
+ * @returns The student profiles that changed
+ */
+export function linkProfilesToStudent(
+    students: readonly StudentProfile[],
+    studentId: string,
+    profileIds: readonly string[]
+): StudentProfile[] {
+    const now = new Date().toISOString();
+    const linked = new Set(profileIds);
+    const changed: StudentProfile[] = [];
+
+    for (const student of students) {
+        if (student.id === studentId) {
+            changed.push({ ...student, linkedProfileIds: [...linked], updatedAt: now });
+            continue;
+        }
+
+        const remaining = student.linkedProfileIds.filter((id) => !linked.has(id));
+        if (remaining.length !== student.linkedProfileIds.length) {
+            changed.push({ ...student, linkedProfileIds: remaining, updatedAt: now });
+        }
+    }
+
+    return changed;
+}
+
+/**
+ * Remove a child profile from every student it is linked to.
+ *
+ * @param students - All student profiles
+ * @param profileId - The child profile ID
+ * @returns The student profiles that changed
+ */
+export function unlinkProfile(
+    students: readonly StudentProfile[],
+    profileId: string
+): StudentProfile[] {
+    const now = new Date().toISOString();
+    return students
+        .filter((student) => student.linkedProfileIds.includes(profileId))
+        .map((student) => ({
+            ...student,
+            linkedProfileIds: student.linkedProfileIds.filter((id) => id !== profileId),
+            updatedAt: now,
+        }));
+}
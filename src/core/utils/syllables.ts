@@ -0,0 +1,112 @@
+/**
+ * Syllable and word segmentation for the Mini Trainer Engine.
+ *
+ * Syllables exercises list their accepted segmentations with `|` marks
+ * ("Ba|na|ne"). The child marks boundaries between letters; a boundary
+ * is stored as the index of the letter after it, so "Ba|na|ne" has the
+ * boundaries 2 and 4.
+ *
+ * @example
+ * ```ts
+ * getSegmentBoundaries('Ba|na|ne'); // [2, 4]
+ * checkSegmentation([2, 4], ['Ba|na|ne']); // true
+ * ```
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Mark between two syllables or words in a segmentation.
+ */
+export const SEGMENT_MARK = '|';
+
+// ============================================================================
+// Segmentations
+// ============================================================================
+
+/**
+ * Get the syllables or words of a segmentation.
+ */
+export function parseSegmentation(segmentation: string): string[] {
+    return segmentation.split(SEGMENT_MARK);
+}
+
+/**
+ * Get the letters of a segmentation without the marks. Letters are split
+ * by code point, so umlauts and emoji count as one letter.
+ */
+export function getSegmentationLetters(segmentation: string): string[] {
+    return Array.from(segmentation.split(SEGMENT_MARK).join(''));
+}
+
+/**
+ * Get the boundaries of a segmentation: the index of the first letter of
+ * every syllable or word after the first.
+ */
+export function getSegmentBoundaries(segmentation: string): number[] {
+    const boundaries: number[] = [];
+    let position = 0;
+    for (const segment of parseSegmentation(segmentation).slice(0, -1)) {
+        position += Array.from(segment).length;
+        boundaries.push(position);
+    }
+    return boundaries;
+}
+
+/**
+ * Split letters into syllables or words at the given boundaries.
+ */
+export function splitAtBoundaries(letters: readonly string[], boundaries: readonly number[]): string[] {
+    const cuts = [...new Set(boundaries)]
+        .filter((boundary) => boundary > 0 && boundary < letters.length)
+        .sort((a, b) => a - b);
+    return [0, ...cuts].map((start, index) => letters.slice(start, cuts[index] ?? letters.length).join(''));
+}
+
+/**
+ * Set or remove the boundary before a letter.
+ *
+ * @returns The boundaries in order
+ */
+export function toggleBoundary(boundaries: readonly number[], boundary: number): number[] {
+    return boundaries.includes(boundary)
+        ? boundaries.filter((b) => b !== boundary)
+        : [...boundaries, boundary].sort((a, b) => a - b);
+}
+
+// ============================================================================
+// Checking
+// ============================================================================
+
+/**
+ * Find the accepted segmentation with the marked boundaries.
+ */
+export function findSegmentation(boundaries: readonly number[], segmentations: readonly string[]): string | undefined {
+    const marked = [...new Set(boundaries)].sort((a, b) => a - b).join(',');
+    return segmentations.find((segmentation) => getSegmentBoundaries(segmentation).join(',') === marked);
+}
+
+/**
+ * Find the first accepted segmentation with a counted number of
+ * syllables or words.
+ */
+export function findSegmentationByCount(count: number, segmentations: readonly string[]): string | undefined {
+    return segmentations.find((segmentation) => parseSegmentation(segmentation).length === count);
+}
+
+/**
+ * Check marked boundaries against the accepted segmentations.
+ */
+export function checkSegmentation(boundaries: readonly number[], segmentations: readonly string[]): boolean {
+    return findSegmentation(boundaries, segmentations) !== undefined;
+}
+
+/**
+ * Check a counted number of syllables or words against the accepted
+ * segmentations.
+ */
+export function checkSegmentCount(count: number, segmentations: readonly string[]): boolean {
+    return findSegmentationByCount(count, segmentations) !== undefined;
+}
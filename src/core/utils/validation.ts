@@ -14,7 +14,33 @@ import type {
     ObservationArea,
     Theme,
     ExerciseType,
+    ExerciseAudio,
+    ExerciseImage,
+    ExerciseTemplate,
+    HotspotRegion,
 } from '@/types';
+import {
+    DEFAULT_CLOCK_MINUTE_STEP,
+    MAX_MEMORY_PAIRS,
+    parseClockTime,
+    parseClozeText,
+    validateClockAnswer,
+} from './exercise';
+import { isAppAssetSrc } from './assets';
+import { generateCrossword, isCrosswordWord, normalizeCrosswordWord } from './crossword';
+import { createColumnCalculation, parseArithmeticNumber } from './arithmetic';
+import { isSvgPathData, MAX_DRAWING_SIZE } from './drawing';
+import { getSegmentationLetters, parseSegmentation } from './syllables';
+import {
+    getNotationNotes,
+    getStaffStep,
+    MAX_STAFF_STEP,
+    MIN_STAFF_STEP,
+    parseNotation,
+    type NotationNote,
+} from './music';
+import { collectExpressionIdentifiers, parseBadgeExpression } from './badgeExpression';
+import { expandExerciseTemplate, getTemplatePlaceholders, TEMPLATE_ANSWER_NAME } from './exerciseTemplate';
 
 // ============================================================================
 // Validation Result Helpers
@@ -309,13 +335,35 @@ export function validateExercise(exercise: unknown): ValidationResult {
         };
     }
 
-    const ex = exercise as Exercise;
+    // Templates are checked on an expansion with a fixed seed
+    let ex = exercise as Exercise;
+    if (ex.template !== undefined) {
+        errors.push(...validateTemplate(ex.template));
+        if (errors.length > 0) {
+            return { valid: false, errors, warnings };
+        }
+        const expanded = ex.content && Array.isArray(ex.hints) ? expandExerciseTemplate(ex, 0) : null;
+        if (!expanded) {
+            errors.push(createError('UNSATISFIABLE_TEMPLATE', 'No draw of the template variables meets the constraints', 'template'));
+            return { valid: false, errors, warnings };
+        }
+        for (const name of new Set(getTemplatePlaceholders(JSON.stringify(expanded)))) {
+            errors.push(createError('UNKNOWN_TEMPLATE_PLACEHOLDER', `Placeholder {${name}} is not a variable or formula`, 'template'));
+        }
+        ex = expanded;
+    }
 
     // Required fields
     if (!ex.id) errors.push(createError('MISSING_ID', 'Exercise ID is required', 'id'));
     if (!ex.type) errors.push(createError('MISSING_TYPE', 'Exercise type is required', 'type'));
     if (!ex.areaId) errors.push(createError('MISSING_AREA_ID', 'Area ID is required', 'areaId'));
     if (!ex.instruction) warnings.push(createWarning('MISSING_INSTRUCTION', 'Instruction is recommended', 'instruction'));
+    if (ex.expectedTimeSeconds !== undefined && !(typeof ex.expectedTimeSeconds === 'number' && ex.expectedTimeSeconds > 0)) {
+        errors.push(createError('INVALID_EXPECTED_TIME', 'Expected time must be a positive number of seconds', 'expectedTimeSeconds'));
+    }
+    if (ex.audio !== undefined && !isValidAudio(ex.audio)) {
+        errors.push(createError('INVALID_AUDIO', 'Audio needs a file (src) or a text to speak', 'audio'));
+    }
 
     // Content validation
     if (!ex.content) {
@@ -336,6 +384,7 @@ export function validateExercise(exercise: unknown): ValidationResult {
                 if (typeof mc.correctIndex !== 'number' || mc.correctIndex < 0 || mc.correctIndex >= mc.options.length) {
                     errors.push(createError('INVALID_CORRECT_INDEX', 'Correct index is out of range', 'content.correctIndex'));
                 }
+                validateImageMap(mc.images, mc.options ?? [], errors);
                 break;
             }
             case 'fill-blank': {
@@ -353,6 +402,362 @@ export function validateExercise(exercise: unknown): ValidationResult {
                 if (!Array.isArray(m.pairs) || m.pairs.length < 2) {
                     errors.push(createError('INVALID_PAIRS', 'Matching must have at least 2 pairs', 'content.pairs'));
                 }
+                validateImageMap(m.images, (m.pairs ?? []).flatMap((pair) => [pair.left, pair.right]), errors);
+                break;
+            }
+            case 'sorting': {
+                const so = ex.content;
+                validateImageMap(so.images, (so.categories ?? []).flatMap((category) => category.items ?? []), errors);
+                break;
+            }
+            case 'picture-vocabulary': {
+                const pv = ex.content;
+                if (pv.image !== undefined) {
+                    validateImage(pv.image, 'content.image', errors);
+                } else if (!pv.picture) {
+                    errors.push(createError('MISSING_PICTURE', 'Picture vocabulary needs an image or an emoji picture', 'content.picture'));
+                } else if (!pv.pictureAlt?.trim()) {
+                    errors.push(createError('MISSING_ALT_TEXT', 'Picture needs a description for screen readers', 'content.pictureAlt'));
+                }
+                break;
+            }
+            case 'cloze-text': {
+                const ct = ex.content;
+                if (!Array.isArray(ct.blanks) || ct.blanks.length === 0) {
+                    errors.push(createError('INVALID_BLANKS', 'Cloze text must have at least 1 blank', 'content.blanks'));
+                    break;
+                }
+                const placeholderIds = new Set(parseClozeText(ct.text ?? '')
+                    .flatMap((segment) => (segment.kind === 'blank' ? [segment.blankId] : [])));
+                const blankIds = new Set<number>();
+                ct.blanks.forEach((blank, index) => {
+                    const path = `content.blanks[${index}]`;
+                    if (blankIds.has(blank.id)) {
+                        errors.push(createError('DUPLICATE_BLANK_ID', `Duplicate blank number: ${blank.id}`, `${path}.id`));
+                    }
+                    blankIds.add(blank.id);
+                    if (!placeholderIds.has(blank.id)) {
+                        errors.push(createError('MISSING_BLANK_PLACEHOLDER', `Text has no {{${blank.id}}} placeholder`, 'content.text'));
+                    }
+                    if (!blank.correctAnswer) {
+                        errors.push(createError('MISSING_CORRECT_ANSWER', 'Correct answer is required', `${path}.correctAnswer`));
+                    }
+                    if (blank.options !== undefined && !blank.options.includes(blank.correctAnswer)) {
+                        errors.push(createError('INVALID_BLANK_OPTIONS', 'Dropdown options must contain the correct answer', `${path}.options`));
+                    }
+                });
+                placeholderIds.forEach((id) => {
+                    if (!blankIds.has(id)) {
+                        errors.push(createError('UNKNOWN_BLANK', `Placeholder {{${id}}} has no blank definition`, 'content.text'));
+                    }
+                });
+                if (ct.passRatio !== undefined && !(ct.passRatio > 0 && ct.passRatio <= 1)) {
+                    errors.push(createError('INVALID_PASS_RATIO', 'Pass ratio must be between 0 and 1', 'content.passRatio'));
+                }
+                break;
+            }
+            case 'number-line': {
+                const nl = ex.content;
+                if (nl.mode !== 'place' && nl.mode !== 'read') {
+                    errors.push(createError('INVALID_NUMBER_LINE_MODE', 'Mode must be "place" or "read"', 'content.mode'));
+                }
+                if (typeof nl.min !== 'number' || typeof nl.max !== 'number' || nl.min >= nl.max) {
+                    errors.push(createError('INVALID_NUMBER_LINE_RANGE', 'Minimum must be less than maximum', 'content.max'));
+                    break;
+                }
+                if (typeof nl.tickInterval !== 'number' || nl.tickInterval <= 0) {
+                    errors.push(createError('INVALID_TICK_INTERVAL', 'Tick interval must be greater than 0', 'content.tickInterval'));
+                }
+                if (nl.step !== undefined && !(nl.step > 0)) {
+                    errors.push(createError('INVALID_STEP', 'Step must be greater than 0', 'content.step'));
+                }
+                if (typeof nl.target !== 'number' || nl.target < nl.min || nl.target > nl.max) {
+                    errors.push(createError('TARGET_OUT_OF_RANGE', 'Target must lie between minimum and maximum', 'content.target'));
+                }
+                if (nl.tolerance !== undefined && !(nl.tolerance >= 0)) {
+                    errors.push(createError('INVALID_TOLERANCE', 'Tolerance must not be negative', 'content.tolerance'));
+                }
+                nl.labeledTicks?.forEach((tick, index) => {
+                    if (tick < nl.min || tick > nl.max) {
+                        errors.push(createError('LABEL_OUT_OF_RANGE', `Labelled tick ${tick} lies outside the line`, `content.labeledTicks[${index}]`));
+                    }
+                });
+                break;
+            }
+            case 'clock': {
+                const cl = ex.content;
+                if (cl.mode !== 'read' && cl.mode !== 'set') {
+                    errors.push(createError('INVALID_CLOCK_MODE', 'Mode must be "read" or "set"', 'content.mode'));
+                }
+                const target = parseClockTime(cl.time ?? '');
+                if (target === null) {
+                    errors.push(createError('INVALID_CLOCK_TIME', 'Time must be given as H:MM (0:00-23:59)', 'content.time'));
+                }
+                if (cl.answerFormat !== undefined && cl.answerFormat !== '12h' && cl.answerFormat !== '24h') {
+                    errors.push(createError('INVALID_ANSWER_FORMAT', 'Answer format must be "12h" or "24h"', 'content.answerFormat'));
+                }
+                const minuteStep = cl.minuteStep ?? DEFAULT_CLOCK_MINUTE_STEP;
+                if (!(minuteStep > 0 && 60 % minuteStep === 0)) {
+                    errors.push(createError('INVALID_MINUTE_STEP', 'Minute step must divide 60', 'content.minuteStep'));
+                } else if (cl.mode === 'set' && target !== null && target % minuteStep !== 0) {
+                    errors.push(createError('TIME_NOT_ON_STEP', 'Time cannot be set with the minute step', 'content.time'));
+                }
+                if (cl.options !== undefined) {
+                    if (cl.options.some((option) => parseClockTime(option) === null)) {
+                        errors.push(createError('INVALID_CLOCK_OPTIONS', 'Options must be times given as H:MM', 'content.options'));
+                    } else if (!cl.options.some((option) => validateClockAnswer(cl, parseClockTime(option)))) {
+                        errors.push(createError('INVALID_CLOCK_OPTIONS', 'Options must contain the correct time', 'content.options'));
+                    }
+                }
+                break;
+            }
+            case 'listening': {
+                const li = ex.content;
+                if (!isValidAudio(li.audio)) {
+                    errors.push(createError('INVALID_AUDIO', 'Audio needs a file (src) or a text to speak', 'content.audio'));
+                }
+                if (!Array.isArray(li.options) || li.options.length < 2) {
+                    errors.push(createError('INVALID_OPTIONS', 'Listening exercise must have at least 2 options', 'content.options'));
+                } else if (typeof li.correctIndex !== 'number' || li.correctIndex < 0 || li.correctIndex >= li.options.length) {
+                    errors.push(createError('INVALID_CORRECT_INDEX', 'Correct index is out of range', 'content.correctIndex'));
+                }
+                break;
+            }
+            case 'hotspot': {
+                const hs = ex.content;
+                validateImage(hs.image, 'content.image', errors);
+                if (!(hs.width > 0) || !(hs.height > 0)) {
+                    errors.push(createError('INVALID_HOTSPOT_SIZE', 'Width and height must be greater than 0', 'content.width'));
+                }
+                if (!Array.isArray(hs.regions) || hs.regions.length < 2) {
+                    errors.push(createError('INVALID_REGIONS', 'Hotspot must have at least 2 regions', 'content.regions'));
+                    break;
+                }
+                const regionIds = new Set<string>();
+                hs.regions.forEach((region, index) => {
+                    const path = `content.regions[${index}]`;
+                    if (!region.id || regionIds.has(region.id)) {
+                        errors.push(createError('DUPLICATE_REGION_ID', `Region id must be unique: ${region.id}`, `${path}.id`));
+                    }
+                    regionIds.add(region.id);
+                    if (!region.label?.trim()) {
+                        errors.push(createError('MISSING_REGION_LABEL', 'Region needs a label for screen readers', `${path}.label`));
+                    }
+                    if (!isValidHotspotShape(region)) {
+                        errors.push(createError('INVALID_REGION_SHAPE', 'Region must be a circle (cx, cy, r > 0) or a polygon with at least 3 points', path));
+                    }
+                });
+                if (!Array.isArray(hs.correctRegionIds) || hs.correctRegionIds.length === 0) {
+                    errors.push(createError('INVALID_CORRECT_REGIONS', 'At least one correct region is required', 'content.correctRegionIds'));
+                } else {
+                    hs.correctRegionIds.forEach((id, index) => {
+                        if (!regionIds.has(id)) {
+                            errors.push(createError('INVALID_CORRECT_REGIONS', `There is no region "${id}"`, `content.correctRegionIds[${index}]`));
+                        }
+                    });
+                }
+                break;
+            }
+            case 'sequence': {
+                const sq = ex.content;
+                if (!Array.isArray(sq.correctOrder) || sq.correctOrder.length < 2) {
+                    errors.push(createError('INVALID_SEQUENCE', 'Sequence must have at least 2 cards', 'content.correctOrder'));
+                    break;
+                }
+                if (sq.correctOrder.some((item) => typeof item !== 'string' || item.trim() === '')) {
+                    errors.push(createError('INVALID_SEQUENCE', 'Cards must not be empty', 'content.correctOrder'));
+                }
+                if (new Set(sq.correctOrder).size !== sq.correctOrder.length) {
+                    errors.push(createError('DUPLICATE_SEQUENCE_ITEM', 'Each card must be unique', 'content.correctOrder'));
+                }
+                const sortedCards = [...sq.correctOrder].sort().join('\n');
+                sq.alternateOrders?.forEach((order, index) => {
+                    if (!Array.isArray(order) || [...order].sort().join('\n') !== sortedCards) {
+                        errors.push(createError('INVALID_ALTERNATE_ORDER', 'Alternate orders must contain the same cards', `content.alternateOrders[${index}]`));
+                    }
+                });
+                if (sq.passRatio !== undefined && !(sq.passRatio > 0 && sq.passRatio <= 1)) {
+                    errors.push(createError('INVALID_PASS_RATIO', 'Pass ratio must be between 0 and 1', 'content.passRatio'));
+                }
+                validateImageMap(sq.images, sq.correctOrder, errors);
+                break;
+            }
+            case 'memory': {
+                const me = ex.content;
+                if (!Array.isArray(me.pairs) || me.pairs.length < 2) {
+                    errors.push(createError('INVALID_PAIRS', 'Memory must have at least 2 pairs', 'content.pairs'));
+                    break;
+                }
+                if (me.pairs.length > MAX_MEMORY_PAIRS) {
+                    errors.push(createError('TOO_MANY_PAIRS', `Memory can have at most ${MAX_MEMORY_PAIRS} pairs`, 'content.pairs'));
+                }
+                // A card text may only appear in one pair, otherwise the pairs cannot be told apart
+                const pairOfText = new Map<string, number>();
+                me.pairs.forEach((pair, index) => {
+                    if (!pair.left?.trim() || !pair.right?.trim()) {
+                        errors.push(createError('INVALID_PAIRS', 'Pair must have left and right', `content.pairs[${index}]`));
+                        return;
+                    }
+                    for (const text of [pair.left, pair.right]) {
+                        const other = pairOfText.get(text);
+                        if (other !== undefined && other !== index) {
+                            errors.push(createError('DUPLICATE_MEMORY_CARD', `"${text}" is used in more than one pair`, `content.pairs[${index}]`));
+                        }
+                        pairOfText.set(text, index);
+                    }
+                });
+                validateImageMap(me.images, me.pairs.flatMap((pair) => [pair.left, pair.right]), errors);
+                break;
+            }
+            case 'crossword': {
+                const cw = ex.content;
+                if (!Array.isArray(cw.words) || cw.words.length < 2) {
+                    errors.push(createError('INVALID_WORDS', 'Crossword must have at least 2 words', 'content.words'));
+                    break;
+                }
+                const answers = new Set<string>();
+                let wordsValid = true;
+                cw.words.forEach((entry, index) => {
+                    if (typeof entry.word !== 'string' || !isCrosswordWord(entry.word)) {
+                        errors.push(createError('INVALID_CROSSWORD_WORD', 'Word must be a single word of letters', `content.words[${index}].word`));
+                        wordsValid = false;
+                        return;
+                    }
+                    const answer = normalizeCrosswordWord(entry.word).join('');
+                    if (answers.has(answer)) {
+                        errors.push(createError('DUPLICATE_CROSSWORD_WORD', `"${entry.word}" is used more than once`, `content.words[${index}].word`));
+                    }
+                    answers.add(answer);
+                    if (typeof entry.clue !== 'string' || entry.clue.trim() === '') {
+                        errors.push(createError('MISSING_CLUE', 'Word needs a clue', `content.words[${index}].clue`));
+                    }
+                });
+                if (cw.seed !== undefined && !Number.isInteger(cw.seed)) {
+                    errors.push(createError('INVALID_SEED', 'Seed must be a whole number', 'content.seed'));
+                }
+                // Every word must fit into the grid with the given seed
+                if (wordsValid) {
+                    generateCrossword(cw.words, cw.seed).unplaced.forEach((index) => {
+                        errors.push(createError('UNPLACED_CROSSWORD_WORD', 'Word does not cross the other words; add words with shared letters or try another seed', `content.words[${index}].word`));
+                    });
+                }
+                break;
+            }
+            case 'arithmetic': {
+                const ar = ex.content;
+                if (ar.mode === 'input') {
+                    if (typeof ar.question !== 'string' || ar.question.trim() === '') {
+                        errors.push(createError('MISSING_QUESTION', 'Question is required', 'content.question'));
+                    }
+                    if (typeof ar.answer !== 'string' || parseArithmeticNumber(ar.answer) === null) {
+                        errors.push(createError('INVALID_ANSWER', 'Answer must be a whole number, decimal or fraction', 'content.answer'));
+                    }
+                } else if (ar.mode === 'column') {
+                    if (ar.operation !== '+' && ar.operation !== '-') {
+                        errors.push(createError('INVALID_OPERATION', 'Operation must be "+" or "-"', 'content.operation'));
+                        break;
+                    }
+                    const operands = ar.operands;
+                    const maxOperands = ar.operation === '+' ? 4 : 2;
+                    if (!Array.isArray(operands)
+                        || operands.length < 2
+                        || operands.length > maxOperands
+                        || !operands.every((n) => Number.isInteger(n) && n >= 0 && n < 1e9)) {
+                        errors.push(createError('INVALID_OPERANDS', `Operands must be 2-${maxOperands} whole numbers from 0 to 999999999`, 'content.operands'));
+                        break;
+                    }
+                    if (createColumnCalculation(operands, ar.operation).result < 0) {
+                        errors.push(createError('NEGATIVE_RESULT', 'The first number must not be smaller than the second', 'content.operands'));
+                    }
+                } else {
+                    errors.push(createError('INVALID_ARITHMETIC_MODE', 'Mode must be "input" or "column"', 'content.mode'));
+                }
+                break;
+            }
+            case 'drawing': {
+                const dr = ex.content;
+                if (typeof dr.prompt !== 'string' || dr.prompt.trim() === '') {
+                    errors.push(createError('MISSING_PROMPT', 'Prompt is required', 'content.prompt'));
+                }
+                for (const side of ['width', 'height'] as const) {
+                    const size = dr[side];
+                    if (size !== undefined && (!Number.isInteger(size) || size <= 0 || size > MAX_DRAWING_SIZE)) {
+                        errors.push(createError('INVALID_SIZE', `${side} must be a whole number from 1 to ${MAX_DRAWING_SIZE}`, `content.${side}`));
+                    }
+                }
+                if (dr.colors !== undefined
+                    && (!Array.isArray(dr.colors) || !dr.colors.every((c) => typeof c === 'string' && c.trim() !== ''))) {
+                    errors.push(createError('INVALID_COLORS', 'Colors must be a list of color values', 'content.colors'));
+                }
+                if (dr.trace !== undefined && (typeof dr.trace !== 'string' || !isSvgPathData(dr.trace))) {
+                    errors.push(createError('INVALID_TRACE', 'Trace must be SVG path data (e.g. "M 10 10 L 90 90")', 'content.trace'));
+                }
+                break;
+            }
+            case 'note-reading': {
+                const nr = ex.content;
+                validateTempo(nr.tempo, errors);
+                if (nr.clef !== undefined && nr.clef !== 'treble' && nr.clef !== 'bass') {
+                    errors.push(createError('INVALID_CLEF', 'Clef must be "treble" or "bass"', 'content.clef'));
+                    break;
+                }
+                const notes = validateNotation(nr.notation, errors);
+                if (!notes) break;
+                if (!notes.some((note) => note.pitch)) {
+                    errors.push(createError('MISSING_NOTES', 'Notation needs at least one note to name', 'content.notation'));
+                }
+                if (notes.some((note) => note.kind === 'beat')) {
+                    errors.push(createError('INVALID_NOTATION', 'Note reading cannot use unpitched beats (x)', 'content.notation'));
+                }
+                const outside = notes.some((note) => {
+                    if (!note.pitch) return false;
+                    const step = getStaffStep(note.pitch, nr.clef);
+                    return step < MIN_STAFF_STEP || step > MAX_STAFF_STEP;
+                });
+                if (outside) {
+                    errors.push(createError('NOTE_OUT_OF_RANGE', 'Notes must be at most three ledger lines below or above the staff', 'content.notation'));
+                }
+                break;
+            }
+            case 'rhythm': {
+                const rh = ex.content;
+                validateTempo(rh.tempo, errors);
+                const notes = validateNotation(rh.notation, errors);
+                if (notes && notes.filter((note) => note.kind !== 'rest').length < 2) {
+                    errors.push(createError('MISSING_NOTES', 'Rhythm needs at least 2 beats to tap', 'content.notation'));
+                }
+                if (rh.tolerance !== undefined
+                    && !(typeof rh.tolerance === 'number' && rh.tolerance >= 50 && rh.tolerance <= 500)) {
+                    errors.push(createError('INVALID_TOLERANCE', 'Tolerance must be from 50 to 500 ms', 'content.tolerance'));
+                }
+                if (rh.minAccuracy !== undefined
+                    && !(typeof rh.minAccuracy === 'number' && rh.minAccuracy > 0 && rh.minAccuracy <= 1)) {
+                    errors.push(createError('INVALID_MIN_ACCURACY', 'Minimum accuracy must be greater than 0 and at most 1', 'content.minAccuracy'));
+                }
+                break;
+            }
+            case 'syllables': {
+                const sy = ex.content;
+                if (sy.mode !== undefined && sy.mode !== 'split' && sy.mode !== 'count') {
+                    errors.push(createError('INVALID_MODE', 'Mode must be "split" or "count"', 'content.mode'));
+                }
+                if (sy.unit !== undefined && sy.unit !== 'syllable' && sy.unit !== 'word') {
+                    errors.push(createError('INVALID_UNIT', 'Unit must be "syllable" or "word"', 'content.unit'));
+                }
+                if (!Array.isArray(sy.segmentations) || sy.segmentations.length === 0) {
+                    errors.push(createError('MISSING_SEGMENTATIONS', 'At least one segmentation is required', 'content.segmentations'));
+                    break;
+                }
+                const text = typeof sy.segmentations[0] === 'string' ? getSegmentationLetters(sy.segmentations[0]).join('') : '';
+                sy.segmentations.forEach((segmentation, index) => {
+                    const path = `content.segmentations[${index}]`;
+                    if (typeof segmentation !== 'string'
+                        || !parseSegmentation(segmentation).every((segment) => /^\S+$/.test(segment))) {
+                        errors.push(createError('INVALID_SEGMENTATION', 'Segmentation must be letters with "|" between the parts (e.g. "Ba|na|ne")', path));
+                    } else if (getSegmentationLetters(segmentation).join('') !== text) {
+                        errors.push(createError('SEGMENTATION_MISMATCH', 'All segmentations must split the same text', path));
+                    }
+                });
                 break;
             }
             // Add more type-specific validation as needed
@@ -366,6 +771,60 @@ export function validateExercise(exercise: unknown): ValidationResult {
     };
 }
 
+/**
+ * Validate the variables and expressions of an exercise template.
+ */
+function validateTemplate(template: ExerciseTemplate): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (!template.variables || typeof template.variables !== 'object' || Object.keys(template.variables).length === 0) {
+        return [createError('MISSING_TEMPLATE_VARIABLES', 'Template needs at least one variable', 'template.variables')];
+    }
+
+    const known = new Set<string>();
+    for (const [name, variable] of Object.entries(template.variables)) {
+        const path = `template.variables.${name}`;
+        if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+            errors.push(createError('INVALID_TEMPLATE_VARIABLE', `Variable name "${name}" must be a word`, path));
+        }
+        if (typeof variable?.min !== 'number' || typeof variable.max !== 'number' || variable.min > variable.max) {
+            errors.push(createError('INVALID_TEMPLATE_RANGE', `Variable ${name} needs a minimum not greater than its maximum`, path));
+        }
+        if (variable?.step !== undefined && !(typeof variable.step === 'number' && variable.step > 0)) {
+            errors.push(createError('INVALID_STEP', 'Step must be greater than 0', `${path}.step`));
+        }
+        known.add(name);
+    }
+
+    // Formulas may use the variables and the formulas before them
+    const checkExpression = (expression: string, path: string) => {
+        try {
+            for (const name of collectExpressionIdentifiers(parseBadgeExpression(expression), new Set())) {
+                if (!known.has(name)) {
+                    errors.push(createError('UNKNOWN_TEMPLATE_IDENTIFIER', `Unknown variable '${name}' in "${expression}"`, path));
+                }
+            }
+        } catch (err) {
+            errors.push(createError('INVALID_TEMPLATE_EXPRESSION', `${(err as Error).message} in "${expression}"`, path));
+        }
+    };
+    for (const [name, expression] of Object.entries(template.formulas ?? {})) {
+        checkExpression(expression, `template.formulas.${name}`);
+        known.add(name);
+    }
+    (template.constraints ?? []).forEach((expression, index) => checkExpression(expression, `template.constraints[${index}]`));
+    (template.distractors ?? []).forEach((expression, index) => checkExpression(expression, `template.distractors[${index}]`));
+
+    if (template.distractors && !known.has(TEMPLATE_ANSWER_NAME)) {
+        errors.push(createError('MISSING_TEMPLATE_ANSWER', `Distractors need an "${TEMPLATE_ANSWER_NAME}" formula`, 'template.formulas'));
+    }
+    if (template.seed !== undefined && !Number.isInteger(template.seed)) {
+        errors.push(createError('INVALID_TEMPLATE_SEED', 'Seed must be a whole number', 'template.seed'));
+    }
+
+    return errors;
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -385,10 +844,118 @@ export function isValidExerciseType(type: unknown): type is ExerciseType {
         'connector-insert',
         'word-order',
         'picture-vocabulary',
+        'cloze-text',
+        'number-line',
+        'clock',
+        'listening',
+        'hotspot',
+        'sequence',
+        'memory',
+        'crossword',
+        'arithmetic',
+        'drawing',
+        'note-reading',
+        'rhythm',
+        'syllables',
     ];
     return typeof type === 'string' && validTypes.includes(type as ExerciseType);
 }
 
+/**
+ * Check if a value is valid exercise audio (a file, a text to speak, or both).
+ */
+export function isValidAudio(audio: unknown): audio is ExerciseAudio {
+    if (!audio || typeof audio !== 'object') return false;
+    const { src, text } = audio as ExerciseAudio;
+    return (typeof src === 'string' && src.trim() !== '') || (typeof text === 'string' && text.trim() !== '');
+}
+
+/**
+ * Check if a value is a valid exercise picture: a file in the app's
+ * assets folder with alt text.
+ */
+export function isValidImage(image: unknown): image is ExerciseImage {
+    if (!image || typeof image !== 'object') return false;
+    const { src, alt } = image as ExerciseImage;
+    return typeof src === 'string' && isAppAssetSrc(src) && typeof alt === 'string' && alt.trim() !== '';
+}
+
+/**
+ * Validate a picture, reporting a missing file path and missing alt text separately.
+ */
+function validateImage(image: unknown, path: string, errors: ValidationError[]): void {
+    const { src, alt } = (image && typeof image === 'object' ? image : {}) as Partial<ExerciseImage>;
+    if (typeof src !== 'string' || !isAppAssetSrc(src)) {
+        errors.push(createError('INVALID_IMAGE', 'Picture must be a file in the app\'s assets folder (assets/...)', `${path}.src`));
+    }
+    if (typeof alt !== 'string' || alt.trim() === '') {
+        errors.push(createError('MISSING_ALT_TEXT', 'Picture needs alt text for screen readers', `${path}.alt`));
+    }
+}
+
+/**
+ * Check the outline of a hotspot region: a circle with a positive radius
+ * or a polygon with at least 3 [x, y] points.
+ */
+function isValidHotspotShape(region: HotspotRegion): boolean {
+    if (region.shape === 'circle') {
+        return typeof region.cx === 'number' && typeof region.cy === 'number'
+            && typeof region.r === 'number' && region.r > 0;
+    }
+    if (region.shape === 'polygon') {
+        return Array.isArray(region.points) && region.points.length >= 3
+            && region.points.every((point) => Array.isArray(point) && point.length === 2
+                && point.every((n) => typeof n === 'number'));
+    }
+    return false;
+}
+
+/**
+ * Validate pictures keyed by option or item text: each key must be one of
+ * the texts and each picture must be valid.
+ */
+function validateImageMap(
+    images: Record<string, ExerciseImage> | undefined,
+    texts: string[],
+    errors: ValidationError[]
+): void {
+    if (images === undefined) return;
+    Object.entries(images).forEach(([key, image]) => {
+        const path = `content.images.${key}`;
+        if (!texts.includes(key)) {
+            errors.push(createError('UNKNOWN_IMAGE_KEY', `There is no option or item "${key}" for this picture`, path));
+        }
+        validateImage(image, path, errors);
+    });
+}
+
+/**
+ * Parse the notation of a music exercise, reporting why it cannot be read.
+ *
+ * @returns The notes, or null if the notation is not valid
+ */
+function validateNotation(notation: unknown, errors: ValidationError[]): NotationNote[] | null {
+    if (typeof notation !== 'string' || notation.trim() === '') {
+        errors.push(createError('MISSING_NOTATION', 'Notation is required', 'content.notation'));
+        return null;
+    }
+    try {
+        return getNotationNotes(parseNotation(notation));
+    } catch (err) {
+        errors.push(createError('INVALID_NOTATION', (err as Error).message, 'content.notation'));
+        return null;
+    }
+}
+
+/**
+ * Validate the tempo of a music exercise (quarter notes per minute).
+ */
+function validateTempo(tempo: unknown, errors: ValidationError[]): void {
+    if (tempo !== undefined && !(typeof tempo === 'number' && tempo >= 40 && tempo <= 200)) {
+        errors.push(createError('INVALID_TEMPO', 'Tempo must be from 40 to 200 beats per minute', 'content.tempo'));
+    }
+}
+
 /**
  * Check if a value is a valid difficulty level.
  */
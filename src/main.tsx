@@ -11,10 +11,19 @@ import '@core/i18n';
 import '@/index.css';
 import { createRouter } from '@core/router';
 import { ConfigProvider } from '@core/config';
+import { useAppStore } from '@core/stores/appStore';
+import type { TrainerConfig } from '@/types';
 
 // Create the router instance
 const router = createRouter();
 
+/**
+ * Apply the app's accessibility defaults once the configuration is loaded.
+ */
+function handleConfigLoaded(config: TrainerConfig): void {
+    useAppStore.getState().applyAccessibilityDefaults(config.accessibility);
+}
+
 // Get root element
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -24,7 +33,7 @@ if (!rootElement) {
 // Render the application
 createRoot(rootElement).render(
     <StrictMode>
-        <ConfigProvider>
+        <ConfigProvider onConfigLoaded={handleConfigLoaded}>
             <RouterProvider router={router} />
         </ConfigProvider>
     </StrictMode>
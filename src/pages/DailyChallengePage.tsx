@@ -3,83 +3,80 @@
  * 
  * Provides a daily challenge with 5 exercises from different themes.
  * The challenge is based on the current date for consistency.
- * Tracks completion and rewards bonus stars.
+ * The exercises are played in the regular exercise session; completion
+ * and the earned bonus stars are stored per profile in IndexedDB.
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { ROUTES } from '@core/router';
+import { useExercises } from '@core/config';
 import { useProfileStore, selectActiveProfile } from '@core/stores/profileStore';
+import { getDailyChallengeRecord } from '@core/storage';
+import {
+    getDailyChallengeExercises,
+    getDailyChallengeDateKey,
+    DAILY_CHALLENGE_THEME_ID,
+    DAILY_BONUS_THEME_ID,
+} from '@core/utils/dailyChallenge';
+import type { DailyChallengeRecord } from '@/types';
 
 export function DailyChallengePage() {
     const { t } = useTranslation();
     const navigate = useNavigate();
     const profile = useProfileStore(selectActiveProfile);
+    const allExercises = useExercises();
 
     // State
-    const [isCompleted, setIsCompleted] = useState(false);
-    const [todayCompleted, setTodayCompleted] = useState(false);
-    const [bonusCompleted, setBonusCompleted] = useState(false);
-    const [totalStars, setTotalStars] = useState(0);
-    const [bonusStars, setBonusStars] = useState(0);
-
-    // Daily challenge storage keys
-    const DAILY_KEY = 'daily-challenge';
-    const BONUS_KEY = 'bonus-challenge';
-
-    // Get today's date as a string
-    const today = useMemo(() => {
-        const now = new Date();
-        const year = now.getFullYear();
-        const month = String(now.getMonth() + 1).padStart(2, '0');
-        const day = String(now.getDate()).padStart(2, '0');
-        return `${year}-${month}-${day}`;
-    }, []);
-
-    // Check if today's challenge is completed
+    const [isLoading, setIsLoading] = useState(true);
+    const [dailyRecord, setDailyRecord] = useState<DailyChallengeRecord | null>(null);
+    const [bonusRecord, setBonusRecord] = useState<DailyChallengeRecord | null>(null);
+
+    // Today's date as storage key
+    const today = useMemo(() => getDailyChallengeDateKey(), []);
+
+    // Number of exercises in today's challenge (may be fewer than 5 for small exercise pools)
+    const exerciseCount = useMemo(
+        () => getDailyChallengeExercises(allExercises).length,
+        [allExercises]
+    );
+
+    const profileId = profile?.id;
+
+    // Load today's completion records for the active profile
     useEffect(() => {
-        const completed = localStorage.getItem(`${DAILY_KEY}-${today}`);
-        if (completed) {
-            setTodayCompleted(true);
-            setTotalStars(parseInt(completed, 10) || 0);
+        if (!profileId) {
+            setIsLoading(false);
+            return;
         }
 
-        // Check bonus
-        const bonus = localStorage.getItem(`${BONUS_KEY}-${today}`);
-        if (bonus) {
-            setBonusCompleted(true);
-            setBonusStars(parseInt(bonus, 10) || 0);
-        }
-    }, [today]);
-
-    // Handle daily challenge completion
-    const handleCompleteChallenge = useCallback((isBonus: boolean = false) => {
-        const stars = isBonus ? 3 : 5; // 5 stars for daily, 3 for bonus
-        const key = isBonus ? BONUS_KEY : DAILY_KEY;
-
-        // Save completion
-        localStorage.setItem(`${key}-${today}`, String(stars));
-
-        // Update profile stars
-        const profileStore = useProfileStore.getState();
-        profileStore.addStars(stars);
-        profileStore.incrementStreak();
-
-        if (isBonus) {
-            setBonusCompleted(true);
-            setBonusStars(stars);
-        } else {
-            setTodayCompleted(true);
-            setTotalStars(stars);
-        }
-        setIsCompleted(true);
-    }, [today]);
+        let cancelled = false;
+        const loadRecords = async () => {
+            try {
+                const [daily, bonus] = await Promise.all([
+                    getDailyChallengeRecord(profileId, today, 'daily'),
+                    getDailyChallengeRecord(profileId, today, 'bonus'),
+                ]);
+                if (!cancelled) {
+                    setDailyRecord(daily ?? null);
+                    setBonusRecord(bonus ?? null);
+                }
+            } catch (error) {
+                console.error('Failed to load daily challenge:', error);
+            } finally {
+                if (!cancelled) {
+                    setIsLoading(false);
+                }
+            }
+        };
 
-    // Start bonus challenge
-    const handleStartBonus = useCallback(() => {
-        handleCompleteChallenge(true);
-    }, [handleCompleteChallenge]);
+        setIsLoading(true);
+        loadRecords();
+        return () => {
+            cancelled = true;
+        };
+    }, [profileId, today]);
 
     // No profile
     if (!profile) {
@@ -101,8 +98,17 @@ export function DailyChallengePage() {
         );
     }
 
+    // Loading state
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <p className="text-gray-600">{t('common.loading', 'Wird geladen...')}</p>
+            </div>
+        );
+    }
+
     // Completed state (daily done)
-    if (todayCompleted && !isCompleted) {
+    if (dailyRecord) {
         return (
             <div className="min-h-screen bg-gray-50">
                 <header className="bg-white shadow-sm">
@@ -129,22 +135,28 @@ export function DailyChallengePage() {
                     <h2 className="text-2xl font-bold text-gray-800 mb-4">
                         {t('dailyChallenge.completed', 'Heute schon gemeistert!')}
                     </h2>
+                    <p className="text-gray-600 mb-2">
+                        {t('dailyChallenge.completedResult', '{{correct}} von {{total}} Übungen gelöst', {
+                            correct: dailyRecord.correctCount,
+                            total: dailyRecord.exerciseIds.length,
+                        })}
+                    </p>
                     <p className="text-gray-600 mb-8">
-                        {t('dailyChallenge.completedStars', 'Du hast heute {{stars}} Sterne verdient!', { stars: totalStars })}
+                        {t('dailyChallenge.completedStars', 'Du hast heute {{stars}} Sterne verdient!', { stars: dailyRecord.starsEarned })}
                     </p>
 
                     {/* Bonus Challenge */}
-                    {!bonusCompleted ? (
+                    {!bonusRecord ? (
                         <div className="bg-gradient-to-r from-orange-100 to-yellow-100 rounded-xl p-6 mb-8 max-w-md mx-auto">
                             <div className="text-4xl mb-3">⭐</div>
                             <h3 className="text-lg font-bold text-gray-800 mb-2">
                                 {t('dailyChallenge.bonusTitle', 'Bonus Challenge!')}
                             </h3>
                             <p className="text-gray-600 mb-4">
-                                {t('dailyChallenge.bonusDesc', 'Mache noch mehr Übungen für 3 Extra-Sterne!')}
+                                {t('dailyChallenge.bonusDesc', 'Noch mehr Übungen: Jede gelöste Übung bringt einen Extra-Stern!')}
                             </p>
                             <button
-                                onClick={handleStartBonus}
+                                onClick={() => navigate(ROUTES.EXERCISE(DAILY_BONUS_THEME_ID))}
                                 className="px-6 py-3 bg-orange-500 text-white rounded-lg font-semibold hover:bg-orange-600 transition-colors"
                             >
                                 {t('dailyChallenge.startBonus', 'Bonus starten')}
@@ -154,7 +166,7 @@ export function DailyChallengePage() {
                         <div className="bg-green-100 rounded-xl p-6 mb-8 max-w-md mx-auto">
                             <div className="text-4xl mb-3">🌟</div>
                             <p className="text-gray-700 font-semibold">
-                                {t('dailyChallenge.bonusCompleted', 'Bonus abgeschlossen! +{{stars}} Sterne', { stars: bonusStars })}
+                                {t('dailyChallenge.bonusCompleted', 'Bonus abgeschlossen! +{{stars}} Sterne', { stars: bonusRecord.starsEarned })}
                             </p>
                         </div>
                     )}
@@ -201,7 +213,7 @@ export function DailyChallengePage() {
                     {t('dailyChallenge.subtitle', 'Tägliche Herausforderung')}
                 </h2>
                 <p className="text-gray-600 mb-8 max-w-md mx-auto">
-                    {t('dailyChallenge.description', 'Stelle dich 5 Übungen aus verschiedenen Themen. Verdiene 5 Bonus-Sterne!')}
+                    {t('dailyChallenge.description', 'Stelle dich {{count}} Übungen aus verschiedenen Themen. Jede gelöste Übung bringt einen Bonus-Stern!', { count: exerciseCount })}
                 </p>
 
                 {/* Challenge info */}
@@ -209,11 +221,11 @@ export function DailyChallengePage() {
                     <div className="grid grid-cols-2 gap-4 text-left">
                         <div>
                             <div className="text-sm text-gray-500">{t('dailyChallenge.exercises', 'Übungen')}</div>
-                            <div className="text-xl font-semibold">5</div>
+                            <div className="text-xl font-semibold">{exerciseCount}</div>
                         </div>
                         <div>
                             <div className="text-sm text-gray-500">{t('dailyChallenge.bonus', 'Bonus-Sterne')}</div>
-                            <div className="text-xl font-semibold text-yellow-500">⭐ 5</div>
+                            <div className="text-xl font-semibold text-yellow-500">⭐ {exerciseCount}</div>
                         </div>
                         <div className="col-span-2">
                             <div className="text-sm text-gray-500">{t('dailyChallenge.date', 'Datum')}</div>
@@ -224,8 +236,9 @@ export function DailyChallengePage() {
 
                 <div className="flex flex-col sm:flex-row gap-4 justify-center">
                     <button
-                        onClick={() => navigate(ROUTES.EXERCISE('daily'))}
-                        className="px-8 py-3 bg-blue-500 text-white text-lg font-semibold rounded-lg hover:bg-blue-600 transition-colors"
+                        onClick={() => navigate(ROUTES.EXERCISE(DAILY_CHALLENGE_THEME_ID))}
+                        disabled={exerciseCount === 0}
+                        className="px-8 py-3 bg-blue-500 text-white text-lg font-semibold rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                     >
                         {t('dailyChallenge.start', 'Jetzt starten')}
                     </button>
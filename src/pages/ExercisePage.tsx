@@ -30,6 +30,9 @@ export function ExercisePage() {
         levelFailed,
         hasAnswered,
         answer,
+        maxAttempts,
+        hintsEnabled,
+        shuffleSeed,
         notifications,
         handleSubmit,
         handleNext,
@@ -68,6 +71,9 @@ export function ExercisePage() {
             levelFailed={levelFailed}
             hasAnswered={hasAnswered}
             answer={answer}
+            maxAttempts={maxAttempts}
+            hintsEnabled={hintsEnabled}
+            shuffleSeed={shuffleSeed}
             notifications={notifications}
             onSubmit={handleSubmit}
             onShowSolution={handleShowSolution}
@@ -12,7 +12,7 @@ import { ROUTES } from '@core/router';
 import { useProfileStore, selectActiveProfile, selectTotalStars, selectCurrentStreak, selectThemeLevels } from '@core/stores/profileStore';
 import { ProfileCreation } from '@core/components/profile';
 import { Modal } from '@core/components/ui';
-import { useThemes, useAppConfig } from '@core/config';
+import { useThemes, useAppConfig, useLevelProgression } from '@core/config';
 import { calculateGlobalLevel } from '@core/utils/gamification';
 import { parseSaveGameFile, validateSaveGame, type SaveGamePayload } from '@core/stores/profilePersistence';
 
@@ -38,6 +38,7 @@ function Dashboard() {
     const themeLevels = useProfileStore(selectThemeLevels);
     const exportSaveGame = useProfileStore((state) => state.exportSaveGame);
     const importSaveGameFromStore = useProfileStore((state) => state.importSaveGame);
+    const applyPlacement = useProfileStore((state) => state.applyPlacement);
     const [isSaving, setIsSaving] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [showLoadDialog, setShowLoadDialog] = useState(false);
@@ -53,8 +54,15 @@ function Dashboard() {
 
     // Get all themes for global level calculation
     const themes = useThemes();
+    const levelProgression = useLevelProgression();
     const allThemeIds = themes.map(t => t.id);
-    const globalLevel = calculateGlobalLevel(themeLevels, allThemeIds);
+    const globalLevel = calculateGlobalLevel(themeLevels, allThemeIds, levelProgression);
+
+    // Offer the placement test to profiles that have not started yet
+    const showPlacementOffer = !!profile
+        && !profile.placementCompletedAt
+        && totalStars === 0
+        && Object.keys(themeLevels).length === 0;
 
     const fireCount = getFireCount(currentStreak);
     const fires = '🔥'.repeat(fireCount);
@@ -207,6 +215,32 @@ function Dashboard() {
                 </p>
             )}
 
+            {/* Placement Test Offer */}
+            {showPlacementOffer && (
+                <div className="w-full max-w-sm mb-6 p-4 rounded-xl bg-blue-50 border border-blue-200 text-center">
+                    <p className="font-semibold text-gray-900 mb-1">
+                        {t('placement.offerTitle', 'Kannst du schon viel?')}
+                    </p>
+                    <p className="text-sm text-gray-600 mb-3">
+                        {t('placement.offerDescription', 'Mach den Einstufungstest und überspringe, was du schon kannst.')}
+                    </p>
+                    <div className="flex gap-3 justify-center">
+                        <button
+                            onClick={() => navigate(ROUTES.PLACEMENT)}
+                            className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2"
+                        >
+                            {t('placement.start', 'Test starten')}
+                        </button>
+                        <button
+                            onClick={() => applyPlacement({}, {})}
+                            className="py-2 px-4 bg-gray-100 text-gray-700 rounded-lg font-medium hover:bg-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+                        >
+                            {t('placement.skip', 'Überspringen')}
+                        </button>
+                    </div>
+                </div>
+            )}
+
             {/* Action Buttons */}
             <div className="grid gap-4 w-full max-w-sm">
                 <button
@@ -224,6 +258,13 @@ function Dashboard() {
                     {t('dashboard.dailyChallenge', 'Daily Challenge')}
                 </button>
 
+                <button
+                    onClick={() => navigate(ROUTES.REVIEW)}
+                    className="w-full py-3 px-4 bg-teal-600 text-white rounded-lg font-medium hover:bg-teal-700 transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2"
+                >
+                    {t('dashboard.review', 'Wiederholen')}
+                </button>
+
                 <button
                     onClick={() => navigate(ROUTES.PROGRESS)}
                     className="w-full py-3 px-4 bg-purple-600 text-white rounded-lg font-medium hover:bg-purple-700 transition-colors focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
@@ -9,13 +9,13 @@ import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useMemo, useEffect, useState, useCallback } from 'react';
 import { LevelCard } from '@core/components/level';
-import { useTheme, useExercisesByTheme, useThemes } from '@core/config';
+import { useTheme, useExercisesByTheme, useThemes, useLevelProgression } from '@core/config';
 import {
     useProfileStore,
     selectActiveProfile,
     selectThemeLevels,
 } from '@core/stores/profileStore';
-import { isLevelAccessible, getAccessibleLevelForTheme } from '@core/utils/gamification';
+import { isLevelAccessible, getAccessibleLevelForTheme, getLevelNumbers } from '@core/utils/gamification';
 import { ROUTES } from '@core/router';
 import { getExerciseResultsByTheme } from '@core/storage';
 import type { Exercise, ExerciseResult } from '@/types';
@@ -25,14 +25,15 @@ import type { Exercise, ExerciseResult } from '@/types';
 // ============================================================================
 
 /**
- * Count exercises per level (1-4).
+ * Count exercises per level (1 to levelCount).
  */
-function countExercisesPerLevel(exercises: Exercise[]): Record<number, number> {
-    const counts: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0 };
+function countExercisesPerLevel(exercises: Exercise[], levelNumbers: number[]): Record<number, number> {
+    const counts: Record<number, number> = Object.fromEntries(levelNumbers.map((level) => [level, 0]));
+    const levelCount = levelNumbers.length;
 
     for (const exercise of exercises) {
         const level = exercise.level;
-        if (level >= 1 && level <= 4) {
+        if (level >= 1 && level <= levelCount) {
             counts[level] = (counts[level] ?? 0) + 1;
         }
     }
@@ -45,14 +46,16 @@ function countExercisesPerLevel(exercises: Exercise[]): Record<number, number> {
  */
 function countCompletedPerLevel(
     exercises: Exercise[],
-    completedExerciseIds: Set<string>
+    completedExerciseIds: Set<string>,
+    levelNumbers: number[]
 ): Record<number, number> {
-    const counts: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0 };
+    const counts: Record<number, number> = Object.fromEntries(levelNumbers.map((level) => [level, 0]));
+    const levelCount = levelNumbers.length;
 
     for (const exercise of exercises) {
         if (completedExerciseIds.has(exercise.id)) {
             const level = exercise.level;
-            if (level >= 1 && level <= 4) {
+            if (level >= 1 && level <= levelCount) {
                 counts[level] = (counts[level] ?? 0) + 1;
             }
         }
@@ -67,7 +70,7 @@ function countCompletedPerLevel(
 
 /**
  * Level selection page.
- * Shows 4 difficulty levels with exercise counts and completion status.
+ * Shows the configured difficulty levels with exercise counts and completion status.
  */
 export function LevelSelectPage() {
     const { themeId } = useParams<{ themeId: string }>();
@@ -85,8 +88,10 @@ export function LevelSelectPage() {
     const themeLevels = useProfileStore(selectThemeLevels);
 
     // Calculate accessible level for this theme
+    const levelProgression = useLevelProgression();
+    const levelNumbers = useMemo(() => getLevelNumbers(levelProgression), [levelProgression]);
     const allThemeIds = allThemes.map(t => t.id);
-    const accessibleLevel = getAccessibleLevelForTheme(themeId ?? '', themeLevels, allThemeIds);
+    const accessibleLevel = getAccessibleLevelForTheme(themeId ?? '', themeLevels, allThemeIds, levelProgression);
 
     // Get completed exercise IDs from IndexedDB
     const [completedExerciseIds, setCompletedExerciseIds] = useState<Set<string>>(new Set());
@@ -119,20 +124,20 @@ export function LevelSelectPage() {
 
     // Count exercises per level
     const exerciseCounts = useMemo(
-        () => countExercisesPerLevel(exercises),
-        [exercises]
+        () => countExercisesPerLevel(exercises, levelNumbers),
+        [exercises, levelNumbers]
     );
 
     // Count completed per level
     const completedCounts = useMemo(
-        () => countCompletedPerLevel(exercises, completedExerciseIds),
-        [exercises, completedExerciseIds]
+        () => countCompletedPerLevel(exercises, completedExerciseIds, levelNumbers),
+        [exercises, completedExerciseIds, levelNumbers]
     );
 
     // Handle level card click
     const handleLevelClick = (level: number) => {
         // Check if level is accessible
-        if (!isLevelAccessible(themeId ?? '', level, themeLevels, allThemeIds)) {
+        if (!isLevelAccessible(themeId ?? '', level, themeLevels, allThemeIds, levelProgression)) {
             return; // Don't navigate if level is locked
         }
         // Navigate to exercise page with level filter
@@ -250,7 +255,7 @@ export function LevelSelectPage() {
                 role="list"
                 aria-label={t('level.levelList', 'Available difficulty levels')}
             >
-                {[1, 2, 3, 4].map((level) => {
+                {levelNumbers.map((level) => {
                     const isUnlocked = level <= accessibleLevel;
                     const exerciseCount = exerciseCounts[level] ?? 0;
                     const completedCount = completedCounts[level] ?? 0;
@@ -0,0 +1,242 @@
+/**
+ * Placement Test Page component.
+ *
+ * Optional adaptive test for new profiles. Asks a few exercises per
+ * observation area, moving up a level after each correct answer and
+ * down after each incorrect one, and then sets the profile's area and
+ * theme levels so strong learners can skip the easy material.
+ * Placement answers are not stored as exercise results and earn no stars.
+ * Exercise templates are expanded with fresh numbers for every item.
+ */
+
+import { useState, useMemo, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ROUTES } from '@core/router';
+import { useAreas, useExercises } from '@core/config';
+import { useProfileStore, selectActiveProfile } from '@core/stores/profileStore';
+import { ExerciseRenderer, ExerciseHeader } from '@core/components/exercises';
+import {
+    createPlacementTest,
+    getCurrentPlacementArea,
+    getPlacementResult,
+    isPlacementFinished,
+    recordPlacementAnswer,
+    selectPlacementExercise,
+    skipPlacementArea,
+    PLACEMENT_MAX_ITEMS_PER_AREA,
+    type PlacementTestState,
+} from '@core/utils/placementTest';
+import { createTemplateSessionSeed, expandExerciseTemplate } from '@core/utils/exerciseTemplate';
+import type { Exercise } from '@/types';
+
+/**
+ * Test state together with the exercise to show next.
+ */
+interface PlacementStep {
+    test: PlacementTestState;
+    exercise: Exercise | null;
+}
+
+export function PlacementTestPage() {
+    const { t, i18n } = useTranslation();
+    const navigate = useNavigate();
+    const profile = useProfileStore(selectActiveProfile);
+    const applyPlacement = useProfileStore((s) => s.applyPlacement);
+    const areas = useAreas();
+    const allExercises = useExercises();
+
+    const [step, setStep] = useState<PlacementStep | null>(null);
+
+    const areaNames = useMemo(
+        () => new Map(areas.map((a) => [a.id, a.name])),
+        [areas]
+    );
+
+    // Move to the next exercise, skipping areas that have run out of exercises
+    const advance = useCallback((test: PlacementTestState): PlacementStep => {
+        let current = test;
+        while (!isPlacementFinished(current)) {
+            const area = getCurrentPlacementArea(current);
+            const selected = area ? selectPlacementExercise(area, allExercises) : null;
+            const exercise = selected ? expandExerciseTemplate(selected, createTemplateSessionSeed(), i18n.language) : null;
+            if (exercise) {
+                return { test: current, exercise };
+            }
+            current = skipPlacementArea(current);
+        }
+        return { test: current, exercise: null };
+    }, [allExercises, i18n.language]);
+
+    const handleStart = () => {
+        setStep(advance(createPlacementTest(areas.map((a) => a.id), allExercises)));
+    };
+
+    const handleSubmit = useCallback((correct: boolean) => {
+        setStep((prev) => {
+            if (!prev?.exercise) return prev;
+            return advance(recordPlacementAnswer(prev.test, prev.exercise, correct));
+        });
+    }, [advance]);
+
+    const result = useMemo(
+        () => (step && !step.exercise ? getPlacementResult(step.test, allExercises) : null),
+        [step, allExercises]
+    );
+
+    const handleApply = () => {
+        if (result) {
+            applyPlacement(result.currentLevels, result.themeLevels);
+        }
+        navigate(ROUTES.THEMES);
+    };
+
+    const handleSkip = () => {
+        applyPlacement({}, {});
+        navigate(ROUTES.HOME);
+    };
+
+    // No profile
+    if (!profile) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <div className="text-center">
+                    <div className="text-6xl mb-4">👤</div>
+                    <p className="text-gray-600 mb-4">
+                        {t('placement.noProfile', 'Bitte erstelle ein Profil, um den Einstufungstest zu machen.')}
+                    </p>
+                    <button
+                        onClick={() => navigate(ROUTES.HOME)}
+                        className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                    >
+                        {t('common.createProfile', 'Profil erstellen')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    // Exercise in progress
+    if (step?.exercise) {
+        const area = getCurrentPlacementArea(step.test);
+        const areaName = area ? areaNames.get(area.areaId) ?? area.areaId : '';
+
+        return (
+            <div className="flex flex-col min-h-[80vh] lg:min-h-0 p-4 max-w-2xl mx-auto">
+                <ExerciseHeader
+                    currentExercise={(area?.answers.length ?? 0) + 1}
+                    totalExercises={PLACEMENT_MAX_ITEMS_PER_AREA}
+                    title={areaName}
+                    instruction={step.exercise.instruction}
+                    {...(step.exercise.audio ? { audio: step.exercise.audio } : {})}
+                />
+                <div className="flex-1 lg:flex-none">
+                    <ExerciseRenderer
+                        content={step.exercise.content}
+                        exerciseId={step.exercise.id}
+                        hintsEnabled={false}
+                        onSubmit={handleSubmit}
+                        showSolution={false}
+                    />
+                </div>
+                <div className="mt-6 text-center">
+                    <button
+                        onClick={() => setStep(advance(skipPlacementArea(step.test)))}
+                        className="px-6 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+                    >
+                        {t('placement.skipArea', 'Diesen Bereich überspringen')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    // Finished: show the placement per area
+    if (result) {
+        const placedAreas = Object.entries(result.currentLevels);
+
+        return (
+            <div className="min-h-screen bg-gray-50">
+                <main className="max-w-4xl mx-auto px-4 py-12 text-center">
+                    <div className="text-8xl mb-6">🧭</div>
+                    <h2 className="text-2xl font-bold text-gray-800 mb-4">
+                        {t('placement.resultTitle', 'Geschafft!')}
+                    </h2>
+                    <p className="text-gray-600 mb-8 max-w-md mx-auto">
+                        {t('placement.resultDescription', 'So geht es für dich weiter:')}
+                    </p>
+
+                    {placedAreas.length > 0 && (
+                        <ul className="bg-white rounded-xl shadow-sm p-6 mb-8 max-w-md mx-auto text-left space-y-2">
+                            {placedAreas.map(([areaId, level]) => (
+                                <li key={areaId} className="flex justify-between">
+                                    <span className="text-gray-700">{areaNames.get(areaId) ?? areaId}</span>
+                                    <span className="font-semibold">{t('placement.level', 'Level {{level}}', { level })}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    <button
+                        onClick={handleApply}
+                        className="px-8 py-3 bg-blue-500 text-white text-lg font-semibold rounded-lg hover:bg-blue-600 transition-colors"
+                    >
+                        {t('placement.apply', "Los geht's")}
+                    </button>
+                </main>
+            </div>
+        );
+    }
+
+    // Start screen
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <header className="bg-white shadow-sm">
+                <div className="max-w-4xl mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate(ROUTES.HOME)}
+                            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                            aria-label={t('common.back', 'Zurück')}
+                        >
+                            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                            </svg>
+                        </button>
+                        <h1 className="text-2xl font-bold text-gray-800">
+                            {t('placement.title', 'Einstufungstest')}
+                        </h1>
+                    </div>
+                </div>
+            </header>
+
+            <main className="max-w-4xl mx-auto px-4 py-12 text-center">
+                <div className="text-8xl mb-6">🧭</div>
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">
+                    {t('placement.subtitle', 'Was kannst du schon?')}
+                </h2>
+                <p className="text-gray-600 mb-8 max-w-md mx-auto">
+                    {t('placement.description', 'Löse ein paar Übungen. Danach starten die Themen auf dem passenden Level für dich.')}
+                </p>
+
+                <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                    <button
+                        onClick={handleStart}
+                        disabled={allExercises.length === 0}
+                        className="px-8 py-3 bg-blue-500 text-white text-lg font-semibold rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('placement.start', 'Test starten')}
+                    </button>
+                    <button
+                        onClick={handleSkip}
+                        className="px-8 py-3 bg-gray-200 text-gray-700 text-lg font-semibold rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                        {t('placement.skip', 'Überspringen')}
+                    </button>
+                </div>
+            </main>
+        </div>
+    );
+}
+
+export default PlacementTestPage;
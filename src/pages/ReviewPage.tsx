@@ -0,0 +1,223 @@
+/**
+ * Review Page component.
+ *
+ * Entry point of the spaced repetition review ("Wiederholen").
+ * Brings the profile's review schedule up to date with its exercise
+ * results, shows the exercises due today and the Leitner boxes, and
+ * starts a review session in the regular exercise flow.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ROUTES } from '@core/router';
+import { useExercises, useSubject } from '@core/config';
+import { useProfileStore, selectActiveProfile } from '@core/stores/profileStore';
+import { updateReviewStates } from '@core/storage';
+import { getDailyChallengeDateKey } from '@core/utils/dailyChallenge';
+import { getExpectedTimeSeconds } from '@core/utils/starCalculation';
+import {
+    getDueReviewExercises,
+    getReviewBoxCounts,
+    getNextReviewDate,
+    REVIEW_THEME_ID,
+} from '@core/utils/spacedRepetition';
+import type { ReviewState } from '@/types';
+
+export function ReviewPage() {
+    const { t } = useTranslation();
+    const navigate = useNavigate();
+    const profile = useProfileStore(selectActiveProfile);
+    const allExercises = useExercises();
+    const subject = useSubject();
+
+    // State
+    const [isLoading, setIsLoading] = useState(true);
+    const [states, setStates] = useState<ReviewState[]>([]);
+
+    // Today's date as schedule key
+    const today = useMemo(() => getDailyChallengeDateKey(), []);
+
+    const profileId = profile?.id;
+
+    // Load the schedule and apply results recorded since the last visit
+    useEffect(() => {
+        if (!profileId) {
+            setIsLoading(false);
+            return;
+        }
+
+        let cancelled = false;
+        const loadSchedule = async () => {
+            try {
+                const exercisesById = new Map(allExercises.map((e) => [e.id, e]));
+                const updated = await updateReviewStates(profileId, (exerciseId) => {
+                    const exercise = exercisesById.get(exerciseId);
+                    return exercise ? getExpectedTimeSeconds(exercise, subject?.exerciseTypeConfig) : undefined;
+                });
+
+                if (!cancelled) {
+                    setStates(updated);
+                }
+            } catch (error) {
+                console.error('Failed to load review schedule:', error);
+            } finally {
+                if (!cancelled) {
+                    setIsLoading(false);
+                }
+            }
+        };
+
+        setIsLoading(true);
+        loadSchedule();
+        return () => {
+            cancelled = true;
+        };
+    }, [profileId, allExercises, subject]);
+
+    // Only exercises that still exist in the configuration are shown
+    const scheduled = useMemo(() => {
+        const exerciseIds = new Set(allExercises.map((e) => e.id));
+        return states.filter((s) => exerciseIds.has(s.exerciseId));
+    }, [states, allExercises]);
+
+    const dueCount = useMemo(
+        () => getDueReviewExercises(scheduled, allExercises, today).length,
+        [scheduled, allExercises, today]
+    );
+    const boxCounts = useMemo(() => getReviewBoxCounts(scheduled), [scheduled]);
+    const nextReviewDate = useMemo(() => getNextReviewDate(scheduled, today), [scheduled, today]);
+
+    // No profile
+    if (!profile) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <div className="text-center">
+                    <div className="text-6xl mb-4">👤</div>
+                    <p className="text-gray-600 mb-4">
+                        {t('review.noProfile', 'Bitte erstelle ein Profil, um Übungen zu wiederholen.')}
+                    </p>
+                    <button
+                        onClick={() => navigate(ROUTES.HOME)}
+                        className="px-6 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+                    >
+                        {t('common.createProfile', 'Profil erstellen')}
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    // Loading state
+    if (isLoading) {
+        return (
+            <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+                <p className="text-gray-600">{t('common.loading', 'Wird geladen...')}</p>
+            </div>
+        );
+    }
+
+    const maxBoxCount = Math.max(1, ...boxCounts);
+
+    return (
+        <div className="min-h-screen bg-gray-50">
+            <header className="bg-white shadow-sm">
+                <div className="max-w-4xl mx-auto px-4 py-4">
+                    <div className="flex items-center gap-4">
+                        <button
+                            onClick={() => navigate(ROUTES.HOME)}
+                            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                            aria-label={t('common.back', 'Zurück')}
+                        >
+                            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                            </svg>
+                        </button>
+                        <h1 className="text-2xl font-bold text-gray-800">
+                            {t('review.title', 'Wiederholen')}
+                        </h1>
+                    </div>
+                </div>
+            </header>
+
+            <main className="max-w-4xl mx-auto px-4 py-12 text-center">
+                <div className="text-8xl mb-6">🔁</div>
+                <h2 className="text-2xl font-bold text-gray-800 mb-4">
+                    {t('review.subtitle', 'Wiederholen, was du schon geübt hast')}
+                </h2>
+                <p className="text-gray-600 mb-8 max-w-md mx-auto">
+                    {t('review.description', 'Übungen, die dir schwergefallen sind, kommen nach ein paar Tagen wieder. Was du gut kannst, kommt seltener.')}
+                </p>
+
+                {scheduled.length === 0 ? (
+                    <p className="text-gray-500 mb-8">
+                        {t('review.empty', 'Löse zuerst ein paar Übungen. Danach kannst du sie hier wiederholen.')}
+                    </p>
+                ) : (
+                    <div className="bg-white rounded-xl shadow-sm p-6 mb-8 max-w-md mx-auto">
+                        <div className="grid grid-cols-2 gap-4 text-left mb-6">
+                            <div>
+                                <div className="text-sm text-gray-500">{t('review.due', 'Heute fällig')}</div>
+                                <div className="text-xl font-semibold" data-testid="review-due-count">{dueCount}</div>
+                            </div>
+                            <div>
+                                <div className="text-sm text-gray-500">{t('review.scheduled', 'Geplant')}</div>
+                                <div className="text-xl font-semibold">{scheduled.length}</div>
+                            </div>
+                        </div>
+
+                        {/* Leitner boxes */}
+                        <div className="text-sm text-gray-500 text-left mb-2">{t('review.boxes', 'Lernkartei')}</div>
+                        <ul className="flex items-end gap-2 h-24" aria-label={t('review.boxes', 'Lernkartei')}>
+                            {boxCounts.map((count, index) => (
+                                <li
+                                    key={index}
+                                    className="flex-1 flex flex-col items-center justify-end h-full"
+                                    aria-label={`${t('review.box', 'Fach {{box}}', { box: index + 1 })}: ${count}`}
+                                >
+                                    <span className="text-xs text-gray-600 mb-1">{count}</span>
+                                    <div
+                                        className="w-full bg-teal-500 rounded-t"
+                                        style={{ height: `${Math.max(4, (count / maxBoxCount) * 100)}%` }}
+                                    />
+                                    <span className="text-xs text-gray-500 mt-1">{index + 1}</span>
+                                </li>
+                            ))}
+                        </ul>
+
+                        {dueCount === 0 && (
+                            <p className="text-gray-600 mt-6">
+                                {t('review.nothingDue', 'Heute gibt es nichts zu wiederholen. Super!')}
+                                {nextReviewDate && (
+                                    <span className="block text-sm text-gray-500 mt-1">
+                                        {t('review.nextReview', 'Nächste Wiederholung: {{date}}', {
+                                            date: new Date(`${nextReviewDate}T00:00:00`).toLocaleDateString('de-DE', { weekday: 'long', day: 'numeric', month: 'long' }),
+                                        })}
+                                    </span>
+                                )}
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                    <button
+                        onClick={() => navigate(ROUTES.EXERCISE(REVIEW_THEME_ID))}
+                        disabled={dueCount === 0}
+                        className="px-8 py-3 bg-teal-600 text-white text-lg font-semibold rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        {t('review.start', 'Wiederholung starten')}
+                    </button>
+                    <button
+                        onClick={() => navigate(ROUTES.HOME)}
+                        className="px-8 py-3 bg-gray-200 text-gray-700 text-lg font-semibold rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                        {t('common.back', 'Zurück')}
+                    </button>
+                </div>
+            </main>
+        </div>
+    );
+}
+
+export default ReviewPage;
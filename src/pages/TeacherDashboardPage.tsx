@@ -2,15 +2,26 @@
  * Teacher Dashboard page.
  * 
  * Allows teachers to manage student profiles, view statistics,
- * and reset student progress.
+ * record observations, write support plans, and reset student progress.
+ * Student records link real names and support measures to the
+ * nickname-based child profiles.
  */
 
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { ROUTES } from '@core/router';
-import { getAllProfiles, deleteProfile } from '@core/storage';
-import type { UserProfile } from '@/types';
+import {
+    getAllProfiles,
+    deleteProfile,
+    deleteReviewStatesForProfile,
+    deleteDailyChallengeRecordsForProfile,
+    getAllStudentProfiles,
+    saveStudentProfile,
+} from '@core/storage';
+import { getStudentsByProfileId, unlinkProfile } from '@core/utils/student';
+import type { StudentProfile, UserProfile } from '@/types';
+import { ObservationEditor, FoerderplanEditor, DrawingReview, StudentManager } from './teacher';
 
 /**
  * Student statistics interface.
@@ -23,6 +34,11 @@ interface StudentStats {
     themesCompleted: number;
 }
 
+/**
+ * Editor panel shown in the student details.
+ */
+type DetailPanel = 'observations' | 'foerderplan' | 'drawings';
+
 /**
  * Teacher dashboard page component.
  */
@@ -35,13 +51,23 @@ export function TeacherDashboardPage() {
     const [selectedProfile, setSelectedProfile] = useState<UserProfile | null>(null);
     const [showResetConfirm, setShowResetConfirm] = useState(false);
     const [resetTarget, setResetTarget] = useState<string | null>(null);
+    const [detailPanel, setDetailPanel] = useState<DetailPanel | null>(null);
+    const [students, setStudents] = useState<StudentProfile[]>([]);
+    const [showStudentManager, setShowStudentManager] = useState(false);
+
+    const studentsByProfile = getStudentsByProfileId(students);
+    const selectedStudent = selectedProfile ? studentsByProfile.get(selectedProfile.id) : undefined;
 
-    // Load all profiles
+    // Load all profiles and student records
     useEffect(() => {
         const loadProfiles = async () => {
             try {
-                const allProfiles = await getAllProfiles();
+                const [allProfiles, allStudents] = await Promise.all([
+                    getAllProfiles(),
+                    getAllStudentProfiles(),
+                ]);
                 setProfiles(allProfiles);
+                setStudents(allStudents);
 
                 // Calculate stats for each profile
                 const profileStats: Record<string, StudentStats> = {};
@@ -90,6 +116,7 @@ export function TeacherDashboardPage() {
      */
     const handleSelectProfile = (profile: UserProfile) => {
         setSelectedProfile(profile);
+        setDetailPanel(null);
     };
 
     /**
@@ -107,8 +134,17 @@ export function TeacherDashboardPage() {
         if (!resetTarget) return;
 
         try {
-            // Delete the profile from IndexedDB
-            await deleteProfile(resetTarget);
+            // Delete the profile, its review schedule and daily challenge records
+            // from IndexedDB, and unlink it from student records
+            await Promise.all([
+                deleteProfile(resetTarget),
+                deleteReviewStatesForProfile(resetTarget),
+                deleteDailyChallengeRecordsForProfile(resetTarget),
+            ]);
+            const unlinked = unlinkProfile(students, resetTarget);
+            await Promise.all(unlinked.map(saveStudentProfile));
+            const unlinkedById = new Map(unlinked.map((s) => [s.id, s]));
+            setStudents((prev) => prev.map((s) => unlinkedById.get(s.id) ?? s));
 
             // Remove from local state
             setProfiles((prev) => prev.filter((p) => p.id !== resetTarget));
@@ -176,8 +212,28 @@ export function TeacherDashboardPage() {
                             </p>
                         </div>
                     </div>
+                    <button
+                        onClick={() => setShowStudentManager((prev) => !prev)}
+                        aria-expanded={showStudentManager}
+                        className="px-4 py-2 text-sm bg-blue-100 text-blue-700 rounded-lg font-medium hover:bg-blue-200 transition-colors"
+                    >
+                        📇 {showStudentManager
+                            ? t('teacher.studentRecords.hide', 'Hide student records')
+                            : t('teacher.studentRecords.open', 'Student records')}
+                    </button>
                 </div>
 
+                {/* Student Records */}
+                {showStudentManager && (
+                    <div className="mb-8">
+                        <StudentManager
+                            students={students}
+                            profiles={profiles}
+                            onStudentsChange={setStudents}
+                        />
+                    </div>
+                )}
+
                 {/* Overview Stats */}
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
                     <div className="bg-blue-50 border border-blue-200 rounded-xl p-4 text-center">
@@ -242,6 +298,7 @@ export function TeacherDashboardPage() {
                                 <tbody>
                                     {profiles.map((profile) => {
                                         const profileStats = stats[profile.id];
+                                        const student = studentsByProfile.get(profile.id);
                                         return (
                                             <tr
                                                 key={profile.id}
@@ -256,10 +313,12 @@ export function TeacherDashboardPage() {
                                                         <span className="text-2xl">{profile.avatarId}</span>
                                                         <div>
                                                             <div className="font-medium text-gray-900">
-                                                                {profile.nickname}
+                                                                {student ? student.name : profile.nickname}
                                                             </div>
                                                             <div className="text-xs text-gray-500">
-                                                                {new Date(profile.createdAt).toLocaleDateString()}
+                                                                {student
+                                                                    ? `${profile.nickname} · ${t(`teacher.studentRecords.supportMeasures.${student.supportMeasure}`, student.supportMeasure)}`
+                                                                    : new Date(profile.createdAt).toLocaleDateString()}
                                                             </div>
                                                         </div>
                                                     </button>
@@ -306,9 +365,10 @@ export function TeacherDashboardPage() {
                                 <span className="text-4xl">{selectedProfile.avatarId}</span>
                                 <div>
                                     <h3 className="text-xl font-bold text-gray-900">
-                                        {selectedProfile.nickname}
+                                        {selectedStudent ? selectedStudent.name : selectedProfile.nickname}
                                     </h3>
                                     <p className="text-sm text-gray-500">
+                                        {selectedStudent && `${selectedProfile.nickname} · `}
                                         {t('teacher.memberSince', 'Member since')}{' '}
                                         {new Date(selectedProfile.createdAt).toLocaleDateString()}
                                     </p>
@@ -323,6 +383,34 @@ export function TeacherDashboardPage() {
                             </button>
                         </div>
 
+                        {/* Student Record */}
+                        {selectedStudent && (
+                            <dl className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6 text-sm">
+                                <div className="bg-gray-50 rounded-lg p-3">
+                                    <dt className="text-gray-500">{t('teacher.studentRecords.supportMeasure', 'Support measure')}</dt>
+                                    <dd className="font-medium text-gray-900">
+                                        {t(`teacher.studentRecords.supportMeasures.${selectedStudent.supportMeasure}`, selectedStudent.supportMeasure)}
+                                    </dd>
+                                </div>
+                                <div className="bg-gray-50 rounded-lg p-3">
+                                    <dt className="text-gray-500">{t('teacher.studentRecords.status', 'Status')}</dt>
+                                    <dd className="font-medium text-gray-900">
+                                        {t(`teacher.studentRecords.statuses.${selectedStudent.status}`, selectedStudent.status)}
+                                    </dd>
+                                </div>
+                                <div className="bg-gray-50 rounded-lg p-3">
+                                    <dt className="text-gray-500">{t('teacher.studentRecords.firstLanguages', 'First languages')}</dt>
+                                    <dd className="font-medium text-gray-900">
+                                        {selectedStudent.firstLanguages.join(', ') || '–'}
+                                    </dd>
+                                </div>
+                                <div className="bg-gray-50 rounded-lg p-3">
+                                    <dt className="text-gray-500">{t('teacher.studentRecords.contactDuration', 'German instruction (months)')}</dt>
+                                    <dd className="font-medium text-gray-900">{selectedStudent.contactDurationMonths}</dd>
+                                </div>
+                            </dl>
+                        )}
+
                         {/* Theme Progress */}
                         <h4 className="font-medium text-gray-900 mb-3">
                             {t('teacher.themeProgress', 'Theme Progress')}
@@ -357,6 +445,65 @@ export function TeacherDashboardPage() {
                                 </div>
                             ))}
                         </div>
+
+                        {/* Observation Records, Support Plan and Drawings: records belong to the
+                            linked student record, or to the profile while none is linked */}
+                        <div className="mt-6 border-t border-gray-100 pt-6">
+                            <div className="flex flex-wrap gap-3">
+                                <button
+                                    onClick={() => setDetailPanel((prev) => (prev === 'observations' ? null : 'observations'))}
+                                    aria-expanded={detailPanel === 'observations'}
+                                    className="px-4 py-2 text-sm bg-blue-100 text-blue-700 rounded-lg font-medium hover:bg-blue-200 transition-colors"
+                                >
+                                    {detailPanel === 'observations'
+                                        ? t('teacher.observation.hide', 'Hide observations')
+                                        : t('teacher.observation.open', 'Record observations')}
+                                </button>
+                                <button
+                                    onClick={() => setDetailPanel((prev) => (prev === 'foerderplan' ? null : 'foerderplan'))}
+                                    aria-expanded={detailPanel === 'foerderplan'}
+                                    className="px-4 py-2 text-sm bg-green-100 text-green-700 rounded-lg font-medium hover:bg-green-200 transition-colors"
+                                >
+                                    {detailPanel === 'foerderplan'
+                                        ? t('teacher.foerderplan.hide', 'Hide support plan')
+                                        : t('teacher.foerderplan.open', 'Support plan')}
+                                </button>
+                                <button
+                                    onClick={() => setDetailPanel((prev) => (prev === 'drawings' ? null : 'drawings'))}
+                                    aria-expanded={detailPanel === 'drawings'}
+                                    className="px-4 py-2 text-sm bg-purple-100 text-purple-700 rounded-lg font-medium hover:bg-purple-200 transition-colors"
+                                >
+                                    {detailPanel === 'drawings'
+                                        ? t('teacher.drawings.hide', 'Hide drawings')
+                                        : t('teacher.drawings.open', 'Drawings')}
+                                </button>
+                            </div>
+                            {detailPanel === 'observations' && (
+                                <div className="mt-4">
+                                    <ObservationEditor
+                                        studentId={selectedStudent?.id ?? selectedProfile.id}
+                                        studentName={selectedStudent?.name ?? selectedProfile.nickname}
+                                    />
+                                </div>
+                            )}
+                            {detailPanel === 'foerderplan' && (
+                                <div className="mt-4">
+                                    <FoerderplanEditor
+                                        studentId={selectedStudent?.id ?? selectedProfile.id}
+                                        studentName={selectedStudent?.name ?? selectedProfile.nickname}
+                                        currentLevels={selectedProfile.currentLevels}
+                                    />
+                                </div>
+                            )}
+                            {detailPanel === 'drawings' && (
+                                <div className="mt-4">
+                                    <DrawingReview
+                                        profileId={selectedProfile.id}
+                                        studentName={selectedStudent?.name ?? selectedProfile.nickname}
+                                    />
+                                </div>
+                            )}
+                        </div>
                     </div>
                 )}
 
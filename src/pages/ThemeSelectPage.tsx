@@ -9,13 +9,18 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useState, useEffect, useCallback } from 'react';
 import { ThemeCard } from '@core/components/theme';
-import { useThemes, useConfig } from '@core/config';
+import { useThemes, useConfig, useLevelProgression } from '@core/config';
 import {
     useProfileStore,
     selectActiveProfile,
     selectThemeLevels,
 } from '@core/stores/profileStore';
-import { calculateGlobalLevel, getAccessibleLevelForTheme } from '@core/utils/gamification';
+import {
+    calculateGlobalLevel,
+    getAccessibleLevelForTheme,
+    getLevelNumbers,
+    getNextLevelRequirement,
+} from '@core/utils/gamification';
 import { ROUTES } from '@core/router';
 import { getAllExerciseResults } from '@core/storage';
 import type { Theme, ThemeProgress, ExerciseResult } from '@/types';
@@ -27,7 +32,7 @@ import type { Theme, ThemeProgress, ExerciseResult } from '@/types';
 /**
  * Level indicator dots showing current vocabulary level.
  */
-function LevelIndicator({ level }: { level: number }) {
+function LevelIndicator({ level, levelNumbers }: { level: number; levelNumbers: number[] }) {
     const { t } = useTranslation();
 
     return (
@@ -36,7 +41,7 @@ function LevelIndicator({ level }: { level: number }) {
                 {t('theme.vocabularyLevel', 'Vocabulary Level')}:
             </span>
             <div className="flex gap-1" role="img" aria-label={t('theme.levelLabel', { level, defaultValue: `Level ${level}` })}>
-                {[1, 2, 3, 4].map((lvl) => (
+                {levelNumbers.map((lvl) => (
                     <div
                         key={lvl}
                         className={`w-3 h-3 rounded-full ${lvl <= level
@@ -76,8 +81,16 @@ export function ThemeSelectPage() {
     const themeLevels = useProfileStore(selectThemeLevels);
 
     // Calculate global level and per-theme accessible levels
+    const levelProgression = useLevelProgression();
     const allThemeIds = themes.map(t => t.id);
-    const globalLevel = calculateGlobalLevel(themeLevels, allThemeIds);
+    const globalLevel = calculateGlobalLevel(themeLevels, allThemeIds, levelProgression);
+    const nextLevelRequirement = getNextLevelRequirement(
+        themeLevels,
+        allThemeIds,
+        Object.fromEntries(themes.map(theme => [theme.id, theme.name])),
+        levelProgression,
+        (key, defaultValue, params) => t(key, defaultValue, params)
+    );
 
     // Track completed exercise IDs and stars per theme from IndexedDB
     const [completedByTheme, setCompletedByTheme] = useState<Record<string, { exerciseIds: Set<string>; stars: number }>>({});
@@ -122,7 +135,7 @@ export function ThemeSelectPage() {
     const calculateThemeProgress = (theme: Theme): ThemeProgress => {
         const exercises = getExercisesByTheme(theme.id);
         const themeStats = completedByTheme[theme.id];
-        const accessibleLevel = getAccessibleLevelForTheme(theme.id, themeLevels, allThemeIds);
+        const accessibleLevel = getAccessibleLevelForTheme(theme.id, themeLevels, allThemeIds, levelProgression);
 
         return {
             unlocked: accessibleLevel >= theme.minLevel,
@@ -155,7 +168,13 @@ export function ThemeSelectPage() {
                 </h1>
 
                 {/* Level indicator */}
-                <LevelIndicator level={globalLevel} />
+                <LevelIndicator level={globalLevel} levelNumbers={getLevelNumbers(levelProgression)} />
+
+                {nextLevelRequirement && (
+                    <p className="text-sm text-gray-500 mb-2">
+                        {nextLevelRequirement}
+                    </p>
+                )}
 
                 <p className="text-gray-600">
                     {t('theme.subtitle', 'Select a theme to practice. Complete exercises to earn stars and unlock new themes!')}
@@ -169,7 +188,7 @@ export function ThemeSelectPage() {
                 aria-label={t('theme.themeList', 'Available themes')}
             >
                 {themes.map((theme) => {
-                    const accessibleLevel = getAccessibleLevelForTheme(theme.id, themeLevels, allThemeIds);
+                    const accessibleLevel = getAccessibleLevelForTheme(theme.id, themeLevels, allThemeIds, levelProgression);
                     const isUnlocked = accessibleLevel >= theme.minLevel;
                     const progress = calculateThemeProgress(theme);
 
@@ -22,10 +22,62 @@ const mockProfile = {
 };
 
 // Use vi.hoisted to define mock functions at top level
-const { mockSelectActiveProfile } = vi.hoisted(() => ({
+const { mockSelectActiveProfile, mockGetDailyChallengeRecord } = vi.hoisted(() => ({
     mockSelectActiveProfile: vi.fn(),
+    mockGetDailyChallengeRecord: vi.fn(),
 }));
 
+// Six exercises in six themes - the daily challenge picks five of them
+const mockExercises = Array.from({ length: 6 }, (_, i) => ({
+    id: `ex-${i}`,
+    type: 'multiple-choice',
+    areaId: 'area-1',
+    themeId: `theme-${i}`,
+    level: 1,
+    difficulty: 1,
+    instruction: 'Choose',
+    content: { type: 'multiple-choice', question: 'Q', options: ['a', 'b'], correctIndex: 0 },
+    hints: [],
+    feedbackCorrect: 'Yes',
+    feedbackIncorrect: 'No',
+}));
+
+vi.mock('@core/config', () => ({
+    useExercises: () => mockExercises,
+}));
+
+vi.mock('@core/storage', () => ({
+    getDailyChallengeRecord: mockGetDailyChallengeRecord,
+}));
+
+/**
+ * Build a completion record for today's challenge.
+ */
+function createRecord(round: 'daily' | 'bonus', starsEarned: number) {
+    return {
+        id: `profile-1:2024-01-16:${round}`,
+        childProfileId: 'profile-1',
+        date: '2024-01-16',
+        round,
+        exerciseIds: ['ex-0', 'ex-1', 'ex-2', 'ex-3', 'ex-4'],
+        correctCount: starsEarned,
+        starsEarned,
+        completedAt: '2024-01-16T10:00:00Z',
+    };
+}
+
+/**
+ * Make the storage mock return the given records per round.
+ */
+function mockRecords(records: { daily?: number; bonus?: number }) {
+    mockGetDailyChallengeRecord.mockImplementation(
+        async (_profileId: string, _date: string, round: 'daily' | 'bonus') => {
+            const stars = records[round];
+            return stars === undefined ? undefined : createRecord(round, stars);
+        }
+    );
+}
+
 vi.mock('@core/stores/profileStore', () => ({
     useProfileStore: (selector: (state: unknown) => unknown) => {
         return selector({ activeProfile: mockSelectActiveProfile() });
@@ -46,6 +98,7 @@ vi.mock('react-i18next', () => ({
                 'dailyChallenge.date': 'Datum',
                 'dailyChallenge.start': 'Jetzt starten',
                 'dailyChallenge.completed': 'Heute schon gemeistert!',
+                'dailyChallenge.completedResult': '{{correct}} von {{total}} Ubungen gelost',
                 'dailyChallenge.completedStars': 'Du hast heute {{stars}} Sterne verdient!',
                 'dailyChallenge.bonusTitle': 'Bonus Challenge!',
                 'dailyChallenge.bonusDesc': 'Mache noch mehr Ubungen fur 3 Extra-Sterne!',
@@ -62,27 +115,6 @@ vi.mock('react-i18next', () => ({
     }),
 }));
 
-// Mock localStorage
-const localStorageMock = (() => {
-    let store: Record<string, string> = {};
-    return {
-        getItem: vi.fn((key: string) => store[key] ?? null),
-        setItem: vi.fn((key: string, value: string) => {
-            store[key] = value;
-        }),
-        removeItem: vi.fn((key: string) => {
-            delete store[key];
-        }),
-        clear: vi.fn(() => {
-            store = {};
-        }),
-    };
-})();
-
-Object.defineProperty(window, 'localStorage', {
-    value: localStorageMock,
-});
-
 const renderWithRouter = (component: React.ReactElement) => {
     return render(<BrowserRouter>{component}</BrowserRouter>);
 };
@@ -93,106 +125,90 @@ import { DailyChallengePage } from '../DailyChallengePage';
 describe('DailyChallengePage', () => {
     beforeEach(() => {
         vi.clearAllMocks();
-        localStorageMock.clear();
         mockSelectActiveProfile.mockReturnValue(mockProfile);
+        mockRecords({});
     });
 
     describe('start state (not completed)', () => {
-        it('renders the start state when challenge is not completed', () => {
-            localStorageMock.getItem.mockReturnValue(null);
-
+        it('renders the start state when challenge is not completed', async () => {
             renderWithRouter(<DailyChallengePage />);
 
-            expect(screen.getByText('Tagliche Herausforderung')).toBeInTheDocument();
+            expect(await screen.findByText('Tagliche Herausforderung')).toBeInTheDocument();
             expect(screen.getByText('Jetzt starten')).toBeInTheDocument();
         });
 
-        it('displays exercise count and bonus info', () => {
-            localStorageMock.getItem.mockReturnValue(null);
-
+        it('displays exercise count and bonus info', async () => {
             renderWithRouter(<DailyChallengePage />);
 
-            expect(screen.getByText('Ubungen')).toBeInTheDocument();
+            expect(await screen.findByText('Ubungen')).toBeInTheDocument();
             expect(screen.getByText('5')).toBeInTheDocument();
             expect(screen.getByText('Bonus-Sterne')).toBeInTheDocument();
         });
 
-        it('renders back button', () => {
-            localStorageMock.getItem.mockReturnValue(null);
-
+        it('renders back button', async () => {
             renderWithRouter(<DailyChallengePage />);
 
             // There are multiple back buttons, check there's at least one
+            await screen.findByText('Jetzt starten');
             expect(screen.getAllByRole('button').length).toBeGreaterThan(0);
         });
+
+        it('loads completion for the active profile from storage', async () => {
+            renderWithRouter(<DailyChallengePage />);
+
+            await screen.findByText('Jetzt starten');
+            expect(mockGetDailyChallengeRecord).toHaveBeenCalledWith('profile-1', expect.any(String), 'daily');
+            expect(mockGetDailyChallengeRecord).toHaveBeenCalledWith('profile-1', expect.any(String), 'bonus');
+        });
     });
 
     describe('completed state (todayCompleted)', () => {
-        it('renders completed state when daily challenge is done', () => {
-            localStorageMock.getItem.mockImplementation((key: string) => {
-                if (key.includes('daily-challenge')) {
-                    return '5';
-                }
-                return null;
-            });
+        it('renders completed state when daily challenge is done', async () => {
+            mockRecords({ daily: 5 });
 
             renderWithRouter(<DailyChallengePage />);
 
             // Verify completed state by checking for the checkmark emoji
-            expect(screen.getByText('Heute schon gemeistert!')).toBeInTheDocument();
+            expect(await screen.findByText('Heute schon gemeistert!')).toBeInTheDocument();
             expect(screen.getByText('✅')).toBeInTheDocument();
         });
 
-        it('shows bonus challenge section when daily is done but bonus is not', () => {
-            localStorageMock.getItem.mockImplementation((key: string) => {
-                if (key.includes('daily-challenge') && !key.includes('bonus')) {
-                    return '5';
-                }
-                return null;
-            });
+        it('shows bonus challenge section when daily is done but bonus is not', async () => {
+            mockRecords({ daily: 5 });
 
             renderWithRouter(<DailyChallengePage />);
 
-            expect(screen.getByText('Bonus Challenge!')).toBeInTheDocument();
+            expect(await screen.findByText('Bonus Challenge!')).toBeInTheDocument();
             expect(screen.getByText('Bonus starten')).toBeInTheDocument();
         });
     });
 
     describe('bonus challenge flow', () => {
-        it('shows bonus completed when bonus is done', () => {
-            localStorageMock.getItem.mockImplementation((key: string) => {
-                if (key.includes('daily-challenge') && !key.includes('bonus')) {
-                    return '5';
-                }
-                if (key.includes('bonus-challenge')) {
-                    return '3';
-                }
-                return null;
-            });
+        it('shows bonus completed when bonus is done', async () => {
+            mockRecords({ daily: 5, bonus: 3 });
 
             renderWithRouter(<DailyChallengePage />);
 
-            expect(screen.getByText(/Bonus abgeschlossen!/)).toBeInTheDocument();
+            expect(await screen.findByText(/Bonus abgeschlossen!/)).toBeInTheDocument();
+            expect(screen.queryByText('Bonus starten')).not.toBeInTheDocument();
         });
     });
 
     describe('no profile state', () => {
-        it('renders no profile message when profile is null', () => {
+        it('renders no profile message when profile is null', async () => {
             mockSelectActiveProfile.mockReturnValue(null);
-            localStorageMock.getItem.mockReturnValue(null);
 
             renderWithRouter(<DailyChallengePage />);
 
-            expect(screen.getByText(/Bitte erstelle ein Profil/)).toBeInTheDocument();
+            expect(await screen.findByText(/Bitte erstelle ein Profil/)).toBeInTheDocument();
         });
 
-        it('shows create profile button in no profile state', () => {
+        it('shows create profile button in no profile state', async () => {
             mockSelectActiveProfile.mockReturnValue(null);
-            localStorageMock.getItem.mockReturnValue(null);
 
             renderWithRouter(<DailyChallengePage />);
 
-            expect(screen.getByText('Profil erstellen')).toBeInTheDocument();
+            expect(await screen.findByText('Profil erstellen')).toBeInTheDocument();
         });
     });
 });
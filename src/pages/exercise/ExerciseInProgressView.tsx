@@ -8,7 +8,8 @@
 import { useTranslation } from 'react-i18next';
 import { ExerciseRenderer, ExerciseHeader, ExerciseFooter } from '@core/components/exercises';
 import { BadgeEarnedToast, LevelUpCelebration } from '@core/components/gamification';
-import type { Exercise, Theme } from '@/types';
+import { useTheme } from '@core/config';
+import type { Exercise } from '@/types';
 import type { UseExercisePageStateReturn } from '@core/hooks/useExercisePageState';
 
 export interface ExerciseInProgressViewProps {
@@ -30,10 +31,16 @@ export interface ExerciseInProgressViewProps {
     hasAnswered: boolean;
     /** Current answer state */
     answer: UseExercisePageStateReturn['answer'];
+    /** Attempt limit of the exercise type (Infinity if unlimited) */
+    maxAttempts: number;
+    /** Whether hints are shown for the exercise type */
+    hintsEnabled: boolean;
+    /** Seed for card layouts (daily challenge), random if undefined */
+    shuffleSeed?: number | undefined;
     /** Gamification notifications */
     notifications: UseExercisePageStateReturn['notifications'];
     /** Handle answer submission */
-    onSubmit: (correct: boolean) => void;
+    onSubmit: (correct: boolean, accuracy?: number, drawing?: string) => void;
     /** Handle show solution */
     onShowSolution: () => void;
     /** Handle next exercise */
@@ -60,6 +67,9 @@ export function ExerciseInProgressView({
     levelFailed,
     hasAnswered,
     answer,
+    maxAttempts,
+    hintsEnabled,
+    shuffleSeed,
     notifications,
     onSubmit,
     onShowSolution,
@@ -71,9 +81,8 @@ export function ExerciseInProgressView({
     onClearLevelUp,
 }: ExerciseInProgressViewProps) {
     const { t } = useTranslation();
-
-    // Prepare theme object for ExerciseHeader
-    const theme = themeId ? { name: themeName } as Theme : null;
+    // Pen colours of drawing exercises come from the exercise's own theme
+    const palette = useTheme(currentExercise.themeId)?.palette;
 
     // Build feedback message for ExerciseFooter
     let feedbackMessage: string | undefined;
@@ -85,7 +94,9 @@ export function ExerciseInProgressView({
             ? currentExercise.feedbackCorrect
             : showSolution
                 ? currentExercise.feedbackIncorrect
-                : t('exercise.tryAgain');
+                : Number.isFinite(maxAttempts)
+                    ? t('exercise.tryAgainAttempts', { current: answer.attempts + 1, max: maxAttempts })
+                    : t('exercise.tryAgain');
     }
 
     // Check if there's more exercises
@@ -97,9 +108,9 @@ export function ExerciseInProgressView({
             <ExerciseHeader
                 currentExercise={progress.current}
                 totalExercises={progress.total}
-                theme={theme}
-                themeId={themeId || ''}
+                title={themeId ? themeName ?? themeId : ''}
                 instruction={currentExercise.instruction}
+                {...(currentExercise.audio ? { audio: currentExercise.audio } : {})}
             />
 
             {/* Exercise content */}
@@ -108,8 +119,11 @@ export function ExerciseInProgressView({
                     content={currentExercise.content}
                     exerciseId={currentExercise.id}
                     hints={currentExercise.hints}
+                    hintsEnabled={hintsEnabled}
                     onSubmit={onSubmit}
                     showSolution={showSolution}
+                    {...(shuffleSeed !== undefined ? { seed: shuffleSeed } : {})}
+                    {...(palette ? { palette } : {})}
                 />
             </div>
 
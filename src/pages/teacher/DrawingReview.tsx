@@ -0,0 +1,218 @@
+/**
+ * Drawing review for the teacher dashboard.
+ *
+ * Drawing exercises are not checked automatically: the child's picture
+ * is saved with the result. Here the teacher sees the saved drawings of
+ * a student, newest first, can download them, write a comment and mark
+ * them as reviewed.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useExercises } from '@core/config';
+import { getExerciseResultsByProfile, saveExerciseResult } from '@core/storage';
+import { getDrawingResults } from '@core/utils/drawing';
+import type { ExerciseResult } from '@/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface DrawingReviewProps {
+    /** ID of the child profile whose drawings are shown (drawings are saved with its results) */
+    profileId: string;
+    /** Display name of the student */
+    studentName: string;
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+interface DrawingCardProps {
+    result: ExerciseResult;
+    instruction: string;
+    studentName: string;
+    onSave: (result: ExerciseResult) => Promise<void>;
+}
+
+/**
+ * One saved drawing with its comment field.
+ */
+function DrawingCard({ result, instruction, studentName, onSave }: DrawingCardProps) {
+    const { t, i18n } = useTranslation();
+    const [comment, setComment] = useState(result.teacherComment ?? '');
+    const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+    const commentId = `drawing-comment-${result.id}`;
+
+    const formatDate = (iso: string) =>
+        new Date(iso).toLocaleDateString(i18n.language, { day: '2-digit', month: '2-digit', year: 'numeric' });
+
+    /**
+     * Save the comment and mark the drawing as reviewed (the first review date is kept).
+     */
+    const save = async () => {
+        setSaveStatus('saving');
+        const updated: ExerciseResult = { ...result, reviewedAt: result.reviewedAt ?? new Date().toISOString() };
+        const trimmed = comment.trim();
+        if (trimmed) {
+            updated.teacherComment = trimmed;
+        } else {
+            delete updated.teacherComment;
+        }
+        try {
+            await onSave(updated);
+            setSaveStatus('saved');
+        } catch (error) {
+            console.error('Failed to save drawing review:', error);
+            setSaveStatus('error');
+        }
+    };
+
+    return (
+        <li className="bg-gray-50 rounded-lg p-4 space-y-3">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <span className="font-medium text-gray-800">{instruction}</span>
+                <span className="text-sm text-gray-500">{formatDate(result.completedAt)}</span>
+            </div>
+
+            <img
+                src={result.drawing}
+                alt={t('teacher.drawings.image', 'Drawing: {{instruction}}', { instruction })}
+                className="w-full max-w-md bg-white border border-gray-200 rounded-lg"
+            />
+
+            <div className="flex flex-col gap-1">
+                <label htmlFor={commentId} className="text-sm text-gray-600">
+                    {t('teacher.drawings.comment', 'Comment')}
+                </label>
+                <textarea
+                    id={commentId}
+                    value={comment}
+                    onChange={(e) => {
+                        setComment(e.target.value);
+                        setSaveStatus('idle');
+                    }}
+                    placeholder={t('teacher.drawings.commentPlaceholder', 'What do you notice about the drawing?')}
+                    rows={2}
+                    className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+                <button
+                    onClick={save}
+                    disabled={saveStatus === 'saving'}
+                    className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                    {result.reviewedAt
+                        ? t('teacher.drawings.saveComment', 'Save comment')
+                        : `✓ ${t('teacher.drawings.markReviewed', 'Mark as reviewed')}`}
+                </button>
+                <a
+                    href={result.drawing}
+                    download={`${studentName}-${result.exerciseId}-${result.completedAt.slice(0, 10)}.png`}
+                    className="py-2 px-4 bg-gray-100 text-gray-900 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                >
+                    ⬇️ {t('teacher.drawings.download', 'Download')}
+                </a>
+                <span className="text-sm text-gray-600">
+                    {result.reviewedAt
+                        ? t('teacher.drawings.reviewed', 'Reviewed on {{date}}', { date: formatDate(result.reviewedAt) })
+                        : t('teacher.drawings.notReviewed', 'Not reviewed yet')}
+                </span>
+                <span role="status" className="text-sm">
+                    {saveStatus === 'saved' && (
+                        <span className="text-green-700">{t('teacher.drawings.saved', 'Drawing saved')}</span>
+                    )}
+                    {saveStatus === 'error' && (
+                        <span className="text-red-700">{t('teacher.drawings.saveFailed', 'Drawing could not be saved')}</span>
+                    )}
+                </span>
+            </div>
+        </li>
+    );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Drawing review component.
+ */
+export function DrawingReview({ profileId, studentName }: DrawingReviewProps) {
+    const { t } = useTranslation();
+    const exercises = useExercises();
+    const [results, setResults] = useState<ExerciseResult[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+
+    // Load the results of the student that have a drawing
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadData = async () => {
+            setIsLoading(true);
+            try {
+                const loaded = await getExerciseResultsByProfile(profileId);
+                if (!cancelled) {
+                    setResults(getDrawingResults(loaded));
+                }
+            } catch (error) {
+                console.error('Failed to load drawings:', error);
+            } finally {
+                if (!cancelled) {
+                    setIsLoading(false);
+                }
+            }
+        };
+
+        loadData();
+        return () => {
+            cancelled = true;
+        };
+    }, [profileId]);
+
+    const instructions = useMemo(
+        () => new Map(exercises.map((exercise) => [exercise.id, exercise.instruction])),
+        [exercises]
+    );
+
+    /**
+     * Save a reviewed or commented drawing.
+     */
+    const handleSave = async (updated: ExerciseResult) => {
+        await saveExerciseResult(updated);
+        setResults((prev) => prev.map((result) => (result.id === updated.id ? updated : result)));
+    };
+
+    if (isLoading) {
+        return <p className="text-gray-600">{t('common.loading', 'Loading...')}</p>;
+    }
+
+    return (
+        <section aria-labelledby="drawing-review-title" className="space-y-4">
+            <h4 id="drawing-review-title" className="font-medium text-gray-900">
+                {t('teacher.drawings.title', 'Drawings by {{name}}', { name: studentName })}
+            </h4>
+
+            {results.length === 0 ? (
+                <p className="text-gray-600">{t('teacher.drawings.empty', 'No drawings saved yet.')}</p>
+            ) : (
+                <ul className="space-y-4">
+                    {results.map((result) => (
+                        <DrawingCard
+                            key={result.id}
+                            result={result}
+                            instruction={instructions.get(result.exerciseId) ?? result.exerciseId}
+                            studentName={studentName}
+                            onSave={handleSave}
+                        />
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+}
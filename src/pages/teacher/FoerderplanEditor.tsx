@@ -0,0 +1,352 @@
+/**
+ * Foerderplan (support plan) editor for the teacher dashboard.
+ *
+ * One plan per student and period. New plans are pre-filled with the
+ * current level per area from the latest observation record or, if an
+ * area was not observed, from the child's profile levels. The plan can
+ * be printed (or saved as PDF) through a print-ready HTML view.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAreas } from '@core/config';
+import {
+    saveFoerderplan,
+    getFoerderplaeneByStudent,
+    getObservationRecordsByStudent,
+} from '@core/storage';
+import { getLatestObservationRecord } from '@core/utils/observation';
+import {
+    getSchoolYearPeriod,
+    createFoerderplan,
+    alignFoerderplan,
+    renderFoerderplanHtml,
+    type FoerderplanLevelSources,
+    type FoerderplanPrintLabels,
+} from '@core/utils/foerderplan';
+import type { Foerderplan, FoerderplanEntry, ObservationArea } from '@/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FoerderplanEditorProps {
+    /** ID of the student the plan belongs to */
+    studentId: string;
+    /** Display name of the student */
+    studentName: string;
+    /** Current levels of the child's profile, used when an area was not observed */
+    currentLevels?: Record<string, number>;
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+type EntryTextField =
+    | 'goalsConsolidate'
+    | 'goalsPrepare'
+    | 'activitiesIntegrative'
+    | 'activitiesParallel'
+    | 'documentation';
+
+const ENTRY_TEXT_FIELDS: readonly EntryTextField[] = [
+    'goalsConsolidate',
+    'goalsPrepare',
+    'activitiesIntegrative',
+    'activitiesParallel',
+    'documentation',
+];
+
+/**
+ * Drop empty teacher names left over from editing the comma-separated list.
+ */
+function normalizePlan(plan: Foerderplan): Foerderplan {
+    return {
+        ...plan,
+        involvedTeachers: plan.involvedTeachers.map((name) => name.trim()).filter(Boolean),
+    };
+}
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+interface LevelSelectProps {
+    id: string;
+    label: string;
+    area: ObservationArea;
+    value: number;
+    onChange: (level: number) => void;
+}
+
+/**
+ * Select for a stage of an area, including "unknown".
+ */
+function LevelSelect({ id, label, area, value, onChange }: LevelSelectProps) {
+    return (
+        <div className="flex flex-col gap-1">
+            <label htmlFor={id} className="text-sm text-gray-600">
+                {label}
+            </label>
+            <select
+                id={id}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+            >
+                <option value={0}>–</option>
+                {area.stages.map((stage) => (
+                    <option key={stage.level} value={stage.level}>
+                        {stage.level} – {stage.label}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Support plan editor component.
+ */
+export function FoerderplanEditor({ studentId, studentName, currentLevels }: FoerderplanEditorProps) {
+    const { t, i18n } = useTranslation();
+    const areas = useAreas();
+
+    const [period, setPeriod] = useState(() => getSchoolYearPeriod());
+    const [plans, setPlans] = useState<Foerderplan[]>([]);
+    const [sources, setSources] = useState<FoerderplanLevelSources>({});
+    const [draft, setDraft] = useState<Foerderplan | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+
+    // Load existing plans and the latest observation of the student
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadData = async () => {
+            setIsLoading(true);
+            try {
+                const [loadedPlans, observations] = await Promise.all([
+                    getFoerderplaeneByStudent(studentId),
+                    getObservationRecordsByStudent(studentId),
+                ]);
+                if (!cancelled) {
+                    setPlans(loadedPlans);
+                    setSources({ observation: getLatestObservationRecord(observations), currentLevels });
+                }
+            } catch (error) {
+                console.error('Failed to load support plans:', error);
+            } finally {
+                if (!cancelled) {
+                    setIsLoading(false);
+                }
+            }
+        };
+
+        loadData();
+        return () => {
+            cancelled = true;
+        };
+    }, [studentId, currentLevels]);
+
+    // Edit the stored plan of the period, or start a pre-filled one
+    useEffect(() => {
+        const trimmedPeriod = period.trim();
+        const stored = plans.find((p) => p.period === trimmedPeriod);
+        setDraft(
+            stored
+                ? alignFoerderplan(stored, areas, sources)
+                : createFoerderplan(studentId, trimmedPeriod, areas, sources)
+        );
+        setSaveStatus('idle');
+    }, [plans, period, studentId, areas, sources]);
+
+    /**
+     * Update a single plan entry in the draft.
+     */
+    const handleEntryChange = useCallback((areaId: string, changes: Partial<FoerderplanEntry>) => {
+        setDraft((prev) =>
+            prev
+                ? {
+                    ...prev,
+                    entries: prev.entries.map((e) => (e.areaId === areaId ? { ...e, ...changes } : e)),
+                }
+                : prev
+        );
+        setSaveStatus('idle');
+    }, []);
+
+    /**
+     * Save the plan for the selected period.
+     */
+    const handleSave = async () => {
+        if (!draft || !draft.period) return;
+
+        setSaveStatus('saving');
+        try {
+            const plan: Foerderplan = { ...normalizePlan(draft), updatedAt: new Date().toISOString() };
+            await saveFoerderplan(plan);
+            setPlans((prev) => [...prev.filter((p) => p.id !== plan.id), plan]);
+            setSaveStatus('saved');
+        } catch (error) {
+            console.error('Failed to save support plan:', error);
+            setSaveStatus('error');
+        }
+    };
+
+    /**
+     * Open the print-ready view of the plan.
+     */
+    const handlePrint = () => {
+        if (!draft) return;
+
+        const labels: FoerderplanPrintLabels = {
+            title: t('teacher.foerderplan.printTitle', 'Support plan'),
+            student: t('teacher.student', 'Student'),
+            period: t('teacher.foerderplan.period', 'Period'),
+            teachers: t('teacher.foerderplan.teachers', 'Involved teachers'),
+            currentLevel: t('teacher.foerderplan.currentLevel', 'Current stage'),
+            targetLevel: t('teacher.foerderplan.targetLevel', 'Target stage'),
+            goalsConsolidate: t('teacher.foerderplan.goalsConsolidate', 'Goals: consolidate'),
+            goalsPrepare: t('teacher.foerderplan.goalsPrepare', 'Goals: prepare next stage'),
+            activitiesIntegrative: t('teacher.foerderplan.activitiesIntegrative', 'Integrative support'),
+            activitiesParallel: t('teacher.foerderplan.activitiesParallel', 'Parallel support'),
+            documentation: t('teacher.foerderplan.documentation', 'Documentation'),
+            updatedAt: t('teacher.foerderplan.updatedAt', 'Last updated'),
+        };
+        const html = renderFoerderplanHtml(normalizePlan(draft), studentName, areas, labels, i18n.language);
+
+        const printWindow = window.open('', '_blank');
+        if (!printWindow) {
+            console.error('Failed to open print window');
+            return;
+        }
+        printWindow.document.open();
+        printWindow.document.write(html);
+        printWindow.document.close();
+        printWindow.focus();
+        printWindow.print();
+    };
+
+    if (isLoading || !draft) {
+        return <p className="text-gray-600">{t('common.loading', 'Loading...')}</p>;
+    }
+
+    return (
+        <section aria-labelledby="foerderplan-title" className="space-y-6">
+            <h4 id="foerderplan-title" className="font-medium text-gray-900">
+                {t('teacher.foerderplan.title', 'Support plan for {{name}}', { name: studentName })}
+            </h4>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="flex flex-col gap-1">
+                    <label htmlFor="foerderplan-period" className="text-sm text-gray-600">
+                        {t('teacher.foerderplan.period', 'Period')}
+                    </label>
+                    <input
+                        id="foerderplan-period"
+                        type="text"
+                        list="foerderplan-periods"
+                        value={period}
+                        onChange={(e) => setPeriod(e.target.value)}
+                        className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                    />
+                    <datalist id="foerderplan-periods">
+                        {plans.map((p) => (
+                            <option key={p.id} value={p.period} />
+                        ))}
+                    </datalist>
+                </div>
+                <div className="flex flex-col gap-1">
+                    <label htmlFor="foerderplan-teachers" className="text-sm text-gray-600">
+                        {t('teacher.foerderplan.teachers', 'Involved teachers')}
+                    </label>
+                    <input
+                        id="foerderplan-teachers"
+                        type="text"
+                        value={draft.involvedTeachers.join(', ')}
+                        onChange={(e) =>
+                            setDraft({
+                                ...draft,
+                                involvedTeachers: e.target.value.split(',').map((name) => name.trimStart()),
+                            })
+                        }
+                        placeholder={t('teacher.foerderplan.teachersHint', 'Separate names with commas')}
+                        className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                    />
+                </div>
+            </div>
+
+            {areas.map((area) => {
+                const entry = draft.entries.find((e) => e.areaId === area.id);
+                if (!entry) return null;
+                const fieldId = `fp-${area.id}`;
+
+                return (
+                    <div key={area.id} className="bg-gray-50 rounded-lg p-4 space-y-3">
+                        <div className="font-medium text-gray-800">{area.name}</div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <LevelSelect
+                                id={`${fieldId}-current`}
+                                label={t('teacher.foerderplan.currentLevel', 'Current stage')}
+                                area={area}
+                                value={entry.currentLevel}
+                                onChange={(level) => handleEntryChange(area.id, { currentLevel: level })}
+                            />
+                            <LevelSelect
+                                id={`${fieldId}-target`}
+                                label={t('teacher.foerderplan.targetLevel', 'Target stage')}
+                                area={area}
+                                value={entry.targetLevel}
+                                onChange={(level) => handleEntryChange(area.id, { targetLevel: level })}
+                            />
+                        </div>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {ENTRY_TEXT_FIELDS.map((field) => (
+                                <div key={field} className="flex flex-col gap-1">
+                                    <label htmlFor={`${fieldId}-${field}`} className="text-sm text-gray-600">
+                                        {t(`teacher.foerderplan.${field}`, field)}
+                                    </label>
+                                    <textarea
+                                        id={`${fieldId}-${field}`}
+                                        value={entry[field]}
+                                        onChange={(e) => handleEntryChange(area.id, { [field]: e.target.value })}
+                                        rows={2}
+                                        className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+
+            <div className="flex flex-wrap items-center gap-4">
+                <button
+                    onClick={handleSave}
+                    disabled={saveStatus === 'saving' || !draft.period}
+                    className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                    {t('common.save', 'Save')}
+                </button>
+                <button
+                    onClick={handlePrint}
+                    className="py-2 px-4 bg-gray-100 text-gray-900 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                >
+                    🖨️ {t('teacher.foerderplan.print', 'Print / PDF')}
+                </button>
+                <span role="status" className="text-sm">
+                    {saveStatus === 'saved' && (
+                        <span className="text-green-700">{t('teacher.foerderplan.saved', 'Support plan saved')}</span>
+                    )}
+                    {saveStatus === 'error' && (
+                        <span className="text-red-700">{t('teacher.foerderplan.saveFailed', 'Support plan could not be saved')}</span>
+                    )}
+                </span>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,440 @@
+/**
+ * Observation editor for the teacher dashboard.
+ *
+ * Lets teachers record the USB-DaZ observation for one student at the
+ * three yearly time points (t1/t2/t3). The form for each area is built
+ * from the configured observation area stages.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAreas } from '@core/config';
+import { saveObservationRecord, getObservationRecordsByStudent } from '@core/storage';
+import {
+    OBSERVATION_TIME_POINTS,
+    FREQUENCY_RATINGS,
+    OBSERVATION_TEXT_TYPES,
+    getObservationAreaMode,
+    createObservationRecord,
+    alignObservationRecord,
+    deriveAchievedLevel,
+    finalizeObservationRecord,
+} from '@core/utils/observation';
+import type {
+    AreaObservation,
+    FrequencyRating,
+    ObservationArea,
+    ObservationRecord,
+    TimePoint,
+} from '@/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ObservationEditorProps {
+    /** ID of the student the observations belong to */
+    studentId: string;
+    /** Display name of the student */
+    studentName: string;
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+// ============================================================================
+// Sub-components
+// ============================================================================
+
+interface StageSelectProps {
+    id: string;
+    label: string;
+    area: ObservationArea;
+    value: number;
+    onChange: (level: number) => void;
+}
+
+/**
+ * Select for a stage of an area, including "not observed".
+ */
+function StageSelect({ id, label, area, value, onChange }: StageSelectProps) {
+    const { t } = useTranslation();
+
+    return (
+        <div className="flex flex-col gap-1">
+            <label htmlFor={id} className="text-sm text-gray-600">
+                {label}
+            </label>
+            <select
+                id={id}
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+            >
+                <option value={0}>{t('teacher.observation.notObserved', 'Not observed')}</option>
+                {area.stages.map((stage) => (
+                    <option key={stage.level} value={stage.level}>
+                        {stage.level} – {stage.label}
+                    </option>
+                ))}
+            </select>
+        </div>
+    );
+}
+
+interface AreaObservationFieldsProps {
+    area: ObservationArea;
+    observation: AreaObservation;
+    onChange: (observation: AreaObservation) => void;
+}
+
+/**
+ * Form fields for one observation area, depending on its mode.
+ */
+function AreaObservationFields({ area, observation, onChange }: AreaObservationFieldsProps) {
+    const { t } = useTranslation();
+    const mode = getObservationAreaMode(area.id);
+    const fieldId = `obs-${area.id}`;
+
+    switch (mode) {
+        case 'strategies':
+            return (
+                <fieldset className="space-y-2">
+                    <legend className="sr-only">{area.name}</legend>
+                    {area.stages.map((stage) => {
+                        const key = String(stage.level);
+                        return (
+                            <label key={key} className="flex items-start gap-2 text-sm">
+                                <input
+                                    type="checkbox"
+                                    className="mt-1"
+                                    checked={observation.strategyChecks?.[key] ?? false}
+                                    onChange={(e) =>
+                                        onChange({
+                                            ...observation,
+                                            strategyChecks: { ...observation.strategyChecks, [key]: e.target.checked },
+                                        })
+                                    }
+                                />
+                                <span>
+                                    <span className="font-medium">{stage.label}</span>
+                                    <span className="text-gray-500"> – {stage.description}</span>
+                                </span>
+                            </label>
+                        );
+                    })}
+                </fieldset>
+            );
+
+        case 'orthography':
+            return (
+                <div className="space-y-2">
+                    {area.stages.map((stage) => {
+                        const key = String(stage.level);
+                        const id = `${fieldId}-${key}`;
+                        return (
+                            <div key={key} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                                <label htmlFor={id}>
+                                    <span className="font-medium">{stage.label}</span>
+                                    <span className="text-gray-500"> – {stage.description}</span>
+                                </label>
+                                <select
+                                    id={id}
+                                    value={observation.orthographyRatings?.[key] ?? ''}
+                                    onChange={(e) => {
+                                        const ratings = { ...observation.orthographyRatings };
+                                        if (e.target.value) {
+                                            ratings[key] = e.target.value as FrequencyRating;
+                                        } else {
+                                            delete ratings[key];
+                                        }
+                                        onChange({ ...observation, orthographyRatings: ratings });
+                                    }}
+                                    className="border border-gray-300 rounded-lg px-2 py-1"
+                                >
+                                    <option value="">–</option>
+                                    {FREQUENCY_RATINGS.map((rating) => (
+                                        <option key={rating} value={rating}>
+                                            {t(`teacher.observation.frequency.${rating}`, rating)}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        );
+                    })}
+                </div>
+            );
+
+        case 'textTypes':
+            return (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {OBSERVATION_TEXT_TYPES.map((textType) => (
+                        <StageSelect
+                            key={textType}
+                            id={`${fieldId}-${textType}`}
+                            label={t(`teacher.observation.textTypes.${textType}`, textType)}
+                            area={area}
+                            value={observation.textTypeRatings?.[textType] ?? 0}
+                            onChange={(level) => {
+                                const ratings = { ...observation.textTypeRatings };
+                                if (level > 0) {
+                                    ratings[textType] = level;
+                                } else {
+                                    delete ratings[textType];
+                                }
+                                onChange({ ...observation, textTypeRatings: ratings });
+                            }}
+                        />
+                    ))}
+                </div>
+            );
+
+        case 'productiveReceptive':
+            return (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <StageSelect
+                        id={`${fieldId}-productive`}
+                        label={t('teacher.observation.productive', 'Productive')}
+                        area={area}
+                        value={observation.productiveLevel ?? 0}
+                        onChange={(level) => onChange({ ...observation, productiveLevel: level })}
+                    />
+                    <StageSelect
+                        id={`${fieldId}-receptive`}
+                        label={t('teacher.observation.receptive', 'Receptive')}
+                        area={area}
+                        value={observation.receptiveLevel ?? 0}
+                        onChange={(level) => onChange({ ...observation, receptiveLevel: level })}
+                    />
+                </div>
+            );
+
+        default:
+            return (
+                <StageSelect
+                    id={`${fieldId}-level`}
+                    label={t('teacher.observation.achievedLevel', 'Achieved stage')}
+                    area={area}
+                    value={observation.achievedLevel}
+                    onChange={(level) => onChange({ ...observation, achievedLevel: level })}
+                />
+            );
+    }
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Observation editor component.
+ * Loads the student's records and edits one time point at a time.
+ */
+export function ObservationEditor({ studentId, studentName }: ObservationEditorProps) {
+    const { t } = useTranslation();
+    const areas = useAreas();
+
+    const [timePoint, setTimePoint] = useState<TimePoint>('t1');
+    const [records, setRecords] = useState<ObservationRecord[]>([]);
+    const [draft, setDraft] = useState<ObservationRecord | null>(null);
+    const [isLoading, setIsLoading] = useState(true);
+    const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+
+    // Load all records of the student
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadRecords = async () => {
+            setIsLoading(true);
+            try {
+                const loaded = await getObservationRecordsByStudent(studentId);
+                if (!cancelled) {
+                    setRecords(loaded);
+                }
+            } catch (error) {
+                console.error('Failed to load observation records:', error);
+            } finally {
+                if (!cancelled) {
+                    setIsLoading(false);
+                }
+            }
+        };
+
+        loadRecords();
+        return () => {
+            cancelled = true;
+        };
+    }, [studentId]);
+
+    // Start editing the stored record of the time point, or a new one
+    useEffect(() => {
+        const stored = records.find((r) => r.timePoint === timePoint);
+        setDraft(
+            stored
+                ? alignObservationRecord(stored, areas)
+                : createObservationRecord(studentId, timePoint, areas)
+        );
+        setSaveStatus('idle');
+    }, [records, timePoint, studentId, areas]);
+
+    // Group areas by category for display
+    const areasByCategory = useMemo(() => {
+        const groups = new Map<string, ObservationArea[]>();
+        for (const area of areas) {
+            const group = groups.get(area.category) ?? [];
+            group.push(area);
+            groups.set(area.category, group);
+        }
+        return Array.from(groups.entries());
+    }, [areas]);
+
+    /**
+     * Update a single area observation in the draft.
+     */
+    const handleAreaChange = useCallback((updated: AreaObservation) => {
+        setDraft((prev) =>
+            prev
+                ? {
+                    ...prev,
+                    observations: prev.observations.map((o) => (o.areaId === updated.areaId ? updated : o)),
+                }
+                : prev
+        );
+        setSaveStatus('idle');
+    }, []);
+
+    /**
+     * Save the draft for the selected time point.
+     */
+    const handleSave = async () => {
+        if (!draft) return;
+
+        setSaveStatus('saving');
+        try {
+            const record = finalizeObservationRecord(draft);
+            await saveObservationRecord(record);
+            setRecords((prev) => [...prev.filter((r) => r.id !== record.id), record]);
+            setSaveStatus('saved');
+        } catch (error) {
+            console.error('Failed to save observation record:', error);
+            setSaveStatus('error');
+        }
+    };
+
+    if (isLoading || !draft) {
+        return <p className="text-gray-600">{t('common.loading', 'Loading...')}</p>;
+    }
+
+    return (
+        <section aria-labelledby="observation-title" className="space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <h4 id="observation-title" className="font-medium text-gray-900">
+                    {t('teacher.observation.title', 'Observations for {{name}}', { name: studentName })}
+                </h4>
+
+                {/* Time point tabs */}
+                <div role="tablist" aria-label={t('teacher.observation.timePoint', 'Time point')} className="flex gap-2">
+                    {OBSERVATION_TIME_POINTS.map((tp) => {
+                        const hasRecord = records.some((r) => r.timePoint === tp);
+                        return (
+                            <button
+                                key={tp}
+                                role="tab"
+                                aria-selected={timePoint === tp}
+                                onClick={() => setTimePoint(tp)}
+                                className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${timePoint === tp
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                                    }`}
+                            >
+                                {t(`teacher.observation.timePoints.${tp}`, tp.toUpperCase())}
+                                {hasRecord && ' ✓'}
+                            </button>
+                        );
+                    })}
+                </div>
+            </div>
+
+            <div className="flex flex-col gap-1 max-w-xs">
+                <label htmlFor="observation-date" className="text-sm text-gray-600">
+                    {t('teacher.observation.date', 'Date')}
+                </label>
+                <input
+                    id="observation-date"
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => setDraft({ ...draft, date: e.target.value })}
+                    className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                />
+            </div>
+
+            {/* Areas grouped by category */}
+            {areasByCategory.map(([category, categoryAreas]) => (
+                <div key={category} className="space-y-3">
+                    <h5 className="text-sm font-semibold uppercase tracking-wide text-gray-500">{category}</h5>
+                    {categoryAreas.map((area) => {
+                        const observation = draft.observations.find((o) => o.areaId === area.id);
+                        if (!observation) return null;
+                        const level = deriveAchievedLevel(observation);
+
+                        return (
+                            <div key={area.id} className="bg-gray-50 rounded-lg p-4 space-y-3">
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-medium text-gray-800">{area.name}</span>
+                                    <span className="text-xs text-gray-500">
+                                        {level > 0
+                                            ? t('teacher.observation.stage', 'Stage {{level}}', { level })
+                                            : t('teacher.observation.notObserved', 'Not observed')}
+                                    </span>
+                                </div>
+                                <AreaObservationFields
+                                    area={area}
+                                    observation={observation}
+                                    onChange={handleAreaChange}
+                                />
+                                <textarea
+                                    value={observation.notes}
+                                    onChange={(e) => handleAreaChange({ ...observation, notes: e.target.value })}
+                                    placeholder={t('teacher.observation.areaNotes', 'Notes')}
+                                    aria-label={`${area.name}: ${t('teacher.observation.areaNotes', 'Notes')}`}
+                                    rows={2}
+                                    className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+
+            <div className="flex flex-col gap-1">
+                <label htmlFor="observation-notes" className="text-sm text-gray-600">
+                    {t('teacher.observation.notes', 'General notes')}
+                </label>
+                <textarea
+                    id="observation-notes"
+                    value={draft.notes}
+                    onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+                    rows={3}
+                    className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                />
+            </div>
+
+            <div className="flex items-center gap-4">
+                <button
+                    onClick={handleSave}
+                    disabled={saveStatus === 'saving'}
+                    className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                    {t('common.save', 'Save')}
+                </button>
+                <span role="status" className="text-sm">
+                    {saveStatus === 'saved' && (
+                        <span className="text-green-700">{t('teacher.observation.saved', 'Observation saved')}</span>
+                    )}
+                    {saveStatus === 'error' && (
+                        <span className="text-red-700">{t('teacher.observation.saveFailed', 'Observation could not be saved')}</span>
+                    )}
+                </span>
+            </div>
+        </section>
+    );
+}
@@ -0,0 +1,439 @@
+/**
+ * Student records manager for the teacher dashboard.
+ *
+ * Lets teachers create, edit and delete student profiles (real name,
+ * class, first languages, support measure) and link each student to
+ * one or more of the nickname-based child profiles on this device.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { saveStudentProfile, deleteStudentProfile, moveStudentRecords } from '@core/storage';
+import {
+    SUPPORT_MEASURES,
+    STUDENT_STATUSES,
+    createStudentProfile,
+    parseFirstLanguages,
+    getStudentsByProfileId,
+    linkProfilesToStudent,
+} from '@core/utils/student';
+import type { StudentProfile, StudentStatus, SupportMeasure, UserProfile } from '@/types';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface StudentManagerProps {
+    /** All student profiles */
+    students: StudentProfile[];
+    /** All child profiles on this device */
+    profiles: UserProfile[];
+    /** Called with the updated list after students were saved or deleted */
+    onStudentsChange: (students: StudentProfile[]) => void;
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+/**
+ * Editable form state of a student profile.
+ */
+interface StudentDraft {
+    student: StudentProfile;
+    languagesText: string;
+}
+
+/**
+ * Build the stored profile from the form, omitting empty optional fields.
+ */
+function toStudentProfile({ student, languagesText }: StudentDraft): StudentProfile {
+    const { className, dateOfBirth, ...rest } = student;
+    const trimmedClass = className?.trim() ?? '';
+
+    return {
+        ...rest,
+        name: student.name.trim(),
+        firstLanguages: parseFirstLanguages(languagesText),
+        ...(trimmedClass ? { className: trimmedClass } : {}),
+        ...(dateOfBirth ? { dateOfBirth } : {}),
+        updatedAt: new Date().toISOString(),
+    };
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+/**
+ * Student records manager component.
+ */
+export function StudentManager({ students, profiles, onStudentsChange }: StudentManagerProps) {
+    const { t } = useTranslation();
+
+    const [draft, setDraft] = useState<StudentDraft | null>(null);
+    const [deleteTarget, setDeleteTarget] = useState<string | null>(null);
+    const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+
+    const studentsByProfile = getStudentsByProfileId(students);
+    const profileById = new Map(profiles.map((p) => [p.id, p]));
+
+    /**
+     * Update fields of the edited student.
+     */
+    const updateStudent = (changes: Partial<StudentProfile>) => {
+        setDraft((prev) => (prev ? { ...prev, student: { ...prev.student, ...changes } } : prev));
+        setSaveStatus('idle');
+    };
+
+    /**
+     * Toggle the link between the edited student and a child profile.
+     */
+    const toggleProfile = (profileId: string) => {
+        if (!draft) return;
+        const linked = draft.student.linkedProfileIds;
+        updateStudent({
+            linkedProfileIds: linked.includes(profileId)
+                ? linked.filter((id) => id !== profileId)
+                : [...linked, profileId],
+        });
+    };
+
+    /**
+     * Start editing a new or existing student.
+     */
+    const handleEdit = (student: StudentProfile) => {
+        setDraft({ student, languagesText: student.firstLanguages.join(', ') });
+        setDeleteTarget(null);
+        setSaveStatus('idle');
+    };
+
+    /**
+     * Save the edited student and move its profile links away from other students.
+     */
+    const handleSave = async () => {
+        if (!draft || !draft.student.name.trim()) return;
+
+        setSaveStatus('saving');
+        try {
+            const student = toStudentProfile(draft);
+            const others = students.filter((s) => s.id !== student.id);
+            const changed = linkProfilesToStudent([...others, student], student.id, student.linkedProfileIds);
+            await Promise.all(changed.map(saveStudentProfile));
+
+            // Records of a profile are saved under the profile ID until it is linked
+            const previouslyLinked = new Set(
+                students.find((s) => s.id === student.id)?.linkedProfileIds ?? []
+            );
+            for (const profileId of student.linkedProfileIds) {
+                if (!previouslyLinked.has(profileId)) {
+                    await moveStudentRecords(profileId, student.id);
+                }
+            }
+
+            const changedById = new Map(changed.map((s) => [s.id, s]));
+            const isNew = !students.some((s) => s.id === student.id);
+            onStudentsChange([
+                ...students.map((s) => changedById.get(s.id) ?? s),
+                ...(isNew ? [changedById.get(student.id) ?? student] : []),
+            ]);
+            setDraft(null);
+            setSaveStatus('saved');
+        } catch (error) {
+            console.error('Failed to save student:', error);
+            setSaveStatus('error');
+        }
+    };
+
+    /**
+     * Delete a student. Linked child profiles and their progress are kept.
+     */
+    const handleConfirmDelete = async () => {
+        if (!deleteTarget) return;
+
+        try {
+            await deleteStudentProfile(deleteTarget);
+            onStudentsChange(students.filter((s) => s.id !== deleteTarget));
+            if (draft?.student.id === deleteTarget) {
+                setDraft(null);
+            }
+        } catch (error) {
+            console.error('Failed to delete student:', error);
+        } finally {
+            setDeleteTarget(null);
+        }
+    };
+
+    return (
+        <section aria-labelledby="student-manager-title" className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h2 id="student-manager-title" className="text-lg font-semibold text-gray-900">
+                    {t('teacher.studentRecords.title', 'Student records')}
+                </h2>
+                <button
+                    onClick={() => handleEdit(createStudentProfile())}
+                    className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+                >
+                    + {t('teacher.studentRecords.add', 'Add student')}
+                </button>
+            </div>
+
+            {/* Student List */}
+            {students.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                    {t('teacher.studentRecords.empty', 'No student records yet')}
+                </p>
+            ) : (
+                <ul className="divide-y divide-gray-100 bg-white border border-gray-200 rounded-xl">
+                    {students.map((student) => (
+                        <li key={student.id} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+                            <div>
+                                <div className="font-medium text-gray-900">
+                                    {student.name}
+                                    {student.className && (
+                                        <span className="ml-2 text-sm text-gray-500">({student.className})</span>
+                                    )}
+                                </div>
+                                <div className="text-xs text-gray-500">
+                                    {t(`teacher.studentRecords.supportMeasures.${student.supportMeasure}`, student.supportMeasure)}
+                                    {' · '}
+                                    {student.linkedProfileIds
+                                        .map((id) => profileById.get(id)?.nickname)
+                                        .filter(Boolean)
+                                        .join(', ') || t('teacher.studentRecords.notLinked', 'No linked profile')}
+                                </div>
+                            </div>
+                            {deleteTarget === student.id ? (
+                                <div className="flex items-center gap-2">
+                                    <span className="text-sm text-red-700">
+                                        {t('teacher.studentRecords.deleteConfirm', 'Delete this student record?')}
+                                    </span>
+                                    <button
+                                        onClick={handleConfirmDelete}
+                                        className="px-3 py-1 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                                    >
+                                        {t('common.delete', 'Delete')}
+                                    </button>
+                                    <button
+                                        onClick={() => setDeleteTarget(null)}
+                                        className="px-3 py-1 text-sm bg-gray-100 text-gray-900 rounded-lg hover:bg-gray-200 transition-colors"
+                                    >
+                                        {t('common.cancel', 'Cancel')}
+                                    </button>
+                                </div>
+                            ) : (
+                                <div className="flex items-center gap-2">
+                                    <button
+                                        onClick={() => handleEdit(student)}
+                                        className="px-3 py-1 text-sm bg-gray-100 text-gray-900 rounded-lg hover:bg-gray-200 transition-colors"
+                                        aria-label={`${t('common.edit', 'Edit')}: ${student.name}`}
+                                    >
+                                        {t('common.edit', 'Edit')}
+                                    </button>
+                                    <button
+                                        onClick={() => setDeleteTarget(student.id)}
+                                        className="px-3 py-1 text-sm bg-red-100 text-red-700 rounded-lg hover:bg-red-200 transition-colors"
+                                        aria-label={`${t('common.delete', 'Delete')}: ${student.name}`}
+                                    >
+                                        {t('common.delete', 'Delete')}
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {/* Student Form */}
+            {draft && (
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        handleSave();
+                    }}
+                    className="bg-gray-50 rounded-xl p-4 space-y-4"
+                    aria-label={t('teacher.studentRecords.form', 'Edit student record')}
+                >
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="flex flex-col gap-1">
+                            <label htmlFor="student-name" className="text-sm text-gray-600">
+                                {t('teacher.studentRecords.name', 'Name')}
+                            </label>
+                            <input
+                                id="student-name"
+                                type="text"
+                                required
+                                value={draft.student.name}
+                                onChange={(e) => updateStudent({ name: e.target.value })}
+                                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                            />
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <label htmlFor="student-class" className="text-sm text-gray-600">
+                                {t('teacher.studentRecords.className', 'Class')}
+                            </label>
+                            <input
+                                id="student-class"
+                                type="text"
+                                value={draft.student.className ?? ''}
+                                onChange={(e) => updateStudent({ className: e.target.value })}
+                                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                            />
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <label htmlFor="student-birth" className="text-sm text-gray-600">
+                                {t('teacher.studentRecords.dateOfBirth', 'Date of birth')}
+                            </label>
+                            <input
+                                id="student-birth"
+                                type="date"
+                                value={draft.student.dateOfBirth ?? ''}
+                                onChange={(e) => updateStudent({ dateOfBirth: e.target.value })}
+                                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                            />
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <label htmlFor="student-languages" className="text-sm text-gray-600">
+                                {t('teacher.studentRecords.firstLanguages', 'First languages')}
+                            </label>
+                            <input
+                                id="student-languages"
+                                type="text"
+                                value={draft.languagesText}
+                                onChange={(e) => {
+                                    setDraft({ ...draft, languagesText: e.target.value });
+                                    setSaveStatus('idle');
+                                }}
+                                placeholder={t('teacher.studentRecords.firstLanguagesHint', 'Separate languages with commas')}
+                                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                            />
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <label htmlFor="student-contact" className="text-sm text-gray-600">
+                                {t('teacher.studentRecords.contactDuration', 'German instruction (months)')}
+                            </label>
+                            <input
+                                id="student-contact"
+                                type="number"
+                                min={0}
+                                value={draft.student.contactDurationMonths}
+                                onChange={(e) =>
+                                    updateStudent({ contactDurationMonths: Math.max(0, Number(e.target.value) || 0) })
+                                }
+                                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                            />
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <label htmlFor="student-status" className="text-sm text-gray-600">
+                                {t('teacher.studentRecords.status', 'Status')}
+                            </label>
+                            <select
+                                id="student-status"
+                                value={draft.student.status}
+                                onChange={(e) => updateStudent({ status: e.target.value as StudentStatus })}
+                                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                            >
+                                {STUDENT_STATUSES.map((status) => (
+                                    <option key={status} value={status}>
+                                        {t(`teacher.studentRecords.statuses.${status}`, status)}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="flex flex-col gap-1">
+                            <label htmlFor="student-measure" className="text-sm text-gray-600">
+                                {t('teacher.studentRecords.supportMeasure', 'Support measure')}
+                            </label>
+                            <select
+                                id="student-measure"
+                                value={draft.student.supportMeasure}
+                                onChange={(e) => updateStudent({ supportMeasure: e.target.value as SupportMeasure })}
+                                className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                            >
+                                {SUPPORT_MEASURES.map((measure) => (
+                                    <option key={measure} value={measure}>
+                                        {t(`teacher.studentRecords.supportMeasures.${measure}`, measure)}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="flex flex-col gap-1">
+                        <label htmlFor="student-notes" className="text-sm text-gray-600">
+                            {t('teacher.studentRecords.notes', 'Notes')}
+                        </label>
+                        <textarea
+                            id="student-notes"
+                            value={draft.student.notes}
+                            onChange={(e) => updateStudent({ notes: e.target.value })}
+                            rows={2}
+                            className="border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                        />
+                    </div>
+
+                    {/* Linked Child Profiles */}
+                    <fieldset>
+                        <legend className="text-sm text-gray-600 mb-2">
+                            {t('teacher.studentRecords.linkedProfiles', 'Linked child profiles')}
+                        </legend>
+                        {profiles.length === 0 ? (
+                            <p className="text-sm text-gray-500">
+                                {t('teacher.noStudents', 'No students found')}
+                            </p>
+                        ) : (
+                            <div className="flex flex-wrap gap-3">
+                                {profiles.map((profile) => {
+                                    const owner = studentsByProfile.get(profile.id);
+                                    const linkedElsewhere = owner && owner.id !== draft.student.id;
+                                    return (
+                                        <label
+                                            key={profile.id}
+                                            className="flex items-center gap-2 px-3 py-1 bg-white border border-gray-200 rounded-lg text-sm"
+                                        >
+                                            <input
+                                                type="checkbox"
+                                                checked={draft.student.linkedProfileIds.includes(profile.id)}
+                                                onChange={() => toggleProfile(profile.id)}
+                                            />
+                                            <span>{profile.avatarId} {profile.nickname}</span>
+                                            {linkedElsewhere && (
+                                                <span className="text-xs text-gray-500">
+                                                    {t('teacher.studentRecords.linkedTo', '(linked to {{name}})', { name: owner.name })}
+                                                </span>
+                                            )}
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        )}
+                    </fieldset>
+
+                    <div className="flex flex-wrap items-center gap-3">
+                        <button
+                            type="submit"
+                            disabled={saveStatus === 'saving' || !draft.student.name.trim()}
+                            className="py-2 px-4 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                            {t('common.save', 'Save')}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setDraft(null)}
+                            className="py-2 px-4 bg-gray-100 text-gray-900 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                        >
+                            {t('common.cancel', 'Cancel')}
+                        </button>
+                    </div>
+                </form>
+            )}
+
+            <span role="status" className="text-sm">
+                {saveStatus === 'saved' && (
+                    <span className="text-green-700">{t('teacher.studentRecords.saved', 'Student record saved')}</span>
+                )}
+                {saveStatus === 'error' && (
+                    <span className="text-red-700">{t('teacher.studentRecords.saveFailed', 'Student record could not be saved')}</span>
+                )}
+            </span>
+        </section>
+    );
+}
@@ -0,0 +1,14 @@
+/**
+ * Teacher page components.
+ *
+ * Exports the editors used by the teacher dashboard.
+ */
+
+export { ObservationEditor } from './ObservationEditor';
+export type { ObservationEditorProps } from './ObservationEditor';
+export { FoerderplanEditor } from './FoerderplanEditor';
+export type { FoerderplanEditorProps } from './FoerderplanEditor';
+export { DrawingReview } from './DrawingReview';
+export type { DrawingReviewProps } from './DrawingReview';
+export { StudentManager } from './StudentManager';
+export type { StudentManagerProps } from './StudentManager';
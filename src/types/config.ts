@@ -36,6 +36,30 @@ export interface SubjectConfig {
     enabledExerciseTypes: ExerciseType[];
     /** Custom exercise type configurations */
     exerciseTypeConfig?: Partial<Record<ExerciseType, ExerciseTypeConfig>>;
+    /** Number of levels and how they are unlocked (default: 4 levels, all-themes gating) */
+    levelProgression?: LevelProgressionConfig;
+    /** Accessibility settings on first start (missing values use the engine defaults) */
+    accessibility?: Partial<AccessibilityDefaults>;
+}
+
+/**
+ * Rule for unlocking the next level of the themes.
+ * - 'all-themes': level N+1 opens once level N is completed in every theme
+ * - 'per-theme': each theme unlocks its levels on its own
+ * - 'percentage': level N+1 opens once level N is completed in a share of the themes
+ */
+export type LevelUnlockRule = 'all-themes' | 'per-theme' | 'percentage';
+
+/**
+ * Level progression settings of a subject.
+ */
+export interface LevelProgressionConfig {
+    /** Number of levels per theme (default: 4) */
+    levelCount?: number;
+    /** How the next level is unlocked (default: 'all-themes') */
+    unlockRule?: LevelUnlockRule;
+    /** Share of themes in percent for the 'percentage' rule (default: 75) */
+    unlockPercentage?: number;
 }
 
 /**
@@ -43,25 +67,31 @@ export interface SubjectConfig {
  * Allows customization of behavior per exercise type.
  */
 export interface ExerciseTypeConfig {
-    /** Whether hints are enabled for this type */
+    /** Whether hints are enabled for this type (default: true) */
     hintsEnabled?: boolean;
-    /** Maximum attempts allowed */
+    /** Maximum attempts allowed (default: 3, 0 = unlimited) */
     maxAttempts?: number;
-    /** Custom scoring rules */
+    /** Expected time in seconds, used by the 'time' star strategy */
+    expectedTimeSeconds?: number;
+    /** Custom scoring rules, used by the 'custom' star strategy */
     scoring?: ScoringRule[];
 }
 
 /**
  * Custom scoring rule for an exercise type.
+ * Rules are applied in order to the attempts-based star rating.
  */
 export interface ScoringRule {
     /** Rule identifier */
     id: string;
     /** Rule description */
     description: string;
-    /** Condition for applying the rule */
+    /**
+     * Condition for applying the rule, e.g. "attempts == 1 && time <= 5".
+     * Variables: attempts, time, expectedTime, timeRatio, difficulty, maxAttempts, stars.
+     */
     condition: string;
-    /** Score modifier or calculation */
+    /** Absolute star count (e.g. 3) or relative change (e.g. "+1", "-1") */
     scoreModifier: number | string;
 }
 
@@ -126,6 +156,8 @@ export interface Theme {
     description: string;
     /** Minimum level required to access this theme */
     minLevel: number;
+    /** Pen colours of drawing exercises in this theme (CSS color values) */
+    palette?: string[];
 }
 
 /**
@@ -201,6 +233,8 @@ export interface GamificationConfig {
     starStrategy: StarStrategy;
     /** Maximum stars per exercise */
     maxStarsPerExercise: number;
+    /** Give harder exercises more time under the 'time' star strategy */
+    difficultyWeighting?: boolean;
     /** Level progression thresholds */
     levelThresholds: LevelThreshold[];
     /** Streak configuration */
@@ -229,6 +263,8 @@ export interface AccessibilityDefaults {
     defaultAnimationsEnabled: boolean;
     /** Default sound enabled */
     defaultSoundEnabled: boolean;
+    /** Default read-aloud mode enabled */
+    defaultReadAloudEnabled: boolean;
 }
 
 // ============================================================================
@@ -19,7 +19,20 @@ export type ExerciseType =
     | 'conjugation-table'
     | 'connector-insert'
     | 'word-order'
-    | 'picture-vocabulary';
+    | 'picture-vocabulary'
+    | 'cloze-text'
+    | 'number-line'
+    | 'clock'
+    | 'listening'
+    | 'hotspot'
+    | 'sequence'
+    | 'memory'
+    | 'crossword'
+    | 'arithmetic'
+    | 'drawing'
+    | 'note-reading'
+    | 'rhythm'
+    | 'syllables';
 
 /**
  * Template literal type for observation area identifiers.
@@ -54,6 +67,18 @@ export interface FillBlankContent {
     numericWordForm?: string;
 }
 
+/**
+ * Picture bundled with an app.
+ * Files live in `src/apps/<id>/assets/` and are copied (small ones inlined)
+ * into the build, so they also work offline from a USB stick.
+ */
+export interface ExerciseImage {
+    /** File relative to the app (e.g. "assets/images/hund.svg") */
+    src: string;
+    /** Description of the picture for screen readers (required) */
+    alt: string;
+}
+
 /**
  * Multiple choice exercise content.
  * User selects one correct answer from multiple options.
@@ -67,6 +92,8 @@ export interface MultipleChoiceContent {
     options: string[];
     /** Index of the correct option in the options array */
     correctIndex: number;
+    /** Pictures shown with options, keyed by option text */
+    images?: Record<string, ExerciseImage>;
 }
 
 /**
@@ -78,6 +105,8 @@ export interface MatchingContent {
     type: 'matching';
     /** Pairs to be matched, presented as separate left/right lists */
     pairs: { left: string; right: string }[];
+    /** Pictures shown with left or right items, keyed by item text */
+    images?: Record<string, ExerciseImage>;
 }
 
 /**
@@ -107,6 +136,8 @@ export interface SortingContent {
     type: 'sorting';
     /** Categories with their correct items */
     categories: { label: string; items: string[] }[];
+    /** Pictures shown with items, keyed by item text */
+    images?: Record<string, ExerciseImage>;
 }
 
 /**
@@ -191,10 +222,12 @@ export interface WordOrderContent {
 export interface PictureVocabularyContent {
     /** Discriminant for exercise content union */
     type: 'picture-vocabulary';
-    /** Emoji or unicode symbol used as the picture prompt */
-    picture: string;
-    /** Accessible description of the picture for screen readers */
-    pictureAlt: string;
+    /** Emoji or unicode symbol used as the picture prompt (if there is no image) */
+    picture?: string;
+    /** Accessible description of the emoji picture for screen readers */
+    pictureAlt?: string;
+    /** Picture from the app's assets, shown instead of the emoji */
+    image?: ExerciseImage;
     /** The correct vocabulary word */
     correctAnswer: string;
     /** Additional acceptable answers (synonyms, etc.) */
@@ -203,6 +236,345 @@ export interface PictureVocabularyContent {
     options: string[];
 }
 
+/**
+ * A numbered blank in a cloze text.
+ */
+export interface ClozeBlank {
+    /** Number of the blank, referenced as {{n}} in the text */
+    id: number;
+    /** The primary correct answer */
+    correctAnswer: string;
+    /** Additional acceptable answers (synonyms, variations) */
+    acceptableAnswers?: string[];
+    /** If set, the blank is a dropdown with these options instead of a text field */
+    options?: string[];
+}
+
+/**
+ * Cloze text exercise content.
+ * User fills in many numbered blanks in a paragraph.
+ * Each blank is scored on its own.
+ */
+export interface ClozeTextContent {
+    /** Discriminant for exercise content union */
+    type: 'cloze-text';
+    /** Paragraph containing numbered {{1}}, {{2}}, ... placeholders */
+    text: string;
+    /** The blanks referenced in the text */
+    blanks: ClozeBlank[];
+    /** Whether answers must match the case (default: true) */
+    caseSensitive?: boolean;
+    /** Share of blanks (0-1) that must be correct to solve the exercise (default: 1) */
+    passRatio?: number;
+}
+
+/**
+ * Number line exercise content.
+ * User places a marker on the line ('place') or reads off the
+ * number at a marked position ('read').
+ */
+export interface NumberLineContent {
+    /** Discriminant for exercise content union */
+    type: 'number-line';
+    /** Whether the child places the marker or reads off its position */
+    mode: 'place' | 'read';
+    /** Question shown above the line (e.g. "Wo liegt die 7?") */
+    question: string;
+    /** Smallest number on the line */
+    min: number;
+    /** Largest number on the line */
+    max: number;
+    /** Distance between two ticks */
+    tickInterval: number;
+    /** Ticks that show their number (default: min and max) */
+    labeledTicks?: number[];
+    /** Marker step for arrow keys and pointer snapping (default: tickInterval) */
+    step?: number;
+    /** The number to place or the marked number to read off */
+    target: number;
+    /** Allowed deviation from the target (default: 0) */
+    tolerance?: number;
+}
+
+/**
+ * Analog clock exercise content.
+ * User reads the time off the clock ('read') or sets the hands to
+ * a given time ('set').
+ */
+export interface ClockContent {
+    /** Discriminant for exercise content union */
+    type: 'clock';
+    /** Whether the child reads the clock or sets the hands */
+    mode: 'read' | 'set';
+    /** Question shown above the clock (e.g. "Wie spät ist es?") */
+    question: string;
+    /** Target time as "H:MM" in 24-hour format (e.g. "15:30") */
+    time: string;
+    /**
+     * Accepted answers in read mode: '12h' accepts the time on either
+     * half of the day (3:30 and 15:30), '24h' needs the exact hour (default: '12h')
+     */
+    answerFormat?: '12h' | '24h';
+    /** Digital times to choose from in read mode; without options the time is typed */
+    options?: string[];
+    /** Minutes the minute hand snaps to in set mode (default: 5) */
+    minuteStep?: number;
+}
+
+/**
+ * Audio attached to an exercise.
+ * A bundled file is played when present; the text is spoken with the
+ * browser's speech synthesis when there is no file or it cannot be played.
+ */
+export interface ExerciseAudio {
+    /** Bundled audio file relative to the app (e.g. "assets/audio/hund.mp3") */
+    src?: string;
+    /** Text to speak */
+    text?: string;
+    /** BCP 47 language of the text (default: "de-DE") */
+    lang?: string;
+}
+
+/**
+ * Listening exercise content.
+ * User listens to a word or sentence and chooses what was heard.
+ */
+export interface ListeningContent {
+    /** Discriminant for exercise content union */
+    type: 'listening';
+    /** The audio to listen to */
+    audio: ExerciseAudio;
+    /** Optional question shown below the play button */
+    question?: string;
+    /** Answer options (words or emoji, so non-readers can answer too) */
+    options: string[];
+    /** Index of the correct option (0-based) */
+    correctIndex: number;
+    /** Whether the audio plays when the exercise opens (default: true) */
+    autoPlay?: boolean;
+}
+
+/**
+ * Tappable area of a hotspot picture.
+ * Coordinates use the picture's coordinate system (see HotspotContent).
+ */
+export interface HotspotRegion {
+    /** Unique id within the exercise (e.g. "bauch") */
+    id: string;
+    /** Name of the area, read by screen readers and shown in the feedback */
+    label: string;
+    /** Outline of the area */
+    shape: 'circle' | 'polygon';
+    /** Circle center and radius (circle only) */
+    cx?: number;
+    cy?: number;
+    r?: number;
+    /** Corner points as [x, y] pairs (polygon only, at least 3) */
+    points?: [number, number][];
+    /** Feedback shown for this area after checking (e.g. why it is wrong) */
+    feedback?: string;
+}
+
+/**
+ * Hotspot exercise content.
+ * User taps the area(s) of a picture the question asks for.
+ */
+export interface HotspotContent {
+    /** Discriminant for exercise content union */
+    type: 'hotspot';
+    /** Question shown above the picture (e.g. "Tippe auf das Knie.") */
+    question: string;
+    /** The picture */
+    image: ExerciseImage;
+    /** Width and height of the coordinate system of the regions (e.g. the picture's size in pixels) */
+    width: number;
+    height: number;
+    /** Areas that can be tapped */
+    regions: HotspotRegion[];
+    /** Ids of the areas to find; with more than one the child selects several */
+    correctRegionIds: string[];
+}
+
+/**
+ * Sequence exercise content.
+ * User puts cards (steps, story panels, events) into the right order.
+ */
+export interface SequenceContent {
+    /** Discriminant for exercise content union */
+    type: 'sequence';
+    /** Optional question shown above the cards */
+    question?: string;
+    /** The cards in the correct order; a card may span several lines */
+    correctOrder: string[];
+    /** Additional valid orders of the same cards */
+    alternateOrders?: string[][];
+    /** Optional pictures for cards, keyed by card text */
+    images?: Record<string, ExerciseImage>;
+    /** Score the share of cards in the right order instead of all or nothing (default: false) */
+    partialCredit?: boolean;
+    /** Share of cards (0-1) that must be in the right order with partial credit (default: 0.5) */
+    passRatio?: number;
+}
+
+/**
+ * Memory exercise content.
+ * User turns over two cards at a time to find the pairs.
+ */
+export interface MemoryContent {
+    /** Discriminant for exercise content union */
+    type: 'memory';
+    /** Pairs of cards that belong together (same as matching); both cards may show the same text */
+    pairs: MatchingContent['pairs'];
+    /** Optional pictures shown on the cards, keyed by card text */
+    images?: Record<string, ExerciseImage>;
+}
+
+/**
+ * Word of a crossword with its clue.
+ */
+export interface CrosswordEntry {
+    /** The answer (a single word, letters only) */
+    word: string;
+    /** The clue shown in the list of clues */
+    clue: string;
+}
+
+/**
+ * Crossword exercise content.
+ * Authors only list words and clues; the engine lays out the grid.
+ */
+export interface CrosswordContent {
+    /** Discriminant for exercise content union */
+    type: 'crossword';
+    /** Words and clues to place in the grid */
+    words: CrosswordEntry[];
+    /** Seed for the grid layout; another seed gives another layout (default: 1) */
+    seed?: number;
+}
+
+/**
+ * Operation of a written column calculation.
+ */
+export type ColumnOperation = '+' | '-';
+
+/**
+ * Arithmetic exercise content.
+ * The child types the result of a task with the number keypad ('input')
+ * or calculates it in writing, column by column with carries ('column').
+ */
+export interface ArithmeticContent {
+    /** Discriminant for exercise content union */
+    type: 'arithmetic';
+    /** Whether the result is typed in one field or calculated in columns */
+    mode: 'input' | 'column';
+    /** Task shown above the answer field (e.g. "3/4 − 1/2 =") */
+    question?: string;
+    /** Input mode: the result as a whole number, decimal ("0,75") or fraction ("3/4") */
+    answer?: string;
+    /** Input mode: whether equivalent numbers count (e.g. "0,5" for "1/2"; default: true) */
+    acceptEquivalent?: boolean;
+    /** Column mode: the whole numbers written below each other */
+    operands?: number[];
+    /** Column mode: the operation */
+    operation?: ColumnOperation;
+    /** Column mode: whether carry cells are shown (default: true) */
+    showCarries?: boolean;
+    /** Column mode: score the share of correct columns instead of all or nothing (default: false) */
+    partialCredit?: boolean;
+}
+
+/**
+ * Drawing exercise content.
+ * The child draws on a canvas with a pen in several colours and an eraser.
+ * Drawings are not checked automatically: the finished picture is saved
+ * with the result, and the teacher looks at it in the teacher dashboard.
+ */
+export interface DrawingContent {
+    /** Discriminant for exercise content union */
+    type: 'drawing';
+    /** Task shown above the canvas (e.g. "Zeichne einen Kreis.") */
+    prompt: string;
+    /** Canvas width in pixels (default: 400) */
+    width?: number;
+    /** Canvas height in pixels (default: 300) */
+    height?: number;
+    /** Pen colours (default: the palette of the theme) */
+    colors?: string[];
+    /** Dashed outline to trace, as SVG path data in canvas pixels (e.g. "M 100 150 L 300 150") */
+    trace?: string;
+}
+
+/**
+ * Clef of a staff.
+ */
+export type MusicClef = 'treble' | 'bass';
+
+/**
+ * Note reading exercise content.
+ * Notes are written in a compact text format and shown on a staff;
+ * the child names every note (rests are skipped).
+ *
+ * Notation: notes separated by spaces, each a pitch and a duration
+ * (`C4/4` is a quarter note C4, `F#4/8` an eighth note F sharp, `Bb3/2.`
+ * a dotted half note B flat), `r/4` for a rest and `|` for a bar line.
+ * The duration may be left out for quarter notes (`C4 D4 E4`).
+ */
+export interface NoteReadingContent {
+    /** Discriminant for exercise content union */
+    type: 'note-reading';
+    /** Notes to name (e.g. "C4/4 D4/4 E4/2 | G4/1") */
+    notation: string;
+    /** Clef of the staff (default: 'treble') */
+    clef?: MusicClef;
+    /** Tempo of playback in quarter notes per minute (default: 90) */
+    tempo?: number;
+    /** Score the share of correctly named notes instead of all or nothing (default: false) */
+    partialCredit?: boolean;
+}
+
+/**
+ * Rhythm exercise content.
+ * The rhythm is shown on a one-line staff and can be played; the child
+ * taps it back. Taps count when they are within the tolerance of a beat,
+ * measured from the first tap.
+ *
+ * Notation as for note reading, with `x` for an unpitched beat
+ * (`x/4 x/8 x/8 r/4 x/4`); pitched notes are played with their pitch.
+ */
+export interface RhythmContent {
+    /** Discriminant for exercise content union */
+    type: 'rhythm';
+    /** Rhythm to tap (e.g. "x/4 x/8 x/8 | x/4 r/4") */
+    notation: string;
+    /** Tempo in quarter notes per minute (default: 90) */
+    tempo?: number;
+    /** Allowed timing difference of a tap in milliseconds (default: 150) */
+    tolerance?: number;
+    /** Share of beats that must be hit to pass, 0-1 (default: 0.75) */
+    minAccuracy?: number;
+}
+
+/**
+ * Syllables exercise content.
+ * The child splits a word into syllables by tapping between its letters,
+ * or a run-together sentence into words ('split'), or claps and counts
+ * the syllables or words ('count').
+ *
+ * Segmentations mark each boundary with `|` ("Ba|na|ne",
+ * "Der|Hund|bellt"); the shown text is the segmentation without the
+ * marks. List every accepted segmentation ("Nes|ter" and "Ne|ster").
+ */
+export interface SyllablesContent {
+    /** Discriminant for exercise content union */
+    type: 'syllables';
+    /** Whether the child marks the boundaries or counts the parts (default: 'split') */
+    mode?: 'split' | 'count';
+    /** Whether the text is split into syllables or words (default: 'syllable') */
+    unit?: 'syllable' | 'word';
+    /** Accepted segmentations of the same text, the first one is shown as the solution */
+    segmentations: string[];
+}
+
 /**
  * Discriminated union for all exercise content types.
  * The 'type' field determines which content shape is used.
@@ -217,7 +589,20 @@ export type ExerciseContent =
     | ConjugationTableContent
     | ConnectorInsertContent
     | WordOrderContent
-    | PictureVocabularyContent;
+    | PictureVocabularyContent
+    | ClozeTextContent
+    | NumberLineContent
+    | ClockContent
+    | ListeningContent
+    | HotspotContent
+    | SequenceContent
+    | MemoryContent
+    | CrosswordContent
+    | ArithmeticContent
+    | DrawingContent
+    | NoteReadingContent
+    | RhythmContent
+    | SyllablesContent;
 
 // ============================================================================
 // Exercise Definition
@@ -229,6 +614,40 @@ export type ExerciseContent =
  */
 export type ExerciseDifficulty = 1 | 2 | 3;
 
+/**
+ * Range a template variable is drawn from.
+ */
+export interface TemplateVariable {
+    /** Smallest value */
+    min: number;
+    /** Largest value */
+    max: number;
+    /** Distance between two possible values (default: 1) */
+    step?: number;
+    /** Values that are never drawn */
+    exclude?: number[];
+}
+
+/**
+ * Template that generates fresh exercises from random numbers.
+ * `{name}` placeholders in the instruction, content, hints and feedback
+ * are replaced with the drawn variables and the formula results.
+ * Constraints, formulas and distractors are expressions such as `a + b`
+ * (see badgeExpression.ts for the syntax).
+ */
+export interface ExerciseTemplate {
+    /** Variables and the ranges they are drawn from */
+    variables: Record<string, TemplateVariable>;
+    /** Conditions every draw has to meet (e.g. "a > b") */
+    constraints?: string[];
+    /** Values computed from the variables, in order (e.g. { "answer": "a + b" }) */
+    formulas?: Record<string, string>;
+    /** Multiple choice: wrong options computed from the values (e.g. "answer + 1"); needs an "answer" formula */
+    distractors?: string[];
+    /** Fixed seed, so every session draws the same numbers */
+    seed?: number;
+}
+
 /**
  * Complete exercise definition.
  * Represents a single exercise with all its metadata and content.
@@ -246,16 +665,22 @@ export interface Exercise {
     level: number;
     /** Difficulty rating (1-3) */
     difficulty: ExerciseDifficulty;
+    /** Expected time in seconds, overrides the per-type expected time */
+    expectedTimeSeconds?: number;
     /** Instruction text displayed to the user */
     instruction: string;
     /** Exercise-specific content (discriminated by type) */
     content: ExerciseContent;
+    /** Audio played with the instruction (e.g. for children who cannot read yet) */
+    audio?: ExerciseAudio;
     /** Array of hints available to the user */
     hints: string[];
     /** Feedback message shown on correct answer */
     feedbackCorrect: string;
     /** Feedback message shown on incorrect answer */
     feedbackIncorrect: string;
+    /** Template the exercise is generated from at the start of each session */
+    template?: ExerciseTemplate;
 }
 
 // ============================================================================
@@ -295,4 +720,10 @@ export interface ExerciseResult {
     timeSpentSeconds: number;
     /** ISO 8601 timestamp when the exercise was completed */
     completedAt: string;
+    /** Drawing exercises: the finished picture as a PNG data URL */
+    drawing?: string;
+    /** Drawing exercises: the teacher's comment on the picture */
+    teacherComment?: string;
+    /** Drawing exercises: ISO 8601 timestamp when the teacher reviewed the picture */
+    reviewedAt?: string;
 }
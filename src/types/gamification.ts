@@ -244,3 +244,66 @@ export interface LeaderboardConfig {
     /** Whether to include current user even if not in top */
     includeCurrentUser: boolean;
 }
+
+// ============================================================================
+// Daily Challenge Types
+// ============================================================================
+
+/**
+ * Daily challenge round.
+ * The bonus round unlocks after the regular daily round is completed.
+ */
+export type DailyChallengeRound = 'daily' | 'bonus';
+
+/**
+ * Completion record for a daily challenge round.
+ * Stored per profile and date in IndexedDB.
+ */
+export interface DailyChallengeRecord {
+    /** Unique identifier (profile, date and round) */
+    id: string;
+    /** Profile that completed the round */
+    childProfileId: string;
+    /** Local calendar date (YYYY-MM-DD) of the challenge */
+    date: string;
+    /** Which round was completed */
+    round: DailyChallengeRound;
+    /** IDs of the exercises played in this round */
+    exerciseIds: string[];
+    /** Number of exercises solved correctly */
+    correctCount: number;
+    /** Bonus stars awarded for the round */
+    starsEarned: number;
+    /** ISO 8601 timestamp of completion */
+    completedAt: string;
+}
+
+// ============================================================================
+// Spaced Repetition Types
+// ============================================================================
+
+/**
+ * Review schedule of one exercise for one profile.
+ * Combines a Leitner box with SM-2 ease and interval values.
+ * Stored per profile in IndexedDB.
+ */
+export interface ReviewState {
+    /** Unique identifier (profile and exercise) */
+    id: string;
+    /** Profile the schedule belongs to */
+    childProfileId: string;
+    /** The scheduled exercise */
+    exerciseId: string;
+    /** Leitner box (1 = review soon, 5 = well known) */
+    box: number;
+    /** SM-2 ease factor (>= 1.3) */
+    easeFactor: number;
+    /** Number of successful reviews in a row */
+    repetitions: number;
+    /** Days until the next review */
+    intervalDays: number;
+    /** Local calendar date (YYYY-MM-DD) the exercise is due again */
+    dueDate: string;
+    /** ISO 8601 timestamp of the latest result applied to this schedule */
+    lastReviewedAt: string;
+}
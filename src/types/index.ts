@@ -28,8 +28,30 @@ export type {
     ConnectorInsertContent,
     WordOrderContent,
     PictureVocabularyContent,
+    ClozeBlank,
+    ClozeTextContent,
+    NumberLineContent,
+    ClockContent,
+    ExerciseAudio,
+    ExerciseImage,
+    ListeningContent,
+    HotspotRegion,
+    HotspotContent,
+    SequenceContent,
+    MemoryContent,
+    CrosswordEntry,
+    CrosswordContent,
+    ColumnOperation,
+    ArithmeticContent,
+    DrawingContent,
+    MusicClef,
+    NoteReadingContent,
+    RhythmContent,
+    SyllablesContent,
     ExerciseContent,
     ExerciseDifficulty,
+    TemplateVariable,
+    ExerciseTemplate,
     Exercise,
     StarRating,
     ExerciseResult,
@@ -43,6 +65,8 @@ export type {
     SubjectConfig,
     ExerciseTypeConfig,
     ScoringRule,
+    LevelUnlockRule,
+    LevelProgressionConfig,
     ObservationCategory,
     ObservationStage,
     ObservationArea,
@@ -103,6 +127,9 @@ export type {
     LeaderboardEntry,
     LeaderboardTimeFrame,
     LeaderboardConfig,
+    DailyChallengeRound,
+    DailyChallengeRecord,
+    ReviewState,
 } from './gamification';
 
 // ============================================================================
@@ -71,6 +71,8 @@ export interface UserProfile {
     themeProgress: Record<ThemeId, ThemeProgress>;
     /** Highest completed level per theme (1-4). Tracks which level user has finished per theme. */
     themeLevels?: Record<ThemeId, number>;
+    /** ISO 8601 timestamp when the placement test was finished or skipped */
+    placementCompletedAt?: string;
     /** Badges earned by this user */
     badges: Badge[];
 }
@@ -123,6 +125,8 @@ export interface StudentProfile {
     supportMeasure: SupportMeasure;
     /** Additional notes about the student */
     notes: string;
+    /** IDs of the child profiles (UserProfile) on this device that belong to the student */
+    linkedProfileIds: string[];
     /** ISO 8601 timestamp when profile was created */
     createdAt: string;
     /** ISO 8601 timestamp when profile was last updated */
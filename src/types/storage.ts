@@ -43,7 +43,10 @@ export type StoreName =
     | 'results'
     | 'observations'
     | 'foerderplaene'
-    | 'settings';
+    | 'settings'
+    | 'dailyChallenges'
+    | 'students'
+    | 'reviewStates';
 
 /**
  * IndexedDB store names as const array for runtime use.
@@ -54,6 +57,9 @@ export const STORE_NAMES = [
     'observations',
     'foerderplaene',
     'settings',
+    'dailyChallenges',
+    'students',
+    'reviewStates',
 ] as const satisfies readonly StoreName[];
 
 // ============================================================================
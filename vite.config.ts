@@ -1,6 +1,8 @@
 import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 import { fileURLToPath, URL } from 'node:url';
+import { createReadStream, existsSync, statSync } from 'node:fs';
+import { extname, join } from 'node:path';
 
 /**
  * Vite plugin for file:// protocol compatibility.
@@ -66,9 +68,53 @@ function titleInjectionPlugin(): Plugin {
     };
 }
 
+/**
+ * Content types of app assets served in development.
+ */
+const ASSET_CONTENT_TYPES: Record<string, string> = {
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.mp3': 'audio/mpeg',
+    '.ogg': 'audio/ogg',
+    '.wav': 'audio/wav',
+};
+
+/**
+ * Vite plugin that serves the current app's assets in development.
+ * Exercises reference pictures and audio as "assets/..." relative to the app.
+ * The build copies src/apps/<id>/assets/ next to index.html; this plugin
+ * serves the same folder from the dev server.
+ */
+function appAssetsPlugin(): Plugin {
+    return {
+        name: 'app-assets',
+        apply: 'serve',
+        configureServer(server) {
+            const appId = process.env.VITE_APP_ID;
+            if (!appId) return;
+
+            const assetsDir = fileURLToPath(new URL(`./src/apps/${appId}/assets`, import.meta.url));
+            server.middlewares.use('/assets', (req, res, next) => {
+                const relativePath = decodeURIComponent((req.url ?? '').split('?')[0] ?? '');
+                const filePath = join(assetsDir, relativePath);
+                if (!filePath.startsWith(assetsDir) || !existsSync(filePath) || !statSync(filePath).isFile()) {
+                    next();
+                    return;
+                }
+                res.setHeader('Content-Type', ASSET_CONTENT_TYPES[extname(filePath).toLowerCase()] ?? 'application/octet-stream');
+                createReadStream(filePath).pipe(res);
+            });
+        },
+    };
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-    plugins: [react(), titleInjectionPlugin(), fileProtocolPlugin()],
+    plugins: [react(), titleInjectionPlugin(), fileProtocolPlugin(), appAssetsPlugin()],
     // Define compile-time constants for VITE_APP_ID
     // This allows the app to know its ID at build time without runtime config
     define: {